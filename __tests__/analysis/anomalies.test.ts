@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { detectTimeSeriesAnomalies, inferBucket, seriesFromRows } from '../../src/analysis/anomalies.js';
+import { buildAnalysisPlan } from '../../src/analysis/planner.js';
+import { executePlan } from '../../src/analysis/findings.js';
+import { handleVisualizeCore } from '../../src/mcp/tools/visualize.js';
+import { selectPatternsCallback } from '../../src/patterns/select-callback.js';
+import { specStore } from '../../src/mcp/spec-store.js';
+import { SourceManager } from '../../src/connectors/manager.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+const month = (i: number) => `${2020 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`;
+/** Deterministic noise in [-5, 5]. */
+const noise = (i: number) => ((i * 37) % 11) - 5;
+const monthly = (n: number, f: (i: number) => number) => Array.from({ length: n }, (_, i) => ({ period: month(i), value: f(i) }));
+
+describe('time-series anomalies', () => {
+  it('flag a spike with its expected value, and nothing else', () => {
+    const result = detectTimeSeriesAnomalies(monthly(24, (i) => 100 + noise(i) + (i === 10 ? 80 : 0)), 'month')!;
+    expect(result.changePoints).toEqual([]);
+    expect(result.anomalies).toHaveLength(1);
+    const [spike] = result.anomalies;
+    expect(spike).toMatchObject({ period: '2020-11', direction: 'spike' });
+    expect(spike.expected).toBeCloseTo(100, -1);
+    expect(spike.score).toBeGreaterThan(3.5);
+    expect(result.annotations).toEqual([{ date: '2020-11', kind: 'point', value: spike.value, label: `Spike +${spike.pctDeviation}%` }]);
+  });
+
+  it('find a level shift without calling its periods anomalies', () => {
+    const result = detectTimeSeriesAnomalies(monthly(24, (i) => (i < 14 ? 200 : 120) + noise(i)), 'month')!;
+    expect(result.anomalies).toEqual([]);
+    expect(result.changePoints).toHaveLength(1);
+    const [shift] = result.changePoints;
+    expect(shift.period).toBe('2021-03');
+    expect(shift.before).toBeCloseTo(200, -1);
+    expect(shift.after).toBeCloseTo(120, -1);
+    expect(shift.pctChange).toBeCloseTo(-40, 0);
+    expect(result.annotations[0]).toEqual({ date: '2021-03', kind: 'change', label: `Level shift ${shift.pctChange}%` });
+  });
+
+  it('leave a steady trend and a regular season alone', () => {
+    expect(detectTimeSeriesAnomalies(monthly(24, (i) => 100 + 10 * i + noise(i)), 'month')).toMatchObject({ anomalies: [], changePoints: [] });
+
+    // Every December runs 60 high: the season, not an anomaly — unless the bucket is unknown.
+    const december = monthly(36, (i) => 100 + (i % 12 === 11 ? 60 : 0) + noise(i));
+    expect(detectTimeSeriesAnomalies(december, 'month')).toMatchObject({ anomalies: [], changePoints: [], seasonLength: 12 });
+    expect(detectTimeSeriesAnomalies(december)!.anomalies.map((a) => a.period)).toEqual(['2020-12', '2021-12', '2022-12']);
+
+    // An off-season drop still stands out once the season is removed.
+    const dropped = december.map((p, i) => (i === 20 ? { ...p, value: p.value - 50 } : p));
+    const result = detectTimeSeriesAnomalies(dropped, 'month')!;
+    expect(result.anomalies.map((a) => [a.period, a.direction])).toEqual([['2021-09', 'drop']]);
+    expect(result.changePoints).toEqual([]);
+    expect(detectTimeSeriesAnomalies(monthly(7, (i) => i))).toBeNull();
+  });
+
+  it('read periods and buckets from query rows', () => {
+    expect(inferBucket(['2023-Q1', '2023-Q2'])).toBe('quarter');
+    expect(inferBucket(['2023-W01', '2023-W02'])).toBe('week');
+    expect(inferBucket(['2023-01', '2023-02'])).toBe('month');
+    expect(inferBucket(['2023-01-01', '2023-01-02'])).toBe('day');
+    expect(inferBucket(['2023-01', 'later'])).toBeUndefined();
+    const rows = [
+      { m: '2023-02', region: 'n', v: 5 }, { m: '2023-01', region: 'n', v: 1 },
+      { m: '2023-01', region: 's', v: '2' }, { m: '2023-02', region: 's', v: null }, { m: null, region: 's', v: 9 },
+    ];
+    expect(seriesFromRows(rows, 'm', 'v')).toEqual([{ period: '2023-01', value: 3 }, { period: '2023-02', value: 5 }]);
+  });
+});
+
+describe('anomalies in executed trends and charts', () => {
+  let dir: string;
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'anomalies-'));
+    // 24 months of orders on two days a month (so the planner buckets by month); revenue
+    // drops by about half from 2023-07.
+    const lines = ['order_id,order_date,channel,revenue'];
+    let id = 1;
+    for (let m = 0; m < 24; m++) {
+      for (let k = 0; k < 6; k++) {
+        const date = `${2022 + Math.floor(m / 12)}-${String((m % 12) + 1).padStart(2, '0')}-${k < 3 ? 10 : 20}`;
+        lines.push(`${id++},${date},${['web', 'store'][k % 2]},${(m < 18 ? 200 : 100) + ((m * 7 + k * 13) % 9)}`);
+      }
+    }
+    fs.writeFileSync(path.join(dir, 'orders.csv'), lines.join('\n') + '\n');
+  });
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('report level shifts in a trend step\'s verdict', async () => {
+    const manager = new SourceManager();
+    await manager.add('shop', { type: 'csv', path: dir });
+    const orders = (await manager.getSchema('shop')).schema!.tables[0];
+    const plan = buildAnalysisPlan(orders.columns, 'orders', 'shop', 10);
+    const step = plan.steps.find((s) => s.category === 'trend' && s.fields?.value)!;
+    expect(step.fields!.bucket).toBe('month');
+    const [finding] = await executePlan({ ...plan, steps: [step] }, (sql) => manager.querySql('shop', sql), 'sqlite');
+    expect(finding.anomalies!.changePoints.map((c) => c.period)).toEqual(['2023-07']);
+    expect(finding.anomalies!.anomalies).toEqual([]);
+    expect(finding.verdict).toMatch(/ The level shifts at 2023-07, from 1,2\d\d to 6\d\d \(-4\d(\.\d)?%\)\.$/);
+    await manager.closeAll();
+  });
+
+  it('mark detected anomalies on a line chart', () => {
+    const data = monthly(24, (i) => 100 + noise(i) + (i === 10 ? 80 : 0)).map((p) => ({ month: p.period, sales: p.value }));
+    const core = handleVisualizeCore(selectPatternsCallback);
+    const body = JSON.parse(core(data, {
+      intent: 'sales over time', pattern: 'line', includeDataTable: false, annotateAnomalies: true,
+      annotations: [{ date: '2021-06', kind: 'change', label: 'Price rise' }],
+    }).content[0].text);
+    expect(body.notes).toContain('Marked 1 anomaly and 0 level shifts in sales.');
+    const spec = specStore.get(body.specId)!.spec as any;
+    expect(spec.config.annotations.map((a: any) => [a.date, a.kind])).toEqual([['2021-06', 'change'], ['2020-11', 'point']]);
+
+    const bar = JSON.parse(core(data, { intent: 'sales', pattern: 'bar', annotateAnomalies: true }).content[0].text);
+    expect(bar.notes).toContain('Annotations apply to line and area charts only; the bar chart was drawn without them.');
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySuppressions,
+  defaultFailOn,
+  failingFindings,
+  sarifArtifactUri,
+  toJUnit,
+  toMarkdown,
+  toSarif,
+  validateAuditConfig,
+  type AuditReport,
+} from '../../src/analysis/audit-report.js';
+import { AUDIT_CHECKS, auditCheckOf, type QualityFinding } from '../../src/analysis/quality.js';
+import type { DriftReport } from '../../src/analysis/baseline.js';
+
+const finding = (severity: QualityFinding['severity'], table: string, column: string | undefined, issue: string, detail = 'detail'): QualityFinding =>
+  ({ severity, table, ...(column ? { column } : {}), issue, detail });
+
+const mixed = finding('high', 'orders', 'amount', 'mixed-type', 'Numbers & text <mixed>');
+const nulls = finding('low', 'orders', 'notes', 'some-null');
+const email = finding('medium', 'customers', 'email', 'pii-email');
+const orphans = finding('medium', 'orders', 'orders.customer_id → customers.customer_id', 'orphaned-foreign-key');
+
+function report(extra: Partial<AuditReport> = {}): AuditReport {
+  const { kept, suppressed } = applySuppressions([mixed, nulls, email, orphans], [{ column: 'email', issue: 'pii-*', reason: 'Test inbox' }]);
+  return { source: 'shop', tables: ['orders', 'customers'], findings: kept, suppressed, failOn: 'high', artifact: 'data/shop', ...extra };
+}
+
+describe('audit config and thresholds', () => {
+  it('validate suppressions', () => {
+    expect(validateAuditConfig({ suppress: [{ column: 'notes', reason: 'free text' }] }).errors).toEqual([]);
+    expect(validateAuditConfig({}).config).toEqual({ suppress: [], rules: [] });
+    expect(validateAuditConfig([]).errors).toEqual(['The check config must be a JSON object like {"suppress": [...]}.']);
+    expect(validateAuditConfig({ suppress: [{ reason: 'why' }, { column: 3 }, 'x'] }).errors).toEqual([
+      'suppress[0]: needs at least one of table, column, issue',
+      'suppress[1].column: must be a non-empty string',
+      'suppress[2]: must be an object with table, column and/or issue',
+    ]);
+  });
+
+  it('validate custom rules', () => {
+    const rules = [
+      { table: 'orders', column: 'sku', pattern: '^[A-Z]{3}-\\d{4}$', unique: true, severity: 'medium' },
+      { table: 'orders', name: 'discount-within-price', assert: 'discount <= price', description: 'Discounts never exceed the price.' },
+      { table: 'orders', name: 'late', query: 'WITH x AS (SELECT 1) SELECT * FROM x' },
+    ];
+    expect(validateAuditConfig({ rules })).toEqual({ config: { suppress: [], rules }, errors: [] });
+    expect(validateAuditConfig({ rules: [
+      { table: 'orders', column: 'sku', pattern: '(', unique: 'yes' },
+      { table: 'orders', column: 'sku', assert: 'x > 1' },
+      { table: 'orders', name: 'n', query: 'DELETE FROM orders', severity: 'critical' },
+      { column: 'sku', values: [] },
+      { table: 'orders', column: 'sku', regex: 'x' },
+    ] }).errors).toEqual([
+      'rules[0].unique: must be true or false',
+      'rules[0].pattern: Invalid regular expression: /(/: Unterminated group',
+      'rules[1]: an assertion takes no column or column constraints — make it a separate rule',
+      'rules[1]: an assertion needs a name',
+      'rules[2].severity: must be one of high, medium, low',
+      'rules[2].query: must be a SELECT returning the rows that break the rule',
+      'rules[3]: needs a table',
+      'rules[3].values: must be a non-empty array of strings and numbers',
+      'rules[4]: unknown field "regex" (use table, column, notNull, unique, min, max, pattern, values, name, assert, query, severity, description)',
+      'rules[4]: needs at least one constraint on sku (notNull, unique, min, max, pattern, values)',
+    ]);
+    expect(auditCheckOf('rule-assertion')).toBe('custom-rules');
+  });
+
+  it('suppress by table, column and issue, with wildcards', () => {
+    const findings = [mixed, nulls, email, orphans];
+    expect(applySuppressions(findings, [{ table: 'orders', issue: '*-null' }]).kept).toEqual([mixed, email, orphans]);
+    expect(applySuppressions(findings, [{ column: 'orders.*' }]).kept).toEqual([mixed, nulls, email]);
+    expect(applySuppressions(findings, [{ column: 'amount', issue: 'outliers' }]).kept).toHaveLength(4);
+    const { suppressed } = applySuppressions(findings, [{ issue: 'pii-*', reason: 'ok' }, { table: '*' }]);
+    expect(suppressed.map((s) => s.rule.reason ?? '*')).toEqual(['*', '*', 'ok', '*']);
+  });
+
+  it('fail at the threshold, and only on drift against a baseline', () => {
+    expect(failingFindings(report())).toEqual([mixed]);
+    expect(failingFindings(report({ failOn: 'medium' }))).toEqual([mixed, orphans]);
+    expect(failingFindings(report({ failOn: 'none' }))).toEqual([]);
+
+    const drift: DriftReport = { createdAt: '2026-01-02T00:00:00.000Z', drift: [finding('low', 'orders', 'region', 'column-added')], newFindings: [orphans], resolved: 1 };
+    expect(defaultFailOn(drift)).toBe('medium');
+    expect(failingFindings(report({ drift, failOn: defaultFailOn(drift) }))).toEqual([orphans]);
+    expect(failingFindings(report({ drift, failOn: 'low' }))).toHaveLength(2);
+  });
+
+  it('catalog every check, falling back to the issue', () => {
+    expect(auditCheckOf('pii-iban')).toBe('personal-data');
+    expect(auditCheckOf('join-fan-out')).toBe('referential-integrity');
+    expect(auditCheckOf('custom-rule')).toBe('custom-rule');
+    expect(new Set(Object.values(AUDIT_CHECKS).flat()).size).toBe(Object.values(AUDIT_CHECKS).flat().length);
+  });
+});
+
+describe('audit report formats', () => {
+  it('SARIF: a rule per issue, located results, suppressions kept', () => {
+    const sarif = toSarif(report()) as any;
+    expect(sarif.version).toBe('2.1.0');
+    const run = sarif.runs[0];
+    expect(run.tool.driver.rules.map((r: any) => r.id)).toEqual(['mixed-type', 'some-null', 'orphaned-foreign-key', 'pii-email']);
+    expect(run.tool.driver.rules[0]).toEqual({ id: 'mixed-type', shortDescription: { text: 'Mixed type' }, properties: { tags: ['type-traps'] } });
+    expect(run.results.map((r: any) => [r.ruleId, r.level, r.locations[0].logicalLocations[0].fullyQualifiedName])).toEqual([
+      ['mixed-type', 'error', 'orders.amount'],
+      ['some-null', 'note', 'orders.notes'],
+      ['orphaned-foreign-key', 'warning', 'orders.customer_id → customers.customer_id'],
+      ['pii-email', 'warning', 'customers.email'],
+    ]);
+    expect(run.results[0].locations[0].physicalLocation).toEqual({ artifactLocation: { uri: 'data/shop' } });
+    expect(run.results[3].suppressions).toEqual([{ kind: 'external', justification: 'Test inbox' }]);
+    expect(run.results[0].suppressions).toBeUndefined();
+    expect(run.results[0].partialFingerprints).toEqual({ 'dolexFinding/v1': 'orders/amount/mixed-type' });
+
+    const drift: DriftReport = { createdAt: '2026-01-02T00:00:00.000Z', drift: [finding('high', 'orders', 'amount', 'column-retyped')], newFindings: [mixed], resolved: 0 };
+    const states = (toSarif(report({ drift })) as any).runs[0].results.map((r: any) => [r.ruleId, r.baselineState]);
+    expect(states).toEqual([
+      ['mixed-type', 'new'], ['some-null', 'unchanged'], ['orphaned-foreign-key', 'unchanged'],
+      ['column-retyped', 'new'], ['pii-email', undefined],
+    ]);
+  });
+
+  it('SARIF artifact URIs are repository-relative when they can be', () => {
+    expect(sarifArtifactUri('data/sales.csv', '/repo')).toBe('data/sales.csv');
+    expect(sarifArtifactUri('/repo/data/', '/repo')).toBe('data');
+    expect(sarifArtifactUri('/elsewhere/sales.csv', '/repo')).toBe('file:///elsewhere/sales.csv');
+  });
+
+  it('JUnit: a case per table × check, failing at the threshold', () => {
+    const xml = toJUnit(report());
+    expect(xml).toContain('<testsuites name="dolex check — shop" tests="26" failures="1" errors="0">');
+    expect(xml).toContain('<testsuite name="orders" tests="13" failures="1" errors="0" skipped="0">');
+    expect(xml).toContain('<testcase classname="dolex.check.orders" name="type-traps" time="0">\n      <failure message="1 finding at or above HIGH" type="mixed-type">[HIGH] amount (mixed-type) Numbers &amp; text &lt;mixed&gt;</failure>');
+    expect(xml).toContain('<testcase classname="dolex.check.orders" name="outliers" time="0" />');
+    expect(xml).toContain('<system-out>[LOW] notes (some-null) detail</system-out>');
+    expect(xml).toContain('<system-out>suppressed: [MEDIUM] email (pii-email) detail — Test inbox</system-out>');
+
+    expect(toJUnit(report({ failOn: 'medium' }))).toContain('tests="26" failures="2"');
+    const drift: DriftReport = { createdAt: '2026-01-02T00:00:00.000Z', drift: [finding('high', 'orders', undefined, 'row-count-change')], newFindings: [], resolved: 0 };
+    const drifted = toJUnit(report({ drift, failOn: 'medium' }));
+    expect(drifted).toContain('tests="28" failures="1"');
+    expect(drifted).toContain('name="baseline-drift" time="0">\n      <failure message="1 finding at or above MEDIUM" type="row-count-change">');
+  });
+
+  it('Markdown: counts, an escaped findings table, suppressions and the verdict', () => {
+    const md = toMarkdown(report());
+    expect(md.split('\n').slice(0, 7)).toEqual([
+      '## Data check — shop',
+      '',
+      '**1 high · 1 medium · 1 low** · 1 suppressed',
+      '',
+      '| Severity | Table | Column | Issue | Detail |',
+      '| --- | --- | --- | --- | --- |',
+      '| HIGH | orders | amount | `mixed-type` | Numbers & text \\<mixed\\> |',
+    ]);
+    expect(md).toContain('- customers.email `pii-email` — Test inbox');
+    expect(md.endsWith('**Result: fail** — 1 finding at or above HIGH')).toBe(true);
+    expect(toMarkdown(report({ failOn: 'none' })).endsWith('**Result: pass** (no failure threshold)')).toBe(true);
+
+    const drift: DriftReport = { createdAt: '2026-01-02T00:00:00.000Z', drift: [], newFindings: [nulls], resolved: 2 };
+    const md2 = toMarkdown(report({ drift, failOn: 'medium' }));
+    expect(md2).toContain('| LOW | orders | notes | `some-null` *new* | detail |');
+    expect(md2).toContain('### Drift since the baseline of 2026-01-02\n\nNo schema, volume or distribution changes.\n\n1 new finding (marked *new* above) · 2 baseline findings resolved');
+    expect(md2.endsWith('**Result: pass** at MEDIUM')).toBe(true);
+  });
+});
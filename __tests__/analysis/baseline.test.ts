@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  baselinePath,
+  categoricalShift,
+  compareToBaseline,
+  numericShift,
+  readBaseline,
+  snapshotBaseline,
+  writeBaseline,
+} from '../../src/analysis/baseline.js';
+import { auditDataset } from '../../src/analysis/quality.js';
+import { SourceManager } from '../../src/connectors/manager.js';
+import type { DataColumn } from '../../src/types.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+function col(partial: Partial<DataColumn> & { name: string }): DataColumn {
+  return { type: 'categorical', sampleValues: [], uniqueCount: 0, nullCount: 0, totalCount: 1000, ...partial } as DataColumn;
+}
+const stats = (min: number, p25: number, median: number, p75: number, max: number) => ({ min, p25, median, p75, max, mean: median, stddev: (p75 - p25) / 1.35 });
+
+describe('distribution shift', () => {
+  it('score numeric shift from quartile summaries', () => {
+    const base = stats(0, 25, 50, 75, 100);
+    expect(numericShift(base, base)).toEqual({ psi: 0, ks: 0 });
+    const nudged = numericShift(base, stats(2, 27, 52, 77, 102));
+    expect(nudged.psi).toBeLessThan(0.01);
+    expect(nudged.ks).toBeCloseTo(0.02, 5);
+    const moved = numericShift(base, stats(40, 65, 90, 115, 140));
+    expect(moved.psi).toBeGreaterThan(0.25);
+    expect(moved.ks).toBeCloseTo(0.4, 5);
+    // Constant columns: the same constant is no shift, a different one is total.
+    expect(numericShift(stats(7, 7, 7, 7, 7), stats(7, 7, 7, 7, 7)).psi).toBe(0);
+    expect(numericShift(stats(7, 7, 7, 7, 7), stats(9, 9, 9, 9, 9)).ks).toBe(1);
+  });
+
+  it('score categorical shift over the baseline categories', () => {
+    const before = [{ value: 'a', count: 50 }, { value: 'b', count: 30 }, { value: 'c', count: 20 }];
+    expect(categoricalShift(before, 100, before, 100, 3).psi).toBe(0);
+    const after = [{ value: 'a', count: 20 }, { value: 'b', count: 30 }, { value: 'd', count: 50 }];
+    const shift = categoricalShift(before, 100, after, 100, 3);
+    expect(shift.psi).toBeGreaterThan(1);
+    expect(shift.movers.map((m) => m.value)).toEqual(['a', 'c', 'b']);
+    // A category missing from a truncated list is unknown, not zero.
+    expect(categoricalShift(before, 100, after.slice(0, 2), 100, 40).movers.map((m) => m.value)).toEqual(['a', 'b']);
+  });
+});
+
+describe('compareToBaseline', () => {
+  const table = (columns: DataColumn[], rowCount = 1000) => ({ name: 'orders', columns, rowCount });
+  const before = table([
+    col({ name: 'id', type: 'id', uniqueCount: 1000 }),
+    col({ name: 'amount', type: 'numeric', nullCount: 20, stats: stats(0, 25, 50, 75, 100) }),
+    col({ name: 'status', uniqueCount: 2, topValues: [{ value: 'open', count: 600 }, { value: 'closed', count: 400 }] }),
+    col({ name: 'legacy', type: 'text', uniqueCount: 900 }),
+  ]);
+  const baseline = snapshotBaseline([before], [{ severity: 'high', table: 'orders', column: 'legacy', issue: 'mostly-null', detail: '…', suggestion: '…' }], null, new Date('2026-01-02T00:00:00Z'));
+
+  it('snapshot the profile without samples or suggestions', () => {
+    expect(baseline.createdAt).toBe('2026-01-02T00:00:00.000Z');
+    expect(baseline.tables[0].columns[1]).toEqual({ name: 'amount', type: 'numeric', nullCount: 20, totalCount: 1000, uniqueCount: 0, stats: stats(0, 25, 50, 75, 100) });
+    expect(baseline.findings).toEqual([{ severity: 'high', table: 'orders', column: 'legacy', issue: 'mostly-null', detail: '…' }]);
+  });
+
+  it('report nothing for the same data', () => {
+    expect(compareToBaseline(baseline, [before], [{ severity: 'high', table: 'orders', column: 'legacy', issue: 'mostly-null', detail: 'x' }]))
+      .toEqual({ createdAt: baseline.createdAt, drift: [], newFindings: [], resolved: 0 });
+  });
+
+  it('report schema, volume, null-rate and distribution drift', () => {
+    const now = table([
+      col({ name: 'id', type: 'id', uniqueCount: 400, totalCount: 400 }),
+      col({ name: 'amount', type: 'numeric', nullCount: 240, totalCount: 400, stats: stats(0, 25, 50, 75, 100) }),
+      col({ name: 'status', totalCount: 400, uniqueCount: 3, topValues: [{ value: 'open', count: 200 }, { value: 'closed', count: 150 }, { value: 'Closed', count: 50 }] }),
+      col({ name: 'region', totalCount: 400, uniqueCount: 4 }),
+    ], 400);
+    const fresh = { severity: 'medium' as const, table: 'orders', column: 'status', issue: 'dirty-categories', detail: 'x' };
+    const report = compareToBaseline(baseline, [now], [fresh]);
+    expect(report.drift.map((f) => [f.column ?? '', f.issue, f.severity])).toEqual([
+      ['', 'row-count-change', 'high'],
+      ['amount', 'null-rate-shift', 'high'],
+      ['status', 'distribution-shift', 'high'],
+      ['status', 'new-category', 'medium'],
+      ['legacy', 'column-removed', 'high'],
+      ['region', 'column-added', 'low'],
+    ]);
+    expect(report.drift[0].detail).toBe('The table shrank: 1,000 → 400 rows (-60%).');
+    expect(report.drift[1].detail).toBe('Null rate 2.0% → 60.0% (240 of 400 rows).');
+    expect(report.drift[3].detail).toBe('1 new value (12.5% of rows): "Closed".');
+    expect(report.newFindings).toEqual([fresh]);
+    expect(report.resolved).toBe(1);
+  });
+
+  it('call out retyped columns and removed tables, unless the check was partial', () => {
+    const retyped = table([...before.columns.slice(0, 1), col({ name: 'amount', uniqueCount: 40 }), ...before.columns.slice(2)]);
+    expect(compareToBaseline(baseline, [retyped], []).drift).toMatchObject([
+      { column: 'amount', issue: 'column-retyped', severity: 'high', detail: 'Column amount now profiles as categorical, not numeric.' },
+    ]);
+    expect(compareToBaseline(baseline, [], []).drift).toMatchObject([{ table: 'orders', issue: 'table-removed', severity: 'high' }]);
+    expect(compareToBaseline(baseline, [], [], true).drift).toEqual([]);
+  });
+});
+
+describe('baselines on disk', () => {
+  let dir: string;
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-'));
+  });
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('sit beside the data, or in the state directory for a database', () => {
+    const csv = { name: 'sales', config: { type: 'csv' as const, path: '/data/sales.csv' } };
+    expect(baselinePath(csv)).toBe('/data/sales.baseline.json');
+    expect(baselinePath({ name: 'shop', config: { type: 'csv', path: '/data/shop/' } })).toBe('/data/shop/.baseline.json');
+    expect(baselinePath({ name: 'wh', config: { type: 'postgres', host: 'db' } }, '/state')).toBe('/state/baselines/wh.baseline.json');
+    expect(baselinePath({ name: 'wh', config: { type: 'postgres', host: 'db' } })).toBeNull();
+  });
+
+  it('round-trip, and are never loaded as data', async () => {
+    const lines = ['region,amount', ...Array.from({ length: 40 }, (_, i) => `${['n', 's'][i % 2]},${i * 3}`)];
+    fs.writeFileSync(path.join(dir, 'sales.csv'), lines.join('\n') + '\n');
+    const manager = new SourceManager();
+    await manager.add('shop', { type: 'csv', path: dir });
+    const tables = (await manager.getSchema('shop')).schema!.tables;
+    const findings = await auditDataset(tables, (sql) => manager.querySql('shop', sql, undefined, { redact: false }));
+    const file = baselinePath({ name: 'shop', config: { type: 'csv', path: dir } })!;
+    writeBaseline(file, snapshotBaseline(tables, findings));
+    await manager.closeAll();
+
+    expect(readBaseline(path.join(dir, 'missing.baseline.json'))).toBeNull();
+    const saved = readBaseline(file)!;
+    const reopened = new SourceManager();
+    await reopened.add('shop', { type: 'csv', path: dir });
+    const again = (await reopened.getSchema('shop')).schema!.tables;
+    expect(again.map((t) => t.name)).toEqual(['sales']);
+    expect(compareToBaseline(saved, again, findings).drift).toEqual([]);
+    await reopened.closeAll();
+  });
+});
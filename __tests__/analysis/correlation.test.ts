@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { correlationMatrix, keyDrivers } from '../../src/analysis/correlation.js';
+import { generateCandidates, PlannerTargetError } from '../../src/analysis/rules.js';
+import { buildAnalysisPlan } from '../../src/analysis/planner.js';
+import { executePlan } from '../../src/analysis/findings.js';
+import { SourceManager } from '../../src/connectors/manager.js';
+import type { ClassifiedColumn } from '../../src/analysis/types.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+function measure(name: string): ClassifiedColumn {
+  return { name, role: 'measure', originalType: 'numeric', uniqueCount: 50, nullCount: 0, totalCount: 100 };
+}
+
+describe('correlation matrix and key drivers', () => {
+  it('correlate every pair over the rows where both are present', () => {
+    const rows = [
+      { a: 1, b: 2, c: 10 }, { a: 2, b: 4, c: null }, { a: 3, b: 6, c: 7 },
+      { a: 4, b: 8, c: null }, { a: 5, b: 11, c: 3 }, { a: 6, b: null, c: 1 },
+    ];
+    const cells = correlationMatrix(rows, ['a', 'b', 'c']);
+    expect(cells).toHaveLength(9);
+    const cell = (r: string, c: string) => cells.find((x) => x.row === r && x.column === c)!;
+    expect(cell('a', 'a')).toMatchObject({ pearson: 1, n: 6 });
+    expect(cell('a', 'b').n).toBe(5);
+    expect(cell('a', 'b').spearman).toBeCloseTo(1, 10);
+    expect(cell('a', 'c')).toMatchObject({ n: 4 });
+    expect(cell('a', 'c').pearson!).toBeLessThan(-0.9);
+    expect(cell('c', 'a').pearson).toBe(cell('a', 'c').pearson);
+    expect(cell('b', 'c').n).toBe(3);
+  });
+
+  it('recover standardized coefficients and shares of R²', () => {
+    // y = 3a + b exactly, with a and b uncorrelated: β ∝ coefficient × SD, R² = 1.
+    const rows = [];
+    for (let i = 0; i < 40; i++) {
+      const a = (i % 5) - 2, b = Math.floor(i / 5) - 3.5, noise = (i * 7) % 3;
+      rows.push({ y: 3 * a + b, a, b, noise });
+    }
+    const result = keyDrivers(rows, 'y', ['b', 'a', 'noise'])!;
+    expect(result.n).toBe(40);
+    expect(result.rSquared).toBeCloseTo(1, 6);
+    expect(result.drivers.map((d) => d.column)).toEqual(['a', 'b', 'noise']);
+    const [a, b, noise] = result.drivers;
+    expect(a.importance! + b.importance! + noise.importance!).toBeCloseTo(1, 6);
+    expect(a.beta! / b.beta!).toBeCloseTo((3 * Math.SQRT2) / Math.sqrt(5.25), 4);
+    expect(Math.abs(noise.beta!)).toBeLessThan(1e-6);
+
+    // Collinear drivers have no unique betas — ranked by correlation instead.
+    const collinear = keyDrivers(rows.map((r) => ({ ...r, a2: r.a * 2 })), 'y', ['a', 'a2', 'b'])!;
+    expect(collinear.rSquared).toBeNull();
+    expect(collinear.drivers.every((d) => d.beta === null)).toBe(true);
+    expect(keyDrivers(rows.slice(0, 3), 'y', ['a', 'b', 'noise'])).toBeNull();
+  });
+
+  it('are planned for wide tables, or led by a chosen target', () => {
+    const cols = ['price', 'carat', 'depth', 'table_pct'].map(measure);
+    const step = generateCandidates(cols, 'diamonds').find((s) => s.category === 'correlation')!;
+    expect(step.sql).toBe('SELECT "price", "carat", "depth", "table_pct" FROM "diamonds"');
+    expect(step.suggestedPatterns).toEqual(['scatter', 'parallel-coordinates']);
+    expect(step.fields).toEqual({ measure: 'price', measures: ['price', 'carat', 'depth', 'table_pct'] });
+    expect(generateCandidates(cols.slice(0, 2), 'diamonds').map((s) => s.category)).not.toContain('correlation');
+    expect(generateCandidates(cols.slice(0, 2), 'diamonds', 'sqlite', 'carat').map((s) => s.category)).toContain('correlation');
+
+    const targeted = generateCandidates(cols, 'diamonds', 'mongodb', 'depth').find((s) => s.category === 'correlation')!;
+    expect(targeted.fields!.measures![0]).toBe('depth');
+    expect(JSON.parse(targeted.sql).pipeline).toEqual([{ $project: { _id: 0, depth: '$depth', price: '$price', carat: '$carat', table_pct: '$table_pct' } }]);
+  });
+});
+
+describe('key drivers on real data', () => {
+  let dir: string;
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'drivers-'));
+    const lines = ['sku,price,carat,depth,discount,region'];
+    for (let i = 0; i < 80; i++) {
+      const carat = 0.3 + (i % 10) * 0.2;
+      const depth = 58 + ((i * 7) % 9);
+      const discount = (i * 13) % 11;
+      const price = Math.round(1000 * carat - 150 * discount + ((i * 17) % 50));
+      lines.push(`S${i},${price},${carat.toFixed(1)},${depth},${i % 9 === 0 ? '' : discount},${['n', 's'][i % 2]}`);
+    }
+    fs.writeFileSync(path.join(dir, 'diamonds.csv'), lines.join('\n') + '\n');
+  });
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('put a chosen target first and rank what drives it', async () => {
+    const manager = new SourceManager();
+    await manager.add('gems', { type: 'csv', path: dir });
+    const table = (await manager.getSchema('gems')).schema!.tables[0];
+    expect(() => buildAnalysisPlan(table.columns, 'diamonds', 'gems', 6, 'sqlite', undefined, 'region'))
+      .toThrow(PlannerTargetError);
+    expect(() => buildAnalysisPlan(table.columns, 'diamonds', 'gems', 6, 'sqlite', undefined, 'weight'))
+      .toThrow(/target "weight" is not a column of diamonds — pick one of: price, carat, depth, discount/);
+
+    // No target: the wide table's matrix outranks the single scatter when steps run short.
+    expect(buildAnalysisPlan(table.columns, 'diamonds', 'gems').steps.map((s) => s.category))
+      .toEqual(['comparison', 'distribution', 'correlation', 'relationship']);
+    expect(buildAnalysisPlan(table.columns, 'diamonds', 'gems', 3).steps.map((s) => s.category)).toContain('correlation');
+
+    const plan = buildAnalysisPlan(table.columns, 'diamonds', 'gems', 2, 'sqlite', undefined, 'price');
+    expect(plan.steps[0].category).toBe('correlation');
+    const [finding] = await executePlan(plan, (sql) => manager.querySql('gems', sql), 'sqlite');
+    expect(finding.correlations).toHaveLength(16);
+    expect(finding.correlations!.find((c) => c.row === 'price' && c.column === 'discount')!.n).toBe(71);
+    expect(finding.drivers!.drivers.map((d) => d.column)).toEqual(['carat', 'discount', 'depth']);
+    expect(finding.drivers!.n).toBe(71);
+    expect(finding.significant).toBe(true);
+    expect(finding.verdict).toMatch(/^Key drivers of Price \(R² = 1\.00, 71 complete rows\): Carat \(β = 0\.\d\d, \d+% of R²\), Discount \(β = -0\.\d\d, \d+% of R²\), Depth \(β = 0\.00, 0% of R²\)\./);
+    expect(finding.verdict).toMatch(/Strongest pair: Price & Carat \(r = 0\.\d\d, ρ = 0\.\d\d, n = 80\)\.$/);
+    await manager.closeAll();
+  });
+});
@@ -4,6 +4,7 @@ import * as os from 'os';
 import * as path from 'path';
 import {
   dataContextPath, loadDataContext, saveDataContext, renderDataContext, type DataContext,
+  sourceDataContextPath, validateDataContext, mergeDataContext, applyStandardFilters, missingStandardFilters,
 } from '../../src/analysis/data-context.js';
 
 const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dolex-ctx-'));
@@ -47,3 +48,82 @@ describe('data-context sidecar', () => {
     expect(out).not.toContain('STANDARD FILTERS'); // omitted section
   });
 });
+
+describe('data-context validation and edits', () => {
+  it('place each table\'s sidecar by source kind', () => {
+    const at = (config: any, table: string, stateDir?: string) => sourceDataContextPath({ name: 'shop', config }, table, stateDir);
+    expect(at({ type: 'csv', path: '/data/sales.csv' }, 'sales')).toBe('/data/sales.context.json');
+    expect(at({ type: 'csv', path: '/data/shop/' }, 'orders')).toBe('/data/shop/orders.context.json');
+    expect(at({ type: 'excel', path: '/data/book.xlsx' }, 'Q1')).toBe('/data/book.Q1.context.json');
+    expect(at({ type: 'sqlite', path: '/data/app.db' }, 'users')).toBe('/data/app.users.context.json');
+    expect(at({ type: 'postgres', host: 'db', database: 'x' }, 'public.orders', '/home/u/.dolex')).toBe('/home/u/.dolex/contexts/shop.public.orders.context.json');
+    expect(at({ type: 'postgres', host: 'db', database: 'x' }, 'orders')).toBeNull();
+  });
+
+  it('report schema errors, and table mismatches as warnings', () => {
+    expect(validateDataContext({ metrics: [{ name: 'x', sql: '', extra: 1 }] })).toEqual({
+      errors: [
+        'context: missing "dataset"',
+        'context.metrics[0]: missing "definition"',
+        'context.metrics[0].sql: empty',
+        'context.metrics[0]: unknown property "extra"',
+      ],
+      warnings: [],
+    });
+    expect(validateDataContext([]).errors).toEqual(['context: expected object, got array']);
+    const { errors, warnings } = validateDataContext({
+      dataset: 'sale',
+      metrics: [
+        { name: 'MRR', definition: 'recurring revenue', sql: 'SUM(amount) WHERE plan IS NOT NULL' },
+        { name: 'MRR', definition: 'again', sql: 'SUM(amount)' },
+      ],
+      columnNotes: [{ column: 'ts', note: 'UTC' }],
+    }, { name: 'sales', columns: ['amount', 'plan'] });
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([
+      'dataset "sale" doesn\'t match the table "sales"',
+      'columnNotes: "ts" is not a column of sales',
+      'metrics: "MRR" appears more than once — the last one wins on edit',
+      'metrics: "MRR" isn\'t a single aggregate expression, so analyze can\'t plan it as a measure',
+    ]);
+  });
+
+  it('replace, append and remove entries by key', () => {
+    const base: DataContext = {
+      dataset: 'sales',
+      metrics: [{ name: 'revenue', definition: 'gross', sql: 'SUM(amount)' }],
+      columnNotes: [{ column: 'ts', note: 'UTC' }],
+    };
+    const merged = mergeDataContext(base, {
+      metrics: [{ name: 'revenue', definition: 'net', sql: 'SUM(amount) - SUM(refund)' }, { name: 'orders', definition: 'count', sql: 'COUNT(*)' }],
+    }, [{ section: 'columnNotes', key: 'ts' }]);
+    expect(merged).toEqual({
+      dataset: 'sales',
+      metrics: [{ name: 'revenue', definition: 'net', sql: 'SUM(amount) - SUM(refund)' }, { name: 'orders', definition: 'count', sql: 'COUNT(*)' }],
+    });
+    expect(base.columnNotes).toHaveLength(1);
+  });
+
+  it('wrap every read of the table in its standard filters, once', () => {
+    const filters = ['is_test = 0', 'WHERE deleted_at IS NULL'];
+    const where = '(SELECT * FROM "orders" WHERE (is_test = 0) AND (deleted_at IS NULL))';
+    const grouped = applyStandardFilters('SELECT "region", SUM("amount") FROM "orders" GROUP BY "region"', 'orders', filters);
+    expect(grouped).toBe(`SELECT "region", SUM("amount") FROM ${where} AS "orders" GROUP BY "region"`);
+    expect(applyStandardFilters(grouped, 'orders', filters)).toBe(grouped);
+    expect(applyStandardFilters('SELECT r.name, SUM(t.amount) FROM "orders" t JOIN "regions" r ON t.region_id = r.id GROUP BY 1', 'orders', filters))
+      .toBe(`SELECT r.name, SUM(t.amount) FROM ${where} AS t JOIN "regions" r ON t.region_id = r.id GROUP BY 1`);
+    expect(applyStandardFilters('SELECT * FROM "orders_archive"', 'orders', filters)).toBe('SELECT * FROM "orders_archive"');
+    expect(applyStandardFilters('SELECT * FROM "orders"', 'orders', [])).toBe('SELECT * FROM "orders"');
+  });
+
+  it('name the standard filters a query on the table leaves out', () => {
+    const ctx: DataContext = {
+      dataset: 'orders',
+      standardFilters: [{ description: 'no test rows', sql: 'is_test = 0' }, { description: 'live rows', sql: 'deleted_at IS NULL' }],
+    };
+    expect(missingStandardFilters('SELECT COUNT(*) FROM orders', ctx, 'orders').map((f) => f.description)).toEqual(['no test rows', 'live rows']);
+    expect(missingStandardFilters('select count(*) from "orders" where is_test=0 and deleted_at is null', ctx, 'orders')).toEqual([]);
+    expect(missingStandardFilters('SELECT * FROM orders_archive', ctx, 'orders')).toEqual([]);
+    expect(missingStandardFilters('SELECT * FROM orders', null, 'orders')).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { generateCandidates } from '../../src/analysis/rules.js';
+import { buildAnalysisPlan } from '../../src/analysis/planner.js';
+import { classifyColumns } from '../../src/analysis/classify.js';
+import { SourceManager } from '../../src/connectors/manager.js';
+import type { ClassifiedColumn } from '../../src/analysis/types.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+function cc(name: string, role: ClassifiedColumn['role'], overrides: Partial<ClassifiedColumn> = {}): ClassifiedColumn {
+  return {
+    name, role, originalType: role === 'time' ? 'date' : role === 'id' ? 'id' : 'categorical',
+    uniqueCount: 10, nullCount: 0, totalCount: 100,
+    ...overrides,
+  };
+}
+
+describe('event-log rules', () => {
+  const log = [cc('user_id', 'id', { uniqueCount: 40 }), cc('event_at', 'time', { uniqueCount: 90 }), cc('event', 'dimension', { uniqueCount: 4 })];
+
+  it('emit cohort retention and a funnel only for an id + timestamp + stage event log', () => {
+    const categories = (cols: ClassifiedColumn[]) => generateCandidates(cols, 'events').map((s) => s.category);
+    expect(categories(log)).toEqual(expect.arrayContaining(['retention', 'funnel']));
+    // A unique id is a row key, not an entity that comes back.
+    expect(categories([cc('user_id', 'id', { uniqueCount: 100 }), ...log.slice(1)])).not.toContain('retention');
+    // A plain dimension isn't a stage.
+    expect(categories([...log.slice(0, 2), cc('region', 'dimension', { uniqueCount: 4 })])).not.toContain('funnel');
+    expect(categories([log[0], cc('fiscal_year', 'time'), log[2]])).not.toContain('retention');
+    expect(generateCandidates(log, 'events', 'mongodb').map((s) => s.category)).not.toContain('funnel');
+  });
+
+  it('write Postgres-correct month arithmetic and suggest heatmap / funnel', () => {
+    const steps = generateCandidates(log, 'events', 'postgres');
+    const retention = steps.find((s) => s.category === 'retention')!;
+    expect(retention.sql).toContain(`(EXTRACT(YEAR FROM ("event_at")::timestamp) * 12 + EXTRACT(MONTH FROM ("event_at")::timestamp))::int`);
+    expect(retention.sql).toContain(`to_char(("event_at")::timestamp, 'YYYY-MM')`);
+    expect(retention.suggestedPatterns).toEqual(['heatmap']);
+    const funnel = steps.find((s) => s.category === 'funnel')!;
+    expect(funnel.suggestedPatterns[0]).toBe('funnel');
+    expect(funnel.sql).toContain('NULLIF(');
+  });
+});
+
+describe('event-log rules on real data', () => {
+  let dir: string;
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'event-rules-'));
+    // 30 users, cohorts Jan/Feb/Mar 2024. Every user visits in their first month; even users
+    // sign up a month later; multiples of 5 purchase two months later.
+    const lines = ['event_id,user_id,event_time,event'];
+    let id = 1;
+    const month = (m: number) => `2024-${String(m).padStart(2, '0')}-${String(10 + (id % 15)).padStart(2, '0')}`;
+    for (let u = 1; u <= 30; u++) {
+      const cohort = ((u - 1) % 3) + 1;
+      lines.push(`${id++},${u},${month(cohort)},visit`);
+      if (u % 2 === 0) lines.push(`${id++},${u},${month(cohort + 1)},signup`);
+      if (u % 5 === 0) lines.push(`${id++},${u},${month(cohort + 2)},purchase`);
+    }
+    fs.writeFileSync(path.join(dir, 'events.csv'), lines.join('\n') + '\n');
+  });
+  afterAll(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  for (const type of ['csv', 'duckdb'] as const) {
+    it(`computes retention and the funnel on a ${type} source`, async () => {
+      const manager = new SourceManager();
+      await manager.add('events', { type, path: path.join(dir, 'events.csv') });
+      const table = (await manager.getSchema('events')).schema!.tables[0];
+      const dialect = type === 'csv' ? 'sqlite' : 'duckdb';
+      const steps = generateCandidates(classifyColumns(table.columns), table.name, dialect);
+
+      const retention = await manager.querySql('events', steps.find((s) => s.category === 'retention')!.sql);
+      expect(retention.error).toBeUndefined();
+      expect(retention.rows!.filter((r) => r.cohort === '2024-01').map((r) => [Number(r.months_since), Number(r.active), Number(r.retention_pct)]))
+        .toEqual([[0, 10, 100], [1, 5, 50], [2, 2, 20]]);
+
+      const funnel = await manager.querySql('events', steps.find((s) => s.category === 'funnel')!.sql);
+      expect(funnel.rows!.map((r) => [r.event, Number(r.user_id_count), Number(r.pct_of_total)]))
+        .toEqual([['visit', 30, 100], ['signup', 15, 50], ['purchase', 6, 20]]);
+      await manager.closeAll();
+    });
+  }
+
+  it('puts retention and the funnel first in an event-log plan with no measure to trend', async () => {
+    const manager = new SourceManager();
+    await manager.add('events', { type: 'csv', path: path.join(dir, 'events.csv') });
+    const table = (await manager.getSchema('events')).schema!.tables[0];
+    const plan = buildAnalysisPlan(table.columns, table.name, 'events');
+    expect(plan.steps.map((s) => s.category).slice(0, 2)).toEqual(['retention', 'funnel']);
+    await manager.closeAll();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { joinPaths, generateJoinCandidates, formatJoinPath } from '../../src/analysis/rules.js';
+import { buildAnalysisPlan } from '../../src/analysis/planner.js';
+import { classifyColumns } from '../../src/analysis/classify.js';
+import { SourceManager } from '../../src/connectors/manager.js';
+import type { DataColumn, DataTable, ForeignKey } from '../../src/types.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+function col(name: string, type: DataColumn['type'], overrides: Partial<DataColumn> = {}): DataColumn {
+  return { name, type, sampleValues: [], uniqueCount: 10, nullCount: 0, totalCount: 100, ...overrides };
+}
+
+const fk = (from: string, to: string, extra: Partial<ForeignKey> = {}): ForeignKey => {
+  const [fromTable, fromColumn] = from.split('.');
+  const [toTable, toColumn] = to.split('.');
+  return { fromTable, fromColumn, toTable, toColumn, ...extra };
+};
+
+const orders: DataTable = {
+  name: 'orders', rowCount: 100,
+  columns: [col('order_id', 'id'), col('customer_id', 'id'), col('revenue', 'numeric', { uniqueCount: 90 })],
+};
+const customers: DataTable = {
+  name: 'customers', rowCount: 20,
+  columns: [col('id', 'id'), col('segment_id', 'id'), col('tier', 'categorical', { uniqueCount: 3 })],
+};
+const segments: DataTable = {
+  name: 'segments', rowCount: 4,
+  columns: [col('id', 'id'), col('segment', 'categorical', { uniqueCount: 4 })],
+};
+
+describe('join paths', () => {
+  const schema = {
+    tables: [orders, customers, segments],
+    foreignKeys: [fk('orders.customer_id', 'customers.id'), fk('customers.segment_id', 'segments.id')],
+  };
+
+  it('follows foreign keys outward to the one side, up to two hops', () => {
+    expect(joinPaths('orders', schema).map(formatJoinPath)).toEqual([
+      'orders.customer_id → customers.id',
+      'orders.customer_id → customers.id, customers.segment_id → segments.id',
+    ]);
+    // From a lookup nothing points further out but segments; the fact table is never reached.
+    expect(joinPaths('customers', schema).map(formatJoinPath)).toEqual(['customers.segment_id → segments.id']);
+  });
+
+  it('skips shaky inferred keys and marks a non-unique lookup key for deduplication', () => {
+    const evidence = { nameMatch: 'exact' as const, containment: 1, fromDistinct: 20, toDistinct: 18 };
+    const paths = joinPaths('orders', {
+      tables: [orders, customers, segments],
+      foreignKeys: [
+        fk('orders.customer_id', 'customers.id', { confidence: 0.9, evidence: { ...evidence, toUnique: false } }),
+        fk('orders.revenue', 'segments.id', { confidence: 0.3, evidence: { ...evidence, toUnique: true } }),
+      ],
+    });
+    expect(paths).toEqual([[{ fromTable: 'orders', fromColumn: 'customer_id', toTable: 'customers', toColumn: 'id', deduplicated: true }]]);
+  });
+
+  it('plans the fact measure by each lookup dimension, in SQL and in pipelines', () => {
+    const [byTier, bySegment] = generateJoinCandidates(classifyColumns(orders.columns), 'orders', schema);
+    expect(byTier.title).toBe('Revenue by Customers Tier');
+    expect(byTier.sql).toBe(
+      'SELECT j1."tier" AS "customers_tier", SUM(t."revenue") AS "total_revenue" FROM "orders" t '
+      + 'LEFT JOIN "customers" j1 ON j1."id" = t."customer_id" GROUP BY 1 ORDER BY 2 DESC',
+    );
+    expect(bySegment.joinPath).toHaveLength(2);
+    expect(bySegment.sql).toContain('LEFT JOIN "segments" j2 ON j2."id" = j1."segment_id"');
+
+    const [pipelineStep] = generateJoinCandidates(classifyColumns(orders.columns), 'orders', schema, 'mongodb');
+    const { pipeline } = JSON.parse(pipelineStep.sql);
+    expect(pipeline.slice(0, 2)).toEqual([
+      { $lookup: { from: 'customers', localField: 'customer_id', foreignField: 'id', as: '_j1' } },
+      { $set: { _j1: { $first: '$_j1' } } },
+    ]);
+    expect(pipeline[2].$group._id).toEqual({ customers_tier: '$_j1.tier' });
+  });
+
+  it('files joined steps behind the single-table step of the same category', () => {
+    const plan = buildAnalysisPlan(
+      [...orders.columns, col('channel', 'categorical', { uniqueCount: 4 })], 'orders', 'shop', 6, 'sqlite',
+      schema,
+    );
+    expect(plan.steps.map((s) => [s.category, s.joinPath?.length ?? 0])).toContainEqual(['comparison', 2]);
+    const comparisons = plan.steps.filter((s) => s.category === 'comparison');
+    expect(comparisons.map((s) => s.title)).toEqual(['Revenue by Channel', 'Revenue by Customers Tier', 'Revenue by Segments Segment']);
+    expect(plan.summary).toMatch(/joining 2 lookup tables/);
+  });
+});
+
+describe('join steps on a file source', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-joins-'));
+    const lines = ['order_id,customer_id,store_id,revenue'];
+    for (let i = 1; i <= 60; i++) lines.push(`${i},${(i % 12) + 1},${(i % 3) + 1},${i * 10}`);
+    fs.writeFileSync(path.join(dir, 'orders.csv'), lines.join('\n') + '\n');
+    const custs = ['customer_id,segment'];
+    for (let c = 1; c <= 12; c++) custs.push(`${c},${['retail', 'wholesale', 'online'][c % 3]}`);
+    fs.writeFileSync(path.join(dir, 'customers.csv'), custs.join('\n') + '\n');
+    // A slowly-changing dimension: store 2 appears twice (it moved regions) — a naive join
+    // would count its orders twice.
+    const stores = ['store_id,region', '2,east'];
+    for (let st = 1; st <= 30; st++) stores.push(`${st},${['north', 'south', 'west'][st % 3]}`);
+    fs.writeFileSync(path.join(dir, 'stores.csv'), stores.join('\n') + '\n');
+  });
+  afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  it('runs each joined step without double counting the facts', async () => {
+    const manager = new SourceManager();
+    await manager.add('shop', { type: 'csv', path: dir });
+    const schema = (await manager.getSchema('shop')).schema!;
+    const factTable = schema.tables.find((t) => t.name === 'orders')!;
+    const plan = buildAnalysisPlan(factTable.columns, 'orders', 'shop', 10, 'sqlite', schema);
+    const joined = plan.steps.filter((s) => s.joinPath);
+    expect(joined.map((s) => s.joinPath!.at(-1)!.toTable).sort()).toEqual(['customers', 'stores']);
+
+    const total = (60 * 61 / 2) * 10;
+    for (const step of joined) {
+      const r = await manager.querySql('shop', step.sql);
+      expect(r.error, step.title).toBeUndefined();
+      const sum = r.rows!.reduce((acc, row) => acc + Number(row.total_revenue), 0);
+      expect(sum, step.title).toBe(total);
+    }
+    const stores = joined.find((s) => s.joinPath!.at(-1)!.toTable === 'stores')!;
+    expect(stores.joinPath![0].deduplicated).toBe(true);
+    expect(stores.rationale).toMatch(/one row per key/);
+    await manager.closeAll();
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { auditColumns, type QualityFinding } from '../../src/analysis/quality.js';
 import type { DataColumn } from '../../src/types.js';
 
@@ -498,3 +498,244 @@ describe('dirty-categories: whitespace-only split (closes the meta-test GAP)', (
     expect(find(f, 'dirty-categories')?.severity).toBe('medium');
   });
 });
+
+// ── Referential checks along foreign keys (orphans, non-unique parents, fan-out) ──
+import { referentialChecks } from '../../src/analysis/quality.js';
+import { SourceManager } from '../../src/connectors/manager.js';
+import type { ForeignKey } from '../../src/types.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('referential checks', () => {
+  const fk = (fromTable: string, fromColumn: string, toTable: string, toColumn: string, extra: Partial<ForeignKey> = {}): ForeignKey =>
+    ({ fromTable, fromColumn, toTable, toColumn, ...extra });
+  let dir: string;
+  let manager: SourceManager;
+  let query: AuditQueryFn;
+  let tables: { name: string; columns: DataColumn[]; rowCount: number }[];
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ri-'));
+    fs.writeFileSync(path.join(dir, 'customers.csv'), ['customer_id,segment', ...Array.from({ length: 40 }, (_, i) => `${i + 1},${i % 2 ? 'smb' : 'ent'}`)].join('\n'));
+    // "N" twice: the lookup's one side isn't unique.
+    fs.writeFileSync(path.join(dir, 'regions.csv'), 'region_code,region_name\nN,North\nS,South\nE,East\nW,West\nN,Northern\n');
+    const orders = ['order_id,customer_id,region_code,amount'];
+    for (let i = 0; i < 200; i++) orders.push(`${i},${i % 40 ? (i % 40) + 1 : 900 + i},${'nsew'[i % 4]},${10 + (i % 7)}`);
+    fs.writeFileSync(path.join(dir, 'orders.csv'), orders.join('\n'));
+    manager = new SourceManager();
+    await manager.add('shop', { type: 'csv', path: dir });
+    tables = (await manager.getSchema('shop')).schema!.tables;
+    query = (sql) => manager.querySql('shop', sql);
+  });
+  afterAll(async () => {
+    await manager.closeAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('count orphaned child rows, and rate them by share', async () => {
+    const findings = await referentialChecks(tables, [fk('orders', 'customer_id', 'customers', 'customer_id')], query);
+    expect(findings).toEqual([{
+      severity: 'medium', table: 'orders', column: 'orders.customer_id → customers.customer_id', issue: 'orphaned-foreign-key',
+      detail: '5 of 200 orders rows (2.5%) have a customer_id with no match in customers.customer_id (5 distinct values).',
+      suggestion: 'An inner join to customers silently drops these rows, and a left join gives them NULL attributes. Load the missing customers rows, or report them as "unknown".',
+    }]);
+  });
+
+  it('flag a non-unique parent key and the fan-out it causes', async () => {
+    // The case-insensitive key matches "n" to both "N" rows; a plain one matches nothing.
+    const findings = await referentialChecks(tables, [fk('orders', 'region_code', 'regions', 'region_code', {
+      confidence: 0.83,
+      evidence: { nameMatch: 'exact', containment: 1, fromDistinct: 4, toDistinct: 4, toUnique: false, caseInsensitive: true },
+    })], query);
+    expect(findings.map((f) => [f.issue, f.severity, f.table])).toEqual([
+      ['non-unique-parent-key', 'medium', 'regions'],
+      ['join-fan-out', 'high', 'orders'],
+    ]);
+    expect(findings[0].detail).toBe('1 of 4 region_code values repeat in regions, the "one" side of orders.region_code → regions.region_code.');
+    expect(findings[1].detail).toBe('Joining orders to regions turns 200 matched rows into 250 (1.25× fan-out).');
+
+    const strict = await referentialChecks(tables, [fk('orders', 'region_code', 'regions', 'region_code')], query);
+    expect(strict.map((f) => [f.issue, f.severity])).toEqual([['orphaned-foreign-key', 'high'], ['non-unique-parent-key', 'medium']]);
+  });
+
+  it('skip weak inferred keys and keys away from the audited tables; report a failed check', async () => {
+    expect(await referentialChecks(tables, [fk('orders', 'amount', 'customers', 'customer_id', { confidence: 0.64 })], query)).toEqual([]);
+    expect(await referentialChecks(tables.filter((t) => t.name === 'customers'), [fk('orders', 'region_code', 'regions', 'region_code')], query)).toEqual([]);
+    const failed = await referentialChecks(tables, [fk('orders', 'customer_id', 'customers', 'customer_id')], async () => ({ ok: false, error: 'boom' }));
+    expect(failed).toMatchObject([{ severity: 'high', issue: 'check-incomplete', detail: 'Referential check on orders.customer_id → customers.customer_id could not complete: boom.' }]);
+  });
+
+  it('name a key too large to check rather than skip it silently', async () => {
+    const large = tables.map((t) => (t.name === 'customers' ? { ...t, rowCount: 2_000_000 } : t));
+    const findings = await referentialChecks(large, [fk('orders', 'customer_id', 'customers', 'customer_id')], async () => {
+      throw new Error('no query expected');
+    });
+    expect(findings).toMatchObject([{
+      severity: 'low', table: 'orders', column: 'orders.customer_id → customers.customer_id', issue: 'check-incomplete',
+      detail: 'Referential check on orders.customer_id → customers.customer_id skipped: orders or customers has more than 1,000,000 rows.',
+    }]);
+  });
+
+  it('run as part of auditDataset, and reach the prompt summary', async () => {
+    const findings = await auditDataset(tables, query, [fk('orders', 'region_code', 'regions', 'region_code', { evidence: { nameMatch: 'exact', containment: 1, fromDistinct: 4, toDistinct: 4, toUnique: false, caseInsensitive: true } })]);
+    expect(findings.map((f) => f.issue)).toContain('join-fan-out');
+    expect(formatAuditForPrompt(findings)).toContain('[HIGH] orders.region_code → regions.region_code: Joining orders to regions turns 200 matched rows into 250');
+  });
+});
+
+import { piiChecks } from '../../src/analysis/quality.js';
+
+describe('PII checks', () => {
+  let dir: string;
+  let manager: SourceManager;
+  let table: { name: string; columns: DataColumn[]; rowCount: number };
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pii-audit-'));
+    const lines = ['ticket_id,email,card,note,region'];
+    for (let i = 0; i < 40; i++) {
+      const note = i % 8 === 0 ? `Customer wrote from buyer${i}@example.com` : 'Resolved on first contact';
+      lines.push(`${i + 1},buyer${i}@example.com,${i % 2 ? '4111 1111 1111 1111' : '5500 0000 0000 0004'},${note},${['north', 'south'][i % 2]}`);
+    }
+    fs.writeFileSync(path.join(dir, 'tickets.csv'), lines.join('\n') + '\n');
+    manager = new SourceManager();
+    await manager.add('support', { type: 'csv', path: dir });
+    table = (await manager.getSchema('support')).schema!.tables[0];
+  });
+  afterAll(async () => {
+    await manager.closeAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('flag PII columns and free-text mentions with counts, never values', async () => {
+    const findings = await piiChecks(table, (sql) => manager.querySql('support', sql, undefined, { redact: false }));
+    expect(findings.map((f) => [f.column, f.issue, f.severity])).toEqual([
+      ['email', 'pii-email', 'medium'],
+      ['card', 'pii-credit-card', 'high'],
+      ['note', 'pii-email', 'medium'],
+    ]);
+    expect(findings[1].detail).toBe('40 of 40 sampled values are payment card numbers.');
+    expect(findings[2].detail).toBe('5 of 40 sampled values mention email addresses in free text.');
+    expect(JSON.stringify(findings)).not.toContain('@example.com');
+  });
+
+  it('report a scan that could not run, and run inside auditDataset', async () => {
+    const failed = await piiChecks(table, async () => ({ ok: false, error: 'boom' }));
+    expect(failed).toMatchObject([{ severity: 'high', issue: 'check-incomplete' }]);
+    const findings = await auditDataset([table], (sql) => manager.querySql('support', sql, undefined, { redact: false }));
+    expect(findings.filter((f) => f.issue.startsWith('pii-'))).toHaveLength(3);
+  });
+});
+
+import { ruleChecks } from '../../src/analysis/quality.js';
+
+describe('custom rules', () => {
+  let dir: string;
+  let manager: SourceManager;
+  let query: AuditQueryFn;
+  let tables: { name: string; columns: DataColumn[]; rowCount: number }[];
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-'));
+    fs.writeFileSync(path.join(dir, 'customers.csv'), [
+      'customer_id,signup_date,country,email',
+      '1,2024-01-10,GB,ada@example.com', '2,2024-02-01,US,alan@example.com', '3,2024-03-05,UK,grace@example.com', '4,2024-03-09,XX,edsger@example.com',
+    ].join('\n'));
+    fs.writeFileSync(path.join(dir, 'orders.csv'), [
+      'order_id,customer_id,order_date,sku,price,discount',
+      '1,1,2024-01-12,ABC-1234,100,10', '2,2,2024-01-15,ABD-2222,50,60', '3,3,2024-04-01,abc-9,80,5', '4,4,2024-04-02,ABC-1234,20,', '5,1,2024-05-01,XYZ-0001,30,40',
+    ].join('\n'));
+    manager = new SourceManager();
+    await manager.add('shop', { type: 'csv', path: dir });
+    tables = (await manager.getSchema('shop')).schema!.tables;
+    query = (sql) => manager.querySql('shop', sql, undefined, { redact: false });
+  });
+  afterAll(async () => {
+    await manager.closeAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('check column constraints, counting the rows that break each', async () => {
+    const findings = await ruleChecks(tables, [
+      { table: 'orders', column: 'sku', pattern: '^[A-Z]{3}-\\d{4}$', unique: true },
+      { table: 'orders', column: 'discount', notNull: true, min: 0, max: 50, severity: 'medium' },
+      { table: 'customers', column: 'country', values: ['GB', 'US', 'DE'], description: 'ISO-3166 alpha-2 codes.' },
+    ], query);
+    expect(findings.map((f) => [f.table, f.column, f.issue, f.severity, f.violations])).toEqual([
+      ['orders', 'sku', 'rule-unique', 'high', 2],
+      ['orders', 'sku', 'rule-pattern', 'high', 1],
+      ['orders', 'discount', 'rule-not-null', 'medium', 1],
+      ['orders', 'discount', 'rule-range', 'medium', 1],
+      ['customers', 'country', 'rule-values', 'high', 2],
+    ]);
+    expect(findings[1].detail).toBe('1 of 5 rows (20.0%) have a sku that doesn\'t match /^[A-Z]{3}-\\d{4}$/ (1 distinct value).');
+    expect(findings[3].detail).toBe('1 of 5 rows (20.0%) have a discount outside [0, 50].');
+    expect(findings[4]).toMatchObject({ detail: '2 of 4 rows (50.0%) have a country outside the 3 allowed values.', suggestion: 'ISO-3166 alpha-2 codes.' });
+    expect(findings[0].examples!.map((r) => r.order_id)).toEqual(['1', '4']);
+    expect(findings[3].examples).toEqual([{ order_id: '2', customer_id: '2', order_date: '2024-01-15', sku: 'ABD-2222', price: 50, discount: 60 }]);
+  });
+
+  it('check assertions and violation queries, with redacted example rows', async () => {
+    const findings = await ruleChecks(tables, [
+      { table: 'orders', name: 'discount-within-price', assert: 'discount <= price' },
+      { table: 'orders', name: 'order-after-signup', query: 'SELECT o.*, c.email FROM orders o JOIN customers c ON c.customer_id = o.customer_id WHERE o.order_date < c.signup_date' },
+      { table: 'customers', column: 'email', notNull: true },
+    ], query);
+    expect(findings.map((f) => [f.column, f.issue, f.violations, f.detail])).toEqual([
+      ['discount-within-price', 'rule-assertion', 2, '2 of 5 rows (40.0%) break "discount-within-price": discount <= price.'],
+      ['order-after-signup', 'rule-assertion', 1, '1 row breaks "order-after-signup".'],
+    ]);
+    expect(findings[0].examples!.map((r) => r.order_id)).toEqual(['2', '5']);
+    expect(findings[1].examples).toEqual([expect.objectContaining({ order_id: '2', email: 'a***@example.com' })]);
+    const open = await ruleChecks(tables, [{ table: 'orders', name: 'order-after-signup', query: 'SELECT o.*, c.email FROM orders o JOIN customers c ON c.customer_id = o.customer_id WHERE o.order_date < c.signup_date' }], query, { mode: 'off' });
+    expect(open[0].examples![0].email).toBe('alan@example.com');
+  });
+
+  it('redact example rows by their source columns, not just the few rows read', async () => {
+    const own = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-pii-'));
+    fs.writeFileSync(path.join(own, 'contacts.csv'), ['contact_id,email', ...Array.from({ length: 20 }, (_, i) => `${i + 1},user${i}@example.com`), '21,frank.jones@corp'].join('\n'));
+    const contacts = new SourceManager();
+    try {
+      await contacts.add('crm', { type: 'csv', path: own });
+      const raw = (await contacts.getSchema('crm', { redact: false })).schema!.tables;
+      const findings = await ruleChecks(raw, [{ table: 'contacts', column: 'email', pattern: '@example\\.com$' }],
+        (sql) => contacts.querySql('crm', sql, undefined, { redact: false }));
+      expect(findings.map((f) => [f.issue, f.violations])).toEqual([['rule-pattern', 1]]);
+      expect(findings[0].examples).toHaveLength(1);
+      expect(JSON.stringify(findings[0].examples)).not.toContain('frank.jones');
+    } finally {
+      await contacts.closeAll();
+      fs.rmSync(own, { recursive: true, force: true });
+    }
+  });
+
+  it('say when a pattern check stops at the row cap', async () => {
+    // Four distinct skus, two rows per query: ABC-1234 and ABD-2222 are read, XYZ-0001 and abc-9 are not.
+    const capped: AuditQueryFn = (sql) => manager.querySql('shop', sql, 2, { redact: false });
+    const clean = await ruleChecks(tables, [{ table: 'orders', column: 'sku', pattern: '^[A-Z]{3}-\\d{4}$' }], capped);
+    expect(clean.map((f) => [f.column, f.issue, f.severity, f.detail])).toEqual([
+      ['sku', 'check-incomplete', 'high', 'Rule rule-pattern on sku only checked the first 2 distinct values — the rest are past the row cap.'],
+    ]);
+    const broken = await ruleChecks(tables, [{ table: 'orders', column: 'sku', pattern: '^ABC' }], capped);
+    expect(broken.map((f) => [f.issue, f.violations, f.detail])).toEqual([
+      ['rule-pattern', 1, '1 of 5 rows (20.0%) have a sku that doesn\'t match /^ABC/ (1 distinct value in the first 2 distinct values — the rest are past the row cap).'],
+    ]);
+    expect((await ruleChecks(tables, [{ table: 'orders', column: 'sku', pattern: '^[A-Z]{3}-\\d{4}$' }], query))[0].detail).not.toMatch(/row cap/);
+  });
+
+  it('report rules that cannot run, skip rules on other tables, and run inside auditDataset', async () => {
+    const broken = await ruleChecks(tables, [
+      { table: 'orders', column: 'skew', unique: true },
+      { table: 'orders', name: 'bad-sql', assert: 'nonsense_col > 1' },
+      { table: 'returns', column: 'reason', notNull: true },
+    ], query);
+    expect(broken.map((f) => [f.column, f.issue, f.severity])).toEqual([['skew', 'check-incomplete', 'high'], ['bad-sql', 'check-incomplete', 'high']]);
+    expect(broken[0].detail).toBe('Rule on orders.skew could not run: orders has no column "skew".');
+
+    const findings = await auditDataset(tables, query, [], { rules: [{ table: 'orders', name: 'discount-within-price', assert: 'discount <= price' }] });
+    expect(findings.filter((f) => f.issue === 'rule-assertion')).toHaveLength(1);
+    expect((await auditDataset(tables.filter((t) => t.name === 'customers'), query, [], { rules: [{ table: 'orders', column: 'sku', unique: true }] }))
+      .some((f) => f.issue.startsWith('rule-'))).toBe(false);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generateCandidates } from '../../src/analysis/rules.js';
+import { generateCandidates, plannerDialectForSource, pipelineTimeBucketing } from '../../src/analysis/rules.js';
 import type { ClassifiedColumn } from '../../src/analysis/types.js';
 
 function cc(name: string, role: ClassifiedColumn['role'], overrides: Partial<ClassifiedColumn> = {}): ClassifiedColumn {
@@ -115,3 +115,71 @@ describe('generateCandidates', () => {
     expect(candidates).toEqual([]);
   });
 });
+
+describe('generateCandidates — mongodb pipelines', () => {
+  const table = 'orders';
+  const pipeline = (step: { sql: string }) => {
+    const parsed = JSON.parse(step.sql);
+    expect(parsed.collection).toBe(table);
+    return parsed.pipeline as any[];
+  };
+  const cols = [
+    cc('placed_at', 'time', { uniqueCount: 50, topValues: [{ value: '2024-03-01T10:00:00.000Z', count: 3 }] }),
+    cc('total', 'measure', { stats: { min: 1, max: 90, mean: 20, median: 15, stddev: 12, p25: 8, p75: 30 } }),
+    cc('discount', 'measure'),
+    cc('customer.region', 'dimension', { uniqueCount: 5 }),
+    cc('sku', 'dimension', { uniqueCount: 40 }),
+  ];
+
+  it('plans every rule the SQL dialects do, as runnable {collection, pipeline} queries', () => {
+    expect(plannerDialectForSource('mongodb')).toBe('mongodb');
+    const steps = generateCandidates(cols, table, 'mongodb');
+    const titles = steps.map((s) => s.title);
+    expect(titles).toEqual(generateCandidates(cols, table, 'sqlite').map((s) => s.title));
+    for (const s of steps) expect(Array.isArray(pipeline(s))).toBe(true);
+  });
+
+  it('buckets time with $dateTrunc into the same labels the SQL trend emits', () => {
+    const trend = generateCandidates(cols, table, 'mongodb').find((s) => s.title === 'Total Over Time')!;
+    const [group, sort, project] = pipeline(trend);
+    expect(group.$group._id.placed_at_month).toEqual({
+      $dateToString: {
+        date: { $dateTrunc: { date: { $convert: { input: '$placed_at', to: 'date', onError: null, onNull: null } }, unit: 'month' } },
+        format: '%Y-%m',
+      },
+    });
+    expect(group.$group.total_total).toEqual({ $sum: '$total' });
+    expect(sort).toEqual({ $sort: { '_id.placed_at_month': 1 } });
+    expect(project).toEqual({ $project: { _id: 0, placed_at_month: '$_id.placed_at_month', total_total: 1 } });
+  });
+
+  it('groups on dotted paths under dot-free output names and ranks with $limit', () => {
+    const steps = generateCandidates(cols, table, 'mongodb');
+    const comparison = pipeline(steps.find((s) => s.category === 'comparison')!);
+    expect(comparison[0].$group._id).toEqual({ customer_region: '$customer.region' });
+    expect(comparison[1]).toEqual({ $sort: { total_total: -1 } });
+    const ranking = pipeline(steps.find((s) => s.category === 'ranking')!);
+    expect(ranking.slice(1, 3)).toEqual([{ $sort: { total_total: -1 } }, { $limit: 15 }]);
+  });
+
+  it('bins distributions with $bucketAuto and shifts the previous period for growth', () => {
+    const steps = generateCandidates(cols, table, 'mongodb');
+    const dist = pipeline(steps.find((s) => s.category === 'distribution')!);
+    expect(dist[1]).toEqual({ $bucketAuto: { groupBy: '$total', buckets: 20 } });
+    const growth = pipeline(steps.find((s) => /growth/i.test(s.title))!);
+    expect(growth[1].$setWindowFields.output.prev).toEqual({ $shift: { output: '$total', by: -1 } });
+    expect(growth[3].$project.pct_change.$cond[0]).toEqual({ $in: ['$prev', [0, null]] });
+    const season = pipeline(steps.find((s) => /seasonal/i.test(s.title))!);
+    expect(season[0].$project.month.$dateToString.format).toBe('%m');
+  });
+
+  it('range-guards year columns and skips non-ISO date text, like the SQL dialects', () => {
+    const year = pipelineTimeBucketing(cc('fiscal_year', 'time', { topValues: [{ value: '2019', count: 4 }] }))!;
+    expect(year.label).toBe('year');
+    expect(JSON.stringify(year.expr)).toContain('"$gte":["$$n",1000]');
+    expect(pipelineTimeBucketing(cc('signup', 'time', { topValues: [{ value: '3/14/2024', count: 2 }] }))).toBeNull();
+    const quarter = pipelineTimeBucketing(cc('placed_at', 'time', { uniqueCount: 12 }))!;
+    expect(quarter.label).toBe('quarter');
+    expect(JSON.stringify(quarter.expr)).toContain('"-Q"');
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  tTestPValue, normalPValue, chiSquarePValue, welchTTest, mannWhitneyU, chiSquareGoodnessOfFit,
+  chiSquareIndependence, mannKendall, olsSlope, pearson, spearman, ranks,
+} from '../../src/analysis/significance.js';
+import { executePlan, executeStep } from '../../src/analysis/findings.js';
+import { buildAnalysisPlan } from '../../src/analysis/planner.js';
+import { groupValuesQuery, groupCountsQuery } from '../../src/analysis/rules.js';
+import { SourceManager } from '../../src/connectors/manager.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('significance tests', () => {
+  it('match reference distribution tails', () => {
+    expect(tTestPValue(2, 10)).toBeCloseTo(0.0734, 4);
+    expect(normalPValue(1.96)).toBeCloseTo(0.05, 4);
+    expect(chiSquarePValue(3.841, 1)).toBeCloseTo(0.05, 4);
+    expect(chiSquarePValue(11.07, 5)).toBeCloseTo(0.05, 4);
+  });
+
+  it('run Welch\'s t and Mann-Whitney with effect sizes', () => {
+    const a = [19.8, 20.4, 19.6, 17.8, 18.5, 18.9, 18.3, 18.9, 19.5, 22.0];
+    const b = [28.2, 26.6, 20.1, 23.3, 25.2, 22.1, 17.7, 27.6, 20.6, 13.7, 23.2, 17.5, 20.6, 18.0, 23.9, 21.6, 24.3, 20.4, 23.9, 13.3];
+    const t = welchTTest(a, b)!;
+    expect(t.statistic).toBeCloseTo(-2.2255, 3);
+    expect(t.df).toBeCloseTo(24.52, 1);
+    expect(t.pValue).toBeCloseTo(0.0355, 3);
+    expect(t.effect).toMatchObject({ name: 'cohens_d', magnitude: 'medium' });
+
+    const u = mannWhitneyU([1, 2, 3, 4, 5, 6, 7, 8], [5, 6, 7, 8, 9, 10, 11, 12])!;
+    expect(u.statistic).toBe(8);
+    expect(u.pValue).toBeCloseTo(0.0133, 3);
+    expect(u.effect).toMatchObject({ name: 'rank_biserial', value: -0.75, magnitude: 'large' });
+    expect(welchTTest([1], [2, 3])).toBeNull();
+    expect(ranks([3, 1, 3, 2])).toEqual([3.5, 1, 3.5, 2]);
+  });
+
+  it('run chi-square goodness of fit and independence', () => {
+    const gof = chiSquareGoodnessOfFit([50, 30, 20])!;
+    expect(gof.statistic).toBe(14);
+    expect(gof.pValue).toBeCloseTo(0.000912, 5);
+    expect(gof.effect).toMatchObject({ name: 'cohens_w', magnitude: 'medium' });
+    const ind = chiSquareIndependence([[10, 20], [30, 40]])!;
+    expect(ind.statistic).toBeCloseTo(0.7937, 3);
+    expect(ind.pValue).toBeCloseTo(0.373, 3);
+    expect(ind.effect).toMatchObject({ name: 'cramers_v', magnitude: 'negligible' });
+  });
+
+  it('detect monotonic trends and correlations', () => {
+    const series = [1, 3, 2, 5, 4, 6, 8, 7, 9, 10];
+    const mk = mannKendall(series)!;
+    expect(mk.statistic).toBe(39);
+    expect(mk.pValue).toBeCloseTo(0.00068, 4);
+    expect(mk.effect!.value).toBeCloseTo(0.867, 3);
+    expect(mannKendall([1, 2, 3])).toBeNull();
+    const ols = olsSlope(series)!;
+    expect(ols.slope).toBeCloseTo(0.9636, 4);
+    expect(ols.effect!.value).toBeCloseTo(0.9286, 4);
+
+    expect(pearson([1, 2, 3, 4, 5], [2, 4, 5, 4, 5])!.statistic).toBeCloseTo(0.7746, 4);
+    expect(pearson([1, 2, 3, 4, 5], [2, 4, 5, 4, 5])!.pValue).toBeCloseTo(0.124, 3);
+    expect(spearman([1, 2, 3, 4, 5], [2, 4, 5, 4, 5])!.statistic).toBeCloseTo(0.7379, 4);
+    expect(pearson([1, 2, 3], [5, 5, 5])).toBeNull();
+  });
+});
+
+describe('executed findings', () => {
+  let dir: string;
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'findings-'));
+    // 24 months (8 quarterly periods) of orders: amount rises month on month, north outsells south, east is rare,
+    // and quantity tracks amount.
+    const lines = ['order_id,order_date,region,amount,quantity'];
+    let id = 1;
+    for (let m = 0; m < 24; m++) {
+      const date = `${2022 + Math.floor(m / 12)}-${String((m % 12) + 1).padStart(2, '0')}-15`;
+      for (let k = 0; k < 10; k++) {
+        const region = k < 5 ? 'north' : k < 9 ? 'south' : 'east';
+        const amount = 100 + m * 10 + (region === 'north' ? 60 : 0) + ((k * 37) % 23);
+        lines.push(`${id++},${date},${region},${amount},${Math.round(amount / 20) + (k % 3)}`);
+      }
+    }
+    fs.writeFileSync(path.join(dir, 'orders.csv'), lines.join('\n') + '\n');
+  });
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('test each step of a plan and explain the result', async () => {
+    const manager = new SourceManager();
+    await manager.add('shop', { type: 'csv', path: dir });
+    const orders = (await manager.getSchema('shop')).schema!.tables[0];
+    const plan = buildAnalysisPlan(orders.columns, 'orders', 'shop', 10);
+    const findings = await executePlan(plan, (sql) => manager.querySql('shop', sql), 'sqlite');
+    expect(findings.map((f) => f.title)).toEqual(plan.steps.map((s) => s.title));
+    const by = (category: string) => findings.find((f) => f.category === category)!;
+
+    const trend = by('trend');
+    expect(trend.tests.map((t) => t.test)).toEqual(['mann_kendall', 'ols_slope']);
+    expect(trend.significant).toBe(true);
+    expect(trend.verdict).toMatch(/^Amount is rising across 8 periods — a large trend \(Mann-Kendall p < 0\.001, τ = 1\.00\); the fitted slope is \+\d/);
+
+    const comparison = by('comparison');
+    expect(comparison.tests.map((t) => t.test)).toEqual(['welch_t', 'mann_whitney_u']);
+    expect(comparison.significant).toBe(true);
+    expect(comparison.verdict).toMatch(/^"north" averages .* Amount per row against "south"'s .* — a real difference/);
+    expect(comparison.tests[0].n).toBe(24 * 9);
+
+    const composition = by('composition');
+    expect(composition.tests[0]).toMatchObject({ test: 'chi_square', df: 2, n: 240 });
+    expect(composition.verdict).toMatch(/^Region groups differ in size/);
+
+    const relationship = by('relationship');
+    expect(relationship.significant).toBe(true);
+    expect(relationship.verdict).toMatch(/^Amount and Quantity move together — a large correlation/);
+
+    const distribution = by('distribution');
+    expect(distribution).toMatchObject({ ok: true, tests: [], rowCount: 240 });
+    expect(distribution.significant).toBeUndefined();
+    await manager.closeAll();
+  });
+
+  it('test groups on their real keys when the source redacts them', async () => {
+    const manager = new SourceManager();
+    await manager.add('hashed', { type: 'csv', path: dir, redaction: { columns: ['region'], mode: 'hash' } });
+    await manager.add('dropped', { type: 'csv', path: dir, redaction: { columns: ['region'], mode: 'drop' } });
+    const orders = (await manager.getSchema('hashed', { redact: false })).schema!.tables[0];
+    const plan = buildAnalysisPlan(orders.columns, 'orders', 'shop', 10);
+    for (const [source, label] of [['hashed', /^"#[0-9a-f]{12}" averages .* against "#[0-9a-f]{12}"'s/], ['dropped', /^"group 1" averages .* against "group 2"'s/]] as const) {
+      const findings = await executePlan(plan, (sql, options) => manager.querySql(source, sql, undefined, options), 'sqlite');
+      const comparison = findings.find((f) => f.category === 'comparison')!;
+      expect(comparison.tests[0].n).toBe(24 * 9);
+      expect(comparison.significant).toBe(true);
+      expect(comparison.verdict).toMatch(label);
+      expect(comparison.verdict).not.toMatch(/north|south/);
+      expect(findings.find((f) => f.category === 'composition')!.tests[0]).toMatchObject({ df: 2, n: 240 });
+    }
+    await manager.closeAll();
+  });
+
+  it('report a failing step as a finding rather than throwing', async () => {
+    const step = { ...buildAnalysisPlan([], 't', 's').steps[0], title: 'Broken', category: 'trend' as const, sql: 'SELECT nope', table: 't' };
+    const finding = await executeStep(step as any, async () => ({ ok: false, error: 'no such column: nope' }), 'sqlite');
+    expect(finding).toMatchObject({ ok: false, rowCount: 0, tests: [], verdict: "The step's query failed: no such column: nope" });
+  });
+
+  it('build the follow-up queries in the step\'s dialect', () => {
+    expect(groupValuesQuery('orders', 'region', 'amount', ['north', "o'hare", 3], 'postgres'))
+      .toBe(`SELECT "region" AS g, "amount" AS v FROM "orders" WHERE "region" IN ('north', 'o''hare', 3) AND "amount" IS NOT NULL`);
+    expect(groupCountsQuery('orders', 'region', 'city', 'sqlite'))
+      .toBe('SELECT "region" AS g, "city" AS h, COUNT(*) AS n FROM "orders" WHERE "region" IS NOT NULL AND "city" IS NOT NULL GROUP BY 1, 2');
+    expect(JSON.parse(groupValuesQuery('orders', 'region', 'amount', ['north'], 'mongodb')).pipeline[0])
+      .toEqual({ $match: { region: { $in: ['north'] }, amount: { $type: 'number' } } });
+  });
+});
@@ -1,11 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { queryCommand } from '../../src/cli/commands/query.js';
 import { analyzeCommand } from '../../src/cli/commands/analyze.js';
 import { describeCommand } from '../../src/cli/commands/describe.js';
 import { checkCommand } from '../../src/cli/commands/check.js';
+import { contextCommand } from '../../src/cli/commands/context.js';
 
 /** Run a command, capturing its stdout+stderr; returns { code, text }. */
 async function run(fn: (argv: string[]) => Promise<number>, argv: string[]): Promise<{ code: number; text: string }> {
@@ -83,6 +84,25 @@ describe('CLI command integration', () => {
       expect(JSON.parse(text)[0].sales).toBe(200); // not '90' lexicographically
     });
 
+    it('prints one page with --page and streams every row with --all', async () => {
+      const sql = 'SELECT region, sales FROM shop ORDER BY sales, region';
+      const page = await run(queryCommand, [csv, sql, '--page', '2', '--page-size', '10', '--format', 'ndjson']);
+      expect(page.code).toBe(0);
+      expect(page.text.trim().split('\n')).toHaveLength(10);
+
+      const { code, text } = await run(queryCommand, [csv, sql, '--all', '--page-size', '7', '--format', 'csv']);
+      expect(code).toBe(0);
+      const lines = text.trim().split('\n');
+      expect(lines[0]).toBe('region,sales');
+      expect(lines.filter((l) => l === 'region,sales')).toHaveLength(1);
+      expect(lines.slice(1, 25)).toHaveLength(24);
+      expect(lines[25]).toMatch(/24 rows/);
+
+      const table = await run(queryCommand, [csv, sql, '--all']);
+      expect(table.code).toBe(1);
+      expect(table.text).toMatch(/--format ndjson/);
+    });
+
     it('fails with a helpful error on a bad column', async () => {
       const { code, text } = await run(queryCommand, [csv, 'SELECT nope FROM shop']);
       expect(code).toBe(1);
@@ -132,5 +152,84 @@ describe('CLI command integration', () => {
       expect(code).toBe(0);
       expect(text).toMatch(/no .*issues|no data-quality/i);
     });
+
+    it('snapshots a baseline, then gates on drift from it', async () => {
+      const written = await run(checkCommand, [csv, '--baseline']);
+      expect(written.code).toBe(0); // the identical-column finding is accepted with the baseline
+      expect(written.text).toContain(`Baseline written to ${join(dir, 'shop.baseline.json')}`);
+      expect((await run(checkCommand, [csv])).code).toBe(0);
+
+      const lines = ['region,sales,year,note,dup_a,dup_b'];
+      for (let i = 0; i < 24; i++) lines.push(`${['North', 'Central'][i % 2]},${i % 2 ? '' : 500},2022,ok,p,p`);
+      writeFileSync(csv, lines.join('\n'), 'utf-8');
+      const { code, text } = await run(checkCommand, [csv, '--json']);
+      expect(code).toBe(1);
+      const issues = JSON.parse(text).baseline.drift.map((f: any) => `${f.column}:${f.issue}`);
+      expect(issues).toEqual(expect.arrayContaining(['sales:null-rate-shift', 'region:new-category', 'region:distribution-shift']));
+    });
+
+    it('renders CI formats, honours --fail-on and the check config', async () => {
+      writeFileSync(join(dir, 'shop.check.json'), JSON.stringify({ suppress: [{ column: 'dup_a*', reason: 'Kept for the export' }] }));
+      const junit = await run(checkCommand, [csv, '--format', 'junit']);
+      expect(junit.code).toBe(0); // the identical-column finding is suppressed
+      expect(junit.text).toContain('suppressed: [HIGH] dup_a = dup_b (identical-columns)');
+      expect(junit.text).toMatch(/<testsuite name="shop" tests="\d+" failures="0"/);
+
+      const strict = await run(checkCommand, [csv, '--format', 'md', '--fail-on', 'low']);
+      expect(strict.code).toBe(1);
+      expect(strict.text).toContain('**Result: fail**');
+      expect((await run(checkCommand, [csv, '--fail-on', 'sometimes'])).code).toBe(1);
+    });
+
+    it('checks the custom rules of a check config', async () => {
+      const clean = join(dir, 'clean.csv');
+      writeFileSync(clean, ['region,sales', 'North,100', 'South,200', 'East,150'].join('\n'), 'utf-8');
+      const config = join(dir, 'rules.json');
+      writeFileSync(config, JSON.stringify({ rules: [
+        { table: 'clean', column: 'sales', max: 180, description: 'Daily sales are capped at 180.' },
+        { table: 'clean', column: 'region', values: ['North', 'South', 'East'] },
+      ] }));
+      const { code, text } = await run(checkCommand, [clean, '--config', config]);
+      expect(code).toBe(1);
+      expect(text).toContain('1 of 3 rows (33.3%) have a sales above 180.');
+      expect(text).toContain('e.g. {"region":"South","sales":200}');
+      expect(text).not.toContain('rule-values');
+
+      writeFileSync(config, JSON.stringify({ rules: [{ table: 'clean', column: 'sales' }] }));
+      expect((await run(checkCommand, [clean, '--config', config])).text).toContain('rules[0]: needs at least one constraint on sales');
+    });
+  });
+
+  describe('context', () => {
+    it('edits the sidecar, and refuses an invalid one', async () => {
+      expect((await run(contextCommand, ['edit', csv, '--metric', 'revenue', '--definition', 'Total sales', '--sql', 'SUM(sales)'])).code).toBe(0);
+      expect((await run(contextCommand, ['edit', csv, '--filter', 'Drop blank notes', '--sql', "note <> ''"])).code).toBe(0);
+      expect(JSON.parse(readFileSync(join(dir, 'shop.context.json'), 'utf-8'))).toEqual({
+        dataset: 'shop',
+        metrics: [{ name: 'revenue', definition: 'Total sales', sql: 'SUM(sales)' }],
+        standardFilters: [{ description: 'Drop blank notes', sql: "note <> ''" }],
+      });
+      expect((await run(contextCommand, ['edit', csv, '--metric', 'orders'])).text).toContain('--metric needs --definition.');
+
+      const bad = join(dir, 'bad.json');
+      writeFileSync(bad, JSON.stringify({ dataset: 'shop', metrics: [{ name: 'x' }] }), 'utf-8');
+      const { code, text } = await run(contextCommand, ['set', csv, '--file', bad]);
+      expect(code).toBe(1);
+      expect(text).toContain('context.metrics[0]: missing "definition"');
+      expect(JSON.parse(readFileSync(join(dir, 'shop.context.json'), 'utf-8')).metrics[0].name).toBe('revenue');
+    });
+
+    it('is shown by describe, planned by analyze, and checked by query', async () => {
+      await run(contextCommand, ['edit', csv, '--filter', 'Drop blank notes', '--sql', "note <> ''"]);
+      expect((await run(describeCommand, [csv])).text).toContain("Drop blank notes [note <> '']");
+
+      const { text } = await run(analyzeCommand, [csv, '--json']);
+      const plan = JSON.parse(text);
+      expect(plan.standardFilters).toEqual(["note <> ''"]);
+      expect(plan.steps.every((s: any) => s.sql.includes(`FROM (SELECT * FROM "shop" WHERE (note <> '')) AS "shop"`))).toBe(true);
+
+      expect((await run(queryCommand, [csv, 'SELECT COUNT(*) AS n FROM shop'])).text).toContain('has standard filters this query doesn\'t apply: Drop blank notes');
+      expect((await run(queryCommand, [csv, "SELECT COUNT(*) AS n FROM shop WHERE note <> ''"])).text).not.toContain('standard filters');
+    });
   });
 });
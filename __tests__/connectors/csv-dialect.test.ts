@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SourceManager } from '../../src/connectors/manager.js';
+import { sniffCsv } from '../../src/connectors/file-formats.js';
+import { resolveSourceConfig } from '../../src/connectors/source-factory.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+let tmp: string;
+beforeEach(() => { tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'csv-dialect-')); });
+afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+/** A European Excel export: title lines, semicolons, decimal commas, Windows-1252 text. */
+function writeEuropeanExport(p: string): void {
+  const text = [
+    'Umsatzbericht 2024',
+    'Exportiert am 03.01.2024',
+    '',
+    'stadt;betrag;kategorie',
+    'Zürich;1,50;Bäckerei',
+    'Genève;2,75;Café',
+    'Zürich;3,00;Bäckerei',
+  ].join('\r\n');
+  fs.writeFileSync(p, Buffer.from(text, 'latin1'));
+}
+
+describe('sniffCsv', () => {
+  it('detects delimiter, encoding and preamble of a European export', async () => {
+    const p = path.join(tmp, 'umsatz.csv');
+    writeEuropeanExport(p);
+    expect(await sniffCsv(p)).toEqual({ delimiter: ';', quoteChar: '"', encoding: 'windows-1252', bom: false, skipRows: 3 });
+  });
+
+  it('detects a BOM, tabs and single quotes', async () => {
+    const p = path.join(tmp, 'tabs.tsv.csv');
+    fs.writeFileSync(p, "﻿id\tname\n1\t'Smith\tJr'\n2\t'Lee'\n");
+    expect(await sniffCsv(p)).toEqual({ delimiter: '\t', quoteChar: "'", encoding: 'utf-8', bom: true, skipRows: 0 });
+  });
+
+  it('keeps a plain comma CSV on the defaults, and lets overrides win', async () => {
+    const p = path.join(tmp, 'plain.csv');
+    fs.writeFileSync(p, 'a,b\n1,"x;y"\n2,z\n');
+    expect(await sniffCsv(p)).toEqual({ delimiter: ',', quoteChar: '"', encoding: 'utf-8', bom: false, skipRows: 0 });
+    expect(await sniffCsv(p, { delimiter: 'tab', encoding: 'latin1', skipRows: 1 }))
+      .toEqual({ delimiter: '\t', quoteChar: '"', encoding: 'windows-1252', bom: false, skipRows: 1 });
+  });
+});
+
+describe('CSV dialects through the file connector', () => {
+  it('loads a Windows-1252, semicolon-separated export with title lines', async () => {
+    const p = path.join(tmp, 'umsatz.csv');
+    writeEuropeanExport(p);
+    const manager = new SourceManager();
+    await manager.add('umsatz', { type: 'csv', path: p });
+    const schema = await manager.getSchema('umsatz');
+    expect(schema.ok).toBe(true);
+
+    const table = schema.schema!.tables[0];
+    expect(table.dialect).toMatchObject({ delimiter: ';', encoding: 'windows-1252', skipRows: 3 });
+    expect(table.rowCount).toBe(3);
+    expect(table.columns.map((c) => c.name)).toEqual(['stadt', 'betrag', 'kategorie']);
+    const stadt = table.columns.find((c) => c.name === 'stadt')!;
+    expect(stadt.topValues!.map((v) => v.value).sort()).toEqual(['Genève', 'Zürich']);
+    await manager.closeAll();
+  });
+
+  it('applies delimiter / skipRows overrides from the source config', async () => {
+    const p = path.join(tmp, 'odd.csv');
+    // The preamble line has as many pipes as the table, so only the caller knows to skip it.
+    fs.writeFileSync(p, 'export|v2\nname|note\nAda|hello, world\nGrace|a, b, c\n');
+    expect((await sniffCsv(p)).skipRows).toBe(0);
+    const manager = new SourceManager();
+    await manager.add('odd', resolveSourceConfig({ path: p, delimiter: '|', skipRows: 1 }));
+    const r = await manager.querySql('odd', 'SELECT name, note FROM odd ORDER BY name');
+    expect(r.rows).toEqual([{ name: 'Ada', note: 'hello, world' }, { name: 'Grace', note: 'a, b, c' }]);
+    await manager.closeAll();
+  });
+
+  it('rejects an unknown encoding override', () => {
+    expect(() => resolveSourceConfig({ path: '/x.csv', encoding: 'klingon-8' })).toThrow(/Unknown text encoding/);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { SourceManager } from '../../src/connectors/manager.js';
+import type { LoadProgress } from '../../src/connectors/types.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+// Big enough that papaparse hands it over in many chunks, and that the numeric
+// column's first sentinel appears long after the head of the file.
+const ROWS = 60_000;
+
+describe('CSV streaming ingestion', () => {
+  let tmpDir: string;
+  let csvPath: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'csv-stream-'));
+    csvPath = path.join(tmpDir, 'events.csv');
+    const lines = ['event_id,region,amount,zip'];
+    for (let i = 1; i <= ROWS; i++) {
+      const amount = i > ROWS - 100 ? 'N/A' : String(i % 1000);
+      lines.push(`${i},${['North', 'South', 'East'][i % 3]},${amount},0${i % 9000 + 1000}`);
+    }
+    fs.writeFileSync(csvPath, lines.join('\n'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('loads every row across chunks and profiles from exact counts', async () => {
+    const manager = new SourceManager();
+    await manager.add('events', { type: 'csv', path: csvPath });
+    const schema = await manager.getSchema('events');
+    expect(schema.ok).toBe(true);
+
+    const table = schema.schema!.tables[0];
+    expect(table.rowCount).toBe(ROWS);
+
+    const amount = table.columns.find((c) => c.name === 'amount')!;
+    expect(amount.type).toBe('numeric');
+    expect(amount.nullCount).toBe(100);
+    expect(amount.uniqueCount).toBe(1000);
+    expect(amount.coercedNonNumeric).toEqual({ token: 'N/A', count: 100 });
+    expect(amount.stats!.min).toBe(0);
+    expect(amount.stats!.max).toBe(999);
+    // SQL-side percentiles agree with the in-JS median aggregate.
+    const agg = await manager.querySql('events', 'SELECT median(amount) AS m, p25(amount) AS q1 FROM events');
+    expect(amount.stats!.median).toBe(agg.rows![0].m);
+    expect(amount.stats!.p25).toBe(agg.rows![0].q1);
+
+    const id = table.columns.find((c) => c.name === 'event_id')!;
+    expect(id.uniqueCount).toBe(ROWS);
+
+    // Zero-padded codes keep their padding (staged verbatim, typed as TEXT).
+    const r = await manager.querySql('events', 'SELECT zip AS code FROM events ORDER BY zip LIMIT 1');
+    expect(r.ok).toBe(true);
+    expect(r.rows![0].code).toBe('01000');
+
+    await manager.closeAll();
+  });
+
+  it('reports load progress through connect()', async () => {
+    const manager = new SourceManager();
+    await manager.add('events', { type: 'csv', path: csvPath });
+    const seen: LoadProgress[] = [];
+    const connected = await manager.connect('events', { onProgress: (p) => seen.push(p) });
+    expect(connected.ok).toBe(true);
+
+    const profile = seen.find((p) => p.phase === 'profile');
+    expect(profile).toBeDefined();
+    expect(profile!.table).toBe('events');
+    expect(profile!.rows).toBe(ROWS);
+    expect(profile!.bytesRead).toBe(profile!.totalBytes);
+    expect(profile!.totalBytes).toBe(fs.statSync(csvPath).size);
+
+    await manager.closeAll();
+  });
+
+  it('samples the same values on every load of the same file', async () => {
+    const samples = async () => {
+      const manager = new SourceManager();
+      await manager.add('events', { type: 'csv', path: csvPath });
+      const columns = (await manager.getSchema('events')).schema!.tables[0].columns;
+      await manager.closeAll();
+      return columns.map((c) => c.sampleValues);
+    };
+    expect(await samples()).toEqual(await samples());
+  });
+});
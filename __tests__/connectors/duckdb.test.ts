@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DuckDBInstance } from '@duckdb/node-api';
+import { SourceManager } from '../../src/connectors/manager.js';
+import { resolveSourceConfig } from '../../src/connectors/source-factory.js';
+import { handleTransformData } from '../../src/mcp/tools/transform-data.js';
+import { plannerDialectForSource, generateCandidates } from '../../src/analysis/rules.js';
+import { buildAnalysisPlan } from '../../src/analysis/planner.js';
+import { classifyColumns } from '../../src/analysis/classify.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+let tmp: string;
+let dataDir: string;
+
+beforeEach(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'duckdb-connector-'));
+  dataDir = path.join(tmp, 'shop');
+  fs.mkdirSync(dataDir);
+  const regions = ['north', 'south', 'east'];
+  const lines = ['order_id,order_date,region,amount'];
+  for (let i = 1; i <= 60; i++) {
+    const month = String(((i - 1) % 12) + 1).padStart(2, '0');
+    lines.push(`${i},2023-${month}-${String((i % 27) + 1).padStart(2, '0')},${regions[i % 3]},${i * 5}`);
+  }
+  fs.writeFileSync(path.join(dataDir, 'orders.csv'), lines.join('\n') + '\n');
+  fs.writeFileSync(path.join(dataDir, 'regions.ndjson'), regions.map((r, i) => JSON.stringify({ region: r, manager_id: i + 1 })).join('\n') + '\n');
+  fs.writeFileSync(path.join(dataDir, 'notes.txt'), 'not data');
+});
+
+afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+describe('duckdb connector', () => {
+  it('is chosen by --type or a .duckdb path, and plans in the duckdb dialect', () => {
+    expect(resolveSourceConfig({ type: 'duckdb', path: dataDir })).toEqual({ type: 'duckdb', path: dataDir });
+    expect(resolveSourceConfig({ path: 'warehouse.duckdb' }).type).toBe('duckdb');
+    expect(resolveSourceConfig({ path: dataDir }).type).toBe('csv');
+    expect(plannerDialectForSource('duckdb')).toBe('duckdb');
+  });
+
+  it('queries a folder of files in place and profiles it with SUMMARIZE', async () => {
+    const manager = new SourceManager();
+    await manager.add('shop', { type: 'duckdb', path: dataDir });
+    const schema = (await manager.getSchema('shop')).schema!;
+
+    expect(schema.tables.map((t) => [t.name, t.rowCount])).toEqual([['orders', 60], ['regions', 3]]);
+    const orders = schema.tables.find((t) => t.name === 'orders')!;
+    const col = (n: string) => orders.columns.find((c) => c.name === n)!;
+    expect(col('order_id').type).toBe('id');
+    expect(col('amount')).toMatchObject({ type: 'numeric', nullCount: 0, totalCount: 60 });
+    expect(col('amount').stats).toMatchObject({ min: 5, max: 300, mean: 152.5 });
+    expect(col('order_date').type).toBe('date');
+    expect(col('order_date').topValues![0].value).toMatch(/^2023-\d{2}-\d{2}$/);
+    expect(col('region').topValues!.map((v) => v.value).sort()).toEqual(['east', 'north', 'south']);
+
+    const r = await manager.querySql('shop', 'SELECT o.region, COUNT(*) AS n, MIN(o.order_date) AS first FROM orders o JOIN regions USING (region) GROUP BY 1 ORDER BY 1');
+    expect(r.ok).toBe(true);
+    expect(r.rows![0]).toEqual({ region: 'east', n: 20, first: '2023-02-03' });
+
+    const samples = await (await manager.connect('shop')).source!.getSampleRows('orders', 4);
+    expect(samples).toHaveLength(4);
+    expect(Object.keys(samples[0])).toEqual(['order_id', 'order_date', 'region', 'amount']);
+    await manager.closeAll();
+  });
+
+  it('runs every analysis-plan query the planner emits for it', async () => {
+    const manager = new SourceManager();
+    await manager.add('shop', { type: 'duckdb', path: dataDir });
+    const orders = (await manager.getSchema('shop')).schema!.tables.find((t) => t.name === 'orders')!;
+
+    const candidates = generateCandidates(classifyColumns(orders.columns), 'orders', 'duckdb');
+    expect(candidates.map((c) => c.category)).toContain('trend');
+    for (const step of candidates) {
+      const r = await manager.querySql('shop', step.sql);
+      expect(r.error, step.title).toBeUndefined();
+      expect(r.rows!.length, step.title).toBeGreaterThan(0);
+    }
+
+    const plan = buildAnalysisPlan(orders.columns, 'orders', 'shop', 6, 'duckdb');
+    const trend = plan.steps.find((s) => s.category === 'trend')!;
+    const rows = (await manager.querySql('shop', trend.sql)).rows!;
+    expect(rows.length).toBeGreaterThan(1);
+    expect(rows.every((row) => Object.values(row)[0] !== null)).toBe(true);
+    await manager.closeAll();
+  });
+
+  it('attaches a .duckdb database read-only and reads its foreign keys', async () => {
+    const dbPath = path.join(tmp, 'warehouse.duckdb');
+    const instance = await DuckDBInstance.create(dbPath);
+    const conn = await instance.connect();
+    await conn.run(`
+      CREATE TABLE customers (id INTEGER PRIMARY KEY, name VARCHAR);
+      CREATE TABLE invoices (invoice_id INTEGER, customer_id INTEGER REFERENCES customers (id), total DECIMAL(10, 2));
+      INSERT INTO customers VALUES (1, 'Ada'), (2, 'Grace');
+      INSERT INTO invoices VALUES (10, 1, 12.50), (11, 2, 7.25), (12, 1, 3.00);
+    `);
+    conn.closeSync();
+    instance.closeSync();
+
+    const manager = new SourceManager();
+    await manager.add('warehouse', { type: 'duckdb', path: dbPath });
+    const schema = (await manager.getSchema('warehouse')).schema!;
+    expect(schema.tables.map((t) => t.name)).toEqual(['customers', 'invoices']);
+    expect(schema.foreignKeys).toEqual([
+      { fromTable: 'invoices', fromColumn: 'customer_id', toTable: 'customers', toColumn: 'id' },
+    ]);
+
+    const r = await manager.querySql('warehouse', 'SELECT SUM(total) AS s, COUNT(*) AS n FROM invoices');
+    expect(r.rows![0]).toEqual({ s: 22.75, n: 3 });
+
+    const source = (await manager.connect('warehouse')).source!;
+    const write = await source.executeQuery("INSERT INTO src.main.customers VALUES (3, 'Linus')");
+    expect(write.rows[0].error).toMatch(/read-only/);
+    const outside = await source.executeQuery(`SELECT * FROM read_csv_auto('${path.join(dataDir, 'orders.csv')}')`);
+    expect(outside.rows[0].error).toMatch(/disabled by configuration|Permission/);
+    await manager.closeAll();
+  });
+
+  it('derives columns in its views without writing to the files', async () => {
+    const csvPath = path.join(dataDir, 'orders.csv');
+    const before = fs.readFileSync(csvPath);
+    const manager = new SourceManager();
+    const { entry } = await manager.add('shop', { type: 'duckdb', path: dataDir });
+
+    const transform = handleTransformData({ sourceManager: manager });
+    const res = await transform({ sourceId: entry!.id, table: 'orders', create: 'amount_k', expr: 'amount / 1000' } as any);
+    expect(res.isError).toBeUndefined();
+    await transform({ sourceId: entry!.id, table: 'orders', create: 'is_north', expr: "CAST(region = 'north' AS INTEGER)" } as any);
+
+    const r = await manager.querySql('shop', 'SELECT ROUND(SUM(amount_k), 2) AS k, SUM(is_north) AS north FROM orders');
+    expect(r.rows![0]).toEqual({ k: 9.15, north: 20 });
+
+    const orders = (await manager.getSchema('shop')).schema!.tables.find((t) => t.name === 'orders')!;
+    expect(orders.columns.find((c) => c.name === 'amount_k')).toMatchObject({ layer: 'derived', type: 'numeric' });
+
+    const bad = await transform({ sourceId: entry!.id, table: 'orders', create: 'oops', expr: 'no_such_column + 1' } as any);
+    expect(bad.isError).toBe(true);
+    expect((await manager.querySql('shop', 'SELECT amount_k FROM orders LIMIT 1')).ok).toBe(true);
+
+    await manager.closeAll();
+    expect(fs.readFileSync(csvPath).equals(before)).toBe(true);
+  });
+});
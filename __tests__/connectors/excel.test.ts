@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import ExcelJS from 'exceljs';
+import { SourceManager } from '../../src/connectors/manager.js';
+import { resolveSourceConfig } from '../../src/connectors/source-factory.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+let tmp: string;
+let workbookPath: string;
+
+beforeAll(async () => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'excel-'));
+  workbookPath = path.join(tmp, 'report.xlsx');
+
+  const wb = new ExcelJS.Workbook();
+  const sales = wb.addWorksheet('Q1 Sales');
+  // A title above the table, merged wider than the data, then a blank line.
+  sales.addRow(['Quarterly sales report']);
+  sales.addRow([]);
+  // Group header over Gross|Net; Order Date and Region span both header rows.
+  sales.addRow(['Order Date', 'Revenue', '', 'Region']);
+  sales.addRow(['', 'Gross', 'Net', '']);
+  sales.addRow([new Date(Date.UTC(2024, 0, 5)), 100, 80, 'North']);
+  // 45300 is 2024-01-09 in the 1900 date system.
+  sales.addRow([45300, 120, { formula: 'B6-30', result: 90 }, { richText: [{ text: 'So' }, { text: 'uth' }] }]);
+  sales.addRow([45301, 50, { error: '#N/A' }, 'North']);
+  sales.mergeCells('A1:F1');
+  sales.mergeCells('A3:A4');
+  sales.mergeCells('B3:C3');
+  sales.mergeCells('D3:D4');
+
+  const regions = wb.addWorksheet('Regions');
+  regions.addRow(['Region', 'Manager']);
+  regions.addRow(['North', 'Ada']);
+  regions.addRow(['South', 'Grace']);
+
+  wb.addWorksheet('Notes');
+  await wb.xlsx.writeFile(workbookPath);
+});
+
+afterAll(() => {
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+describe('excel connector', () => {
+  it('loads one table per sheet, finding the header under a title and merged group labels', async () => {
+    const manager = new SourceManager();
+    await manager.add('report', { type: 'excel', path: workbookPath });
+    const schema = await manager.getSchema('report');
+    expect(schema.ok).toBe(true);
+    expect(schema.schema!.source.type).toBe('excel');
+    expect(schema.schema!.tables.map((t) => t.name)).toEqual(['Q1_Sales', 'Regions']);
+
+    const sales = schema.schema!.tables[0];
+    expect(sales.rowCount).toBe(3);
+    expect(sales.columns.map((c) => c.name)).toEqual(['Order Date', 'Revenue Gross', 'Revenue Net', 'Region']);
+    const col = (n: string) => sales.columns.find((c) => c.name === n)!;
+    expect(col('Revenue Net').type).toBe('numeric');
+    expect(col('Revenue Net').nullCount).toBe(1); // #N/A error cell
+
+    // Date-formatted cells and bare serials in a date-named column both load as dates.
+    expect(col('Order Date').type).toBe('date');
+    const r = await manager.querySql('report', 'SELECT "Order Date" AS d, Region AS region FROM Q1_Sales ORDER BY d');
+    expect(r.rows!.map((row) => row.d)).toEqual(['2024-01-05', '2024-01-09', '2024-01-10']);
+    expect(r.rows![1].region).toBe('South');
+
+    const joined = await manager.querySql('report', `
+      SELECT g.Manager AS manager, SUM(s."Revenue Gross") AS gross
+      FROM Q1_Sales s JOIN Regions g ON g.Region = s.Region GROUP BY g.Manager ORDER BY g.Manager`);
+    expect(joined.rows).toEqual([{ manager: 'Ada', gross: 150 }, { manager: 'Grace', gross: 120 }]);
+    await manager.closeAll();
+  });
+
+  it('infers the excel type from an .xlsx path', () => {
+    expect(resolveSourceConfig({ path: '/data/book.xlsx' })).toEqual({ type: 'excel', path: '/data/book.xlsx' });
+    expect(resolveSourceConfig({ path: '/data/book.csv' })).toEqual({ type: 'csv', path: '/data/book.csv' });
+    expect(() => resolveSourceConfig({ type: 'excel', path: '/data/book.xls' })).toThrow(/\.xlsx/);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SourceManager } from '../../src/connectors/manager.js';
+import { fileFormat } from '../../src/connectors/file-formats.js';
+import { pythonAvailable } from '../../src/cleaning/exec.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+const FIXTURE_PARQUET = path.join(__dirname, '..', 'fixtures', 'orders.parquet');
+
+let tmp: string;
+beforeEach(() => { tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'file-formats-')); });
+afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+describe('fileFormat', () => {
+  it('maps data extensions and ignores dolex sidecars', () => {
+    expect(fileFormat('a.csv')).toBe('csv');
+    expect(fileFormat('a.JSONL')).toBe('ndjson');
+    expect(fileFormat('a.ndjson')).toBe('ndjson');
+    expect(fileFormat('a.json')).toBe('json');
+    expect(fileFormat('a.parquet')).toBe('parquet');
+    expect(fileFormat('.dolex.json')).toBeNull();
+    expect(fileFormat('a.cleanfix.json')).toBeNull();
+    expect(fileFormat('a.context.json')).toBeNull();
+    expect(fileFormat('a.txt')).toBeNull();
+  });
+});
+
+describe('file connector — Parquet / NDJSON / JSON', () => {
+  it('loads a Parquet file, typing real timestamps as dates', async () => {
+    const manager = new SourceManager();
+    await manager.add('orders', { type: 'csv', path: FIXTURE_PARQUET });
+    const schema = await manager.getSchema('orders');
+    expect(schema.ok).toBe(true);
+
+    const table = schema.schema!.tables[0];
+    expect(table.name).toBe('orders');
+    expect(table.rowCount).toBe(6); // spans two row groups
+    const col = (n: string) => table.columns.find((c) => c.name === n)!;
+    expect(col('amount').type).toBe('numeric');
+    expect(col('amount').nullCount).toBe(1);
+    expect(col('placed').type).toBe('date');
+    expect(col('placed').sampleValues[0]).toBe('2024-01-03');
+    expect(col('channel').type).toBe('categorical');
+
+    const r = await manager.querySql('orders', 'SELECT SUM(amount) AS total FROM orders');
+    expect(r.rows![0].total).toBeCloseTo(164.74, 2);
+    await manager.closeAll();
+  });
+
+  it('loads NDJSON with ragged keys and a malformed line', async () => {
+    const p = path.join(tmp, 'events.jsonl');
+    fs.writeFileSync(p, [
+      '{"user_id": 1, "kind": "view"}',
+      'not json',
+      '',
+      '{"user_id": 2, "kind": "buy", "price": 9.5, "meta": {"src": "ad"}}',
+    ].join('\n'));
+
+    const manager = new SourceManager();
+    await manager.add('events', { type: 'csv', path: p });
+    const schema = await manager.getSchema('events');
+    const table = schema.schema!.tables[0];
+    expect(table.rowCount).toBe(2);
+    expect(table.columns.map((c) => c.name)).toEqual(['user_id', 'kind', 'price', 'meta']);
+    const price = table.columns.find((c) => c.name === 'price')!;
+    expect(price.nullCount).toBe(1); // absent from the first row
+
+    const r = await manager.querySql('events', "SELECT meta FROM events WHERE kind = 'buy'");
+    expect(JSON.parse(r.rows![0].meta)).toEqual({ src: 'ad' });
+    await manager.closeAll();
+  });
+
+  it('loads a mixed folder as one joinable database and skips sidecars', async () => {
+    fs.copyFileSync(FIXTURE_PARQUET, path.join(tmp, 'orders.parquet'));
+    fs.writeFileSync(path.join(tmp, 'customers.json'), JSON.stringify([
+      { customer_id: 10, name: 'Ada' },
+      { customer_id: 11, name: 'Grace' },
+      { customer_id: 12, name: 'Edsger' },
+    ]));
+    fs.writeFileSync(path.join(tmp, 'visits.ndjson'), '{"customer_id": 10, "pages": 3}\n{"customer_id": 12, "pages": 8}\n');
+    fs.writeFileSync(path.join(tmp, 'notes.csv'), 'customer_id,note\n11,vip\n');
+    fs.writeFileSync(path.join(tmp, '.dolex.json'), JSON.stringify({ version: 1, sources: {} }));
+
+    const manager = new SourceManager();
+    await manager.add('shop', { type: 'csv', path: tmp });
+    const schema = await manager.getSchema('shop');
+    expect(schema.ok).toBe(true);
+    expect(schema.schema!.tables.map((t) => t.name).sort()).toEqual(['customers', 'notes', 'orders', 'visits']);
+
+    const fks = schema.schema!.foreignKeys;
+    expect(fks.some((fk) =>
+      [fk.fromTable, fk.toTable].includes('orders') && [fk.fromTable, fk.toTable].includes('customers'))).toBe(true);
+
+    const r = await manager.querySql('shop', `
+      SELECT c.name, COUNT(*) AS n FROM orders o JOIN customers c ON c.customer_id = o.customer_id
+      GROUP BY c.name ORDER BY n DESC, c.name`);
+    expect(r.ok).toBe(true);
+    expect(r.rows![0]).toEqual({ name: 'Ada', n: 3 });
+    await manager.closeAll();
+  });
+
+  it('rejects a .json file that is not an array of objects', async () => {
+    const p = path.join(tmp, 'config.json');
+    fs.writeFileSync(p, '{"a": 1}');
+    const manager = new SourceManager();
+    await manager.add('cfg', { type: 'csv', path: p });
+    const schema = await manager.getSchema('cfg');
+    expect(schema.ok).toBe(false);
+    expect(schema.error).toMatch(/not a JSON array/);
+  });
+});
+
+(pythonAvailable() ? describe : describe.skip)('file connector — cleanfix replay on JSON', () => {
+  it('replays a <base>.cleanfix.json over an NDJSON file', async () => {
+    const p = path.join(tmp, 'people.ndjson');
+    fs.writeFileSync(p, '{"name": " ada "}\n{"name": "grace"}\n');
+    fs.writeFileSync(path.join(tmp, 'people.cleanfix.json'), JSON.stringify({
+      dataset: 'people', createdBy: 'test', createdAt: new Date().toISOString(),
+      fixes: [{ column: 'name', issue: 'case', task: 'title-case', validated: true, summary: '',
+        pythonCode: 'def clean(value):\n    return value.strip().title()' }],
+    }));
+
+    const manager = new SourceManager();
+    await manager.add('people', { type: 'csv', path: p });
+    const r = await manager.querySql('people', 'SELECT name FROM people ORDER BY name');
+    expect(r.rows!.map((row) => row.name)).toEqual(['Ada', 'Grace']);
+    await manager.closeAll();
+  });
+});
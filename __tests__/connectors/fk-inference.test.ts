@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SourceManager } from '../../src/connectors/manager.js';
+import type { ForeignKey } from '../../src/types.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+let tmp: string;
+beforeEach(() => { tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fk-inference-')); });
+afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+function csv(name: string, header: string, rows: (string | number)[][]): void {
+  fs.writeFileSync(path.join(tmp, `${name}.csv`), [header, ...rows.map((r) => r.join(','))].join('\n') + '\n');
+}
+
+async function foreignKeys(): Promise<ForeignKey[]> {
+  const manager = new SourceManager();
+  await manager.add('shop', { type: 'csv', path: tmp });
+  const schema = await manager.getSchema('shop');
+  await manager.closeAll();
+  return schema.schema!.foreignKeys;
+}
+
+const between = (fks: ForeignKey[], from: string, to: string) =>
+  fks.find((fk) => `${fk.fromTable}.${fk.fromColumn}` === from && `${fk.toTable}.${fk.toColumn}` === to);
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i + 1);
+
+describe('foreign-key inference', () => {
+  it('matches differently named keys by stem and value containment', async () => {
+    csv('customers', 'customer_number,name', range(20).map((i) => [1000 + i, `c${i}`]));
+    csv('orders', 'order_ref,cust_no,amount', range(60).map((i) => [i, 1000 + ((i % 15) + 1), i * 3]));
+
+    const fk = between(await foreignKeys(), 'orders.cust_no', 'customers.customer_number');
+    expect(fk).toBeDefined();
+    expect(fk!.evidence).toMatchObject({ nameMatch: 'similar', containment: 1, fromDistinct: 15, toDistinct: 20, toUnique: true });
+    expect(fk!.confidence).toBeGreaterThan(0.8);
+  });
+
+  it('matches a bare id to the table it names and orients many → one', async () => {
+    csv('products', 'id,title', range(10).map((i) => [i, `p${i}`]));
+    csv('order_lines', 'line,product_id,qty', range(40).map((i) => [i, (i % 10) + 1, 2]));
+
+    const fks = await foreignKeys();
+    expect(between(fks, 'order_lines.product_id', 'products.id')).toBeDefined();
+    // `line` and `id` overlap 1..10 by accident, but neither name says so and `id` already has a name match.
+    expect(fks.some((fk) => fk.fromColumn === 'line' && fk.toColumn === 'id')).toBe(false);
+  });
+
+  it('finds keys by values alone and flags case-insensitive matches', async () => {
+    csv('products', 'sku,title', range(12).map((i) => [`AB-${i}`, `p${i}`]));
+    csv('stock', 'item,warehouse', range(30).map((i) => [`ab-${(i % 12) + 1}`, i % 2 ? 'east' : 'west']));
+
+    const fk = between(await foreignKeys(), 'stock.item', 'products.sku');
+    expect(fk).toBeDefined();
+    expect(fk!.evidence).toMatchObject({ nameMatch: 'none', caseInsensitive: true, toUnique: true });
+    expect(fk!.confidence).toBeLessThan(0.7);
+  });
+
+  it('reports same-named id columns whatever their overlap, with the evidence to judge them', async () => {
+    csv('a', 'account_id,x', [[1, 1], [2, 2], [3, 3]]);
+    csv('b', 'account_id,y', [[7, 1], [8, 2], [8, 3]]);
+
+    const fk = between(await foreignKeys(), 'b.account_id', 'a.account_id');
+    expect(fk).toBeDefined();
+    expect(fk!.evidence!.containment).toBe(0);
+    expect(fk!.confidence).toBe(0);
+  });
+
+  it('ignores measures that merely overlap', async () => {
+    csv('left', 'price,label', range(10).map((i) => [i, `l${i}`]));
+    csv('right', 'qty,label2', range(10).map((i) => [(i % 5) + 1, `r${i}`]));
+    expect(await foreignKeys()).toEqual([]);
+  });
+});
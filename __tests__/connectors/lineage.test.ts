@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { resultLineage } from '../../src/connectors/lineage.js';
+
+const from = (query: string, columns: string[], document = false) =>
+  Object.fromEntries([...resultLineage(query, columns, document)].map(([c, s]) => [c, [...s].sort()]));
+
+describe('result-column lineage', () => {
+  it('follow aliases and expressions back to the columns they read', () => {
+    expect(from(
+      `SELECT ssn AS x, c.phone p, UPPER("customer_name") AS "Who", first || ' ' || last AS full, region FROM customers c WHERE email IS NOT NULL`,
+      ['x', 'p', 'Who', 'full', 'region'],
+    )).toEqual({
+      x: ['ssn', 'x'],
+      p: ['p', 'phone'],
+      Who: ['customer_name', 'who'],
+      full: ['first', 'full', 'last'],
+      region: ['region'],
+    });
+  });
+
+  it('follow subqueries and CTEs, and leave counts and literals out', () => {
+    expect(from(
+      `WITH t AS (SELECT ssn AS k, COUNT(DISTINCT email) AS users FROM c GROUP BY ssn) SELECT k AS id, users, 'ssn' AS label FROM (SELECT * FROM t) s`,
+      ['id', 'users', 'label'],
+    )).toEqual({ id: ['id', 'k', 'ssn'], users: ['users'], label: ['label'] });
+    expect(from('SELECT CASE WHEN score > 1 THEN name ELSE NULL END FROM t', ['upper', 'CASE WHEN score > 1 THEN name ELSE NULL END']))
+      .toEqual({ upper: ['upper'], 'CASE WHEN score > 1 THEN name ELSE NULL END': ['case when score > 1 then name else null end', 'name', 'score'] });
+    expect(from('SELECT upper(email) FROM t', ['upper'])).toEqual({ upper: ['email', 'upper'] });
+  });
+
+  it('follow pipeline stages', () => {
+    const pipeline = JSON.stringify({
+      collection: 'customers',
+      pipeline: [
+        { $group: { _id: '$contact.email', n: { $sum: 1 } } },
+        { $project: { _id: 0, who: '$_id', n: 1 } },
+      ],
+    });
+    expect(from(pipeline, ['who', 'n'], true)).toEqual({ who: ['_id', 'contact', 'contact.email', 'who'], n: ['n'] });
+  });
+});
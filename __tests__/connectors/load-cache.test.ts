@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SourceManager } from '../../src/connectors/manager.js';
+import { listCacheEntries, pruneCache, sourceFingerprint } from '../../src/connectors/load-cache.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+let tmp: string;
+let cacheDir: string;
+beforeEach(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'load-cache-'));
+  cacheDir = path.join(tmp, 'cache');
+});
+afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+/** Row count and SUM(amount) of a one-table CSV, through a fresh cache-enabled manager. */
+async function totals(csvPath: string): Promise<{ rowCount: number; total: number }> {
+  const manager = new SourceManager(undefined, { cacheDir });
+  const table = path.basename(csvPath, '.csv');
+  await manager.add(table, { type: 'csv', path: csvPath });
+  const schema = await manager.getSchema(table);
+  const r = await manager.querySql(table, `SELECT SUM(amount) AS total FROM ${table}`);
+  await manager.closeAll();
+  return { rowCount: schema.schema!.tables[0].rowCount, total: r.rows![0].total };
+}
+
+describe('load cache', () => {
+  it('restores a loaded CSV from the cache while the file is unchanged', async () => {
+    const p = path.join(tmp, 'sales.csv');
+    const mtime = new Date('2024-01-01T00:00:00Z');
+    fs.writeFileSync(p, 'region,amount\nnorth,10\nsouth,20\n');
+    fs.utimesSync(p, mtime, mtime);
+
+    expect(await totals(p)).toEqual({ rowCount: 2, total: 30 });
+    expect(listCacheEntries(cacheDir).map((e) => e.status)).toEqual(['fresh']);
+
+    // Same size, same mtime, different content: only a cache hit still sees the old numbers.
+    fs.writeFileSync(p, 'region,amount\nnorth,70\nsouth,80\n');
+    fs.utimesSync(p, mtime, mtime);
+    expect(await totals(p)).toEqual({ rowCount: 2, total: 30 });
+  });
+
+  it('reloads when the file changes and marks the old entry stale until then', async () => {
+    const p = path.join(tmp, 'sales.csv');
+    fs.writeFileSync(p, 'region,amount\nnorth,10\nsouth,20\n');
+    await totals(p);
+
+    fs.appendFileSync(p, 'east,5\n');
+    expect(listCacheEntries(cacheDir)[0].status).toBe('stale');
+    expect(await totals(p)).toEqual({ rowCount: 3, total: 35 });
+    expect(listCacheEntries(cacheDir).map((e) => e.status)).toEqual(['fresh']);
+  });
+
+  it('fingerprints the manifest and the CSV overrides', () => {
+    const p = path.join(tmp, 'sales.csv');
+    fs.writeFileSync(p, 'region,amount\nnorth,10\n');
+    const base = sourceFingerprint({ type: 'csv', path: p });
+
+    expect(sourceFingerprint({ type: 'csv', path: p, delimiter: ';' })).not.toBe(base);
+    fs.writeFileSync(path.join(tmp, 'sales.dolex.json'), JSON.stringify({ version: 1, tables: {} }));
+    expect(sourceFingerprint({ type: 'csv', path: p })).not.toBe(base);
+  });
+
+  it('replays derived columns over a cached load', async () => {
+    const p = path.join(tmp, 'sales.csv');
+    fs.writeFileSync(p, 'region,amount\nnorth,10\nsouth,20\n');
+    fs.writeFileSync(path.join(tmp, 'sales.dolex.json'), JSON.stringify({
+      version: 1,
+      tables: { sales: [{ column: 'doubled', expr: 'amount * 2', type: 'numeric' }] },
+    }));
+    await totals(p);
+    expect(listCacheEntries(cacheDir)[0].meta.tables[0].columns.map((c) => c.name)).toEqual(['region', 'amount']);
+
+    const manager = new SourceManager(undefined, { cacheDir });
+    await manager.add('sales', { type: 'csv', path: p });
+    const r = await manager.querySql('sales', 'SELECT SUM(doubled) AS total FROM sales');
+    expect(r.rows![0].total).toBe(60);
+    await manager.closeAll();
+  });
+
+  it('prunes stale and missing entries, or everything with all', async () => {
+    const kept = path.join(tmp, 'kept.csv');
+    const gone = path.join(tmp, 'gone.csv');
+    fs.writeFileSync(kept, 'region,amount\nnorth,10\n');
+    fs.writeFileSync(gone, 'region,amount\nsouth,20\n');
+    await totals(kept);
+    await totals(gone);
+    fs.rmSync(gone);
+
+    expect(listCacheEntries(cacheDir).map((e) => e.status).sort()).toEqual(['fresh', 'missing']);
+    expect(pruneCache(cacheDir).removed).toBe(1);
+    expect(listCacheEntries(cacheDir).map((e) => e.meta.config.path)).toEqual([kept]);
+    expect(pruneCache(cacheDir, { all: true }).removed).toBe(1);
+    expect(listCacheEntries(cacheDir)).toEqual([]);
+  });
+});
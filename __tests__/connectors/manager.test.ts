@@ -134,3 +134,47 @@ describe('SourceManager CSV integration', () => {
     await manager.closeAll();
   });
 });
+
+// ── Paging past the row cap ───────────────────────────────────────────────────
+
+describe('SourceManager result paging', () => {
+  const sql = 'SELECT date, price FROM sales ORDER BY date, price';
+
+  it('queryPage() walks the result in order and says when more remains', async () => {
+    const manager = new SourceManager();
+    await manager.add('sales', { type: 'csv', path: FIXTURES });
+    const all = (await manager.querySql('sales', sql)).rows!;
+
+    const first = await manager.queryPage('sales', sql, 0, 8);
+    expect(first).toMatchObject({ ok: true, offset: 0, pageSize: 8, hasMore: true, totalRows: 8 });
+    expect(first.rows).toEqual(all.slice(0, 8));
+
+    const last = await manager.queryPage('sales', sql, 16, 8);
+    expect(last.rows).toEqual(all.slice(16));
+    expect(last.hasMore).toBe(false);
+
+    // A user LIMIT still bounds the whole result, not each page.
+    const limited = await manager.queryPage('sales', `${sql} LIMIT 10`, 8, 8);
+    expect(limited.rows).toHaveLength(2);
+    expect(limited.hasMore).toBe(false);
+
+    expect((await manager.queryPage('sales', 'DELETE FROM sales', 0, 8)).ok).toBe(false);
+    await manager.closeAll();
+  });
+
+  it('streamSql() yields every page once, then stops', async () => {
+    const manager = new SourceManager();
+    await manager.add('sales', { type: 'csv', path: FIXTURES });
+
+    const pages = [];
+    for await (const page of manager.streamSql('sales', sql, 6)) pages.push(page);
+    expect(pages.map((p) => p.rows!.length)).toEqual([6, 6, 6, 2]);
+    expect(pages.flatMap((p) => p.rows)).toEqual((await manager.querySql('sales', sql)).rows);
+
+    const failed = [];
+    for await (const page of manager.streamSql('sales', 'SELECT nope FROM sales', 6)) failed.push(page);
+    expect(failed).toHaveLength(1);
+    expect(failed[0].ok).toBe(false);
+    await manager.closeAll();
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SourceManager } from '../../src/connectors/manager.js';
+import { appendStages, parseSeam } from '../../src/connectors/mongo/index.js';
+import { handleQuerySource } from '../../src/mcp/tools/query-source.js';
+import { resolveSourceConfig } from '../../src/connectors/source-factory.js';
+import { handleAnalyzeSource } from '../../src/mcp/tools/analyze.js';
+
+/**
+ * Stand-in for the mongodb driver: an `events` collection (and an `orders` one when a test fills
+ * it) whose aggregate cursor applies $match (equality), $sort, $skip, $limit, $count and the
+ * $unwind/$replaceWith stages array tables use, and counts the documents it ships, so the tests
+ * can see how much of the collection crossed the wire.
+ */
+const store = vi.hoisted(() => ({
+  docs: [] as Record<string, any>[], orders: [] as Record<string, any>[], shipped: 0, pipelines: [] as any[][],
+}));
+
+vi.mock('mongodb', () => {
+  const get = (d: any, path: string) => path.split('.').reduce((v, k) => (v == null ? v : v[k]), d);
+  const expr = (e: any, d: any): any => {
+    if (typeof e === 'string' && e.startsWith('$')) return get(d, e.slice(1));
+    if (Array.isArray(e) || e == null || typeof e !== 'object') return e;
+    if (e.$mergeObjects) return Object.assign({}, ...e.$mergeObjects.map((x: any) => expr(x, d)));
+    if (e.$cond) return expr(e.$cond[0], d) ? expr(e.$cond[1], d) : expr(e.$cond[2], d);
+    if (e.$eq) return expr(e.$eq[0], d) === expr(e.$eq[1], d);
+    if (e.$type) { const v = expr(e.$type, d); return Array.isArray(v) ? 'array' : typeof v === 'number' ? 'double' : typeof v; }
+    return Object.fromEntries(Object.entries(e).map(([k, v]) => [k, expr(v, d)]));
+  };
+  const run = (docs: Record<string, any>[], pipeline: any[]) => {
+    for (const stage of pipeline) {
+      if (stage.$match) docs = docs.filter((d) => Object.entries(stage.$match).every(([k, v]) => get(d, k) === v));
+      else if (stage.$sort) {
+        const [[k, dir]] = Object.entries(stage.$sort) as [string, number][];
+        docs = [...docs].sort((a, b) => (get(a, k) - get(b, k)) * dir);
+      } else if (stage.$skip) docs = docs.slice(stage.$skip);
+      else if (stage.$limit) docs = docs.slice(0, stage.$limit);
+      else if (stage.$count) docs = [{ [stage.$count]: docs.length }];
+      else if (stage.$unwind) docs = docs.flatMap((d) => (get(d, stage.$unwind.slice(1)) ?? []).map((el: any) => {
+        const copy = structuredClone(d);
+        const path = stage.$unwind.slice(1).split('.');
+        path.slice(0, -1).reduce((v: any, k: string) => v[k], copy)[path.at(-1)!] = el;
+        return copy;
+      }));
+      else if (stage.$replaceWith) docs = docs.map((d) => expr(stage.$replaceWith, d));
+    }
+    return docs;
+  };
+  const collection = (name: string) => {
+    const docs = () => (name === 'orders' ? store.orders : store.docs);
+    return {
+      countDocuments: async () => docs().length,
+      find: () => ({ toArray: async () => docs().slice(0, 5) }),
+      aggregate: (pipeline: any[]) => {
+        store.pipelines.push(pipeline);
+        // Column stats ($facet) aren't under test: an empty profile is enough.
+        if (pipeline.some((s) => s.$facet)) return { toArray: async () => [{}] };
+        const sample = pipeline.find((s) => s.$sample);
+        const stages = sample ? [...pipeline.filter((s) => s !== sample), { $limit: sample.$sample.size }] : pipeline;
+        return {
+          toArray: async () => run(docs(), stages),
+          async *[Symbol.asyncIterator]() {
+            for (const d of run(docs(), stages)) { store.shipped++; yield d; }
+          },
+        };
+      },
+    };
+  };
+  class MongoClient {
+    async connect() {}
+    db() {
+      const names = store.orders.length ? ['events', 'orders'] : ['events'];
+      return { listCollections: () => ({ toArray: async () => names.map((name) => ({ name })) }), collection };
+    }
+    async close() {}
+  }
+  return { MongoClient, default: { MongoClient } };
+});
+
+beforeEach(() => {
+  store.orders = [];
+  store.docs = Array.from({ length: 25_000 }, (_, i) => ({ seq: i, kind: i % 5 === 0 ? 'click' : 'view' }));
+  store.shipped = 0;
+  store.pipelines = [];
+});
+
+describe('mongo connector result caps', () => {
+  it('appends stages to a pipeline in whatever shape it arrived', () => {
+    const stages = [{ $limit: 3 }];
+    expect(JSON.parse(appendStages('[{"$match":{"a":1}}]', stages))).toEqual([{ $match: { a: 1 } }, { $limit: 3 }]);
+    expect(JSON.parse(appendStages('{"collection":"e","pipeline":[]}', stages))).toEqual({ collection: 'e', pipeline: [{ $limit: 3 }] });
+    // A missing closing brace is repaired the way parseSeam repairs it.
+    expect(parseSeam(appendStages('{"collection":"e","pipeline":[{"$sort":{"a":1}}]', stages))).toEqual({
+      collection: 'e', pipeline: [{ $sort: { a: 1 } }, { $limit: 3 }],
+    });
+    expect(appendStages('not json', stages)).toBe('not json');
+  });
+
+  it('stops the server at the cap instead of shipping the whole collection', async () => {
+    const manager = new SourceManager();
+    await manager.add('app', { type: 'mongodb', host: 'db', database: 'app' });
+    store.shipped = 0;
+
+    const r = await manager.querySql('app', JSON.stringify({ collection: 'events', pipeline: [{ $sort: { seq: 1 } }] }));
+    expect(r.rows).toHaveLength(10_000);
+    expect(r.truncated).toBe(true);
+    expect(store.shipped).toBe(10_001);
+    expect(store.pipelines.at(-1)).toEqual([{ $sort: { seq: 1 } }, { $limit: 10_001 }]);
+
+    const clicks = await manager.querySql('app', '[{"$match":{"kind":"click"}}]', 50_000);
+    expect(clicks.rows).toHaveLength(5_000);
+    expect(clicks.truncated).toBe(false);
+
+    expect((await manager.querySql('app', '[{"$out":"copy"}]')).error).toMatch(/read-only/);
+    await manager.closeAll();
+  });
+
+  it('pages through a pipeline with $skip/$limit, over query_data too', async () => {
+    const manager = new SourceManager();
+    await manager.add('app', { type: 'mongodb', host: 'db', database: 'app' });
+    const pipeline = JSON.stringify({ collection: 'events', pipeline: [{ $match: { kind: 'click' } }, { $sort: { seq: 1 } }] });
+
+    const page = await manager.queryPage('app', pipeline, 4_000, 600);
+    expect(page.rows!.map((d) => d.seq)).toEqual(Array.from({ length: 600 }, (_, i) => (4_000 + i) * 5));
+    expect(page.hasMore).toBe(true);
+    expect(store.pipelines.at(-1)!.slice(-2)).toEqual([{ $skip: 4_000 }, { $limit: 601 }]);
+
+    const last = await manager.queryPage('app', pipeline, 4_800, 600);
+    expect(last.rows).toHaveLength(200);
+    expect(last.hasMore).toBe(false);
+
+    const handler = handleQuerySource({ sourceManager: manager });
+    const first = JSON.parse((await handler({ sourceId: 'app', sql: pipeline, maxRows: 2_000 })).content[0].text);
+    expect(first).toMatchObject({ truncated: true, nextPage: 2 });
+    const third = JSON.parse((await handler({ resultId: first.resultId, page: 3 })).content[0].text);
+    expect(third.rows).toHaveLength(1_000);
+    expect(third.rows[0].seq).toBe(4_000 * 5);
+    expect(third.truncated).toBe(false);
+    await manager.closeAll();
+  });
+});
+
+describe('mongo nested documents', () => {
+  beforeEach(() => {
+    store.orders = [
+      { _id: 'o1', customer: { name: 'Ada', address: { city: 'London', geo: { lat: 51.5 } } }, items: [{ sku: 'A', qty: 2 }, { sku: 'B', qty: 1 }], tags: ['gift'] },
+      { _id: 'o2', customer: { name: 'Grace', address: { city: 'Arlington', geo: { lat: 38.9 } } }, items: [{ sku: 'A', qty: 5, dims: { w: 3 } }], tags: [] },
+      { _id: 'o3', customer: { name: 'Linus', address: { city: 'Helsinki', geo: { lat: 60.2 } } }, items: [], tags: ['rush', 'gift'] },
+    ];
+  });
+
+  it('profiles embedded fields as dotted paths and arrays as child tables keyed to the parent', async () => {
+    const manager = new SourceManager();
+    await manager.add('shop', { type: 'mongodb', host: 'db', database: 'shop', collections: ['orders'], flattenDepth: 2 });
+    const schema = (await manager.getSchema('shop')).schema!;
+
+    expect(schema.tables.map((t) => [t.name, t.rowCount])).toEqual([['orders', 3], ['orders.items', 3], ['orders.tags', 3]]);
+    const [orders, items, tags] = schema.tables;
+    // Depth 2 reaches customer.address.city; the geo object one level further stays a value.
+    expect(orders.columns.map((c) => c.name)).toEqual(['_id', 'customer.name', 'customer.address.city', 'customer.address.geo']);
+    expect(items.columns.map((c) => c.name)).toEqual(['_parent_id', 'sku', 'qty', 'dims.w']);
+    expect(items.columns[0].type).toBe('id');
+    expect(items.unwound).toEqual({ collection: 'orders', path: 'items' });
+    expect(tags.columns.map((c) => c.name)).toEqual(['_parent_id', 'value']);
+    expect(schema.foreignKeys).toEqual([
+      { fromTable: 'orders.items', fromColumn: '_parent_id', toTable: 'orders', toColumn: '_id' },
+      { fromTable: 'orders.tags', fromColumn: '_parent_id', toTable: 'orders', toColumn: '_id' },
+    ]);
+    await manager.closeAll();
+  });
+
+  it('queries an array table through $unwind and flattens result rows', async () => {
+    const manager = new SourceManager();
+    // Redaction off: customer.name is a person's name, and the assertions read it back as stored.
+    await manager.add('shop', { type: 'mongodb', host: 'db', database: 'shop', collections: ['orders'], redaction: { mode: 'off' } });
+    const items = await manager.querySql('shop', JSON.stringify({ collection: 'orders.items', pipeline: [{ $match: { sku: 'A' } }] }));
+    expect(items.columns).toEqual(['_parent_id', 'sku', 'qty', 'dims.w']);
+    expect(items.rows).toEqual([
+      { _parent_id: 'o1', sku: 'A', qty: 2, 'dims.w': undefined },
+      { _parent_id: 'o2', sku: 'A', qty: 5, 'dims.w': 3 },
+    ]);
+
+    const orders = await manager.querySql('shop', JSON.stringify({ collection: 'orders', pipeline: [{ $match: { 'customer.address.city': 'Helsinki' } }] }));
+    expect(orders.rows![0]).toMatchObject({ _id: 'o3', 'customer.name': 'Linus', 'customer.address.geo.lat': 60.2 });
+
+    const source = (await manager.connect('shop')).source!;
+    expect((await source.getSampleRows('orders.tags', 5)).map((r) => r.value)).toEqual(['gift', 'rush', 'gift']);
+    await manager.closeAll();
+  });
+
+  it('plans an array table in aggregation pipelines that run on the Mongo path', async () => {
+    const manager = new SourceManager();
+    await manager.add('shop', { type: 'mongodb', host: 'db', database: 'shop', collections: ['orders'] });
+    const res = await handleAnalyzeSource({ sourceManager: manager })({ sourceId: 'shop', table: 'orders.items' });
+    expect(res.isError).toBeUndefined();
+    const plan = JSON.parse(res.content[0].text);
+    expect(plan.steps.length).toBeGreaterThan(0);
+    for (const step of plan.steps) {
+      expect(parseSeam(step.sql).collection).toBe('orders.items');
+      expect((await manager.querySql('shop', step.sql)).ok, step.title).toBe(true);
+    }
+    // The connector unwinds the array before the planned stages run.
+    expect(store.pipelines.at(-1)![0]).toEqual({ $unwind: '$items' });
+    await manager.closeAll();
+  });
+
+  it('keeps top-level fields only at depth 0', async () => {
+    const manager = new SourceManager();
+    await manager.add('shop', { type: 'mongodb', host: 'db', database: 'shop', collections: ['orders'], flattenDepth: 0 });
+    const schema = (await manager.getSchema('shop')).schema!;
+    expect(schema.tables.map((t) => t.name)).toEqual(['orders']);
+    expect(schema.tables[0].columns.map((c) => c.name)).toEqual(['_id', 'customer', 'items', 'tags']);
+    expect(schema.foreignKeys).toEqual([]);
+    await manager.closeAll();
+    expect(() => resolveSourceConfig({ type: 'mongodb', host: 'db', database: 'shop', flattenDepth: -1 })).toThrow(/flattenDepth/);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { SourceManager, classifyConnError } from '../../src/connectors/manager.js';
+import { resolveSourceConfig } from '../../src/connectors/source-factory.js';
+import { handleTransformData } from '../../src/mcp/tools/transform-data.js';
+import { plannerDialectForSource, timeBucketing } from '../../src/analysis/rules.js';
+
+/**
+ * In-process stand-in for a MySQL server: mysql2's promise pool over an in-memory SQLite
+ * database that carries the `information_schema` views the connector reads. Like mysql2 with
+ * bigNumberStrings, integer and decimal results come back as strings tagged with their
+ * MySQL column type, so the connector's numeric coercion is exercised. A READ ONLY transaction
+ * refuses writes to anything but temporary tables, as the server does.
+ */
+const server = vi.hoisted(() => ({ db: null as any, log: [] as string[], version: '8.0.36', readOnly: false }));
+
+vi.mock('mysql2/promise', () => {
+  const LONGLONG = 8;
+  const NEWDECIMAL = 246;
+  const VAR_STRING = 253;
+
+  function run(sql: string, params: unknown[] = []): [any, any[]] {
+    server.log.push(sql);
+    if (/^\s*SET SESSION/i.test(sql)) return [{ affectedRows: 0 }, []];
+    if (/^START TRANSACTION READ ONLY$/.test(sql)) { server.readOnly = true; return [{ affectedRows: 0 }, []]; }
+    if (/^(COMMIT|ROLLBACK)$/.test(sql)) { server.readOnly = false; return [{ affectedRows: 0 }, []]; }
+    // SQLite keeps temporary tables in the unqualified temp schema.
+    const local = sql
+      .replace(/DROP TEMPORARY TABLE IF EXISTS "shop"\./, 'DROP TABLE IF EXISTS temp.')
+      .replace(/CREATE TEMPORARY TABLE "shop"\./, 'CREATE TEMP TABLE ');
+    const stmt = server.db.prepare(local);
+    if (!stmt.reader) {
+      if (server.readOnly) throw new Error('Cannot execute statement in a READ ONLY transaction.');
+      stmt.run(...params);
+      return [{ affectedRows: 0 }, []];
+    }
+    const rows = stmt.all(...params) as Record<string, unknown>[];
+    const fields = stmt.columns().map((c: { name: string }) => {
+      const sample = rows.map((r) => r[c.name]).find((v) => v !== null && v !== undefined);
+      const columnType = typeof sample !== 'number' ? VAR_STRING : Number.isInteger(sample) ? LONGLONG : NEWDECIMAL;
+      return { name: c.name, columnType };
+    });
+    for (const row of rows) {
+      for (const f of fields) if (f.columnType !== VAR_STRING && row[f.name] !== null) row[f.name] = String(row[f.name]);
+    }
+    return [rows, fields];
+  }
+
+  const connection = () => ({
+    query: async (sql: string, params?: unknown[]) => run(sql, params),
+    release: () => {},
+  });
+
+  return {
+    createPool: () => {
+      const listeners: ((conn: unknown) => void)[] = [];
+      let opened = false;
+      const open = () => {
+        if (opened) return;
+        opened = true;
+        for (const l of listeners) l({ query: (sql: string, cb: (err: unknown) => void) => { run(sql); cb(null); } });
+      };
+      return {
+        on: (event: string, listener: (conn: unknown) => void) => { if (event === 'connection') listeners.push(listener); },
+        query: async (sql: string, params?: unknown[]) => { open(); return run(sql, params); },
+        getConnection: async () => { open(); return connection(); },
+        end: async () => {},
+      };
+    },
+  };
+});
+
+beforeEach(() => {
+  server.log = [];
+  server.version = '8.0.36';
+  server.readOnly = false;
+  const db = new Database(':memory:');
+  db.function('VERSION', () => server.version);
+  db.function('SLEEP', { varargs: true }, () => {
+    throw new Error('Query execution was interrupted, maximum statement execution time exceeded');
+  });
+  db.exec(`ATTACH ':memory:' AS information_schema; ATTACH ':memory:' AS shop;`);
+  db.aggregate('STDDEV_POP', {
+    start: () => [] as number[],
+    step: (xs: number[], v: number | null) => { if (v !== null) xs.push(v); },
+    result: (xs: number[]) => {
+      if (xs.length === 0) return null;
+      const mean = xs.reduce((a, b) => a + b, 0) / xs.length;
+      return Math.sqrt(xs.reduce((a, b) => a + (b - mean) ** 2, 0) / xs.length);
+    },
+  });
+  db.exec(`
+    CREATE TABLE information_schema.tables (TABLE_SCHEMA TEXT, TABLE_NAME TEXT, TABLE_TYPE TEXT);
+    CREATE TABLE information_schema.columns (TABLE_SCHEMA TEXT, TABLE_NAME TEXT, COLUMN_NAME TEXT, DATA_TYPE TEXT, ORDINAL_POSITION INT);
+    CREATE TABLE information_schema.key_column_usage (
+      TABLE_SCHEMA TEXT, TABLE_NAME TEXT, COLUMN_NAME TEXT, REFERENCED_TABLE_NAME TEXT, REFERENCED_COLUMN_NAME TEXT
+    );
+    CREATE TABLE shop.customers (id INTEGER PRIMARY KEY, name TEXT, country TEXT);
+    CREATE TABLE shop.orders (order_id INTEGER PRIMARY KEY, customer_id INTEGER, amount NUMERIC, ordered_at TEXT);
+    INSERT INTO information_schema.tables VALUES ('shop', 'customers', 'BASE TABLE'), ('shop', 'orders', 'BASE TABLE');
+    INSERT INTO information_schema.columns VALUES
+      ('shop', 'customers', 'id', 'int', 1), ('shop', 'customers', 'name', 'varchar', 2), ('shop', 'customers', 'country', 'varchar', 3),
+      ('shop', 'orders', 'order_id', 'bigint', 1), ('shop', 'orders', 'customer_id', 'int', 2),
+      ('shop', 'orders', 'amount', 'decimal', 3), ('shop', 'orders', 'ordered_at', 'date', 4);
+    INSERT INTO information_schema.key_column_usage VALUES
+      ('shop', 'orders', 'customer_id', 'customers', 'id'), ('shop', 'customers', 'id', NULL, NULL);
+  `);
+  const customer = db.prepare('INSERT INTO shop.customers VALUES (?, ?, ?)');
+  [['Ada', 'UK'], ['Grace', 'US'], ['Linus', 'FI'], ['Edsger', 'NL']].forEach(([n, c], i) => customer.run(i + 1, n, c));
+  const order = db.prepare('INSERT INTO shop.orders VALUES (?, ?, ?, ?)');
+  for (let i = 1; i <= 20; i++) order.run(i, (i % 4) + 1, i * 2.5, `2024-${String((i % 12) + 1).padStart(2, '0')}-15`);
+  server.db = db;
+});
+
+const config = { type: 'mysql' as const, host: 'localhost', database: 'shop', user: 'reader' };
+
+describe('mysql connector', () => {
+  it('resolves a config from a URI or discrete fields, and plans in the mysql dialect', () => {
+    expect(resolveSourceConfig({ type: 'mysql', uri: 'mysql://reader@db:3306/shop' }))
+      .toEqual({ type: 'mysql', connectionString: 'mysql://reader@db:3306/shop' });
+    expect(resolveSourceConfig({ type: 'mysql', host: 'db', database: 'shop', passwordEnv: 'MYSQL_PWD' }))
+      .toEqual({ type: 'mysql', host: 'db', database: 'shop', passwordEnv: 'MYSQL_PWD' });
+    expect(() => resolveSourceConfig({ type: 'mysql', host: 'db' })).toThrow(/--database/);
+
+    expect(plannerDialectForSource('mysql')).toBe('mysql');
+    const month = timeBucketing({ name: 'ordered_at', type: 'date', uniqueCount: 30, topValues: [{ value: '2024-01-15', count: 1 }] } as any, 'mysql');
+    expect(month).toEqual({ label: 'month', expr: `DATE_FORMAT("ordered_at", '%Y-%m')` });
+    const year = timeBucketing({ name: 'fiscal_year', type: 'numeric', uniqueCount: 5 } as any, 'mysql');
+    expect(year!.expr).toContain('CAST(FLOOR(CAST("fiscal_year" AS DECIMAL(20,6))) AS CHAR)');
+  });
+
+  it('classifies MySQL connection failures', () => {
+    expect(classifyConnError("Cannot connect to MySQL: Access denied for user 'reader'@'10.0.0.2' (using password: YES)")).toBe('auth-failed');
+    expect(classifyConnError("Cannot connect to MySQL: Host '10.0.0.2' is not allowed to connect to this MySQL server")).toBe('auth-failed');
+    expect(classifyConnError("Cannot connect to MySQL: Unknown database 'shopp'")).toBe('db-not-found');
+    expect(classifyConnError('Cannot connect to MySQL: connect ECONNREFUSED 127.0.0.1:3306')).toBe('unreachable');
+  });
+
+  it('profiles tables, reads declared foreign keys and coerces numeric results', async () => {
+    const manager = new SourceManager();
+    await manager.add('shop', config);
+    const schema = (await manager.getSchema('shop')).schema!;
+    expect(server.log[0]).toMatch(/SET SESSION sql_mode = .*ANSI_QUOTES/);
+
+    expect(schema.tables.map((t) => [t.name, t.rowCount])).toEqual([['customers', 4], ['orders', 20]]);
+    const orders = schema.tables.find((t) => t.name === 'orders')!;
+    const col = (n: string) => orders.columns.find((c) => c.name === n)!;
+    expect(col('order_id').type).toBe('id');
+    expect(col('amount').type).toBe('numeric');
+    expect(col('amount').stats).toMatchObject({ min: 2.5, max: 50, median: 25, p25: 12.5, p75: 37.5 });
+    expect(col('ordered_at').type).toBe('date');
+    expect(col('ordered_at').topValues!.length).toBe(10);
+    expect(schema.foreignKeys).toEqual([
+      { fromTable: 'orders', fromColumn: 'customer_id', toTable: 'customers', toColumn: 'id' },
+    ]);
+
+    const r = await manager.querySql('shop', 'SELECT c.country, SUM(o.amount) AS total, COUNT(*) AS n FROM orders o JOIN customers c ON c.id = o.customer_id GROUP BY c.country ORDER BY total DESC');
+    expect(r.ok).toBe(true);
+    expect(r.rows!.slice(0, 2)).toEqual([{ country: 'UK', total: 150, n: 5 }, { country: 'NL', total: 137.5, n: 5 }]);
+
+    const samples = await (await manager.connect('shop')).source!.getSampleRows('orders', 4);
+    expect(samples).toHaveLength(4);
+    expect(Object.keys(samples[0])).toEqual(['order_id', 'customer_id', 'amount', 'ordered_at']);
+    await manager.closeAll();
+  });
+
+  it('derives columns into a session temporary table that shadows the base table', async () => {
+    const manager = new SourceManager();
+    const { entry } = await manager.add('shop', config);
+    const transform = handleTransformData({ sourceManager: manager });
+
+    const res = await transform({ sourceId: entry!.id, table: 'orders', create: 'amount_cents', expr: 'amount * 100' } as any);
+    expect(res.isError).toBeUndefined();
+    await transform({ sourceId: entry!.id, table: 'orders', create: 'big', expr: 'amount > 25' } as any);
+    expect(server.log.filter((s) => /CREATE TEMPORARY TABLE "shop"\."orders" AS SELECT b\.\*/.test(s))).toHaveLength(2);
+
+    const r = await manager.querySql('shop', 'SELECT SUM(amount_cents) AS cents, SUM(big) AS big FROM orders');
+    expect(r.rows![0]).toEqual({ cents: 52500, big: 10 });
+    const orders = (await manager.getSchema('shop')).schema!.tables.find((t) => t.name === 'orders')!;
+    expect(orders.columns.find((c) => c.name === 'amount_cents')!.layer).toBe('derived');
+
+    const bad = await transform({ sourceId: entry!.id, table: 'orders', create: 'oops', expr: 'no_such_column + 1' } as any);
+    expect(bad.isError).toBe(true);
+    expect((await manager.querySql('shop', 'SELECT amount_cents FROM orders LIMIT 1')).ok).toBe(true);
+
+    // The base table is untouched.
+    expect(server.db.prepare('SELECT COUNT(*) AS n FROM pragma_table_info(\'orders\', \'shop\')').get()).toEqual({ n: 4 });
+
+    // On the pinned connection, concurrent queries and samples take turns, each in its own
+    // read-only transaction.
+    const source = (await manager.connect('shop')).source!;
+    server.log = [];
+    const [, samples] = await Promise.all([
+      source.executeQuery('SELECT SUM(big) AS big FROM orders'),
+      source.getSampleRows('orders', 4),
+    ]);
+    expect(samples).toHaveLength(4);
+    expect(server.log.filter((l) => !l.startsWith('SET SESSION')).map((l) => l.split(' ')[0])).toEqual([
+      'START', 'SELECT', 'COMMIT', 'START', 'SELECT', 'COMMIT',
+    ]);
+    await manager.closeAll();
+  });
+
+  it('runs analyst queries in a read-only transaction under the source timeouts', async () => {
+    const manager = new SourceManager();
+    await manager.add('shop', { ...config, lockTimeoutMs: 2500 });
+    const source = (await manager.connect('shop')).source!;
+    server.log = [];
+
+    expect((await source.executeQuery('SELECT COUNT(*) AS n FROM orders')).rows).toEqual([{ n: 20 }]);
+    expect(server.log).toEqual([
+      'SET SESSION max_execution_time = 30000, innodb_lock_wait_timeout = 3, lock_wait_timeout = 3',
+      'START TRANSACTION READ ONLY',
+      'SELECT COUNT(*) AS n FROM orders',
+      'COMMIT',
+    ]);
+    const write = await source.executeQuery("INSERT INTO customers VALUES (9, 'Barbara', 'US')");
+    expect(write.rows[0].error).toMatch(/READ ONLY transaction/);
+    expect(server.log.at(-1)).toBe('ROLLBACK');
+
+    const slow = await manager.querySql('shop', 'SELECT SLEEP(60) AS s');
+    expect(slow.ok).toBe(false);
+    expect(slow.error).toMatch(/source "shop"'s 30s statement timeout/);
+    await manager.closeAll();
+
+    // MariaDB names its statement timeout differently, in seconds.
+    server.version = '10.11.6-MariaDB';
+    const maria = new SourceManager();
+    await maria.add('shop', { ...config, statementTimeoutMs: 2500, lockTimeoutMs: 0 });
+    server.log = [];
+    await maria.querySql('shop', 'SELECT 1 AS one');
+    expect(server.log).toContain('SET SESSION max_statement_time = 2.5');
+    await maria.closeAll();
+  });
+});
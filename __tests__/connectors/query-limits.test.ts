@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SourceManager, classifyConnError } from '../../src/connectors/manager.js';
+import { resolveSourceConfig } from '../../src/connectors/source-factory.js';
+
+/**
+ * Stand-ins for the pg and mongodb drivers that record what the connectors send, so the
+ * read-only transaction and the server-side timeouts can be checked without a live server.
+ */
+const wire = vi.hoisted(() => ({ log: [] as string[], fail: null as string | null, options: [] as unknown[] }));
+
+vi.mock('pg', () => {
+  const run = async (sql: string) => {
+    wire.log.push(sql);
+    if (wire.fail && !/^(BEGIN|COMMIT|ROLLBACK)/.test(sql)) throw new Error(wire.fail);
+    if (/SELECT n FROM/.test(sql)) return { fields: [{ name: 'n', dataTypeID: 20 }], rows: [{ n: '7' }] };
+    return { fields: [], rows: [] };
+  };
+  class Pool {
+    query = run;
+    async connect() { return { query: run, release: () => wire.log.push('release') }; }
+    async end() {}
+  }
+  return { Pool, default: { Pool } };
+});
+
+vi.mock('mongodb', () => {
+  const collection = () => ({
+    aggregate: (pipeline: unknown[], options: unknown) => {
+      wire.options.push(options);
+      return {
+        async *[Symbol.asyncIterator]() {
+          if (wire.fail) throw new Error(wire.fail);
+          yield { n: 7 };
+        },
+      };
+    },
+  });
+  class MongoClient {
+    async connect() {}
+    db() { return { listCollections: () => ({ toArray: async () => [] }), collection }; }
+    async close() {}
+  }
+  return { MongoClient, default: { MongoClient } };
+});
+
+beforeEach(() => {
+  wire.log = [];
+  wire.options = [];
+  wire.fail = null;
+});
+
+describe('live-source query limits', () => {
+  it('resolves per-source timeouts and row caps, and rejects nonsense', () => {
+    expect(resolveSourceConfig({ type: 'postgres', host: 'db', statementTimeoutMs: 60000, lockTimeoutMs: 0, maxRows: 500 }))
+      .toEqual({ type: 'postgres', host: 'db', statementTimeoutMs: 60000, lockTimeoutMs: 0, maxRows: 500 });
+    expect(resolveSourceConfig({ type: 'mongodb', host: 'db', database: 'app', statementTimeoutMs: 1000 }))
+      .toMatchObject({ statementTimeoutMs: 1000 });
+    expect(() => resolveSourceConfig({ type: 'postgres', host: 'db', statementTimeoutMs: -1 })).toThrow(/statementTimeoutMs/);
+    expect(() => resolveSourceConfig({ type: 'mysql', host: 'db', database: 'x', maxRows: 0 })).toThrow(/maxRows/);
+    expect(() => resolveSourceConfig({ type: 'mongodb', host: 'db', database: 'app', lockTimeoutMs: 100 })).toThrow(/no lock timeout/);
+  });
+
+  it('classifies server-side cancellations as timeouts', () => {
+    expect(classifyConnError('canceling statement due to statement timeout')).toBe('timeout');
+    expect(classifyConnError('canceling statement due to lock timeout')).toBe('timeout');
+    expect(classifyConnError('Query execution was interrupted, maximum statement execution time exceeded')).toBe('timeout');
+    expect(classifyConnError('Query execution was interrupted (max_statement_time exceeded)')).toBe('timeout');
+    expect(classifyConnError('Lock wait timeout exceeded; try restarting transaction')).toBe('timeout');
+    expect(classifyConnError('PlanExecutor error during aggregation :: caused by :: operation exceeded time limit')).toBe('timeout');
+  });
+
+  it('runs each Postgres query in a read-only transaction under the source timeouts', async () => {
+    const manager = new SourceManager();
+    await manager.add('wh', { type: 'postgres', host: 'db', database: 'wh', statementTimeoutMs: 15000 });
+    const r = await manager.querySql('wh', 'SELECT n FROM t');
+    expect(r.rows).toEqual([{ n: 7 }]);
+    const tx = wire.log.slice(wire.log.findIndex((l) => l.startsWith('BEGIN')));
+    expect(tx).toEqual([
+      'BEGIN; SET TRANSACTION READ ONLY; SET LOCAL statement_timeout = 15000; SET LOCAL lock_timeout = 5000',
+      'SELECT * FROM (SELECT n FROM t) AS _q LIMIT 10000',
+      'COMMIT',
+      'release',
+    ]);
+
+    wire.log = [];
+    wire.fail = 'canceling statement due to statement timeout';
+    const slow = await manager.querySql('wh', 'SELECT n FROM t CROSS JOIN t t2');
+    expect(slow.ok).toBe(false);
+    expect(slow.error).toMatch(/source "wh"'s 15s statement timeout — narrow it/);
+    expect(slow.error).toMatch(/dolex sources update wh --statement-timeout <ms>/);
+    expect(wire.log).toContain('ROLLBACK');
+    expect(wire.log.at(-1)).toBe('release');
+    await manager.closeAll();
+  });
+
+  it('reads Postgres sample rows in the same read-only transaction', async () => {
+    const manager = new SourceManager();
+    await manager.add('wh', { type: 'postgres', host: 'db', database: 'wh', statementTimeoutMs: 15000 });
+    const source = (await manager.connect('wh')).source!;
+    // The stand-in driver introspects no tables: give the connector one to sample.
+    (source as any).schema.tables.push({ name: 't', columns: [], rowCount: 3 });
+    wire.log = [];
+    await source.getSampleRows('t', 5);
+    expect(wire.log).toEqual([
+      'BEGIN; SET TRANSACTION READ ONLY; SET LOCAL statement_timeout = 15000; SET LOCAL lock_timeout = 5000',
+      'SELECT * FROM "public"."t"',
+      'COMMIT',
+      'release',
+    ]);
+    await manager.closeAll();
+  });
+
+  it('queues concurrent queries on the pinned client, one transaction at a time', async () => {
+    const manager = new SourceManager();
+    await manager.add('wh', { type: 'postgres', host: 'db', database: 'wh' });
+    const source = (await manager.connect('wh')).source!;
+    await source.applyDerivation!('t', 'n2', 'n * 2');
+    wire.log = [];
+    await Promise.all([source.executeQuery('SELECT n FROM t'), source.executeQuery('SELECT n2 FROM t')]);
+    expect(wire.log.map((l) => l.split(';')[0])).toEqual(['BEGIN', 'SELECT n FROM t', 'COMMIT', 'BEGIN', 'SELECT n2 FROM t', 'COMMIT']);
+    await manager.closeAll();
+  });
+
+  it('passes the statement timeout to Mongo as maxTimeMS and caps rows per source', async () => {
+    const manager = new SourceManager();
+    await manager.add('app', { type: 'mongodb', host: 'db', database: 'app', maxRows: 1 });
+    const query = JSON.stringify({ collection: 'events', pipeline: [{ $count: 'n' }] });
+    expect((await manager.querySql('app', query)).rows).toEqual([{ n: 7 }]);
+    expect(wire.options).toEqual([{ maxTimeMS: 30000 }]);
+    expect(manager.resultCap('app')).toBe(1);
+
+    wire.fail = 'operation exceeded time limit';
+    const slow = await manager.querySql('app', query);
+    expect(slow.error).toMatch(/30s statement timeout/);
+
+    // An update can't give it the lock timeout that adding it refuses.
+    const update = await manager.update('app', { lockTimeoutMs: 100 } as any);
+    expect(update).toEqual({ ok: false, error: expect.stringMatching(/no lock timeout/) });
+    expect(manager.get('app')!.config).not.toHaveProperty('lockTimeoutMs');
+    await manager.closeAll();
+  });
+});
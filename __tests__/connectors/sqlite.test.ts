@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { SourceManager } from '../../src/connectors/manager.js';
+import { resolveSourceConfig } from '../../src/connectors/source-factory.js';
+import { handleTransformData } from '../../src/mcp/tools/transform-data.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+let tmp: string;
+let dbPath: string;
+
+beforeEach(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-connector-'));
+  dbPath = path.join(tmp, 'telemetry.db');
+  const db = new Database(dbPath);
+  db.exec(`
+    CREATE TABLE devices (device_id INTEGER PRIMARY KEY, platform TEXT NOT NULL);
+    CREATE TABLE events (
+      event_id INTEGER PRIMARY KEY,
+      device_id INTEGER REFERENCES devices,
+      kind TEXT,
+      duration_ms REAL
+    );
+    CREATE VIEW slow_events AS SELECT * FROM events WHERE duration_ms > 100;
+  `);
+  const device = db.prepare('INSERT INTO devices VALUES (?, ?)');
+  ['ios', 'android', 'web'].forEach((p, i) => device.run(i + 1, p));
+  const event = db.prepare('INSERT INTO events VALUES (?, ?, ?, ?)');
+  for (let i = 1; i <= 30; i++) event.run(i, (i % 3) + 1, i % 2 ? 'open' : 'tap', i * 10);
+  db.close();
+});
+
+afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+describe('sqlite connector', () => {
+  it('infers the sqlite type from the file extension', () => {
+    expect(resolveSourceConfig({ path: dbPath })).toEqual({ type: 'sqlite', path: dbPath });
+    expect(resolveSourceConfig({ path: 'app.sqlite3' }).type).toBe('sqlite');
+  });
+
+  it('profiles tables and views and reads declared foreign keys', async () => {
+    const manager = new SourceManager();
+    await manager.add('telemetry', { type: 'sqlite', path: dbPath });
+    const schema = (await manager.getSchema('telemetry')).schema!;
+
+    expect(schema.tables.map((t) => [t.name, t.rowCount])).toEqual([
+      ['devices', 3], ['events', 30], ['slow_events', 20],
+    ]);
+    const events = schema.tables.find((t) => t.name === 'events')!;
+    const col = (n: string) => events.columns.find((c) => c.name === n)!;
+    expect(col('duration_ms').type).toBe('numeric');
+    expect(col('duration_ms').stats!.max).toBe(300);
+    expect(col('kind').topValues!.map((v) => v.value).sort()).toEqual(['open', 'tap']);
+
+    expect(schema.foreignKeys).toEqual([
+      { fromTable: 'events', fromColumn: 'device_id', toTable: 'devices', toColumn: 'device_id' },
+    ]);
+
+    const samples = await (await manager.connect('telemetry')).source!.getSampleRows('slow_events', 4);
+    expect(samples).toHaveLength(4);
+    expect(Object.keys(samples[0])).toEqual(['event_id', 'device_id', 'kind', 'duration_ms']);
+    await manager.closeAll();
+  });
+
+  it('runs the custom aggregates and rejects writes', async () => {
+    const manager = new SourceManager();
+    await manager.add('telemetry', { type: 'sqlite', path: dbPath });
+    const r = await manager.querySql('telemetry', 'SELECT MEDIAN(duration_ms) AS m, P90(duration_ms) AS p FROM events');
+    expect(r.ok).toBe(true);
+    expect(r.rows![0].m).toBe(155);
+
+    const source = (await manager.connect('telemetry')).source!;
+    const write = await source.executeQuery("DELETE FROM events RETURNING event_id");
+    expect(write.rows[0].error).toMatch(/readonly/);
+    await manager.closeAll();
+  });
+
+  it('derives columns in a session TEMP view without writing to the file', async () => {
+    const before = fs.readFileSync(dbPath);
+    const manager = new SourceManager();
+    const { entry } = await manager.add('telemetry', { type: 'sqlite', path: dbPath });
+
+    const transform = handleTransformData({ sourceManager: manager });
+    const res = await transform({ sourceId: entry!.id, table: 'events', create: 'seconds', expr: 'duration_ms / 1000.0' } as any);
+    expect(res.isError).toBeUndefined();
+    await transform({ sourceId: entry!.id, table: 'events', create: 'is_tap', expr: "kind = 'tap'" } as any);
+
+    const r = await manager.querySql('telemetry', 'SELECT SUM(seconds) AS s, SUM(is_tap) AS taps FROM events');
+    expect(r.rows![0]).toEqual({ s: 4.65, taps: 15 });
+
+    const events = (await manager.getSchema('telemetry')).schema!.tables.find((t) => t.name === 'events')!;
+    const seconds = events.columns.find((c) => c.name === 'seconds')!;
+    expect(seconds).toMatchObject({ layer: 'derived', type: 'numeric' });
+
+    const bad = await transform({ sourceId: entry!.id, table: 'events', create: 'oops', expr: 'no_such_column + 1' } as any);
+    expect(bad.isError).toBe(true);
+    expect((await manager.querySql('telemetry', 'SELECT seconds FROM events LIMIT 1')).ok).toBe(true);
+
+    await manager.closeAll();
+    expect(fs.readFileSync(dbPath).equals(before)).toBe(true);
+    const reopened = new Database(dbPath, { readonly: true });
+    expect(reopened.prepare("SELECT COUNT(*) AS n FROM sqlite_schema WHERE name = 'seconds'").get()).toEqual({ n: 0 });
+    reopened.close();
+  });
+
+  it('refuses a file that is not a SQLite database', async () => {
+    const fake = path.join(tmp, 'notes.db');
+    fs.writeFileSync(fake, 'just text');
+    const manager = new SourceManager();
+    await manager.add('fake', { type: 'sqlite', path: fake });
+    const schema = await manager.getSchema('fake');
+    expect(schema.ok).toBe(false);
+    expect(schema.error).toMatch(/Not a SQLite database file/);
+  });
+});
@@ -54,6 +54,37 @@ describe('load_csv smart summary response', () => {
 
     // Should NOT have the old tables array
     expect(body.tables).toBeUndefined();
+    // Nothing in a clean file for the load-time audit to report
+    expect(body.quality).toBeUndefined();
+
+    await sourceManager.closeAll();
+    fs.rmSync(tmpDir, { recursive: true });
+  });
+
+  it('reports orphaned keys between the files of a folder', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'add-src-'));
+    fs.writeFileSync(path.join(tmpDir, 'customers.csv'), ['customer_id,segment', ...Array.from({ length: 40 }, (_, i) => `${i + 1},${i % 2 ? 'smb' : 'ent'}`)].join('\n'));
+    const orders = ['order_id,customer_id,amount'];
+    for (let i = 0; i < 200; i++) orders.push(`${i},${i % 20 ? (i % 40) + 1 : 900 + i},${10 + (i % 7)}`);
+    fs.writeFileSync(path.join(tmpDir, 'orders.csv'), orders.join('\n'));
+
+    const sourceManager = new SourceManager();
+    const body = JSON.parse((await handleAddSource({ sourceManager })({ name: 'shop', path: tmpDir })).content[0].text);
+    expect(body.quality).toContain('[HIGH] orders.customer_id → customers.customer_id: 10 of 200 orders rows (5.0%) have a customer_id with no match');
+
+    await sourceManager.closeAll();
+    fs.rmSync(tmpDir, { recursive: true });
+  });
+
+  it('quotes no raw personal data in the audit note', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'add-src-'));
+    const owners = ['alice.smith@example.com', 'Alice.Smith@example.com', 'bob.jones@example.com', 'carol.white@example.com'];
+    fs.writeFileSync(path.join(tmpDir, 'deals.csv'), ['deal_id,owner,amount', ...Array.from({ length: 60 }, (_, i) => `${i + 1},${owners[i % 4]},${100 + i}`)].join('\n'));
+
+    const sourceManager = new SourceManager();
+    const body = JSON.parse((await handleAddSource({ sourceManager })({ name: 'deals', path: tmpDir })).content[0].text);
+    expect(body.quality).toContain('[MEDIUM] owner: Values differ only by case/whitespace');
+    expect(body.quality.toLowerCase()).not.toContain('alice.smith');
 
     await sourceManager.closeAll();
     fs.rmSync(tmpDir, { recursive: true });
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { handleDataContext } from '../../src/mcp/tools/data-context.js';
+import { handleAnalyzeSource } from '../../src/mcp/tools/analyze.js';
+import { handleQuerySource } from '../../src/mcp/tools/query-source.js';
+import { handleDescribeSource } from '../../src/mcp/tools/sources.js';
+import { SourceManager } from '../../src/connectors/manager.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const body = (result: any) => JSON.parse(result.content[0].text);
+
+describe('data_context MCP tool', () => {
+  let dir: string;
+  let sourceManager: SourceManager;
+  let sourceId: string;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'data-ctx-'));
+    const lines = ['order_id,order_date,region,amount,is_test'];
+    for (let i = 0; i < 60; i++) {
+      lines.push(`${i},2023-${String((i % 12) + 1).padStart(2, '0')}-${String((i % 27) + 1).padStart(2, '0')},${['north', 'south', 'east'][i % 3]},${100 + (i % 17) * 3},${i % 10 === 0 ? 1 : 0}`);
+    }
+    fs.writeFileSync(path.join(dir, 'orders.csv'), lines.join('\n') + '\n');
+    sourceManager = new SourceManager(path.join(dir, 'state', 'sources.json'));
+    sourceId = (await sourceManager.add('shop', { type: 'csv', path: path.join(dir, 'orders.csv') })).entry!.id;
+  });
+  afterAll(async () => {
+    await sourceManager.closeAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('refuse to save a context with schema errors', async () => {
+    const tool = handleDataContext({ sourceManager });
+    const result = await tool({ sourceId, action: 'save', context: { metrics: [{ name: 'revenue', sql: 'SUM(amount)' }] } });
+    expect(result.isError).toBe(true);
+    expect(body(result).error).toBe('Context not saved:\ncontext.metrics[0]: missing "definition"');
+    expect(fs.existsSync(path.join(dir, 'orders.context.json'))).toBe(false);
+
+    const checked = body(await tool({ sourceId, action: 'validate', context: { dataset: 'orders', columnNotes: [{ column: 'amt', note: 'USD' }] } }));
+    expect(checked).toEqual({ table: 'orders', errors: [], warnings: ['columnNotes: "amt" is not a column of orders'] });
+  });
+
+  it('save, then edit entries by name', async () => {
+    const tool = handleDataContext({ sourceManager });
+    const saved = body(await tool({
+      sourceId,
+      action: 'save',
+      context: { metrics: [{ name: 'revenue', definition: 'Gross order value', sql: 'SUM(amount)' }] },
+    }));
+    expect(saved.path).toBe(path.join(dir, 'orders.context.json'));
+    expect(saved.context.dataset).toBe('orders');
+
+    const updated = body(await tool({
+      sourceId,
+      action: 'update',
+      context: { standardFilters: [{ description: 'Exclude test orders', sql: 'is_test = 0' }], columnNotes: [{ column: 'amount', note: 'USD' }] },
+    }));
+    expect(updated.context).toMatchObject({
+      metrics: [{ name: 'revenue' }],
+      standardFilters: [{ description: 'Exclude test orders' }],
+      columnNotes: [{ column: 'amount' }],
+    });
+
+    const removed = await tool({ sourceId, action: 'update', remove: [{ section: 'columnNotes', key: 'amount' }, { section: 'metrics', key: 'orders' }] });
+    expect(body(removed).error).toBe('Nothing to remove for metrics "orders".');
+    await tool({ sourceId, action: 'update', remove: [{ section: 'columnNotes', key: 'amount' }] });
+    const got = body(await tool({ sourceId, action: 'get' }));
+    expect(got.context.columnNotes).toBeUndefined();
+    expect(got.rendered).toContain('revenue: Gross order value → SQL: SUM(amount)');
+
+    const schema = body(await tool({ sourceId, action: 'schema' }));
+    expect(schema.schema.required).toEqual(['dataset']);
+    expect(schema.prompt).toContain('order_date');
+  });
+
+  it('feed describe_data, analyze_data and query_data', async () => {
+    const described = body(await handleDescribeSource({ sourceManager })({ sourceId, table: 'orders', detail: 'compact' }));
+    expect(described.dataContext).toContain('STANDARD FILTERS (apply unless the question overrides): Exclude test orders [is_test = 0]');
+
+    const plan = body(await handleAnalyzeSource({ sourceManager })({ sourceId, maxSteps: 6, execute: true }));
+    expect(plan.standardFilters).toEqual(['is_test = 0']);
+    const metricStep = plan.steps.find((s: any) => s.fields?.metric === 'revenue');
+    expect(metricStep.category).toBe('trend');
+    expect(metricStep.sql).toContain('SUM(amount) AS "revenue" FROM (SELECT * FROM "orders" WHERE (is_test = 0)) AS "orders"');
+    expect(plan.steps.every((s: any) => s.sql.includes('WHERE (is_test = 0)'))).toBe(true);
+    expect(plan.findings.every((f: any) => f.ok)).toBe(true);
+
+    const query = handleQuerySource({ sourceManager });
+    const unfiltered = body(await query({ sourceId, sql: 'SELECT COUNT(*) AS n FROM orders' }));
+    expect(unfiltered.warnings).toEqual([
+      'The data context for "orders" has standard filters this query doesn\'t apply: Exclude test orders [is_test = 0]. Add them unless the question calls for every row.',
+    ]);
+    const filtered = body(await query({ sourceId, sql: 'SELECT COUNT(*) AS n FROM orders WHERE is_test = 0' }));
+    expect(filtered.warnings).toBeUndefined();
+    expect(filtered.rows).toEqual([{ n: 54 }]);
+  });
+});
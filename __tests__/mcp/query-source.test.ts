@@ -91,4 +91,34 @@ describe('query_source MCP tool', () => {
     await sourceManager.closeAll();
     fs.rmSync(tmpDir, { recursive: true });
   });
+
+  it('pages past maxRows by resultId + page', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qsrc-page-'));
+    const csvPath = path.join(tmpDir, 'data.csv');
+    const rows = Array.from({ length: 12 }, (_, i) => `item${i},${i}`);
+    fs.writeFileSync(csvPath, `name,value\n${rows.join('\n')}`);
+
+    const sourceManager = new SourceManager();
+    await sourceManager.add('paged', { type: 'csv', path: csvPath });
+    const handler = handleQuerySource({ sourceManager });
+
+    const first = JSON.parse((await handler({ sourceId: 'paged', sql: 'SELECT name, value FROM data ORDER BY value', maxRows: 5 })).content[0].text);
+    expect(first).toMatchObject({ truncated: true, page: 1, nextPage: 2 });
+    expect(first.rows.map((r: any) => r.value)).toEqual([0, 1, 2, 3, 4]);
+
+    const second = JSON.parse((await handler({ resultId: first.resultId, page: 2 })).content[0].text);
+    expect(second.rows.map((r: any) => r.value)).toEqual([5, 6, 7, 8, 9]);
+    expect(second.nextPage).toBe(3);
+
+    const third = JSON.parse((await handler({ resultId: second.resultId, page: 3 })).content[0].text);
+    expect(third.rows.map((r: any) => r.value)).toEqual([10, 11]);
+    expect(third).toMatchObject({ truncated: false, page: 3 });
+    expect(third.nextPage).toBeUndefined();
+
+    expect((await handler({ resultId: 'qr-gone', page: 2 })).isError).toBe(true);
+    expect((await handler({ page: 2 })).isError).toBe(true);
+
+    await sourceManager.closeAll();
+    fs.rmSync(tmpDir, { recursive: true });
+  });
 });
@@ -366,6 +366,29 @@ describe('handleDescribeSource', () => {
     expect(body.sampleRows).toBeDefined();
   });
 
+  it('attaches the foreign keys touching each table, with their evidence', async () => {
+    const fk = {
+      fromTable: 'orders', fromColumn: 'cust_no', toTable: 'customers', toColumn: 'customer_number',
+      confidence: 0.93,
+      evidence: { nameMatch: 'similar', containment: 1, fromDistinct: 15, toDistinct: 20, toUnique: true },
+    };
+    const table = (name: string) => ({ name, rowCount: 1, columns: [{ name: 'x', type: 'numeric', nullCount: 0, uniqueCount: 1, sampleValues: [] }] });
+    const manager = makeMockManager({
+      getSchema: vi.fn().mockResolvedValue({
+        ok: true,
+        schema: { tables: [table('orders'), table('customers'), table('notes')], foreignKeys: [fk] },
+      }),
+    });
+
+    const handler = handleDescribeSource({ sourceManager: manager });
+    const result = await handler({ sourceId: 'src-123', detail: 'compact' });
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body[0].foreignKeys).toEqual([fk]);
+    expect(body[1].foreignKeys).toEqual([fk]);
+    expect(body[2].foreignKeys).toBeUndefined();
+  });
+
   it('returns error when getSchema fails', async () => {
     const manager = makeMockManager({
       getSchema: vi.fn().mockResolvedValue({ ok: false, error: 'Source not found: src-bad' }),
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  classifyPiiColumn,
+  detectPii,
+  ibanValid,
+  loadRedactionKey,
+  luhnValid,
+  piiMentions,
+  redactRows,
+  redactValue,
+  scrubText,
+} from '../../src/utils/pii.js';
+import { SourceManager } from '../../src/connectors/manager.js';
+import { buildHtml } from '../../src/renderers/html/template.js';
+import { auditDataset } from '../../src/analysis/quality.js';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('PII detection', () => {
+  it('check card numbers and IBANs by their checksums', () => {
+    expect(luhnValid('4111111111111111')).toBe(true);
+    expect(luhnValid('4111111111111112')).toBe(false);
+    expect(ibanValid('GB82 WEST 1234 5698 7654 32')).toBe(true);
+    expect(ibanValid('GB82 WEST 1234 5698 7654 33')).toBe(false);
+    expect(detectPii('4111-1111-1111-1111')).toBe('credit-card');
+    expect(detectPii('4111-1111-1111-1112')).toBeNull();
+    expect(detectPii('DE89370400440532013000')).toBe('iban');
+  });
+
+  it('tell emails, phones and national IDs from look-alikes', () => {
+    expect(detectPii('ada@example.com')).toBe('email');
+    expect(detectPii('+44 20 7946 0958')).toBe('phone');
+    expect(detectPii('(555) 123-4567')).toBe('phone');
+    expect(detectPii('123-45-6789')).toBe('national-id');
+    expect(detectPii('AB123456C')).toBe('national-id');
+    expect(detectPii('192.168.10.200')).toBeNull();
+    expect(detectPii('2024-01-15')).toBeNull();
+    expect(detectPii(42)).toBeNull();
+  });
+
+  it('take bare digits and plain names only under a telling column name', () => {
+    expect(detectPii('5551234567')).toBeNull();
+    expect(detectPii('5551234567', 'phone_number')).toBe('phone');
+    expect(detectPii('Ada Lovelace')).toBeNull();
+    expect(detectPii('Ada Lovelace', 'customer_name')).toBe('name');
+    expect(detectPii('Widget Deluxe', 'product_name')).toBeNull();
+  });
+
+  it('call a column PII when most sampled values are', () => {
+    const emails = ['a@x.com', 'b@y.org', 'c@z.net', 'not given', 'd@x.com'];
+    expect(classifyPiiColumn('contact', emails)).toEqual({ kind: 'email', matches: 4, sampled: 5 });
+    expect(classifyPiiColumn('contact', ['a@x.com', 'n/a', 'n/a', 'n/a'])).toBeNull();
+    expect(classifyPiiColumn('contact', [null, '', undefined])).toBeNull();
+  });
+
+  it('find mentions inside free text', () => {
+    const text = 'Dr. Jane Smith asked for a refund to 4111 1111 1111 1111; reply to jane@example.com.';
+    expect(piiMentions(text).map((m) => [m.kind, m.match])).toEqual([
+      ['name', 'Jane Smith'],
+      ['credit-card', '4111 1111 1111 1111'],
+      ['email', 'jane@example.com'],
+    ]);
+    expect(piiMentions('Shipped on time, no issues.')).toEqual([]);
+  });
+});
+
+describe('PII redaction', () => {
+  it('mask values keeping their shape, and hash them stably', () => {
+    expect(redactValue('ada@example.com', 'email', 'mask')).toBe('a***@example.com');
+    expect(redactValue('4111-1111-1111-1111', 'credit-card', 'mask')).toBe('****-****-****-1111');
+    expect(redactValue('Ada Lovelace', 'name', 'mask')).toBe('A. L.');
+    expect(redactValue('123-45-6789', 'national-id', 'mask')).toBe('***-**-****');
+    const hashed = redactValue('ada@example.com', 'email', 'hash');
+    expect(hashed).toMatch(/^#[0-9a-f]{12}$/);
+    expect(redactValue('ada@example.com', 'email', 'hash')).toBe(hashed);
+    expect(redactValue(null, 'email', 'mask')).toBeNull();
+  });
+
+  it('hash under the installation\'s secret key', () => {
+    const dirs = [0, 1].map(() => fs.mkdtempSync(path.join(os.tmpdir(), 'key-')));
+    try {
+      loadRedactionKey(dirs[0]);
+      const keyFile = path.join(dirs[0], 'redaction.key');
+      expect(fs.statSync(keyFile).mode & 0o777).toBe(0o600);
+      const hashed = redactValue('123-45-6789', 'national-id', 'hash');
+      expect(hashed).not.toBe(`#${createHash('sha256').update('123-45-6789').digest('hex').slice(0, 12)}`);
+      loadRedactionKey(dirs[1]);
+      expect(redactValue('123-45-6789', 'national-id', 'hash')).not.toBe(hashed);
+      loadRedactionKey(dirs[0]);
+      expect(redactValue('123-45-6789', 'national-id', 'hash')).toBe(hashed);
+      fs.writeFileSync(keyFile, '');
+      expect(() => loadRedactionKey(dirs[0])).toThrow(/is not a redaction key/);
+    } finally {
+      for (const dir of dirs) fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('leave already-redacted values as they are', () => {
+    for (const mode of ['mask', 'hash'] as const) {
+      const once = redactValue('ada@example.com', 'email', mode);
+      expect(redactValue(once, 'email', mode)).toBe(once);
+    }
+    expect(scrubText(scrubText('Mail jane@example.com', 'mask'), 'mask')).toBe('Mail j***@example.com');
+    expect(scrubText('Mail jane@example.com', 'drop')).toBe('Mail [redacted]');
+  });
+
+  it('redact rows by detected kind, listed column and policy', () => {
+    const rows = [
+      { id: 1, email: 'ada@example.com', note: 'Call about order', city: 'London' },
+      { id: 2, email: 'alan@example.org', note: 'Wrote from alan@example.org', city: 'Leeds' },
+    ];
+    const masked = redactRows(rows, {});
+    expect(masked.redacted).toEqual(['email', 'note']);
+    expect(masked.rows[1]).toEqual({ id: 2, email: 'a***@example.org', note: 'Wrote from a***@example.org', city: 'Leeds' });
+    expect(rows[0].email).toBe('ada@example.com');
+
+    const listed = redactRows(rows, { columns: ['city'], allow: ['email'] });
+    expect(listed.rows[0]).toMatchObject({ email: 'ada@example.com', city: '******' });
+
+    const dropped = redactRows(rows, { mode: 'drop' }, ['id', 'email', 'note', 'city']);
+    expect(dropped.columns).toEqual(['id', 'note', 'city']);
+    expect(dropped.rows[1]).toEqual({ id: 2, note: 'Wrote from [redacted]', city: 'Leeds' });
+
+    expect(redactRows(rows, { mode: 'off' })).toEqual({ rows, columns: undefined, redacted: [] });
+  });
+});
+
+describe('redaction at the source', () => {
+  let dir: string;
+  let manager: SourceManager;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pii-'));
+    const lines = ['customer_id,customer_name,email,region,spend'];
+    const names = ['Ada Lovelace', 'Alan Turing', 'Grace Hopper', 'Edsger Dijkstra', 'Barbara Liskov'];
+    for (let i = 0; i < 30; i++) {
+      lines.push(`${i + 1},${names[i % 5]},${names[i % 5].split(' ')[0].toLowerCase()}${i}@example.com,${['north', 'south'][i % 2]},${100 + i}`);
+    }
+    fs.writeFileSync(path.join(dir, 'customers.csv'), lines.join('\n') + '\n');
+    const people = ['person_id,ssn,phone,customer_name,region'];
+    for (let i = 0; i < 30; i++) people.push(`${i + 1},${123450000 + i},${7700900100 + i},${names[i % 5]},${['north', 'south'][i % 2]}`);
+    fs.mkdirSync(path.join(dir, 'hr'));
+    fs.writeFileSync(path.join(dir, 'hr', 'people.csv'), people.join('\n') + '\n');
+    manager = new SourceManager();
+    await manager.add('hr', { type: 'csv', path: path.join(dir, 'hr', 'people.csv'), redaction: { columns: ['ssn'] } });
+    await manager.add('crm', { type: 'csv', path: path.join(dir, 'customers.csv') });
+    await manager.add('crm-open', { type: 'csv', path: path.join(dir, 'customers.csv'), redaction: { allow: ['email'], mode: 'hash' } });
+  });
+  afterAll(async () => {
+    await manager.closeAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('mask query results and say which columns', async () => {
+    const result = await manager.querySql('crm', 'SELECT customer_name, email, region FROM customers ORDER BY spend LIMIT 2');
+    expect(result.rows).toEqual([
+      { customer_name: 'A. L.', email: 'a***@example.com', region: 'north' },
+      { customer_name: 'A. T.', email: 'a***@example.com', region: 'south' },
+    ]);
+    expect(result.redacted).toEqual(['customer_name', 'email']);
+
+    const raw = await manager.querySql('crm', 'SELECT email FROM customers ORDER BY spend LIMIT 1', undefined, { redact: false });
+    expect(raw.rows).toEqual([{ email: 'ada0@example.com' }]);
+    expect(raw.redacted).toBeUndefined();
+  });
+
+  it('keep a column redacted under an alias or inside an expression', async () => {
+    const result = await manager.querySql('hr',
+      'SELECT ssn AS x, phone AS p, customer_name AS customer, SUBSTR(phone, 1, 6) AS prefix, region FROM (SELECT * FROM people) t ORDER BY person_id LIMIT 1');
+    expect(result.rows).toEqual([{ x: '*********', p: '********00', customer: 'A. L.', prefix: '****90', region: 'north' }]);
+    expect(result.redacted).toEqual(['x', 'p', 'customer', 'prefix']);
+
+    const counted = await manager.querySql('hr', 'SELECT region, COUNT(DISTINCT ssn) AS people FROM people WHERE phone IS NOT NULL GROUP BY region ORDER BY region');
+    expect(counted.rows).toEqual([{ region: 'north', people: 15 }, { region: 'south', people: 15 }]);
+    expect(counted.redacted).toBeUndefined();
+  });
+
+  it('follow the source policy', async () => {
+    const result = await manager.querySql('crm-open', 'SELECT customer_name, email FROM customers ORDER BY spend LIMIT 1');
+    expect(result.rows[0].email).toBe('ada0@example.com');
+    expect(result.rows[0].customer_name).toMatch(/^#[0-9a-f]{12}$/);
+    expect(result.redacted).toEqual(['customer_name']);
+  });
+
+  it('mask schema samples and sample rows', async () => {
+    const table = (await manager.getSchema('crm')).schema!.tables[0];
+    const email = table.columns.find((c) => c.name === 'email')!;
+    expect(email.sampleValues.length).toBeGreaterThan(0);
+    expect(email.sampleValues.every((v) => /^[a-z]\*\*\*@example\.com$/.test(String(v)))).toBe(true);
+    const region = table.columns.find((c) => c.name === 'region')!;
+    expect(region.sampleValues).toEqual(expect.arrayContaining(['north', 'south']));
+
+    const connected = await manager.connect('crm');
+    const sample = await connected.source!.getSampleRows('customers', 3);
+    expect(sample.every((r: any) => /\*\*\*@/.test(r.email))).toBe(true);
+  });
+
+  it('redact a copy of the schema, leaving the connector\'s for the audit', async () => {
+    await manager.getSchema('crm');
+    const raw = (await manager.getSchema('crm', { redact: false })).schema!;
+    expect(raw.tables[0].columns.find((c) => c.name === 'email')!.sampleValues.every((v) => /^[a-z]+\d+@example\.com$/.test(String(v)))).toBe(true);
+    const findings = await auditDataset(raw.tables, (sql) => manager.querySql('crm', sql, undefined, { redact: false }));
+    expect(findings.filter((f) => f.issue.startsWith('pii-')).map((f) => f.column)).toEqual(['customer_name', 'email']);
+  });
+
+  it('keep embedded chart rows redacted under the spec\'s policy', () => {
+    const spec: any = {
+      pattern: 'bar', title: 'Spend', encoding: {}, config: {},
+      data: [{ email: 'ada@example.com', spend: 10 }, { email: 'alan@example.com', spend: 12 }],
+    };
+    expect(buildHtml(spec, '')).not.toContain('ada@example.com');
+    expect(buildHtml({ ...spec, redaction: { allow: ['email'] } }, '')).toContain('ada@example.com');
+  });
+});
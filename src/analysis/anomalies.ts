@@ -0,0 +1,271 @@
+/**
+ * Anomaly and change-point detection over a time-bucketed measure — one figure per period, in
+ * order, as a trend step (timeBucketing) returns it.
+ *
+ * The series is first deseasonalized when it spans three full cycles of its bucket (7 days, 52
+ * weeks, 12 months, 4 quarters): each position's seasonal offset is the median residual from a
+ * rolling-median trend. Level shifts are then found by binary segmentation on the median, each
+ * split kept only if the jump is several noise widths (noise estimated, robustly, from the
+ * period-to-period differences) and a step fits the segment better than a straight line — so a
+ * steady trend isn't cut into stairs. Point anomalies are residuals within each level segment —
+ * from its Theil-Sen line plus the median of each period's neighbours — scored by robust z
+ * (0.6745 · (r − median) / MAD, the `mad` aggregate's statistic) and flagged beyond ±3.5.
+ */
+
+import type { TimeAnnotation } from '../types.js';
+
+export interface SeriesPoint {
+  period: string;
+  value: number;
+}
+
+export interface PointAnomaly {
+  period: string;
+  value: number;
+  /** What the period was expected to be: its local level plus its seasonal offset. */
+  expected: number;
+  deviation: number;
+  /** deviation / expected × 100, or null when expected is 0. */
+  pctDeviation: number | null;
+  /** Robust z-score of the residual. */
+  score: number;
+  direction: 'spike' | 'drop';
+}
+
+export interface ChangePoint {
+  /** The first period at the new level. */
+  period: string;
+  /** Median (deseasonalized) level before and after. */
+  before: number;
+  after: number;
+  change: number;
+  pctChange: number | null;
+  /** The jump in noise widths. */
+  score: number;
+}
+
+export interface TimeSeriesAnomalies {
+  anomalies: PointAnomaly[];
+  changePoints: ChangePoint[];
+  /** Periods per seasonal cycle removed before detection, or null if none was. */
+  seasonLength: number | null;
+  /** The findings as line/area chart annotations (`config.annotations`). */
+  annotations: TimeAnnotation[];
+}
+
+/** Periods per seasonal cycle for each timeBucketing bucket. */
+export const SEASON_LENGTHS: Record<string, number> = { day: 7, week: 52, month: 12, quarter: 4 };
+
+const MIN_POINTS = 8;
+const MIN_SEGMENT = 3;
+const MAX_CHANGE_POINTS = 3;
+/** Candidate splits (and Theil-Sen points) per segment — long daily series are thinned to it. */
+const MAX_CANDIDATES = 400;
+/** Robust z beyond which a residual is an anomaly (Iglewicz & Hoaglin). */
+const ANOMALY_Z = 3.5;
+/** Noise widths a level shift must clear. */
+const SHIFT_Z = 5;
+/** MAD → standard deviation under normality. */
+const MAD_SCALE = 1.4826;
+
+function median(xs: number[]): number {
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = s.length >> 1;
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function mad(xs: number[]): number {
+  const m = median(xs);
+  return median(xs.map((x) => Math.abs(x - m)));
+}
+
+/** Centered rolling median, the window clipped at the series' ends. */
+function rollingMedian(xs: number[], window: number): number[] {
+  const half = window >> 1;
+  return xs.map((_, i) => median(xs.slice(Math.max(0, i - half), i + half + 1)));
+}
+
+/** Median of each point's `half` neighbours either side, the point itself left out. */
+function neighbourMedian(xs: number[], half: number): number[] {
+  return xs.map((_, i) => median([...xs.slice(Math.max(0, i - half), i), ...xs.slice(i + 1, i + half + 1)]));
+}
+
+/** Theil-Sen line through xs against their positions: the median pairwise slope. */
+function theilSen(xs: number[]): number[] {
+  const stride = Math.ceil(xs.length / MAX_CANDIDATES);
+  const slopes: number[] = [];
+  for (let i = 0; i < xs.length; i += stride) {
+    for (let j = i + stride; j < xs.length; j += stride) slopes.push((xs[j] - xs[i]) / (j - i));
+  }
+  const slope = slopes.length ? median(slopes) : 0;
+  const intercept = median(xs.map((x, i) => x - slope * i));
+  return xs.map((_, i) => intercept + slope * i);
+}
+
+function mean(xs: number[]): number {
+  return xs.reduce((s, x) => s + x, 0) / xs.length;
+}
+
+function sse(xs: number[], m = mean(xs)): number {
+  return xs.reduce((s, x) => s + (x - m) ** 2, 0);
+}
+
+/** Residual sum of squares of a least-squares line through xs against their positions. */
+function lineSse(xs: number[]): number {
+  const n = xs.length;
+  const mx = (n - 1) / 2, my = mean(xs);
+  let sxx = 0, sxy = 0;
+  xs.forEach((y, i) => { sxx += (i - mx) ** 2; sxy += (i - mx) * (y - my); });
+  const slope = sxx ? sxy / sxx : 0;
+  return xs.reduce((s, y, i) => s + (y - (my + slope * (i - mx))) ** 2, 0);
+}
+
+/** Seasonal offset per point (zeros without a full-cycle season). */
+function seasonalOffsets(values: number[], season: number | null): number[] {
+  if (!season) return values.map(() => 0);
+  const trend = rollingMedian(values, season % 2 ? season : season + 1);
+  const detrended = values.map((v, i) => v - trend[i]);
+  const byPosition = Array.from({ length: season }, (_, p) => median(detrended.filter((_, i) => i % season === p)));
+  const center = median(byPosition);
+  return values.map((_, i) => byPosition[i % season] - center);
+}
+
+/** Split points (indices where a new level starts) by binary segmentation, strongest first. */
+function segment(xs: number[], sigma: number): { at: number; score: number }[] {
+  const found: { at: number; score: number }[] = [];
+  const queue: [number, number][] = [[0, xs.length]];
+  while (queue.length && found.length < MAX_CHANGE_POINTS) {
+    let best: { at: number; score: number; from: number; to: number } | null = null;
+    for (const [from, to] of queue) {
+      const seg = xs.slice(from, to);
+      const stride = Math.ceil(seg.length / MAX_CANDIDATES);
+      for (let k = MIN_SEGMENT; k <= seg.length - MIN_SEGMENT; k += stride) {
+        const left = seg.slice(0, k), right = seg.slice(k);
+        // Medians, so a lone spike doesn't pass for a short segment; 1.2533 is a median's
+        // standard error relative to a mean's.
+        const score = Math.abs(median(left) - median(right)) / (1.2533 * sigma * Math.sqrt(1 / left.length + 1 / right.length));
+        if (score < SHIFT_Z || (best && score <= best.score)) continue;
+        if (sse(left) + sse(right) >= lineSse(seg)) continue; // a straight line explains it as well
+        best = { at: from + k, score, from, to };
+      }
+    }
+    if (!best) break;
+    // Medians barely move within a point or two of the boundary (or a stride, when thinned):
+    // settle it where the two levels fit best.
+    const { from, to } = best;
+    const reach = Math.max(MIN_SEGMENT, Math.ceil((to - from) / MAX_CANDIDATES));
+    let fit = Infinity;
+    for (let at = Math.max(from + MIN_SEGMENT, best.at - reach); at <= Math.min(to - MIN_SEGMENT, best.at + reach); at++) {
+      const cost = sse(xs.slice(from, at)) + sse(xs.slice(at, to));
+      if (cost < fit) { fit = cost; best.at = at; }
+    }
+    found.push({ at: best.at, score: best.score });
+    const i = queue.findIndex(([f, t]) => f === best!.from && t === best!.to);
+    queue.splice(i, 1, [best.from, best.at], [best.at, best.to]);
+  }
+  return found;
+}
+
+function pct(part: number, whole: number): number | null {
+  return whole === 0 ? null : Math.round((1000 * part) / Math.abs(whole)) / 10;
+}
+
+function signed(n: number | null): string {
+  return n === null ? '' : `${n > 0 ? '+' : ''}${n}%`;
+}
+
+/**
+ * Point anomalies and level shifts in `series` (ordered periods of one bucket). Null under
+ * MIN_POINTS periods.
+ */
+export function detectTimeSeriesAnomalies(series: SeriesPoint[], bucket?: string): TimeSeriesAnomalies | null {
+  const values = series.map((p) => p.value);
+  if (values.length < MIN_POINTS) return null;
+  const cycle = bucket ? SEASON_LENGTHS[bucket] : undefined;
+  const season = cycle && values.length >= 3 * cycle ? cycle : null;
+  const offsets = seasonalOffsets(values, season);
+  const adjusted = values.map((v, i) => v - offsets[i]);
+
+  // Noise from first differences: a level shift is one big difference among many small ones.
+  const diffs = adjusted.slice(1).map((v, i) => v - adjusted[i]);
+  const sigma = (MAD_SCALE * mad(diffs) || Math.sqrt(sse(diffs) / diffs.length)) / Math.SQRT2;
+  const splits = sigma > 0 ? segment(adjusted, sigma) : [];
+
+  const bounds = [0, ...splits.map((s) => s.at).sort((a, b) => a - b), values.length];
+  const changePoints: ChangePoint[] = splits
+    .sort((a, b) => a.at - b.at)
+    .map(({ at, score }) => {
+      const k = bounds.indexOf(at);
+      const before = median(adjusted.slice(bounds[k - 1], at));
+      const after = median(adjusted.slice(at, bounds[k + 1]));
+      return { period: series[at].period, before, after, change: after - before, pctChange: pct(after - before, before), score };
+    });
+
+  // Residuals within each segment, so a shift doesn't read as anomalies: its line, plus the
+  // median of each point's neighbours off that line (curvature the line misses).
+  const level: number[] = [];
+  for (let k = 0; k < bounds.length - 1; k++) {
+    const seg = adjusted.slice(bounds[k], bounds[k + 1]);
+    const line = theilSen(seg);
+    const local = neighbourMedian(seg.map((v, i) => v - line[i]), 2);
+    level.push(...line.map((l, i) => l + local[i]));
+  }
+  const residuals = adjusted.map((v, i) => v - level[i]);
+  const center = median(residuals);
+  // All-but-a-few identical residuals leave MAD at 0: fall back to the mean absolute
+  // deviation, scaled to MAD's units (0.6745 · 1.2533).
+  const spread = mad(residuals) || 0.8453 * mean(residuals.map((r) => Math.abs(r - center)));
+  const anomalies: PointAnomaly[] = [];
+  if (spread > 0) {
+    residuals.forEach((r, i) => {
+      const score = (0.6745 * (r - center)) / spread;
+      if (Math.abs(score) <= ANOMALY_Z) return;
+      const expected = level[i] + offsets[i];
+      const deviation = values[i] - expected;
+      anomalies.push({
+        period: series[i].period, value: values[i], expected, deviation,
+        pctDeviation: pct(deviation, expected), score, direction: deviation > 0 ? 'spike' : 'drop',
+      });
+    });
+  }
+
+  const annotations: TimeAnnotation[] = [
+    ...changePoints.map((c): TimeAnnotation => ({ date: c.period, kind: 'change', label: `Level shift ${signed(c.pctChange)}`.trim() })),
+    ...anomalies.map((a): TimeAnnotation => ({
+      date: a.period, kind: 'point', value: a.value, label: `${a.direction === 'spike' ? 'Spike' : 'Drop'} ${signed(a.pctDeviation)}`.trim(),
+    })),
+  ];
+  return { anomalies, changePoints, seasonLength: season, annotations };
+}
+
+/** The bucket a period label was cut at ('2023-04' → month), as timeBucketing labels them. */
+export function inferBucket(periods: string[]): string | undefined {
+  const all = (re: RegExp) => periods.length > 0 && periods.every((p) => re.test(p));
+  if (all(/^\d{4}-Q[1-4]$/)) return 'quarter';
+  if (all(/^\d{4}-W\d{2}$/)) return 'week';
+  if (all(/^\d{4}-\d{2}$/)) return 'month';
+  if (all(/^\d{4}-\d{2}-\d{2}/)) return 'day';
+  if (all(/^\d{4}$/)) return 'year';
+  return undefined;
+}
+
+/**
+ * One point per `timeField` period, `valueField` summed across the period's rows (a grouped
+ * trend collapses to its total), in time order. Rows missing either are skipped.
+ */
+export function seriesFromRows(rows: Record<string, any>[], timeField: string, valueField: string): SeriesPoint[] {
+  const totals = new Map<string, number>();
+  for (const r of rows) {
+    const period = r[timeField];
+    const v = r[valueField] === null || r[valueField] === '' ? NaN : Number(r[valueField]);
+    if (period === null || period === undefined || !Number.isFinite(v)) continue;
+    totals.set(String(period), (totals.get(String(period)) ?? 0) + v);
+  }
+  const time = (p: string) => { const t = Date.parse(p); return Number.isNaN(t) ? null : t; };
+  return [...totals.entries()]
+    .map(([period, value]) => ({ period, value }))
+    .sort((a, b) => {
+      const ta = time(a.period), tb = time(b.period);
+      return ta !== null && tb !== null ? ta - tb : a.period < b.period ? -1 : a.period > b.period ? 1 : 0;
+    });
+}
@@ -0,0 +1,424 @@
+/**
+ * Audit reports for CI — the `dolex check` formats beyond its terminal report and
+ * --json: SARIF 2.1.0 for code-scanning views, JUnit XML for test dashboards (one test
+ * case per table × check) and Markdown for PR comments. Around them, the two things a
+ * pipeline gates on: a severity threshold (`--fail-on`) and suppressions — accepted
+ * findings, listed per column in a check config file beside the data. The same file
+ * declares the dataset's custom rules (see ruleChecks).
+ *
+ * Pure string/object builders over findings; the command decides where they go.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { AUDIT_CHECKS, auditCheckOf, type QualityFinding, type QualityRule, type QualitySeverity } from './quality.js';
+import type { DriftReport } from './baseline.js';
+
+export type FailOn = QualitySeverity | 'none';
+export const FAIL_ON_LEVELS: FailOn[] = ['high', 'medium', 'low', 'none'];
+
+/** One accepted finding (or family of them). Each field may use `*` wildcards; a field
+ *  left out matches anything, but at least one must be given. */
+export interface AuditSuppression {
+  table?: string;
+  column?: string;
+  issue?: string;
+  /** Why it's accepted — carried into the reports. */
+  reason?: string;
+}
+
+export interface AuditConfig {
+  suppress: AuditSuppression[];
+  rules: QualityRule[];
+}
+
+export interface SuppressedFinding {
+  finding: QualityFinding;
+  rule: AuditSuppression;
+}
+
+/** Everything a report renders: the check's findings after suppressions, and its drift. */
+export interface AuditReport {
+  /** Display name of the source. */
+  source: string;
+  tables: string[];
+  findings: QualityFinding[];
+  suppressed: SuppressedFinding[];
+  drift?: DriftReport | null;
+  failOn: FailOn;
+  /** SARIF artifact URI of the data (see sarifArtifactUri); left out for databases. */
+  artifact?: string;
+}
+
+const RANK: Record<QualitySeverity, number> = { high: 3, medium: 2, low: 1 };
+const LABEL: Record<QualitySeverity, string> = { high: 'HIGH', medium: 'MEDIUM', low: 'LOW' };
+const ORDER: QualitySeverity[] = ['high', 'medium', 'low'];
+const SUPPRESSION_KEYS = ['table', 'column', 'issue', 'reason'];
+const CONSTRAINT_KEYS = ['notNull', 'unique', 'min', 'max', 'pattern', 'values'];
+const RULE_KEYS = ['table', 'column', ...CONSTRAINT_KEYS, 'name', 'assert', 'query', 'severity', 'description'];
+
+/** The threshold a check fails at when none is given: HIGH findings, or — against a
+ *  baseline, whose findings are accepted — drift and new findings above LOW. */
+export function defaultFailOn(drift?: DriftReport | null): FailOn {
+  return drift ? 'medium' : 'high';
+}
+
+/** The findings the threshold applies to: all of them, or only drift and new ones
+ *  against a baseline. */
+export function gatingFindings(report: Pick<AuditReport, 'findings' | 'drift'>): QualityFinding[] {
+  return report.drift ? [...report.drift.drift, ...report.drift.newFindings] : report.findings;
+}
+
+/** The gating findings at or above the threshold — the check fails when there are any. */
+export function failingFindings(report: Pick<AuditReport, 'findings' | 'drift' | 'failOn'>): QualityFinding[] {
+  return gatingFindings(report).filter((f) => atOrAbove(f, report.failOn));
+}
+
+function atOrAbove(f: QualityFinding, failOn: FailOn): boolean {
+  return failOn !== 'none' && RANK[f.severity] >= RANK[failOn];
+}
+
+// ─── Suppressions ────────────────────────────────────────────────────────────
+
+/** Check a parsed config file. Errors name the offending entry; a config with errors
+ *  is not used. */
+export function validateAuditConfig(value: unknown): { config: AuditConfig | null; errors: string[] } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { config: null, errors: ['The check config must be a JSON object like {"suppress": [...]}.'] };
+  }
+  const raw = (value as Record<string, unknown>).suppress ?? [];
+  const rules = (value as Record<string, unknown>).rules ?? [];
+  if (!Array.isArray(raw)) return { config: null, errors: ['"suppress" must be an array.'] };
+  if (!Array.isArray(rules)) return { config: null, errors: ['"rules" must be an array.'] };
+  const errors: string[] = [];
+  raw.forEach((entry, i) => {
+    const at = `suppress[${i}]`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push(`${at}: must be an object with table, column and/or issue`);
+      return;
+    }
+    const e = entry as Record<string, unknown>;
+    for (const key of Object.keys(e)) {
+      if (!SUPPRESSION_KEYS.includes(key)) errors.push(`${at}: unknown field "${key}" (use ${SUPPRESSION_KEYS.join(', ')})`);
+      else if (typeof e[key] !== 'string' || e[key] === '') errors.push(`${at}.${key}: must be a non-empty string`);
+    }
+    if (!e.table && !e.column && !e.issue) errors.push(`${at}: needs at least one of table, column, issue`);
+  });
+  rules.forEach((entry, i) => errors.push(...ruleErrors(entry, `rules[${i}]`)));
+  return errors.length > 0
+    ? { config: null, errors }
+    : { config: { suppress: raw as AuditSuppression[], rules: rules as QualityRule[] }, errors: [] };
+}
+
+/** What's wrong with one custom rule: a table, then either a column with constraints
+ *  or a named `assert`/`query`, never both. */
+function ruleErrors(entry: unknown, at: string): string[] {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [`${at}: must be an object with a table and a column or an assertion`];
+  const e = entry as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of Object.keys(e)) {
+    if (!RULE_KEYS.includes(key)) errors.push(`${at}: unknown field "${key}" (use ${RULE_KEYS.join(', ')})`);
+  }
+  for (const key of ['table', 'column', 'name', 'assert', 'query', 'description', 'pattern']) {
+    if (e[key] !== undefined && (typeof e[key] !== 'string' || e[key] === '')) errors.push(`${at}.${key}: must be a non-empty string`);
+  }
+  if (e.table === undefined) errors.push(`${at}: needs a table`);
+  for (const key of ['notNull', 'unique']) {
+    if (e[key] !== undefined && typeof e[key] !== 'boolean') errors.push(`${at}.${key}: must be true or false`);
+  }
+  for (const key of ['min', 'max']) {
+    if (e[key] !== undefined && typeof e[key] !== 'string' && !Number.isFinite(e[key])) errors.push(`${at}.${key}: must be a number or a date string`);
+  }
+  if (e.values !== undefined && (!Array.isArray(e.values) || e.values.length === 0 || !e.values.every((v) => typeof v === 'string' || Number.isFinite(v)))) {
+    errors.push(`${at}.values: must be a non-empty array of strings and numbers`);
+  }
+  if (typeof e.pattern === 'string') {
+    try {
+      new RegExp(e.pattern);
+    } catch (err) {
+      errors.push(`${at}.pattern: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  if (e.severity !== undefined && !ORDER.includes(e.severity as QualitySeverity)) errors.push(`${at}.severity: must be one of ${ORDER.join(', ')}`);
+
+  const constraints = CONSTRAINT_KEYS.filter((key) => e[key] !== undefined && e[key] !== false);
+  const assertions = ['assert', 'query'].filter((key) => e[key] !== undefined);
+  if (assertions.length > 1) errors.push(`${at}: give either assert or query, not both`);
+  if (assertions.length > 0) {
+    if (e.column !== undefined || constraints.length > 0) errors.push(`${at}: an assertion takes no column or column constraints — make it a separate rule`);
+    if (e.name === undefined) errors.push(`${at}: an assertion needs a name`);
+    if (typeof e.query === 'string' && !/^\s*(select|with)\b/i.test(e.query)) errors.push(`${at}.query: must be a SELECT returning the rows that break the rule`);
+  } else if (e.column === undefined) {
+    errors.push(`${at}: needs a column with constraints (${CONSTRAINT_KEYS.join(', ')}), or an assert or query`);
+  } else if (constraints.length === 0) {
+    errors.push(`${at}: needs at least one constraint on ${e.column} (${CONSTRAINT_KEYS.join(', ')})`);
+  }
+  return errors;
+}
+
+/** Read a check config file. A missing file is no config (and no error). */
+export function readAuditConfig(file: string): { config: AuditConfig | null; errors: string[] } {
+  if (!fs.existsSync(file)) return { config: null, errors: [] };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (e) {
+    return { config: null, errors: [`${file}: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+  const result = validateAuditConfig(parsed);
+  return { config: result.config, errors: result.errors.map((err) => `${file}: ${err}`) };
+}
+
+/** Split findings into those kept and those an entry of `rules` accepts (first match wins). */
+export function applySuppressions(
+  findings: QualityFinding[],
+  rules: AuditSuppression[],
+): { kept: QualityFinding[]; suppressed: SuppressedFinding[] } {
+  const matchers = rules.map((rule) => ({
+    rule,
+    table: rule.table ? wildcard(rule.table) : null,
+    column: rule.column ? wildcard(rule.column) : null,
+    issue: rule.issue ? wildcard(rule.issue) : null,
+  }));
+  const kept: QualityFinding[] = [];
+  const suppressed: SuppressedFinding[] = [];
+  for (const f of findings) {
+    const m = matchers.find((r) =>
+      (!r.table || r.table.test(f.table)) &&
+      (!r.column || (f.column !== undefined && r.column.test(f.column))) &&
+      (!r.issue || r.issue.test(f.issue)));
+    if (m) suppressed.push({ finding: f, rule: m.rule });
+    else kept.push(f);
+  }
+  return { kept, suppressed };
+}
+
+function wildcard(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split('*').map((p) => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+}
+
+// ─── SARIF ───────────────────────────────────────────────────────────────────
+
+const SARIF_LEVEL: Record<QualitySeverity, 'error' | 'warning' | 'note'> = { high: 'error', medium: 'warning', low: 'note' };
+
+/** A data file's SARIF artifact URI: relative to `cwd` when it's inside it (how code
+ *  scanning matches results to repository files), a file:// URI otherwise. */
+export function sarifArtifactUri(dataPath: string, cwd: string = process.cwd()): string {
+  const rel = path.relative(cwd, path.resolve(cwd, dataPath));
+  return rel && !rel.startsWith('..') && !path.isAbsolute(rel)
+    ? rel.split(path.sep).join('/')
+    : pathToFileURL(path.resolve(cwd, dataPath)).href;
+}
+
+/**
+ * SARIF 2.1.0: one rule per issue, one result per finding, located at its table/column
+ * (as a logical location, plus the data file when there is one). Suppressed findings
+ * stay in as suppressed results; against a baseline, results carry `baselineState`.
+ */
+export function toSarif(report: AuditReport): Record<string, unknown> {
+  const drift = report.drift;
+  const fresh = new Set(drift?.newFindings ?? []);
+  const entries: { finding: QualityFinding; state?: 'new' | 'unchanged'; drift?: true; suppressed?: AuditSuppression }[] = [
+    ...report.findings.map((f) => ({ finding: f, state: drift ? (fresh.has(f) ? 'new' as const : 'unchanged' as const) : undefined })),
+    ...(drift?.drift ?? []).map((f) => ({ finding: f, state: 'new' as const, drift: true as const })),
+    ...report.suppressed.map((s) => ({ finding: s.finding, suppressed: s.rule })),
+  ];
+
+  const ruleIds = [...new Set(entries.map((e) => e.finding.issue))];
+  const rules = ruleIds.map((id) => {
+    const help = entries.find((e) => e.finding.issue === id && e.finding.suggestion)?.finding.suggestion;
+    return {
+      id,
+      shortDescription: { text: sentence(id) },
+      ...(help ? { help: { text: help } } : {}),
+      properties: { tags: [auditCheckOf(id)] },
+    };
+  });
+
+  const results = entries.map(({ finding: f, state, drift: isDrift, suppressed }) => ({
+    ruleId: f.issue,
+    ruleIndex: ruleIds.indexOf(f.issue),
+    level: SARIF_LEVEL[f.severity],
+    message: { text: f.suggestion ? `${f.detail} ${f.suggestion}` : f.detail },
+    locations: [{
+      ...(report.artifact ? { physicalLocation: { artifactLocation: { uri: report.artifact } } } : {}),
+      logicalLocations: [{
+        name: f.column ?? f.table,
+        fullyQualifiedName: qualifiedName(f),
+        kind: f.column ? 'member' : 'type',
+      }],
+    }],
+    partialFingerprints: { 'dolexFinding/v1': `${f.table}/${f.column ?? ''}/${f.issue}` },
+    properties: {
+      severity: f.severity, table: f.table, ...(f.column ? { column: f.column } : {}),
+      ...(f.violations !== undefined ? { violations: f.violations } : {}), ...(isDrift ? { drift: true } : {}),
+    },
+    ...(state ? { baselineState: state } : {}),
+    ...(suppressed ? { suppressions: [{ kind: 'external', ...(suppressed.reason ? { justification: suppressed.reason } : {}) }] } : {}),
+  }));
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: 'dolex', informationUri: 'https://github.com/outsidedata/dolex', rules } },
+      ...(report.artifact ? { artifacts: [{ location: { uri: report.artifact } }] } : {}),
+      results,
+    }],
+  };
+}
+
+// ─── JUnit ───────────────────────────────────────────────────────────────────
+
+/**
+ * JUnit XML: a test suite per table and a test case per check (AUDIT_CHECKS, any
+ * uncatalogued issue, and `baseline-drift` against a baseline). A case fails when it
+ * holds a gating finding at or above the threshold; the findings below it, and the
+ * suppressed ones, go to the case's system-out.
+ */
+export function toJUnit(report: AuditReport): string {
+  const drift = report.drift;
+  const gating = new Set(gatingFindings(report));
+  const tables = [...new Set([
+    ...report.tables,
+    ...report.findings.map((f) => f.table),
+    ...(drift?.drift ?? []).map((f) => f.table),
+  ])];
+
+  let tests = 0;
+  let failures = 0;
+  const suites = tables.map((table) => {
+    const findings = report.findings.filter((f) => f.table === table);
+    const drifted = (drift?.drift ?? []).filter((f) => f.table === table);
+    const suppressed = report.suppressed.filter((s) => s.finding.table === table);
+    const checks = [...new Set([
+      ...Object.keys(AUDIT_CHECKS),
+      ...findings.map((f) => auditCheckOf(f.issue)),
+      ...suppressed.map((s) => auditCheckOf(s.finding.issue)),
+    ])];
+    const cases = checks.map((check) => ({
+      check,
+      findings: findings.filter((f) => auditCheckOf(f.issue) === check),
+      suppressed: suppressed.filter((s) => auditCheckOf(s.finding.issue) === check),
+    }));
+    if (drift) cases.push({ check: 'baseline-drift', findings: drifted, suppressed: [] });
+
+    let suiteFailures = 0;
+    const body = cases.map((c) => {
+      const failing = c.findings.filter((f) => gating.has(f) && atOrAbove(f, report.failOn));
+      const passing = c.findings.filter((f) => !failing.includes(f));
+      const out = [
+        ...passing.map((f) => findingLine(f)),
+        ...c.suppressed.map((s) => `suppressed: ${findingLine(s.finding)}${s.rule.reason ? ` — ${s.rule.reason}` : ''}`),
+      ];
+      if (failing.length > 0) suiteFailures++;
+      const failure = failing.length > 0
+        ? `\n      <failure message="${xml(`${failing.length} finding${failing.length === 1 ? '' : 's'} at or above ${LABEL[report.failOn as QualitySeverity]}`)}" type="${xml([...new Set(failing.map((f) => f.issue))].join(' '))}">${xml(failing.map(findingLine).join('\n'))}</failure>`
+        : '';
+      const systemOut = out.length > 0 ? `\n      <system-out>${xml(out.join('\n'))}</system-out>` : '';
+      const inner = failure + systemOut;
+      return `    <testcase classname="${xml(`dolex.check.${table}`)}" name="${xml(c.check)}" time="0"${inner ? `>${inner}\n    </testcase>` : ' />'}`;
+    });
+    tests += cases.length;
+    failures += suiteFailures;
+    return `  <testsuite name="${xml(table)}" tests="${cases.length}" failures="${suiteFailures}" errors="0" skipped="0">\n${body.join('\n')}\n  </testsuite>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${xml(`dolex check — ${report.source}`)}" tests="${tests}" failures="${failures}" errors="0">`,
+    ...suites,
+    '</testsuites>',
+  ].join('\n');
+}
+
+function findingLine(f: QualityFinding): string {
+  return `[${LABEL[f.severity]}] ${f.column ? `${f.column} ` : ''}(${f.issue}) ${f.detail}`;
+}
+
+// ─── Markdown ────────────────────────────────────────────────────────────────
+
+/** Markdown for a PR comment: counts, a findings table per section, the suppressed
+ *  findings folded away, and the verdict at the threshold. */
+export function toMarkdown(report: AuditReport): string {
+  const drift = report.drift;
+  const fresh = new Set(drift?.newFindings ?? []);
+  const counts = ORDER.map((sev) => `${report.findings.filter((f) => f.severity === sev).length} ${sev}`).join(' · ');
+  const lines = [
+    `## Data check — ${mdText(report.source)}`,
+    '',
+    `**${counts}**${report.suppressed.length ? ` · ${report.suppressed.length} suppressed` : ''}`,
+    '',
+  ];
+
+  if (report.findings.length === 0) lines.push('No data-quality issues or footguns found.', '');
+  else lines.push(...mdTable(report.findings, fresh), '');
+
+  if (drift) {
+    lines.push(`### Drift since the baseline of ${drift.createdAt.slice(0, 10)}`, '');
+    if (drift.drift.length === 0) lines.push('No schema, volume or distribution changes.', '');
+    else lines.push(...mdTable(drift.drift), '');
+    const changes = [
+      drift.newFindings.length ? `${drift.newFindings.length} new finding${drift.newFindings.length === 1 ? '' : 's'} (marked *new* above)` : '',
+      drift.resolved ? `${drift.resolved} baseline finding${drift.resolved === 1 ? '' : 's'} resolved` : '',
+    ].filter(Boolean);
+    if (changes.length) lines.push(changes.join(' · '), '');
+  }
+
+  if (report.suppressed.length > 0) {
+    lines.push(`<details><summary>${report.suppressed.length} suppressed finding${report.suppressed.length === 1 ? '' : 's'}</summary>`, '');
+    for (const s of report.suppressed) {
+      const f = s.finding;
+      lines.push(`- ${mdText(f.table)}${f.column ? `.${mdText(f.column)}` : ''} \`${f.issue}\`${s.rule.reason ? ` — ${mdText(s.rule.reason)}` : ''}`);
+    }
+    lines.push('', '</details>', '');
+  }
+
+  const failing = failingFindings(report);
+  lines.push(report.failOn === 'none'
+    ? '**Result: pass** (no failure threshold)'
+    : failing.length > 0
+      ? `**Result: fail** — ${failing.length} ${drift ? 'drift or new ' : ''}finding${failing.length === 1 ? '' : 's'} at or above ${LABEL[report.failOn]}`
+      : `**Result: pass** at ${LABEL[report.failOn]}`);
+  return lines.join('\n');
+}
+
+function mdTable(findings: QualityFinding[], fresh?: Set<QualityFinding>): string[] {
+  const sorted = [...findings].sort((a, b) => RANK[b.severity] - RANK[a.severity]);
+  return [
+    '| Severity | Table | Column | Issue | Detail |',
+    '| --- | --- | --- | --- | --- |',
+    ...sorted.map((f) => `| ${LABEL[f.severity]} | ${mdCell(f.table)} | ${f.column ? mdCell(f.column) : ''} | \`${f.issue}\`${fresh?.has(f) ? ' *new*' : ''} | ${mdCell(f.detail)}${f.suggestion ? `<br>→ ${mdCell(f.suggestion)}` : ''} |`),
+  ];
+}
+
+function mdText(s: string): string {
+  return s.replace(/[\\`*_[\]<>]/g, '\\$&');
+}
+
+function mdCell(s: string): string {
+  return mdText(s).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+// ─── Shared ──────────────────────────────────────────────────────────────────
+
+/** `orders.customer_id`, or a referential finding's own `a.x → b.y` column. */
+function qualifiedName(f: QualityFinding): string {
+  if (!f.column) return f.table;
+  return f.column.includes('→') ? f.column : `${f.table}.${f.column}`;
+}
+
+/** `orphaned-foreign-key` → `Orphaned foreign key`. */
+function sentence(id: string): string {
+  const words = id.replace(/-/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function xml(s: string): string {
+  return s
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,414 @@
+/**
+ * Quality baselines — a snapshot of a dataset's profile and audit findings, and the
+ * drift between that snapshot and the data as it loads now.
+ *
+ * `dolex check --baseline` writes one; every later check of the same source compares
+ * against it: schema changes (tables and columns added, removed or retyped), row-count
+ * swings, null-rate jumps, distribution shift (PSI and a KS distance read off each
+ * numeric column's quartile summary; PSI and new categories from a categorical
+ * column's top values) and audit findings that weren't there before. Drift comes back
+ * as QualityFinding entries, so it ranks and renders like the audit itself.
+ *
+ * Profile-only, like `auditColumns`: the comparison reads the stats the connectors
+ * already computed, so it costs no queries and works the same for every source type.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DataColumn, DataSourceConfig } from '../types.js';
+import type { QualityFinding, QualitySeverity } from './quality.js';
+
+export interface BaselineColumn {
+  name: string;
+  type: DataColumn['type'];
+  nullCount: number;
+  totalCount: number;
+  uniqueCount: number;
+  stats?: DataColumn['stats'];
+  topValues?: DataColumn['topValues'];
+}
+
+export interface BaselineTable {
+  name: string;
+  rowCount: number;
+  columns: BaselineColumn[];
+}
+
+export interface QualityBaseline {
+  version: 1;
+  /** ISO timestamp of the snapshot. */
+  createdAt: string;
+  tables: BaselineTable[];
+  /** The audit findings accepted with the snapshot (suggestions and example rows dropped). */
+  findings: Omit<QualityFinding, 'suggestion' | 'examples'>[];
+}
+
+export interface DriftReport {
+  createdAt: string;
+  /** Schema, row-count, null-rate and distribution changes since the snapshot. */
+  drift: QualityFinding[];
+  /** Current findings the snapshot didn't have. */
+  newFindings: QualityFinding[];
+  /** How many of the snapshot's findings are gone. */
+  resolved: number;
+}
+
+type Stats = NonNullable<DataColumn['stats']>;
+type ProfiledTable = { name: string; columns: DataColumn[]; rowCount: number };
+
+/** PSI at or above this is a shift worth a look; at or above PSI_HIGH, a different population. */
+const PSI_SHIFT = 0.1;
+const PSI_HIGH = 0.25;
+/** Smallest KS distance reported, however many rows make it significant. */
+const KS_MIN = 0.1;
+/** Two-sample KS critical coefficient at α = 0.01. */
+const KS_C_ALPHA = 1.63;
+/** Null-rate rises (in share of rows) that count as medium / high drift. */
+const NULL_RISE = 0.05;
+const NULL_RISE_HIGH = 0.25;
+/** Floor for empty PSI bins, so a bin that empties out scores high instead of infinite. */
+const PSI_FLOOR = 1e-4;
+
+/**
+ * Where a source keeps an audit sidecar — its `baseline`, or its `check` config. A single
+ * data file keeps `<base>.<kind>.json` beside it, a directory keeps `.<kind>.json` inside
+ * it, and a multi-table file keeps `<base>.<kind>.json` beside it. A live database's
+ * lives in the state directory (`<stateDir>/<kind>s/<source>.<kind>.json`) — null
+ * without one.
+ */
+export function auditSidecarPath(
+  source: { name: string; config: DataSourceConfig },
+  kind: 'baseline' | 'check',
+  stateDir?: string | null,
+): string | null {
+  const config = source.config;
+  if (config.type === 'postgres' || config.type === 'mysql' || config.type === 'mongodb') {
+    return stateDir ? path.join(stateDir, `${kind}s`, `${source.name.replace(/[\\/:*?"<>|]/g, '_')}.${kind}.json`) : null;
+  }
+  if (typeof config.path !== 'string') return null;
+  const p = config.path.replace(/\/+$/, '');
+  if (!path.extname(p)) return path.join(p, `.${kind}.json`);
+  return path.join(path.dirname(p), `${path.basename(p, path.extname(p))}.${kind}.json`);
+}
+
+/** Where a source keeps its baseline (see auditSidecarPath). */
+export function baselinePath(
+  source: { name: string; config: DataSourceConfig },
+  stateDir?: string | null,
+): string | null {
+  return auditSidecarPath(source, 'baseline', stateDir);
+}
+
+/** Read a baseline if present and well-formed; null otherwise. */
+export function readBaseline(baselineFile: string): QualityBaseline | null {
+  try {
+    if (!fs.existsSync(baselineFile)) return null;
+    const b = JSON.parse(fs.readFileSync(baselineFile, 'utf-8'));
+    return b && b.version === 1 && Array.isArray(b.tables) && Array.isArray(b.findings) ? (b as QualityBaseline) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Persist a baseline atomically (temp + rename, as for the data context). */
+export function writeBaseline(baselineFile: string, baseline: QualityBaseline): void {
+  fs.mkdirSync(path.dirname(baselineFile), { recursive: true });
+  const tmp = `${baselineFile}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(baseline, null, 2), 'utf-8');
+  fs.renameSync(tmp, baselineFile);
+}
+
+/**
+ * Snapshot the profile of `tables` and the findings on them. Tables of `previous` that
+ * weren't profiled this time (a check narrowed with --from) keep their old entries.
+ */
+export function snapshotBaseline(
+  tables: ProfiledTable[],
+  findings: QualityFinding[],
+  previous?: QualityBaseline | null,
+  now: Date = new Date(),
+): QualityBaseline {
+  const names = new Set(tables.map((t) => t.name));
+  return {
+    version: 1,
+    createdAt: now.toISOString(),
+    tables: [
+      ...(previous?.tables ?? []).filter((t) => !names.has(t.name)),
+      ...tables.map((t) => ({
+        name: t.name,
+        rowCount: t.rowCount,
+        columns: t.columns.map((c) => ({
+          name: c.name,
+          type: c.type,
+          nullCount: c.nullCount,
+          totalCount: c.totalCount,
+          uniqueCount: c.uniqueCount,
+          ...(c.stats ? { stats: c.stats } : {}),
+          ...(c.topValues?.length ? { topValues: c.topValues } : {}),
+        })),
+      })),
+    ],
+    findings: [
+      ...(previous?.findings ?? []).filter((f) => !names.has(f.table)),
+      ...findings.map(({ suggestion: _, examples: __, ...f }) => f),
+    ],
+  };
+}
+
+/**
+ * Compare the tables and findings of this check against a baseline. With `partial`
+ * (the check covered only some tables), baseline tables that weren't checked are
+ * left out instead of being reported as removed.
+ */
+export function compareToBaseline(
+  baseline: QualityBaseline,
+  tables: ProfiledTable[],
+  findings: QualityFinding[],
+  partial = false,
+): DriftReport {
+  const drift: QualityFinding[] = [];
+  const current = new Map(tables.map((t) => [t.name, t]));
+  const inScope = baseline.tables.filter((t) => !partial || current.has(t.name));
+
+  for (const before of inScope) {
+    const now = current.get(before.name);
+    if (!now) {
+      drift.push({
+        severity: 'high', table: before.name, issue: 'table-removed',
+        detail: `Table ${before.name} (${fmtCount(before.rowCount)} rows in the baseline) is gone.`,
+        suggestion: 'Queries and joins on it will fail. Check the export that produces this dataset.',
+      });
+      continue;
+    }
+    drift.push(...tableDrift(before, now));
+  }
+  const known = new Set(baseline.tables.map((t) => t.name));
+  for (const t of tables) {
+    if (known.has(t.name)) continue;
+    drift.push({
+      severity: 'low', table: t.name, issue: 'table-added',
+      detail: `Table ${t.name} (${fmtCount(t.rowCount)} rows) is new since the baseline.`,
+      suggestion: 'Refresh the baseline (dolex check --baseline) once it looks right.',
+    });
+  }
+
+  const scope = new Set(inScope.map((t) => t.name));
+  const accepted = new Set(baseline.findings.filter((f) => scope.has(f.table)).map(findingKey));
+  const seen = new Set(findings.map(findingKey));
+  return {
+    createdAt: baseline.createdAt,
+    drift,
+    newFindings: findings.filter((f) => known.has(f.table) && !accepted.has(findingKey(f))),
+    resolved: [...accepted].filter((k) => !seen.has(k)).length,
+  };
+}
+
+function tableDrift(before: BaselineTable, now: ProfiledTable): QualityFinding[] {
+  const out: QualityFinding[] = [];
+  const t = before.name;
+
+  if (before.rowCount > 0) {
+    const ratio = now.rowCount / before.rowCount;
+    const change = `${fmtCount(before.rowCount)} → ${fmtCount(now.rowCount)} rows (${signedPct(ratio - 1)})`;
+    if (now.rowCount === 0) {
+      out.push({ severity: 'high', table: t, issue: 'row-count-change', detail: `The table is empty: ${change}.`, suggestion: 'A failed or partial load. Check the export before using this data.' });
+    } else if (ratio < 0.9) {
+      out.push({
+        severity: ratio < 0.5 ? 'high' : 'medium', table: t, issue: 'row-count-change', detail: `The table shrank: ${change}.`,
+        suggestion: 'A refresh that loses rows is usually a partial load or a changed filter upstream. Totals will drop with it.',
+      });
+    } else if (ratio > 2) {
+      out.push({
+        severity: 'medium', table: t, issue: 'row-count-change', detail: `The table more than doubled: ${change}.`,
+        suggestion: 'Check for a double load or a widened export before comparing totals with earlier runs.',
+      });
+    }
+  }
+
+  const cols = new Map(now.columns.map((c) => [c.name, c]));
+  for (const b of before.columns) {
+    const c = cols.get(b.name);
+    if (!c) {
+      out.push({
+        severity: 'high', table: t, column: b.name, issue: 'column-removed',
+        detail: `Column ${b.name} (${b.type}) is gone.`,
+        suggestion: 'Queries, saved charts and data-context entries that use it will fail.',
+      });
+      continue;
+    }
+    if (c.type !== b.type) {
+      const severe = [b.type, c.type].some((ty) => ty === 'numeric' || ty === 'date');
+      out.push({
+        severity: severe ? 'high' : 'medium', table: t, column: b.name, issue: 'column-retyped',
+        detail: `Column ${b.name} now profiles as ${c.type}, not ${b.type}.`,
+        suggestion: severe
+          ? 'Sorting, comparisons and aggregates on it change meaning. Look for new non-numeric or unparseable values.'
+          : 'Its cardinality changed enough to classify it differently. Check what it holds now.',
+      });
+      continue;
+    }
+    const nullShift = nullRateDrift(t, b, c);
+    if (nullShift) out.push(nullShift);
+    out.push(...distributionDrift(t, b, c));
+  }
+  const known = new Set(before.columns.map((c) => c.name));
+  for (const c of now.columns) {
+    if (known.has(c.name) || c.layer === 'working') continue;
+    out.push({
+      severity: 'low', table: t, column: c.name, issue: 'column-added',
+      detail: `Column ${c.name} (${c.type}) is new since the baseline.`,
+    });
+  }
+  return out;
+}
+
+function nullRateDrift(table: string, b: BaselineColumn, c: DataColumn): QualityFinding | null {
+  if (b.totalCount === 0 || c.totalCount === 0) return null;
+  const before = b.nullCount / b.totalCount;
+  const now = c.nullCount / c.totalCount;
+  const rise = now - before;
+  const severity: QualitySeverity | null = rise >= NULL_RISE_HIGH ? 'high' : rise >= NULL_RISE ? 'medium' : rise <= -NULL_RISE_HIGH ? 'low' : null;
+  if (!severity) return null;
+  return {
+    severity, table, column: b.name, issue: 'null-rate-shift',
+    detail: `Null rate ${pct(before)} → ${pct(now)} (${fmtCount(c.nullCount)} of ${fmtCount(c.totalCount)} rows).`,
+    suggestion: rise > 0
+      ? 'Something upstream stopped filling this column. Averages and counts over it now cover fewer rows.'
+      : 'The column is filled far more often than before. Check that the new values mean the same thing.',
+  };
+}
+
+function distributionDrift(table: string, b: BaselineColumn, c: DataColumn): QualityFinding[] {
+  if (b.type === 'numeric' && b.stats && c.stats) {
+    const { psi, ks } = numericShift(b.stats, c.stats);
+    const n = b.totalCount - b.nullCount;
+    const m = c.totalCount - c.nullCount;
+    const ksSignificant = n > 0 && m > 0 && ks >= KS_MIN && ks > KS_C_ALPHA * Math.sqrt((n + m) / (n * m));
+    if (psi < PSI_SHIFT && !ksSignificant) return [];
+    return [{
+      severity: psi >= PSI_HIGH ? 'high' : 'medium', table, column: b.name, issue: 'distribution-shift',
+      detail: `Median ${fmt(b.stats.median)} → ${fmt(c.stats.median)}, middle half ${fmt(b.stats.p25)}–${fmt(b.stats.p75)} → ${fmt(c.stats.p25)}–${fmt(c.stats.p75)} (PSI ${psi.toFixed(2)}, KS ${ks.toFixed(2)}).`,
+      suggestion: 'A different population or a unit/scale change upstream. Results comparing this run with earlier ones may not hold.',
+    }];
+  }
+
+  if (b.type !== 'categorical' || !b.topValues?.length || !c.topValues?.length) return [];
+  const out: QualityFinding[] = [];
+  const bTotal = b.totalCount - b.nullCount;
+  const cTotal = c.totalCount - c.nullCount;
+  if (bTotal <= 0 || cTotal <= 0) return [];
+
+  const { psi, movers } = categoricalShift(b.topValues, bTotal, c.topValues, cTotal, c.uniqueCount);
+  if (psi >= PSI_SHIFT) {
+    out.push({
+      severity: psi >= PSI_HIGH ? 'high' : 'medium', table, column: b.name, issue: 'distribution-shift',
+      detail: `${movers.slice(0, 3).map((m) => `${m.value} ${pct(m.before)} → ${pct(m.after)}`).join(', ')} (PSI ${psi.toFixed(2)}).`,
+      suggestion: 'The category mix changed. Breakdowns and shares will differ from earlier runs for that reason alone.',
+    });
+  }
+
+  // New categories are only certain when the baseline listed every category it had.
+  if (b.topValues.length >= b.uniqueCount) {
+    const had = new Set(b.topValues.map((v) => v.value));
+    const fresh = c.topValues.filter((v) => !had.has(v.value));
+    if (fresh.length > 0) {
+      const share = fresh.reduce((s, v) => s + v.count, 0) / cTotal;
+      out.push({
+        severity: share >= 0.05 ? 'medium' : 'low', table, column: b.name, issue: 'new-category',
+        detail: `${fresh.length} new value${fresh.length === 1 ? '' : 's'} (${pct(share)} of rows): ${fresh.slice(0, 5).map((v) => `"${v.value}"`).join(', ')}${fresh.length > 5 ? ', …' : ''}.`,
+        suggestion: 'Check for a renamed or misspelled category, and for filters and CASE mappings that list the old values.',
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Distribution shift between two numeric columns summarised by their quartiles: the
+ * population stability index over the baseline's quartile bins, and the KS distance
+ * between the piecewise-linear CDFs the two summaries imply.
+ */
+export function numericShift(before: Stats, after: Stats): { psi: number; ks: number } {
+  const edges = [before.p25, before.median, before.p75];
+  const shares = (s: Stats) => {
+    const f = edges.map((e) => quartileCdf(s, e));
+    return [f[0], f[1] - f[0], f[2] - f[1], 1 - f[2]];
+  };
+  const psi = stabilityIndex(shares(before), shares(after));
+  const knots = [...knotsOf(before), ...knotsOf(after)];
+  const ks = Math.max(...knots.map((x) => Math.abs(quartileCdf(before, x) - quartileCdf(after, x))));
+  return { psi, ks };
+}
+
+/**
+ * Distribution shift between two categorical columns summarised by their top values:
+ * PSI over the baseline's categories plus an "everything else" bin, and the categories
+ * whose share moved most. A category missing from a complete current list has a share
+ * of 0; missing from a truncated one, it falls into "everything else".
+ */
+export function categoricalShift(
+  before: { value: string; count: number }[],
+  beforeTotal: number,
+  after: { value: string; count: number }[],
+  afterTotal: number,
+  afterUnique: number,
+): { psi: number; movers: { value: string; before: number; after: number }[] } {
+  const afterComplete = after.length >= afterUnique;
+  const afterCounts = new Map(after.map((v) => [v.value, v.count]));
+  const rows = before.map((v) => {
+    const count = afterCounts.get(v.value);
+    return { value: v.value, before: v.count / beforeTotal, after: count !== undefined ? count / afterTotal : afterComplete ? 0 : undefined };
+  });
+  const restBefore = Math.max(0, 1 - rows.reduce((s, r) => s + r.before, 0));
+  const restAfter = Math.max(0, 1 - rows.reduce((s, r) => s + (r.after ?? 0), 0));
+  const psi = stabilityIndex([...rows.map((r) => r.before), restBefore], [...rows.map((r) => r.after ?? 0), restAfter]);
+  const movers = rows
+    .filter((r): r is { value: string; before: number; after: number } => r.after !== undefined)
+    .sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before));
+  return { psi, movers };
+}
+
+function stabilityIndex(expected: number[], actual: number[]): number {
+  let psi = 0;
+  for (let i = 0; i < expected.length; i++) {
+    const e = Math.max(expected[i], PSI_FLOOR);
+    const a = Math.max(actual[i], PSI_FLOOR);
+    psi += (a - e) * Math.log(a / e);
+  }
+  return psi;
+}
+
+function knotsOf(s: Stats): number[] {
+  return [s.min, s.p25, s.median, s.p75, s.max];
+}
+
+/** The CDF a five-number summary implies: linear between quartiles, 0 below min, 1 from max. */
+function quartileCdf(s: Stats, x: number): number {
+  const q = knotsOf(s);
+  if (x < q[0]) return 0;
+  if (x >= q[4]) return 1;
+  let k = 0;
+  while (k < 3 && q[k + 1] <= x) k++;
+  const span = q[k + 1] - q[k];
+  return (k + (span > 0 ? (x - q[k]) / span : 0)) / 4;
+}
+
+function findingKey(f: { table: string; column?: string; issue: string }): string {
+  return `${f.table}\u0000${f.column ?? ''}\u0000${f.issue}`;
+}
+
+function fmt(n: number): string {
+  if (!Number.isFinite(n)) return String(n);
+  return fmtCount(Math.abs(n) >= 100 ? Math.round(n) : Number(n.toFixed(2)));
+}
+
+function fmtCount(n: number): string {
+  return n.toLocaleString('en-US');
+}
+
+function pct(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+function signedPct(change: number): string {
+  return `${change >= 0 ? '+' : ''}${(change * 100).toFixed(0)}%`;
+}
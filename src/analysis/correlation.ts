@@ -0,0 +1,124 @@
+/**
+ * Correlation matrix and key-driver ranking over a table's measures.
+ *
+ * The matrix is pairwise-complete — each pair uses every row where both measures are present,
+ * so one sparse column doesn't shrink every other cell — and comes back in long form (one row
+ * per cell, both triangles and the diagonal), the two-categorical + numeric shape the heatmap
+ * pattern draws. Key drivers regress a target on the other measures over complete rows:
+ * standardized coefficients (β), and each driver's share of R² by Pratt's measure (β × r),
+ * which sums to 1 across drivers.
+ */
+
+import { pearson, spearman } from './significance.js';
+
+export interface CorrelationCell {
+  row: string;
+  column: string;
+  pearson: number | null;
+  spearman: number | null;
+  /** Two-sided p-value of the Pearson r. */
+  pValue: number | null;
+  /** Rows with both measures present. */
+  n: number;
+}
+
+export interface KeyDriver {
+  column: string;
+  /** Standardized regression coefficient, or null when the drivers are collinear. */
+  beta: number | null;
+  /** Pearson r with the target. */
+  correlation: number;
+  pValue: number;
+  /** Pratt share of R² (β × r / R²), or null alongside `beta`. */
+  importance: number | null;
+}
+
+export interface KeyDriverResult {
+  target: string;
+  /** Complete rows the regression used. */
+  n: number;
+  rSquared: number | null;
+  /** Most important first (by share of R², or |r| when collinear). */
+  drivers: KeyDriver[];
+}
+
+function value(row: Record<string, any>, name: string): number | null {
+  const raw = name in row ? row[name] : row[name.replace(/[.$]/g, '_')];
+  if (raw === null || raw === undefined || raw === '') return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Pearson and Spearman for every pair of `measures`, pairwise-complete. */
+export function correlationMatrix(rows: Record<string, any>[], measures: string[]): CorrelationCell[] {
+  const columns = measures.map((m) => rows.map((r) => value(r, m)));
+  const cells: CorrelationCell[] = [];
+  measures.forEach((a, i) => measures.forEach((b, j) => {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    columns[i].forEach((x, k) => {
+      const y = columns[j][k];
+      if (x !== null && y !== null) { xs.push(x); ys.push(y); }
+    });
+    if (i === j) {
+      cells.push({ row: a, column: b, pearson: 1, spearman: 1, pValue: null, n: xs.length });
+      return;
+    }
+    const r = pearson(xs, ys);
+    const rho = spearman(xs, ys);
+    cells.push({ row: a, column: b, pearson: r?.statistic ?? null, spearman: rho?.statistic ?? null, pValue: r?.pValue ?? null, n: xs.length });
+  }));
+  return cells;
+}
+
+/** Solve A·x = b by Gaussian elimination with partial pivoting; null if A is (near) singular. */
+function solve(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-10) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+}
+
+/**
+ * Rank `drivers` by how much of `target` they explain together. Needs more complete rows than
+ * drivers + 1; drivers constant over those rows are dropped.
+ */
+export function keyDrivers(rows: Record<string, any>[], target: string, drivers: string[]): KeyDriverResult | null {
+  const complete = rows
+    .map((r) => [target, ...drivers].map((c) => value(r, c)))
+    .filter((vals): vals is number[] => vals.every((v) => v !== null));
+  const y = complete.map((vals) => vals[0]);
+  const cols = drivers
+    .map((name, i) => ({ name, xs: complete.map((vals) => vals[i + 1]) }))
+    .map((d) => ({ ...d, r: pearson(d.xs, y) }))
+    .filter((d): d is { name: string; xs: number[]; r: NonNullable<typeof d.r> } => d.r !== null);
+  if (cols.length === 0 || complete.length < cols.length + 2) return null;
+
+  // Standardized betas solve R_xx · β = r_xy, both from the same complete rows.
+  const rxx = cols.map((a) => cols.map((b) => (a === b ? 1 : pearson(a.xs, b.xs)?.statistic ?? 0)));
+  const rxy = cols.map((d) => d.r.statistic);
+  const beta = solve(rxx, rxy);
+  const rSquared = beta ? beta.reduce((s, b, i) => s + b * rxy[i], 0) : null;
+
+  const ranked: KeyDriver[] = cols.map((d, i) => ({
+    column: d.name,
+    beta: beta ? beta[i] : null,
+    correlation: d.r.statistic,
+    pValue: d.r.pValue,
+    importance: beta && rSquared ? (beta[i] * rxy[i]) / rSquared : null,
+  }));
+  ranked.sort((a, b) => (a.importance !== null && b.importance !== null
+    ? b.importance - a.importance
+    : Math.abs(b.correlation) - Math.abs(a.correlation)));
+  return { target, n: complete.length, rSquared, drivers: ranked };
+}
@@ -17,6 +17,8 @@
  */
 import * as fs from 'fs';
 import * as path from 'path';
+import type { DataSourceConfig } from '../types.js';
+import { fileFormat } from '../connectors/file-formats.js';
 
 export interface DataContextMetric {
   name: string;
@@ -51,25 +53,70 @@ export function dataContextPath(datasetPath: string): string {
   return path.join(dir, `${base}.context.json`);
 }
 
-/** Load a sidecar if present and well-formed. Best-effort: a missing or corrupt
- *  file yields null (the analyst simply runs without extra grounding). */
-export function loadDataContext(datasetPath: string): DataContext | null {
+/**
+ * The sidecar for one table of a registered source. A single data file keeps
+ * `<base>.context.json` beside it; a directory keeps `<table>.context.json` inside it; a
+ * multi-table file (workbook, SQLite/DuckDB database) keeps `<base>.<table>.context.json`
+ * beside it. A live database has no file to sit beside, so its sidecars live in the state
+ * directory (`<stateDir>/contexts/<source>.<table>.context.json`) — null without one, as
+ * for a file source with no path.
+ */
+export function sourceDataContextPath(
+  source: { name: string; config: DataSourceConfig },
+  table: string,
+  stateDir?: string | null,
+): string | null {
+  const safe = (s: string) => s.replace(/[\\/:*?"<>|]/g, '_');
+  const config = source.config;
+  if (config.type === 'postgres' || config.type === 'mysql' || config.type === 'mongodb') {
+    return stateDir ? path.join(stateDir, 'contexts', `${safe(source.name)}.${safe(table)}.context.json`) : null;
+  }
+  if (typeof config.path !== 'string') return null;
+  const p = config.path.replace(/\/+$/, '');
+  if ((config.type === 'csv' || config.type === 'duckdb') && fileFormat(p)) return dataContextPath(p);
+  if (!path.extname(p)) return path.join(p, `${safe(table)}.context.json`);
+  return path.join(path.dirname(p), `${path.basename(p, path.extname(p))}.${safe(table)}.context.json`);
+}
+
+/** Read a sidecar file if present and well-formed. Best-effort: a missing or
+ *  corrupt file yields null (the analyst simply runs without extra grounding). */
+export function readDataContext(contextPath: string): DataContext | null {
   try {
-    const p = dataContextPath(datasetPath);
-    if (!fs.existsSync(p)) return null;
-    const ctx = JSON.parse(fs.readFileSync(p, 'utf-8'));
+    if (!fs.existsSync(contextPath)) return null;
+    const ctx = JSON.parse(fs.readFileSync(contextPath, 'utf-8'));
     return ctx && typeof ctx === 'object' && typeof ctx.dataset === 'string' ? (ctx as DataContext) : null;
   } catch {
     return null;
   }
 }
 
-/** Persist a sidecar atomically (temp + rename — same discipline as the registry). */
-export function saveDataContext(datasetPath: string, ctx: DataContext): void {
-  const p = dataContextPath(datasetPath);
-  const tmp = `${p}.${process.pid}.tmp`;
+/** Persist a sidecar file atomically (temp + rename — same discipline as the registry). */
+export function writeDataContext(contextPath: string, ctx: DataContext): void {
+  fs.mkdirSync(path.dirname(contextPath), { recursive: true });
+  const tmp = `${contextPath}.${process.pid}.tmp`;
   fs.writeFileSync(tmp, JSON.stringify(ctx, null, 2), 'utf-8');
-  fs.renameSync(tmp, p);
+  fs.renameSync(tmp, contextPath);
+}
+
+/** The data context of one table of a source (see sourceDataContextPath), or null — also
+ *  when the source isn't known. */
+export function loadSourceDataContext(
+  source: { name: string; config: DataSourceConfig } | undefined,
+  table: string,
+  stateDir?: string | null,
+): DataContext | null {
+  const p = source?.config ? sourceDataContextPath(source, table, stateDir) : null;
+  return p ? readDataContext(p) : null;
+}
+
+/** Load the sidecar beside a dataset file (see readDataContext). */
+export function loadDataContext(datasetPath: string): DataContext | null {
+  return readDataContext(dataContextPath(datasetPath));
+}
+
+/** Save the sidecar beside a dataset file (see writeDataContext). */
+export function saveDataContext(datasetPath: string, ctx: DataContext): void {
+  writeDataContext(dataContextPath(datasetPath), ctx);
 }
 
 /** Render a context into a compact prompt block. Only non-empty sections appear;
@@ -96,20 +143,184 @@ export function renderDataContext(ctx: DataContext | null): string {
   return 'DOMAIN CONTEXT — curated knowledge about this dataset. Prefer these definitions and apply the standard filters:\n' + parts.join('\n');
 }
 
-/** JSON schema for caller-driven authoring (constrained-output for a model). */
+/** JSON schema for caller-driven authoring (constrained-output for a model), and
+ *  what validateDataContext checks a sidecar against. */
 export const DATA_CONTEXT_SCHEMA = {
   type: 'object',
   properties: {
     dataset: { type: 'string' },
-    entities: { type: 'array', items: { type: 'object', properties: { term: { type: 'string' }, meaning: { type: 'string' } }, required: ['term', 'meaning'] } },
-    metrics: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' }, definition: { type: 'string' }, sql: { type: 'string' }, caveats: { type: 'string' } }, required: ['name', 'definition', 'sql'] } },
-    standardFilters: { type: 'array', items: { type: 'object', properties: { description: { type: 'string' }, sql: { type: 'string' } }, required: ['description', 'sql'] } },
-    columnNotes: { type: 'array', items: { type: 'object', properties: { column: { type: 'string' }, note: { type: 'string' } }, required: ['column', 'note'] } },
-    queryExamples: { type: 'array', items: { type: 'object', properties: { question: { type: 'string' }, sql: { type: 'string' } }, required: ['question', 'sql'] } },
+    entities: { type: 'array', items: { type: 'object', properties: { term: { type: 'string' }, meaning: { type: 'string' } }, required: ['term', 'meaning'], additionalProperties: false } },
+    metrics: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' }, definition: { type: 'string' }, sql: { type: 'string' }, caveats: { type: 'string' } }, required: ['name', 'definition', 'sql'], additionalProperties: false } },
+    standardFilters: { type: 'array', items: { type: 'object', properties: { description: { type: 'string' }, sql: { type: 'string' } }, required: ['description', 'sql'], additionalProperties: false } },
+    columnNotes: { type: 'array', items: { type: 'object', properties: { column: { type: 'string' }, note: { type: 'string' } }, required: ['column', 'note'], additionalProperties: false } },
+    queryExamples: { type: 'array', items: { type: 'object', properties: { question: { type: 'string' }, sql: { type: 'string' } }, required: ['question', 'sql'], additionalProperties: false } },
   },
   required: ['dataset'],
+  additionalProperties: false,
 };
 
+/** Each list section, and the field that identifies an entry in it (what an edit replaces or removes by). */
+export const DATA_CONTEXT_SECTIONS = {
+  entities: 'term',
+  metrics: 'name',
+  standardFilters: 'description',
+  columnNotes: 'column',
+  queryExamples: 'question',
+} as const;
+
+export type DataContextSection = keyof typeof DATA_CONTEXT_SECTIONS;
+
+interface SchemaNode {
+  type?: string;
+  properties?: Record<string, SchemaNode>;
+  required?: readonly string[];
+  items?: SchemaNode;
+  additionalProperties?: boolean;
+}
+
+/** The subset of JSON Schema DATA_CONTEXT_SCHEMA uses: type, properties, required, items, additionalProperties. */
+function schemaErrors(value: unknown, schema: SchemaNode, at: string): string[] {
+  const kind = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+  if (schema.type && kind !== schema.type) return [`${at}: expected ${schema.type}, got ${kind}`];
+  const errors: string[] = [];
+  if (kind === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in obj)) errors.push(`${at}: missing "${key}"`);
+      else if (obj[key] === '') errors.push(`${at}.${key}: empty`);
+    }
+    for (const [key, v] of Object.entries(obj)) {
+      const sub = schema.properties?.[key];
+      if (sub) errors.push(...schemaErrors(v, sub, `${at}.${key}`));
+      else if (schema.additionalProperties === false) errors.push(`${at}: unknown property "${key}"`);
+    }
+  }
+  if (kind === 'array' && schema.items) {
+    (value as unknown[]).forEach((v, i) => errors.push(...schemaErrors(v, schema.items!, `${at}[${i}]`)));
+  }
+  return errors;
+}
+
+/**
+ * A metric's SQL is usable as a plan measure when it is one aggregate expression
+ * (`SUM(amount) - SUM(refunds)`, `COUNT(DISTINCT customer_id)`) — not a query or a
+ * snippet carrying its own WHERE, which only reads as documentation.
+ */
+export function isMetricExpression(sql: string): boolean {
+  return /\w+\s*\(/.test(sql) && !/\b(select|from|where|group\s+by|having|order\s+by|limit|union)\b/i.test(sql) && !sql.includes(';');
+}
+
+/**
+ * Check a candidate context against DATA_CONTEXT_SCHEMA (errors), and — given the table it
+ * describes — against the table (warnings: a dataset name or column note that doesn't match,
+ * a repeated entry, a metric the planner can't use as a measure).
+ */
+export function validateDataContext(
+  value: unknown,
+  table?: { name: string; columns: string[] },
+): { errors: string[]; warnings: string[] } {
+  const errors = schemaErrors(value, DATA_CONTEXT_SCHEMA, 'context');
+  if (errors.length > 0) return { errors, warnings: [] };
+  const ctx = value as DataContext;
+  const warnings: string[] = [];
+  if (table && ctx.dataset !== table.name) warnings.push(`dataset "${ctx.dataset}" doesn't match the table "${table.name}"`);
+  for (const note of ctx.columnNotes ?? []) {
+    if (table && !table.columns.includes(note.column)) warnings.push(`columnNotes: "${note.column}" is not a column of ${table.name}`);
+  }
+  for (const [section, key] of Object.entries(DATA_CONTEXT_SECTIONS) as [DataContextSection, string][]) {
+    const seen = new Set<string>();
+    for (const entry of (ctx[section] ?? []) as unknown as Record<string, string>[]) {
+      if (seen.has(entry[key])) warnings.push(`${section}: "${entry[key]}" appears more than once — the last one wins on edit`);
+      seen.add(entry[key]);
+    }
+  }
+  for (const m of ctx.metrics ?? []) {
+    if (!isMetricExpression(m.sql)) warnings.push(`metrics: "${m.name}" isn't a single aggregate expression, so analyze can't plan it as a measure`);
+  }
+  return { errors, warnings };
+}
+
+/**
+ * Apply an edit: `patch` entries replace the same-keyed entry of their section (see
+ * DATA_CONTEXT_SECTIONS) or are appended; `remove` drops entries by key. A `dataset` in the
+ * patch renames the context. Returns a new context — `base` is untouched.
+ */
+export function mergeDataContext(
+  base: DataContext,
+  patch: Partial<DataContext>,
+  remove: { section: DataContextSection; key: string }[] = [],
+): DataContext {
+  const out: DataContext = { ...base, ...(patch.dataset ? { dataset: patch.dataset } : {}) };
+  const sections = out as unknown as Record<DataContextSection, Record<string, string>[] | undefined>;
+  for (const [section, key] of Object.entries(DATA_CONTEXT_SECTIONS) as [DataContextSection, string][]) {
+    let entries = [...(sections[section] ?? [])];
+    for (const entry of ((patch[section] ?? []) as unknown as Record<string, string>[])) {
+      const at = entries.findIndex((e) => e[key] === entry[key]);
+      if (at >= 0) entries[at] = entry;
+      else entries.push(entry);
+    }
+    const dropped = new Set(remove.filter((r) => r.section === section).map((r) => r.key));
+    entries = entries.filter((e) => !dropped.has(e[key]));
+    if (entries.length > 0) sections[section] = entries;
+    else delete sections[section];
+  }
+  return out;
+}
+
+/** A filter's condition, without a leading WHERE/AND a hand-written sidecar may carry. */
+function filterCondition(sql: string): string {
+  return sql.trim().replace(/^(where|and)\s+/i, '');
+}
+
+/**
+ * Restrict every read of `table` in a planner query to the rows its standard filters keep:
+ * `FROM "t"` (and `FROM "t" t`, as joined steps alias it) becomes
+ * `FROM (SELECT * FROM "t" WHERE (f1) AND (f2)) AS "t"` under the same name, so the rest of
+ * the query reads on unchanged. A read already wrapped is left alone, so applying twice is
+ * harmless.
+ */
+export function applyStandardFilters(sql: string, table: string, filters: string[]): string {
+  if (filters.length === 0) return sql;
+  const quoted = '"' + table.replace(/"/g, '""') + '"';
+  const escaped = quoted.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const where = filters.map((f) => `(${filterCondition(f)})`).join(' AND ');
+  const keywords = /^(where|group|order|left|right|inner|outer|full|cross|join|on|limit|union|having|window)$/i;
+  const read = new RegExp(`\\b(FROM|JOIN)\\s+${escaped}(\\s+(?:AS\\s+)?([A-Za-z_]\\w*))?`, 'gi');
+  return sql.replace(read, (match: string, clause: string, aliasPart: string | undefined, alias: string | undefined, at: number) => {
+    if (sql.slice(0, at).endsWith('(SELECT * ') && sql.startsWith(`${clause} ${quoted} WHERE ${where})`, at)) return match;
+    const keepsAlias = alias !== undefined && !keywords.test(alias);
+    const wrapped = `${clause} (SELECT * FROM ${quoted} WHERE ${where}) AS ${keepsAlias ? alias : quoted}`;
+    return keepsAlias || aliasPart === undefined ? wrapped : `${wrapped}${aliasPart}`;
+  });
+}
+
+/** Lowercased, unquoted, single-spaced — so a table name matches however a query spells it. */
+function normalizeSql(sql: string): string {
+  return sql.toLowerCase().replace(/["`[\]]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The standard filters a hand-written query on `table` leaves out: none when the query
+ * doesn't read the table, else each filter whose condition doesn't appear in it.
+ */
+export function missingStandardFilters(sql: string, ctx: DataContext | null, table: string): { description: string; sql: string }[] {
+  if (!ctx?.standardFilters?.length) return [];
+  const query = normalizeSql(sql);
+  const name = normalizeSql(table).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (!new RegExp(`\\b(from|join)\\s+${name}(\\s|\\)|,|;|$)`).test(query)) return [];
+  // Spacing aside: `is_test=0` applies `is_test = 0`.
+  const compact = query.replace(/ /g, '');
+  return ctx.standardFilters.filter((f) => !compact.includes(normalizeSql(filterCondition(f.sql)).replace(/ /g, '')));
+}
+
+/** The warning a query on `table` earns for leaving out its standard filters (see missingStandardFilters), or null. */
+export function standardFilterWarning(sql: string, ctx: DataContext | null, table: string): string | null {
+  const missing = missingStandardFilters(sql, ctx, table);
+  if (missing.length === 0) return null;
+  return `The data context for "${table}" has standard filters this query doesn't apply: ` +
+    `${missing.map((f) => `${f.description} [${f.sql}]`).join('; ')}. Add them unless the question calls for every row.`;
+}
+
 /** Authoring prompt for a caller's model: turn schema + sample rows + the quality
  *  audit into a DataContext. The core stays model-free; the caller runs this. */
 export function buildContextAuthorPrompt(dataset: string, schemaText: string, sampleRows: string, auditNote: string): string {
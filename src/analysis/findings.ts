@@ -0,0 +1,313 @@
+/**
+ * Executed findings: run each step of an analysis plan and attach the significance tests its
+ * category calls for, so "North sells more than South" arrives with a p-value, an effect size
+ * and a plain-English verdict rather than as a bare chart.
+ *
+ *   comparison / ranking  top two groups' per-row values: Welch's t + Mann-Whitney U
+ *   composition           row counts per group: chi-square (goodness of fit, or independence
+ *                         for a hierarchy)
+ *   trend                 the step's period series: Mann-Kendall + least-squares slope, plus
+ *                         anomalies and level shifts (anomalies.ts)
+ *   relationship          the step's measure pairs: Pearson + Spearman
+ *   correlation           the step's measure columns: a correlation matrix and key drivers
+ *                         of its target (correlation.ts)
+ *
+ * Other categories (distribution, retention, funnel), joined steps and seasonality run but
+ * carry no test. Tests on truncated results say so in the verdict.
+ */
+
+import type { AnalysisPlan, AnalysisStep, AnalysisCategory } from './types.js';
+import { capitalize, groupValuesQuery, groupCountsQuery, type PlannerDialect } from './rules.js';
+import {
+  welchTTest, mannWhitneyU, chiSquareGoodnessOfFit, chiSquareIndependence, mannKendall, olsSlope, pearson, spearman,
+  type StatTest,
+} from './significance.js';
+import { correlationMatrix, keyDrivers, type CorrelationCell, type KeyDriverResult } from './correlation.js';
+import { detectTimeSeriesAnomalies, seriesFromRows, type TimeSeriesAnomalies } from './anomalies.js';
+import { applyStandardFilters } from './data-context.js';
+
+/** Conventional cut-off for calling a result significant. */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/** What a query runner hands back — the shape of SourceManager.querySql's result. */
+export interface QueryOutcome {
+  ok: boolean;
+  rows?: Record<string, any>[];
+  truncated?: boolean;
+  /** Columns the source's redaction policy masked, hashed or dropped. */
+  redacted?: string[];
+  error?: string;
+}
+
+/**
+ * Runs a query — SourceManager.querySql's signature, past the source. `redact: false` is
+ * for the follow-up queries whose values only feed a test, never the finding's text.
+ */
+export type QueryRunner = (query: string, options?: { redact?: boolean }) => Promise<QueryOutcome>;
+
+export interface StepFinding {
+  title: string;
+  category: AnalysisCategory;
+  ok: boolean;
+  error?: string;
+  /** Rows the step's own query returned. */
+  rowCount: number;
+  tests: StatTest[];
+  /** Whether the step's primary test clears SIGNIFICANCE_LEVEL; absent when nothing was tested. */
+  significant?: boolean;
+  verdict: string;
+  /** Correlation steps: the matrix, one row per cell — ready for the heatmap pattern. */
+  correlations?: CorrelationCell[];
+  /** Correlation steps: the target's drivers, most important first. */
+  drivers?: KeyDriverResult;
+  /** Trend steps: unusual periods and level shifts, with chart annotations for line/area. */
+  anomalies?: TimeSeriesAnomalies;
+}
+
+/**
+ * Run every step of `plan` through `run`, in order. The plan's standard filters reach the
+ * follow-up queries too, so a test sees the same rows as its step.
+ */
+export async function executePlan(plan: AnalysisPlan, run: QueryRunner, dialect: PlannerDialect): Promise<StepFinding[]> {
+  const findings: StepFinding[] = [];
+  const filters = plan.standardFilters ?? [];
+  for (const step of plan.steps) {
+    const runStep: QueryRunner = filters.length > 0 ? (query, options) => run(applyStandardFilters(query, step.table, filters), options) : run;
+    findings.push(await executeStep(step, runStep, dialect));
+  }
+  return findings;
+}
+
+/** Run one step's query and test its result. A failing query becomes a finding, not a throw. */
+export async function executeStep(step: AnalysisStep, run: QueryRunner, dialect: PlannerDialect): Promise<StepFinding> {
+  const base = { title: step.title, category: step.category };
+  const result = await run(step.sql);
+  if (!result.ok || !result.rows) {
+    return { ...base, ok: false, error: result.error, rowCount: 0, tests: [], verdict: `The step's query failed: ${result.error ?? 'no rows returned'}` };
+  }
+  const rows = result.rows;
+  const tested = step.joinPath
+    ? untested('it joins lookup tables, so its groups aren\'t tested')
+    : await testStep(step, rows, result.truncated === true, (result.redacted ?? []).length > 0, run, dialect);
+  return { ...base, ok: true, rowCount: rows.length, ...tested };
+}
+
+type Tested = Pick<StepFinding, 'tests' | 'significant' | 'verdict' | 'correlations' | 'drivers' | 'anomalies'> & { error?: string };
+
+function untested(why: string): Tested {
+  return { tests: [], verdict: `Not tested: ${why}.` };
+}
+
+function testStep(step: AnalysisStep, rows: Record<string, any>[], truncated: boolean, redacted: boolean, run: QueryRunner, dialect: PlannerDialect): Promise<Tested> | Tested {
+  const f = step.fields ?? {};
+  switch (step.category) {
+    case 'comparison':
+    case 'ranking':
+      if (f.metric) return untested(`"${f.metric}" is computed per group, so there are no per-row values to compare`);
+      return f.dimension && f.measure
+        ? testGroups(step.table, f.dimension, f.measure, rows, redacted ? step.sql : undefined, run, dialect)
+        : untested('no measure/dimension pair');
+    case 'composition':
+      return f.dimension ? testShares(step.table, f.dimension, f.dimension2, run, dialect) : untested('no dimension');
+    case 'trend':
+      return f.value ? testTrend(f.measure ?? f.value, f.value, f.bucket, rows, truncated) : untested('months of the year are a cycle, not a trend');
+    case 'relationship':
+      return f.measure && f.measure2 ? testRelationship(f.measure, f.measure2, rows, truncated) : untested('no measure pair');
+    case 'correlation':
+      return f.measure && f.measures ? testCorrelations(f.measure, f.measures, rows, truncated) : untested('no measures');
+    default:
+      return untested(`no significance test applies to a ${step.category} step`);
+  }
+}
+
+// --- Per-category tests -----------------------------------------------------------
+
+async function testGroups(
+  table: string,
+  dimension: string,
+  measure: string,
+  rows: Record<string, any>[],
+  redactedSql: string | undefined,
+  run: QueryRunner,
+  dialect: PlannerDialect,
+): Promise<Tested> {
+  // Masked or hashed keys can't be matched as SQL literals: re-read the step's rows
+  // unredacted for the keys, and keep naming the groups by the redacted ones.
+  const keyed = redactedSql ? await run(redactedSql, { redact: false }) : { ok: true, rows };
+  if (!keyed.ok || !keyed.rows) return { ...untested(`the group query failed (${keyed.error})`), error: keyed.error };
+  // The step sorts groups by their total, so the first two non-null keys are the top two.
+  const key = Object.keys(keyed.rows[0] ?? {})[0];
+  const picks: number[] = [];
+  for (let i = 0; i < keyed.rows.length && picks.length < 2; i++) {
+    const g = keyed.rows[i][key];
+    if (g !== null && g !== undefined && !picks.some((j) => keyed.rows![j][key] === g)) picks.push(i);
+  }
+  if (picks.length < 2) return untested('fewer than two groups to compare');
+  const groups = picks.map((i) => keyed.rows![i][key]);
+  // A dropped column leaves no name to show: the groups go by rank.
+  const labels = picks.map((i, n) => rows[i]?.[key] ?? `group ${n + 1}`);
+  const raw = await run(groupValuesQuery(table, dimension, measure, groups, dialect), { redact: false });
+  if (!raw.ok || !raw.rows) return { ...untested(`the per-row query failed (${raw.error})`), error: raw.error };
+  const [a, b] = groups.map((g) => numbers(raw.rows!.filter((r) => String(r.g) === String(g)).map((r) => r.v)));
+  const welch = welchTTest(a, b);
+  const mw = mannWhitneyU(a, b);
+  if (!welch) return untested('each group needs at least two varying values');
+  const tests = [welch, ...(mw ? [mw] : [])];
+  const significant = welch.pValue < SIGNIFICANCE_LEVEL;
+  const [ga, gb] = labels.map((g) => `"${g}"`);
+  let verdict = `${ga} averages ${num(mean(a))} ${capitalize(measure)} per row against ${gb}'s ${num(mean(b))} — ` +
+    (significant ? 'a real difference' : 'a gap that could be chance') +
+    ` (Welch's t ${p(welch.pValue)}${mw ? `; Mann-Whitney ${p(mw.pValue)}` : ''}), ${effect(welch)}.`;
+  if (mw && (mw.pValue < SIGNIFICANCE_LEVEL) !== significant) verdict += ' The rank test disagrees, so a few extreme rows may be driving the means.';
+  if (raw.truncated) verdict += ` Tested on the first ${a.length + b.length} rows.`;
+  return { tests, significant, verdict };
+}
+
+async function testShares(table: string, dimension: string, dimension2: string | undefined, run: QueryRunner, dialect: PlannerDialect): Promise<Tested> {
+  // Unredacted: masked keys could merge groups, and only the counts reach the verdict.
+  const counts = await run(groupCountsQuery(table, dimension, dimension2, dialect), { redact: false });
+  if (!counts.ok || !counts.rows) return { ...untested(`the count query failed (${counts.error})`), error: counts.error };
+  const dim = capitalize(dimension);
+
+  if (dimension2) {
+    const gs = [...new Set(counts.rows.map((r) => String(r.g)))];
+    const hs = [...new Set(counts.rows.map((r) => String(r.h)))];
+    const table2 = gs.map(() => hs.map(() => 0));
+    for (const r of counts.rows) table2[gs.indexOf(String(r.g))][hs.indexOf(String(r.h))] += Number(r.n);
+    const chi = chiSquareIndependence(table2);
+    if (!chi) return untested('fewer than two groups on each side');
+    const significant = chi.pValue < SIGNIFICANCE_LEVEL;
+    const verdict = `The ${capitalize(dimension2)} mix ${significant ? 'differs' : 'does not clearly differ'} across ${dim} ` +
+      `(χ² = ${num(chi.statistic)}, df = ${chi.df}, ${p(chi.pValue)}), ${effect(chi)}.`;
+    return { tests: [chi], significant, verdict };
+  }
+
+  const chi = chiSquareGoodnessOfFit(counts.rows.map((r) => Number(r.n)));
+  if (!chi) return untested('fewer than two groups');
+  const significant = chi.pValue < SIGNIFICANCE_LEVEL;
+  const stats = `(χ² = ${num(chi.statistic)}, df = ${chi.df}, ${p(chi.pValue)})`;
+  const verdict = significant
+    ? `${dim} groups differ in size — rows aren't evenly spread ${stats}, ${effect(chi)}.`
+    : `${dim} groups are about even in size — any imbalance could be chance ${stats}.`;
+  return { tests: [chi], significant, verdict };
+}
+
+function testTrend(measure: string, value: string, bucket: string | undefined, rows: Record<string, any>[], truncated: boolean): Tested {
+  // One figure per period, in time order — grouped trends are summed across their groups.
+  const points = rows.length ? seriesFromRows(rows, Object.keys(rows[0])[0], value) : [];
+  const series = points.map((pt) => pt.value);
+  const mk = mannKendall(series);
+  if (!mk) return untested(`${series.length} periods are too few to test for a trend`);
+  const ols = olsSlope(series);
+  const tests = [mk, ...(ols ? [ols] : [])];
+  const significant = mk.pValue < SIGNIFICANCE_LEVEL;
+  const name = capitalize(measure);
+  let verdict = significant
+    ? `${name} is ${mk.statistic > 0 ? 'rising' : 'falling'} across ${series.length} periods — a ${mk.effect!.magnitude} trend ` +
+      `(Mann-Kendall ${p(mk.pValue)}, τ = ${mk.effect!.value.toFixed(2)})` +
+      (ols ? `; the fitted slope is ${ols.slope >= 0 ? '+' : ''}${num(ols.slope)} per period (R² = ${ols.effect!.value.toFixed(2)}).` : '.')
+    : `No consistent trend in ${name} across ${series.length} periods (Mann-Kendall ${p(mk.pValue)}) — the ups and downs could be noise.`;
+  const anomalies = detectTimeSeriesAnomalies(points, bucket);
+  if (anomalies) verdict += describeAnomalies(anomalies);
+  if (truncated) verdict += ` Tested on the first ${rows.length} rows.`;
+  return { tests, significant, verdict, ...(anomalies ? { anomalies } : {}) };
+}
+
+function describeAnomalies({ anomalies, changePoints }: TimeSeriesAnomalies): string {
+  let text = '';
+  for (const c of changePoints) {
+    text += ` The level shifts at ${c.period}, from ${num(c.before)} to ${num(c.after)}${c.pctChange === null ? '' : ` (${c.pctChange > 0 ? '+' : ''}${c.pctChange}%)`}.`;
+  }
+  if (anomalies.length) {
+    const listed = anomalies.slice(0, 3).map((a) =>
+      `${a.period} (${num(a.value)} against ~${num(a.expected)}${a.pctDeviation === null ? '' : `, ${a.pctDeviation > 0 ? '+' : ''}${a.pctDeviation}%`})`);
+    const more = anomalies.length > 3 ? ` and ${anomalies.length - 3} more` : '';
+    text += ` Unusual ${anomalies.length === 1 ? 'period' : 'periods'}: ${listed.join(', ')}${more}.`;
+  }
+  return text;
+}
+
+function testRelationship(m1: string, m2: string, rows: Record<string, any>[], truncated: boolean): Tested {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const r of rows) {
+    const x = field(r, m1), y = field(r, m2);
+    if (x === null || y === null || x === undefined || y === undefined) continue;
+    const nx = Number(x), ny = Number(y);
+    if (Number.isFinite(nx) && Number.isFinite(ny)) { xs.push(nx); ys.push(ny); }
+  }
+  const r = pearson(xs, ys);
+  const rho = spearman(xs, ys);
+  if (!r) return untested('too few rows with both measures, or one of them is constant');
+  const tests = [r, ...(rho ? [rho] : [])];
+  const significant = r.pValue < SIGNIFICANCE_LEVEL;
+  const stats = `Pearson r = ${r.statistic.toFixed(2)}, ${p(r.pValue)}${rho ? `; Spearman ρ = ${rho.statistic.toFixed(2)}, ${p(rho.pValue)}` : ''}`;
+  const [a, b] = [capitalize(m1), capitalize(m2)];
+  let verdict = significant
+    ? `${a} and ${b} move ${r.statistic > 0 ? 'together' : 'in opposite directions'} — a ${r.effect!.magnitude} correlation (${stats}).`
+    : `No clear linear relationship between ${a} and ${b} (${stats}).`;
+  if (truncated) verdict += ` Tested on the first ${rows.length} rows.`;
+  return { tests, significant, verdict };
+}
+
+function testCorrelations(target: string, measures: string[], rows: Record<string, any>[], truncated: boolean): Tested {
+  const correlations = correlationMatrix(rows, measures);
+  const drivers = keyDrivers(rows, target, measures.filter((m) => m !== target)) ?? undefined;
+  const pairs = correlations
+    .filter((c) => c.pearson !== null && measures.indexOf(c.row) < measures.indexOf(c.column))
+    .sort((a, b) => Math.abs(b.pearson!) - Math.abs(a.pearson!));
+  if (pairs.length === 0) return { ...untested('too few rows with two measures present'), correlations };
+
+  const parts: string[] = [];
+  if (drivers) {
+    const top = drivers.drivers.slice(0, 3).map((d) => d.beta !== null
+      ? `${capitalize(d.column)} (β = ${fixed(d.beta)}, ${Math.max(0, Math.round(100 * d.importance!))}% of R²)`
+      : `${capitalize(d.column)} (r = ${d.correlation.toFixed(2)})`);
+    const fit = drivers.rSquared !== null ? `R² = ${drivers.rSquared.toFixed(2)}` : 'collinear drivers, ranked by r';
+    parts.push(`Key drivers of ${capitalize(target)} (${fit}, ${drivers.n.toLocaleString('en-US')} complete rows): ${top.join(', ')}.`);
+  }
+  const [best] = pairs;
+  parts.push(`Strongest pair: ${capitalize(best.row)} & ${capitalize(best.column)} (r = ${best.pearson!.toFixed(2)}` +
+    `${best.spearman !== null ? `, ρ = ${best.spearman.toFixed(2)}` : ''}, n = ${best.n.toLocaleString('en-US')}).`);
+  if (truncated) parts.push(`Computed on the first ${rows.length} rows.`);
+  const significant = drivers ? drivers.drivers.some((d) => d.pValue < SIGNIFICANCE_LEVEL) : best.pValue! < SIGNIFICANCE_LEVEL;
+  return { tests: [], significant, verdict: parts.join(' '), correlations, ...(drivers ? { drivers } : {}) };
+}
+
+// --- Formatting -------------------------------------------------------------------
+
+const EFFECT_LABELS: Record<string, string> = {
+  cohens_d: 'd', rank_biserial: 'r', cohens_w: 'w', cramers_v: "Cramér's V", kendall_tau: 'τ', r_squared: 'R²',
+};
+
+/** "medium effect (d = 0.55)" */
+function effect(test: StatTest): string {
+  const e = test.effect!;
+  return `${e.magnitude} effect (${EFFECT_LABELS[e.name] ?? e.name} = ${e.value.toFixed(2)})`;
+}
+
+/** Two decimals, without a "-0.00". */
+function fixed(value: number): string {
+  return (Math.abs(value) < 0.005 ? 0 : value).toFixed(2);
+}
+
+function p(value: number): string {
+  return value < 0.001 ? 'p < 0.001' : `p = ${value.toFixed(3)}`;
+}
+
+function num(value: number): string {
+  return Number(value.toPrecision(4)).toLocaleString('en-US', { maximumFractionDigits: 4 });
+}
+
+function numbers(values: unknown[]): number[] {
+  return values.map(Number).filter(Number.isFinite);
+}
+
+function mean(xs: number[]): number {
+  return xs.reduce((s, x) => s + x, 0) / xs.length;
+}
+
+/** A result column by field name — a pipeline result spells dots and $ as underscores. */
+function field(row: Record<string, any>, name: string): unknown {
+  return name in row ? row[name] : row[name.replace(/[.$]/g, '_')];
+}
@@ -1,4 +1,12 @@
 export { classifyColumns } from './classify.js';
 export { generateCandidates } from './rules.js';
 export { buildAnalysisPlan } from './planner.js';
-export type { AnalysisPlan, AnalysisStep, ClassifiedColumn, ColumnRole, AnalysisCategory } from './types.js';
+export { executePlan } from './findings.js';
+export { detectTimeSeriesAnomalies } from './anomalies.js';
+export { loadSourceDataContext, validateDataContext, applyStandardFilters } from './data-context.js';
+export type { StepFinding } from './findings.js';
+export type { StatTest, EffectSize } from './significance.js';
+export type { CorrelationCell, KeyDriver, KeyDriverResult } from './correlation.js';
+export type { SeriesPoint, PointAnomaly, ChangePoint, TimeSeriesAnomalies } from './anomalies.js';
+export type { DataContext, DataContextMetric } from './data-context.js';
+export type { AnalysisPlan, AnalysisStep, ClassifiedColumn, ColumnRole, AnalysisCategory, JoinEdge, StepFields } from './types.js';
@@ -1,15 +1,21 @@
 import type { DataColumn } from '../types.js';
 import type { AnalysisPlan, AnalysisCategory } from './types.js';
 import { classifyColumns } from './classify.js';
-import { generateCandidates, type PlannerDialect } from './rules.js';
+import { generateCandidates, generateJoinCandidates, generateMetricCandidates, PlannerTargetError, type JoinSchema, type PlannerDialect } from './rules.js';
+import { applyStandardFilters, isMetricExpression, type DataContext, type DataContextMetric } from './data-context.js';
 
 const CATEGORY_PRIORITY: Record<AnalysisCategory, number> = {
   trend: 1,
-  comparison: 2,
-  distribution: 3,
-  ranking: 4,
-  composition: 5,
-  relationship: 6,
+  retention: 2,
+  funnel: 3,
+  comparison: 4,
+  distribution: 5,
+  ranking: 6,
+  composition: 7,
+  // A correlation step is only planned for 3+ measures, where it covers every pair the
+  // relationship scatter would — so it takes the earlier slot under the default maxSteps.
+  correlation: 8,
+  relationship: 9,
 };
 
 const DEFAULT_MAX_STEPS = 6;
@@ -24,21 +30,68 @@ export function buildAnalysisPlan(
   sourceName: string,
   maxSteps: number = DEFAULT_MAX_STEPS,
   dialect: PlannerDialect = 'sqlite',
+  schema?: JoinSchema,
+  target?: string,
+  context?: DataContext | null,
 ): AnalysisPlan {
   const classified = classifyColumns(columns);
-  const candidates = generateCandidates(classified, table, dialect);
+  if (target) {
+    const col = classified.find((c) => c.name === target);
+    if (!col || col.role !== 'measure') {
+      const measures = classified.filter((c) => c.role === 'measure').map((c) => c.name);
+      throw new PlannerTargetError(
+        target,
+        `analyze: target "${target}" ${col ? `is a ${col.role} column, not a measure` : `is not a column of ${table}`} — ` +
+          (measures.length ? `pick one of: ${measures.join(', ')}.` : `${table} has no measure columns.`),
+      );
+    }
+  }
+  // The table's data context: its metrics are planned ahead of raw-column steps, and its
+  // standard filters restrict every step's reads of the table. Both are SQL.
+  const notes: string[] = [];
+  const metrics: DataContextMetric[] = [];
+  let filters: string[] = [];
+  if (context && dialect === 'mongodb') {
+    if (context.metrics?.length || context.standardFilters?.length) {
+      notes.push('The data context\'s metrics and standard filters are SQL, so they don\'t apply to a MongoDB pipeline.');
+    }
+  } else if (context) {
+    for (const m of context.metrics ?? []) {
+      if (isMetricExpression(m.sql)) metrics.push(m);
+      else notes.push(`Metric "${m.name}" isn't a single aggregate expression, so it wasn't planned.`);
+    }
+    filters = (context.standardFilters ?? []).map((f) => f.sql);
+    if (filters.length > 0) {
+      notes.push(`Standard filters applied to every step: ${context.standardFilters!.map((f) => f.description).join('; ')}.`);
+    }
+  }
+
+  // With the source's schema, steps that join out to lookup tables follow the single-table
+  // ones; the stable sort then files each right behind the same-category step from `table`.
+  const candidates = [
+    ...generateMetricCandidates(metrics, classified, table, dialect),
+    ...generateCandidates(classified, table, dialect, target),
+    ...(schema ? generateJoinCandidates(classified, table, schema, dialect) : []),
+  ];
 
-  candidates.sort((a, b) => CATEGORY_PRIORITY[a.category] - CATEGORY_PRIORITY[b.category]);
+  // A chosen target is what the caller asked about: its key-driver step leads the plan.
+  const priority = (category: AnalysisCategory) => (target && category === 'correlation' ? 0 : CATEGORY_PRIORITY[category]);
+  candidates.sort((a, b) => priority(a.category) - priority(b.category));
 
-  // Deduplicate by category: first encountered wins after priority sort
-  const seen = new Set<AnalysisCategory>();
+  // Deduplicate by category: first encountered wins after priority sort. A joined step
+  // competes only with joins to the same lookup table, a metric step only with itself.
+  const seen = new Set<string>();
   const steps = candidates
     .filter(step => {
-      if (seen.has(step.category)) return false;
-      seen.add(step.category);
+      const key = step.joinPath
+        ? `${step.category}:${step.joinPath[step.joinPath.length - 1].toTable}`
+        : step.fields?.metric ? `${step.category}:metric:${step.fields.metric}` : step.category;
+      if (seen.has(key)) return false;
+      seen.add(key);
       return true;
     })
-    .slice(0, maxSteps);
+    .slice(0, maxSteps)
+    .map((step) => (filters.length > 0 ? { ...step, sql: applyStandardFilters(step.sql, table, filters) } : step));
 
   // Build summary from role counts
   const roleCounts = { time: 0, dimension: 0, measure: 0 };
@@ -55,7 +108,14 @@ export function buildAnalysisPlan(
 
   const columnDesc = parts.length > 0 ? parts.join(', ') : 'no analyzable columns';
   const analysisWord = steps.length === 1 ? '1 analysis' : `${steps.length} analyses`;
-  const summary = `${sourceName}: ${columnDesc} — ${analysisWord} planned`;
+  const joined = new Set(steps.flatMap((s) => (s.joinPath ? [s.joinPath[s.joinPath.length - 1].toTable] : [])));
+  const joinDesc = joined.size > 0 ? `, joining ${plural(joined.size, 'lookup table')}` : '';
+  const summary = `${sourceName}: ${columnDesc} — ${analysisWord} planned${joinDesc}`;
 
-  return { summary, steps };
+  return {
+    summary,
+    steps,
+    ...(filters.length > 0 ? { standardFilters: filters } : {}),
+    ...(notes.length > 0 ? { notes } : {}),
+  };
 }
@@ -4,14 +4,19 @@
  * `auditColumns` runs purely on column profiles (type, stats, top values, null
  * counts) — no data access — so it's cheap and unit-testable. The CLI's `check`
  * command layers a couple of query-based checks (duplicate rows, identical
- * columns) on top.
+ * columns) on top, and, across tables, referential checks along the schema's
+ * foreign keys (orphaned keys, non-unique parent keys, join fan-out). A PII scan
+ * reads a sample of each table for personal data (see utils/pii.ts), and custom rules
+ * declared for the dataset — column constraints, SQL assertions — are checked last.
  *
  * The goal is confidence: surface the things that silently produce wrong or
  * misleading analysis (mixed-type columns, leaked duplicate columns, dead
  * columns, missing-value sentinels) before anyone trusts a chart.
  */
 
-import type { DataColumn } from '../types.js';
+import type { DataColumn, ForeignKey, RedactionPolicy } from '../types.js';
+import { PII_LABELS, classifyPiiColumn, piiMentions, redactColumns, redactRows, sourceRedactionPlan, type PiiKind, type RedactionTarget } from '../utils/pii.js';
+import { resultLineage } from '../connectors/lineage.js';
 
 export type QualitySeverity = 'high' | 'medium' | 'low';
 
@@ -22,6 +27,10 @@ export interface QualityFinding {
   issue: string;
   detail: string;
   suggestion?: string;
+  /** Rows breaking a custom rule (see ruleChecks). */
+  violations?: number;
+  /** A few of those rows, redacted under the source's policy. */
+  examples?: Record<string, unknown>[];
 }
 
 // Only tokens that are almost never a legitimate category. Deliberately EXCLUDES
@@ -442,7 +451,7 @@ function classifyNumericText(probe: string[]): NumericTextKind | null {
 
 export type AuditQueryFn = (
   sql: string,
-) => Promise<{ ok: boolean; rows?: Record<string, unknown>[]; error?: string }>;
+) => Promise<{ ok: boolean; rows?: Record<string, unknown>[]; error?: string; truncated?: boolean }>;
 
 const MAX_DUP_ROWS_SCAN = 500_000; // skip the full-table distinct scan above this
 const MAX_IDENTICAL_PAIRS = 80; // bound the pairwise identical-column comparison
@@ -520,20 +529,416 @@ export async function tableLevelChecks(
   return out;
 }
 
-/** The full audit: profile checks + table-level checks, over every table. The ONE
- *  entry point both the CLI `check` command and the analysis loop call. */
+// ─── Referential checks ───────────────────────────────────────────────────────
+// One query per foreign key, over the child ("many") and parent ("one") tables.
+
+const MAX_REFERENTIAL_ROWS = 1_000_000; // a key whose child or parent table is larger goes unchecked
+const MIN_KEY_CONFIDENCE = 0.7; // inferred keys below this aren't joined by analyze either
+const ORPHAN_HIGH_RATE = 0.05;
+
+function fmtCount(n: number): string {
+  return n.toLocaleString('en-US');
+}
+
+/**
+ * Along each foreign key touching `tables` (declared, or inferred with enough
+ * confidence): child rows whose key has no parent row (dropped by an inner join,
+ * NULL dimensions in a left join), parent keys that repeat (the "one" side isn't
+ * unique), and the fan-out that causes — matched child rows multiplied by the join,
+ * so every SUM or COUNT over it overcounts.
+ */
+export async function referentialChecks(
+  tables: { name: string; rowCount: number }[],
+  foreignKeys: ForeignKey[],
+  query: AuditQueryFn,
+): Promise<QualityFinding[]> {
+  const out: QualityFinding[] = [];
+  const rowCounts = new Map(tables.map((t) => [t.name, t.rowCount]));
+  const seen = new Set<string>();
+
+  for (const fk of foreignKeys) {
+    if (fk.fromTable === fk.toTable || (fk.confidence ?? 1) < MIN_KEY_CONFIDENCE) continue;
+    if (!rowCounts.has(fk.fromTable) && !rowCounts.has(fk.toTable)) continue;
+    const id = `${fk.fromTable}.${fk.fromColumn}->${fk.toTable}.${fk.toColumn}`;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const link = `${fk.fromTable}.${fk.fromColumn} → ${fk.toTable}.${fk.toColumn}`;
+    if ((rowCounts.get(fk.fromTable) ?? 0) > MAX_REFERENTIAL_ROWS || (rowCounts.get(fk.toTable) ?? 0) > MAX_REFERENTIAL_ROWS) {
+      out.push({
+        severity: 'low', table: fk.fromTable, column: link, issue: 'check-incomplete',
+        detail: `Referential check on ${link} skipped: ${fk.fromTable} or ${fk.toTable} has more than ${fmtCount(MAX_REFERENTIAL_ROWS)} rows.`,
+        suggestion: 'Orphans and fan-out along this key are unchecked — verify the join on a filtered slice before trusting it.',
+      });
+      continue;
+    }
+
+    const key = (alias: string, column: string) => (fk.evidence?.caseInsensitive
+      ? `LOWER(TRIM(${alias}.${esc(column)}))`
+      : `${alias}.${esc(column)}`);
+    const child = `${esc(fk.fromTable)} c`;
+    const parents = `(SELECT ${key('p', fk.toColumn)} AS k, COUNT(*) AS n FROM ${esc(fk.toTable)} p WHERE p.${esc(fk.toColumn)} IS NOT NULL GROUP BY 1)`;
+    const res = await query(
+      `SELECT COUNT(*) AS child_rows, SUM(CASE WHEN m.k IS NULL THEN 1 ELSE 0 END) AS orphans, ` +
+      `COUNT(DISTINCT CASE WHEN m.k IS NULL THEN ${key('c', fk.fromColumn)} END) AS orphan_keys, ` +
+      `SUM(COALESCE(m.n, 0)) AS joined_rows, ` +
+      `(SELECT COUNT(*) FROM ${parents} d WHERE d.n > 1) AS repeated_keys, ` +
+      `(SELECT COUNT(*) FROM ${parents} d) AS parent_keys ` +
+      `FROM ${child} LEFT JOIN ${parents} m ON m.k = ${key('c', fk.fromColumn)} ` +
+      `WHERE c.${esc(fk.fromColumn)} IS NOT NULL`,
+    );
+    const row = (res.ok && res.rows?.[0]) as Record<string, unknown> | undefined;
+    const n = (k: string) => Number(row?.[k] ?? 0);
+    if (!row || !Number.isFinite(n('child_rows'))) {
+      out.push({
+        severity: 'high', table: fk.fromTable, column: link, issue: 'check-incomplete',
+        detail: `Referential check on ${link} could not complete${res.ok ? '' : `: ${res.error}`}.`,
+        suggestion: 'The audit is incomplete — do not trust a clean result; re-run.',
+      });
+      continue;
+    }
+
+    const childRows = n('child_rows');
+    const orphans = n('orphans');
+    if (orphans > 0) {
+      out.push({
+        severity: orphans / childRows >= ORPHAN_HIGH_RATE ? 'high' : 'medium',
+        table: fk.fromTable, column: link, issue: 'orphaned-foreign-key',
+        detail: `${fmtCount(orphans)} of ${fmtCount(childRows)} ${fk.fromTable} rows (${pct(orphans, childRows)}) have a ${fk.fromColumn} with no match in ${fk.toTable}.${fk.toColumn} (${fmtCount(n('orphan_keys'))} distinct value${n('orphan_keys') === 1 ? '' : 's'}).`,
+        suggestion: `An inner join to ${fk.toTable} silently drops these rows, and a left join gives them NULL attributes. Load the missing ${fk.toTable} rows, or report them as "unknown".`,
+      });
+    }
+
+    const repeated = n('repeated_keys');
+    if (repeated > 0) {
+      out.push({
+        severity: 'medium', table: fk.toTable, column: fk.toColumn, issue: 'non-unique-parent-key',
+        detail: `${fmtCount(repeated)} of ${fmtCount(n('parent_keys'))} ${fk.toColumn} values repeat in ${fk.toTable}, the "one" side of ${link}.`,
+        suggestion: `Deduplicate ${fk.toTable} on ${fk.toColumn} before joining (one row per key), or join on a key that is unique.`,
+      });
+    }
+
+    const matched = childRows - orphans;
+    const joined = n('joined_rows');
+    if (matched > 0 && joined > matched) {
+      out.push({
+        severity: 'high', table: fk.fromTable, column: link, issue: 'join-fan-out',
+        detail: `Joining ${fk.fromTable} to ${fk.toTable} turns ${fmtCount(matched)} matched rows into ${fmtCount(joined)} (${(joined / matched).toFixed(2)}× fan-out).`,
+        suggestion: `Every SUM/COUNT over this join overcounts ${fk.fromTable}. Aggregate ${fk.toTable} to one row per ${fk.toColumn} first, or use COUNT(DISTINCT …).`,
+      });
+    }
+  }
+  return out;
+}
+
+// ─── PII scan ─────────────────────────────────────────────────────────────────
+// One sampling query per table. Findings carry counts, never the values themselves.
+
+const PII_SAMPLE_ROWS = 500;
+const PII_HIGH = new Set<PiiKind>(['credit-card', 'iban', 'national-id']);
+const PII_SUGGESTION = 'Personal data: samples, query results and charts carry it redacted unless the source\'s redaction policy allows this column. Work with it in aggregate (COUNT(DISTINCT …), GROUP BY a region or domain) rather than listing values.';
+
+/**
+ * Personal data in `t`, from its first 500 rows: a column whose values are email
+ * addresses, phone numbers, card numbers (Luhn-valid), IBANs (mod-97-valid), national
+ * IDs or personal names is a `pii-<kind>` finding; a free-text column gets one per
+ * kind mentioned inside it. Card numbers, IBANs and national IDs are high severity.
+ * Numeric columns are only read when they are wide enough to hold one.
+ */
+export async function piiChecks(
+  t: { name: string; columns: DataColumn[] },
+  query: AuditQueryFn,
+): Promise<QualityFinding[]> {
+  const candidates = t.columns.filter((c) => c.type !== 'date' && (c.type !== 'numeric' || (c.stats?.max ?? 0) >= 1e8));
+  if (candidates.length === 0) return [];
+  const res = await query(`SELECT ${candidates.map((c) => esc(c.name)).join(', ')} FROM ${esc(t.name)} LIMIT ${PII_SAMPLE_ROWS}`);
+  if (!res.ok || !res.rows) {
+    return [{
+      severity: 'high', table: t.name, issue: 'check-incomplete',
+      detail: `PII scan could not complete${res.ok ? '' : `: ${res.error}`}.`,
+      suggestion: 'The audit is incomplete — do not trust a clean result; re-run.',
+    }];
+  }
+
+  const out: QualityFinding[] = [];
+  for (const c of candidates) {
+    const values = res.rows.map((r) => r[c.name]).filter((v) => v !== null && v !== undefined && String(v).trim() !== '');
+    const found = classifyPiiColumn(c.name, values);
+    if (found) {
+      out.push({
+        severity: PII_HIGH.has(found.kind) ? 'high' : 'medium', table: t.name, column: c.name, issue: `pii-${found.kind}`,
+        detail: `${found.matches} of ${found.sampled} sampled values are ${PII_LABELS[found.kind]}.`,
+        suggestion: PII_SUGGESTION,
+      });
+      continue;
+    }
+    if (c.type !== 'text' && c.type !== 'categorical') continue;
+    const mentioning = new Map<PiiKind, number>();
+    for (const v of values) {
+      for (const kind of new Set(piiMentions(String(v)).map((m) => m.kind))) mentioning.set(kind, (mentioning.get(kind) ?? 0) + 1);
+    }
+    for (const [kind, n] of mentioning) {
+      out.push({
+        severity: PII_HIGH.has(kind) ? 'high' : 'medium', table: t.name, column: c.name, issue: `pii-${kind}`,
+        detail: `${n} of ${values.length} sampled values mention ${PII_LABELS[kind]} in free text.`,
+        suggestion: PII_SUGGESTION,
+      });
+    }
+  }
+  return out;
+}
+
+// ─── Custom rules ─────────────────────────────────────────────────────────────
+// Domain rules the generic checks can't know, declared beside the data (the check
+// config's `rules`). One counting query per constraint, one more for example rows.
+
+/**
+ * A rule on one table: constraints on a `column` (each one checked on its own), or a
+ * named cross-column assertion — `assert`, a condition every row must meet (rows where
+ * it is NULL pass, as in a SQL CHECK), or `query`, a SELECT returning the rows that
+ * break it (which may join other tables).
+ */
+export interface QualityRule {
+  table: string;
+  column?: string;
+  notNull?: boolean;
+  unique?: boolean;
+  /** Inclusive bounds: numbers, or ISO date strings for a date column. */
+  min?: number | string;
+  max?: number | string;
+  /** A regular expression every non-null value must match (JavaScript syntax). */
+  pattern?: string;
+  /** The allowed values. */
+  values?: (string | number)[];
+  /** Names an assertion: the finding's column, so suppressions can target it. */
+  name?: string;
+  assert?: string;
+  query?: string;
+  /** Default: high. */
+  severity?: QualitySeverity;
+  /** Why the rule holds, or what to do when it breaks — the finding's suggestion. */
+  description?: string;
+}
+
+export const RULE_ISSUES = ['rule-not-null', 'rule-unique', 'rule-range', 'rule-pattern', 'rule-values', 'rule-assertion'];
+
+const RULE_EXAMPLE_ROWS = 3;
+
+function sqlLiteral(v: string | number): string {
+  return typeof v === 'number' ? String(v) : `'${v.replace(/'/g, "''")}'`;
+}
+
+function rangeText(rule: QualityRule): string {
+  if (rule.min !== undefined && rule.max !== undefined) return `outside [${rule.min}, ${rule.max}]`;
+  return rule.min !== undefined ? `below ${rule.min}` : `above ${rule.max}`;
+}
+
+/**
+ * Check `rules` against the tables being audited (rules on other tables are skipped):
+ * a finding per broken constraint or assertion, with the number of rows breaking it and
+ * a few of them as examples, redacted under `redaction` — by the source columns each
+ * example column is made from, as the SourceManager redacts any result. A rule that can't run — a
+ * missing column, SQL the engine rejects — is a `check-incomplete` finding.
+ */
+export async function ruleChecks(
+  tables: { name: string; columns: DataColumn[]; rowCount: number }[],
+  rules: QualityRule[],
+  query: AuditQueryFn,
+  redaction: RedactionPolicy = {},
+): Promise<QualityFinding[]> {
+  const out: QualityFinding[] = [];
+  const byName = new Map(tables.map((t) => [t.name, t]));
+
+  const sourcePlan = sourceRedactionPlan({ tables }, redaction);
+  const examples = async (sql: string): Promise<Record<string, unknown>[]> => {
+    const res = await query(sql);
+    if (!res.ok || !res.rows) return [];
+    const rows = res.rows.slice(0, RULE_EXAMPLE_ROWS);
+    const inherited = new Map<string, RedactionTarget>();
+    for (const [column, from] of resultLineage(sql, Object.keys(rows[0] ?? {}))) {
+      const target = [...from].map((c) => sourcePlan.get(c)).find(Boolean);
+      if (target) inherited.set(column, target);
+    }
+    return redactRows(rows, redaction, undefined, inherited).rows;
+  };
+  const incomplete = (table: string, column: string | undefined, what: string, error?: string) => out.push({
+    severity: 'high', table, ...(column ? { column } : {}), issue: 'check-incomplete',
+    detail: `${what} could not run${error ? `: ${error}` : ''}.`,
+    suggestion: 'The audit is incomplete — do not trust a clean result. Fix the rule in the check config, then re-run.',
+  });
+
+  for (const rule of rules) {
+    const t = byName.get(rule.table);
+    if (!t) continue;
+    const from = esc(t.name);
+    const severity = rule.severity ?? 'high';
+    const suggestion = rule.description ? { suggestion: rule.description } : {};
+    const share = (n: number) => `${fmtCount(n)} of ${fmtCount(t.rowCount)} rows (${pct(n, t.rowCount)})`;
+    const count = async (where: string): Promise<number | string> => {
+      const res = await query(`SELECT COUNT(*) AS n FROM ${from} WHERE ${where}`);
+      const n = res.ok && res.rows?.[0] ? Number(res.rows[0].n) : NaN;
+      return Number.isFinite(n) ? n : res.error ?? 'no count came back';
+    };
+
+    if (rule.assert || rule.query) {
+      const name = rule.name ?? 'assertion';
+      const violating = rule.assert ? `SELECT * FROM ${from} WHERE NOT (${rule.assert})` : rule.query!;
+      const res = await query(`SELECT COUNT(*) AS n FROM (${violating}) v`);
+      const n = res.ok && res.rows?.[0] ? Number(res.rows[0].n) : NaN;
+      if (!Number.isFinite(n)) {
+        incomplete(t.name, name, `Rule "${name}"`, res.error);
+        continue;
+      }
+      if (n === 0) continue;
+      out.push({
+        severity, table: t.name, column: name, issue: 'rule-assertion',
+        detail: rule.assert
+          ? `${share(n)} break "${name}": ${rule.assert}.`
+          : `${fmtCount(n)} row${n === 1 ? ' breaks' : 's break'} "${name}".`,
+        ...suggestion, violations: n,
+        examples: await examples(`SELECT * FROM (${violating}) v LIMIT ${RULE_EXAMPLE_ROWS}`),
+      });
+      continue;
+    }
+
+    const column = rule.column!;
+    if (!t.columns.some((c) => c.name === column)) {
+      incomplete(t.name, column, `Rule on ${t.name}.${column}`, `${t.name} has no column "${column}"`);
+      continue;
+    }
+    const col = esc(column);
+
+    // Constraints decided in SQL: a WHERE clause selecting the rows that break them.
+    const conditions: { issue: string; where: string; what: string }[] = [];
+    if (rule.notNull) conditions.push({ issue: 'rule-not-null', where: `${col} IS NULL`, what: `have no ${column}` });
+    if (rule.min !== undefined || rule.max !== undefined) {
+      const bounds = [
+        rule.min !== undefined ? `${col} < ${sqlLiteral(rule.min)}` : '',
+        rule.max !== undefined ? `${col} > ${sqlLiteral(rule.max)}` : '',
+      ].filter(Boolean);
+      conditions.push({ issue: 'rule-range', where: bounds.join(' OR '), what: `have a ${column} ${rangeText(rule)}` });
+    }
+    if (rule.values) {
+      conditions.push({
+        issue: 'rule-values',
+        where: `${col} IS NOT NULL AND ${col} NOT IN (${rule.values.map(sqlLiteral).join(', ')})`,
+        what: `have a ${column} outside the ${fmtCount(rule.values.length)} allowed value${rule.values.length === 1 ? '' : 's'}`,
+      });
+    }
+    for (const c of conditions) {
+      const n = await count(c.where);
+      if (typeof n === 'string') {
+        incomplete(t.name, column, `Rule ${c.issue} on ${column}`, n);
+        continue;
+      }
+      if (n === 0) continue;
+      out.push({
+        severity, table: t.name, column, issue: c.issue, detail: `${share(n)} ${c.what}.`, ...suggestion, violations: n,
+        examples: await examples(`SELECT * FROM ${from} WHERE ${c.where} LIMIT ${RULE_EXAMPLE_ROWS}`),
+      });
+    }
+
+    if (rule.unique) {
+      const repeats = `SELECT ${col} FROM ${from} WHERE ${col} IS NOT NULL GROUP BY ${col} HAVING COUNT(*) > 1`;
+      const res = await query(`SELECT COUNT(*) AS dup_keys, SUM(n) AS n FROM (SELECT COUNT(*) AS n FROM ${from} WHERE ${col} IS NOT NULL GROUP BY ${col} HAVING COUNT(*) > 1) d`);
+      const row = res.ok ? res.rows?.[0] : undefined;
+      if (!row) incomplete(t.name, column, `Rule rule-unique on ${column}`, res.error);
+      else if (Number(row.dup_keys) > 0) {
+        const keys = Number(row.dup_keys);
+        const n = Number(row.n);
+        out.push({
+          severity, table: t.name, column, issue: 'rule-unique',
+          detail: `${fmtCount(keys)} ${column} value${keys === 1 ? ' repeats' : 's repeat'}, across ${share(n)}.`,
+          ...suggestion, violations: n,
+          examples: await examples(`SELECT * FROM ${from} WHERE ${col} IN (${repeats}) ORDER BY ${col} LIMIT ${RULE_EXAMPLE_ROWS}`),
+        });
+      }
+    }
+
+    // Regular expressions aren't portable SQL: match the distinct values here instead. No
+    // LIMIT of our own, so the query function's row cap shows up as `truncated` — values past
+    // it go unchecked, and the finding says so.
+    if (rule.pattern) {
+      const res = await query(`SELECT ${col} AS v, COUNT(*) AS n FROM ${from} WHERE ${col} IS NOT NULL GROUP BY ${col} ORDER BY 1`);
+      if (!res.ok || !res.rows) {
+        incomplete(t.name, column, `Rule rule-pattern on ${column}`, res.error);
+        continue;
+      }
+      const re = new RegExp(rule.pattern);
+      const bad = res.rows.filter((r) => !re.test(String(r.v)));
+      const checked = `the first ${fmtCount(res.rows.length)} distinct values — the rest are past the row cap`;
+      if (bad.length === 0) {
+        if (res.truncated) {
+          out.push({
+            severity: 'high', table: t.name, column, issue: 'check-incomplete',
+            detail: `Rule rule-pattern on ${column} only checked ${checked}.`,
+            suggestion: 'The audit is incomplete — do not trust a clean result. Raise the source\'s row cap (--max-rows) above the column\'s distinct values, then re-run.',
+          });
+        }
+        continue;
+      }
+      const n = bad.reduce((sum, r) => sum + Number(r.n), 0);
+      out.push({
+        severity, table: t.name, column, issue: 'rule-pattern',
+        detail: `${share(n)} have a ${column} that doesn't match /${rule.pattern}/ (${fmtCount(bad.length)} distinct value${bad.length === 1 ? '' : 's'}${res.truncated ? ` in ${checked}` : ''}).`,
+        ...suggestion, violations: n,
+        examples: await examples(`SELECT * FROM ${from} WHERE ${col} IN (${bad.slice(0, RULE_EXAMPLE_ROWS).map((r) => sqlLiteral(typeof r.v === 'number' ? r.v : String(r.v))).join(', ')}) LIMIT ${RULE_EXAMPLE_ROWS}`),
+      });
+    }
+  }
+  return out;
+}
+
+/** The full audit: profile checks, table-level checks and the PII scan over every
+ *  table, then the referential checks along `foreignKeys` and any custom `rules`.
+ *  `tables` and `query` are unredacted — the scans and counts need the real values —
+ *  but whatever a finding quotes is redacted under `redaction`: the profile checks
+ *  run on redacted copies of the columns, and rule examples are redacted rows. The
+ *  ONE entry point both the CLI `check` command and the MCP load_source audit call. */
 export async function auditDataset(
   tables: { name: string; columns: DataColumn[]; rowCount: number }[],
   query: AuditQueryFn,
+  foreignKeys: ForeignKey[] = [],
+  options: { rules?: QualityRule[]; redaction?: RedactionPolicy } = {},
 ): Promise<QualityFinding[]> {
   const findings: QualityFinding[] = [];
   for (const t of tables) {
-    findings.push(...auditColumns(t.name, t.columns, t.rowCount));
+    findings.push(...auditColumns(t.name, redactColumns(t.columns, options.redaction), t.rowCount));
     findings.push(...(await tableLevelChecks(t, query)));
+    findings.push(...(await piiChecks(t, query)));
   }
+  findings.push(...(await referentialChecks(tables, foreignKeys, query)));
+  if (options.rules?.length) findings.push(...(await ruleChecks(tables, options.rules, query, options.redaction)));
   return findings;
 }
 
+/**
+ * The audit's checks and the issues each one raises, for reports that list checks
+ * rather than findings (JUnit: one test case per table × check). An issue outside
+ * the catalog is a check of its own — see auditCheckOf.
+ */
+export const AUDIT_CHECKS: Record<string, string[]> = {
+  'missing-values': ['all-null', 'mostly-null', 'some-null'],
+  'type-traps': ['mixed-type', 'numeric-text', 'numeric-text-symbol', 'numeric-text-separators', 'numeric-text-parens'],
+  'sentinels': ['sentinel-value', 'suspicious-zero'],
+  'categories': ['dirty-categories', 'boolean-variants', 'dirty-whitespace'],
+  'dates': ['mixed-date-format', 'non-iso-date', 'year-column'],
+  'constant-and-id-columns': ['constant', 'id-like'],
+  'outliers': ['outliers'],
+  'column-names': ['special-char-name'],
+  'duplicates': ['duplicate-rows', 'identical-columns'],
+  'referential-integrity': ['orphaned-foreign-key', 'non-unique-parent-key', 'join-fan-out'],
+  'personal-data': Object.keys(PII_LABELS).map((kind) => `pii-${kind}`),
+  'custom-rules': RULE_ISSUES,
+  'completeness': ['check-incomplete'],
+};
+
+const CHECK_OF_ISSUE = new Map(Object.entries(AUDIT_CHECKS).flatMap(([check, issues]) => issues.map((i) => [i, check] as const)));
+
+/** The check an issue belongs to (the issue itself when it isn't catalogued). */
+export function auditCheckOf(issue: string): string {
+  return CHECK_OF_ISSUE.get(issue) ?? issue;
+}
+
 const SEV_RANK: Record<QualitySeverity, number> = { high: 0, medium: 1, low: 2 };
 
 // Only ACTION-GUIDING issues go into the LLM prompt — the ones that silently
@@ -550,6 +955,8 @@ const PROMPT_WORTHY_ISSUES = new Set([
   'dirty-categories',      // case/space splits that change the GROUP BY winner
   'duplicate-rows',        // inflate counts
   'identical-columns',     // leaked/redundant column
+  'orphaned-foreign-key',  // rows an inner join silently drops
+  'join-fan-out',          // a join that multiplies rows — every SUM overcounts
   'check-incomplete',      // a check could not run — never hide that
 ]);
 
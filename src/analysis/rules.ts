@@ -1,4 +1,7 @@
-import type { ClassifiedColumn, AnalysisStep, AnalysisCategory } from './types.js';
+import type { DataTable, ForeignKey } from '../types.js';
+import type { ClassifiedColumn, AnalysisStep, AnalysisCategory, JoinEdge, StepFields } from './types.js';
+import { classifyColumns } from './classify.js';
+import type { DataContextMetric } from './data-context.js';
 
 // --- Helpers ----------------------------------------------------------------
 
@@ -51,14 +54,16 @@ export function isIsoDateColumn(col: ClassifiedColumn): boolean {
  * date column — we'd rather skip the trend than ship strftime SQL that silently
  * produces a single NULL bucket summing the whole table.
  */
-/** SQL flavor for planner-generated date/time SQL. */
-export type PlannerDialect = 'sqlite' | 'postgres';
+/**
+ * Query flavor the planner emits: a SQL dialect, or `mongodb` — an aggregation
+ * pipeline in the connector's {"collection","pipeline"} seam, carried in `AnalysisStep.sql`.
+ */
+export type PlannerDialect = 'sqlite' | 'postgres' | 'mysql' | 'duckdb' | 'mongodb';
 
 /**
  * Raised when analysis-plan generation is asked to run against a source whose
- * query paradigm the planner can't emit. The planner produces SELECT SQL, so a
- * document store (mongodb → aggregation pipeline) is REFUSED here rather than
- * silently handed SQLite SQL — the caller surfaces `message` as a clean error.
+ * query paradigm the planner can't emit — an unknown type is REFUSED here rather
+ * than silently handed SQLite SQL. The caller surfaces `message` as a clean error.
  */
 export class PlannerUnsupportedSourceError extends Error {
   constructor(public readonly sourceType: string, message: string) {
@@ -68,29 +73,43 @@ export class PlannerUnsupportedSourceError extends Error {
 }
 
 /**
- * Resolve a registered source's `type` to the SQL flavor the planner emits.
+ * Raised when a plan is asked to rank drivers of a target column the table doesn't have as a
+ * measure. The caller surfaces `message` as a clean error, like PlannerUnsupportedSourceError.
+ */
+export class PlannerTargetError extends Error {
+  constructor(public readonly target: string, message: string) {
+    super(message);
+    this.name = 'PlannerTargetError';
+  }
+}
+
+/**
+ * Resolve a registered source's `type` to the query flavor the planner emits.
  * The ONE place source-type → planner-dialect is decided, so no call site
  * re-derives it with a `type === 'postgres' ? …` ternary that silently maps an
- * unrecognized (e.g. mongodb) source to SQLite. csv/undefined → sqlite,
- * postgres → postgres; a pipeline source (mongodb) or unknown type THROWS.
+ * unrecognized source to SQLite. csv/excel/sqlite/undefined → sqlite,
+ * postgres → postgres, mysql → mysql, duckdb → duckdb, mongodb → mongodb
+ * (aggregation pipelines); an unknown type THROWS.
  */
 export function plannerDialectForSource(type: string | undefined): PlannerDialect {
   switch (type) {
     case undefined:
     case 'csv':
+    case 'excel':
+    case 'sqlite':
       return 'sqlite';
     case 'postgres':
       return 'postgres';
+    case 'mysql':
+      return 'mysql';
+    case 'duckdb':
+      return 'duckdb';
     case 'mongodb':
-      throw new PlannerUnsupportedSourceError(
-        'mongodb',
-        'analyze builds SQL analysis plans and cannot plan a MongoDB source ' +
-          '(aggregation-pipeline paradigm, not SQL). Query it directly, or drive it through the orchestrator/recon path.',
-      );
+      return 'mongodb';
     default:
       throw new PlannerUnsupportedSourceError(
         type,
-        `analyze: unknown source type "${type}" — no analysis-plan dialect mapping (expected csv | postgres).`,
+        `analyze: unknown source type "${type}" — no analysis-plan dialect mapping (expected csv | excel | sqlite | postgres | mysql | duckdb | mongodb).`,
       );
   }
 }
@@ -99,10 +118,16 @@ export function timeBucketing(col: ClassifiedColumn, dialect: PlannerDialect = '
   if (isYearColumn(col)) {
     const c = q(col.name);
     // A year stored as a number → its integer year as text, guarded to a plausible range.
-    // Postgres is type-strict (can't CAST('1980.0' AS INTEGER)), so it numeric-guards first.
+    // Postgres is type-strict (can't CAST('1980.0' AS INTEGER)), so it numeric-guards first;
+    // DuckDB's TRY_CAST yields NULL for a non-number, and floor() stops CAST rounding 1980.7 up.
+    // MySQL casts a non-number to 0 (a warning, not an error), which the range check drops.
     const expr = dialect === 'postgres'
       ? `CASE WHEN (${c})::text ~ '^ *-?[0-9]+([.][0-9]+)? *$' AND (${c})::double precision BETWEEN 1000 AND 2200 THEN floor((${c})::double precision)::int::text END`
-      : `CASE WHEN CAST(${c} AS REAL) BETWEEN 1000 AND 2200 THEN CAST(CAST(${c} AS INTEGER) AS TEXT) END`;
+      : dialect === 'mysql'
+        ? `CASE WHEN CAST(${c} AS DECIMAL(20,6)) BETWEEN 1000 AND 2200 THEN CAST(FLOOR(CAST(${c} AS DECIMAL(20,6))) AS CHAR) END`
+        : dialect === 'duckdb'
+        ? `CASE WHEN TRY_CAST(${c} AS DOUBLE) BETWEEN 1000 AND 2200 THEN CAST(CAST(floor(TRY_CAST(${c} AS DOUBLE)) AS INTEGER) AS VARCHAR) END`
+        : `CASE WHEN CAST(${c} AS REAL) BETWEEN 1000 AND 2200 THEN CAST(CAST(${c} AS INTEGER) AS TEXT) END`;
     return { label: 'year', expr };
   }
   // Skip only on POSITIVE evidence the dates are non-ISO (top values present and
@@ -138,6 +163,27 @@ function sqlTimeBucket(col: string, bucket: 'day' | 'week' | 'month' | 'quarter'
       case 'day': return `to_char(${ts}, 'YYYY-MM-DD')`;
     }
   }
+  if (dialect === 'mysql') {
+    // DATE_FORMAT reads DATE/DATETIME columns and ISO text alike. || is logical OR here, so CONCAT.
+    switch (bucket) {
+      case 'year': return `DATE_FORMAT(${c}, '%Y')`;
+      case 'quarter': return `CONCAT(DATE_FORMAT(${c}, '%Y'), '-Q', QUARTER(${c}))`;
+      case 'month': return `DATE_FORMAT(${c}, '%Y-%m')`;
+      case 'week': return `DATE_FORMAT(${c}, '%x-W%v')`;
+      case 'day': return `DATE_FORMAT(${c}, '%Y-%m-%d')`;
+    }
+  }
+  if (dialect === 'duckdb') {
+    // Typed DATE/TIMESTAMP columns and ISO text alike; an unparseable value buckets as NULL.
+    const ts = `TRY_CAST(${c} AS TIMESTAMP)`;
+    switch (bucket) {
+      case 'year': return `strftime(${ts}, '%Y')`;
+      case 'quarter': return `strftime(${ts}, '%Y') || '-Q' || CAST(quarter(${ts}) AS VARCHAR)`;
+      case 'month': return `strftime(${ts}, '%Y-%m')`;
+      case 'week': return `strftime(${ts}, '%G-W%V')`;
+      case 'day': return `strftime(${ts}, '%Y-%m-%d')`;
+    }
+  }
   switch (bucket) {
     case 'year':
       return `CASE WHEN typeof(${c}) = 'integer' AND ${c} BETWEEN 1000 AND 2200 THEN CAST(${c} AS TEXT) ELSE strftime('%Y', ${c}) END`;
@@ -152,6 +198,78 @@ function sqlTimeBucket(col: string, bucket: 'day' | 'week' | 'month' | 'quarter'
   }
 }
 
+// --- Aggregation pipelines (mongodb) ------------------------------------------
+
+/** A field path as a pipeline output name — a $group/$project output can't hold a dot or start with $. */
+function outName(name: string): string {
+  return name.replace(/[.$]/g, '_');
+}
+
+/** The runnable query for a pipeline source: the connector's {"collection","pipeline"} seam. */
+function pipelineQuery(table: string, pipeline: object[]): string {
+  return JSON.stringify({ collection: table, pipeline });
+}
+
+/** A field read as a date: BSON dates as-is, ISO strings parsed, anything else NULL. */
+function pipelineDate(col: string): object {
+  return { $convert: { input: `$${col}`, to: 'date', onError: null, onNull: null } };
+}
+
+/**
+ * The pipeline counterpart of timeBucketing: the same labels ('2023-04', '2023-Q2',
+ * '2023-W14', '1980') from $dateTrunc + $dateToString, with the same refusal of a
+ * non-ISO, non-year column. A year column is range-guarded like the SQL dialects.
+ */
+export function pipelineTimeBucketing(col: ClassifiedColumn): { label: string; expr: object } | null {
+  if (isYearColumn(col)) {
+    const n = { $convert: { input: `$${col.name}`, to: 'double', onError: null, onNull: null } };
+    return {
+      label: 'year',
+      expr: { $let: { vars: { n }, in: {
+        $cond: [{ $and: [{ $gte: ['$$n', 1000] }, { $lte: ['$$n', 2200] }] }, { $toString: { $toInt: { $floor: '$$n' } } }, null],
+      } } },
+    };
+  }
+  const vals = (col.topValues ?? []).map((t) => String(t.value));
+  if (vals.length > 0 && !isIsoDateColumn(col)) return null;
+  const bucket = pickTimeBucket(col);
+  const date = pipelineDate(col.name);
+  if (bucket === 'quarter') {
+    return {
+      label: bucket,
+      expr: { $let: { vars: { t: { $dateTrunc: { date, unit: 'quarter' } } }, in: {
+        $cond: [{ $eq: ['$$t', null] }, null, {
+          $concat: [{ $dateToString: { date: '$$t', format: '%Y' } }, '-Q', { $toString: { $toInt: { $ceil: { $divide: [{ $month: '$$t' }, 3] } } } }],
+        }],
+      } } },
+    };
+  }
+  const format = { year: '%Y', month: '%Y-%m', week: '%G-W%V', day: '%Y-%m-%d' }[bucket];
+  const unit = bucket === 'week' ? { unit: 'week', startOfWeek: 'monday' } : { unit: bucket };
+  return { label: bucket, expr: { $dateToString: { date: { $dateTrunc: { date, ...unit } }, format } } };
+}
+
+/**
+ * $group on `keys` (output name → expression) summing `measure` into `total`, then flat rows
+ * {…keys, total}, sorted by the keys in order or by the total descending (the SQL rules'
+ * GROUP BY … ORDER BY), optionally cut to the top `limit`.
+ */
+function groupSumPipeline(
+  keys: Record<string, unknown>,
+  measure: string,
+  total: string,
+  order: 'keys' | 'total',
+  limit?: number,
+): object[] {
+  const names = Object.keys(keys);
+  return [
+    { $group: { _id: keys, [total]: { $sum: `$${measure}` } } },
+    { $sort: order === 'keys' ? Object.fromEntries(names.map((k) => [`_id.${k}`, 1])) : { [total]: -1 } },
+    ...(limit ? [{ $limit: limit }] : []),
+    { $project: { _id: 0, ...Object.fromEntries(names.map((k) => [k, `$_id.${k}`])), [total]: 1 } },
+  ];
+}
+
 function makeStep(
   category: AnalysisCategory,
   title: string,
@@ -161,23 +279,36 @@ function makeStep(
   sql: string,
   table: string,
   suggestedPatterns: string[],
+  fields?: StepFields,
 ): AnalysisStep {
-  return { title, question, intent, sql, table, suggestedPatterns, rationale, category };
+  return { title, question, intent, sql, table, suggestedPatterns, rationale, category, ...(fields ? { fields } : {}) };
 }
 
 // --- Rules ------------------------------------------------------------------
 
-type AnalysisRule = (columns: ClassifiedColumn[], table: string, dialect: PlannerDialect) => AnalysisStep | null;
+/** `target`: the measure a key-driver step explains, when the caller chose one. */
+type AnalysisRule = (columns: ClassifiedColumn[], table: string, dialect: PlannerDialect, target?: string) => AnalysisStep | null;
 
 const timeTrend: AnalysisRule = (columns, table, dialect) => {
   const timeCol = first(columns, 'time');
   const measureCol = first(columns, 'measure');
   if (!timeCol || !measureCol) return null;
 
-  const tb = timeBucketing(timeCol, dialect);
-  if (!tb) return null; // date column isn't ISO/year-bucketable — skip rather than ship garbage SQL
-  const { label: bucket, expr: bucketExpr } = tb;
   const asName = sumAlias(measureCol.name);
+  let query: string;
+  let bucket: string;
+  if (dialect === 'mongodb') {
+    const tb = pipelineTimeBucketing(timeCol);
+    if (!tb) return null;
+    bucket = tb.label;
+    query = pipelineQuery(table, groupSumPipeline({ [outName(`${timeCol.name}_${tb.label}`)]: tb.expr }, measureCol.name, outName(asName), 'keys'));
+  } else {
+    const tb = timeBucketing(timeCol, dialect);
+    if (!tb) return null; // date column isn't ISO/year-bucketable — skip rather than ship garbage SQL
+    bucket = tb.label;
+    const bucketExpr = tb.expr;
+    query = `SELECT ${bucketExpr} AS ${q(`${timeCol.name}_${bucket}`)}, SUM(${q(measureCol.name)}) AS ${q(asName)} FROM ${q(table)} GROUP BY 1 ORDER BY 1 ASC`;
+  }
 
   return makeStep(
     'trend',
@@ -185,9 +316,10 @@ const timeTrend: AnalysisRule = (columns, table, dialect) => {
     `How does ${capitalize(measureCol.name)} change over time?`,
     `Show ${measureCol.name} trend over ${timeCol.name}`,
     `Time column "${timeCol.name}" paired with measure "${measureCol.name}" suggests a time-series trend analysis.`,
-    `SELECT ${bucketExpr} AS ${q(`${timeCol.name}_${bucket}`)}, SUM(${q(measureCol.name)}) AS ${q(asName)} FROM ${q(table)} GROUP BY 1 ORDER BY 1 ASC`,
+    query,
     table,
     ['line', 'area', 'sparkline-grid'],
+    { time: timeCol.name, bucket, measure: measureCol.name, value: dialect === 'mongodb' ? outName(asName) : asName },
   );
 };
 
@@ -197,10 +329,22 @@ const trendByGroup: AnalysisRule = (columns, table, dialect) => {
   const dimCol = findByRole(columns, 'dimension').find(d => d.uniqueCount <= 8);
   if (!timeCol || !measureCol || !dimCol) return null;
 
-  const tb = timeBucketing(timeCol, dialect);
-  if (!tb) return null; // non-ISO/non-year date — skip rather than ship garbage SQL
-  const { label: bucket, expr: bucketExpr } = tb;
   const asName = sumAlias(measureCol.name);
+  let query: string;
+  let bucket: string;
+  if (dialect === 'mongodb') {
+    const tb = pipelineTimeBucketing(timeCol);
+    if (!tb) return null;
+    bucket = tb.label;
+    const keys = { [outName(`${timeCol.name}_${tb.label}`)]: tb.expr, [outName(dimCol.name)]: `$${dimCol.name}` };
+    query = pipelineQuery(table, groupSumPipeline(keys, measureCol.name, outName(asName), 'keys'));
+  } else {
+    const tb = timeBucketing(timeCol, dialect);
+    if (!tb) return null; // non-ISO/non-year date — skip rather than ship garbage SQL
+    bucket = tb.label;
+    const bucketExpr = tb.expr;
+    query = `SELECT ${bucketExpr} AS ${q(`${timeCol.name}_${bucket}`)}, ${q(dimCol.name)}, SUM(${q(measureCol.name)}) AS ${q(asName)} FROM ${q(table)} GROUP BY 1, ${q(dimCol.name)} ORDER BY 1 ASC`;
+  }
 
   return makeStep(
     'trend',
@@ -208,13 +352,14 @@ const trendByGroup: AnalysisRule = (columns, table, dialect) => {
     `How does ${capitalize(measureCol.name)} trend over time across different ${capitalize(dimCol.name)} values?`,
     `Show ${measureCol.name} trend over ${timeCol.name} grouped by ${dimCol.name}`,
     `Time column "${timeCol.name}" with low-cardinality dimension "${dimCol.name}" (${dimCol.uniqueCount} values) enables grouped trend comparison.`,
-    `SELECT ${bucketExpr} AS ${q(`${timeCol.name}_${bucket}`)}, ${q(dimCol.name)}, SUM(${q(measureCol.name)}) AS ${q(asName)} FROM ${q(table)} GROUP BY 1, ${q(dimCol.name)} ORDER BY 1 ASC`,
+    query,
     table,
     ['small-multiples', 'sparkline-grid'],
+    { time: timeCol.name, bucket, measure: measureCol.name, dimension: dimCol.name, value: dialect === 'mongodb' ? outName(asName) : asName },
   );
 };
 
-const comparison: AnalysisRule = (columns, table) => {
+const comparison: AnalysisRule = (columns, table, dialect) => {
   const dimCol = first(columns, 'dimension');
   const measureCol = first(columns, 'measure');
   if (!dimCol || !measureCol) return null;
@@ -230,16 +375,40 @@ const comparison: AnalysisRule = (columns, table) => {
     `How does ${capitalize(measureCol.name)} compare across ${capitalize(dimCol.name)} values?`,
     `Compare ${measureCol.name} across ${dimCol.name}`,
     `Dimension "${dimCol.name}" (${dimCol.uniqueCount} unique values) with measure "${measureCol.name}" enables categorical comparison.`,
-    `SELECT ${q(dimCol.name)}, SUM(${q(measureCol.name)}) AS ${q(asName)} FROM ${q(table)} GROUP BY ${q(dimCol.name)} ORDER BY ${q(asName)} DESC`,
+    dialect === 'mongodb'
+      ? pipelineQuery(table, groupSumPipeline({ [outName(dimCol.name)]: `$${dimCol.name}` }, measureCol.name, outName(asName), 'total'))
+      : `SELECT ${q(dimCol.name)}, SUM(${q(measureCol.name)}) AS ${q(asName)} FROM ${q(table)} GROUP BY ${q(dimCol.name)} ORDER BY ${q(asName)} DESC`,
     table,
     patterns,
+    { dimension: dimCol.name, measure: measureCol.name },
   );
 };
 
-const distribution: AnalysisRule = (columns, table) => {
+const distribution: AnalysisRule = (columns, table, dialect) => {
   const measureCol = first(columns, 'measure');
   if (!measureCol) return null;
 
+  // A pipeline source bins server-side with $bucketAuto (~equal-count bins) rather than
+  // shipping every value back for a client-side histogram.
+  if (dialect === 'mongodb') {
+    const bin = outName(measureCol.name);
+    return makeStep(
+      'distribution',
+      `Distribution of ${capitalize(measureCol.name)}`,
+      `What is the distribution of ${capitalize(measureCol.name)}?`,
+      `Show distribution of ${measureCol.name}`,
+      `Measure "${measureCol.name}" can be analyzed for its statistical distribution, binned server-side with $bucketAuto.`,
+      pipelineQuery(table, [
+        { $match: { [measureCol.name]: { $type: 'number' } } },
+        { $bucketAuto: { groupBy: `$${measureCol.name}`, buckets: 20 } },
+        { $project: { _id: 0, [`${bin}_min`]: '$_id.min', [`${bin}_max`]: '$_id.max', count: 1 } },
+      ]),
+      table,
+      ['bar', 'lollipop'],
+      { measure: measureCol.name },
+    );
+  }
+
   return makeStep(
     'distribution',
     `Distribution of ${capitalize(measureCol.name)}`,
@@ -249,10 +418,11 @@ const distribution: AnalysisRule = (columns, table) => {
     `SELECT ${q(measureCol.name)} FROM ${q(table)}`,
     table,
     ['histogram', 'violin', 'beeswarm'],
+    { measure: measureCol.name },
   );
 };
 
-const relationship: AnalysisRule = (columns, table) => {
+const relationship: AnalysisRule = (columns, table, dialect) => {
   const measures = findByRole(columns, 'measure');
   if (measures.length < 2) return null;
 
@@ -268,13 +438,19 @@ const relationship: AnalysisRule = (columns, table) => {
     `What is the relationship between ${capitalize(m1.name)} and ${capitalize(m2.name)}?`,
     `Explore relationship between ${m1.name} and ${m2.name}`,
     `Two measure columns "${m1.name}" and "${m2.name}" enable relationship analysis.${dimCol ? ` Dimension "${dimCol.name}" adds color grouping.` : ''}`,
-    `SELECT ${selectCols} FROM ${q(table)}`,
+    dialect === 'mongodb'
+      ? pipelineQuery(table, [
+        { $match: { [m1.name]: { $type: 'number' }, [m2.name]: { $type: 'number' } } },
+        { $project: { _id: 0, ...Object.fromEntries([m1, m2, ...(dimCol ? [dimCol] : [])].map((c) => [outName(c.name), `$${c.name}`])) } },
+      ])
+      : `SELECT ${selectCols} FROM ${q(table)}`,
     table,
     ['scatter', 'heatmap'],
+    { measure: m1.name, measure2: m2.name, ...(dimCol ? { dimension: dimCol.name } : {}) },
   );
 };
 
-const ranking: AnalysisRule = (columns, table) => {
+const ranking: AnalysisRule = (columns, table, dialect) => {
   const dimCol = findByRole(columns, 'dimension').find(d => d.uniqueCount > 10);
   const measureCol = first(columns, 'measure');
   if (!dimCol || !measureCol) return null;
@@ -292,16 +468,19 @@ const ranking: AnalysisRule = (columns, table) => {
     `Which ${capitalize(dimCol.name)} values rank highest by ${capitalize(measureCol.name)}?`,
     `Rank top ${dimCol.name} by ${measureCol.name}`,
     `High-cardinality dimension "${dimCol.name}" (${dimCol.uniqueCount} values) with measure "${measureCol.name}" suits a top-N ranking with limit.`,
-    `SELECT ${q(dimCol.name)}, SUM(${q(measureCol.name)}) AS ${q(asName)} FROM ${q(table)} GROUP BY ${q(dimCol.name)} ORDER BY ${q(asName)} DESC LIMIT 15`,
+    dialect === 'mongodb'
+      ? pipelineQuery(table, groupSumPipeline({ [outName(dimCol.name)]: `$${dimCol.name}` }, measureCol.name, outName(asName), 'total', 15))
+      : `SELECT ${q(dimCol.name)}, SUM(${q(measureCol.name)}) AS ${q(asName)} FROM ${q(table)} GROUP BY ${q(dimCol.name)} ORDER BY ${q(asName)} DESC LIMIT 15`,
     table,
     ['bar', 'lollipop'],
+    { dimension: dimCol.name, measure: measureCol.name },
   );
 };
 
 const isNullDominant = (col: ClassifiedColumn): boolean =>
   col.totalCount > 0 && col.nullCount / col.totalCount > 0.5;
 
-const composition: AnalysisRule = (columns, table) => {
+const composition: AnalysisRule = (columns, table, dialect) => {
   const hierarchyCol = first(columns, 'hierarchy');
   const measureCol = first(columns, 'measure');
   const dimCol = findByRole(columns, 'dimension').find(d => !isNullDominant(d));
@@ -315,9 +494,15 @@ const composition: AnalysisRule = (columns, table) => {
       `How is ${capitalize(measureCol.name)} distributed across ${capitalize(dimCol.name)} and ${capitalize(hierarchyCol.name)}?`,
       `Show composition of ${measureCol.name} by ${dimCol.name} and ${hierarchyCol.name}`,
       `Hierarchy column "${hierarchyCol.name}" with dimension "${dimCol.name}" and measure "${measureCol.name}" enables hierarchical composition analysis.`,
-      `SELECT ${q(dimCol.name)}, ${q(hierarchyCol.name)}, SUM(${q(measureCol.name)}) AS ${q(asName)} FROM ${q(table)} GROUP BY ${q(dimCol.name)}, ${q(hierarchyCol.name)}`,
+      dialect === 'mongodb'
+        ? pipelineQuery(table, groupSumPipeline(
+          { [outName(dimCol.name)]: `$${dimCol.name}`, [outName(hierarchyCol.name)]: `$${hierarchyCol.name}` },
+          measureCol.name, outName(asName), 'keys',
+        ))
+        : `SELECT ${q(dimCol.name)}, ${q(hierarchyCol.name)}, SUM(${q(measureCol.name)}) AS ${q(asName)} FROM ${q(table)} GROUP BY ${q(dimCol.name)}, ${q(hierarchyCol.name)}`,
       table,
       ['treemap', 'sunburst', 'stacked-bar'],
+      { dimension: dimCol.name, dimension2: hierarchyCol.name, measure: measureCol.name },
     );
   }
 
@@ -330,9 +515,12 @@ const composition: AnalysisRule = (columns, table) => {
       `What share does each ${capitalize(dimCol.name)} contribute to total ${capitalize(measureCol.name)}?`,
       `Show composition of ${measureCol.name} by ${dimCol.name}`,
       `Dimension "${dimCol.name}" (${dimCol.uniqueCount} values) with measure "${measureCol.name}" suits part-of-whole composition analysis.`,
-      `SELECT ${q(dimCol.name)}, SUM(${q(measureCol.name)}) AS ${q(asName)} FROM ${q(table)} GROUP BY ${q(dimCol.name)}`,
+      dialect === 'mongodb'
+        ? pipelineQuery(table, groupSumPipeline({ [outName(dimCol.name)]: `$${dimCol.name}` }, measureCol.name, outName(asName), 'keys'))
+        : `SELECT ${q(dimCol.name)}, SUM(${q(measureCol.name)}) AS ${q(asName)} FROM ${q(table)} GROUP BY ${q(dimCol.name)}`,
       table,
       ['donut', 'waffle', 'treemap'],
+      { dimension: dimCol.name, measure: measureCol.name },
     );
   }
 
@@ -342,21 +530,43 @@ const composition: AnalysisRule = (columns, table) => {
 // Period-over-period growth: the change and % change of a measure vs the previous
 // time bucket (WoW/MoM/YoY depending on the bucket). Uses LAG; the % change is
 // guarded with NULLIF (div-by-zero) and 100.0 (real division) — the SQL-safety
-// traps this engine warns about, avoided at the source.
+// traps this engine warns about, avoided at the source. A pipeline source gets the
+// same shape from $setWindowFields + $shift, its % change guarded the same way.
 const periodOverPeriod: AnalysisRule = (columns, table, dialect) => {
   const timeCol = first(columns, 'time');
   const measureCol = first(columns, 'measure');
   if (!timeCol || !measureCol) return null;
-  const tb = timeBucketing(timeCol, dialect);
-  if (!tb) return null;
-  const { label: bucket, expr: bucketExpr } = tb;
-  const period = q(`${timeCol.name}_${bucket}`);
-  const total = q(sumAlias(measureCol.name));
-  const sql =
-    `WITH t AS (SELECT ${bucketExpr} AS ${period}, SUM(${q(measureCol.name)}) AS ${total} FROM ${q(table)} GROUP BY 1) ` +
-    `SELECT ${period}, ${total}, ${total} - LAG(${total}) OVER (ORDER BY ${period}) AS change, ` +
-    `ROUND(100.0 * (${total} - LAG(${total}) OVER (ORDER BY ${period})) / NULLIF(LAG(${total}) OVER (ORDER BY ${period}), 0), 1) AS pct_change ` +
-    `FROM t ORDER BY ${period} ASC`;
+  let bucket: string;
+  let sql: string;
+  if (dialect === 'mongodb') {
+    const tb = pipelineTimeBucketing(timeCol);
+    if (!tb) return null;
+    bucket = tb.label;
+    const delta = { $subtract: ['$total', '$prev'] };
+    sql = pipelineQuery(table, [
+      { $group: { _id: tb.expr, total: { $sum: `$${measureCol.name}` } } },
+      { $setWindowFields: { sortBy: { _id: 1 }, output: { prev: { $shift: { output: '$total', by: -1 } } } } },
+      { $sort: { _id: 1 } },
+      { $project: {
+        _id: 0,
+        [outName(`${timeCol.name}_${bucket}`)]: '$_id',
+        [outName(sumAlias(measureCol.name))]: '$total',
+        change: delta,
+        pct_change: { $cond: [{ $in: ['$prev', [0, null]] }, null, { $round: [{ $multiply: [100, { $divide: [delta, '$prev'] }] }, 1] }] },
+      } },
+    ]);
+  } else {
+    const tb = timeBucketing(timeCol, dialect);
+    if (!tb) return null;
+    bucket = tb.label;
+    const period = q(`${timeCol.name}_${bucket}`);
+    const total = q(sumAlias(measureCol.name));
+    sql =
+      `WITH t AS (SELECT ${tb.expr} AS ${period}, SUM(${q(measureCol.name)}) AS ${total} FROM ${q(table)} GROUP BY 1) ` +
+      `SELECT ${period}, ${total}, ${total} - LAG(${total}) OVER (ORDER BY ${period}) AS change, ` +
+      `ROUND(100.0 * (${total} - LAG(${total}) OVER (ORDER BY ${period})) / NULLIF(LAG(${total}) OVER (ORDER BY ${period}), 0), 1) AS pct_change ` +
+      `FROM t ORDER BY ${period} ASC`;
+  }
   return makeStep(
     'trend',
     `${capitalize(measureCol.name)} Growth (period over period)`,
@@ -366,6 +576,7 @@ const periodOverPeriod: AnalysisRule = (columns, table, dialect) => {
     sql,
     table,
     ['bar', 'line', 'waterfall'],
+    { time: timeCol.name, bucket, measure: measureCol.name, value: dialect === 'mongodb' ? outName(sumAlias(measureCol.name)) : sumAlias(measureCol.name) },
   );
 };
 
@@ -380,10 +591,21 @@ const seasonality: AnalysisRule = (columns, table, dialect) => {
   const vals = (timeCol.topValues ?? []).map((t) => String(t.value));
   if (vals.length > 0 && !isIsoDateColumn(timeCol)) return null; // non-ISO date → strftime would NULL
   const c = q(timeCol.name);
-  const monthExpr = dialect === 'postgres' ? `to_char((${c})::timestamp, 'MM')` : `strftime('%m', ${c})`;
-  const sql =
-    `SELECT ${monthExpr} AS month, AVG(${q(measureCol.name)}) AS ${q(`avg_${measureCol.name}`)} ` +
-    `FROM ${q(table)} WHERE ${monthExpr} IS NOT NULL GROUP BY 1 ORDER BY 1 ASC`;
+  const monthExpr = dialect === 'postgres'
+    ? `to_char((${c})::timestamp, 'MM')`
+    : dialect === 'mysql'
+      ? `DATE_FORMAT(${c}, '%m')`
+      : dialect === 'duckdb' ? `strftime(TRY_CAST(${c} AS TIMESTAMP), '%m')` : `strftime('%m', ${c})`;
+  const sql = dialect === 'mongodb'
+    ? pipelineQuery(table, [
+      { $project: { month: { $dateToString: { date: pipelineDate(timeCol.name), format: '%m' } }, v: `$${measureCol.name}` } },
+      { $match: { month: { $ne: null } } },
+      { $group: { _id: '$month', avg: { $avg: '$v' } } },
+      { $sort: { _id: 1 } },
+      { $project: { _id: 0, month: '$_id', [outName(`avg_${measureCol.name}`)]: '$avg' } },
+    ])
+    : `SELECT ${monthExpr} AS month, AVG(${q(measureCol.name)}) AS ${q(`avg_${measureCol.name}`)} ` +
+      `FROM ${q(table)} WHERE ${monthExpr} IS NOT NULL GROUP BY 1 ORDER BY 1 ASC`;
   return makeStep(
     'trend',
     `${capitalize(measureCol.name)} Seasonality (by month)`,
@@ -393,9 +615,184 @@ const seasonality: AnalysisRule = (columns, table, dialect) => {
     sql,
     table,
     ['bar', 'line', 'radar'],
+    // No `value`: months of the year are a cycle, not a sequence a trend test applies to.
+    { time: timeCol.name, measure: measureCol.name },
+  );
+};
+
+// Correlation matrix + key drivers: every measure against every other (capped so the matrix
+// stays readable), and which of them best explain a target — the chosen one, else the first
+// measure. The step's query only fetches the measure columns: the matrix (Pearson and
+// Spearman, pairwise-complete) and the driver regression are computed when the step is
+// executed (findings.ts), as no SQL dialect here has a portable rank correlation. So the
+// suggested patterns are the ones that draw those raw, wide rows; the executed finding's
+// long-form matrix is what feeds a heatmap. Planned for wide tables (3+ measures; two are the
+// relationship scatter), or any time a target is given.
+const MAX_MATRIX_MEASURES = 12;
+
+const correlationMatrix: AnalysisRule = (columns, table, dialect, target) => {
+  const measures = findByRole(columns, 'measure');
+  const targetCol = (target && measures.find((m) => m.name === target)) || measures[0];
+  if (!targetCol || measures.length < (target ? 2 : 3)) return null;
+  const chosen = [targetCol, ...measures.filter((m) => m !== targetCol)].slice(0, MAX_MATRIX_MEASURES);
+  const names = chosen.map((m) => m.name);
+  const capped = measures.length > chosen.length ? ` (the first ${chosen.length} of ${measures.length})` : '';
+
+  return makeStep(
+    'correlation',
+    `Correlations and Key Drivers of ${capitalize(targetCol.name)}`,
+    `How do the ${chosen.length} measures move together, and which best explain ${capitalize(targetCol.name)}?`,
+    `Show the correlation matrix of ${names.join(', ')} and rank the drivers of ${targetCol.name}`,
+    `${measures.length} measure columns${capped} suit a correlation matrix (Pearson and Spearman, pairwise-complete) and a key-driver ranking of "${targetCol.name}" by standardized regression coefficient.`,
+    dialect === 'mongodb'
+      ? pipelineQuery(table, [{ $project: { _id: 0, ...Object.fromEntries(names.map((n) => [outName(n), `$${n}`])) } }])
+      : `SELECT ${names.map(q).join(', ')} FROM ${q(table)}`,
+    table,
+    ['scatter', 'parallel-coordinates'],
+    { measure: targetCol.name, measures: names },
+  );
+};
+
+// --- Event-log rules -----------------------------------------------------------
+// An event log — an entity id that repeats (user_id), an ISO event timestamp, and a
+// low-cardinality event/stage column — supports the two product questions: do the
+// entities come back (cohort retention) and how far do they get (funnel). SQL only; a
+// pipeline source gets neither step.
+
+const STAGE_NAME = /event|stage|step|status|action|activity|funnel|phase/i;
+
+/** The id, timestamp and stage columns of an event log, or null if `columns` isn't one. */
+function eventLog(columns: ClassifiedColumn[], dialect: PlannerDialect): { entity: ClassifiedColumn; time: ClassifiedColumn; stage: ClassifiedColumn } | null {
+  if (dialect === 'mongodb') return null;
+  // The entity is the id that repeats most (user_id over a per-row event_id, whose distinct
+  // count an estimating profiler may put a little under the row count).
+  const entity = findByRole(columns, 'id')
+    .filter((c) => c.uniqueCount >= 2 && c.uniqueCount < c.totalCount * 0.9)
+    .sort((a, b) => a.uniqueCount - b.uniqueCount)[0];
+  const time = first(columns, 'time');
+  const stage = findByRole(columns, 'dimension').find((c) => STAGE_NAME.test(c.name) && c.uniqueCount >= 2 && c.uniqueCount <= 12);
+  if (!entity || !time || !stage || isYearColumn(time)) return null;
+  const vals = (time.topValues ?? []).map((t) => String(t.value));
+  if (vals.length > 0 && !isIsoDateColumn(time)) return null; // non-ISO date → no month to bucket by
+  return { entity, time, stage };
+}
+
+/** A date's month as a running integer (year × 12 + month), so month gaps are a subtraction. */
+function sqlMonthIndex(col: string, dialect: PlannerDialect): string {
+  const c = q(col);
+  if (dialect === 'postgres') return `(EXTRACT(YEAR FROM (${c})::timestamp) * 12 + EXTRACT(MONTH FROM (${c})::timestamp))::int`;
+  if (dialect === 'mysql') return `(YEAR(${c}) * 12 + MONTH(${c}))`;
+  if (dialect === 'duckdb') return `(year(TRY_CAST(${c} AS TIMESTAMP)) * 12 + month(TRY_CAST(${c} AS TIMESTAMP)))`;
+  return `(CAST(strftime('%Y', ${c}) AS INTEGER) * 12 + CAST(strftime('%m', ${c}) AS INTEGER))`;
+}
+
+// Cohort retention: each entity's cohort is the month it was first seen; a cohort's
+// retention at month N is the share of its entities active N months later. One row per
+// (cohort, months_since) — the heatmap's two axes — with the % guarded as real division.
+const cohortRetention: AnalysisRule = (columns, table, dialect) => {
+  const log = eventLog(columns, dialect);
+  if (!log) return null;
+  const { entity, time } = log;
+  const e = q(entity.name);
+  const monthIdx = sqlMonthIndex(time.name, dialect);
+  const sql =
+    `WITH activity AS (SELECT DISTINCT ${e} AS entity, ${sqlTimeBucket(time.name, 'month', dialect)} AS month, ${monthIdx} AS m ` +
+    `FROM ${q(table)} WHERE ${e} IS NOT NULL AND ${monthIdx} IS NOT NULL), ` +
+    `cohorts AS (SELECT entity, MIN(month) AS cohort, MIN(m) AS cohort_m FROM activity GROUP BY entity), ` +
+    `sizes AS (SELECT cohort_m, COUNT(*) AS cohort_size FROM cohorts GROUP BY cohort_m) ` +
+    `SELECT c.cohort, a.m - c.cohort_m AS months_since, COUNT(*) AS active, ` +
+    `ROUND(100.0 * COUNT(*) / MAX(s.cohort_size), 1) AS retention_pct ` +
+    `FROM activity a JOIN cohorts c ON c.entity = a.entity JOIN sizes s ON s.cohort_m = c.cohort_m ` +
+    `GROUP BY 1, 2 ORDER BY 1 ASC, 2 ASC`;
+  return makeStep(
+    'retention',
+    `${capitalize(entity.name)} Cohort Retention`,
+    `Of the ${capitalize(entity.name)} values first seen each month, what share are still active in the months after?`,
+    `Show monthly cohort retention of ${entity.name} by months since first ${time.name}`,
+    `Repeating id "${entity.name}" with event time "${time.name}" forms an event log: cohort by first-seen month, retention by months since.`,
+    sql,
+    table,
+    ['heatmap'],
+    { time: time.name },
   );
 };
 
+// Funnel: how many distinct entities ever reach each stage, widest first (ties broken by
+// which stage is reached earlier), with each stage's share of all entities.
+const funnel: AnalysisRule = (columns, table, dialect) => {
+  const log = eventLog(columns, dialect);
+  if (!log) return null;
+  const { entity, time, stage } = log;
+  const e = q(entity.name);
+  const st = q(stage.name);
+  const sql =
+    `WITH firsts AS (SELECT ${st} AS stage, ${e} AS entity, MIN(${q(time.name)}) AS first_at FROM ${q(table)} ` +
+    `WHERE ${st} IS NOT NULL AND ${e} IS NOT NULL GROUP BY 1, 2) ` +
+    `SELECT stage AS ${q(stage.name)}, COUNT(*) AS ${q(`${entity.name}_count`)}, ` +
+    `ROUND(100.0 * COUNT(*) / NULLIF((SELECT COUNT(DISTINCT ${e}) FROM ${q(table)}), 0), 1) AS pct_of_total ` +
+    `FROM firsts GROUP BY stage ORDER BY 2 DESC, MIN(first_at) ASC`;
+  return makeStep(
+    'funnel',
+    `${capitalize(stage.name)} Funnel`,
+    `How many ${capitalize(entity.name)} values reach each ${capitalize(stage.name)}, and where do they drop off?`,
+    `Show distinct ${entity.name} reaching each ${stage.name}, widest stage first`,
+    `Stage column "${stage.name}" (${stage.uniqueCount} values) in an event log of "${entity.name}" supports a conversion funnel.`,
+    sql,
+    table,
+    ['funnel', 'bar'],
+    { time: time.name, dimension: stage.name },
+  );
+};
+
+// --- Data-context metrics ---------------------------------------------------
+
+/** Metrics past this many are left to the caller — each adds up to two steps. */
+const MAX_CONTEXT_METRICS = 3;
+
+/**
+ * Steps for the metrics a table's data context defines, computed with their own SQL in
+ * place of a column's SUM: each over time (with a time column) and across the first
+ * dimension. `metrics` must already be single aggregate expressions (isMetricExpression);
+ * a pipeline source can't run SQL expressions, so it gets none.
+ */
+export function generateMetricCandidates(metrics: DataContextMetric[], columns: ClassifiedColumn[], table: string, dialect: PlannerDialect = 'sqlite'): AnalysisStep[] {
+  if (dialect === 'mongodb') return [];
+  const timeCol = first(columns, 'time');
+  const tb = timeCol ? timeBucketing(timeCol, dialect) : null;
+  const dimCol = first(columns, 'dimension');
+  return metrics.slice(0, MAX_CONTEXT_METRICS).flatMap((metric) => {
+    const steps: AnalysisStep[] = [];
+    const defined = `Metric "${metric.name}" is defined in the data context: ${metric.definition}`;
+    if (timeCol && tb) {
+      steps.push(makeStep(
+        'trend',
+        `${metric.name} Over Time`,
+        `How does ${metric.name} change over time?`,
+        `Show ${metric.name} trend over ${timeCol.name}`,
+        `${defined} — tracked per ${tb.label} of "${timeCol.name}".`,
+        `SELECT ${tb.expr} AS ${q(`${timeCol.name}_${tb.label}`)}, ${metric.sql} AS ${q(metric.name)} FROM ${q(table)} GROUP BY 1 ORDER BY 1 ASC`,
+        table,
+        ['line', 'area'],
+        { time: timeCol.name, bucket: tb.label, measure: metric.name, value: metric.name, metric: metric.name },
+      ));
+    }
+    if (dimCol) {
+      steps.push(makeStep(
+        'comparison',
+        `${metric.name} by ${capitalize(dimCol.name)}`,
+        `How does ${metric.name} compare across ${capitalize(dimCol.name)} values?`,
+        `Compare ${metric.name} across ${dimCol.name}`,
+        `${defined} — compared across "${dimCol.name}" (${dimCol.uniqueCount} unique values).`,
+        `SELECT ${q(dimCol.name)}, ${metric.sql} AS ${q(metric.name)} FROM ${q(table)} GROUP BY ${q(dimCol.name)} ORDER BY 2 DESC`,
+        table,
+        dimCol.uniqueCount > 10 ? ['bar', 'lollipop'] : ['bar', 'lollipop', 'diverging-bar'],
+        { dimension: dimCol.name, metric: metric.name },
+      ));
+    }
+    return steps;
+  });
+}
+
 // --- All Rules --------------------------------------------------------------
 
 const ALL_RULES: AnalysisRule[] = [
@@ -408,13 +805,190 @@ const ALL_RULES: AnalysisRule[] = [
   relationship,
   ranking,
   composition,
+  correlationMatrix,
+  cohortRetention,
+  funnel,
 ];
 
+// --- Join rules (multi-table) -------------------------------------------------
+
+/** Tables and foreign keys a plan may join across — the relevant slice of a DataSchema. */
+export interface JoinSchema {
+  tables: DataTable[];
+  foreignKeys: ForeignKey[];
+}
+
+const MAX_JOIN_HOPS = 2;
+/** Inferred keys below this confidence are too shaky to plan a join on. */
+const MIN_JOIN_CONFIDENCE = 0.7;
+
+/**
+ * Join paths out of `table` along many → one foreign-key edges, up to MAX_JOIN_HOPS, shortest
+ * first and one per lookup table. Following edges only toward the one side means each fact row
+ * meets at most one lookup row — provided the lookup key is unique: a declared key is (the
+ * database enforces it); an inferred one only if its values were, else the edge is marked
+ * `deduplicated` and joined one row per key. Mongo virtual array tables aren't joinable targets.
+ */
+export function joinPaths(table: string, schema: JoinSchema): JoinEdge[][] {
+  const edges = schema.foreignKeys.filter((fk) => fk.fromTable !== fk.toTable && (fk.confidence ?? 1) >= MIN_JOIN_CONFIDENCE);
+  const reached = new Set([table]);
+  const paths: JoinEdge[][] = [];
+  let frontier: JoinEdge[][] = [[]];
+  for (let hop = 0; hop < MAX_JOIN_HOPS && frontier.length > 0; hop++) {
+    const next: JoinEdge[][] = [];
+    for (const path of frontier) {
+      const at = path.length ? path[path.length - 1].toTable : table;
+      for (const fk of edges) {
+        if (fk.fromTable !== at || reached.has(fk.toTable)) continue;
+        const lookup = schema.tables.find((t) => t.name === fk.toTable);
+        if (!lookup || lookup.unwound) continue;
+        reached.add(fk.toTable);
+        const { fromTable, fromColumn, toTable, toColumn } = fk;
+        next.push([...path, { fromTable, fromColumn, toTable, toColumn, deduplicated: fk.evidence ? !fk.evidence.toUnique : false }]);
+      }
+    }
+    paths.push(...next);
+    frontier = next;
+  }
+  return paths;
+}
+
+/** `orders.customer_id → customers.id, customers.segment_id → segments.id` */
+export function formatJoinPath(path: JoinEdge[]): string {
+  return path.map((e) => `${e.fromTable}.${e.fromColumn} → ${e.toTable}.${e.toColumn}`).join(', ');
+}
+
+/**
+ * The SQL FROM clause for a join path: the fact table as `t`, each lookup LEFT JOINed as j1…jN
+ * (unmatched facts still count, under a NULL group). A deduplicated edge joins a one-row-per-key
+ * subquery carrying just the column the next hop (or the step) reads.
+ */
+function sqlJoinFrom(table: string, path: JoinEdge[], lastColumn: string): string {
+  const joins = path.map((e, i) => {
+    const prev = i === 0 ? 't' : `j${i}`;
+    const alias = `j${i + 1}`;
+    const carried = i + 1 < path.length ? path[i + 1].fromColumn : lastColumn;
+    const source = !e.deduplicated
+      ? q(e.toTable)
+      : carried === e.toColumn
+        ? `(SELECT DISTINCT ${q(e.toColumn)} FROM ${q(e.toTable)})`
+        : `(SELECT ${q(e.toColumn)}, MIN(${q(carried)}) AS ${q(carried)} FROM ${q(e.toTable)} GROUP BY ${q(e.toColumn)})`;
+    return `LEFT JOIN ${source} ${alias} ON ${alias}.${q(e.toColumn)} = ${prev}.${q(e.fromColumn)}`;
+  });
+  return `FROM ${q(table)} t ${joins.join(' ')}`;
+}
+
+/** The pipeline counterpart: a $lookup per hop, cut to its first match so a document can't fan out. */
+function pipelineJoinStages(path: JoinEdge[]): object[] {
+  return path.flatMap((e, i) => {
+    const as = `_j${i + 1}`;
+    return [
+      { $lookup: { from: e.toTable, localField: i === 0 ? e.fromColumn : `_j${i}.${e.fromColumn}`, foreignField: e.toColumn, as } },
+      { $set: { [as]: { $first: `$${as}` } } },
+    ];
+  });
+}
+
+/**
+ * Star-schema steps: the fact table's first measure summed by a dimension that lives in a
+ * lookup table reached along foreign keys (revenue by customers.segment from orders) — one
+ * step per reachable lookup, a comparison (or a top-15 ranking for a many-valued dimension),
+ * annotated with the join path it used.
+ */
+export function generateJoinCandidates(
+  columns: ClassifiedColumn[],
+  table: string,
+  schema: JoinSchema,
+  dialect: PlannerDialect = 'sqlite',
+): AnalysisStep[] {
+  const measureCol = first(columns, 'measure');
+  if (!measureCol) return [];
+  const steps: AnalysisStep[] = [];
+  for (const path of joinPaths(table, schema)) {
+    const lookup = schema.tables.find((t) => t.name === path[path.length - 1].toTable)!;
+    const keys = new Set(path.filter((e) => e.toTable === lookup.name).map((e) => e.toColumn));
+    const dimCol = classifyColumns(lookup.columns).find((c) =>
+      (c.role === 'dimension' || c.role === 'hierarchy') && !keys.has(c.name) && !isNullDominant(c) && c.uniqueCount >= 2);
+    if (!dimCol) continue;
+
+    const ranked = dimCol.uniqueCount > 15;
+    const label = `${lookup.name}_${dimCol.name}`;
+    const asName = sumAlias(measureCol.name);
+    const via = formatJoinPath(path);
+    const guard = path.some((e) => e.deduplicated)
+      ? ' The lookup key isn\'t unique, so it is joined one row per key to keep facts from double counting.'
+      : '';
+    const sql = dialect === 'mongodb'
+      ? pipelineQuery(table, [
+        ...pipelineJoinStages(path),
+        ...groupSumPipeline({ [outName(label)]: `$_j${path.length}.${dimCol.name}` }, measureCol.name, outName(asName), 'total', ranked ? 15 : undefined),
+      ])
+      : `SELECT j${path.length}.${q(dimCol.name)} AS ${q(label)}, SUM(t.${q(measureCol.name)}) AS ${q(asName)} ` +
+        `${sqlJoinFrom(table, path, dimCol.name)} GROUP BY 1 ORDER BY 2 DESC${ranked ? ' LIMIT 15' : ''}`;
+
+    steps.push({
+      ...makeStep(
+        ranked ? 'ranking' : 'comparison',
+        `${capitalize(measureCol.name)} by ${capitalize(lookup.name)} ${capitalize(dimCol.name)}`,
+        `How does ${capitalize(measureCol.name)} in ${table} break down by ${lookup.name}.${dimCol.name}?`,
+        `Compare ${measureCol.name} across ${lookup.name}.${dimCol.name}, joined via ${via}`,
+        `Measure "${measureCol.name}" lives in ${table}; dimension "${dimCol.name}" (${dimCol.uniqueCount} values) lives in ${lookup.name}, reached along ${via}.${guard}`,
+        sql,
+        table,
+        ranked ? ['bar', 'lollipop'] : ['bar', 'lollipop', 'donut'],
+        { dimension: `${lookup.name}.${dimCol.name}`, measure: measureCol.name },
+      ),
+      joinPath: path,
+    });
+  }
+  return steps;
+}
+
+// --- Significance follow-ups ---------------------------------------------------
+// A step's aggregated rows are enough to test a trend or a correlation, but a two-group or
+// shares test needs the rows underneath: these build those queries in the step's dialect.
+
+/** A value as a SQL literal: numbers bare, strings quoted (MySQL also escapes backslashes). */
+function sqlLiteral(value: unknown, dialect: PlannerDialect): string {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  let s = String(value).replace(/'/g, "''");
+  if (dialect === 'mysql') s = s.replace(/\\/g, '\\\\');
+  return `'${s}'`;
+}
+
+/** Per-row `measure` values of the given `dimension` groups, as rows {g, v}. */
+export function groupValuesQuery(table: string, dimension: string, measure: string, groups: unknown[], dialect: PlannerDialect = 'sqlite'): string {
+  if (dialect === 'mongodb') {
+    return pipelineQuery(table, [
+      { $match: { [dimension]: { $in: groups }, [measure]: { $type: 'number' } } },
+      { $project: { _id: 0, g: `$${dimension}`, v: `$${measure}` } },
+    ]);
+  }
+  return `SELECT ${q(dimension)} AS g, ${q(measure)} AS v FROM ${q(table)} ` +
+    `WHERE ${q(dimension)} IN (${groups.map((g) => sqlLiteral(g, dialect)).join(', ')}) AND ${q(measure)} IS NOT NULL`;
+}
+
+/** Row counts per `dimension` (and per `dimension2` within it), as rows {g, [h,] n}. */
+export function groupCountsQuery(table: string, dimension: string, dimension2: string | undefined, dialect: PlannerDialect = 'sqlite'): string {
+  if (dialect === 'mongodb') {
+    const keys = { g: `$${dimension}`, ...(dimension2 ? { h: `$${dimension2}` } : {}) };
+    return pipelineQuery(table, [
+      { $match: { [dimension]: { $ne: null }, ...(dimension2 ? { [dimension2]: { $ne: null } } : {}) } },
+      { $group: { _id: keys, n: { $sum: 1 } } },
+      { $project: { _id: 0, ...Object.fromEntries(Object.keys(keys).map((k) => [k, `$_id.${k}`])), n: 1 } },
+    ]);
+  }
+  const cols = [dimension, ...(dimension2 ? [dimension2] : [])];
+  return `SELECT ${q(dimension)} AS g, ${dimension2 ? `${q(dimension2)} AS h, ` : ''}COUNT(*) AS n FROM ${q(table)} ` +
+    `WHERE ${cols.map((c) => `${q(c)} IS NOT NULL`).join(' AND ')} GROUP BY ${cols.map((_, i) => i + 1).join(', ')}`;
+}
+
 // --- Main Export -------------------------------------------------------------
 
-export function generateCandidates(columns: ClassifiedColumn[], table: string, dialect: PlannerDialect = 'sqlite'): AnalysisStep[] {
+export function generateCandidates(columns: ClassifiedColumn[], table: string, dialect: PlannerDialect = 'sqlite', target?: string): AnalysisStep[] {
   return ALL_RULES.flatMap(rule => {
-    const result = rule(columns, table, dialect);
+    const result = rule(columns, table, dialect, target);
     return result ? [result] : [];
   });
 }
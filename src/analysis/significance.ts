@@ -0,0 +1,327 @@
+/**
+ * Significance tests for executed analysis steps — pure functions over plain number arrays.
+ *
+ * Two-sample location (Welch's t, Mann-Whitney U), categorical shares (chi-square goodness of
+ * fit / independence), monotonic trend (Mann-Kendall, OLS slope) and association (Pearson,
+ * Spearman), each returning its statistic, a two-sided p-value and an effect size with a
+ * conventional magnitude label. Distributions (t, normal, chi-square) come from the regularized
+ * incomplete beta/gamma functions below, so no stats dependency is needed. Large-sample normal
+ * approximations are used for the rank tests; inputs too small to test return null.
+ */
+
+export type EffectMagnitude = 'negligible' | 'small' | 'medium' | 'large';
+
+export interface EffectSize {
+  /** `cohens_d`, `rank_biserial`, `cohens_w`, `cramers_v`, `kendall_tau`, `r_squared`, `pearson_r`, `spearman_rho`. */
+  name: string;
+  value: number;
+  magnitude: EffectMagnitude;
+}
+
+export interface StatTest {
+  /** `welch_t`, `mann_whitney_u`, `chi_square`, `mann_kendall`, `ols_slope`, `pearson`, `spearman`. */
+  test: string;
+  statistic: number;
+  pValue: number;
+  /** Degrees of freedom, where the test has them. */
+  df?: number;
+  /** Observations the test used. */
+  n: number;
+  effect?: EffectSize;
+}
+
+// --- Special functions -----------------------------------------------------------
+
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/** ln Γ(x), Lanczos approximation (x > 0). */
+export function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  x -= 1;
+  let a = 0.99999999999980993;
+  const t = x + 7.5;
+  for (let i = 0; i < LANCZOS.length; i++) a += LANCZOS[i] / (x + i + 1);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+/** Continued fraction for the incomplete beta (modified Lentz). */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const TINY = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d; if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c; if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d; h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d; if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c; if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+}
+
+/** Regularized incomplete beta I_x(a, b). */
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/** Regularized upper incomplete gamma Q(a, x) — series below a + 1, continued fraction above. */
+export function upperIncompleteGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const lead = -x + a * Math.log(x) - logGamma(a);
+  if (x < a + 1) {
+    let sum = 1 / a;
+    let term = sum;
+    for (let n = 1; n <= 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-14) break;
+    }
+    return 1 - sum * Math.exp(lead);
+  }
+  const TINY = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i <= 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b; if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c; if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.exp(lead) * h;
+}
+
+/** Two-sided p-value of a t statistic with `df` degrees of freedom. */
+export function tTestPValue(t: number, df: number): number {
+  if (!Number.isFinite(t)) return 0;
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/** Two-sided p-value of a standard-normal z. */
+export function normalPValue(z: number): number {
+  // erfc(|z| / √2) via its Chebyshev fit (fractional error < 1.2e-7).
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * x);
+  const erfc = t * Math.exp(-x * x - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418
+    + t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587
+    + t * (-0.82215223 + t * 0.17087277)))))))));
+  return Math.min(1, erfc);
+}
+
+/** Upper-tail p-value of a chi-square statistic with `df` degrees of freedom. */
+export function chiSquarePValue(chi2: number, df: number): number {
+  return upperIncompleteGamma(df / 2, chi2 / 2);
+}
+
+// --- Helpers ---------------------------------------------------------------------
+
+const mean = (xs: number[]): number => xs.reduce((s, x) => s + x, 0) / xs.length;
+const variance = (xs: number[], m = mean(xs)): number => xs.reduce((s, x) => s + (x - m) ** 2, 0) / (xs.length - 1);
+
+/** Ranks (1-based), ties sharing their average rank. */
+export function ranks(xs: number[]): number[] {
+  const order = xs.map((x, i) => [x, i] as const).sort((a, b) => a[0] - b[0]);
+  const out = new Array<number>(xs.length);
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+    const avg = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) out[order[k][1]] = avg;
+    i = j + 1;
+  }
+  return out;
+}
+
+/** Sizes of each group of tied values (only groups of 2+). */
+function tieGroups(xs: number[]): number[] {
+  const counts = new Map<number, number>();
+  for (const x of xs) counts.set(x, (counts.get(x) ?? 0) + 1);
+  return [...counts.values()].filter((c) => c > 1);
+}
+
+function magnitude(value: number, [small, medium, large]: [number, number, number]): EffectMagnitude {
+  const v = Math.abs(value);
+  return v >= large ? 'large' : v >= medium ? 'medium' : v >= small ? 'small' : 'negligible';
+}
+
+/** Cohen's conventions: d 0.2 / 0.5 / 0.8; correlations and w / V 0.1 / 0.3 / 0.5. */
+const D_CUTS: [number, number, number] = [0.2, 0.5, 0.8];
+const R_CUTS: [number, number, number] = [0.1, 0.3, 0.5];
+
+// --- Two-sample location ---------------------------------------------------------
+
+/** Welch's unequal-variance t-test of a − b, with Cohen's d (pooled SD). Needs 2+ values a side. */
+export function welchTTest(a: number[], b: number[]): StatTest | null {
+  if (a.length < 2 || b.length < 2) return null;
+  const ma = mean(a), mb = mean(b);
+  const va = variance(a, ma), vb = variance(b, mb);
+  const se2 = va / a.length + vb / b.length;
+  if (se2 === 0) return null;
+  const t = (ma - mb) / Math.sqrt(se2);
+  const df = se2 ** 2 / ((va / a.length) ** 2 / (a.length - 1) + (vb / b.length) ** 2 / (b.length - 1));
+  const pooled = Math.sqrt(((a.length - 1) * va + (b.length - 1) * vb) / (a.length + b.length - 2));
+  const d = pooled > 0 ? (ma - mb) / pooled : 0;
+  return {
+    test: 'welch_t', statistic: t, pValue: tTestPValue(t, df), df, n: a.length + b.length,
+    effect: { name: 'cohens_d', value: d, magnitude: magnitude(d, D_CUTS) },
+  };
+}
+
+/**
+ * Mann-Whitney U (a vs b), normal approximation with tie and continuity corrections, and the
+ * rank-biserial correlation (positive when a tends to be larger).
+ */
+export function mannWhitneyU(a: number[], b: number[]): StatTest | null {
+  const n1 = a.length, n2 = b.length;
+  if (n1 < 2 || n2 < 2) return null;
+  const all = [...a, ...b];
+  const r = ranks(all);
+  const r1 = r.slice(0, n1).reduce((s, x) => s + x, 0);
+  const u1 = r1 - (n1 * (n1 + 1)) / 2;
+  const n = n1 + n2;
+  const tieTerm = tieGroups(all).reduce((s, t) => s + t ** 3 - t, 0);
+  const sigma = Math.sqrt(((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1))));
+  if (sigma === 0) return null;
+  const diff = u1 - (n1 * n2) / 2;
+  const z = (Math.abs(diff) - 0.5) / sigma;
+  const rb = (2 * u1) / (n1 * n2) - 1;
+  return {
+    test: 'mann_whitney_u', statistic: u1, pValue: normalPValue(Math.max(0, z)), n,
+    effect: { name: 'rank_biserial', value: rb, magnitude: magnitude(rb, R_CUTS) },
+  };
+}
+
+// --- Categorical shares ----------------------------------------------------------
+
+/** Chi-square goodness of fit against equal shares, with Cohen's w. */
+export function chiSquareGoodnessOfFit(counts: number[]): StatTest | null {
+  const k = counts.length;
+  const total = counts.reduce((s, c) => s + c, 0);
+  if (k < 2 || total === 0) return null;
+  const expected = total / k;
+  const chi2 = counts.reduce((s, c) => s + (c - expected) ** 2 / expected, 0);
+  const w = Math.sqrt(chi2 / total);
+  return {
+    test: 'chi_square', statistic: chi2, pValue: chiSquarePValue(chi2, k - 1), df: k - 1, n: total,
+    effect: { name: 'cohens_w', value: w, magnitude: magnitude(w, R_CUTS) },
+  };
+}
+
+/** Chi-square test of independence on an r × c table of counts, with Cramér's V. */
+export function chiSquareIndependence(table: number[][]): StatTest | null {
+  const rows = table.filter((row) => row.some((c) => c > 0));
+  const cols = rows[0]?.map((_, j) => j).filter((j) => rows.some((row) => row[j] > 0)) ?? [];
+  if (rows.length < 2 || cols.length < 2) return null;
+  const rowSums = rows.map((row) => cols.reduce((s, j) => s + row[j], 0));
+  const colSums = cols.map((j) => rows.reduce((s, row) => s + row[j], 0));
+  const total = rowSums.reduce((s, x) => s + x, 0);
+  let chi2 = 0;
+  rows.forEach((row, i) => cols.forEach((j, jj) => {
+    const e = (rowSums[i] * colSums[jj]) / total;
+    chi2 += (row[j] - e) ** 2 / e;
+  }));
+  const df = (rows.length - 1) * (cols.length - 1);
+  const v = Math.sqrt(chi2 / (total * (Math.min(rows.length, cols.length) - 1)));
+  return {
+    test: 'chi_square', statistic: chi2, pValue: chiSquarePValue(chi2, df), df, n: total,
+    effect: { name: 'cramers_v', value: v, magnitude: magnitude(v, R_CUTS) },
+  };
+}
+
+// --- Trend -----------------------------------------------------------------------
+
+/** Mann-Kendall monotonic-trend test over an ordered series, with Kendall's tau. Needs 4+ points. */
+export function mannKendall(series: number[]): StatTest | null {
+  const n = series.length;
+  if (n < 4) return null;
+  let s = 0;
+  for (let i = 0; i < n - 1; i++) for (let j = i + 1; j < n; j++) s += Math.sign(series[j] - series[i]);
+  const tieTerm = tieGroups(series).reduce((acc, t) => acc + t * (t - 1) * (2 * t + 5), 0);
+  const varS = (n * (n - 1) * (2 * n + 5) - tieTerm) / 18;
+  if (varS <= 0) return null;
+  const z = s > 0 ? (s - 1) / Math.sqrt(varS) : s < 0 ? (s + 1) / Math.sqrt(varS) : 0;
+  const tau = s / ((n * (n - 1)) / 2);
+  return {
+    test: 'mann_kendall', statistic: s, pValue: normalPValue(z), n,
+    effect: { name: 'kendall_tau', value: tau, magnitude: magnitude(tau, R_CUTS) },
+  };
+}
+
+/** Least-squares slope of the series against its position (0, 1, 2, …): t-test on the slope, with R². */
+export function olsSlope(series: number[]): (StatTest & { slope: number }) | null {
+  const n = series.length;
+  if (n < 3) return null;
+  const xs = series.map((_, i) => i);
+  const mx = mean(xs), my = mean(series);
+  const sxx = xs.reduce((s, x) => s + (x - mx) ** 2, 0);
+  const sxy = xs.reduce((s, x, i) => s + (x - mx) * (series[i] - my), 0);
+  const slope = sxy / sxx;
+  const sse = series.reduce((s, y, i) => s + (y - (my + slope * (i - mx))) ** 2, 0);
+  const sst = series.reduce((s, y) => s + (y - my) ** 2, 0);
+  if (sst === 0) return null;
+  const r2 = 1 - sse / sst;
+  const se = Math.sqrt(sse / (n - 2) / sxx);
+  const t = se > 0 ? slope / se : Infinity * Math.sign(slope);
+  return {
+    test: 'ols_slope', statistic: t, pValue: tTestPValue(t, n - 2), df: n - 2, n, slope,
+    effect: { name: 'r_squared', value: r2, magnitude: magnitude(Math.sqrt(r2), R_CUTS) },
+  };
+}
+
+// --- Association -----------------------------------------------------------------
+
+function correlation(x: number[], y: number[]): number | null {
+  const mx = mean(x), my = mean(y);
+  let sxy = 0, sxx = 0, syy = 0;
+  for (let i = 0; i < x.length; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+    syy += (y[i] - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : null;
+}
+
+function correlationTest(test: string, effectName: string, r: number | null, n: number): StatTest | null {
+  if (r === null) return null;
+  const clamped = Math.max(-1, Math.min(1, r));
+  const t = Math.abs(clamped) === 1 ? Infinity * Math.sign(clamped) : clamped * Math.sqrt((n - 2) / (1 - clamped * clamped));
+  return {
+    test, statistic: clamped, pValue: tTestPValue(t, n - 2), df: n - 2, n,
+    effect: { name: effectName, value: clamped, magnitude: magnitude(clamped, R_CUTS) },
+  };
+}
+
+/** Pearson's r with its t-based p-value. Needs 3+ pairs. */
+export function pearson(x: number[], y: number[]): StatTest | null {
+  if (x.length < 3 || x.length !== y.length) return null;
+  return correlationTest('pearson', 'pearson_r', correlation(x, y), x.length);
+}
+
+/** Spearman's rho (Pearson on ranks) with the same t approximation. Needs 3+ pairs. */
+export function spearman(x: number[], y: number[]): StatTest | null {
+  if (x.length < 3 || x.length !== y.length) return null;
+  return correlationTest('spearman', 'spearman_rho', correlation(ranks(x), ranks(y)), x.length);
+}
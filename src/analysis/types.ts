@@ -11,20 +11,58 @@ export interface ClassifiedColumn {
   topValues?: { value: string; count: number }[];
 }
 
-export type AnalysisCategory = 'trend' | 'comparison' | 'distribution' | 'composition' | 'relationship' | 'ranking';
+export type AnalysisCategory = 'trend' | 'comparison' | 'distribution' | 'composition' | 'relationship' | 'ranking' | 'retention' | 'funnel' | 'correlation';
 
 export interface AnalysisStep {
   title: string;
   question: string;
   intent: string;
+  /** The step's runnable query: SQL, or for a MongoDB source a {"collection","pipeline"} JSON aggregation. */
   sql: string;
   table: string;
   suggestedPatterns: string[];
   rationale: string;
   category: AnalysisCategory;
+  /** Multi-table steps: the foreign-key edges joined from `table` out to the lookup, in order. */
+  joinPath?: JoinEdge[];
+  /** The columns the step reads, by role — what executing it (findings.ts) tests against. */
+  fields?: StepFields;
+}
+
+/** Source columns a step reads, and the result column holding its aggregated figure. */
+export interface StepFields {
+  measure?: string;
+  /** The second measure of a relationship step. */
+  measure2?: string;
+  /** Every measure of a correlation step, its target (`measure`) first. */
+  measures?: string[];
+  dimension?: string;
+  /** The hierarchy level under `dimension` in a hierarchical composition. */
+  dimension2?: string;
+  time?: string;
+  /** The time bucket the step groups by (month, week, …) — the season anomaly detection removes. */
+  bucket?: string;
+  /** Result column with the per-period figure (total_revenue) — set only where the rows form a time series. */
+  value?: string;
+  /** The data-context metric the step computes (its result column is named after it). */
+  metric?: string;
+}
+
+/** One foreign-key edge a step joins along, from the many side (`from`) to the one side. */
+export interface JoinEdge {
+  fromTable: string;
+  fromColumn: string;
+  toTable: string;
+  toColumn: string;
+  /** The lookup key isn't known to be unique, so it is joined one row per key — a fact row can't fan out and count twice. */
+  deduplicated: boolean;
 }
 
 export interface AnalysisPlan {
   summary: string;
   steps: AnalysisStep[];
+  /** Standard-filter conditions from the table's data context, applied to every step's reads of it. */
+  standardFilters?: string[];
+  /** What the data context changed, or couldn't (a metric that isn't an expression, filters on a pipeline source). */
+  notes?: string[];
 }
@@ -1,17 +1,21 @@
 /**
  * `dolex analyze` — auto-generate an analysis plan: 4-6 prioritized steps, each
- * with a ready-to-run SQL query and a suggested chart pattern.
+ * with a ready-to-run query (SQL, or an aggregation pipeline for MongoDB) and a
+ * suggested chart pattern. `--run` executes the steps and prints a tested verdict
+ * under each. The table's data context supplies metrics and standard filters.
  */
 
 import { parseArgs, str, num, bool } from '../args.js';
 import * as o from '../output.js';
-import { openTarget } from '../data-source.js';
+import { openTarget, csvOverrides, redactionFlags } from '../data-source.js';
 import { buildAnalysisPlan } from '../../analysis/planner.js';
-import { plannerDialectForSource, PlannerUnsupportedSourceError } from '../../analysis/rules.js';
+import { plannerDialectForSource, PlannerUnsupportedSourceError, PlannerTargetError, formatJoinPath } from '../../analysis/rules.js';
 import { classifyColumns } from '../../analysis/classify.js';
+import { executePlan, type StepFinding } from '../../analysis/findings.js';
+import { loadSourceDataContext } from '../../analysis/data-context.js';
 import type { DataColumn } from '../../types.js';
 
-const BOOLEANS = ['json', 'help'];
+const BOOLEANS = ['json', 'run', 'help'];
 const ALIASES: Record<string, string> = { h: 'help', table: 'from' };
 
 interface TableInfo {
@@ -55,7 +59,7 @@ export async function analyzeCommand(argv: string[]): Promise<number> {
   }
 
   const explicitTable = str(args, 'from');
-  const opened = await openTarget(target, { table: explicitTable });
+  const opened = await openTarget(target, { table: explicitTable, csv: csvOverrides(args), redaction: redactionFlags(args) });
   try {
     const autoPicked = !explicitTable && opened.tables.length > 1;
     const tableObj = autoPicked
@@ -73,20 +77,35 @@ export async function analyzeCommand(argv: string[]): Promise<number> {
       throw err;
     }
 
-    const plan = buildAnalysisPlan(
-      tableObj.columns,
-      tableObj.name,
-      opened.displayName,
-      num(args, 'max-steps') ?? 6,
-      dialect,
-    );
+    let plan;
+    try {
+      plan = buildAnalysisPlan(
+        tableObj.columns,
+        tableObj.name,
+        opened.displayName,
+        num(args, 'max-steps') ?? 6,
+        dialect,
+        opened.schema,
+        str(args, 'target'),
+        loadSourceDataContext(opened.schema.source, tableObj.name, opened.manager.stateDir),
+      );
+    } catch (err) {
+      if (err instanceof PlannerTargetError) {
+        o.fail(err.message);
+        return 1;
+      }
+      throw err;
+    }
 
     // No steps = nothing to analyze (only ids/text/empty columns). Fail loud
     // rather than print a success-looking empty plan.
     const noSteps = plan.steps.length === 0;
+    const findings: StepFinding[] | undefined = bool(args, 'run')
+      ? await executePlan(plan, (sql, options) => opened.query(sql, undefined, options), dialect)
+      : undefined;
 
     if (bool(args, 'json')) {
-      o.out(JSON.stringify({ ...plan, table: tableObj.name }, null, 2));
+      o.out(JSON.stringify({ ...plan, table: tableObj.name, ...(findings ? { findings } : {}) }, null, 2));
       return noSteps ? 1 : 0;
     }
 
@@ -96,6 +115,7 @@ export async function analyzeCommand(argv: string[]): Promise<number> {
       const others = opened.tables.filter((t) => t.name !== tableObj.name).map((t) => t.name);
       o.hint(`(richest of ${opened.tables.length} tables — others: ${others.join(', ')}. Use --from <table> to pick another.)`);
     }
+    for (const note of plan.notes ?? []) o.hint(note);
 
     if (noSteps) {
       o.fail(`No analyzable columns in "${tableObj.name}" — only identifiers/text/empty columns, nothing to plan.`);
@@ -113,7 +133,13 @@ export async function analyzeCommand(argv: string[]): Promise<number> {
       o.bullet(step.question);
       if (step.rationale) o.out(`     ${o.c.dim(step.rationale)}`);
       o.kv('chart', step.suggestedPatterns.join(', '));
+      if (step.joinPath) o.kv('joins', formatJoinPath(step.joinPath) + (step.joinPath.some((e) => e.deduplicated) ? '  (one row per key)' : ''));
       o.out(`     ${o.c.cyan(step.sql)}`);
+      const finding = findings?.[i];
+      if (finding) {
+        const mark = !finding.ok ? o.c.red('✗') : finding.significant === undefined ? o.c.gray('·') : finding.significant ? o.c.green('●') : o.c.yellow('○');
+        o.out(`     ${mark} ${finding.verdict}`);
+      }
     });
 
     o.out('');
@@ -133,5 +159,14 @@ ${o.c.bold('USAGE')}
 ${o.c.bold('OPTIONS')}
   --max-steps <n>   Maximum steps to plan (1-10, default 6)
   --from <table>    Pick a table when the source has several
-  --json            Emit the full plan as JSON`);
+  --target <col>    Measure to rank key drivers of (default: the first measure)
+  --delimiter <c>   CSV field separator: , ; | or tab (default: sniffed)
+  --encoding <e>    CSV text encoding, e.g. latin1 (default: sniffed)
+  --skip-rows <n>   Lines above the CSV header row (default: sniffed)
+  --redact <mode>   Personal data in a CSV: mask (default), hash, drop or off
+  --run             Run each step and print a significance-tested verdict under it
+  --json            Emit the full plan as JSON (with --run, its findings too)
+
+A table's data context (see \`dolex context\`) adds steps for its metrics, and its
+standard filters are applied to every step's SQL.`);
 }
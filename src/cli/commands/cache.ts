@@ -0,0 +1,108 @@
+/**
+ * `dolex cache` — inspect and prune the load cache (`~/.dolex/cache/`), where file sources
+ * keep their loaded SQLite database between runs when `DOLEX_CACHE=1` is set.
+ */
+
+import { join } from 'path';
+import { parseArgs, bool } from '../args.js';
+import * as o from '../output.js';
+import { dolexHome } from '../paths.js';
+import { listCacheEntries, loadCacheDir, pruneCache } from '../../connectors/load-cache.js';
+
+export async function cacheCommand(argv: string[]): Promise<number> {
+  const args = parseArgs(argv, { booleans: ['json', 'help', 'all'], aliases: { h: 'help' } });
+  if (bool(args, 'help')) {
+    printHelp();
+    return 0;
+  }
+
+  // The directory is fixed; the env var only decides whether loads use it.
+  const dir = join(dolexHome(), 'cache');
+  const enabled = loadCacheDir(dolexHome()) !== undefined;
+  const sub = args._[0] ?? 'list';
+
+  switch (sub) {
+    case 'list': {
+      const entries = listCacheEntries(dir);
+      if (bool(args, 'json')) {
+        o.out(JSON.stringify({
+          enabled,
+          dir,
+          entries: entries.map((e) => ({
+            path: e.meta.config.path,
+            type: e.meta.config.type,
+            status: e.status,
+            bytes: e.bytes,
+            tables: e.meta.tables.map((t) => ({ name: t.name, rowCount: t.rowCount })),
+            createdAt: e.meta.createdAt,
+          })),
+        }, null, 2));
+        return 0;
+      }
+      o.out(`${o.c.bold('load cache')}  ${dir}  ${enabled ? o.c.green('enabled') : o.c.dim('disabled — set DOLEX_CACHE=1 to enable')}`);
+      if (entries.length === 0) {
+        o.hint('Nothing cached.');
+        return 0;
+      }
+      o.out(o.table(['source', 'type', 'tables', 'rows', 'size', 'cached', 'status'], entries.map((e) => ({
+        source: e.meta.config.path,
+        type: e.meta.config.type,
+        tables: e.meta.tables.length,
+        rows: e.meta.tables.reduce((sum, t) => sum + t.rowCount, 0).toLocaleString(),
+        size: formatBytes(e.bytes),
+        cached: e.meta.createdAt.slice(0, 16).replace('T', ' '),
+        status: e.status === 'fresh' ? e.status : o.c.yellow(e.status),
+      }))));
+      const total = entries.reduce((sum, e) => sum + e.bytes, 0);
+      const reclaimable = entries.filter((e) => e.status !== 'fresh').length;
+      o.out(o.c.dim(`${entries.length} cached source${entries.length === 1 ? '' : 's'}, ${formatBytes(total)}`));
+      if (reclaimable > 0) o.hint(`${reclaimable} stale — reclaim with:  dolex cache prune`);
+      return 0;
+    }
+
+    case 'prune':
+    case 'clear': {
+      const all = sub === 'clear' || bool(args, 'all');
+      const { removed, bytes } = pruneCache(dir, { all });
+      if (bool(args, 'json')) {
+        o.out(JSON.stringify({ removed, bytes }, null, 2));
+        return 0;
+      }
+      o.success(`Removed ${removed} cache entr${removed === 1 ? 'y' : 'ies'} (${formatBytes(bytes)})`);
+      return 0;
+    }
+
+    default:
+      o.fail(`Unknown subcommand: ${sub}`);
+      printHelp();
+      return 1;
+  }
+}
+
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let v = n / 1024;
+  let i = 0;
+  while (v >= 1024 && i < units.length - 1) {
+    v /= 1024;
+    i++;
+  }
+  return `${v.toFixed(v < 10 ? 1 : 0)} ${units[i]}`;
+}
+
+function printHelp(): void {
+  o.out(`${o.c.bold('dolex cache')} — inspect and prune the load cache
+
+${o.c.bold('USAGE')}
+  dolex cache [list]        Cached file sources: size, row counts, fresh / stale / missing
+  dolex cache prune         Remove entries whose source changed or is gone
+  dolex cache prune --all   Remove everything (same as \`dolex cache clear\`)
+
+${o.c.bold('OPTIONS')}
+  --json   Machine-readable output
+
+${o.c.dim('Opt in with DOLEX_CACHE=1: file sources (CSV, Parquet, JSON, Excel) then keep their loaded')}
+${o.c.dim('database in ~/.dolex/cache/ and later runs skip re-parsing. An entry is reused only while the')}
+${o.c.dim('files, their .dolex.json and .cleanfix.json sidecars, and the CSV overrides are unchanged.')}`);
+}
@@ -1,18 +1,49 @@
 /**
  * `dolex check` — audit a dataset for bad data and analysis footguns before you
  * trust it. Read-only. Surfaces type traps, missing-value sentinels, dead/leaked
- * columns, duplicate rows, outliers, and quoting footguns, ranked by severity.
+ * columns, duplicate rows, outliers, quoting footguns, personal data, and — across
+ * tables — orphaned keys and join fan-out, ranked by severity.
  *
  * Exits non-zero when HIGH-severity issues are found, so scripts/agents can gate.
+ * `--baseline` snapshots the profile and findings to a sidecar; once one exists, every
+ * check reports drift against it instead (schema changes, row counts, null rates,
+ * distribution shift, new findings) and exits non-zero on that. For CI: `--format
+ * sarif|junit|md`, `--fail-on` to move the threshold, and a check config file whose
+ * suppressions accept findings per column and whose rules add the dataset's own
+ * constraints and assertions to the audit.
  */
 
+import { existsSync } from 'fs';
 import { parseArgs, str, bool } from '../args.js';
 import * as o from '../output.js';
-import { openTarget } from '../data-source.js';
+import { openTarget, csvOverrides, redactionFlags } from '../data-source.js';
 import { auditDataset, type QualityFinding } from '../../analysis/quality.js';
+import {
+  auditSidecarPath,
+  baselinePath,
+  compareToBaseline,
+  readBaseline,
+  snapshotBaseline,
+  writeBaseline,
+  type DriftReport,
+} from '../../analysis/baseline.js';
+import {
+  FAIL_ON_LEVELS,
+  applySuppressions,
+  defaultFailOn,
+  failingFindings,
+  readAuditConfig,
+  sarifArtifactUri,
+  toJUnit,
+  toMarkdown,
+  toSarif,
+  type AuditReport,
+  type FailOn,
+} from '../../analysis/audit-report.js';
 
-const BOOLEANS = ['json', 'help'];
-const ALIASES: Record<string, string> = { h: 'help', table: 'from' };
+const BOOLEANS = ['json', 'baseline', 'help'];
+const ALIASES: Record<string, string> = { h: 'help', f: 'format', table: 'from' };
+const FORMATS = ['table', 'json', 'sarif', 'junit', 'md'];
 
 export async function checkCommand(argv: string[]): Promise<number> {
   const args = parseArgs(argv, { booleans: BOOLEANS, aliases: ALIASES });
@@ -27,22 +58,111 @@ export async function checkCommand(argv: string[]): Promise<number> {
     return 1;
   }
 
+  const format = (bool(args, 'json') ? 'json' : str(args, 'format')) ?? 'table';
+  if (!FORMATS.includes(format)) {
+    o.fail(`Unknown format "${format}". Use one of: ${FORMATS.join(', ')}.`);
+    return 1;
+  }
+  const failOnFlag = str(args, 'fail-on') as FailOn | undefined;
+  if (failOnFlag !== undefined && !FAIL_ON_LEVELS.includes(failOnFlag)) {
+    o.fail(`--fail-on takes one of: ${FAIL_ON_LEVELS.join(', ')}.`);
+    return 1;
+  }
+  const configFlag = str(args, 'config');
+  if (configFlag && !existsSync(configFlag)) {
+    o.fail(`Check config not found: ${configFlag}`);
+    return 1;
+  }
+
   const explicitTable = str(args, 'from');
-  const opened = await openTarget(target, { table: explicitTable });
+  const opened = await openTarget(target, { table: explicitTable, csv: csvOverrides(args), redaction: redactionFlags(args) });
   try {
     const tablesToCheck = explicitTable
       ? opened.tables.filter((t) => t.name === opened.defaultTable)
       : opened.tables;
 
-    const findings: QualityFinding[] = await auditDataset(tablesToCheck, (sql) => opened.query(sql));
+    const configFile = configFlag ?? auditSidecarPath(opened.schema.source, 'check', opened.manager.stateDir);
+    const { config, errors } = configFile ? readAuditConfig(configFile) : { config: null, errors: [] };
+    if (errors.length > 0) {
+      for (const e of errors) o.fail(e);
+      return 1;
+    }
 
-    if (bool(args, 'json')) {
-      const counts = countBySeverity(findings);
-      o.out(JSON.stringify({ tables: tablesToCheck.map((t) => t.name), counts, findings }, null, 2));
-      return findings.some((f) => f.severity === 'high') ? 1 : 0;
+    // Unredacted: the PII scan, the referential checks and the rules read the real values. What the
+    // findings quote — profile values, rule examples — auditDataset redacts under the source's policy.
+    const query = (sql: string) => opened.manager.querySql(opened.sourceId, sql, undefined, { redact: false });
+    const raw = (await opened.manager.getSchema(opened.sourceId, { redact: false })).schema;
+    const audited = tablesToCheck.map((t) => raw?.tables.find((r) => r.name === t.name) ?? t);
+    const all: QualityFinding[] = await auditDataset(audited, query, opened.schema.foreignKeys, {
+      rules: config?.rules,
+      redaction: opened.manager.redactionPolicy(opened.sourceId),
+    });
+
+    const writing = bool(args, 'baseline');
+    const baselineFile = str(args, 'baseline-file') ?? baselinePath(opened.schema.source, opened.manager.stateDir);
+    const previous = baselineFile ? readBaseline(baselineFile) : null;
+    if (writing) {
+      if (!baselineFile) {
+        o.fail(`"${opened.displayName}" has no place to keep a baseline. Pass --baseline-file <path>.`);
+        return 1;
+      }
+      writeBaseline(baselineFile, snapshotBaseline(tablesToCheck, all, previous));
     }
 
-    return render(opened.displayName, tablesToCheck.length, findings);
+    // Suppressions apply to drift as well as to the audit's own findings.
+    const rules = config?.suppress ?? [];
+    const { kept: findings, suppressed } = applySuppressions(all, rules);
+    const compared = previous && !writing ? compareToBaseline(previous, tablesToCheck, all, !!explicitTable) : null;
+    const driftSplit = compared ? applySuppressions(compared.drift, rules) : null;
+    const drift: DriftReport | null = compared && driftSplit
+      ? { ...compared, drift: driftSplit.kept, newFindings: compared.newFindings.filter((f) => findings.includes(f)) }
+      : null;
+    const dataPath = (opened.schema.source.config as { path?: unknown }).path;
+    const report: AuditReport = {
+      source: opened.displayName,
+      tables: tablesToCheck.map((t) => t.name),
+      findings,
+      suppressed: [...suppressed, ...(driftSplit?.suppressed ?? [])],
+      drift,
+      failOn: failOnFlag ?? defaultFailOn(drift),
+      ...(typeof dataPath === 'string' ? { artifact: sarifArtifactUri(dataPath) } : {}),
+    };
+    const code = writing || failingFindings(report).length === 0 ? 0 : 1;
+    const written = `Baseline written to ${baselineFile}. Later checks report drift against it.`;
+
+    switch (format) {
+      case 'json': {
+        const baseline = writing
+          ? { baseline: { path: baselineFile, written: true } }
+          : drift ? { baseline: { path: baselineFile, ...drift } } : {};
+        o.out(JSON.stringify({
+          tables: report.tables,
+          counts: countBySeverity(findings),
+          findings,
+          ...(report.suppressed.length ? { suppressed: report.suppressed.map((s) => ({ ...s.finding, suppressedBy: s.rule })) } : {}),
+          ...baseline,
+        }, null, 2));
+        break;
+      }
+      case 'sarif':
+        o.out(JSON.stringify(toSarif(report), null, 2));
+        break;
+      case 'junit':
+        o.out(toJUnit(report));
+        break;
+      case 'md':
+        o.out(toMarkdown(report));
+        break;
+      default:
+        render(report);
+        if (writing) {
+          o.success(written);
+          return 0;
+        }
+        return verdict(report);
+    }
+    if (writing) o.success(written, o.err);
+    return code;
   } finally {
     await opened.close();
   }
@@ -51,17 +171,32 @@ export async function checkCommand(argv: string[]): Promise<number> {
 const ORDER: QualityFinding['severity'][] = ['high', 'medium', 'low'];
 const LABEL: Record<QualityFinding['severity'], string> = { high: 'HIGH', medium: 'MEDIUM', low: 'LOW' };
 
-function render(name: string, tableCount: number, findings: QualityFinding[]): number {
-  o.heading(`Data check — ${name}${tableCount > 1 ? ` (${tableCount} tables)` : ''}`);
+function render(report: AuditReport): void {
+  const { findings, drift } = report;
+  const tableCount = report.tables.length;
+  o.heading(`Data check — ${report.source}${tableCount > 1 ? ` (${tableCount} tables)` : ''}`);
 
+  const muted = report.suppressed.length ? ` · ${report.suppressed.length} suppressed` : '';
   if (findings.length === 0) {
-    o.success('No data-quality issues or footguns found.');
-    return 0;
+    o.success(`No data-quality issues or footguns found.${muted ? o.c.dim(muted) : ''}`);
+  } else {
+    const counts = countBySeverity(findings);
+    o.hint(`${counts.high} high · ${counts.medium} medium · ${counts.low} low${muted}`);
+    printGroups(findings, tableCount, drift ? new Set(drift.newFindings) : undefined);
   }
 
-  const counts = countBySeverity(findings);
-  o.hint(`${counts.high} high · ${counts.medium} medium · ${counts.low} low`);
+  if (!drift) return;
+  o.heading(`Drift since the baseline of ${drift.createdAt.slice(0, 10)}`);
+  if (drift.drift.length === 0) o.success('No schema, volume or distribution changes.');
+  else printGroups(drift.drift, tableCount);
+  const changes = [
+    drift.newFindings.length > 0 ? `${drift.newFindings.length} new finding${drift.newFindings.length === 1 ? '' : 's'} (marked new above)` : '',
+    drift.resolved > 0 ? `${drift.resolved} baseline finding${drift.resolved === 1 ? '' : 's'} resolved` : '',
+  ].filter(Boolean);
+  if (changes.length > 0) o.hint(changes.join(' · '));
+}
 
+function printGroups(findings: QualityFinding[], tableCount: number, fresh?: Set<QualityFinding>): void {
   for (const sev of ORDER) {
     const group = findings.filter((f) => f.severity === sev);
     if (group.length === 0) continue;
@@ -70,18 +205,37 @@ function render(name: string, tableCount: number, findings: QualityFinding[]): n
     for (const f of group) {
       const loc = f.column ? `${o.c.bold(f.column)} ` : '';
       const where = tableCount > 1 ? o.c.gray(`[${f.table}] `) : '';
-      o.out(`  ${color('●')} ${where}${loc}${o.c.gray(`(${f.issue})`)}`);
+      const tag = fresh?.has(f) ? `${o.c.cyan('new')} ` : '';
+      o.out(`  ${color('●')} ${tag}${where}${loc}${o.c.gray(`(${f.issue})`)}`);
       o.out(`      ${f.detail}`);
+      for (const row of f.examples ?? []) o.out(`      ${o.c.dim('e.g. ' + JSON.stringify(row))}`);
       if (f.suggestion) o.out(`      ${o.c.dim('→ ' + f.suggestion)}`);
     }
   }
+}
 
-  o.out('');
-  if (counts.high > 0) {
-    o.fail(`${counts.high} high-severity issue${counts.high === 1 ? '' : 's'} — review before trusting analysis on this data.`);
+/**
+ * Without a baseline, findings at or above --fail-on (default HIGH) fail the check.
+ * Against one, the findings it accepted don't: drift or new findings do (default:
+ * above LOW).
+ */
+function verdict(report: AuditReport): number {
+  const { findings, drift, failOn } = report;
+  if (findings.length > 0 || drift) o.out('');
+  const failing = failingFindings(report);
+  const threshold = failOn === 'none' ? '' : ` at or above ${LABEL[failOn]}`;
+  if (drift) {
+    if (failing.length > 0) o.fail('The data drifted from its baseline — review the changes above, then refresh it with --baseline if they are expected.');
+    else o.hint(`No drift${threshold} since the baseline.`);
+    return failing.length > 0 ? 1 : 0;
+  }
+  if (failing.length > 0) {
+    const noun = failOn === 'high' ? `high-severity issue${failing.length === 1 ? '' : 's'}` : `issue${failing.length === 1 ? '' : 's'}${threshold}`;
+    o.fail(`${failing.length} ${noun} — review before trusting analysis on this data.`);
     return 1;
   }
-  o.hint('No high-severity issues. Review the items above before deep analysis.');
+  const clear = failOn === 'high' ? 'No high-severity issues.' : failOn === 'none' ? 'No failure threshold (--fail-on none).' : `Nothing${threshold}.`;
+  if (findings.length > 0) o.hint(`${clear} Review the items above before deep analysis.`);
   return 0;
 }
 
@@ -98,8 +252,32 @@ function printHelp(): void {
 
 ${o.c.bold('USAGE')}
   dolex check <csv|source> [--from <table>] [--json]
+  dolex check <csv|source> --baseline            Snapshot profile + findings; later checks compare
+  (CSV dialect: --delimiter <c> --encoding <e> --skip-rows <n>; sniffed by default)
+
+${o.c.bold('OPTIONS')}
+  -f, --format <fmt>     table (default) | json | sarif | junit | md
+  --json                 Shorthand for --format json
+  --fail-on <level>      Exit non-zero at: high (default) | medium | low | none
+  --config <file>        Check config with suppressions and rules (default: <name>.check.json beside the data)
+  --baseline             Write (or refresh) the baseline sidecar from this check
+  --baseline-file <path> Keep the baseline somewhere else than beside the data
+
+${o.c.bold('CHECK CONFIG')}
+  {"suppress": [{"table": "orders", "column": "notes", "issue": "pii-*", "reason": "…"}],
+   "rules": [{"table": "orders", "column": "sku", "pattern": "^[A-Z]{3}-\\\\d{4}$", "unique": true},
+             {"table": "orders", "name": "discount-within-price", "assert": "discount <= price"}]}
+  Each suppression accepts the findings it matches (any field may be left out or use *).
+  A rule constrains a column (notNull, unique, min/max, pattern, values) or asserts a
+  condition every row meets (assert) or a SELECT of the rows that break it (query).
 
 ${o.c.dim('Flags type traps (numbers stored as text), missing-value sentinels, all-null/')}
-${o.c.dim('constant/identical columns, duplicate rows, outliers, and quoting footguns.')}
-${o.c.dim('Exits non-zero when HIGH-severity issues are found — gate scripts/agents on it.')}`);
+${o.c.dim('constant/identical columns, duplicate rows, outliers, and quoting footguns;')}
+${o.c.dim('across tables, orphaned foreign keys, non-unique parent keys and join fan-out.')}
+${o.c.dim('A PII scan flags emails, phone numbers, card numbers, IBANs, national IDs and names.')}
+${o.c.dim('Exits non-zero when HIGH-severity issues are found — gate scripts/agents on it.')}
+${o.c.dim('Once a baseline exists, checks report drift against it — added/removed/retyped')}
+${o.c.dim('columns, row-count swings, null-rate jumps, distribution shift (PSI/KS), new')}
+${o.c.dim('categories and new findings — and exit non-zero on drift above LOW instead')}
+${o.c.dim('(--fail-on moves either threshold).')}`);
 }
@@ -47,7 +47,8 @@ export async function cleanCommand(argv: string[]): Promise<number> {
     const srcType = opened.manager.get(opened.sourceId)?.config?.type;
     if (srcType && srcType !== 'csv') {
       const nativeExpr = srcType === 'mongodb' ? 'native aggregation ($set) expression' : 'native SQL expression';
-      o.fail(`dolex clean writes a non-destructive cleaned CSV and works on CSV sources only. On a live ${srcType} source, express the fix as a derived column via \`dolex transform\` using a ${nativeExpr} — non-destructive and server-side.`);
+      const where = srcType === 'excel' ? 'an Excel workbook' : srcType === 'sqlite' ? 'a SQLite database file' : srcType === 'duckdb' ? 'a DuckDB source' : `a live ${srcType} source`;
+      o.fail(`dolex clean writes a non-destructive cleaned CSV and works on CSV sources only. On ${where}, express the fix as a derived column via \`dolex transform\` using a ${nativeExpr} — non-destructive and server-side.`);
       return 1;
     }
     const tableName = opened.defaultTable;
@@ -6,7 +6,7 @@
 
 import { parseArgs, str, bool } from '../args.js';
 import * as o from '../output.js';
-import { openTarget } from '../data-source.js';
+import { openTarget, csvOverrides, redactionFlags } from '../data-source.js';
 import { handleListTransforms } from '../../mcp/tools/list-transforms.js';
 
 const BOOLEANS = ['json', 'help'];
@@ -25,7 +25,7 @@ export async function columnsCommand(argv: string[]): Promise<number> {
     return 1;
   }
 
-  const opened = await openTarget(target, { table: str(args, 'table') });
+  const opened = await openTarget(target, { table: str(args, 'table'), csv: csvOverrides(args), redaction: redactionFlags(args) });
   try {
     const table = opened.defaultTable;
     const list = handleListTransforms({ sourceManager: opened.manager });
@@ -67,5 +67,6 @@ function printHelp(): void {
   o.out(`${o.c.bold('dolex columns')} — list columns by layer (source / derived / working)
 
 ${o.c.bold('USAGE')}
-  dolex columns <csv|source> [--table <name>] [--json]`);
+  dolex columns <csv|source> [--table <name>] [--json]
+  (CSV dialect: --delimiter <c> --encoding <e> --skip-rows <n>; sniffed by default)`);
 }
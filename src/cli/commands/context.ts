@@ -0,0 +1,255 @@
+/**
+ * `dolex context` — read, author and edit a table's data context: the sidecar of terms,
+ * metric definitions, standard filters, column notes and example queries that
+ * `describe` prints, `analyze` plans from, and `query` checks filters against
+ * (the CLI twin of the MCP data_context tool). Every write is validated against the
+ * schema first; a context with errors is never saved.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs, str, bool } from '../args.js';
+import * as o from '../output.js';
+import { openTarget, csvOverrides, redactionFlags, readStdin, type OpenedSource } from '../data-source.js';
+import {
+  DATA_CONTEXT_SCHEMA,
+  DATA_CONTEXT_SECTIONS,
+  buildContextAuthorPrompt,
+  mergeDataContext,
+  readDataContext,
+  renderDataContext,
+  sourceDataContextPath,
+  validateDataContext,
+  writeDataContext,
+  type DataContext,
+  type DataContextSection,
+} from '../../analysis/data-context.js';
+
+const BOOLEANS = ['json', 'force', 'help'];
+const ALIASES: Record<string, string> = { h: 'help', table: 'from' };
+const SUBCOMMANDS = ['show', 'init', 'validate', 'set', 'edit', 'prompt'];
+
+export async function contextCommand(argv: string[]): Promise<number> {
+  const args = parseArgs(argv, { booleans: BOOLEANS, aliases: ALIASES });
+  if (bool(args, 'help')) {
+    printHelp();
+    return 0;
+  }
+
+  const [sub, target] = SUBCOMMANDS.includes(args._[0]) ? [args._[0], args._[1]] : ['show', args._[0]];
+  if (!target) {
+    o.fail(`Usage: dolex context <${SUBCOMMANDS.join('|')}> <csv|source>`);
+    return 1;
+  }
+
+  const opened = await openTarget(target, { table: str(args, 'from'), csv: csvOverrides(args), redaction: redactionFlags(args) });
+  try {
+    const table = opened.tables.find((t) => t.name === opened.defaultTable)!;
+    const contextPath = sourceDataContextPath(opened.schema.source, table.name, opened.manager.stateDir);
+    if (!contextPath) {
+      o.fail(`"${opened.displayName}" has no place to keep a data context.`);
+      return 1;
+    }
+    const saved = readDataContext(contextPath);
+    const shape = { name: table.name, columns: table.columns.map((c) => c.name) };
+
+    switch (sub) {
+      case 'show': {
+        if (bool(args, 'json')) {
+          o.out(JSON.stringify({ table: table.name, path: contextPath, context: saved }, null, 2));
+          return 0;
+        }
+        o.heading(`Data context — ${opened.displayName}${opened.tables.length > 1 ? ` · table: ${table.name}` : ''}`);
+        o.kv('file', contextPath);
+        const rendered = renderDataContext(saved);
+        if (!rendered) {
+          o.hint(`No data context yet. Start one:  dolex context init ${target}${opened.tables.length > 1 ? ` --from ${table.name}` : ''}`);
+          return 0;
+        }
+        o.out(rendered.split('\n').slice(1).join('\n'));
+        return 0;
+      }
+
+      case 'init': {
+        if (saved && !bool(args, 'force')) {
+          o.fail(`${contextPath} already exists. Pass --force to replace it.`);
+          return 1;
+        }
+        const skeleton: DataContext = { dataset: table.name, entities: [], metrics: [], standardFilters: [], columnNotes: [], queryExamples: [] };
+        writeDataContext(contextPath, skeleton);
+        o.success(`Wrote ${contextPath}`);
+        o.hint(`Fill it in by hand, or:  dolex context edit ${target} --metric <name> --definition "…" --sql "…"`);
+        return 0;
+      }
+
+      case 'validate': {
+        const file = str(args, 'file');
+        const candidate = file ? await readJson(file) : saved;
+        if (candidate === undefined) return 1;
+        if (!candidate) {
+          o.fail(`No data context at ${contextPath}. Pass --file <json> to validate one before saving it.`);
+          return 1;
+        }
+        return report(validateDataContext(candidate, shape), bool(args, 'json'), file ?? contextPath);
+      }
+
+      case 'set': {
+        const file = str(args, 'file');
+        if (!file) {
+          o.fail('Usage: dolex context set <csv|source> --file <context.json|->');
+          return 1;
+        }
+        const parsed = await readJson(file);
+        if (parsed === undefined) return 1;
+        const candidate = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? { dataset: table.name, ...parsed } : parsed;
+        return save(contextPath, candidate, shape, bool(args, 'json'));
+      }
+
+      case 'edit': {
+        const edit = parseEdit(args);
+        if (typeof edit === 'string') {
+          o.fail(edit);
+          return 1;
+        }
+        const missing = edit.remove.filter((r) => !((saved?.[r.section] ?? []) as unknown as Record<string, string>[])
+          .some((e) => e[DATA_CONTEXT_SECTIONS[r.section]] === r.key));
+        if (missing.length > 0) {
+          o.fail(`Nothing to remove for ${missing.map((r) => `${r.section} "${r.key}"`).join(', ')}.`);
+          return 1;
+        }
+        return save(contextPath, mergeDataContext(saved ?? { dataset: table.name }, edit.patch, edit.remove), shape, bool(args, 'json'));
+      }
+
+      case 'prompt':
+        o.out(await authorPrompt(opened, table));
+        return 0;
+    }
+    return 1;
+  } finally {
+    await opened.close();
+  }
+}
+
+/** Parse a JSON file (`-` for stdin); undefined (after reporting why) when it can't be read. */
+async function readJson(file: string): Promise<unknown> {
+  try {
+    return JSON.parse(file === '-' ? await readStdin() : readFileSync(resolve(file), 'utf-8'));
+  } catch (e) {
+    o.fail(`Could not read ${file === '-' ? 'stdin' : file}: ${e instanceof Error ? e.message : String(e)}`);
+    return undefined;
+  }
+}
+
+function report(result: { errors: string[]; warnings: string[] }, json: boolean, label: string): number {
+  if (json) {
+    o.out(JSON.stringify(result, null, 2));
+    return result.errors.length > 0 ? 1 : 0;
+  }
+  for (const e of result.errors) o.bullet(`${o.c.red('error')}  ${e}`);
+  for (const w of result.warnings) o.bullet(`${o.c.yellow('warn')}   ${w}`);
+  if (result.errors.length > 0) {
+    o.fail(`${label}: ${result.errors.length} error${result.errors.length === 1 ? '' : 's'}.`);
+    return 1;
+  }
+  o.success(`${label} is valid${result.warnings.length ? ` (${result.warnings.length} warning${result.warnings.length === 1 ? '' : 's'})` : ''}.`);
+  return 0;
+}
+
+/** Validate, then write — or report the errors and leave the file as it was. */
+function save(contextPath: string, candidate: unknown, shape: { name: string; columns: string[] }, json: boolean): number {
+  const result = validateDataContext(candidate, shape);
+  if (result.errors.length > 0) return report(result, json, 'context (not saved)');
+  writeDataContext(contextPath, candidate as DataContext);
+  if (json) {
+    o.out(JSON.stringify({ path: contextPath, context: candidate, warnings: result.warnings }, null, 2));
+    return 0;
+  }
+  for (const w of result.warnings) o.warn(w);
+  o.success(`Saved ${contextPath}`);
+  return 0;
+}
+
+/**
+ * One entry per flag set — `--metric <name> --definition … --sql … [--caveats …]`,
+ * `--filter <description> --sql …`, `--note <column> --text …`, `--term <term> --meaning …`,
+ * `--example <question> --sql …` — and/or `--remove <section>:<key>`.
+ */
+function parseEdit(args: ReturnType<typeof parseArgs>): { patch: Partial<DataContext>; remove: { section: DataContextSection; key: string }[] } | string {
+  const patch: Partial<DataContext> = {};
+  const need = (flag: string, entry: string): string => {
+    const v = str(args, flag);
+    if (v === undefined || v === '') throw new Error(`--${entry} needs --${flag}.`);
+    return v;
+  };
+  try {
+    const metric = str(args, 'metric');
+    if (metric) {
+      const caveats = str(args, 'caveats');
+      patch.metrics = [{ name: metric, definition: need('definition', 'metric'), sql: need('sql', 'metric'), ...(caveats ? { caveats } : {}) }];
+    }
+    const filter = str(args, 'filter');
+    if (filter) patch.standardFilters = [{ description: filter, sql: need('sql', 'filter') }];
+    const note = str(args, 'note');
+    if (note) patch.columnNotes = [{ column: note, note: need('text', 'note') }];
+    const term = str(args, 'term');
+    if (term) patch.entities = [{ term, meaning: need('meaning', 'term') }];
+    const example = str(args, 'example');
+    if (example) patch.queryExamples = [{ question: example, sql: need('sql', 'example') }];
+  } catch (e) {
+    return (e as Error).message;
+  }
+  if (Object.keys(patch).length > 1) {
+    return 'Edit one entry at a time: --metric, --filter, --note, --term or --example.';
+  }
+
+  const remove: { section: DataContextSection; key: string }[] = [];
+  const spec = str(args, 'remove');
+  if (spec) {
+    const at = spec.indexOf(':');
+    const section = spec.slice(0, at) as DataContextSection;
+    if (at < 0 || !(section in DATA_CONTEXT_SECTIONS)) {
+      return `--remove takes <section>:<key>, with section one of ${Object.keys(DATA_CONTEXT_SECTIONS).join(', ')}.`;
+    }
+    remove.push({ section, key: spec.slice(at + 1) });
+  }
+  if (Object.keys(patch).length === 0 && remove.length === 0) {
+    return 'Nothing to edit. Pass --metric, --filter, --note, --term, --example or --remove (see dolex context --help).';
+  }
+  return { patch, remove };
+}
+
+/** The authoring prompt for a model, with the JSON schema it should fill. */
+async function authorPrompt(opened: OpenedSource, table: OpenedSource['tables'][number]): Promise<string> {
+  const sample = await opened.query(`SELECT * FROM "${table.name.replace(/"/g, '""')}" LIMIT 5`);
+  const schemaText = table.columns.map((c) => `${c.name} (${c.type})`).join(', ');
+  const prompt = buildContextAuthorPrompt(table.name, schemaText, JSON.stringify(sample.ok ? sample.rows : [], null, 2), '');
+  return `${prompt}\n\nJSON SCHEMA:\n${JSON.stringify(DATA_CONTEXT_SCHEMA, null, 2)}`;
+}
+
+function printHelp(): void {
+  o.out(`${o.c.bold('dolex context')} — a table's data context: metrics, standard filters, notes
+
+${o.c.bold('USAGE')}
+  dolex context [show] <csv|source>              Print the context and where it lives
+  dolex context init <csv|source> [--force]      Write an empty context to fill in
+  dolex context validate <csv|source> [--file f] Check the saved context (or a file) against the schema
+  dolex context set <csv|source> --file <f|->    Replace the context with a JSON file (or stdin)
+  dolex context edit <csv|source> <entry>        Add or replace one entry, or remove one
+  dolex context prompt <csv|source>              Print an authoring prompt + schema for a model
+
+${o.c.bold('EDIT ENTRIES')}
+  --metric <name> --definition <text> --sql <expr> [--caveats <text>]
+  --filter <description> --sql <condition>
+  --note <column> --text <note>
+  --term <term> --meaning <text>
+  --example <question> --sql <query>
+  --remove <section>:<key>     e.g. metrics:revenue (sections: ${Object.keys(DATA_CONTEXT_SECTIONS).join(', ')})
+
+${o.c.bold('OPTIONS')}
+  --from <table>   Pick a table when the source has several
+  --json           Emit JSON
+
+A CSV's context sits beside it (<name>.context.json); a database source's lives in
+~/.dolex/contexts. \`describe\` prints it, \`analyze\` plans its metrics and applies its
+standard filters, and \`query\` warns when a query leaves a standard filter out.`);
+}
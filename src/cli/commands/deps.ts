@@ -27,8 +27,13 @@ export async function depsCommand(argv: string[]): Promise<number> {
 
   o.heading('Data sources — what can I connect to here');
   o.out(o.table(['source', 'status'], [
-    { source: 'CSV / SQLite', status: cap.sources.csv },
+    { source: 'CSV / JSON', status: cap.sources.csv },
+    { source: 'Parquet', status: cap.sources.parquet },
+    { source: 'Excel (.xlsx)', status: cap.sources.excel },
+    { source: 'SQLite (.sqlite / .db)', status: cap.sources.sqlite },
+    { source: 'DuckDB (.duckdb, large files in place)', status: cap.sources.duckdb },
     { source: 'PostgreSQL', status: cap.sources.postgres },
+    { source: 'MySQL / MariaDB', status: cap.sources.mysql },
     { source: 'MongoDB', status: cap.sources.mongodb },
   ]));
   o.out();
@@ -1,12 +1,14 @@
 /**
  * `dolex describe` — profile a dataset: per-column type/role/stats/top values
- * plus a few sample rows.
+ * plus a few sample rows, and each table's data context when it has one.
  */
 
 import { parseArgs, str, bool } from '../args.js';
 import * as o from '../output.js';
-import { openTarget } from '../data-source.js';
+import { openTarget, csvOverrides, redactionFlags } from '../data-source.js';
 import { classifyColumns } from '../../analysis/classify.js';
+import { loadSourceDataContext, renderDataContext } from '../../analysis/data-context.js';
+import type { CsvDialect, ForeignKeyEvidence } from '../../types.js';
 
 const BOOLEANS = ['json', 'help'];
 const ALIASES: Record<string, string> = { h: 'help' };
@@ -24,15 +26,23 @@ export async function describeCommand(argv: string[]): Promise<number> {
     return 1;
   }
 
-  const opened = await openTarget(target, { table: str(args, 'from') });
+  const opened = await openTarget(target, { table: str(args, 'from'), csv: csvOverrides(args), redaction: redactionFlags(args) });
   try {
+    const contextOf = (table: string) => renderDataContext(loadSourceDataContext(opened.schema.source, table, opened.manager.stateDir));
     if (bool(args, 'json')) {
-      o.out(JSON.stringify(opened.schema, null, 2));
+      const tables = opened.schema.tables.map((t) => {
+        const dataContext = contextOf(t.name);
+        return dataContext ? { ...t, dataContext } : t;
+      });
+      o.out(JSON.stringify({ ...opened.schema, tables }, null, 2));
       return 0;
     }
 
     for (const t of opened.tables) {
       o.heading(`${t.name}  ${o.c.dim(`(${t.rowCount} rows × ${t.columns.length} cols)`)}`);
+      const dialect = opened.schema.tables.find((st) => st.name === t.name)?.dialect;
+      const readAs = dialect ? describeDialect(dialect) : '';
+      if (readAs) o.out(o.c.dim(`  read as ${readAs}`));
 
       const roles = new Map(classifyColumns(t.columns).map((c) => [c.name, c.role]));
       const colRows = t.columns.map((col) => ({
@@ -58,6 +68,24 @@ export async function describeCommand(argv: string[]): Promise<number> {
             .join('\n'),
         );
       }
+
+      const dataContext = contextOf(t.name);
+      if (dataContext) {
+        o.out('');
+        o.out(o.c.dim('  data context'));
+        o.out(dataContext.split('\n').slice(1).map((l) => '  ' + l).join('\n'));
+      }
+    }
+
+    const fks = opened.schema.foreignKeys;
+    if (fks.length > 0) {
+      o.heading(`joins  ${o.c.dim(`(${fks.length})`)}`);
+      o.out(o.table(['from', 'to', 'confidence', 'evidence'], fks.map((fk) => ({
+        from: `${fk.fromTable}.${fk.fromColumn}`,
+        to: `${fk.toTable}.${fk.toColumn}`,
+        confidence: fk.confidence === undefined ? 'declared' : fk.confidence.toFixed(2),
+        evidence: fk.evidence ? describeEvidence(fk.evidence) : '',
+      }))));
     }
     return 0;
   } finally {
@@ -65,6 +93,15 @@ export async function describeCommand(argv: string[]): Promise<number> {
   }
 }
 
+/** "same name · 98% of 120 values found · target unique" */
+function describeEvidence(e: ForeignKeyEvidence): string {
+  const name = e.nameMatch === 'exact' ? 'same name' : e.nameMatch === 'similar' ? 'similar name' : 'values only';
+  const parts = [name, `${Math.round(e.containment * 100)}% of ${e.fromDistinct} values found`];
+  parts.push(e.toUnique ? 'target unique' : 'target not unique');
+  if (e.caseInsensitive) parts.push('ignoring case');
+  return parts.join(' · ');
+}
+
 function summarize(col: { type: string; stats?: { min: number; max: number; mean: number }; topValues?: { value: string; count: number }[] }): string {
   if (col.stats) {
     const { min, max, mean } = col.stats;
@@ -76,6 +113,16 @@ function summarize(col: { type: string; stats?: { min: number; max: number; mean
   return '';
 }
 
+/** The non-default parts of a CSV dialect ("';'-separated · windows-1252 · 2 preamble lines skipped"), or ''. */
+function describeDialect(d: CsvDialect): string {
+  const parts: string[] = [];
+  if (d.delimiter !== ',') parts.push(`${d.delimiter === '\t' ? 'tab' : `'${d.delimiter}'`}-separated`);
+  if (d.quoteChar !== '"') parts.push(`${d.quoteChar}-quoted`);
+  if (d.encoding !== 'utf-8' || d.bom) parts.push(d.bom ? `${d.encoding} (BOM)` : d.encoding);
+  if (d.skipRows > 0) parts.push(`${d.skipRows} preamble line${d.skipRows === 1 ? '' : 's'} skipped`);
+  return parts.join(' · ');
+}
+
 function fmtNum(n: number): string {
   if (!Number.isFinite(n)) return String(n);
   if (Number.isInteger(n)) return String(n);
@@ -90,5 +137,11 @@ ${o.c.bold('USAGE')}
 
 ${o.c.bold('OPTIONS')}
   --from <table>   Pick a table when the source has several
-  --json           Emit the full schema as JSON`);
+  --delimiter <c>  CSV field separator: , ; | or tab (default: sniffed)
+  --encoding <e>   CSV text encoding, e.g. latin1 (default: sniffed)
+  --skip-rows <n>  Lines above the CSV header row (default: sniffed)
+  --redact <mode>  Personal data in a CSV: mask (default), hash, drop or off
+  --json           Emit the full schema as JSON (with each table's data context)
+
+A table's data context (see \`dolex context\`) is printed under its sample rows.`);
 }
@@ -5,7 +5,7 @@
 
 import { parseArgs, str, bool } from '../args.js';
 import * as o from '../output.js';
-import { openTarget } from '../data-source.js';
+import { openTarget, csvOverrides, redactionFlags } from '../data-source.js';
 import { handleDropColumns } from '../../mcp/tools/drop-columns.js';
 
 const BOOLEANS = ['json', 'help'];
@@ -25,7 +25,7 @@ export async function dropCommand(argv: string[]): Promise<number> {
     return 1;
   }
 
-  const opened = await openTarget(target, { table: str(args, 'table') });
+  const opened = await openTarget(target, { table: str(args, 'table'), csv: csvOverrides(args), redaction: redactionFlags(args) });
   try {
     const table = opened.defaultTable;
     const drop = handleDropColumns({ sourceManager: opened.manager });
@@ -66,6 +66,9 @@ ${o.c.bold('USAGE')}
 ${o.c.bold('OPTIONS')}
   --layer <derived|working>   Which layer to drop from (auto-detected if omitted)
   --table <name>              Pick a table when the source has several
+  --delimiter <c>             CSV field separator: , ; | or tab (default: sniffed)
+  --encoding <e>              CSV text encoding, e.g. latin1 (default: sniffed)
+  --skip-rows <n>             Lines above the CSV header row (default: sniffed)
 
 ${o.c.dim('Dropping a derived column that others depend on is rejected — drop dependents first.')}
 ${o.c.dim('Use "*" with --layer to drop every column in that layer.')}`);
@@ -19,12 +19,14 @@ ${o.c.bold('COMMANDS')}
   ${o.c.cyan('analyze')}    <csv|source>     Auto-generate an analysis plan with ready-to-run SQL
   ${o.c.cyan('describe')}   <csv|source>     Profile columns: types, roles, stats, sample rows
   ${o.c.cyan('check')}      <csv|source>     Audit for bad data & footguns (type traps, sentinels, dupes…)
+  ${o.c.cyan('context')}    <csv|source>     Define metrics, standard filters & column notes for a table
   ${o.c.cyan('clean')}      <csv>            Remediate a column with a Python clean() you write (preview/apply)
   ${o.c.cyan('transform')}  <csv|source>     Add a persisted derived column (--create … --expr …)
   ${o.c.cyan('columns')}    <csv|source>     List columns by layer (source / derived / working)
   ${o.c.cyan('drop')}       <csv|source>     Remove derived/working columns
   ${o.c.cyan('patterns')}   [id]             List the 43 chart patterns, or show one
-  ${o.c.cyan('sources')}    <list|add|rm>    Register & manage data sources (CSV / Postgres / MongoDB)
+  ${o.c.cyan('sources')}    <list|add|rm>    Register & manage data sources (CSV / Excel / SQLite / DuckDB / Postgres / MySQL / MongoDB)
+  ${o.c.cyan('cache')}      [list|prune]     Inspect/prune the load cache (opt in with DOLEX_CACHE=1)
   ${o.c.cyan('deps')}                        Report which data sources & optional features are available here
   ${o.c.cyan('mcp')}                         Run the MCP stdio server (Claude Desktop / agents)
   ${o.c.cyan('help')}       [command]        Show help; \`--version\` for version
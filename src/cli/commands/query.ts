@@ -1,13 +1,16 @@
 /**
  * `dolex query` — run read-only SQL against a CSV / source and print rows.
- * Formats: table (default), json, ndjson, csv.
+ * Formats: table (default), json, ndjson, csv. Past the row cap, `--page <n>` prints one
+ * page and `--all` streams every page as ndjson/csv without holding the result in memory.
+ * A query that skips a table's standard filters (see `dolex context`) gets a warning.
  */
 
 import { parseArgs, str, num, bool } from '../args.js';
 import * as o from '../output.js';
-import { openTarget } from '../data-source.js';
+import { openTarget, csvOverrides, redactionFlags, type OpenedSource } from '../data-source.js';
+import { loadSourceDataContext, standardFilterWarning } from '../../analysis/data-context.js';
 
-const BOOLEANS = ['json', 'help'];
+const BOOLEANS = ['json', 'help', 'all'];
 const ALIASES: Record<string, string> = { h: 'help', f: 'format' };
 
 export async function queryCommand(argv: string[]): Promise<number> {
@@ -25,9 +28,30 @@ export async function queryCommand(argv: string[]): Promise<number> {
   }
 
   const format = (bool(args, 'json') ? 'json' : str(args, 'format')) ?? 'table';
-  const opened = await openTarget(target, { table: str(args, 'from') });
+  const all = bool(args, 'all');
+  const page = num(args, 'page');
+  if (all && page !== undefined) {
+    o.fail('Pass --all or --page, not both.');
+    return 1;
+  }
+  if (page !== undefined && (!Number.isInteger(page) || page < 1)) {
+    o.fail('--page must be a whole number ≥ 1.');
+    return 1;
+  }
+  if (all && format !== 'ndjson' && format !== 'csv') {
+    o.fail('--all streams rows as they arrive — use it with --format ndjson or --format csv.');
+    return 1;
+  }
+
+  const opened = await openTarget(target, { table: str(args, 'from'), csv: csvOverrides(args), redaction: redactionFlags(args) });
   try {
-    const res = await opened.query(sql, num(args, 'limit'));
+    const cap = opened.manager.resultCap(opened.sourceId);
+    const pageSize = Math.max(1, Math.min(num(args, 'page-size') ?? cap, cap));
+    if (all) return await streamAll(opened, sql, format, pageSize);
+
+    const res = page !== undefined
+      ? await opened.queryPage(sql, (page - 1) * pageSize, pageSize)
+      : await opened.query(sql, num(args, 'limit'));
     if (!res.ok) {
       o.fail(res.error ?? 'Query failed.');
       return 1;
@@ -35,8 +59,8 @@ export async function queryCommand(argv: string[]): Promise<number> {
     const rows = res.rows ?? [];
     const columns = res.columns ?? (rows.length > 0 ? Object.keys(rows[0]) : []);
 
-    // SQL-safety advisories → stderr, so piped stdout (json/csv) stays clean.
-    for (const w of res.warnings ?? []) o.warn(w);
+    // SQL-safety and standard-filter advisories → stderr, so piped stdout (json/csv) stays clean.
+    for (const w of [...(res.warnings ?? []), ...filterWarnings(opened, sql)]) o.warn(w);
 
     switch (format) {
       case 'json':
@@ -51,9 +75,13 @@ export async function queryCommand(argv: string[]): Promise<number> {
       case 'table':
       default: {
         o.out(o.table(columns, rows));
-        const summary = res.truncated
-          ? `${rows.length} rows ${o.c.yellow('(capped)')}`
-          : `${rows.length} rows`;
+        let summary = `${rows.length} rows`;
+        if (page !== undefined) {
+          summary += ` · page ${page}`;
+          if ('hasMore' in res && res.hasMore) summary += ` ${o.c.yellow(`(more: --page ${page + 1})`)}`;
+        } else if (res.truncated) {
+          summary += ` ${o.c.yellow('(capped — --page 2 for the next rows, --all to stream them)')}`;
+        }
         o.err(o.c.dim(summary));
         break;
       }
@@ -64,6 +92,40 @@ export async function queryCommand(argv: string[]): Promise<number> {
   }
 }
 
+/** A warning per table whose data context has standard filters `sql` reads it without. */
+function filterWarnings(opened: OpenedSource, sql: string): string[] {
+  return opened.schema.tables.flatMap((t) => {
+    const warning = standardFilterWarning(sql, loadSourceDataContext(opened.schema.source, t.name, opened.manager.stateDir), t.name);
+    return warning ? [warning] : [];
+  });
+}
+
+/** Write every page of the result as it arrives: ndjson lines, or CSV with one header. */
+async function streamAll(opened: OpenedSource, sql: string, format: string, pageSize: number): Promise<number> {
+  let columns: string[] | undefined;
+  let count = 0;
+  for await (const page of opened.stream(sql, pageSize)) {
+    if (!page.ok) {
+      o.fail(page.error ?? 'Query failed.');
+      return 1;
+    }
+    const rows = page.rows ?? [];
+    const first = columns === undefined;
+    if (first) {
+      columns = page.columns ?? (rows.length > 0 ? Object.keys(rows[0]) : []);
+      for (const w of [...(page.warnings ?? []), ...filterWarnings(opened, sql)]) o.warn(w);
+    }
+    if (format === 'ndjson') {
+      for (const r of rows) o.out(JSON.stringify(r));
+    } else if (first || rows.length > 0) {
+      o.out(o.toCsv(columns!, rows, first));
+    }
+    count += rows.length;
+  }
+  o.err(o.c.dim(`${count} rows`));
+  return 0;
+}
+
 function printHelp(): void {
   o.out(`${o.c.bold('dolex query')} — run SQL and print rows
 
@@ -74,7 +136,14 @@ ${o.c.bold('OPTIONS')}
   -f, --format <fmt>   table (default) | json | ndjson | csv
   --json               Shorthand for --format json
   --limit <n>          Max rows (default 10000)
+  --page <n>           Print page n of the result (1-based), --page-size rows each
+  --page-size <n>      Rows per page for --page / --all (default and cap: the source's row cap, 10000)
+  --all                Stream every row, page by page — with --format ndjson or csv
   --from <table>       Pick a table when the source has several
+  --delimiter <c>      CSV field separator: , ; | or tab (default: sniffed)
+  --encoding <e>       CSV text encoding, e.g. latin1 (default: sniffed)
+  --skip-rows <n>      Lines above the CSV header row (default: sniffed)
+  --redact <mode>      Personal data in a CSV: mask (default), hash, drop or off
 
 ${o.c.dim('Custom aggregates: MEDIAN, STDDEV, CV, MAD, P1/P5/P10/P25/P75/P90/P95/P99. Read-only (SELECT/WITH) only.')}`);
 }
@@ -1,13 +1,13 @@
 /**
  * `dolex sources` — manage the persistent data-source registry at
- * `~/.dolex/sources.json` (CSV / Postgres / MongoDB; shared with the MCP server's `load_source`).
+ * `~/.dolex/sources.json` (CSV / Excel / SQLite / DuckDB / Postgres / MySQL / MongoDB; shared with the MCP server's `load_source`).
  */
 
 import { resolve } from 'path';
 import { parseArgs, bool, str, num, list } from '../args.js';
 import * as o from '../output.js';
-import { persistentManager } from '../data-source.js';
-import { resolveSourceConfig } from '../../connectors/source-factory.js';
+import { persistentManager, redactionFlags } from '../data-source.js';
+import { resolveRedaction, resolveSourceConfig } from '../../connectors/source-factory.js';
 import type { DataSourceConfig } from '../../types.js';
 
 export async function sourcesCommand(argv: string[]): Promise<number> {
@@ -48,7 +48,7 @@ export async function sourcesCommand(argv: string[]): Promise<number> {
       const pathArg = args._[2];
       if (!name) {
         o.fail('Usage: dolex sources add <name> <path-to-csv-or-dir>');
-        o.hint('Or a database source:  dolex sources add <name> --type postgres|mongodb --uri <conn-string>');
+        o.hint('Or a database source:  dolex sources add <name> --type postgres|mysql|mongodb --uri <conn-string>');
         return 1;
       }
 
@@ -62,6 +62,9 @@ export async function sourcesCommand(argv: string[]): Promise<number> {
           type,
           // Resolve CSV paths to absolute so the registry entry is cwd-independent.
           path: path !== undefined ? resolve(path) : undefined,
+          delimiter: str(args, 'delimiter'),
+          encoding: str(args, 'encoding'),
+          skipRows: num(args, 'skip-rows'),
           uri: str(args, 'uri'),
           host: str(args, 'host'),
           port: num(args, 'port'),
@@ -71,6 +74,11 @@ export async function sourcesCommand(argv: string[]): Promise<number> {
           passwordEnv: str(args, 'password-env'),
           schema: str(args, 'schema'),
           collections: list(args, 'collections'),
+          flattenDepth: num(args, 'flatten-depth'),
+          statementTimeoutMs: num(args, 'statement-timeout'),
+          lockTimeoutMs: num(args, 'lock-timeout'),
+          maxRows: num(args, 'max-rows'),
+          redaction: redactionFlags(args),
         });
       } catch (e) {
         o.fail(e instanceof Error ? e.message : String(e));
@@ -89,7 +97,7 @@ export async function sourcesCommand(argv: string[]): Promise<number> {
         return 1;
       }
       o.success(`Added "${name}" (${res.entry!.id}) [${config.type}]`);
-      if (config.type !== 'csv' && res.verified === false) {
+      if (!isFileSource(config) && res.verified === false) {
         o.warn(`Registered, but couldn't connect yet: ${res.warning}`);
         o.hint(`Fix the DB/credentials, then verify:  dolex sources test ${name}   (or update:  dolex sources update ${name} --host … )`);
       } else {
@@ -125,7 +133,29 @@ export async function sourcesCommand(argv: string[]): Promise<number> {
         const v = str(args, k); if (v !== undefined) patch[k === 'uri' ? 'connectionString' : k === 'password-env' ? 'passwordEnv' : k] = v;
       }
       const p = num(args, 'port'); if (p !== undefined) patch.port = p;
-      if (Object.keys(patch).length === 0) { o.fail('Nothing to update. Pass at least one of --host/--port/--database/--user/--password-env/--uri/--schema.'); return 1; }
+      const limits = { 'statement-timeout': 'statementTimeoutMs', 'lock-timeout': 'lockTimeoutMs', 'max-rows': 'maxRows' } as const;
+      for (const [flag, key] of Object.entries(limits)) {
+        const v = num(args, flag);
+        if (v === undefined) continue;
+        if (!Number.isInteger(v) || v < (key === 'maxRows' ? 1 : 0)) { o.fail(`--${flag} must be a whole number${key === 'maxRows' ? ' ≥ 1' : ' ≥ 0'}.`); return 1; }
+        patch[key] = v;
+      }
+      const redaction = redactionFlags(args);
+      if (redaction) {
+        // Flags passed replace their part of the stored policy; the rest of it stays.
+        const current = manager.get(idOrName)?.config.redaction ?? {};
+        try {
+          patch.redaction = resolveRedaction({
+            mode: redaction.mode ?? current.mode,
+            columns: redaction.columns ?? current.columns,
+            allow: redaction.allow ?? current.allow,
+          });
+        } catch (e) {
+          o.fail(e instanceof Error ? e.message : String(e));
+          return 1;
+        }
+      }
+      if (Object.keys(patch).length === 0) { o.fail('Nothing to update. Pass at least one of --host/--port/--database/--user/--password-env/--uri/--schema/--statement-timeout/--lock-timeout/--max-rows/--redact/--redact-columns/--allow-columns.'); return 1; }
       if (patch.password) o.warn('--password is stored in plaintext. Prefer --password-env <VAR>.');
       const res = await manager.update(idOrName, patch as any, { verify: bool(args, 'verify') });
       if (!res.ok) { o.fail(res.error ?? 'Failed to update source.'); return 1; }
@@ -157,6 +187,10 @@ export async function sourcesCommand(argv: string[]): Promise<number> {
   }
 }
 
+/** File sources (path-based) register regardless of the file's state — there is no DB to be down. */
+const isFileSource = (config: DataSourceConfig): boolean =>
+  config.type === 'csv' || config.type === 'excel' || config.type === 'sqlite' || config.type === 'duckdb';
+
 /** One-line summary of where a source lives, for the `list` table. */
 /** host:port/database for a live DB source (the connection string wins if present). */
 const hostPortDb = (connStr: string | undefined, host: string | undefined, port: number | undefined, database: string | undefined): string =>
@@ -165,8 +199,12 @@ const hostPortDb = (connStr: string | undefined, host: string | undefined, port:
 function describeLocation(config: DataSourceConfig): string {
   switch (config.type) {
     case 'csv':
+    case 'excel':
+    case 'sqlite':
+    case 'duckdb':
       return config.path ?? '';
     case 'postgres':
+    case 'mysql':
       return hostPortDb(config.connectionString, config.host, config.port, config.database);
     case 'mongodb':
       return hostPortDb(config.uri, config.host, config.port, config.database);
@@ -179,20 +217,34 @@ function printHelp(): void {
 ${o.c.bold('USAGE')}
   dolex sources list
   dolex sources add <name> <path-to-csv-or-dir>
+  dolex sources add <name> <workbook.xlsx>             # one table per sheet
+  dolex sources add <name> <app.sqlite>                # SQLite file, opened read-only in place
+  dolex sources add <name> <dir-or-file> --type duckdb # large files queried in place by DuckDB (or a .duckdb file)
   dolex sources add <name> --type postgres --host <h> --database <db> [--user <u> --password-env PGPASSWORD]
+  dolex sources add <name> --type mysql    --host <h> --database <db> [--user <u> --password-env MYSQL_PWD]
   dolex sources add <name> --type mongodb  --host <h> --port <p> --database <db>
   dolex sources test <name|id>                       # is the saved DB reachable? (classified reason)
   dolex sources update <name|id> [--host … --port … --database … --user … --password-env … --uri …]
   dolex sources remove <name|id>
 
 ${o.c.bold('OPTIONS (add / update)')}
-  --type          csv | postgres | mongodb   (default: csv)
-  --uri           connection string (libpq DSN for postgres, URI for mongodb)
+  --type          csv | excel | sqlite | duckdb | postgres | mysql | mongodb   (default: by extension — .xlsx excel, .sqlite/.db sqlite, .duckdb duckdb, else csv)
+  --uri           connection string (libpq DSN for postgres, mysql:// URI for mysql, URI for mongodb)
   --host/--port/--database/--user/--schema     discrete connection fields
   --password-env  name of an env var holding the password (preferred — keeps the secret OUT of the file)
   --password      literal password (stored in plaintext; --password-env is safer)
   --verify        require a successful connection to register (default: register config-first even if the DB is down)
   --collections   mongodb: comma-separated list to restrict introspection
+  --flatten-depth <n>       mongodb: embedded-object levels profiled as dotted columns, arrays as child tables (default 3; 0 = top level only)
+  --statement-timeout <ms>  postgres/mysql/mongodb: cancel a query running longer (default 30000; 0 = none)
+  --lock-timeout <ms>       postgres/mysql: cancel a query waiting longer for a lock (default 5000; 0 = none)
+  --max-rows <n>            postgres/mysql/mongodb: row cap per query result or page (default 10000)
+  --delimiter     csv: field separator (, ; | or tab) — default: sniffed from the file
+  --encoding      csv: text encoding (utf-8, latin1, windows-1252, …) — default: sniffed
+  --skip-rows     csv: lines above the header row (titles, export notes) — default: sniffed
+  --redact <mode>           personal data in samples, results and charts: mask (default), hash, drop or off
+  --redact-columns <a,b>    columns always redacted, whatever their values look like
+  --allow-columns <a,b>     columns never redacted (their values are sent as they are)
 
 ${o.c.dim('Config-first: a source registers even if its DB is momentarily down — run `sources test` once it is up.')}
 ${o.c.dim('Stored in ~/.dolex/sources.json (locked to your user; passwords via --password-env are NOT written). Shared with the MCP server.')}`);
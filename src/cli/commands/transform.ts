@@ -11,7 +11,7 @@
 
 import { parseArgs, str, bool } from '../args.js';
 import * as o from '../output.js';
-import { openTarget } from '../data-source.js';
+import { openTarget, csvOverrides, redactionFlags } from '../data-source.js';
 import { handleTransformData } from '../../mcp/tools/transform-data.js';
 import { handlePromoteColumns } from '../../mcp/tools/promote-columns.js';
 import { resolveManifestPath } from '../../transforms/manifest.js';
@@ -37,7 +37,7 @@ export async function transformCommand(argv: string[]): Promise<number> {
   }
 
   const dryRun = bool(args, 'dry-run');
-  const opened = await openTarget(target, { table: str(args, 'table') });
+  const opened = await openTarget(target, { table: str(args, 'table'), csv: csvOverrides(args), redaction: redactionFlags(args) });
   try {
     const table = opened.defaultTable;
 
@@ -58,10 +58,10 @@ export async function transformCommand(argv: string[]): Promise<number> {
 
     const col = tBody.created?.[0] ?? { column: create, expr, type: 'unknown' };
 
-    // A live source (Postgres/Mongo) derives session-locally — there is no manifest to promote to;
+    // A live source (Postgres/Mongo), a SQLite file or a DuckDB source derives session-locally — there is no manifest to promote to;
     // the derived column exists for the life of the connection, non-destructive to the base data.
     const srcType = opened.manager.get(opened.sourceId)?.config?.type;
-    const persistable = srcType === 'csv';
+    const persistable = srcType === 'csv' || srcType === 'excel';
 
     let manifestPath: string | undefined;
     if (!dryRun && persistable) {
@@ -122,6 +122,9 @@ ${o.c.bold('OPTIONS')}
   --type <t>             Force output type: numeric | categorical | date | boolean
   --partition-by <col>   Compute column-wise stats (zscore, rank, …) within groups
   --table <name>         Pick a table when the source has several
+  --delimiter <c>        CSV field separator: , ; | or tab (default: sniffed)
+  --encoding <e>         CSV text encoding, e.g. latin1 (default: sniffed)
+  --skip-rows <n>        Lines above the CSV header row (default: sniffed)
   --dry-run              Compute and show stats without persisting
   --json                 Emit the raw transform result
 
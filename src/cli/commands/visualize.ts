@@ -8,14 +8,15 @@
 
 import { parseArgs, str, bool, num, list, type ParsedArgs } from '../args.js';
 import * as o from '../output.js';
-import { openTarget, readInlineRows } from '../data-source.js';
+import { openTarget, readInlineRows, csvOverrides, redactionFlags } from '../data-source.js';
 import { persistSpec, purgeOldSpecs } from '../spec-disk.js';
 import { emitChart } from '../emit.js';
 import { handleVisualizeCore } from '../../mcp/tools/visualize.js';
 import { selectPatternsCallback } from '../../patterns/select-callback.js';
 import { specStore } from '../../mcp/spec-store.js';
+import type { RedactionPolicy } from '../../types.js';
 
-const BOOLEANS = ['table', 'open', 'stdout', 'json', 'stdin', 'help'];
+const BOOLEANS = ['table', 'open', 'stdout', 'json', 'stdin', 'anomalies', 'help'];
 const ALIASES: Record<string, string> = { i: 'intent', o: 'out', h: 'help' };
 
 export async function visualizeCommand(argv: string[]): Promise<number> {
@@ -31,12 +32,12 @@ export async function visualizeCommand(argv: string[]): Promise<number> {
   const dataFile = str(args, 'data');
 
   let data: Record<string, any>[];
-  let queryMeta: { truncated?: boolean; totalSourceRows?: number } | undefined;
+  let queryMeta: { truncated?: boolean; totalSourceRows?: number; redaction?: RedactionPolicy } | undefined;
 
   if (usedStdin || dataFile) {
     data = await readInlineRows(dataFile, usedStdin);
   } else if (target) {
-    const opened = await openTarget(target, { table: str(args, 'from') });
+    const opened = await openTarget(target, { table: str(args, 'from'), csv: csvOverrides(args), redaction: redactionFlags(args) });
     try {
       const sql = str(args, 'sql') ?? `SELECT * FROM "${opened.defaultTable}"`;
       const res = await opened.query(sql);
@@ -45,7 +46,7 @@ export async function visualizeCommand(argv: string[]): Promise<number> {
         return 1;
       }
       data = res.rows ?? [];
-      queryMeta = { truncated: res.truncated, totalSourceRows: res.totalRows };
+      queryMeta = { truncated: res.truncated, totalSourceRows: res.totalRows, redaction: opened.manager.redactionPolicy(opened.sourceId) };
       for (const w of res.warnings ?? []) o.warn(w);
     } finally {
       await opened.close();
@@ -73,6 +74,7 @@ export async function visualizeCommand(argv: string[]): Promise<number> {
     maxAlternativeChartTypes: num(args, 'alternatives'),
     geoLevel: str(args, 'geo-level') as 'country' | 'subdivision' | undefined,
     geoRegion: str(args, 'geo-region'),
+    annotateAnomalies: bool(args, 'anomalies') || undefined,
   };
 
   const core = handleVisualizeCore(selectPatternsCallback, 'cli_visualize');
@@ -101,6 +103,10 @@ ${o.c.bold('DATA')}
   --data <file.json>      Read a JSON array of rows from a file
   --sql <query>           Slice/aggregate before charting (SELECT/CTE only)
   --from <table>          Pick a table when the source has several
+  --delimiter <c>         CSV field separator: , ; | or tab (default: sniffed)
+  --encoding <e>          CSV text encoding, e.g. latin1 (default: sniffed)
+  --skip-rows <n>         Lines above the CSV header row (default: sniffed)
+  --redact <mode>         Personal data in a CSV: mask (default), hash, drop or off
 
 ${o.c.bold('CHART')}
   -i, --intent <text>     What you want to see (drives pattern selection)
@@ -111,6 +117,7 @@ ${o.c.bold('CHART')}
   --color-field <col>     Column that drives color
   --no-table              Omit the companion data table
   --alternatives <n>      How many alternative chart types to report (default 2)
+  --anomalies             Line/area: mark detected anomalies and level shifts
   --geo-level, --geo-region   Map overrides
 
 ${o.c.bold('OUTPUT')}
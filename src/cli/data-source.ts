@@ -2,8 +2,11 @@
  * Resolves a CLI "target" to queryable data.
  *
  * A target is either:
- *   1. an existing `.csv` file or a directory of CSVs → loaded into an
- *      ephemeral in-memory SQLite database (not registered anywhere), or
+ *   1. an existing data file (`.csv`, `.parquet`, `.ndjson`/`.jsonl`, `.json`)
+ *      or a directory of them, or an Excel workbook (`.xlsx`, one table per
+ *      sheet) → loaded into an ephemeral in-memory SQLite database (not
+ *      registered anywhere); or a SQLite database file (`.sqlite`, `.db`) →
+ *      opened read-only in place, or
  *   2. the name/id of a source registered via `dolex sources add` → looked up
  *      in the persistent registry at `~/.dolex/sources.json` (shared with the
  *      MCP server).
@@ -14,9 +17,15 @@
 
 import { existsSync, statSync, readFileSync } from 'fs';
 import { resolve, basename, join } from 'path';
-import type { DataColumn, DataSchema } from '../types.js';
-import type { SourceManager, SqlQueryResult } from '../connectors/manager.js';
+import type { DataColumn, DataSchema, RedactionPolicy } from '../types.js';
+import type { SourceManager, SqlQueryResult, SqlQueryPage } from '../connectors/manager.js';
+import type { LoadProgress } from '../connectors/types.js';
+import { fileFormat, DATA_FILE_EXTENSION, EXCEL_FILE_EXTENSION, SQLITE_FILE_EXTENSION, DUCKDB_FILE_EXTENSION, type CsvDialectOverrides } from '../connectors/file-formats.js';
+import { resolveSourceConfig } from '../connectors/source-factory.js';
+import { loadRedactionKey } from '../utils/pii.js';
+import { str, num, list, type ParsedArgs } from './args.js';
 import { dolexHome } from './paths.js';
+import * as o from './output.js';
 
 export { dolexHome };
 
@@ -49,11 +58,21 @@ export interface OpenedSource {
   tables: { name: string; columns: DataColumn[]; rowCount: number }[];
   defaultTable: string;
   /** Run a read-only SQL query (capped + safety-checked by SourceManager). */
-  query: (sql: string, maxRows?: number) => Promise<SqlQueryResult>;
+  query: (sql: string, maxRows?: number, options?: { redact?: boolean }) => Promise<SqlQueryResult>;
+  /** One page of a query's result past the row cap (see SourceManager.queryPage). */
+  queryPage: (sql: string, offset: number, pageSize?: number) => Promise<SqlQueryPage>;
+  /** Every page of a query's result, in order, for streaming exports. */
+  stream: (sql: string, pageSize?: number) => AsyncGenerator<SqlQueryPage>;
   /** Release the underlying connection. */
   close: () => Promise<void>;
 }
 
+/** The load cache directory when `DOLEX_CACHE` opts in, else undefined. */
+async function cacheDir(): Promise<string | undefined> {
+  const { loadCacheDir } = await import('../connectors/load-cache.js');
+  return loadCacheDir(dolexHome());
+}
+
 export function registryPath(): string {
   return join(dolexHome(), 'sources.json');
 }
@@ -63,24 +82,60 @@ export async function persistentManager(): Promise<SourceManager> {
   const { SourceManager } = await loadManagerModule();
   const { mkdirSync } = await import('fs');
   mkdirSync(dolexHome(), { recursive: true });
-  return new SourceManager(registryPath());
+  return new SourceManager(registryPath(), { cacheDir: await cacheDir() });
 }
 
 function looksLikeFileTarget(target: string): boolean {
   if (!existsSync(target)) return false;
   try {
     const st = statSync(target);
-    return st.isDirectory() || target.toLowerCase().endsWith('.csv');
+    return st.isDirectory() || fileFormat(target) !== null || EXCEL_FILE_EXTENSION.test(target) || SQLITE_FILE_EXTENSION.test(target) || DUCKDB_FILE_EXTENSION.test(target);
   } catch {
     return false;
   }
 }
 
+/** Render connector load progress as a transient stderr line. */
+function showLoadProgress(p: LoadProgress): void {
+  const rows = `${p.rows.toLocaleString()} rows`;
+  if (p.phase === 'profile') {
+    o.progress(`Profiling ${p.table} (${rows})…`);
+    return;
+  }
+  const pct = p.totalBytes > 0 ? ` · ${Math.min(100, Math.round((p.bytesRead / p.totalBytes) * 100))}%` : '';
+  o.progress(`Loading ${p.table}: ${rows}${pct}`);
+}
+
+/**
+ * The CSV dialect flags (`--delimiter`, `--encoding`, `--skip-rows`) shared by every
+ * command that opens a target. They apply to a file target; a registered source keeps
+ * the overrides it was added with.
+ */
+export function csvOverrides(args: ParsedArgs): CsvDialectOverrides {
+  return { delimiter: str(args, 'delimiter'), encoding: str(args, 'encoding'), skipRows: num(args, 'skip-rows') };
+}
+
+/**
+ * The redaction flags (`--redact <mask|hash|drop|off>`, `--redact-columns a,b`,
+ * `--allow-columns a,b`), or undefined when none is passed. Like the dialect flags they
+ * apply to a file target; a registered source keeps the policy it was added with.
+ */
+export function redactionFlags(args: ParsedArgs): RedactionPolicy | undefined {
+  const mode = str(args, 'redact');
+  const columns = list(args, 'redact-columns');
+  const allow = list(args, 'allow-columns');
+  if (mode === undefined && !columns && !allow) return undefined;
+  return { mode: mode as RedactionPolicy['mode'], columns, allow };
+}
+
 /**
  * Open a target for querying. Throws an Error with a helpful message when the
  * target cannot be resolved or the chosen table does not exist.
  */
-export async function openTarget(target: string, opts: { table?: string } = {}): Promise<OpenedSource> {
+export async function openTarget(
+  target: string,
+  opts: { table?: string; csv?: CsvDialectOverrides; redaction?: RedactionPolicy } = {},
+): Promise<OpenedSource> {
   const { SourceManager } = await loadManagerModule();
 
   let manager: SourceManager;
@@ -88,12 +143,15 @@ export async function openTarget(target: string, opts: { table?: string } = {}):
   let displayName: string;
 
   if (looksLikeFileTarget(target)) {
-    manager = new SourceManager(); // ephemeral, no persistence
+    manager = new SourceManager(undefined, { cacheDir: await cacheDir() }); // ephemeral, no persistence
+    // No registry, but still the installation's hashing key, so hashed values match across runs.
+    try { loadRedactionKey(dolexHome()); } catch { /* keyed per process */ }
     const abs = resolve(target);
-    displayName = basename(abs).replace(/\.csv$/i, '') || 'data';
-    const added = await manager.add(displayName, { type: 'csv', path: abs });
+    displayName = basename(abs).replace(DATA_FILE_EXTENSION, '').replace(EXCEL_FILE_EXTENSION, '').replace(SQLITE_FILE_EXTENSION, '').replace(DUCKDB_FILE_EXTENSION, '') || 'data';
+    const config = resolveSourceConfig({ path: abs, ...opts.csv, redaction: opts.redaction });
+    const added = await manager.add(displayName, config);
     if (!added.ok || !added.entry) {
-      throw new Error(added.error ?? `Could not load CSV: ${target}`);
+      throw new Error(added.error ?? `Could not load file: ${target}`);
     }
     sourceId = added.entry.id;
   } else {
@@ -104,13 +162,20 @@ export async function openTarget(target: string, opts: { table?: string } = {}):
       const hint =
         available.length > 0
           ? `Registered sources: ${available.join(', ')}.`
-          : 'No sources registered. Use `dolex sources add <name> <path>`, or pass a .csv file path.';
-      throw new Error(`'${target}' is neither an existing .csv path nor a registered source. ${hint}`);
+          : 'No sources registered. Use `dolex sources add <name> <path>`, or pass a data file path (.csv, .parquet, .ndjson/.jsonl, .json, .xlsx, .sqlite/.db, .duckdb).';
+      throw new Error(`'${target}' is neither an existing data file or directory nor a registered source. ${hint}`);
     }
     sourceId = entry.id;
     displayName = entry.name;
   }
 
+  // Connect explicitly (getSchema would connect lazily) so a large file load shows progress.
+  const connected = await manager.connect(sourceId, { onProgress: showLoadProgress });
+  o.progressDone();
+  if (!connected.ok) {
+    throw new Error(connected.error ?? `Failed to connect to ${displayName}`);
+  }
+
   const schemaResult = await manager.getSchema(sourceId);
   if (!schemaResult.ok || !schemaResult.schema) {
     throw new Error(schemaResult.error ?? `Failed to read schema for ${displayName}`);
@@ -140,7 +205,9 @@ export async function openTarget(target: string, opts: { table?: string } = {}):
     schema,
     tables,
     defaultTable,
-    query: (sql: string, maxRows?: number) => manager.querySql(sourceId, sql, maxRows),
+    query: (sql: string, maxRows?: number, options?: { redact?: boolean }) => manager.querySql(sourceId, sql, maxRows, options),
+    queryPage: (sql: string, offset: number, pageSize?: number) => manager.queryPage(sourceId, sql, offset, pageSize),
+    stream: (sql: string, pageSize?: number) => manager.streamSql(sourceId, sql, pageSize),
     close: () => manager.disconnect(sourceId).then(() => undefined),
   };
 }
@@ -177,7 +244,8 @@ export async function readInlineRows(
   return parsed as Record<string, any>[];
 }
 
-function readStdin(): Promise<string> {
+/** Read all of stdin as text. */
+export function readStdin(): Promise<string> {
   return new Promise((resolvePromise, rejectPromise) => {
     let data = '';
     process.stdin.setEncoding('utf-8');
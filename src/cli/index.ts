@@ -78,6 +78,9 @@ async function main(): Promise<void> {
     case 'audit':
       process.exit(await (await import('./commands/check.js')).checkCommand(rest));
 
+    case 'context':
+      process.exit(await (await import('./commands/context.js')).contextCommand(rest));
+
     case 'clean':
       process.exit(await (await import('./commands/clean.js')).cleanCommand(rest));
 
@@ -99,6 +102,9 @@ async function main(): Promise<void> {
     case 'source':
       process.exit(await (await import('./commands/sources.js')).sourcesCommand(rest));
 
+    case 'cache':
+      process.exit(await (await import('./commands/cache.js')).cacheCommand(rest));
+
     case 'deps':
     case 'doctor':
       process.exit(await (await import('./commands/deps.js')).depsCommand(rest));
@@ -68,6 +68,21 @@ export function hint(text: string, sink: (s: string) => void = out): void {
   sink(c.dim(text));
 }
 
+/**
+ * Transient one-line status on stderr, redrawn in place (e.g. rows loaded so
+ * far). Interactive terminals only — piped/captured stderr never sees it.
+ * Clear it with `progressDone()` before printing anything else.
+ */
+export function progress(text: string): void {
+  if (!process.stderr.isTTY) return;
+  process.stderr.write(`\r${ESC}[2K${c.dim(text)}`);
+}
+
+export function progressDone(): void {
+  if (!process.stderr.isTTY) return;
+  process.stderr.write(`\r${ESC}[2K`);
+}
+
 // ─── ASCII TABLE ──────────────────────────────────────────────────────────
 
 const MAX_CELL = 40;
@@ -118,8 +133,9 @@ function csvField(value: unknown): string {
   return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
 }
 
-export function toCsv(columns: string[], rows: Record<string, unknown>[]): string {
-  const lines = [columns.map(csvField).join(',')];
+/** Rows as CSV, with a header line unless `header` is false (a later page of a stream). */
+export function toCsv(columns: string[], rows: Record<string, unknown>[], header = true): string {
+  const lines = header ? [columns.map(csvField).join(',')] : [];
   for (const r of rows) lines.push(columns.map((col) => csvField(r[col])).join(','));
   return lines.join('\n');
 }
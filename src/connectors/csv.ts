@@ -1,10 +1,15 @@
 /**
- * CSV Connector
+ * CSV Connector — the local-file connector
  *
- * Loads CSV files (single file or directory) into an in-memory SQLite database.
- * Uses papaparse for parsing, better-sqlite3 for in-memory SQL queries.
+ * Loads data files (a single file or a directory) into a SQLite database — in
+ * memory, or a temp file for very large inputs. Besides CSV it reads Parquet,
+ * NDJSON/JSONL and JSON arrays (file-formats.ts); a mixed folder loads as one
+ * joinable database. Files are streamed in chunks, so load memory stays flat
+ * regardless of file size. Each CSV's delimiter, encoding and preamble lines are
+ * sniffed from its head (overridable on the source config).
  * Introspects columns with type inference, sample values, unique/null counts.
- * Detects foreign keys by matching column names across tables.
+ * Infers foreign keys between tables from column names and value containment
+ * (fk-inference.ts).
  */
 
 import Database from 'better-sqlite3';
@@ -16,18 +21,107 @@ import type {
   DataSourceType,
   DataSourceConfig,
   CsvSourceConfig,
+  ExcelSourceConfig,
+  CsvDialect,
   DataSchema,
   DataTable,
   DataColumn,
   ForeignKey,
 } from '../types.js';
-import type { DataConnector, ConnectedSource, QueryExecutionResult, DerivationCapabilities } from './types.js';
+import type {
+  DataConnector,
+  ConnectedSource,
+  ConnectOptions,
+  LoadProgress,
+  QueryExecutionResult,
+  DerivationCapabilities,
+} from './types.js';
+import { inferForeignKeys } from './fk-inference.js';
 import { resolveManifestPath, readManifest, replayManifest } from '../transforms/manifest.js';
 import { TransformMetadata } from '../transforms/metadata.js';
-import { applyManifest as applyCleanfix, readCleanfixManifest } from '../cleaning/replay.js';
+import {
+  applyManifest as applyCleanfix,
+  applyFixesToRows,
+  readCleanfixManifest,
+  type CleanManifest,
+} from '../cleaning/replay.js';
+import {
+  fileFormat,
+  readRows,
+  DATA_FILE_EXTENSION,
+  SUPPORTED_FILE_TYPES,
+  sniffCsv,
+  DEFAULT_CSV_DIALECT,
+  type FileFormat,
+  type RowSink,
+} from './file-formats.js';
+import { readCachedLoad, writeCachedLoad } from './load-cache.js';
 
 const SAMPLE_LIMIT = 30;
 const SAMPLE_DISPLAY_LIMIT = 20;
+/** Non-empty values kept per column for type inference while streaming. */
+const RESERVOIR_SIZE = 2000;
+const RESERVOIR_SEED = 0x5eed;
+/** Distinct non-numeric tokens tallied per column (sentinel detection). */
+const MAX_TRACKED_TOKENS = 1000;
+/** Parse warnings surfaced per file. */
+const MAX_PARSE_WARNINGS = 20;
+/** Columns per exact COUNT(DISTINCT) query in the post-load correction pass. */
+const DISTINCT_BATCH = 200;
+/** Minimum gap between progress callbacks. */
+const PROGRESS_INTERVAL_MS = 500;
+/** Total input size above which the database lives in a temp file, not `:memory:`. */
+const SPILL_THRESHOLD_BYTES = 512 * 1024 * 1024;
+/** Schema name of the on-disk staging database attached during a load. */
+const STAGE_SCHEMA = 'dolex_stage';
+
+const FORMAT_LABELS: Record<FileFormat, string> = {
+  csv: 'CSV',
+  ndjson: 'NDJSON file',
+  json: 'JSON file',
+  parquet: 'Parquet file',
+};
+
+/** One file of a file source, and the table it loads into. */
+interface DataFile {
+  filePath: string;
+  tableName: string;
+  format: FileFormat;
+  /** CSV files: how to parse them (see sniffCsv). */
+  dialect?: CsvDialect;
+}
+
+/**
+ * One table for {@link loadTables}: where its rows come from, and how to name it in
+ * warnings. File connectors other than CSV (Excel) build these to share the
+ * staging/typing/profiling pipeline.
+ */
+export interface TableInput {
+  tableName: string;
+  /** Where the rows come from, for warnings ("Skipped empty CSV: <label>"). */
+  label: string;
+  /** What the rows come from, for warnings ("CSV", "Parquet file", "sheet"). */
+  kind: string;
+  /** Input size in bytes — progress and the spill decision. */
+  bytes: number;
+  /** Later rows may introduce keys the first row lacked (JSON objects). */
+  growColumns: boolean;
+  /** CSV inputs: the dialect they were read with, reported on the table. */
+  dialect?: CsvDialect;
+  read(sink: RowSink): Promise<void>;
+}
+
+function fileTableInput(file: DataFile): TableInput {
+  return {
+    tableName: file.tableName,
+    label: file.filePath,
+    kind: FORMAT_LABELS[file.format],
+    bytes: fs.statSync(file.filePath).size,
+    growColumns: file.format === 'json' || file.format === 'ndjson',
+    dialect: file.dialect,
+    read: (sink) => readRows(file.filePath, file.format, sink, file.dialect),
+  };
+}
 
 /**
  * Escape embedded double-quotes in a SQL identifier per SQL standard.
@@ -108,9 +202,9 @@ function inferColumnType(
 /**
  * Sanitize a filename into a valid SQL table name.
  */
-function toTableName(filename: string): string {
+export function toTableName(filename: string): string {
   return filename
-    .replace(/\.csv$/i, '')
+    .replace(DATA_FILE_EXTENSION, '')
     .replace(/[^a-zA-Z0-9_]/g, '_');
 }
 
@@ -118,7 +212,7 @@ function toTableName(filename: string): string {
  * Register custom aggregate functions that SQLite lacks natively.
  * Provides: median, stddev, p25, p75, percentile.
  */
-function registerCustomAggregates(db: Database.Database): void {
+export function registerCustomAggregates(db: Database.Database): void {
   const sortedNums = (values: number[]) => values.filter(v => v != null && !isNaN(v)).sort((a, b) => a - b);
 
   // Accumulate ONLY real numeric values. SQLite NULL arrives as JS null and empty
@@ -226,274 +320,508 @@ function registerCustomAggregates(db: Database.Database): void {
 }
 
 /**
- * Load CSV files into an in-memory SQLite database and build schema metadata.
+ * Numeric profile (min/max/mean/median/stddev/p25/p75) computed in SQL, so profiling a
+ * multi-million-row table never pulls the column into JS. Percentiles interpolate
+ * between the two nearest ranks, same as the custom aggregates.
  */
-function loadCsvs(
-  csvPaths: { filePath: string; tableName: string }[]
-): {
-  db: Database.Database;
-  tables: DataTable[];
-  foreignKeys: ForeignKey[];
-  warnings: string[];
-} {
-  const db = new Database(':memory:');
-  registerCustomAggregates(db);
-  const allColumns: { table: string; col: DataColumn }[] = [];
-  const tables: DataTable[] = [];
-  const warnings: string[] = [];
-
-  for (const { filePath, tableName } of csvPaths) {
-    const raw = fs.readFileSync(filePath, 'utf-8');
-    const parsed = Papa.parse(raw, { header: true, skipEmptyLines: true });
-
-    // Report PapaParse errors as warnings
-    if (parsed.errors && parsed.errors.length > 0) {
-      for (const err of parsed.errors) {
-        warnings.push(`CSV parse warning in ${filePath} (row ${err.row}): ${err.message}`);
-      }
-    }
+function numericColumnStats(db: Database.Database, tableName: string, col: string): DataColumn['stats'] {
+  const val = `CAST(${escapeIdentifier(col)} AS REAL)`;
+  const from = `FROM ${escapeIdentifier(tableName)} WHERE ${escapeIdentifier(col)} IS NOT NULL AND ${escapeIdentifier(col)} != ''`;
+  const agg = db.prepare(
+    `SELECT COUNT(*) as n, MIN(${val}) as min_val, MAX(${val}) as max_val, AVG(${val}) as mean_val ${from}`
+  ).get() as any;
+  const n = agg.n as number;
+  if (n === 0) return undefined;
+
+  const mean = agg.mean_val ?? 0;
+  const { variance } = db.prepare(
+    `SELECT AVG((${val} - ?) * (${val} - ?)) as variance ${from}`
+  ).get(mean, mean) as { variance: number };
+
+  // One sorted pass that returns only the ranks the percentiles interpolate between.
+  const positions = [25, 50, 75].map((p) => {
+    const idx = (p / 100) * (n - 1);
+    return { idx, lo: Math.floor(idx), hi: Math.ceil(idx) };
+  });
+  const ranks = [...new Set(positions.flatMap((pos) => [pos.lo, pos.hi]))];
+  const ranked = db.prepare(`
+    SELECT rn, val FROM (
+      SELECT ${val} as val, ROW_NUMBER() OVER (ORDER BY ${val}) - 1 as rn ${from}
+    ) WHERE rn IN (${ranks.map(() => '?').join(', ')})
+  `).all(...ranks) as { rn: number; val: number }[];
+  const at = new Map(ranked.map((r) => [r.rn, r.val]));
+  const [p25, median, p75] = positions.map(({ idx, lo, hi }) =>
+    lo === hi ? at.get(lo)! : at.get(lo)! + (at.get(hi)! - at.get(lo)!) * (idx - lo)
+  );
+
+  return {
+    min: agg.min_val,
+    max: agg.max_val,
+    mean: agg.mean_val,
+    median,
+    stddev: Math.sqrt(variance),
+    p25,
+    p75,
+  };
+}
+
+/** Per-column state kept while rows stream past — bounded regardless of file size. */
+interface ColumnTally {
+  nullCount: number; // undefined/null/\N
+  emptyCount: number; // ''
+  nonNumericCount: number; // non-empty values that are not numbers
+  // Tally the NON-EMPTY non-numeric tokens (e.g. "Undrafted") so a recurring
+  // string sentinel hiding in a numeric column can be surfaced to the auditor —
+  // NUMERIC affinity coerces it to NULL, erasing it from the stored data.
+  nonNumericTokens: Map<string, number>;
+  /** Uniform sample (algorithm R) of the non-empty values; type inference reads this. */
+  reservoir: string[];
+  seen: number;
+  /** Seeded, so the same file always yields the same sample (and the same profile). */
+  random: () => number;
+  /** Non-empty values that arrived as real dates (Parquet DATE/TIMESTAMP). */
+  dateCount: number;
+}
+
+/** mulberry32 — a small deterministic PRNG over [0, 1). */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
 
-    let rows = parsed.data as Record<string, string>[];
+function newTally(): ColumnTally {
+  return {
+    nullCount: 0, emptyCount: 0, nonNumericCount: 0, nonNumericTokens: new Map(), reservoir: [], seen: 0, dateCount: 0,
+    random: seededRandom(RESERVOIR_SEED),
+  };
+}
 
-    if (rows.length === 0) {
-      warnings.push(`Skipped empty CSV: ${filePath}`);
-      continue;
+function tallyValue(t: ColumnTally, v: string | null, isDate: boolean): void {
+  if (v === null || v === '\\N') {
+    t.nullCount++;
+    return;
+  }
+  if (v === '') {
+    t.emptyCount++;
+    return;
+  }
+  t.seen++;
+  if (isDate) t.dateCount++;
+  if (t.reservoir.length < RESERVOIR_SIZE) {
+    t.reservoir.push(v);
+  } else {
+    const j = Math.floor(t.random() * t.seen);
+    if (j < RESERVOIR_SIZE) t.reservoir[j] = v;
+  }
+  if (!isNumericStr(v)) {
+    t.nonNumericCount++;
+    // Past the cap only already-seen tokens keep counting — a dominant sentinel
+    // shows up early; a free-text column shouldn't grow the map without bound.
+    if (t.nonNumericTokens.size < MAX_TRACKED_TOKENS || t.nonNumericTokens.has(v)) {
+      t.nonNumericTokens.set(v, (t.nonNumericTokens.get(v) ?? 0) + 1);
     }
+  }
+}
+
+/**
+ * Render a parsed cell as the text that gets staged. CSV cells already are text;
+ * JSON and Parquet values are typed, so they're rendered once here and everything
+ * downstream (type inference, affinity, profiling) treats every format alike.
+ * Nested objects/arrays are kept as JSON text.
+ */
+function cellText(v: unknown): string | null {
+  if (v === undefined || v === null) return null;
+  if (typeof v === 'string') return v;
+  if (typeof v === 'number') return Number.isFinite(v) ? String(v) : null;
+  if (typeof v === 'bigint' || typeof v === 'boolean') return String(v);
+  if (v instanceof Date) {
+    if (Number.isNaN(v.getTime())) return null;
+    const iso = v.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if (v instanceof Uint8Array) return Buffer.from(v).toString('base64');
+  return JSON.stringify(v, (_key, x) => (typeof x === 'bigint' ? String(x) : x));
+}
+
+interface StagedTable {
+  colNames: string[];
+  tallies: ColumnTally[];
+  rowCount: number;
+}
 
-    const colNames = Object.keys(rows[0]);
-    if (colNames.length === 0) {
-      warnings.push(`Skipped CSV with no columns: ${filePath}`);
-      continue;
+/**
+ * Stages one file's rows into an untyped table in the attached staging database;
+ * each pushed batch is one transaction through a prepared INSERT. Untyped columns
+ * keep every cell verbatim — '007' stays '007' — until the types are known.
+ *
+ * Columns come from the first row. With `growColumns` (JSON, whose objects needn't
+ * share keys) a key first seen later is added on the fly, NULL for earlier rows.
+ * A file whose rows carry no keys at all counts its rows but stages nothing.
+ */
+class RowStager {
+  private colNames: string[] = [];
+  private tallies: ColumnTally[] = [];
+  private rowCount = 0;
+  private noColumns = false;
+  private insertBatch: ((rows: Record<string, unknown>[]) => void) | null = null;
+
+  constructor(
+    private readonly db: Database.Database,
+    private readonly tableName: string,
+    private readonly growColumns: boolean,
+  ) {}
+
+  push(rows: Record<string, unknown>[]): void {
+    if (rows.length === 0) return;
+    if (!this.noColumns) {
+      const fresh = this.newKeys(rows);
+      if (!this.insertBatch && fresh.length === 0) this.noColumns = true;
+      else {
+        if (fresh.length > 0) this.addColumns(fresh);
+        this.insertBatch!(rows);
+      }
     }
+    this.rowCount += rows.length;
+  }
 
-    // Infer each column's type up front (from the parsed rows) so the table can
-    // be created with the correct SQLite affinity. Stored as plain TEXT, numeric
-    // columns would compare LEXICOGRAPHICALLY — MAX('9') > MAX('73'), and
-    // ORDER BY/MIN/< all wrong. NUMERIC affinity makes SQLite store and compare
-    // them as numbers.
-    const colMeta = colNames.map((col) => {
-      const distinct = new Set<string>();
-      const numericDistinct = new Set<string>();
-      const samples: string[] = [];
-      let nullCount = 0; // undefined/null/\N
-      let emptyCount = 0; // ''
-      let nonNumericCount = 0; // non-empty values that are not numbers
-      // Tally the NON-EMPTY non-numeric tokens (e.g. "Undrafted") so a recurring
-      // string sentinel hiding in a numeric column can be surfaced to the auditor —
-      // NUMERIC affinity coerces it to NULL, erasing it from the stored data.
-      const nonNumericTokens = new Map<string, number>();
-      for (const row of rows) {
-        const v = row[col];
-        if (v === undefined || v === null || v === '\\N') {
-          nullCount++;
-          continue;
-        }
-        if (v === '') {
-          emptyCount++;
-          continue;
-        }
-        if (!distinct.has(v)) {
-          distinct.add(v);
-          if (samples.length < SAMPLE_LIMIT) samples.push(v);
-        }
-        if (isNumericStr(v)) numericDistinct.add(v);
-        else {
-          nonNumericCount++;
-          nonNumericTokens.set(v, (nonNumericTokens.get(v) ?? 0) + 1);
+  result(): StagedTable {
+    return { colNames: this.colNames, tallies: this.tallies, rowCount: this.rowCount };
+  }
+
+  private newKeys(rows: Record<string, unknown>[]): string[] {
+    if (this.insertBatch && !this.growColumns) return [];
+    const known = new Set(this.colNames);
+    const fresh: string[] = [];
+    for (const row of this.growColumns ? rows : rows.slice(0, 1)) {
+      for (const key of Object.keys(row)) {
+        if (!known.has(key)) {
+          known.add(key);
+          fresh.push(key);
         }
       }
-      const type = inferColumnType(col, samples, distinct.size, rows.length);
-      // Zero-padded codes (zip '00501', '007') look numeric but must stay TEXT
-      // so the padding survives — they're identifiers, not measures.
-      const hasLeadingZeroCode = samples.some((s) => /^0\d/.test(s));
-      const numericAffinity = type === 'numeric' && !hasLeadingZeroCode;
-      // In a numeric column, any non-numeric cell (empty, "N/A", text) is a
-      // missing value → stored as NULL. Left as TEXT it would re-poison MAX/
-      // ORDER BY (SQLite ranks text above all numbers). Counts reflect that.
-      const finalNullCount = numericAffinity ? nullCount + emptyCount + nonNumericCount : nullCount;
-      const finalUnique = numericAffinity ? numericDistinct.size : distinct.size;
-      // The dominant non-empty token coerced to NULL (numeric columns only) — the
-      // fingerprint of a string-sentinel affinity trap. Empty strings don't count;
-      // they're plain missing values the auditor reports via the null ratio.
-      let coercedNonNumeric: { token: string; count: number } | undefined;
-      if (numericAffinity && nonNumericTokens.size > 0) {
-        let token = ''; let count = 0;
-        for (const [tok, c] of nonNumericTokens) if (c > count) { token = tok; count = c; }
-        coercedNonNumeric = { token, count };
-      }
-      return { col, type, samples, distinctCount: finalUnique, nullCount: finalNullCount, numericAffinity, coercedNonNumeric };
-    });
-
-    const numericCols = new Set(colMeta.filter((m) => m.numericAffinity).map((m) => m.col));
+    }
+    return fresh;
+  }
 
-    // Create table with NUMERIC affinity for numeric columns, TEXT otherwise.
-    // Use escapeIdentifier to prevent SQL injection via column names with embedded quotes.
-    const safeCols = colMeta
-      .map((m) => `${escapeIdentifier(m.col)} ${m.numericAffinity ? 'NUMERIC' : 'TEXT'}`)
-      .join(', ');
-    db.exec(`CREATE TABLE IF NOT EXISTS ${escapeIdentifier(tableName)} (${safeCols})`);
+  private addColumns(fresh: string[]): void {
+    const stageTable = `${STAGE_SCHEMA}.${escapeIdentifier(this.tableName)}`;
+    if (!this.insertBatch) {
+      this.db.exec(`CREATE TABLE ${stageTable} (${fresh.map(escapeIdentifier).join(', ')})`);
+    } else {
+      for (const col of fresh) this.db.exec(`ALTER TABLE ${stageTable} ADD COLUMN ${escapeIdentifier(col)}`);
+    }
+    for (const col of fresh) {
+      const tally = newTally();
+      tally.nullCount = this.rowCount; // absent from every row staged so far
+      this.colNames.push(col);
+      this.tallies.push(tally);
+    }
 
-    // Batch insert (NUMERIC-affinity columns coerce numeric strings to numbers)
-    const placeholders = colNames.map(() => '?').join(', ');
-    const insert = db.prepare(
-      `INSERT INTO ${escapeIdentifier(tableName)} VALUES (${placeholders})`
+    const colNames = [...this.colNames];
+    const tallies = this.tallies;
+    const insert = this.db.prepare(
+      `INSERT INTO ${stageTable} (${colNames.map(escapeIdentifier).join(', ')}) VALUES (${colNames.map(() => '?').join(', ')})`
     );
-    const insertMany = db.transaction((batch: Record<string, string>[]) => {
+    this.insertBatch = this.db.transaction((batch: Record<string, unknown>[]) => {
       for (const row of batch) {
-        insert.run(...colNames.map((c) => {
-          const val = row[c];
-          if (val === undefined || val === null || val === '\\N') return null;
-          // In a numeric column, any non-numeric cell ('', 'N/A', text) → NULL.
-          // Left as TEXT it would store above all numbers and break MAX/ORDER BY.
-          if (numericCols.has(c) && !isNumericStr(val)) return null;
-          return val;
+        insert.run(...colNames.map((c, i) => {
+          const raw = row[c];
+          const text = cellText(raw);
+          tallyValue(tallies[i], text, raw instanceof Date);
+          return text === '\\N' ? null : text;
         }));
       }
     });
-    insertMany(rows);
-
-    // Profile each column. Type/samples/counts come from the pre-pass above;
-    // only numeric stats and categorical top values need the loaded DB.
-    const columns: DataColumn[] = [];
-    for (const meta of colMeta) {
-      const col = meta.col;
-      const type = meta.type;
-
-      let columnStats: DataColumn['stats'] = undefined;
-      let topValues: DataColumn['topValues'] = undefined;
-
-      if (type === 'numeric') {
-        const numStmt = db.prepare(`
-          SELECT
-            MIN(CAST("${escId(col)}" AS REAL)) as min_val,
-            MAX(CAST("${escId(col)}" AS REAL)) as max_val,
-            AVG(CAST("${escId(col)}" AS REAL)) as mean_val
-          FROM "${escId(tableName)}"
-          WHERE "${escId(col)}" IS NOT NULL AND "${escId(col)}" != ''
-        `);
-        const numStats = numStmt.get() as any;
+  }
+}
 
-        const sortedStmt = db.prepare(`
-          SELECT CAST("${escId(col)}" AS REAL) as val
-          FROM "${escId(tableName)}"
-          WHERE "${escId(col)}" IS NOT NULL AND "${escId(col)}" != ''
-          ORDER BY CAST("${escId(col)}" AS REAL)
-        `);
-        const sorted = sortedStmt.all().map((r: any) => r.val as number);
-        const n = sorted.length;
-
-        if (n > 0) {
-          const percentile = (arr: number[], p: number) => {
-            const idx = (p / 100) * (arr.length - 1);
-            const lo = Math.floor(idx);
-            const hi = Math.ceil(idx);
-            return lo === hi ? arr[lo] : arr[lo] + (arr[hi] - arr[lo]) * (idx - lo);
-          };
-
-          const mean = numStats.mean_val ?? 0;
-          const variance = sorted.reduce((sum: number, v: number) => sum + (v - mean) ** 2, 0) / n;
-          const stddev = Math.sqrt(variance);
-
-          columnStats = {
-            min: numStats.min_val,
-            max: numStats.max_val,
-            mean: numStats.mean_val,
-            median: percentile(sorted, 50),
-            stddev,
-            p25: percentile(sorted, 25),
-            p75: percentile(sorted, 75),
-          };
-        }
-      } else if (type === 'categorical' || type === 'date') {
-        const topStmt = db.prepare(`
-          SELECT "${escId(col)}" as value, COUNT(*) as count
-          FROM "${escId(tableName)}"
-          WHERE "${escId(col)}" IS NOT NULL AND "${escId(col)}" != ''
-          GROUP BY "${escId(col)}"
-          ORDER BY COUNT(*) DESC
-          LIMIT 10
-        `);
-        topValues = topStmt.all() as { value: string; count: number }[];
-      }
+/** SQL functions every loaded database carries: the analysis aggregates plus the loader's numeric test. */
+function registerLoaderFunctions(db: Database.Database): void {
+  registerCustomAggregates(db);
+  db.function('dolex_is_numeric', { deterministic: true }, (v: unknown) => (isNumericStr(v as string) ? 1 : 0));
+}
 
-      const column: DataColumn = {
-        name: col,
-        type,
-        sampleValues: meta.samples.slice(0, SAMPLE_DISPLAY_LIMIT),
-        uniqueCount: meta.distinctCount,
-        nullCount: meta.nullCount,
-        totalCount: rows.length,
-        stats: columnStats,
-        topValues,
-        coercedNonNumeric: meta.coercedNonNumeric,
-      };
-      columns.push(column);
-      allColumns.push({ table: tableName, col: column });
+/**
+ * Load tables (CSV, Parquet, NDJSON, JSON files; Excel sheets) into a SQLite database
+ * and build schema metadata.
+ *
+ * Inputs are streamed (see file-formats.ts): rows land in an on-disk staging table while
+ * bounded per-column state (counters + a reservoir sample) is collected. Types are
+ * inferred from the reservoir, then corrected post-load against exact cardinalities
+ * counted over the staged rows, and the typed table is filled from staging in one
+ * INSERT … SELECT. Inputs above SPILL_THRESHOLD_BYTES get a temp-file database
+ * instead of `:memory:`; its directory is returned as `scratchDir` for the caller
+ * to remove on close.
+ */
+async function loadTables(
+  inputs: TableInput[],
+  onProgress?: (progress: LoadProgress) => void,
+): Promise<{
+  db: Database.Database;
+  tables: DataTable[];
+  foreignKeys: ForeignKey[];
+  warnings: string[];
+  scratchDir?: string;
+}> {
+  const totalBytes = inputs.reduce((sum, input) => sum + input.bytes, 0);
+  const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dolex-csv-'));
+  const spill = totalBytes > SPILL_THRESHOLD_BYTES;
+
+  const db = new Database(spill ? path.join(scratchDir, 'data.sqlite') : ':memory:');
+  try {
+    if (spill) {
+      db.pragma('journal_mode = OFF');
+      db.pragma('synchronous = OFF');
     }
+    registerLoaderFunctions(db);
+    db.prepare(`ATTACH DATABASE ? AS ${STAGE_SCHEMA}`).run(path.join(scratchDir, 'stage.sqlite'));
+    db.pragma(`${STAGE_SCHEMA}.journal_mode = OFF`);
+    db.pragma(`${STAGE_SCHEMA}.synchronous = OFF`);
+
+    const tables: DataTable[] = [];
+    const warnings: string[] = [];
+
+    let lastReport = 0;
+    const report = (progress: LoadProgress, force = false) => {
+      if (!onProgress) return;
+      const now = Date.now();
+      if (!force && now - lastReport < PROGRESS_INTERVAL_MS) return;
+      lastReport = now;
+      onProgress(progress);
+    };
 
-    tables.push({
-      name: tableName,
-      columns,
-      rowCount: rows.length,
-    });
-  }
+    let bytesBefore = 0;
+    for (const input of inputs) {
+      const { tableName } = input;
+      const stager = new RowStager(db, tableName, input.growColumns);
+      let parseWarnings = 0;
+      await input.read({
+        rows: (batch, bytesRead) => {
+          stager.push(batch);
+          report({ table: tableName, phase: 'load', rows: stager.result().rowCount, bytesRead: bytesBefore + bytesRead, totalBytes });
+        },
+        // Capped — a malformed file can yield one warning per row.
+        warn: (message) => {
+          if (parseWarnings++ < MAX_PARSE_WARNINGS) warnings.push(message);
+        },
+      });
+      bytesBefore += input.bytes;
+      const staged = stager.result();
+      const stageTable = `${STAGE_SCHEMA}.${escapeIdentifier(tableName)}`;
+      const { colNames, tallies, rowCount } = staged;
+
+      if (rowCount === 0) {
+        db.exec(`DROP TABLE IF EXISTS ${stageTable}`);
+        warnings.push(`Skipped empty ${input.kind}: ${input.label}`);
+        continue;
+      }
+      if (colNames.length === 0) {
+        warnings.push(`Skipped ${input.kind} with no columns: ${input.label}`);
+        continue;
+      }
+      report({ table: tableName, phase: 'profile', rows: rowCount, bytesRead: bytesBefore, totalBytes }, true);
+
+      // Post-load correction: the reservoir gives representative samples, but the
+      // cardinalities that drive id/text inference (and the reported uniqueCount)
+      // are counted exactly over the staged rows — in column batches so a very
+      // wide file stays under SQLite's result-column limit.
+      const distinctCounts: number[] = [];
+      const numericDistinctCounts: number[] = [];
+      for (let from = 0; from < colNames.length; from += DISTINCT_BATCH) {
+        const batch = colNames.slice(from, from + DISTINCT_BATCH);
+        const exprs = batch.flatMap((c, i) => {
+          const q = escapeIdentifier(c);
+          return [
+            `COUNT(DISTINCT CASE WHEN ${q} != '' THEN ${q} END) as d${i}`,
+            `COUNT(DISTINCT CASE WHEN dolex_is_numeric(${q}) THEN ${q} END) as n${i}`,
+          ];
+        });
+        const counts = db.prepare(`SELECT ${exprs.join(', ')} FROM ${stageTable}`).get() as Record<string, number>;
+        batch.forEach((_, i) => {
+          distinctCounts.push(counts[`d${i}`]);
+          numericDistinctCounts.push(counts[`n${i}`]);
+        });
+      }
 
-  // Detect foreign keys by matching column names across tables
-  const foreignKeys: ForeignKey[] = [];
-  for (const entry of allColumns) {
-    const colLower = entry.col.name.toLowerCase();
-    if (
-      entry.col.type === 'id' ||
-      colLower.endsWith('_id') ||
-      colLower.endsWith('id')
-    ) {
-      for (const other of allColumns) {
-        if (other.table !== entry.table && other.col.name === entry.col.name) {
-          // Avoid duplicate pairs
-          const exists = foreignKeys.some(
-            (fk) =>
-              (fk.fromTable === entry.table &&
-                fk.fromColumn === entry.col.name &&
-                fk.toTable === other.table &&
-                fk.toColumn === other.col.name) ||
-              (fk.fromTable === other.table &&
-                fk.fromColumn === other.col.name &&
-                fk.toTable === entry.table &&
-                fk.toColumn === entry.col.name)
-          );
-          if (!exists) {
-            foreignKeys.push({
-              fromTable: entry.table,
-              fromColumn: entry.col.name,
-              toTable: other.table,
-              toColumn: other.col.name,
-            });
-          }
+      // Infer each column's type before creating the real table, so it gets the
+      // correct SQLite affinity. Stored as plain TEXT, numeric columns would compare
+      // LEXICOGRAPHICALLY — MAX('9') > MAX('73'), and ORDER BY/MIN/< all wrong.
+      // NUMERIC affinity makes SQLite store and compare them as numbers.
+      const colMeta = colNames.map((col, i) => {
+        const tally = tallies[i];
+        const samples = [...new Set(tally.reservoir)].slice(0, SAMPLE_LIMIT);
+        // A column that only ever held real dates (Parquet DATE/TIMESTAMP) is a date
+        // whatever it's called; everything else goes through the name/sample heuristics.
+        const type = tally.seen > 0 && tally.dateCount === tally.seen
+          ? 'date'
+          : inferColumnType(col, samples, distinctCounts[i], rowCount);
+        // Zero-padded codes (zip '00501', '007') look numeric but must stay TEXT
+        // so the padding survives — they're identifiers, not measures.
+        const hasLeadingZeroCode = samples.some((s) => /^0\d/.test(s));
+        const numericAffinity = type === 'numeric' && !hasLeadingZeroCode;
+        // In a numeric column, any non-numeric cell (empty, "N/A", text) is a
+        // missing value → stored as NULL. Left as TEXT it would re-poison MAX/
+        // ORDER BY (SQLite ranks text above all numbers). Counts reflect that.
+        const finalNullCount = numericAffinity
+          ? tally.nullCount + tally.emptyCount + tally.nonNumericCount
+          : tally.nullCount;
+        const finalUnique = numericAffinity ? numericDistinctCounts[i] : distinctCounts[i];
+        // The dominant non-empty token coerced to NULL (numeric columns only) — the
+        // fingerprint of a string-sentinel affinity trap. Empty strings don't count;
+        // they're plain missing values the auditor reports via the null ratio.
+        let coercedNonNumeric: { token: string; count: number } | undefined;
+        if (numericAffinity && tally.nonNumericTokens.size > 0) {
+          let token = ''; let count = 0;
+          for (const [tok, c] of tally.nonNumericTokens) if (c > count) { token = tok; count = c; }
+          coercedNonNumeric = { token, count };
+        }
+        return { col, type, samples, distinctCount: finalUnique, nullCount: finalNullCount, numericAffinity, coercedNonNumeric };
+      });
+
+      // Create table with NUMERIC affinity for numeric columns, TEXT otherwise.
+      // Use escapeIdentifier to prevent SQL injection via column names with embedded quotes.
+      const safeCols = colMeta
+        .map((m) => `${escapeIdentifier(m.col)} ${m.numericAffinity ? 'NUMERIC' : 'TEXT'}`)
+        .join(', ');
+      db.exec(`CREATE TABLE IF NOT EXISTS main.${escapeIdentifier(tableName)} (${safeCols})`);
+
+      // Fill from staging in file order (NUMERIC-affinity columns coerce numeric strings
+      // to numbers). In a numeric column, any non-numeric cell ('', 'N/A', text) → NULL.
+      // Left as TEXT it would store above all numbers and break MAX/ORDER BY.
+      const selectCols = colMeta
+        .map((m) => m.numericAffinity
+          ? `CASE WHEN dolex_is_numeric(${escapeIdentifier(m.col)}) THEN ${escapeIdentifier(m.col)} END`
+          : escapeIdentifier(m.col))
+        .join(', ');
+      db.exec(`INSERT INTO main.${escapeIdentifier(tableName)} SELECT ${selectCols} FROM ${stageTable} ORDER BY rowid`);
+      db.exec(`DROP TABLE ${stageTable}`);
+
+      // Profile each column. Type/samples/counts come from the pass above;
+      // only numeric stats and categorical top values need the loaded table.
+      const columns: DataColumn[] = [];
+      for (const meta of colMeta) {
+        const col = meta.col;
+        const type = meta.type;
+
+        let columnStats: DataColumn['stats'] = undefined;
+        let topValues: DataColumn['topValues'] = undefined;
+
+        if (type === 'numeric') {
+          columnStats = numericColumnStats(db, tableName, col);
+        } else if (type === 'categorical' || type === 'date') {
+          const topStmt = db.prepare(`
+            SELECT "${escId(col)}" as value, COUNT(*) as count
+            FROM "${escId(tableName)}"
+            WHERE "${escId(col)}" IS NOT NULL AND "${escId(col)}" != ''
+            GROUP BY "${escId(col)}"
+            ORDER BY COUNT(*) DESC
+            LIMIT 10
+          `);
+          topValues = topStmt.all() as { value: string; count: number }[];
         }
+
+        const column: DataColumn = {
+          name: col,
+          type,
+          sampleValues: meta.samples.slice(0, SAMPLE_DISPLAY_LIMIT),
+          uniqueCount: meta.distinctCount,
+          nullCount: meta.nullCount,
+          totalCount: rowCount,
+          stats: columnStats,
+          topValues,
+          coercedNonNumeric: meta.coercedNonNumeric,
+        };
+        columns.push(column);
       }
+
+      tables.push({
+        name: tableName,
+        columns,
+        rowCount,
+        ...(input.dialect ? { dialect: input.dialect } : {}),
+      });
     }
+
+    db.exec(`DETACH DATABASE ${STAGE_SCHEMA}`);
+    fs.rmSync(path.join(scratchDir, 'stage.sqlite'), { force: true });
+    if (!spill) fs.rmSync(scratchDir, { recursive: true, force: true });
+
+    const foreignKeys = inferForeignKeys(db, tables);
+
+    return { db, tables, foreignKeys, warnings, scratchDir: spill ? scratchDir : undefined };
+  } catch (err) {
+    try { db.close(); } catch { /* already closed */ }
+    fs.rmSync(scratchDir, { recursive: true, force: true });
+    throw err;
+  }
+}
+
+/**
+ * Profile one column of a live table or view: samples, distinct/null counts, the
+ * inferred type, and stats or top values to match. For columns that appear after
+ * the load (derived columns) and for database-file sources profiled in place.
+ */
+export function profileColumn(db: Database.Database, tableName: string, col: string, rowCount: number): DataColumn {
+  const sampleStmt = db.prepare(
+    `SELECT DISTINCT "${escId(col)}" FROM "${escId(tableName)}" WHERE "${escId(col)}" IS NOT NULL AND "${escId(col)}" != '' LIMIT ${SAMPLE_LIMIT}`
+  );
+  const samples = sampleStmt.all().map((r: any) => String(r[col]));
+
+  const countStmt = db.prepare(
+    `SELECT COUNT(DISTINCT "${escId(col)}") as cnt, COUNT(*) - COUNT("${escId(col)}") as nulls, COUNT(*) as total FROM "${escId(tableName)}"`
+  );
+  const stats = countStmt.get() as { cnt: number; nulls: number; total: number };
+  const type = inferColumnType(col, samples, stats.cnt, rowCount);
+
+  let columnStats: DataColumn['stats'] = undefined;
+  let topValues: DataColumn['topValues'] = undefined;
+
+  if (type === 'numeric') {
+    columnStats = numericColumnStats(db, tableName, col);
+  } else if (type === 'categorical' || type === 'date') {
+    const topStmt = db.prepare(`
+      SELECT "${escId(col)}" as value, COUNT(*) as count FROM "${escId(tableName)}"
+      WHERE "${escId(col)}" IS NOT NULL AND "${escId(col)}" != '' GROUP BY "${escId(col)}" ORDER BY COUNT(*) DESC LIMIT 10
+    `);
+    topValues = topStmt.all() as { value: string; count: number }[];
   }
 
-  return { db, tables, foreignKeys, warnings };
+  return {
+    name: col, type,
+    sampleValues: samples.slice(0, SAMPLE_DISPLAY_LIMIT),
+    uniqueCount: stats.cnt, nullCount: stats.nulls, totalCount: stats.total,
+    stats: columnStats, topValues,
+  };
 }
 
 class CsvConnectedSource implements ConnectedSource {
   id: string;
   name: string;
-  readonly type: DataSourceType = 'csv';
+  readonly type: DataSourceType;
   private db: Database.Database;
   private schema: DataSchema;
+  /** Temp directory holding a spilled (file-backed) database; removed on close. */
+  private scratchDir?: string;
 
   constructor(
     id: string,
     name: string,
     db: Database.Database,
-    schema: DataSchema
+    schema: DataSchema,
+    scratchDir?: string
   ) {
+    this.type = schema.source.type;
     this.id = id;
     this.name = name;
     this.db = db;
     this.schema = schema;
+    this.scratchDir = scratchDir;
   }
 
   async getSchema(): Promise<DataSchema> {
@@ -512,7 +840,7 @@ class CsvConnectedSource implements ConnectedSource {
       // Add any new columns not already in the schema
       for (const colName of liveColNames) {
         if (!existingNames.has(colName)) {
-          table.columns.push(this.profileNewColumn(table.name, colName, table.rowCount));
+          table.columns.push(profileColumn(this.db, table.name, colName, table.rowCount));
         }
       }
 
@@ -522,65 +850,6 @@ class CsvConnectedSource implements ConnectedSource {
     }
   }
 
-  private profileNewColumn(tableName: string, col: string, rowCount: number): DataColumn {
-    const sampleStmt = this.db.prepare(
-      `SELECT DISTINCT "${escId(col)}" FROM "${escId(tableName)}" WHERE "${escId(col)}" IS NOT NULL AND "${escId(col)}" != '' LIMIT ${SAMPLE_LIMIT}`
-    );
-    const samples = sampleStmt.all().map((r: any) => String(r[col]));
-
-    const countStmt = this.db.prepare(
-      `SELECT COUNT(DISTINCT "${escId(col)}") as cnt, COUNT(*) - COUNT("${escId(col)}") as nulls, COUNT(*) as total FROM "${escId(tableName)}"`
-    );
-    const stats = countStmt.get() as { cnt: number; nulls: number; total: number };
-    const type = inferColumnType(col, samples, stats.cnt, rowCount);
-
-    let columnStats: DataColumn['stats'] = undefined;
-    let topValues: DataColumn['topValues'] = undefined;
-
-    if (type === 'numeric') {
-      const numStmt = this.db.prepare(`
-        SELECT MIN(CAST("${escId(col)}" AS REAL)) as min_val, MAX(CAST("${escId(col)}" AS REAL)) as max_val, AVG(CAST("${escId(col)}" AS REAL)) as mean_val
-        FROM "${escId(tableName)}" WHERE "${escId(col)}" IS NOT NULL AND "${escId(col)}" != ''
-      `);
-      const numStats = numStmt.get() as any;
-      const sortedStmt = this.db.prepare(`
-        SELECT CAST("${escId(col)}" AS REAL) as val FROM "${escId(tableName)}"
-        WHERE "${escId(col)}" IS NOT NULL AND "${escId(col)}" != '' ORDER BY CAST("${escId(col)}" AS REAL)
-      `);
-      const sorted = sortedStmt.all().map((r: any) => r.val as number);
-      const n = sorted.length;
-
-      if (n > 0) {
-        const percentile = (arr: number[], p: number) => {
-          const idx = (p / 100) * (arr.length - 1);
-          const lo = Math.floor(idx);
-          const hi = Math.ceil(idx);
-          return lo === hi ? arr[lo] : arr[lo] + (arr[hi] - arr[lo]) * (idx - lo);
-        };
-        const mean = numStats.mean_val ?? 0;
-        const variance = sorted.reduce((sum: number, v: number) => sum + (v - mean) ** 2, 0) / n;
-        columnStats = {
-          min: numStats.min_val, max: numStats.max_val, mean: numStats.mean_val,
-          median: percentile(sorted, 50), stddev: Math.sqrt(variance),
-          p25: percentile(sorted, 25), p75: percentile(sorted, 75),
-        };
-      }
-    } else if (type === 'categorical' || type === 'date') {
-      const topStmt = this.db.prepare(`
-        SELECT "${escId(col)}" as value, COUNT(*) as count FROM "${escId(tableName)}"
-        WHERE "${escId(col)}" IS NOT NULL AND "${escId(col)}" != '' GROUP BY "${escId(col)}" ORDER BY COUNT(*) DESC LIMIT 10
-      `);
-      topValues = topStmt.all() as { value: string; count: number }[];
-    }
-
-    return {
-      name: col, type,
-      sampleValues: samples.slice(0, SAMPLE_DISPLAY_LIMIT),
-      uniqueCount: stats.cnt, nullCount: stats.nulls, totalCount: stats.total,
-      stats: columnStats, topValues,
-    };
-  }
-
   async getSampleRows(tableName: string, count: number = 5): Promise<Record<string, any>[]> {
     const total = this.schema.tables.find(t => t.name === tableName)?.rowCount ?? 0;
     if (total === 0) return [];
@@ -651,6 +920,7 @@ class CsvConnectedSource implements ConnectedSource {
     } catch {
       // Already closed, ignore
     }
+    if (this.scratchDir) fs.rmSync(this.scratchDir, { recursive: true, force: true });
   }
 }
 
@@ -666,101 +936,212 @@ export const csvConnector: DataConnector = {
     try {
       const stat = fs.statSync(csvConfig.path);
       if (stat.isDirectory()) {
-        const csvFiles = fs.readdirSync(csvConfig.path).filter((f) => f.endsWith('.csv'));
-        if (csvFiles.length === 0) {
-          return { ok: false, error: `No CSV files found in directory: ${csvConfig.path}` };
+        const dataFiles = fs.readdirSync(csvConfig.path).filter((f) => fileFormat(f) !== null);
+        if (dataFiles.length === 0) {
+          return { ok: false, error: `No data files (${SUPPORTED_FILE_TYPES}) found in directory: ${csvConfig.path}` };
         }
         return { ok: true };
-      } else if (stat.isFile() && csvConfig.path.endsWith('.csv')) {
+      } else if (stat.isFile() && fileFormat(csvConfig.path) !== null) {
         return { ok: true };
       } else {
-        return { ok: false, error: `Path is not a CSV file or directory: ${csvConfig.path}` };
+        return { ok: false, error: `Path is not a ${SUPPORTED_FILE_TYPES} file or directory: ${csvConfig.path}` };
       }
     } catch (err: any) {
       return { ok: false, error: `Cannot access path: ${err.message}` };
     }
   },
 
-  async connect(config: DataSourceConfig): Promise<ConnectedSource> {
+  async connect(config: DataSourceConfig, options: ConnectOptions = {}): Promise<ConnectedSource> {
     const csvConfig = config as CsvSourceConfig;
     if (csvConfig.type !== 'csv') {
       throw new Error('Config type must be "csv"');
     }
 
     const stat = fs.statSync(csvConfig.path);
-    let csvPaths: { filePath: string; tableName: string }[];
+    let files: DataFile[];
 
     if (stat.isDirectory()) {
-      const files = fs.readdirSync(csvConfig.path).filter((f) => f.endsWith('.csv'));
-      if (files.length === 0) {
-        throw new Error(`No CSV files found in directory: ${csvConfig.path}`);
+      const names = fs.readdirSync(csvConfig.path).filter((f) => fileFormat(f) !== null);
+      if (names.length === 0) {
+        throw new Error(`No data files (${SUPPORTED_FILE_TYPES}) found in directory: ${csvConfig.path}`);
       }
-      csvPaths = files.map((f) => ({
-        filePath: path.join(csvConfig.path, f),
-        tableName: toTableName(f),
-      }));
+      // One table per file. Same-stem files (sales.csv + sales.parquet) can't share a
+      // table name, so a repeat takes its format as a suffix.
+      const taken = new Set<string>();
+      files = names.map((f) => {
+        const format = fileFormat(f)!;
+        let tableName = toTableName(f);
+        if (taken.has(tableName)) tableName = `${tableName}_${format}`;
+        taken.add(tableName);
+        return { filePath: path.join(csvConfig.path, f), tableName, format };
+      });
     } else {
-      csvPaths = [
+      const format = fileFormat(csvConfig.path);
+      if (!format) {
+        throw new Error(`Path is not a ${SUPPORTED_FILE_TYPES} file or directory: ${csvConfig.path}`);
+      }
+      files = [
         {
           filePath: csvConfig.path,
           tableName: toTableName(path.basename(csvConfig.path)),
+          format,
         },
       ];
     }
 
-    // If a `<base>.cleanfix.json` sits next to a CSV, load the manifest-cleaned columns
-    // instead of the raw ones — so recon/query never re-hit a footgun the offline autoclean
-    // already solved. Replaying over the CURRENT raw file gives newly-arrived rows the same
-    // treatment; the original CSV is never written. Best-effort: any error → raw load.
-    csvPaths = csvPaths.map((cp) => {
-      const manifest = readCleanfixManifest(cp.filePath);
-      if (!manifest) return cp;
-      try {
-        const { rows } = applyCleanfix(cp.filePath, manifest, false); // cleaned columns, no _raw noise
-        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dolex-cleanfix-'));
-        const cleanedPath = path.join(dir, path.basename(cp.filePath));
-        fs.writeFileSync(cleanedPath, Papa.unparse(rows));
-        return { ...cp, filePath: cleanedPath }; // tableName stays derived from the original file
-      } catch (err: any) {
-        console.warn(`[csv-connector] cleanfix replay failed for ${cp.filePath}, loading raw: ${err?.message}`);
-        return cp;
-      }
-    });
+    const sourceName = stat.isDirectory()
+      ? path.basename(csvConfig.path)
+      : path.basename(csvConfig.path).replace(DATA_FILE_EXTENSION, '');
 
-    const { db, tables, foreignKeys, warnings } = loadCsvs(csvPaths);
+    return connectFileTables(csvConfig, sourceName, async () => (await prepareFiles(files, csvConfig)).map(fileTableInput), options);
+  },
+};
 
-    if (warnings.length > 0) {
-      for (const w of warnings) {
-        console.warn(`[csv-connector] ${w}`);
-      }
+/**
+ * Get listed files ready to load: sniff each CSV's dialect, and swap in the cleaned
+ * rows for any file with a cleanfix manifest.
+ */
+async function prepareFiles(listed: DataFile[], csvConfig: CsvSourceConfig): Promise<DataFile[]> {
+  // Sniff each CSV's delimiter/encoding/preamble; the config's overrides pin any of them.
+  const files = await Promise.all(listed.map(async (file) =>
+    file.format === 'csv' ? { ...file, dialect: await sniffCsv(file.filePath, csvConfig) } : file));
+
+  // If a `<base>.cleanfix.json` sits next to a data file, load the manifest-cleaned columns
+  // instead of the raw ones — so recon/query never re-hit a footgun the offline autoclean
+  // already solved. Replaying over the CURRENT raw file gives newly-arrived rows the same
+  // treatment; the original file is never written. Best-effort: any error → raw load.
+  return Promise.all(files.map(async (file) => {
+    const manifest = readCleanfixManifest(file.filePath);
+    if (!manifest) return file;
+    try {
+      const rows = file.format === 'csv' && isPlainCsv(file.dialect)
+        ? applyCleanfix(file.filePath, manifest, false).rows // cleaned columns, no _raw noise
+        : await readCleanfixRows(file, manifest);
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dolex-cleanfix-'));
+      const cleanedPath = path.join(dir, `${path.basename(file.filePath, path.extname(file.filePath))}.csv`);
+      fs.writeFileSync(cleanedPath, Papa.unparse(rows));
+      // tableName stays derived from the original file
+      return { ...file, filePath: cleanedPath, format: 'csv' as const, dialect: DEFAULT_CSV_DIALECT };
+    } catch (err: any) {
+      console.warn(`[csv-connector] cleanfix replay failed for ${file.filePath}, loading raw: ${err?.message}`);
+      return file;
     }
+  }));
 
-    const sourceName = stat.isDirectory()
-      ? path.basename(csvConfig.path)
-      : path.basename(csvConfig.path, '.csv');
-
-    const id = `csv-${sourceName}-${Date.now()}`;
-
-    const schema: DataSchema = {
-      tables,
-      foreignKeys,
-      source: {
-        id,
-        type: 'csv',
-        name: sourceName,
-        config: csvConfig,
-      },
-    };
+}
 
-    const source = new CsvConnectedSource(id, sourceName, db, schema);
+/**
+ * Open a cached load (see load-cache.ts) as a live database: small ones are read into
+ * memory, ones past the spill threshold are copied to a scratch file — either way the
+ * cache file itself is never written to. Null on a miss.
+ */
+function restoreCachedLoad(
+  cacheDir: string,
+  config: CsvSourceConfig | ExcelSourceConfig,
+): { db: Database.Database; tables: DataTable[]; foreignKeys: ForeignKey[]; scratchDir?: string } | null {
+  const hit = readCachedLoad(cacheDir, config);
+  if (!hit) return null;
+  let db: Database.Database;
+  let scratchDir: string | undefined;
+  if (fs.statSync(hit.dbPath).size > SPILL_THRESHOLD_BYTES) {
+    scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dolex-csv-'));
+    const dbPath = path.join(scratchDir, 'data.sqlite');
+    fs.copyFileSync(hit.dbPath, dbPath);
+    db = new Database(dbPath);
+    db.pragma('journal_mode = OFF');
+    db.pragma('synchronous = OFF');
+  } else {
+    db = new Database(fs.readFileSync(hit.dbPath));
+  }
+  registerLoaderFunctions(db);
+  return { db, tables: hit.meta.tables, foreignKeys: hit.meta.foreignKeys, scratchDir };
+}
 
-    // Restore any persisted derived columns from the .dolex.json manifest so
-    // they survive process restarts (used by both the MCP server and the CLI).
-    applyManifest(db, csvConfig, tables.map((t) => t.name), source);
+/**
+ * The shared back half of a file connector's connect(): load the tables (or restore
+ * them from the load cache when `options.cacheDir` is set — `prepareInputs` only runs
+ * on a miss), wrap them in a connected source of `config.type`, and replay the
+ * source's .dolex.json manifest.
+ */
+export async function connectFileTables(
+  config: CsvSourceConfig | ExcelSourceConfig,
+  sourceName: string,
+  prepareInputs: () => Promise<TableInput[]>,
+  options: ConnectOptions = {},
+): Promise<ConnectedSource> {
+  const { cacheDir } = options;
+  const cached = cacheDir ? restoreCachedLoad(cacheDir, config) : null;
+  let loaded: { db: Database.Database; tables: DataTable[]; foreignKeys: ForeignKey[]; scratchDir?: string };
+  if (cached) {
+    loaded = cached;
+  } else {
+    const { warnings, ...fresh } = await loadTables(await prepareInputs(), options.onProgress);
+    for (const w of warnings) {
+      console.warn(`[${config.type}-connector] ${w}`);
+    }
+    loaded = fresh;
+    if (cacheDir) {
+      // Best-effort: a cache that can't be written just means the next connect loads again.
+      await writeCachedLoad(cacheDir, config, fresh.db, fresh.tables, fresh.foreignKeys)
+        .catch((err) => console.warn(`[${config.type}-connector] could not write load cache: ${err?.message}`));
+    }
+  }
+  const { db, tables, foreignKeys, scratchDir } = loaded;
+
+  const id = `${config.type}-${sourceName}-${Date.now()}`;
+
+  const schema: DataSchema = {
+    tables,
+    foreignKeys,
+    source: {
+      id,
+      type: config.type,
+      name: sourceName,
+      config,
+    },
+  };
 
-    return source;
-  },
-};
+  const source = new CsvConnectedSource(id, sourceName, db, schema, scratchDir);
+
+  // Restore any persisted derived columns from the .dolex.json manifest so
+  // they survive process restarts (used by both the MCP server and the CLI).
+  applyManifest(db, config, tables.map((t) => t.name), source);
+
+  return source;
+}
+
+/** A UTF-8, comma-separated CSV with its header on the first line — what the cleaning replay parses. */
+function isPlainCsv(dialect: CsvDialect | undefined): boolean {
+  return !dialect || (dialect.delimiter === ',' && dialect.quoteChar === '"' && dialect.encoding === 'utf-8' && dialect.skipRows === 0);
+}
+
+/**
+ * Read a non-CSV file (or a CSV in another dialect) fully as text rows and replay a cleanfix manifest over them
+ * (the fixes work on text cells, like the CSV path). Cleanfix sources are small
+ * enough to hold in memory — the replay itself already does for CSVs.
+ */
+async function readCleanfixRows(file: DataFile, manifest: CleanManifest): Promise<Record<string, string>[]> {
+  const parsed: Record<string, unknown>[] = [];
+  const keys = new Set<string>();
+  await readRows(file.filePath, file.format, {
+    rows: (batch) => {
+      for (const row of batch) {
+        parsed.push(row);
+        for (const k of Object.keys(row)) keys.add(k);
+      }
+    },
+    warn: () => { /* surfaced by the load itself */ },
+  }, file.dialect);
+  // Every row gets every key (JSON objects needn't share them), so the fixes and the
+  // re-serialized CSV see one rectangular table.
+  const rows = parsed.map((row) => {
+    const text: Record<string, string> = {};
+    for (const k of keys) text[k] = cellText(row[k]) ?? '';
+    return text;
+  });
+  applyFixesToRows(rows, manifest.fixes, false);
+  return rows;
+}
 
 /**
  * Read the source's .dolex.json manifest (if any) and replay its derived
@@ -769,7 +1150,7 @@ export const csvConnector: DataConnector = {
  */
 function applyManifest(
   db: Database.Database,
-  config: CsvSourceConfig,
+  config: CsvSourceConfig | ExcelSourceConfig,
   tableNames: string[],
   source: CsvConnectedSource,
 ): void {
@@ -0,0 +1,366 @@
+/**
+ * DuckDB Connector — large local files queried in place by an embedded DuckDB.
+ *
+ * The file connector (csv.ts) streams every row into SQLite before the first query;
+ * fine for a spreadsheet-sized CSV, slow for a multi-gigabyte Parquet export. This
+ * connector copies nothing: each data file becomes a view over DuckDB's own reader
+ * (`read_csv_auto`, `read_parquet`, `read_json_auto`), and a `.duckdb` database
+ * file is attached read-only with a view per table. Queries scan the files directly.
+ *
+ * Profiling uses DuckDB's native `SUMMARIZE` — one columnar pass per table for
+ * min/max/mean/std/quartiles, null share and distinct count. Distinct counts are
+ * HyperLogLog estimates, and the quartiles are approximate; both are exact enough
+ * to classify columns, and far cheaper than exact counts on a large file.
+ *
+ * The session is locked down once the views exist: external access is limited to
+ * the source's own files and the configuration is frozen, so a query cannot read
+ * (or COPY to) anything else on disk. The `.duckdb` file is attached READ_ONLY.
+ *
+ * Derived columns replace the table's view with one projecting the extra column
+ * over the same reader — the views live in the in-memory catalog, so the files
+ * are never written. Result values are converted to plain JS: BIGINT/HUGEINT to
+ * numbers, DATE to 'YYYY-MM-DD', timestamps to ISO strings, matching the CSV path.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  DataColumn,
+  DataSchema,
+  DataSourceConfig,
+  DataTable,
+  DuckdbSourceConfig,
+  ForeignKey,
+} from '../types.js';
+import type {
+  DataConnector,
+  ConnectedSource,
+  QueryExecutionResult,
+  DerivationCapabilities,
+} from './types.js';
+import { toTableName } from './csv.js';
+import { DATA_FILE_EXTENSION, DUCKDB_FILE_EXTENSION, SUPPORTED_FILE_TYPES, fileFormat, type FileFormat } from './file-formats.js';
+import { importOptional } from '../utils/optional-deps.js';
+
+type DuckDBConnection = import('@duckdb/node-api').DuckDBConnection;
+type DuckDBInstance = import('@duckdb/node-api').DuckDBInstance;
+
+/** Lazily load DuckDB so the base install never requires it. */
+const loadDuckdb = () => importOptional<typeof import('@duckdb/node-api')>('@duckdb/node-api', 'duckdb');
+
+/** Catalog name the `.duckdb` file is attached under. */
+const ATTACHED = 'src';
+
+const NUMERIC_TYPE = /^(U?(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT)|FLOAT|DOUBLE|REAL|DECIMAL\(.*\))$/;
+const DATE_TYPE = /^(DATE|TIMESTAMP.*)$/;
+
+const READERS: Record<FileFormat, string> = {
+  csv: 'read_csv_auto',
+  parquet: 'read_parquet',
+  ndjson: 'read_json_auto',
+  json: 'read_json_auto',
+};
+
+const q = (id: string) => '"' + id.replace(/"/g, '""') + '"';
+const lit = (s: string) => "'" + s.replace(/'/g, "''") + "'";
+
+/** A table and the relation it reads: a file reader call, or the attached database's table. */
+interface Relation {
+  name: string;
+  from: string;
+}
+
+interface SummaryRow {
+  column_name: string;
+  column_type: string;
+  min: string | null;
+  max: string | null;
+  approx_unique: bigint | number;
+  avg: string | null;
+  std: string | null;
+  q25: string | null;
+  q50: string | null;
+  q75: string | null;
+  count: bigint | number;
+  null_percentage: number | null;
+}
+
+/** A DuckDB result value as a plain JS value, the shape the CSV path returns. */
+function toJs(value: unknown, type: string): unknown {
+  if (typeof value === 'bigint') {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString();
+  }
+  if (value instanceof Date) return type === 'DATE' ? value.toISOString().slice(0, 10) : value.toISOString();
+  return value;
+}
+
+async function readRows(conn: DuckDBConnection, sql: string): Promise<{ columns: string[]; rows: Record<string, any>[] }> {
+  const reader = await conn.runAndReadAll(sql);
+  const columns = reader.columnNames();
+  const types = reader.columnTypes().map(String);
+  const rows = reader.getRowsJS().map((row) => {
+    const out: Record<string, any> = {};
+    columns.forEach((col, i) => { out[col] = toJs(row[i], types[i]); });
+    return out;
+  });
+  return { columns, rows };
+}
+
+function classify(dataType: string, name: string, distinct: number, total: number): DataColumn['type'] {
+  if (NUMERIC_TYPE.test(dataType)) {
+    if (/(^|_)id$/i.test(name) && total > 0 && distinct >= total * 0.9) return 'id';
+    return 'numeric';
+  }
+  if (DATE_TYPE.test(dataType)) return 'date';
+  if (dataType === 'VARCHAR' && total > 0 && distinct <= Math.min(1000, Math.max(50, total * 0.5)) && distinct <= 200) return 'categorical';
+  return 'text';
+}
+
+const num = (v: string | null): number => (v === null ? 0 : Number(v));
+
+/** Profile a relation's columns (or just `only`) from one SUMMARIZE pass. */
+async function profileColumns(conn: DuckDBConnection, table: string, only?: string[]): Promise<{ columns: DataColumn[]; rowCount: number }> {
+  const select = only ? only.map(q).join(', ') : '*';
+  const summary = (await readRows(conn, `SUMMARIZE SELECT ${select} FROM ${q(table)}`)).rows as SummaryRow[];
+  const rowCount = summary.length > 0 ? Number(summary[0].count) : 0;
+
+  const columns: DataColumn[] = [];
+  for (const s of summary) {
+    const c = q(s.column_name);
+    // approx_unique is an estimate and can overshoot the row count on tiny tables.
+    const distinct = Math.min(Number(s.approx_unique), rowCount);
+    const nullCount = Math.round((rowCount * (s.null_percentage ?? 0)) / 100);
+    const type = classify(s.column_type, s.column_name, distinct, rowCount);
+
+    const sv = await readRows(conn, `SELECT DISTINCT CAST(${c} AS VARCHAR) AS v FROM ${q(table)} WHERE ${c} IS NOT NULL LIMIT 5`);
+    const sampleValues = sv.rows.map((r) => String(r.v));
+
+    let stats: DataColumn['stats'] | undefined;
+    let topValues: DataColumn['topValues'] | undefined;
+    if (type === 'numeric' && nullCount < rowCount) {
+      stats = { min: num(s.min), max: num(s.max), mean: num(s.avg), median: num(s.q50), stddev: num(s.std), p25: num(s.q25), p75: num(s.q75) };
+    } else if (type === 'categorical' || type === 'date') {
+      const tv = await readRows(conn,
+        `SELECT CAST(${c} AS VARCHAR) AS value, COUNT(*) AS count FROM ${q(table)} WHERE ${c} IS NOT NULL GROUP BY 1 ORDER BY 2 DESC, 1 LIMIT 10`);
+      topValues = tv.rows.map((r) => ({ value: String(r.value), count: Number(r.count) }));
+    }
+
+    columns.push({
+      name: s.column_name, type, sampleValues,
+      uniqueCount: distinct, nullCount, totalCount: rowCount,
+      layer: 'source', stats, topValues,
+    });
+  }
+  return { columns, rowCount };
+}
+
+/** One view per data file, named like the file connector's tables (collisions suffixed). */
+function fileRelations(files: string[]): Relation[] {
+  const taken = new Set<string>();
+  return files.map((file) => {
+    const base = toTableName(path.basename(file));
+    let name = base;
+    for (let n = 2; taken.has(name); n++) name = `${base}_${n}`;
+    taken.add(name);
+    return { name, from: `${READERS[fileFormat(file)!]}(${lit(path.resolve(file))})` };
+  });
+}
+
+async function databaseRelations(conn: DuckDBConnection): Promise<Relation[]> {
+  const { rows } = await readRows(conn, `
+    SELECT table_name FROM information_schema.tables
+    WHERE table_catalog = ${lit(ATTACHED)} AND table_schema = 'main'
+    ORDER BY table_name
+  `);
+  return rows.map((r) => ({ name: r.table_name, from: `${ATTACHED}.main.${q(r.table_name)}` }));
+}
+
+/** Declared foreign keys of the attached database, one per column pair. */
+async function readForeignKeys(conn: DuckDBConnection): Promise<ForeignKey[]> {
+  const { rows } = await readRows(conn, `
+    SELECT table_name, constraint_column_names, referenced_table, referenced_column_names
+    FROM duckdb_constraints()
+    WHERE database_name = ${lit(ATTACHED)} AND schema_name = 'main' AND constraint_type = 'FOREIGN KEY'
+    ORDER BY table_name
+  `);
+  return rows.flatMap((r) => (r.constraint_column_names as string[]).map((fromColumn, i) => ({
+    fromTable: r.table_name as string,
+    fromColumn,
+    toTable: r.referenced_table as string,
+    toColumn: (r.referenced_column_names as string[])[i],
+  })));
+}
+
+/** The data files a path names: the file itself, or the loadable files of a directory. */
+function sourceFiles(sourcePath: string): string[] {
+  if (!fs.statSync(sourcePath).isDirectory()) return [sourcePath];
+  return fs.readdirSync(sourcePath)
+    .filter((f) => fileFormat(f) !== null)
+    .sort()
+    .map((f) => path.join(sourcePath, f));
+}
+
+class DuckdbConnectedSource implements ConnectedSource {
+  id: string;
+  name: string;
+  readonly type = 'duckdb' as const;
+  private instance: DuckDBInstance;
+  private conn: DuckDBConnection;
+  private schema: DataSchema;
+  /** table → what its view reads, so a derivation can rebuild the view over the same relation. */
+  private relations: Map<string, string>;
+  /** Derived columns per table, in creation order — the extra projection of its view. */
+  private derived = new Map<string, { column: string; expr: string }[]>();
+
+  constructor(id: string, name: string, instance: DuckDBInstance, conn: DuckDBConnection, schema: DataSchema, relations: Relation[]) {
+    this.id = id;
+    this.name = name;
+    this.instance = instance;
+    this.conn = conn;
+    this.schema = schema;
+    this.relations = new Map(relations.map((r) => [r.name, r.from]));
+  }
+
+  async getSchema(): Promise<DataSchema> {
+    return this.schema;
+  }
+
+  async executeQuery(sql: string): Promise<QueryExecutionResult> {
+    try {
+      return await readRows(this.conn, sql);
+    } catch (err: any) {
+      return { columns: [], rows: [{ error: err.message }] };
+    }
+  }
+
+  /** A reproducible reservoir sample — the files have no row order worth spacing over. */
+  async getSampleRows(tableName: string, count: number = 5): Promise<Record<string, any>[]> {
+    if (!this.relations.has(tableName)) return [];
+    const { rows } = await readRows(this.conn,
+      `SELECT * FROM ${q(tableName)} USING SAMPLE reservoir(${Math.max(1, Math.floor(count))} ROWS) REPEATABLE (42)`);
+    return rows;
+  }
+
+  /** A derived column is a projection in the table's in-memory view; there is no row key. */
+  derivationCapabilities(): DerivationCapabilities {
+    return { canDerive: true, materialization: 'session-temp', rowKey: null, serverSideQueryable: true };
+  }
+
+  /**
+   * Materialize a derived column by replacing the table's view with one that also
+   * projects `expr` (a DuckDB expression over the table's columns). The expression is
+   * checked with a zero-row probe first, so a bad one leaves earlier derivations intact.
+   */
+  async applyDerivation(table: string, column: string, expr: string): Promise<void> {
+    if (/;|--|\/\*/.test(expr)) throw new Error('derivation expr must be a single SQL expression (no ";" or comments)');
+    const from = this.relations.get(table);
+    if (!from) throw new Error(`Table "${table}" not found`);
+    await this.conn.run(`SELECT (${expr}) FROM ${from} LIMIT 0`);
+
+    const cols = (this.derived.get(table) ?? []).filter((d) => d.column !== column);
+    cols.push({ column, expr });
+    const projected = cols.map((d) => `(${d.expr}) AS ${q(d.column)}`).join(', ');
+    await this.conn.run(`CREATE OR REPLACE VIEW ${q(table)} AS SELECT b.*, ${projected} FROM ${from} b`);
+    this.derived.set(table, cols);
+    await this.profileDerived(table);
+  }
+
+  /** Re-profile a table's derived columns; its source columns can't change under this session. */
+  private async profileDerived(tableName: string): Promise<void> {
+    const table = this.schema.tables.find((t) => t.name === tableName);
+    const derived = (this.derived.get(tableName) ?? []).map((d) => d.column);
+    if (!table || derived.length === 0) return;
+    const { columns } = await profileColumns(this.conn, tableName, derived);
+    table.columns = [
+      ...table.columns.filter((c) => !derived.includes(c.name)),
+      ...columns.map((c) => ({ ...c, layer: 'derived' as const })),
+    ];
+  }
+
+  async close(): Promise<void> {
+    try {
+      this.conn.closeSync();
+      this.instance.closeSync();
+    } catch {
+      // Already closed, ignore
+    }
+  }
+}
+
+function checkConfig(config: DataSourceConfig): DuckdbSourceConfig {
+  if (config.type !== 'duckdb') {
+    throw new Error('Config type must be "duckdb"');
+  }
+  return config;
+}
+
+export const duckdbConnector: DataConnector = {
+  type: 'duckdb',
+
+  async test(config: DataSourceConfig): Promise<{ ok: boolean; error?: string }> {
+    try {
+      const duckdbConfig = checkConfig(config);
+      const isDatabase = DUCKDB_FILE_EXTENSION.test(duckdbConfig.path);
+      if (!isDatabase && sourceFiles(duckdbConfig.path).length === 0) {
+        return { ok: false, error: `No ${SUPPORTED_FILE_TYPES} files found at: ${duckdbConfig.path}` };
+      }
+      await loadDuckdb();
+      return { ok: true };
+    } catch (err: any) {
+      return { ok: false, error: err.code ? `Cannot access path: ${err.message}` : err.message };
+    }
+  },
+
+  async connect(config: DataSourceConfig): Promise<ConnectedSource> {
+    const duckdbConfig = checkConfig(config);
+    const sourcePath = path.resolve(duckdbConfig.path);
+    const isDatabase = DUCKDB_FILE_EXTENSION.test(sourcePath);
+    const files = isDatabase ? [sourcePath] : sourceFiles(sourcePath).map((f) => path.resolve(f));
+    if (files.length === 0) {
+      throw new Error(`No ${SUPPORTED_FILE_TYPES} files found at: ${duckdbConfig.path}`);
+    }
+    if (!isDatabase && files.some((f) => fileFormat(f) === null)) {
+      throw new Error(`Not a ${SUPPORTED_FILE_TYPES} file or .duckdb database: ${duckdbConfig.path}`);
+    }
+
+    const { DuckDBInstance } = await loadDuckdb();
+    const instance = await DuckDBInstance.create(':memory:');
+    const conn = await instance.connect();
+    try {
+      if (isDatabase) await conn.run(`ATTACH ${lit(sourcePath)} AS ${ATTACHED} (READ_ONLY)`);
+      const relations = isDatabase ? await databaseRelations(conn) : fileRelations(files);
+      for (const r of relations) {
+        await conn.run(`CREATE VIEW ${q(r.name)} AS SELECT * FROM ${r.from}`);
+      }
+      await conn.run(`SET allowed_paths = [${files.map(lit).join(', ')}]`);
+      await conn.run('SET enable_external_access = false');
+      await conn.run('SET lock_configuration = true');
+
+      const tables: DataTable[] = [];
+      for (const r of relations) {
+        try {
+          const { columns, rowCount } = await profileColumns(conn, r.name);
+          tables.push({ name: r.name, columns, rowCount });
+        } catch (err: any) {
+          // A file DuckDB can't parse, a view over a missing table…
+          console.warn(`[duckdb-connector] Skipped ${r.name}: ${err.message}`);
+        }
+      }
+      const foreignKeys = isDatabase ? await readForeignKeys(conn) : [];
+
+      const sourceName = path.basename(sourcePath).replace(isDatabase ? DUCKDB_FILE_EXTENSION : DATA_FILE_EXTENSION, '');
+      const id = `duckdb-${sourceName}-${Date.now()}`;
+      const schema: DataSchema = {
+        tables,
+        foreignKeys,
+        source: { id, type: 'duckdb', name: sourceName, config },
+      };
+      return new DuckdbConnectedSource(id, sourceName, instance, conn, schema,
+        relations.filter((r) => tables.some((t) => t.name === r.name)));
+    } catch (err) {
+      conn.closeSync();
+      instance.closeSync();
+      throw err;
+    }
+  },
+};
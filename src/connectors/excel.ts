@@ -0,0 +1,287 @@
+/**
+ * Excel Connector — an .xlsx workbook as a database, one table per worksheet.
+ *
+ * Sheets are read with exceljs (optional dependency) and handed to the file
+ * connector's loader (csv.ts), so staging, type inference, profiling, FK
+ * detection and derived-column manifests behave exactly as for CSV.
+ *
+ * Spreadsheets are laid out for people, not parsers, so each sheet is tidied first:
+ * - Header row — title/notes rows above the table are skipped: the header is the
+ *   first row (within the first few) that fills most of the table's width with text.
+ * - Merged headers — a row of merged group labels directly above the header
+ *   ("Revenue" spanning "Gross" | "Net") prefixes the columns it spans
+ *   ("Revenue Gross", "Revenue Net"). Merged data cells read as their top-left value.
+ * - Dates — date-formatted cells arrive as dates. Plain serial numbers (45300) in a
+ *   date-named column are converted too, honouring the workbook's 1900/1904 system.
+ * - Cell objects — formulas load their cached result, rich text and hyperlinks their
+ *   text, error cells (#N/A, #DIV/0!) load as NULL.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DataConnector, ConnectedSource, ConnectOptions } from './types.js';
+import type { DataSourceConfig, ExcelSourceConfig } from '../types.js';
+import { connectFileTables, toTableName, type TableInput } from './csv.js';
+import { EXCEL_FILE_EXTENSION } from './file-formats.js';
+import { importOptional } from '../utils/optional-deps.js';
+
+type ExcelJS = typeof import('exceljs');
+type Worksheet = import('exceljs').Worksheet;
+
+type CellValue = string | number | boolean | Date | null;
+
+interface GridCell {
+  value: CellValue;
+  /** Address of the merge range's top-left cell — the cell's own address when not merged. */
+  anchor: string;
+}
+
+interface GridRow {
+  rowNumber: number;
+  cells: GridCell[];
+}
+
+interface SheetTable {
+  columns: string[];
+  rows: Record<string, CellValue>[];
+}
+
+/** Rows (non-empty) searched for the header before falling back to the first one. */
+const HEADER_SCAN_ROWS = 20;
+
+/** A header row fills at least this share of the widest row in the scan window. */
+const HEADER_FILL_RATIO = 0.6;
+
+/** Rows handed to the loader per batch. */
+const SHEET_BATCH_ROWS = 1000;
+
+/** Serial-number range read as dates in a date-named column: 1910-01-01 … 2099-12-31. */
+const SERIAL_MIN = 3654;
+const SERIAL_MAX = 73050;
+
+const MS_PER_DAY = 86_400_000;
+
+/** Name tokens that mark a column as holding dates. */
+const DATE_NAME_TOKENS = new Set(['date', 'dob', 'day', 'time', 'timestamp', 'when']);
+
+/** Unwrap an exceljs cell value into a plain scalar. */
+function cellValue(value: unknown): CellValue {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string') return value.trim() === '' ? null : value;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'object') {
+    const v = value as Record<string, any>;
+    if ('error' in v) return null;
+    if ('richText' in v) return cellValue((v.richText as { text: string }[]).map((r) => r.text).join(''));
+    if ('formula' in v || 'sharedFormula' in v) return cellValue(v.result);
+    if ('text' in v) return cellValue(v.text); // hyperlink
+  }
+  return String(value);
+}
+
+function headerText(value: CellValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value).trim();
+}
+
+/** Excel serial day number → Date (UTC). The 1900 system's epoch absorbs its phantom 1900-02-29. */
+function serialToDate(serial: number, date1904: boolean): Date {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  return new Date(epoch + Math.round(serial * MS_PER_DAY / 1000) * 1000);
+}
+
+function looksLikeDateName(name: string): boolean {
+  const tokens = name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  if (tokens.some((t) => DATE_NAME_TOKENS.has(t))) return true;
+  // created_at, shipped_on
+  const last = tokens[tokens.length - 1];
+  return tokens.length > 1 && (last === 'at' || last === 'on');
+}
+
+/** The sheet's non-empty rows as value/anchor grids, trimmed to the used width. */
+function readGrid(ws: Worksheet): GridRow[] {
+  const rows: GridRow[] = [];
+  let width = 0;
+  ws.eachRow((row, rowNumber) => {
+    const cells: GridCell[] = [];
+    for (let c = 1; c <= ws.columnCount; c++) {
+      const cell = row.getCell(c);
+      const value = cellValue(cell.value);
+      cells.push({ value, anchor: cell.master?.address ?? cell.address });
+      if (value !== null) width = Math.max(width, c);
+    }
+    if (cells.some((cell) => cell.value !== null)) rows.push({ rowNumber, cells });
+  });
+  for (const row of rows) row.cells.length = width;
+  return rows;
+}
+
+/** Distinct filled cells in a row — a merge range counts once. */
+function filledAnchors(row: GridRow): GridCell[] {
+  const seen = new Map<string, GridCell>();
+  for (const cell of row.cells) {
+    if (cell.value !== null && !seen.has(cell.anchor)) seen.set(cell.anchor, cell);
+  }
+  return [...seen.values()];
+}
+
+/** A row of group labels: at least two distinct labels, one of them merged across columns. */
+function isGroupRow(row: GridRow): boolean {
+  if (filledAnchors(row).length < 2) return false;
+  return row.cells.some((cell, i) => cell.value !== null && i > 0 && row.cells[i - 1].anchor === cell.anchor);
+}
+
+/**
+ * Index of the header row, and of the group-label row above it if there is one.
+ * A two-row header (group labels, then column labels) qualifies twice — the
+ * lower row is the header.
+ */
+function findHeaderRows(grid: GridRow[]): { header: number; group?: number } {
+  const window = grid.slice(0, HEADER_SCAN_ROWS);
+  const widest = Math.max(...window.map((row) => filledAnchors(row).length));
+  const isHeaderLike = (row: GridRow | undefined) => {
+    if (!row) return false;
+    const filled = filledAnchors(row);
+    const text = filled.filter((cell) => typeof cell.value === 'string').length;
+    return filled.length >= Math.ceil(widest * HEADER_FILL_RATIO) && text * 2 >= filled.length;
+  };
+  const adjacent = (upper: GridRow, lower: GridRow | undefined) => lower?.rowNumber === upper.rowNumber + 1;
+
+  const idx = Math.max(window.findIndex((row) => isHeaderLike(row)), 0);
+  const row = grid[idx];
+  const next = grid[idx + 1];
+  if (isGroupRow(row) && adjacent(row, next) && isHeaderLike(next)) return { header: idx + 1, group: idx };
+  const prev = grid[idx - 1];
+  if (prev && adjacent(prev, row) && isGroupRow(prev)) return { header: idx, group: idx - 1 };
+  return { header: idx };
+}
+
+function columnNames(header: GridRow, group: GridRow | undefined): string[] {
+  const names = header.cells.map((cell, i) => {
+    const sub = headerText(cell.value);
+    const top = group ? headerText(group.cells[i].value) : '';
+    return top && top !== sub ? [top, sub].filter(Boolean).join(' ') : sub;
+  });
+  const taken = new Set<string>();
+  return names.map((name, i) => {
+    const base = name || `column_${i + 1}`;
+    let candidate = base;
+    for (let n = 2; taken.has(candidate); n++) candidate = `${base}_${n}`;
+    taken.add(candidate);
+    return candidate;
+  });
+}
+
+/** Locate the table on a sheet and read it into named rows. Null for an empty sheet. */
+function readSheet(ws: Worksheet, date1904: boolean): SheetTable | null {
+  const grid = readGrid(ws);
+  if (grid.length === 0) return null;
+
+  const found = findHeaderRows(grid);
+  const header = grid[found.header];
+  const names = columnNames(header, found.group === undefined ? undefined : grid[found.group]);
+  const body = grid.slice(found.header + 1);
+
+  // Columns with no header and no data are merge overhang (a title wider than the table).
+  const keep = names.map((_, i) => headerText(header.cells[i].value) !== '' || body.some((row) => row.cells[i].value !== null));
+  const columns = names.filter((_, i) => keep[i]);
+
+  const rows = body.map((row) => {
+    const out: Record<string, CellValue> = {};
+    row.cells.forEach((cell, i) => {
+      if (keep[i]) out[names[i]] = cell.value;
+    });
+    return out;
+  });
+
+  for (const column of columns) {
+    if (!looksLikeDateName(column)) continue;
+    const values = rows.map((r) => r[column]).filter((v) => v !== null);
+    const serials = values.every((v) =>
+      v instanceof Date || (typeof v === 'number' && v >= SERIAL_MIN && v <= SERIAL_MAX));
+    if (!serials || !values.some((v) => typeof v === 'number')) continue;
+    for (const r of rows) {
+      const v = r[column];
+      if (typeof v === 'number') r[column] = serialToDate(v, date1904);
+    }
+  }
+
+  return { columns, rows };
+}
+
+async function readWorkbook(filePath: string) {
+  const { default: ExcelJS } = await importOptional<{ default: ExcelJS }>('exceljs', 'excel');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+  return workbook;
+}
+
+/** Read the workbook and tidy each sheet into a loader input (one table per sheet). */
+async function sheetInputs(filePath: string): Promise<TableInput[]> {
+  const fileBytes = fs.statSync(filePath).size;
+  const workbook = await readWorkbook(filePath);
+  const date1904 = Boolean(workbook.properties?.date1904);
+
+  const sheets = workbook.worksheets.map((ws) => ({ name: ws.name, table: readSheet(ws, date1904) }));
+  const totalRows = sheets.reduce((sum, s) => sum + (s.table?.rows.length ?? 0), 0);
+
+  // Sheet names can collide once sanitized ("Q1 Sales" / "Q1-Sales").
+  const taken = new Set<string>();
+  return sheets.map(({ name, table }) => {
+    const base = toTableName(name);
+    let tableName = base;
+    for (let n = 2; taken.has(tableName); n++) tableName = `${base}_${n}`;
+    taken.add(tableName);
+
+    const rows = table?.rows ?? [];
+    const bytes = totalRows > 0 ? Math.round((rows.length / totalRows) * fileBytes) : 0;
+    return {
+      tableName,
+      label: `${filePath} [${name}]`,
+      kind: 'sheet',
+      bytes,
+      growColumns: false,
+      read: async (sink) => {
+        for (let i = 0; i < rows.length; i += SHEET_BATCH_ROWS) {
+          const end = Math.min(i + SHEET_BATCH_ROWS, rows.length);
+          sink.rows(rows.slice(i, end), Math.round((end / rows.length) * bytes));
+        }
+      },
+    };
+  });
+}
+
+function checkConfig(config: DataSourceConfig): ExcelSourceConfig {
+  if (config.type !== 'excel') {
+    throw new Error('Config type must be "excel"');
+  }
+  if (!EXCEL_FILE_EXTENSION.test(config.path)) {
+    throw new Error(`Path is not an .xlsx workbook: ${config.path}`);
+  }
+  return config;
+}
+
+export const excelConnector: DataConnector = {
+  type: 'excel',
+
+  async test(config: DataSourceConfig): Promise<{ ok: boolean; error?: string }> {
+    try {
+      const excelConfig = checkConfig(config);
+      if (!fs.statSync(excelConfig.path).isFile()) {
+        return { ok: false, error: `Path is not an .xlsx workbook: ${excelConfig.path}` };
+      }
+      return { ok: true };
+    } catch (err: any) {
+      return { ok: false, error: err.code ? `Cannot access path: ${err.message}` : err.message };
+    }
+  },
+
+  async connect(config: DataSourceConfig, options: ConnectOptions = {}): Promise<ConnectedSource> {
+    const excelConfig = checkConfig(config);
+    const sourceName = path.basename(excelConfig.path).replace(EXCEL_FILE_EXTENSION, '');
+    return connectFileTables(excelConfig, sourceName, () => sheetInputs(excelConfig.path), options);
+  },
+};
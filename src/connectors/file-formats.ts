@@ -0,0 +1,345 @@
+/**
+ * File formats the file connector loads, and a streaming row reader for each.
+ *
+ * Every reader pushes batches of plain row objects into a {@link RowSink}; the
+ * connector stages, types and profiles them the same way whatever the format,
+ * so a folder mixing CSV, Parquet and JSON loads as one joinable database.
+ * The parsers are imported on first read, so the extension helpers stay cheap
+ * to import (the CLI resolves targets with them).
+ *
+ * - CSV     — papaparse chunk mode over a decoded file stream. The dialect
+ *             (delimiter, quote, encoding, preamble lines) is sniffed from the
+ *             head of the file by {@link sniffCsv}; the source config can pin any of it.
+ * - NDJSON  — one JSON object per line (`.ndjson` / `.jsonl`), read line by line.
+ * - JSON    — a top-level array of objects. JSON.parse needs the whole text, so
+ *             this is the one format read into memory in full.
+ * - Parquet — one row group at a time via hyparquet (optional dependency).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { Transform } from 'stream';
+import type { CsvDialect, CsvSourceConfig } from '../types.js';
+import { importOptional } from '../utils/optional-deps.js';
+
+export type FileFormat = 'csv' | 'ndjson' | 'json' | 'parquet';
+
+const EXTENSION_FORMATS: Record<string, FileFormat> = {
+  '.csv': 'csv',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+  '.json': 'json',
+  '.parquet': 'parquet',
+};
+
+/** Dolex's own JSON sidecars — they sit next to data files but are never data. */
+const SIDECAR_SUFFIXES = ['.dolex.json', '.cleanfix.json', '.context.json', '.baseline.json', '.check.json'];
+
+/** Rows handed to the sink per batch by the JSON and NDJSON readers. */
+const JSON_BATCH_ROWS = 1000;
+
+/** The loadable format of a path, by extension; null for anything else (including sidecars). */
+export function fileFormat(filePath: string): FileFormat | null {
+  const lower = path.basename(filePath).toLowerCase();
+  if (SIDECAR_SUFFIXES.some((s) => lower.endsWith(s))) return null;
+  return EXTENSION_FORMATS[path.extname(lower)] ?? null;
+}
+
+/** Extension pattern stripped when a file name becomes a table name. */
+export const DATA_FILE_EXTENSION = /\.(csv|ndjson|jsonl|json|parquet)$/i;
+
+/** Excel workbooks — loaded by the excel connector (one table per sheet), not listed from folders. */
+export const EXCEL_FILE_EXTENSION = /\.xlsx$/i;
+
+/** SQLite database files — opened in place by the sqlite connector, not listed from folders. */
+export const SQLITE_FILE_EXTENSION = /\.(sqlite3?|db3?)$/i;
+
+/** DuckDB database files — attached read-only by the duckdb connector. */
+export const DUCKDB_FILE_EXTENSION = /\.duckdb$/i;
+
+/** Human-readable list for error messages. */
+export const SUPPORTED_FILE_TYPES = '.csv, .parquet, .ndjson/.jsonl or .json';
+
+export interface RowSink {
+  /** A batch of parsed rows; `bytesRead` is this file's read position after the batch. */
+  rows(batch: Record<string, unknown>[], bytesRead: number): void;
+  /** A recoverable problem (malformed line, parse error) — reported, load continues. */
+  warn(message: string): void;
+}
+
+export const DEFAULT_CSV_DIALECT: CsvDialect = { delimiter: ',', quoteChar: '"', encoding: 'utf-8', bom: false, skipRows: 0 };
+
+/** Dialect settings a source config can pin instead of sniffing. */
+export type CsvDialectOverrides = Pick<CsvSourceConfig, 'delimiter' | 'encoding' | 'skipRows'>;
+
+/** Bytes read from the head of a CSV to sniff its dialect. */
+const SNIFF_BYTES = 64 * 1024;
+
+/** Lines of that head considered when voting on the delimiter and header row. */
+const SNIFF_LINES = 50;
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+const BOMS: { bytes: number[]; encoding: string }[] = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' },
+];
+
+/** Accept the spellings people type for a tab (`\t`, `tab`) as well as the character itself. */
+export function csvDelimiter(value: string): string {
+  if (value === '\\t' || value.toLowerCase() === 'tab') return '\t';
+  if (value.length !== 1) {
+    throw new Error(`CSV delimiter must be a single character (or "tab"), got "${value}"`);
+  }
+  return value;
+}
+
+/** Canonical WHATWG name for an encoding label (`latin1` → `windows-1252`); throws on an unknown one. */
+export function csvEncoding(label: string): string {
+  try {
+    return new TextDecoder(label.trim()).encoding;
+  } catch {
+    throw new Error(`Unknown text encoding "${label}". Use e.g. utf-8, latin1, windows-1252 or utf-16le.`);
+  }
+}
+
+/** Delimiters on a line, ignoring any inside quoted fields. */
+function countOutsideQuotes(line: string, delimiter: string, quoteChar: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const ch of line) {
+    if (ch === quoteChar) quoted = !quoted;
+    else if (ch === delimiter && !quoted) count++;
+  }
+  return count;
+}
+
+/** The most common value in a list, and how many times it occurs. */
+function mode(values: number[]): { value: number; count: number } {
+  const counts = new Map<number, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let best = { value: 0, count: 0 };
+  for (const [value, count] of counts) {
+    if (count > best.count || (count === best.count && value > best.value)) best = { value, count };
+  }
+  return best;
+}
+
+/**
+ * Work out how to parse a CSV from its first {@link SNIFF_BYTES}: the encoding (BOM,
+ * else UTF-8 if the bytes decode cleanly, else Windows-1252 — the superset of Latin-1
+ * that European Excel writes), the quote character, the delimiter whose per-line
+ * count is most consistent, and the preamble lines above the first line that has
+ * that count (the header). Overrides win over what is sniffed.
+ */
+export async function sniffCsv(filePath: string, overrides: CsvDialectOverrides = {}): Promise<CsvDialect> {
+  const handle = await fs.promises.open(filePath, 'r');
+  let head: Buffer;
+  try {
+    const buf = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buf, 0, SNIFF_BYTES, 0);
+    head = buf.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+  const truncated = head.length === SNIFF_BYTES;
+
+  const bomMatch = BOMS.find(({ bytes }) => bytes.every((b, i) => head[i] === b));
+  let encoding: string;
+  if (overrides.encoding) {
+    encoding = csvEncoding(overrides.encoding);
+  } else if (bomMatch) {
+    encoding = bomMatch.encoding;
+  } else {
+    try {
+      // stream: a multi-byte character cut off at the end of the head isn't an error
+      new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+      encoding = 'utf-8';
+    } catch {
+      encoding = 'windows-1252';
+    }
+  }
+  const bom = bomMatch !== undefined && bomMatch.encoding === encoding;
+
+  const text = new TextDecoder(encoding).decode(head);
+  const lines = text.split(/\r\n|\n|\r/);
+  if (truncated) lines.pop(); // partial last line
+  const sample = lines.slice(0, SNIFF_LINES);
+
+  // A quote opens or closes a field: it sits at a line edge or next to a candidate delimiter.
+  const quoteScore = (q: string) => sample.reduce((sum, line) =>
+    sum + (line.match(new RegExp(`(^|[,;\\t|])${q}|${q}($|[,;\\t|])`, 'g'))?.length ?? 0), 0);
+  const quoteChar = quoteScore("'") > quoteScore('"') ? "'" : '"';
+
+  const nonBlank = sample.filter((line) => line.trim() !== '');
+  let delimiter = overrides.delimiter !== undefined ? csvDelimiter(overrides.delimiter) : ',';
+  if (overrides.delimiter === undefined) {
+    let bestAgreement = 0;
+    for (const candidate of DELIMITER_CANDIDATES) {
+      const { value, count } = mode(nonBlank.map((line) => countOutsideQuotes(line, candidate, quoteChar)));
+      if (value > 0 && count > bestAgreement) {
+        bestAgreement = count;
+        delimiter = candidate;
+      }
+    }
+  }
+
+  let skipRows = overrides.skipRows ?? 0;
+  if (overrides.skipRows === undefined) {
+    const fields = mode(nonBlank.map((line) => countOutsideQuotes(line, delimiter, quoteChar))).value;
+    if (fields > 0) {
+      skipRows = Math.max(0, sample.findIndex((line) => countOutsideQuotes(line, delimiter, quoteChar) === fields));
+    }
+  }
+
+  return { delimiter, quoteChar, encoding, bom, skipRows };
+}
+
+/** Decode a byte stream to text (dropping any BOM), skipping the first `skipRows` lines. */
+function decodeCsvText(encoding: string, skipRows: number): Transform {
+  const decoder = new TextDecoder(encoding);
+  let toSkip = skipRows;
+  const skip = (text: string): string => {
+    while (toSkip > 0 && text.length > 0) {
+      const nl = text.indexOf('\n');
+      if (nl === -1) return '';
+      text = text.slice(nl + 1);
+      toSkip--;
+    }
+    return text;
+  };
+  const stream = new Transform({
+    transform(chunk: Buffer, _enc, callback) {
+      callback(null, skip(decoder.decode(chunk, { stream: true })));
+    },
+    flush(callback) {
+      callback(null, skip(decoder.decode()));
+    },
+  });
+  stream.setEncoding('utf-8');
+  return stream;
+}
+
+/** Stream a CSV file's rows (header row → keys), parsed per `dialect`. */
+export async function readCsv(filePath: string, sink: RowSink, dialect: CsvDialect = DEFAULT_CSV_DIALECT): Promise<void> {
+  const { default: Papa } = await import('papaparse');
+  return new Promise((resolve, reject) => {
+    const input = fs.createReadStream(filePath);
+    const text = decodeCsvText(dialect.encoding, dialect.skipRows);
+    let rowsSeen = 0;
+    let failed = false;
+    const fail = (err: unknown) => {
+      failed = true;
+      reject(err);
+    };
+
+    input.on('error', fail);
+    text.on('error', fail);
+    input.pipe(text);
+
+    Papa.parse<Record<string, string>>(text, {
+      header: true,
+      skipEmptyLines: true,
+      delimiter: dialect.delimiter,
+      quoteChar: dialect.quoteChar,
+      chunk: (results, parser) => {
+        try {
+          for (const err of results.errors) {
+            sink.warn(`CSV parse warning in ${filePath} (row ${rowsSeen + (err.row ?? 0)}): ${err.message}`);
+          }
+          rowsSeen += results.data.length;
+          if (results.data.length > 0) sink.rows(results.data, input.bytesRead);
+        } catch (err) {
+          parser.abort();
+          fail(err);
+        }
+      },
+      complete: () => {
+        if (!failed) resolve();
+      },
+      error: (err: Error) => fail(err),
+    });
+  });
+}
+
+function isRowObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+/** Stream a newline-delimited JSON file. Lines that aren't a JSON object are skipped with a warning. */
+export async function readNdjson(filePath: string, sink: RowSink): Promise<void> {
+  const input = fs.createReadStream(filePath, { encoding: 'utf-8' });
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  let batch: Record<string, unknown>[] = [];
+  let lineNo = 0;
+  for await (const line of lines) {
+    lineNo++;
+    if (line.trim() === '') continue;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (err: any) {
+      sink.warn(`NDJSON parse warning in ${filePath} (line ${lineNo}): ${err.message}`);
+      continue;
+    }
+    if (!isRowObject(value)) {
+      sink.warn(`NDJSON parse warning in ${filePath} (line ${lineNo}): expected a JSON object`);
+      continue;
+    }
+    batch.push(value);
+    if (batch.length >= JSON_BATCH_ROWS) {
+      sink.rows(batch, input.bytesRead);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) sink.rows(batch, input.bytesRead);
+}
+
+/** Read a JSON file holding a top-level array of objects. Non-object elements are skipped. */
+export async function readJsonArray(filePath: string, sink: RowSink): Promise<void> {
+  const text = await fs.promises.readFile(filePath, 'utf-8');
+  const size = Buffer.byteLength(text);
+  const parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${filePath} is not a JSON array of row objects`);
+  }
+  const rows = parsed.filter(isRowObject);
+  if (rows.length < parsed.length) {
+    sink.warn(`JSON parse warning in ${filePath}: skipped ${parsed.length - rows.length} array element(s) that are not objects`);
+  }
+  for (let i = 0; i < rows.length; i += JSON_BATCH_ROWS) {
+    const end = Math.min(i + JSON_BATCH_ROWS, rows.length);
+    sink.rows(rows.slice(i, end), Math.round((end / rows.length) * size));
+  }
+}
+
+type Hyparquet = typeof import('hyparquet');
+
+/** Read a Parquet file one row group at a time. Needs the optional `hyparquet` package. */
+export async function readParquet(filePath: string, sink: RowSink): Promise<void> {
+  const { asyncBufferFromFile, parquetMetadataAsync, parquetReadObjects } =
+    await importOptional<Hyparquet>('hyparquet', 'parquet');
+  const file = await asyncBufferFromFile(filePath);
+  const metadata = await parquetMetadataAsync(file);
+  let rowStart = 0;
+  let bytesRead = 0;
+  for (const group of metadata.row_groups) {
+    const rowEnd = rowStart + Number(group.num_rows);
+    const rows = await parquetReadObjects({ file, metadata, rowStart, rowEnd });
+    bytesRead += group.columns.reduce((sum, c) => sum + Number(c.meta_data?.total_compressed_size ?? 0), 0);
+    if (rows.length > 0) sink.rows(rows, Math.min(bytesRead, file.byteLength));
+    rowStart = rowEnd;
+  }
+}
+
+/** Stream any supported file into `sink`. `dialect` applies to CSV only. */
+export function readRows(filePath: string, format: FileFormat, sink: RowSink, dialect?: CsvDialect): Promise<void> {
+  switch (format) {
+    case 'csv': return readCsv(filePath, sink, dialect);
+    case 'ndjson': return readNdjson(filePath, sink);
+    case 'json': return readJsonArray(filePath, sink);
+    case 'parquet': return readParquet(filePath, sink);
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Foreign-key inference for file sources.
+ *
+ * A folder of files declares no keys, so joins are inferred and scored from two
+ * kinds of evidence:
+ * - Names — the same column in two tables (`sku` / `SKU`), or the same stem once
+ *   key suffixes are dropped (`cust_no` ~ `customer_number`, `customers.id` ~
+ *   `customer_id`).
+ * - Values — the share of a column's distinct values found in a column of another
+ *   table (the inclusion ratio), their cardinalities, and whether the "one" side
+ *   really is unique.
+ *
+ * Same-named id columns are always reported, scored by how well their values agree.
+ * Similar names need half their values to line up; a pair with no name in common
+ * is reported only when nearly all its values sit in a unique key and at least one
+ * side looks like a key.
+ */
+
+import type Database from 'better-sqlite3';
+import type { DataTable, DataColumn, ForeignKey, ForeignKeyEvidence } from '../types.js';
+
+/** Name tokens that say "key" rather than what is keyed: cust_no, customer_number, region_code. */
+const KEY_TOKENS = new Set(['id', 'no', 'nr', 'num', 'nbr', 'number', 'key', 'code', 'ref']);
+
+/** Whole names that are keys in their own right. */
+const KEY_NAMES = new Set(['sku', 'uuid', 'guid', 'ean', 'upc', 'isbn']);
+
+/** Inclusion ratio a similar-name pair needs. */
+const MIN_SIMILAR_CONTAINMENT = 0.5;
+
+/** Inclusion ratio a values-only pair needs. */
+const MIN_VALUE_CONTAINMENT = 0.9;
+
+/** Distinct values a values-only pair needs — a handful of small integers fits inside any id range. */
+const MIN_VALUE_DISTINCT = 3;
+
+/** Containment queries per load, most promising pairs first — bounds the cost on wide folders. */
+const MAX_PROBES = 200;
+
+/** Columns per non-empty-count query, under SQLite's result-column limit. */
+const COUNT_BATCH = 200;
+
+/** Confidence added by each kind of name agreement. */
+const NAME_WEIGHT: Record<ForeignKeyEvidence['nameMatch'], number> = { exact: 0.3, similar: 0.25, none: 0 };
+
+interface KeyColumn {
+  table: string;
+  column: DataColumn;
+  /** Distinct non-empty values (the profile's uniqueCount). */
+  distinct: number;
+  unique: boolean;
+  keyLike: boolean;
+  /** Tokens with key suffixes dropped, singularized and joined; the table's name for a bare `id`. */
+  stem: string;
+  /** The name is nothing but key tokens (`id`, `code`) — it says nothing about what it identifies. */
+  bare: boolean;
+}
+
+interface Probe {
+  from: KeyColumn;
+  to: KeyColumn;
+  nameMatch: ForeignKeyEvidence['nameMatch'];
+  /** Same-named id columns — reported whatever their values say. */
+  always: boolean;
+}
+
+function nameTokens(name: string): string[] {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function singular(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function quote(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function keyColumn(table: string, column: DataColumn, nonEmpty: number): KeyColumn {
+  const tokens = nameTokens(column.name);
+  const kept = tokens.filter((t) => !KEY_TOKENS.has(t));
+  const lower = column.name.toLowerCase();
+  return {
+    table,
+    column,
+    distinct: column.uniqueCount,
+    unique: column.uniqueCount >= 2 && column.uniqueCount === nonEmpty,
+    keyLike: column.type === 'id' || lower.endsWith('id') || KEY_NAMES.has(lower) || tokens.some((t) => KEY_TOKENS.has(t)),
+    stem: (kept.length > 0 ? kept : nameTokens(table)).map(singular).join(''),
+    bare: kept.length === 0,
+  };
+}
+
+function nameMatch(a: KeyColumn, b: KeyColumn): ForeignKeyEvidence['nameMatch'] {
+  // `id` in orders and `id` in customers name two different things.
+  const exact = a.column.name.toLowerCase() === b.column.name.toLowerCase();
+  if (exact && !a.bare) return 'exact';
+  const [short, long] = a.stem.length <= b.stem.length ? [a.stem, b.stem] : [b.stem, a.stem];
+  return short.length >= 3 && long.startsWith(short) ? 'similar' : 'none';
+}
+
+/** Non-empty cell counts for a table's columns, to tell a unique key from a mostly-unique one. */
+function nonEmptyCounts(db: Database.Database, table: DataTable, columns: DataColumn[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let from = 0; from < columns.length; from += COUNT_BATCH) {
+    const batch = columns.slice(from, from + COUNT_BATCH);
+    const exprs = batch.map((c, i) => {
+      const q = quote(c.name);
+      return `COUNT(CASE WHEN ${q} IS NOT NULL AND ${q} != '' THEN 1 END) as c${i}`;
+    });
+    const row = db.prepare(`SELECT ${exprs.join(', ')} FROM ${quote(table.name)}`).get() as Record<string, number>;
+    batch.forEach((c, i) => counts.set(c.name, row[`c${i}`]));
+  }
+  return counts;
+}
+
+/** Share of `from`'s distinct values present in `to`, compared as text (optionally case/space-folded). */
+function containment(db: Database.Database, from: KeyColumn, to: KeyColumn, folded: boolean): { total: number; ratio: number } {
+  const expr = (col: string) => (folded ? `LOWER(TRIM(CAST(${quote(col)} AS TEXT)))` : `CAST(${quote(col)} AS TEXT)`);
+  const f = quote(from.column.name);
+  const row = db.prepare(`
+    SELECT COUNT(*) as total, COALESCE(SUM(v IN (
+      SELECT ${expr(to.column.name)} FROM ${quote(to.table)} WHERE ${quote(to.column.name)} IS NOT NULL
+    )), 0) as matched
+    FROM (SELECT DISTINCT ${expr(from.column.name)} as v FROM ${quote(from.table)} WHERE ${f} IS NOT NULL AND ${f} != '')
+  `).get() as { total: number; matched: number };
+  return { total: row.total, ratio: row.total > 0 ? row.matched / row.total : 0 };
+}
+
+function confidence(evidence: ForeignKeyEvidence): number {
+  const cardinality = Math.min(1, Math.log10(Math.max(evidence.fromDistinct, 1)) / 2);
+  const score = evidence.containment
+    * (0.5 + NAME_WEIGHT[evidence.nameMatch] + (evidence.toUnique ? 0.1 : 0) + 0.1 * cardinality)
+    * (evidence.caseInsensitive ? 0.9 : 1);
+  return Math.round(Math.min(1, score) * 100) / 100;
+}
+
+/**
+ * Orient a pair as many → one: toward the unique side, then toward the side with
+ * more distinct values (the dimension); a tie keeps table order.
+ */
+function orient(a: KeyColumn, b: KeyColumn): [KeyColumn, KeyColumn] {
+  if (a.unique !== b.unique) return a.unique ? [b, a] : [a, b];
+  return b.distinct < a.distinct ? [b, a] : [a, b];
+}
+
+/**
+ * Infer foreign keys between the loaded tables of a file source, strongest first,
+ * each with a confidence score and the evidence behind it.
+ */
+export function inferForeignKeys(db: Database.Database, tables: DataTable[]): ForeignKey[] {
+  const columns: KeyColumn[] = [];
+  for (const table of tables) {
+    const counts = nonEmptyCounts(db, table, table.columns);
+    for (const column of table.columns) {
+      columns.push(keyColumn(table.name, column, counts.get(column.name) ?? 0));
+    }
+  }
+
+  const probes: Probe[] = [];
+  for (let i = 0; i < columns.length; i++) {
+    for (let j = i + 1; j < columns.length; j++) {
+      const a = columns[i];
+      const b = columns[j];
+      if (a.table === b.table || a.distinct === 0 || b.distinct === 0) continue;
+      const match = nameMatch(a, b);
+      const [from, to] = orient(a, b);
+      if (match === 'exact' && (a.keyLike || b.keyLike)) {
+        probes.push({ from, to, nameMatch: match, always: true });
+        continue;
+      }
+      const keyTypes = [from, to].every((c) => c.column.type !== 'date' && c.column.type !== 'text');
+      if (!keyTypes || !to.unique) continue;
+      if (match !== 'none') {
+        probes.push({ from, to, nameMatch: match, always: false });
+        continue;
+      }
+      // Two plain measures (price, quantity) overlap by accident; a key on one side doesn't.
+      const numeric = (c: KeyColumn) => c.column.type === 'numeric' && !c.keyLike;
+      if (numeric(from) && numeric(to)) continue;
+      if (!from.keyLike && !to.keyLike && (numeric(from) || numeric(to))) continue;
+      if (from.distinct < MIN_VALUE_DISTINCT || from.distinct * MIN_VALUE_CONTAINMENT > to.distinct) continue;
+      probes.push({ from, to, nameMatch: match, always: false });
+    }
+  }
+
+  const rank = { exact: 0, similar: 1, none: 2 };
+  probes.sort((p, q) => rank[p.nameMatch] - rank[q.nameMatch] || q.to.distinct - p.to.distinct);
+
+  const foreignKeys: ForeignKey[] = [];
+  for (const probe of probes.slice(0, MAX_PROBES)) {
+    const { from, to } = probe;
+    const needed = probe.nameMatch === 'none' ? MIN_VALUE_CONTAINMENT : MIN_SIMILAR_CONTAINMENT;
+    let measured = containment(db, from, to, false);
+    let caseInsensitive = false;
+    if (measured.ratio < needed && from.column.type !== 'numeric' && to.column.type !== 'numeric') {
+      const folded = containment(db, from, to, true);
+      if (folded.ratio >= needed) {
+        measured = folded;
+        caseInsensitive = true;
+      }
+    }
+    if (!probe.always && measured.ratio < needed) continue;
+
+    const evidence: ForeignKeyEvidence = {
+      nameMatch: probe.nameMatch,
+      containment: Math.round(measured.ratio * 1000) / 1000,
+      fromDistinct: from.distinct,
+      toDistinct: to.distinct,
+      toUnique: to.unique,
+      ...(caseInsensitive ? { caseInsensitive } : {}),
+    };
+    foreignKeys.push({
+      fromTable: from.table,
+      fromColumn: from.column.name,
+      toTable: to.table,
+      toColumn: to.column.name,
+      confidence: confidence(evidence),
+      evidence,
+    });
+  }
+
+  // A values-only match is a guess at what a column refers to: keep the best one, and
+  // none at all for a column whose name already tied it to a table.
+  const named = new Set(foreignKeys.filter((fk) => fk.evidence!.nameMatch !== 'none').map((fk) => `${fk.fromTable}.${fk.fromColumn}`));
+  const best = new Map<string, ForeignKey>();
+  for (const fk of foreignKeys) {
+    if (fk.evidence!.nameMatch !== 'none') continue;
+    const key = `${fk.fromTable}.${fk.fromColumn}`;
+    if (named.has(key)) continue;
+    if ((best.get(key)?.confidence ?? -1) < fk.confidence!) best.set(key, fk);
+  }
+  return foreignKeys
+    .filter((fk) => fk.evidence!.nameMatch !== 'none' || best.get(`${fk.fromTable}.${fk.fromColumn}`) === fk)
+    .sort((a, b) => b.confidence! - a.confidence!);
+}
@@ -11,11 +11,17 @@ export type {
   QueryExecutionResult,
   ConnectorResult,
   SourceRegistryEntry,
+  ConnectOptions,
+  LoadProgress,
 } from './types.js';
 
 // ─── Connectors ─────────────────────────────────────────────────────────────
 export { csvConnector } from './csv.js';
+export { excelConnector } from './excel.js';
+export { sqliteConnector } from './sqlite.js';
+export { duckdbConnector } from './duckdb.js';
 export { pgConnector } from './pg/index.js';
+export { mysqlConnector } from './mysql/index.js';
 export { mongoConnector } from './mongo/index.js';
 
 // ─── Manager ────────────────────────────────────────────────────────────────
@@ -0,0 +1,164 @@
+/**
+ * Result-column lineage — which source columns a query's result columns are made from.
+ *
+ * Redaction decides per source column (listed by the policy, or classified from the
+ * schema's values), but rows come back under the query's own names: `SELECT ssn AS x`
+ * or `UPPER(customer_name) AS who` would slip past a decision made on result names alone.
+ * This maps each result column back to every identifier its projection references,
+ * following aliases through subqueries and CTEs (SQL) or through `$project`/`$group`/
+ * `$addFields` stages (pipelines).
+ *
+ * Deliberately OVER-inclusive: a projection that references a column at all inherits it,
+ * and intermediate alias names stay in the set. A column referenced only in WHERE,
+ * GROUP BY or a join condition is not a projection, so it passes nothing on.
+ */
+
+interface Projection {
+  /** The name the item comes out under, lowercased. */
+  name: string;
+  /** Identifiers its expression references, lowercased. */
+  refs: string[];
+}
+
+const IDENT = String.raw`(?:"(?:[^"]|"")+"|\x60[^\x60]+\x60|\[[^\]]+\]|[A-Za-z_][\w$]*)`;
+const ALIAS = new RegExp(String.raw`^([\s\S]*?[\w)"\x60\]'])\s+(AS\s+)?(${IDENT})$`, 'i');
+// A (qualified) identifier that isn't a function name.
+const REF = new RegExp(String.raw`${IDENT}(?:\s*\.\s*${IDENT})*(?![\w$]|\s*\()`, 'g');
+const NOT_ALIAS = new Set(['end', 'null', 'true', 'false', 'asc', 'desc', 'distinct', 'all']);
+const KEYWORDS = new Set([...NOT_ALIAS, 'case', 'when', 'then', 'else', 'and', 'or', 'not', 'as', 'is', 'in', 'like', 'between', 'interval', 'over', 'partition', 'by', 'order', 'filter', 'where']);
+const LIST_END = /\s(?:FROM|WHERE|GROUP|HAVING|ORDER|LIMIT|UNION|EXCEPT|INTERSECT|WINDOW)\b/iy;
+
+function unquote(ident: string): string {
+  const q = ident[0];
+  if (q === '"') return ident.slice(1, -1).replace(/""/g, '"');
+  if (q === '`' || q === '[') return ident.slice(1, -1);
+  return ident;
+}
+
+// Blank out string literals and comments, so nothing inside them reads as a column.
+function mask(sql: string): string {
+  return sql
+    .replace(/'(?:[^']|'')*'/g, "''")
+    .replace(/--.*$/gm, ' ')
+    .replace(/\/\*[\s\S]*?\*\//g, ' ');
+}
+
+// A count carries none of its argument's values: `COUNT(DISTINCT email) AS users` is just a number.
+function dropCounts(expr: string): string {
+  let out = expr;
+  for (let m = out.match(/\bCOUNT\s*\(/i); m; m = out.match(/\bCOUNT\s*\(/i)) {
+    let depth = 0;
+    let end = m.index! + m[0].length - 1;
+    for (; end < out.length; end++) {
+      if (out[end] === '(') depth++;
+      else if (out[end] === ')' && --depth === 0) break;
+    }
+    out = `${out.slice(0, m.index)} 0 ${out.slice(end + 1)}`;
+  }
+  return out;
+}
+
+/** Every SELECT's projection list, at any depth, split into items. */
+function sqlProjections(sql: string): Projection[] {
+  const s = mask(sql);
+  const out: Projection[] = [];
+  for (const m of s.matchAll(/\bSELECT\b/gi)) {
+    const items: string[] = [];
+    let depth = 0;
+    let start = m.index! + m[0].length;
+    let i = start;
+    for (; i < s.length; i++) {
+      const ch = s[i];
+      if (ch === '"' || ch === '`') {
+        const close = s.indexOf(ch, i + 1);
+        i = close < 0 ? s.length : close;
+      } else if (ch === '(') depth++;
+      else if (ch === ')' && --depth < 0) break;
+      else if (depth === 0 && ch === ',') {
+        items.push(s.slice(start, i));
+        start = i + 1;
+      } else if (depth === 0) {
+        LIST_END.lastIndex = i;
+        if (LIST_END.test(s)) break;
+      }
+    }
+    items.push(s.slice(start, i));
+    for (const raw of items) {
+      const item = raw.trim().replace(/^(?:DISTINCT|ALL)\s+/i, '');
+      if (!item || item === '*' || item.endsWith('.*')) continue;
+      const aliased = item.match(ALIAS);
+      const alias = aliased && (aliased[2] || !NOT_ALIAS.has(aliased[3].toLowerCase())) ? aliased : null;
+      const expr = alias ? alias[1] : item;
+      const refs = [...dropCounts(expr).matchAll(REF)]
+        .map((r) => r[0].split(/\s*\.\s*/).pop()!)
+        .filter((id) => !KEYWORDS.has(id.toLowerCase()))
+        .map((id) => unquote(id).toLowerCase());
+      const bare = !alias && refs.length === 1 && new RegExp(`^${IDENT}(?:\\s*\\.\\s*${IDENT})*$`).test(expr);
+      out.push({ name: alias ? unquote(alias[3]).toLowerCase() : bare ? refs[0] : expr.toLowerCase(), refs });
+      // Unaliased, an expression comes out under its own text (SQLite, MySQL) or its outer
+      // function's name (Postgres: `upper`).
+      const fn = !alias && expr.match(/^([A-Za-z_]\w*)\s*\(/);
+      if (fn) out.push({ name: fn[1].toLowerCase(), refs });
+    }
+  }
+  return out;
+}
+
+/** Field references (`$field`, `$a.b`) anywhere inside a stage value. */
+function fieldRefs(value: unknown): string[] {
+  if (typeof value === 'string') {
+    if (!value.startsWith('$') || value.startsWith('$$')) return [];
+    const path = value.slice(1).toLowerCase();
+    return [path, path.split('.')[0]];
+  }
+  if (Array.isArray(value)) return value.flatMap(fieldRefs);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(fieldRefs);
+  return [];
+}
+
+/** Every output field a pipeline stage names, with the fields its value references. */
+function pipelineProjections(query: string): Projection[] {
+  let stages: unknown;
+  try {
+    stages = JSON.parse(query).pipeline;
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stages)) return [];
+  const out: Projection[] = [];
+  const visit = (value: unknown) => {
+    if (!value || typeof value !== 'object') return;
+    for (const [key, v] of Object.entries(value)) {
+      if (!key.startsWith('$')) out.push({ name: key.toLowerCase(), refs: fieldRefs(v) });
+      visit(v);
+    }
+  };
+  visit(stages);
+  return out;
+}
+
+/**
+ * For each of `columns` (the result's), the lowercased names it may be made from — its
+ * own name, plus every identifier its projection references, followed through aliases.
+ * `document` reads `query` as an aggregation pipeline rather than SQL.
+ */
+export function resultLineage(query: string, columns: string[], document = false): Map<string, Set<string>> {
+  const projections = document ? pipelineProjections(query) : sqlProjections(query);
+  const byName = new Map<string, string[]>();
+  for (const p of projections) byName.set(p.name, [...(byName.get(p.name) ?? []), ...p.refs]);
+
+  const lineage = new Map<string, Set<string>>();
+  for (const column of columns) {
+    const seen = new Set<string>([column.toLowerCase()]);
+    const queue = [column.toLowerCase()];
+    while (queue.length > 0) {
+      for (const ref of byName.get(queue.pop()!) ?? []) {
+        if (seen.has(ref)) continue;
+        seen.add(ref);
+        queue.push(ref);
+      }
+    }
+    lineage.set(column, seen);
+  }
+  return lineage;
+}
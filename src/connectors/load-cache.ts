@@ -0,0 +1,227 @@
+/**
+ * Persistent cache of loaded file sources.
+ *
+ * Loading a big CSV means streaming, typing and profiling every row — seconds to
+ * minutes. With the cache on, the file connectors keep each loaded SQLite database
+ * and its profiled tables under `<dolex home>/cache/`, one slot per source (type +
+ * path), and the next connect restores them instead of re-reading the files.
+ *
+ * A slot is reused only while its fingerprint still matches: every data file's
+ * size and mtime, the CSV dialect overrides, and the content hashes of the
+ * `.dolex.json` and `<base>.cleanfix.json` sidecars. Anything else reloads and
+ * overwrites the slot. The cached database holds the loaded base data only —
+ * derived columns are replayed from the manifest on every connect, as for a
+ * fresh load.
+ *
+ * Opt-in: set `DOLEX_CACHE=1`. `dolex cache` lists and prunes the slots.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type Database from 'better-sqlite3';
+import type { CsvSourceConfig, ExcelSourceConfig, DataTable, ForeignKey } from '../types.js';
+import { fileFormat } from './file-formats.js';
+import { resolveManifestPath } from '../transforms/manifest.js';
+import { resolveCleanfixPath } from '../cleaning/replay.js';
+
+/** Bump when the loader's output (database layout or profile) changes, to retire old slots. */
+const CACHE_VERSION = 2;
+
+const DB_FILE = 'data.sqlite';
+const META_FILE = 'meta.json';
+
+export type CachedSourceConfig = CsvSourceConfig | ExcelSourceConfig;
+
+export interface CacheEntryMeta {
+  version: number;
+  fingerprint: string;
+  config: CachedSourceConfig;
+  tables: DataTable[];
+  foreignKeys: ForeignKey[];
+  createdAt: string;
+}
+
+export interface CacheEntry {
+  /** Slot directory name under the cache dir. */
+  slot: string;
+  meta: CacheEntryMeta;
+  /** Size of the cached database file. */
+  bytes: number;
+  /** `fresh` — reusable; `stale` — the source changed since; `missing` — the source is gone. */
+  status: 'fresh' | 'stale' | 'missing';
+}
+
+/** `<home>/cache` when `DOLEX_CACHE` is set to a truthy value (1, true, on, yes); otherwise undefined. */
+export function loadCacheDir(home: string): string | undefined {
+  const flag = process.env.DOLEX_CACHE?.trim().toLowerCase();
+  return flag && /^(1|true|on|yes)$/.test(flag) ? path.join(home, 'cache') : undefined;
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function fileHash(filePath: string): string | null {
+  try {
+    return sha256(fs.readFileSync(filePath));
+  } catch {
+    return null;
+  }
+}
+
+/** One slot per source — the same file re-registered (or re-opened) lands in the same slot. */
+function slotName(config: CachedSourceConfig): string {
+  return sha256(`${config.type}\0${path.resolve(config.path)}`).slice(0, 16);
+}
+
+/** The data files a source loads, as the file connectors list them. */
+function sourceFiles(config: CachedSourceConfig): string[] {
+  if (config.type === 'csv' && fs.statSync(config.path).isDirectory()) {
+    return fs.readdirSync(config.path)
+      .filter((f) => fileFormat(f) !== null)
+      .sort()
+      .map((f) => path.join(config.path, f));
+  }
+  return [config.path];
+}
+
+/** Hash of everything a load depends on. Throws if the source path is gone. */
+export function sourceFingerprint(config: CachedSourceConfig): string {
+  const files = sourceFiles(config).map((f) => {
+    const st = fs.statSync(f);
+    return {
+      name: path.basename(f),
+      size: st.size,
+      mtimeMs: st.mtimeMs,
+      cleanfix: config.type === 'csv' ? fileHash(resolveCleanfixPath(f)) : null,
+    };
+  });
+  const dialect = config.type === 'csv'
+    ? { delimiter: config.delimiter, encoding: config.encoding, skipRows: config.skipRows }
+    : {};
+  return sha256(JSON.stringify({
+    version: CACHE_VERSION,
+    type: config.type,
+    path: path.resolve(config.path),
+    dialect,
+    files,
+    manifest: fileHash(resolveManifestPath(config)),
+  }));
+}
+
+function readMeta(slotDir: string): CacheEntryMeta | null {
+  try {
+    const meta = JSON.parse(fs.readFileSync(path.join(slotDir, META_FILE), 'utf-8')) as CacheEntryMeta;
+    return meta.version === CACHE_VERSION ? meta : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The cached load for `config`, if its slot holds one whose fingerprint still matches
+ * the source. Returns the database file to restore and the profiled tables.
+ */
+export function readCachedLoad(
+  cacheDir: string,
+  config: CachedSourceConfig,
+): { dbPath: string; meta: CacheEntryMeta } | null {
+  const slotDir = path.join(cacheDir, slotName(config));
+  const meta = readMeta(slotDir);
+  const dbPath = path.join(slotDir, DB_FILE);
+  if (!meta || !fs.existsSync(dbPath)) return null;
+  try {
+    return meta.fingerprint === sourceFingerprint(config) ? { dbPath, meta } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store a fresh load in `config`'s slot, replacing whatever was there. The database is
+ * copied with SQLite's online backup into a temp file and renamed into place, then the
+ * metadata is written — a reader never sees a half-written slot as valid.
+ */
+export async function writeCachedLoad(
+  cacheDir: string,
+  config: CachedSourceConfig,
+  db: Database.Database,
+  tables: DataTable[],
+  foreignKeys: ForeignKey[],
+): Promise<void> {
+  const slotDir = path.join(cacheDir, slotName(config));
+  fs.mkdirSync(slotDir, { recursive: true });
+  fs.rmSync(path.join(slotDir, META_FILE), { force: true });
+
+  const fingerprint = sourceFingerprint(config);
+  const tmp = path.join(slotDir, `${DB_FILE}.${process.pid}.tmp`);
+  try {
+    await db.backup(tmp);
+    fs.renameSync(tmp, path.join(slotDir, DB_FILE));
+  } finally {
+    fs.rmSync(tmp, { force: true });
+  }
+
+  const meta: CacheEntryMeta = {
+    version: CACHE_VERSION,
+    fingerprint,
+    config,
+    tables,
+    foreignKeys,
+    createdAt: new Date().toISOString(),
+  };
+  fs.writeFileSync(path.join(slotDir, META_FILE), JSON.stringify(meta));
+}
+
+/** Every slot in the cache, with whether it is still reusable. Unreadable slots are skipped. */
+export function listCacheEntries(cacheDir: string): CacheEntry[] {
+  if (!fs.existsSync(cacheDir)) return [];
+  const entries: CacheEntry[] = [];
+  for (const slot of fs.readdirSync(cacheDir)) {
+    const slotDir = path.join(cacheDir, slot);
+    const meta = readMeta(slotDir);
+    if (!meta) continue;
+    let bytes = 0;
+    try {
+      bytes = fs.statSync(path.join(slotDir, DB_FILE)).size;
+    } catch {
+      continue;
+    }
+    let status: CacheEntry['status'];
+    if (!fs.existsSync(meta.config.path)) {
+      status = 'missing';
+    } else {
+      try {
+        status = sourceFingerprint(meta.config) === meta.fingerprint ? 'fresh' : 'stale';
+      } catch {
+        status = 'missing';
+      }
+    }
+    entries.push({ slot, meta, bytes, status });
+  }
+  return entries.sort((a, b) => a.meta.config.path.localeCompare(b.meta.config.path));
+}
+
+/**
+ * Delete slots: by default the ones that can't be reused (stale, missing, or left
+ * unreadable by an interrupted write); with `all`, everything. Returns the bytes freed.
+ */
+export function pruneCache(cacheDir: string, opts: { all?: boolean } = {}): { removed: number; bytes: number } {
+  if (!fs.existsSync(cacheDir)) return { removed: 0, bytes: 0 };
+  const keep = new Set(
+    opts.all ? [] : listCacheEntries(cacheDir).filter((e) => e.status === 'fresh').map((e) => e.slot),
+  );
+  let removed = 0;
+  let bytes = 0;
+  for (const slot of fs.readdirSync(cacheDir)) {
+    if (keep.has(slot)) continue;
+    const slotDir = path.join(cacheDir, slot);
+    for (const f of fs.existsSync(slotDir) && fs.statSync(slotDir).isDirectory() ? fs.readdirSync(slotDir) : []) {
+      try { bytes += fs.statSync(path.join(slotDir, f)).size; } catch { /* raced */ }
+    }
+    fs.rmSync(slotDir, { recursive: true, force: true });
+    removed++;
+  }
+  return { removed, bytes };
+}
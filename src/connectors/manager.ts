@@ -7,23 +7,34 @@
  * - Connector lookup by type
  * - Connection caching (lazy connect on first query)
  * - SQL query execution with safety checks
+ * - Redaction of personal data in samples and results, per the source's policy
  */
 
 import * as fs from 'fs';
+import * as path from 'path';
 import * as crypto from 'crypto';
-import type { DataSourceType, DataSourceConfig, DataSchema } from '../types.js';
+import type { DataSourceType, DataSourceConfig, DataSchema, QueryLimits, RedactionPolicy } from '../types.js';
 import type {
   ConnectedSource,
+  ConnectOptions,
   DataConnector,
   SourceRegistryEntry,
   QueryExecutionResult,
 } from './types.js';
+import { queryTimeouts } from './types.js';
 import { csvConnector } from './csv.js';
+import { excelConnector } from './excel.js';
+import { sqliteConnector } from './sqlite.js';
+import { duckdbConnector } from './duckdb.js';
 import { pgConnector } from './pg/index.js';
-import { mongoConnector } from './mongo/index.js';
+import { mysqlConnector } from './mysql/index.js';
+import { mongoConnector, appendStages } from './mongo/index.js';
 import { riskyDivisionTerms, detectSqlFootguns, divisionDenominators, detectDivByZero, detectBareAggregate } from './sql-safety.js';
+import { loadRedactionKey, redactRows, redactSchema, sourceRedactionPlan, type RedactionTarget } from '../utils/pii.js';
+import { resultLineage } from './lineage.js';
+import { MONGO_NO_LOCK_TIMEOUT } from './source-factory.js';
 
-const MAX_RESULT_ROWS = 10000;
+export const MAX_RESULT_ROWS = 10000;
 
 // ─── SQL Query Result ─────────────────────────────────────────────────────
 
@@ -38,6 +49,15 @@ export interface SqlQueryResult {
    *  query still ran; these signal silent-wrong-answer traps so the caller can
    *  re-issue a corrected query. The engine never rewrites the SQL itself. */
   warnings?: string[];
+  /** Columns whose values the source's redaction policy masked, hashed or dropped. */
+  redacted?: string[];
+}
+
+/** One page of a result: `rows` starts at `offset`; `hasMore` says a later page exists. */
+export interface SqlQueryPage extends SqlQueryResult {
+  offset?: number;
+  pageSize?: number;
+  hasMore?: boolean;
 }
 
 // ─── SQL Safety ───────────────────────────────────────────────────────────
@@ -76,9 +96,9 @@ function isReadOnlySelect(sql: string): boolean {
   return false;
 }
 
-function wrapWithLimit(sql: string, maxRows: number): string {
+function wrapWithLimit(sql: string, maxRows: number, offset = 0): string {
   const trimmed = sql.trim().replace(/;\s*$/, '');
-  return `SELECT * FROM (${trimmed}) AS _q LIMIT ${maxRows}`;
+  return `SELECT * FROM (${trimmed}) AS _q LIMIT ${maxRows}${offset > 0 ? ` OFFSET ${offset}` : ''}`;
 }
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
@@ -88,27 +108,37 @@ function generateSourceId(name: string): string {
   return `src-${hash}`;
 }
 
+/** A query the server cancelled under the source's QueryLimits — Postgres statement/lock
+ *  timeout, MySQL max_execution_time, MariaDB max_statement_time, an InnoDB lock wait, or a
+ *  Mongo maxTimeMS. */
+const QUERY_TIMEOUT = /statement timeout|lock timeout|Lock wait timeout exceeded|maximum statement execution time exceeded|max_statement_time exceeded|exceeded time limit|MaxTimeMSExpired/i;
+
 /** Classify a connection failure into an actionable kind, so callers can give a specific next step
  *  (install the driver / start the DB / fix credentials) instead of relaying a raw driver string. */
 export function classifyConnError(msg = ''): 'driver-missing' | 'unreachable' | 'host-not-found' | 'timeout' | 'auth-failed' | 'db-not-found' | 'error' {
   if (/needs an optional dependency|npm install/i.test(msg)) return 'driver-missing';
   if (/ECONNREFUSED|connection refused/i.test(msg)) return 'unreachable';
   if (/ENOTFOUND|EAI_AGAIN|getaddrinfo/i.test(msg)) return 'host-not-found';
-  if (/ETIMEDOUT|timed? ?out/i.test(msg)) return 'timeout';
-  if (/password|authentication|auth(entication)? failed|SCRAM|role ".*" does not exist|not authorized/i.test(msg)) return 'auth-failed';
+  if (/ETIMEDOUT|timed? ?out/i.test(msg) || QUERY_TIMEOUT.test(msg)) return 'timeout';
+  if (/password|authentication|auth(entication)? failed|SCRAM|role ".*" does not exist|not authorized|Access denied for user|is not allowed to connect/i.test(msg)) return 'auth-failed';
   if (/database ".*" does not exist|Unknown database|no such database/i.test(msg)) return 'db-not-found';
   return 'error';
 }
 
 const CONNECTOR_MAP: Record<string, DataConnector> = {
   csv: csvConnector,
+  excel: excelConnector,
+  sqlite: sqliteConnector,
+  duckdb: duckdbConnector,
   postgres: pgConnector,
+  mysql: mysqlConnector,
   mongodb: mongoConnector,
 };
 
 /** SQL-family sources go through the SQL safety/limit/error machinery; a document store
  *  (mongodb) is routed down a pipeline path instead (no SELECT gate, no LIMIT-wrap). */
-const isSqlSource = (type?: string): boolean => type === 'csv' || type === 'postgres';
+const isSqlSource = (type?: string): boolean =>
+  type === 'csv' || type === 'excel' || type === 'sqlite' || type === 'duckdb' || type === 'postgres' || type === 'mysql';
 
 /** Read-only gate for an aggregation pipeline: reject write stages ($out/$merge) and any
  *  arbitrary-JS operators ($function/$accumulator/$where) — the Mongo analogue of the
@@ -148,18 +178,34 @@ export class SourceManager {
   private connections: Map<string, ConnectedSource> = new Map();
   private pendingConnections: Map<string, Promise<{ ok: boolean; source?: ConnectedSource; error?: string }>> = new Map();
   private persistPath: string | null;
+  private cacheDir?: string;
+  /** The connector behind each redacting proxy, for the in-process readers that need real values. */
+  private unredacted = new WeakMap<ConnectedSource, ConnectedSource>();
 
   /**
    * @param persistPath Optional JSON file for persisting the registry.
    *                    Loaded on construction and saved on every mutation.
+   * @param options.cacheDir Load cache for file sources (see load-cache.ts); omitted ⇒ no caching.
    */
-  constructor(persistPath?: string) {
+  constructor(persistPath?: string, options: { cacheDir?: string } = {}) {
     this.persistPath = persistPath || null;
+    this.cacheDir = options.cacheDir;
     if (this.persistPath) {
       this.loadRegistry();
+      // Hashed values stay stable across runs under the installation's key; without a
+      // usable one they're keyed per process.
+      try { loadRedactionKey(path.dirname(this.persistPath)); } catch { /* keyed per process */ }
     }
   }
 
+  /**
+   * The directory the registry is persisted in — home for per-source state with no data
+   * file to sit beside (a database source's data-context sidecars). Null when ephemeral.
+   */
+  get stateDir(): string | null {
+    return this.persistPath ? path.dirname(this.persistPath) : null;
+  }
+
   // ─── Registry Persistence ──────────────────────────────────────────────────
 
   private loadRegistry(): void {
@@ -248,6 +294,7 @@ export class SourceManager {
     const entry = this.findEntry(idOrName);
     if (!entry) return { ok: false, error: `Source not found: ${idOrName}` };
     const config = { ...entry.config, ...patch, type: entry.config.type } as DataSourceConfig;
+    if (config.type === 'mongodb' && (patch as QueryLimits).lockTimeoutMs !== undefined) return { ok: false, error: MONGO_NO_LOCK_TIMEOUT };
     const connector = getConnectorForType(config.type)!;
     const testResult = await connector.test(config);
     if (!testResult.ok && opts.verify) return { ok: false, error: testResult.error, verified: false };
@@ -303,8 +350,14 @@ export class SourceManager {
 
   // ─── Connection Management ─────────────────────────────────────────────────
 
+  /**
+   * Connect (or return the cached connection). `options.onProgress` only reaches the
+   * connector when this call starts the connection — a caller joining an in-flight
+   * connect just waits for it.
+   */
   async connect(
-    idOrName: string
+    idOrName: string,
+    options: ConnectOptions = {},
   ): Promise<{ ok: boolean; source?: ConnectedSource; error?: string }> {
     const entry = this.findEntry(idOrName);
     if (!entry) {
@@ -332,7 +385,7 @@ export class SourceManager {
     // Create the connection promise and store it to deduplicate concurrent calls
     const connectPromise = (async () => {
       try {
-        const connected = await connector.connect(entry.config);
+        const connected = this.redacting(entry, await connector.connect(entry.config, { cacheDir: this.cacheDir, ...options }));
         this.connections.set(entry.id, connected);
         entry.connectedAt = new Date().toISOString();
         this.saveRegistry();
@@ -374,6 +427,66 @@ export class SourceManager {
     return this.connections.has(entry.id);
   }
 
+  // ─── Redaction ─────────────────────────────────────────────────────────────
+
+  /** The source's redaction policy — what it has registered, else the default (mask what is detected). */
+  redactionPolicy(idOrName: string): RedactionPolicy {
+    return this.findEntry(idOrName)?.config.redaction ?? {};
+  }
+
+  /**
+   * The connected source as callers see it: its schema's sample and top values and its
+   * sample rows pass through the source's redaction policy (read at call time). Queries
+   * reach the connector untouched — querySql/queryPage redact their results.
+   */
+  private redacting(entry: SourceRegistryEntry, source: ConnectedSource): ConnectedSource {
+    const proxy = new Proxy(source, {
+      get: (target, prop) => {
+        if (prop === 'getSchema') {
+          // A redacted copy per read: the connector's cached schema keeps its real values,
+          // and any columns a derivation has since added to it.
+          return async () => redactSchema(await target.getSchema(), entry.config.redaction);
+        }
+        if (prop === 'getSampleRows') {
+          return async (table: string, count?: number) => redactRows(await target.getSampleRows(table, count), entry.config.redaction).rows;
+        }
+        const value = Reflect.get(target, prop, target);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+    this.unredacted.set(proxy, source);
+    return proxy;
+  }
+
+  /**
+   * A successful result with the source's redaction policy applied to its rows. Columns are
+   * judged by their own names and values, and also by the source columns `query` made them
+   * from — so an alias or an expression over a listed or classified column stays redacted.
+   */
+  private async redactResult<T extends SqlQueryResult>(idOrName: string, query: string, result: T): Promise<T> {
+    if (!result.ok || !result.rows) return result;
+    const policy = this.redactionPolicy(idOrName);
+    const { rows, columns, redacted } = redactRows(result.rows, policy, result.columns, await this.inheritedRedaction(idOrName, query, result));
+    return { ...result, rows, columns, ...(redacted.length ? { redacted } : {}) };
+  }
+
+  /** Each result column made from a column the policy redacts in the source, with its target. */
+  private async inheritedRedaction(idOrName: string, query: string, result: SqlQueryResult): Promise<Map<string, RedactionTarget>> {
+    const inherited = new Map<string, RedactionTarget>();
+    const policy = this.redactionPolicy(idOrName);
+    const schema = policy.mode === 'off' ? undefined : (await this.getSchema(idOrName, { redact: false })).schema;
+    if (!schema) return inherited;
+    const sourcePlan = sourceRedactionPlan(schema, policy);
+    if (sourcePlan.size === 0) return inherited;
+    const names = result.columns ?? Object.keys(result.rows?.[0] ?? {});
+    const type = this.findEntry(idOrName)?.type;
+    for (const [column, from] of resultLineage(query, names, !!type && !isSqlSource(type))) {
+      const target = [...from].map((c) => sourcePlan.get(c)).find(Boolean);
+      if (target) inherited.set(column, target);
+    }
+    return inherited;
+  }
+
   // ─── Querying ──────────────────────────────────────────────────────────────
 
   /**
@@ -389,14 +502,21 @@ export class SourceManager {
     return { ok: true, source: result.source };
   }
 
+  /**
+   * The source's schema, its sample and top values redacted under the source's policy;
+   * `options.redact: false` reads the real values, for the audit's column checks — as
+   * querySql's does for its queries.
+   */
   async getSchema(
-    idOrName: string
+    idOrName: string,
+    options: { redact?: boolean } = {},
   ): Promise<{ ok: boolean; schema?: DataSchema; error?: string }> {
     const resolved = await this.resolveSource(idOrName);
     if (!resolved.ok) return resolved;
 
     try {
-      const schema = await resolved.source.getSchema();
+      const source = options.redact === false ? this.unredacted.get(resolved.source) ?? resolved.source : resolved.source;
+      const schema = await source.getSchema();
       return { ok: true, schema };
     } catch (err: any) {
       return { ok: false, error: `Schema introspection failed: ${err.message}` };
@@ -431,28 +551,44 @@ export class SourceManager {
 
   /**
    * Execute a SQL query against a source with safety checks.
-   * Only SELECT/WITH queries are allowed. Results are auto-capped at maxRows.
+   * Only SELECT/WITH queries are allowed. Results are auto-capped at maxRows, and never
+   * exceed the source's own row cap (see resultCap).
    * Error messages are enriched with available table/column names.
+   * Rows are redacted under the source's policy; `options.redact: false` is for in-process
+   * readers whose output never carries values (the audit's PII scan).
    */
   async querySql(
     idOrName: string,
     sql: string,
-    maxRows: number = MAX_RESULT_ROWS
+    maxRows?: number,
+    options: { redact?: boolean } = {},
+  ): Promise<SqlQueryResult> {
+    const result = await this.runSql(idOrName, sql, maxRows);
+    return options.redact === false ? result : this.redactResult(idOrName, sql, result);
+  }
+
+  /** querySql before redaction. */
+  private async runSql(
+    idOrName: string,
+    sql: string,
+    maxRows?: number
   ): Promise<SqlQueryResult> {
     const resolved = await this.resolveSource(idOrName);
     if (!resolved.ok) return resolved;
+    const cap = this.resultCap(idOrName);
+    const limit = Math.min(maxRows ?? cap, cap);
 
     // Document store: run the read-only aggregation pipeline (no SELECT gate, no LIMIT-wrap);
-    // cap the result set client-side instead of via SQL.
+    // the cap rides into the pipeline as a trailing $limit instead.
     if (!isSqlSource(resolved.source.type)) {
-      return this.queryPipeline(resolved.source, sql, Math.min(maxRows, MAX_RESULT_ROWS));
+      return this.queryPipeline(idOrName, resolved.source, sql, limit);
     }
 
     if (!isReadOnlySelect(sql)) {
       return { ok: false, error: 'Only SELECT queries are allowed.' };
     }
 
-    const cappedSql = wrapWithLimit(sql, Math.min(maxRows, MAX_RESULT_ROWS));
+    const cappedSql = wrapWithLimit(sql, limit);
 
     try {
       const result = await resolved.source.executeQuery(cappedSql);
@@ -464,7 +600,7 @@ export class SourceManager {
 
       // Only mark as truncated if we hit our limit AND the user didn't have an explicit LIMIT
       const userHasLimit = /\bLIMIT\s+\d+/i.test(sql);
-      const hitOurLimit = result.rows.length >= Math.min(maxRows, MAX_RESULT_ROWS);
+      const hitOurLimit = result.rows.length >= limit;
 
       const warnings = await this.analyzeSqlSafety(resolved.source, sql);
 
@@ -482,27 +618,111 @@ export class SourceManager {
     }
   }
 
+  /**
+   * Fetch one page of a query's result — rows `offset` to `offset + pageSize` (capped at
+   * the source's row cap) — so a caller can walk past the cap a page at a time. The query is
+   * re-run per page with LIMIT/OFFSET over the wrapped SELECT, one extra row telling
+   * whether another page follows; pages are only stable if the SQL has an ORDER BY.
+   * Safety warnings are reported on the first page only. Rows are redacted as querySql's are.
+   */
+  async queryPage(
+    idOrName: string,
+    sql: string,
+    offset: number = 0,
+    pageSize?: number,
+  ): Promise<SqlQueryPage> {
+    return this.redactResult(idOrName, sql, await this.runPage(idOrName, sql, offset, pageSize));
+  }
+
+  /** queryPage before redaction. */
+  private async runPage(
+    idOrName: string,
+    sql: string,
+    offset: number,
+    pageSize?: number,
+  ): Promise<SqlQueryPage> {
+    const resolved = await this.resolveSource(idOrName);
+    if (!resolved.ok) return resolved;
+    const cap = this.resultCap(idOrName);
+    const size = Math.max(1, Math.min(pageSize ?? cap, cap));
+    const start = Math.max(0, Math.floor(offset));
+
+    if (!isSqlSource(resolved.source.type)) {
+      const res = await this.queryPipeline(idOrName, resolved.source, sql, size, start);
+      if (!res.ok) return res;
+      return { ok: true, rows: res.rows, columns: res.columns, totalRows: res.rows!.length, offset: start, pageSize: size, hasMore: res.truncated ?? false };
+    }
+
+    if (!isReadOnlySelect(sql)) {
+      return { ok: false, error: 'Only SELECT queries are allowed.' };
+    }
+
+    try {
+      const result = await resolved.source.executeQuery(wrapWithLimit(sql, size + 1, start));
+      const errorMsg = hasErrorRow(result);
+      if (errorMsg) {
+        const enriched = await this.enrichSqlError(idOrName, errorMsg);
+        return { ok: false, error: enriched };
+      }
+      const rows = result.rows.slice(0, size);
+      const warnings = start === 0 ? await this.analyzeSqlSafety(resolved.source, sql) : [];
+      return {
+        ok: true,
+        rows,
+        columns: result.columns,
+        totalRows: rows.length,
+        offset: start,
+        pageSize: size,
+        hasMore: result.rows.length > size,
+        ...(warnings.length ? { warnings } : {}),
+      };
+    } catch (err: any) {
+      const enriched = await this.enrichSqlError(idOrName, err.message);
+      return { ok: false, error: `SQL query failed: ${enriched}` };
+    }
+  }
+
+  /**
+   * Every page of a query's result, in order, for streaming an export without holding the
+   * whole result in memory. Stops after the last page or the first failed one (which is
+   * yielded, so the caller sees the error).
+   */
+  async *streamSql(idOrName: string, sql: string, pageSize?: number): AsyncGenerator<SqlQueryPage> {
+    let offset = 0;
+    for (;;) {
+      const page = await this.queryPage(idOrName, sql, offset, pageSize);
+      yield page;
+      if (!page.ok || !page.hasMore) return;
+      offset += page.rows!.length;
+    }
+  }
+
   /**
    * Run a read-only aggregation pipeline against a document store and return rows + columns,
-   * capped to maxRows. The pipeline string is the {collection, pipeline} seam the connector
-   * parses. No SQL safety pass (those footguns are SQL-only); Mongo-specific footgun
-   * detection is the language-plane work, added later. Never throws (audit-on-load relies on it).
+   * capped to maxRows (after skipping `offset` rows). The pipeline string is the {collection, pipeline}
+   * seam the connector parses; the skip and cap are appended to it as $skip / $limit stages, one
+   * row past the cap to detect truncation, so the server never ships more than that. No SQL safety
+   * pass (those footguns are SQL-only); Mongo-specific footgun detection is the language-plane
+   * work, added later. Never throws (audit-on-load relies on it).
    */
   private async queryPipeline(
+    idOrName: string,
     source: ConnectedSource,
     query: string,
     maxRows: number,
+    offset = 0,
   ): Promise<SqlQueryResult> {
     const guard = isReadOnlyPipeline(query);
     if (!guard.ok) return { ok: false, error: guard.error };
     try {
-      const result = await source.executeQuery(query);
+      const stages = [...(offset > 0 ? [{ $skip: offset }] : []), { $limit: maxRows + 1 }];
+      const result = await source.executeQuery(appendStages(query, stages));
       const errorMsg = hasErrorRow(result);
-      if (errorMsg) return { ok: false, error: errorMsg };
+      if (errorMsg) return { ok: false, error: this.explainTimeout(idOrName, errorMsg) };
       const capped = result.rows.slice(0, maxRows);
       return {
         ok: true, rows: capped, columns: result.columns,
-        totalRows: result.rows.length, truncated: result.rows.length > capped.length,
+        totalRows: capped.length, truncated: result.rows.length > maxRows,
       };
     } catch (err: any) {
       return { ok: false, error: `Pipeline query failed: ${err.message}` };
@@ -531,7 +751,10 @@ export class SourceManager {
       // Type probe is dialect-specific: SQLite has typeof(); Postgres has pg_typeof().
       // Normalize the result so the integer-division check ('integer') works on both —
       // Postgres int columns report integer/bigint/smallint, floats numeric/double precision.
+      // DuckDB's `/` always divides in floating point and MySQL's in DECIMAL, so both skip
+      // that check entirely.
       const isPg = source.type === 'postgres';
+      const floatDivision = source.type === 'duckdb' || source.type === 'mysql';
       const normalizeType = (raw: string): string => {
         const t = raw.toLowerCase();
         if (t === 'integer' || t === 'bigint' || t === 'smallint') return 'integer';
@@ -569,7 +792,7 @@ export class SourceManager {
       };
 
       const warnings = [
-        ...(await detectSqlFootguns(sql, columnType)),
+        ...(floatDivision ? [] : await detectSqlFootguns(sql, columnType)),
         ...(await detectDivByZero(sql, columnHasZero)),
         ...detectBareAggregate(sql, (col) => colToTable.has(col)),
       ];
@@ -579,10 +802,37 @@ export class SourceManager {
     }
   }
 
+  /**
+   * The most rows one result (or page) from this source may return: its registered
+   * `maxRows`, else MAX_RESULT_ROWS.
+   */
+  resultCap(idOrName: string): number {
+    const limits = this.findEntry(idOrName)?.config as QueryLimits | undefined;
+    const cap = limits?.maxRows;
+    return cap !== undefined && Number.isInteger(cap) && cap > 0 ? cap : MAX_RESULT_ROWS;
+  }
+
+  /**
+   * Turn a server-side cancellation into something the caller can act on: which limit it hit,
+   * how to narrow the query, and how to raise the limit. Other errors pass through unchanged.
+   */
+  private explainTimeout(idOrName: string, errorMsg: string): string {
+    if (!QUERY_TIMEOUT.test(errorMsg)) return errorMsg;
+    const entry = this.findEntry(idOrName);
+    const name = entry?.name ?? idOrName;
+    const { statementMs, lockMs } = queryTimeouts((entry?.config ?? {}) as QueryLimits);
+    const secs = (ms: number) => `${ms / 1000}s`;
+    if (/lock/i.test(errorMsg)) {
+      return `${errorMsg}. The query waited longer than source "${name}"'s ${secs(lockMs)} lock timeout for a lock another session holds — retry shortly, or raise it: dolex sources update ${name} --lock-timeout <ms>.`;
+    }
+    return `${errorMsg}. The query ran longer than source "${name}"'s ${secs(statementMs)} statement timeout — narrow it (filter with WHERE, aggregate before joining, select fewer columns), or raise it: dolex sources update ${name} --statement-timeout <ms>.`;
+  }
+
   /**
    * Enrich SQLite error messages with available table/column info.
    */
   private async enrichSqlError(idOrName: string, errorMsg: string): Promise<string> {
+    if (QUERY_TIMEOUT.test(errorMsg)) return this.explainTimeout(idOrName, errorMsg);
     try {
       const schemaResult = await this.getSchema(idOrName);
       if (!schemaResult.ok || !schemaResult.schema) return errorMsg;
@@ -8,20 +8,32 @@
  *
  * Query language at the seam: Mongo is NOT SQL. executeQuery receives a JSON string
  * {"collection":"<name>","pipeline":[<aggregation stages>]} and runs it as an aggregation.
- * The SourceManager routes a mongodb source down a pipeline path (no SQL gating).
+ * The SourceManager routes a mongodb source down a pipeline path (no SQL gating), appending
+ * its row cap and paging as $skip/$limit stages (appendStages) — the pipeline analogue of the
+ * SQL path's LIMIT wrap — so the server stops at the cap and the cursor streams only that much.
  *
  * getDatabase() is intentionally NOT implemented — the SQLite rowid+ALTER path never touches
  * a live document store. Derivation flows through the source-agnostic seam instead: this connector
  * DECLARES `derivationCapabilities()` (materialization:'computed-set', rowKey:'_id') and implements
  * `applyDerivation` — a derived field is a `$set` expression prepended to every pipeline (see
  * executeQuery), computed server-side on read. The base collection is never written.
+ *
+ * A pipeline runs with `maxTimeMS` set to the source's statement timeout, so the server aborts
+ * a runaway aggregation (Mongo has no lock wait to bound, nor a read-only session to open).
+ *
+ * Nested documents: the profiler walks embedded objects up to `flattenDepth` levels, so
+ * `address.city` is a column of its own (a dotted path — what `$match`/`$group` already accept),
+ * and result rows come back flattened the same way. An array within reach becomes a VIRTUAL
+ * child table `<collection>.<path>` — one row per element, produced by `$unwind` (unwindStages)
+ * and carrying `_parent_id`, a foreign key back to the parent's `_id`. Arrays nested inside an
+ * array's elements stay opaque values.
  */
 import type { MongoClient, Db } from 'mongodb';
 import type {
-  DataColumn, DataSchema, DataTable, DataSourceConfig, DataSourceType, MongoSourceConfig,
+  DataColumn, DataSchema, DataTable, DataSourceConfig, DataSourceType, ForeignKey, MongoSourceConfig,
 } from '../../types.js';
 import type { ConnectedSource, DataConnector, QueryExecutionResult, DerivationCapabilities } from '../types.js';
-import { registerDerivedColumn } from '../types.js';
+import { registerDerivedColumn, queryTimeouts } from '../types.js';
 import { importOptional } from '../../utils/optional-deps.js';
 
 /** Lazily load the mongodb driver so the base install never requires it — a missing package
@@ -29,6 +41,10 @@ import { importOptional } from '../../utils/optional-deps.js';
 const loadMongo = () => importOptional<typeof import('mongodb')>('mongodb', 'mongodb');
 
 const SAMPLE_DOCS = 200; // docs sampled to discover the key universe + candidate types
+/** Embedded-object levels flattened into dotted-path columns when the source doesn't say. */
+export const DEFAULT_FLATTEN_DEPTH = 3;
+/** The column an unwound array's rows carry back to their parent document's `_id`. */
+export const PARENT_KEY = '_parent_id';
 
 function uriFor(cfg: MongoSourceConfig): string {
   if (cfg.uri) return cfg.uri;
@@ -39,6 +55,54 @@ const NUMERIC = (v: unknown): boolean => typeof v === 'number';
 /** Duck-type a BSON ObjectId without importing the driver class (an ObjectId has toHexString()). */
 const isObjectId = (v: unknown): boolean => v != null && typeof v === 'object' && typeof (v as { toHexString?: unknown }).toHexString === 'function';
 
+/** An embedded document — not an array, a Date, or a BSON value type (ObjectId, Decimal128, …). */
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  v != null && typeof v === 'object' && !Array.isArray(v) && !(v instanceof Date) && !('_bsontype' in v) && !isObjectId(v);
+
+/**
+ * Visit a document's fields as dotted paths, descending `levels` deep into embedded objects.
+ * With `onArray`, an array within reach is handed to it (with the levels left for its
+ * elements) instead of being visited as a leaf.
+ */
+function walkFields(
+  doc: Record<string, unknown>,
+  levels: number,
+  onLeaf: (path: string, value: unknown) => void,
+  onArray?: (path: string, levelsLeft: number) => void,
+  prefix = '',
+): void {
+  for (const [k, v] of Object.entries(doc)) {
+    const path = prefix + k;
+    if (levels > 0 && isPlainObject(v) && Object.keys(v).length > 0) walkFields(v, levels - 1, onLeaf, onArray, `${path}.`);
+    else if (levels > 0 && onArray && Array.isArray(v)) onArray(path, levels - 1);
+    else onLeaf(path, v);
+  }
+}
+
+/** A result document as a flat row: embedded objects become dotted-path keys, values JS-friendly. */
+function flattenDoc(doc: Record<string, unknown>, levels: number): Record<string, any> {
+  const out: Record<string, any> = {};
+  walkFields(doc, levels, (path, v) => { out[path] = jsValue(v); });
+  return out;
+}
+
+/** The stages that turn a collection into the virtual table of its array at `path`: one row per
+ *  element, an object element's fields merged in (a scalar one as `value`), plus `_parent_id`. */
+export function unwindStages(path: string): object[] {
+  const el = `$${path}`;
+  return [
+    { $unwind: el },
+    { $replaceWith: { $mergeObjects: [{ [PARENT_KEY]: '$_id' }, { $cond: [{ $eq: [{ $type: el }, 'object'] }, el, { value: el }] }] } },
+  ];
+}
+
+/** unwindStages, applied client-side to one sampled document. */
+function unwindDoc(doc: Record<string, any>, path: string): Record<string, unknown>[] {
+  const arr = path.split('.').reduce<any>((v, k) => (v == null ? v : v[k]), doc);
+  if (!Array.isArray(arr)) return [];
+  return arr.map((el) => ({ [PARENT_KEY]: doc._id, ...(isPlainObject(el) ? el : { value: el }) }));
+}
+
 /** Coerce a BSON value to a JS-friendly value for consumer parity (charts/markdown/JSON). */
 function jsValue(v: unknown): unknown {
   if (v == null) return v;
@@ -56,7 +120,7 @@ function candidateType(v: unknown): DataColumn['type'] {
 }
 
 function classify(cand: DataColumn['type'], name: string, distinct: number, total: number): DataColumn['type'] {
-  if (name === '_id') return 'id';
+  if (name === '_id' || name === PARENT_KEY) return 'id';
   if (cand === 'numeric') {
     if (/(^|_)id$/i.test(name) && total > 0 && distinct >= total * 0.9) return 'id';
     return 'numeric';
@@ -67,35 +131,53 @@ function classify(cand: DataColumn['type'], name: string, distinct: number, tota
   return 'text';
 }
 
-async function profileCollection(db: Db, name: string): Promise<DataTable> {
-  const coll = db.collection(name);
-  const total = await coll.countDocuments();
+/** Sampled fields in first-seen order, each with a candidate type and a few sample values. */
+interface SampledFields {
+  keys: string[];
+  candByKey: Map<string, DataColumn['type']>;
+  sampleValsByKey: Map<string, string[]>;
+}
 
-  // Phase 1 — sample docs to discover the key universe + a candidate type per key.
-  const sampled = await coll.find({}, { limit: SAMPLE_DOCS }).toArray();
+function sampleFields(
+  docs: Record<string, unknown>[],
+  levels: number,
+  onArray?: (path: string, levelsLeft: number) => void,
+): SampledFields {
   const keys: string[] = [];
   const candByKey = new Map<string, DataColumn['type']>();
   const sampleValsByKey = new Map<string, string[]>();
-  for (const doc of sampled) {
-    for (const k of Object.keys(doc)) {
-      if (!candByKey.has(k)) { keys.push(k); candByKey.set(k, candidateType((doc as any)[k])); sampleValsByKey.set(k, []); }
+  for (const doc of docs) {
+    walkFields(doc, levels, (k, v) => {
+      if (!candByKey.has(k)) { keys.push(k); candByKey.set(k, candidateType(v)); sampleValsByKey.set(k, []); }
       const sv = sampleValsByKey.get(k)!;
-      const v = (doc as any)[k];
       if (v != null && sv.length < 5) sv.push(String(jsValue(v)));
-    }
+    }, onArray);
   }
+  return { keys, candByKey, sampleValsByKey };
+}
+
+/**
+ * Profile sampled fields with ONE $facet (run by `facetOver`, over the collection or its unwound
+ * array): per-key non-null + distinct counts, numeric stats, categorical top-values. Keys are
+ * dotted paths, so each facet is named by position — a facet output name can't contain a dot.
+ */
+async function profileFields(
+  name: string,
+  total: number,
+  { keys, candByKey, sampleValsByKey }: SampledFields,
+  facetOver: (facet: Record<string, any[]>) => Promise<any>,
+): Promise<DataTable> {
   if (total === 0 || keys.length === 0) return { name, columns: [], rowCount: total };
 
-  // Phase 2 — ONE $facet: per-key non-null + distinct counts, numeric stats, categorical top-values.
   const facet: Record<string, any[]> = {};
-  for (const k of keys) {
+  keys.forEach((k, i) => {
     const cand = candByKey.get(k)!;
-    facet[`${k}__nn`] = [{ $match: { [k]: { $ne: null, $exists: true } } }, { $count: 'n' }];
-    facet[`${k}__dc`] = [{ $group: { _id: `$${k}` } }, { $count: 'n' }];
+    facet[`f${i}__nn`] = [{ $match: { [k]: { $ne: null, $exists: true } } }, { $count: 'n' }];
+    facet[`f${i}__dc`] = [{ $group: { _id: `$${k}` } }, { $count: 'n' }];
     if (cand === 'numeric') {
       // Mongo 5.0 has no $percentile; sort + $push then pick positional elements server-side
       // (the array stays inside the sub-pipeline — the facet only stores the scalar result).
-      facet[`${k}__st`] = [
+      facet[`f${i}__st`] = [
         { $match: { [k]: { $type: 'number' } } },
         { $sort: { [k]: 1 } },
         { $group: { _id: null, vals: { $push: `$${k}` }, min: { $min: `$${k}` }, max: { $max: `$${k}` }, avg: { $avg: `$${k}` }, sd: { $stdDevPop: `$${k}` }, n: { $sum: 1 } } },
@@ -107,23 +189,23 @@ async function profileCollection(db: Db, name: string): Promise<DataTable> {
         } },
       ];
     } else if (k !== '_id') {
-      facet[`${k}__tv`] = [{ $match: { [k]: { $ne: null } } }, { $sortByCount: `$${k}` }, { $limit: 10 }];
+      facet[`f${i}__tv`] = [{ $match: { [k]: { $ne: null } } }, { $sortByCount: `$${k}` }, { $limit: 10 }];
     }
-  }
-  const [f] = await coll.aggregate([{ $facet: facet }], { allowDiskUse: true }).toArray();
+  });
+  const f = (await facetOver(facet)) ?? {};
   const one = (arr: any[]): any => (arr && arr.length ? arr[0] : undefined);
 
-  const columns: DataColumn[] = keys.map((k) => {
-    const nonNull = Number(one((f as any)[`${k}__nn`])?.n ?? 0);
-    const distinct = Number(one((f as any)[`${k}__dc`])?.n ?? 0);
+  const columns: DataColumn[] = keys.map((k, i) => {
+    const nonNull = Number(one(f[`f${i}__nn`])?.n ?? 0);
+    const distinct = Number(one(f[`f${i}__dc`])?.n ?? 0);
     const type = classify(candByKey.get(k)!, k, distinct, total);
     let stats: DataColumn['stats'] | undefined;
     let topValues: DataColumn['topValues'] | undefined;
     if (type === 'numeric') {
-      const s = one((f as any)[`${k}__st`]);
+      const s = one(f[`f${i}__st`]);
       if (s) stats = { min: s.min, max: s.max, mean: s.avg, median: s.median, stddev: s.sd ?? 0, p25: s.p25, p75: s.p75 };
     } else if (k !== '_id') {
-      const tv = (f as any)[`${k}__tv`] as any[] | undefined;
+      const tv = f[`f${i}__tv`] as any[] | undefined;
       if (tv?.length) topValues = tv.map((r) => ({ value: String(jsValue(r._id)), count: r.count }));
     }
     return {
@@ -136,6 +218,36 @@ async function profileCollection(db: Db, name: string): Promise<DataTable> {
   return { name, columns, rowCount: total };
 }
 
+/**
+ * Profile one collection as a table (embedded objects flattened `depth` levels deep), plus a
+ * virtual child table per array field its sample reaches, each with its foreign key to the parent.
+ */
+async function profileCollection(db: Db, name: string, depth: number): Promise<{ tables: DataTable[]; foreignKeys: ForeignKey[] }> {
+  const coll = db.collection(name);
+  const total = await coll.countDocuments();
+
+  // Sample docs to discover the key universe + a candidate type per key, noting arrays as we go.
+  const sampled = await coll.find({}, { limit: SAMPLE_DOCS }).toArray();
+  const arrays = new Map<string, number>();
+  const fields = sampleFields(sampled, depth, (path, levelsLeft) => { if (!arrays.has(path)) arrays.set(path, levelsLeft); });
+  const parent = await profileFields(name, total, fields, async (facet) =>
+    (await coll.aggregate([{ $facet: facet }], { allowDiskUse: true }).toArray())[0]);
+  const tables: DataTable[] = [parent];
+  const foreignKeys: ForeignKey[] = [];
+  if (total === 0) return { tables, foreignKeys };
+
+  for (const [path, levelsLeft] of arrays) {
+    const stages = unwindStages(path);
+    const [counted] = await coll.aggregate([...stages, { $count: 'n' }]).toArray();
+    const elements = sampled.flatMap((doc) => unwindDoc(doc, path));
+    const child = await profileFields(`${name}.${path}`, Number(counted?.n ?? 0), sampleFields(elements, levelsLeft), async (facet) =>
+      (await coll.aggregate([...stages, { $facet: facet }], { allowDiskUse: true }).toArray())[0]);
+    tables.push({ ...child, unwound: { collection: name, path } });
+    foreignKeys.push({ fromTable: child.name, fromColumn: PARENT_KEY, toTable: name, toColumn: '_id' });
+  }
+  return { tables, foreignKeys };
+}
+
 const tryParseJson = (q: string): any => { try { return JSON.parse(q); } catch { return undefined; } };
 
 /** Append the closers for any unclosed { or [ (string-aware) — repairs a common caller near-miss:
@@ -171,6 +283,19 @@ export function parseSeam(query: string, defaultCollection?: string): { collecti
   throw new Error('Mongo query must be a JSON aggregation pipeline: a bare array [<stages>], or {"collection":"<name>","pipeline":[<stages>]}');
 }
 
+/**
+ * The same query with `stages` appended to its pipeline, in the caller's own shape (a bare
+ * array stays bare, an envelope keeps its collection). An unparseable query comes back
+ * unchanged, for executeQuery to reject with parseSeam's message.
+ */
+export function appendStages(query: string, stages: object[]): string {
+  const raw = (query ?? '').trim();
+  const parsed = tryParseJson(raw) ?? tryParseJson(balanceBrackets(raw));
+  if (Array.isArray(parsed)) return JSON.stringify([...parsed, ...stages]);
+  if (parsed && Array.isArray(parsed.pipeline)) return JSON.stringify({ ...parsed, pipeline: [...parsed.pipeline, ...stages] });
+  return query;
+}
+
 class MongoConnectedSource implements ConnectedSource {
   readonly type: DataSourceType = 'mongodb';
   /** collection → derived fields materialized this session (a $set expr each), in creation order. */
@@ -181,27 +306,45 @@ class MongoConnectedSource implements ConnectedSource {
     private client: MongoClient,
     private db: Db,
     private schema: DataSchema,
+    private maxTimeMS: number,
+    private flattenDepth: number,
   ) {}
 
+  /** The collection a table reads and the stages that shape it — `$unwind` for an array's virtual table. */
+  private resolveTable(table: string): { collection: string; stages: object[] } {
+    const unwound = this.schema.tables.find((t) => t.name === table)?.unwound;
+    return unwound ? { collection: unwound.collection, stages: unwindStages(unwound.path) } : { collection: table, stages: [] };
+  }
+
   async getSchema(): Promise<DataSchema> {
     return this.schema;
   }
 
   async executeQuery(query: string): Promise<QueryExecutionResult> {
     try {
-      const { collection, pipeline } = parseSeam(query, this.schema.tables[0]?.name);
-      // Prepend a $set for each session-derived field so every aggregation sees it transparently,
-      // without ever writing the base collection.
-      const derived = this.derived.get(collection) ?? [];
+      const { collection: table, pipeline } = parseSeam(query, this.schema.tables[0]?.name);
+      // A virtual array table reads its parent collection through $unwind. Then prepend a $set for
+      // each session-derived field so every aggregation sees it transparently, without ever
+      // writing the base collection.
+      const { collection, stages } = this.resolveTable(table);
+      const derived = this.derived.get(table) ?? [];
       const setStage = derived.length ? [{ $set: Object.fromEntries(derived.map((d) => [d.field, d.expr])) }] : [];
-      const docs = await this.db.collection(collection).aggregate([...setStage, ...pipeline]).toArray();
-      // Columns: union of keys across result docs, in first-seen order (docs are ragged).
+      const options = this.maxTimeMS > 0 ? { maxTimeMS: this.maxTimeMS } : {};
+      const cursor = this.db.collection(collection).aggregate([...stages, ...setStage, ...pipeline], options);
+      // Read the cursor batch by batch, flattening each document as it arrives rather than
+      // buffering the driver's documents. Columns: union of keys across result docs, in
+      // first-seen order (docs are ragged).
       const seen = new Set<string>();
       const columns: string[] = [];
-      for (const d of docs) for (const k of Object.keys(d)) if (!seen.has(k)) { seen.add(k); columns.push(k); }
-      const rows = docs.map((d) => {
+      const converted: Record<string, any>[] = [];
+      for await (const d of cursor) {
+        const out = flattenDoc(d, this.flattenDepth);
+        for (const k of Object.keys(out)) if (!seen.has(k)) { seen.add(k); columns.push(k); }
+        converted.push(out);
+      }
+      const rows = converted.map((d) => {
         const out: Record<string, any> = {};
-        for (const k of columns) out[k] = jsValue((d as any)[k]);
+        for (const k of columns) out[k] = d[k];
         return out;
       });
       return { columns, rows };
@@ -213,14 +356,12 @@ class MongoConnectedSource implements ConnectedSource {
   async getSampleRows(collectionName: string, count = 5): Promise<Record<string, any>[]> {
     const total = this.schema.tables.find((t) => t.name === collectionName)?.rowCount ?? 0;
     if (total === 0) return [];
+    const { collection, stages } = this.resolveTable(collectionName);
+    const coll = this.db.collection(collection);
     const docs = total <= count
-      ? await this.db.collection(collectionName).find({}, { limit: count }).toArray()
-      : await this.db.collection(collectionName).aggregate([{ $sample: { size: count } }]).toArray();
-    return docs.map((d) => {
-      const out: Record<string, any> = {};
-      for (const k of Object.keys(d)) out[k] = jsValue((d as any)[k]);
-      return out;
-    });
+      ? (stages.length ? await coll.aggregate([...stages, { $limit: count }]).toArray() : await coll.find({}, { limit: count }).toArray())
+      : await coll.aggregate([...stages, { $sample: { size: count } }]).toArray();
+    return docs.map((d) => flattenDoc(d, this.flattenDepth));
   }
 
   // getDatabase intentionally omitted → the derivation seam no longer keys on a raw db handle.
@@ -285,15 +426,16 @@ export const mongoConnector: DataConnector = {
       names = (await db.listCollections({}, { nameOnly: true }).toArray())
         .map((c: any) => c.name).filter((n: string) => !n.startsWith('system.'));
     }
-    // Each collection profiles independently (own count + sample + one $facet), so connect()
-    // latency need not scale linearly with collection count.
-    const tables: DataTable[] = await Promise.all(names.map((n) => profileCollection(db, n)));
+    // Each collection profiles independently (own count + sample + one $facet, plus one per array
+    // table), so connect() latency need not scale linearly with collection count.
+    const depth = cfg.flattenDepth ?? DEFAULT_FLATTEN_DEPTH;
+    const profiled = await Promise.all(names.map((n) => profileCollection(db, n, depth)));
 
     const id = `mongo-${cfg.database}`;
     const dataSchema: DataSchema = {
-      tables, foreignKeys: [],
+      tables: profiled.flatMap((p) => p.tables), foreignKeys: profiled.flatMap((p) => p.foreignKeys),
       source: { id, type: 'mongodb' as DataSourceType, name: cfg.database, config },
     };
-    return new MongoConnectedSource(id, cfg.database, client, db, dataSchema);
+    return new MongoConnectedSource(id, cfg.database, client, db, dataSchema, queryTimeouts(cfg).statementMs, depth);
   },
 };
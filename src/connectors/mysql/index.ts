@@ -0,0 +1,383 @@
+/**
+ * MySQL / MariaDB connector — the Postgres connector's twin for the MySQL wire protocol.
+ *
+ * Same ConnectedSource contract as PgConnectedSource: a profiled DataSchema built at connect
+ * (columns typed + stats + topValues + declared foreign keys from information_schema),
+ * executeQuery over a mysql2 pool, representative sample rows.
+ *
+ * Dialect: every session runs with ANSI_QUOTES, so the double-quoted identifiers the planner
+ * and the SQL-safety probes emit mean identifiers here too (a quoted "name" would otherwise be
+ * a string literal). String literals take single quotes, as everywhere else in Dolex.
+ *
+ * Numeric policy mirrors Postgres: the pool returns DECIMAL and BIGINT as strings (no float64
+ * rounding inside the driver); a result column whose MySQL type is numeric is coerced to a JS
+ * number at the end, by the RESULT field's type rather than the source column's name. Dates
+ * arrive as their SQL text ('2024-01-31', '2024-01-31 09:30:00'), as the CSV path returns them.
+ *
+ * Every executeQuery runs in its own START TRANSACTION READ ONLY, with the session's statement
+ * and lock timeouts set from the source's QueryLimits first. The statement timeout is
+ * max_execution_time (ms) on MySQL but max_statement_time (seconds) on MariaDB, so the server
+ * flavour is read once at connect.
+ *
+ * MySQL has no percentile aggregate (and MariaDB's PERCENTILE_CONT is window-only), so the
+ * profile's quartiles are nearest-rank values read with ORDER BY … LIMIT 1 OFFSET k.
+ *
+ * getDatabase() is intentionally NOT implemented. A derived column is materialized as a
+ * session TEMPORARY TABLE named after the base table on a pinned connection (see
+ * applyDerivation): MySQL hides a permanent table behind a same-named temporary one for that
+ * session, so later queries read the derived copy; the base table is never written.
+ */
+import type { Pool, PoolConnection, FieldPacket } from 'mysql2/promise';
+import type {
+  DataColumn, DataSchema, DataTable, ForeignKey, DataSourceConfig, DataSourceType, MysqlSourceConfig,
+} from '../../types.js';
+import type { ConnectedSource, DataConnector, QueryExecutionResult, DerivationCapabilities } from '../types.js';
+import { registerDerivedColumn, queryTimeouts } from '../types.js';
+import { importOptional } from '../../utils/optional-deps.js';
+
+/** Lazily load the mysql2 driver so the base install never requires it — a missing package becomes a
+ *  friendly "npm install mysql2", surfaced only when a MySQL source is actually used. */
+const loadMysql = () => importOptional<typeof import('mysql2/promise')>('mysql2/promise', 'mysql');
+
+type CallbackConnection = { query(sql: string, callback: (err: unknown) => void): void };
+
+const q = (id: string) => '"' + id.replace(/"/g, '""') + '"';
+
+function poolFor(mysql: typeof import('mysql2/promise'), cfg: MysqlSourceConfig): Pool {
+  // The secret is either the literal password or (preferred) read from an env var at connect time,
+  // so it need never be persisted in the registry file.
+  const password = cfg.password ?? (cfg.passwordEnv ? process.env[cfg.passwordEnv] : undefined);
+  const options = { connectionLimit: 4, supportBigNumbers: true, bigNumberStrings: true, decimalNumbers: false, dateStrings: true };
+  const pool = cfg.connectionString
+    ? mysql.createPool({ uri: cfg.connectionString, ...options })
+    : mysql.createPool({ host: cfg.host, port: cfg.port, database: cfg.database, user: cfg.user, password, ...options });
+  // Queries on a connection run in order, so this lands before anything the caller sends. The
+  // event hands over the driver's callback-style connection, whatever the promise typings say.
+  pool.on('connection', (conn) => {
+    (conn as unknown as CallbackConnection).query(`SET SESSION sql_mode = CONCAT(@@SESSION.sql_mode, ',ANSI_QUOTES')`, () => {});
+  });
+  return pool;
+}
+
+// MySQL column type codes that should surface as JS numbers:
+// DECIMAL, TINY, SHORT, LONG, FLOAT, DOUBLE, LONGLONG, INT24, YEAR, NEWDECIMAL.
+const MYSQL_NUMERIC_TYPES = new Set([0, 1, 2, 3, 4, 5, 8, 9, 13, 246]);
+const NUMERIC_TYPES = new Set(['decimal', 'numeric', 'int', 'integer', 'bigint', 'smallint', 'tinyint', 'mediumint', 'double', 'float', 'real']);
+const DATE_TYPES = new Set(['date', 'datetime', 'timestamp']);
+
+function classify(dataType: string, name: string, distinct: number, total: number): DataColumn['type'] {
+  if (NUMERIC_TYPES.has(dataType)) {
+    if (/(^|_)id$/i.test(name) && total > 0 && distinct >= total * 0.9) return 'id';
+    return 'numeric';
+  }
+  if (DATE_TYPES.has(dataType)) return 'date';
+  // text-ish
+  if (total > 0 && distinct <= Math.min(1000, Math.max(50, total * 0.5)) && distinct <= 200) return 'categorical';
+  return 'text';
+}
+
+type Runner = Pool | PoolConnection;
+
+/**
+ * The SET that bounds a session's queries: the flavour's statement-timeout variable, plus
+ * InnoDB row-lock and metadata-lock waits (whole seconds, at least 1). A 0 limit is left unset.
+ */
+function timeoutStatement(mariadb: boolean, limits: { statementMs: number; lockMs: number }): string | null {
+  const vars: string[] = [];
+  if (limits.statementMs > 0) {
+    vars.push(mariadb ? `max_statement_time = ${limits.statementMs / 1000}` : `max_execution_time = ${limits.statementMs}`);
+  }
+  if (limits.lockMs > 0) {
+    const seconds = Math.max(1, Math.ceil(limits.lockMs / 1000));
+    vars.push(`innodb_lock_wait_timeout = ${seconds}`, `lock_wait_timeout = ${seconds}`);
+  }
+  return vars.length ? `SET SESSION ${vars.join(', ')}` : null;
+}
+
+async function rows(runner: Runner, sql: string, params: unknown[] = []): Promise<any[]> {
+  const [result] = await runner.query(sql, params);
+  return result as any[];
+}
+
+/** Nearest-rank percentile of a column's non-null values (`nonNull` of them). */
+async function percentile(pool: Pool, from: string, col: string, nonNull: number, p: number): Promise<number> {
+  const offset = Math.max(0, Math.ceil(p * nonNull) - 1);
+  const [r] = await rows(pool, `SELECT ${col} AS v FROM ${from} WHERE ${col} IS NOT NULL ORDER BY ${col} LIMIT 1 OFFSET ${offset}`);
+  return Number(r.v);
+}
+
+async function profileTable(pool: Pool, database: string, table: string): Promise<DataTable> {
+  // column list + MySQL data types
+  const cols: { name: string; dataType: string }[] = (await rows(pool,
+    `SELECT COLUMN_NAME AS column_name, DATA_TYPE AS data_type FROM information_schema.columns
+     WHERE table_schema=? AND table_name=? ORDER BY ordinal_position`,
+    [database, table],
+  )).map((r: any) => ({ name: r.column_name, dataType: String(r.data_type).toLowerCase() }));
+  const from = `${q(database)}.${q(table)}`;
+
+  // one scan: COUNT(*) + per-column distinct + non-null counts
+  const countSel = ['COUNT(*) AS __total'];
+  for (const c of cols) {
+    countSel.push(`COUNT(DISTINCT ${q(c.name)}) AS ${q('d_' + c.name)}`);
+    countSel.push(`COUNT(${q(c.name)}) AS ${q('n_' + c.name)}`);
+  }
+  const [counts] = await rows(pool, `SELECT ${countSel.join(', ')} FROM ${from}`);
+  const total = Number(counts.__total);
+
+  const columns: DataColumn[] = [];
+  for (const c of cols) {
+    const col = q(c.name);
+    const distinct = Number(counts['d_' + c.name]);
+    const nonNull = Number(counts['n_' + c.name]);
+    const type = classify(c.dataType, c.name, distinct, total);
+
+    // sample values (distinct, for display)
+    const sv = await rows(pool, `SELECT DISTINCT CAST(${col} AS CHAR) AS v FROM ${from} WHERE ${col} IS NOT NULL LIMIT 20`);
+    const sampleValues = sv.map((r: any) => String(r.v)).slice(0, 5);
+
+    let stats: DataColumn['stats'] | undefined;
+    let topValues: DataColumn['topValues'] | undefined;
+
+    if (type === 'numeric' && nonNull > 0) {
+      const [s] = await rows(pool,
+        `SELECT MIN(${col}) AS min, MAX(${col}) AS max, AVG(${col}) AS mean, COALESCE(STDDEV_POP(${col}), 0) AS stddev
+         FROM ${from} WHERE ${col} IS NOT NULL`);
+      stats = {
+        min: Number(s.min), max: Number(s.max), mean: Number(s.mean), stddev: Number(s.stddev),
+        median: await percentile(pool, from, col, nonNull, 0.5),
+        p25: await percentile(pool, from, col, nonNull, 0.25),
+        p75: await percentile(pool, from, col, nonNull, 0.75),
+      };
+    } else if (type === 'categorical' || type === 'date') {
+      const tv = await rows(pool,
+        `SELECT CAST(${col} AS CHAR) AS value, COUNT(*) AS count FROM ${from}
+         WHERE ${col} IS NOT NULL GROUP BY ${col} ORDER BY COUNT(*) DESC LIMIT 10`);
+      topValues = tv.map((r: any) => ({ value: String(r.value), count: Number(r.count) }));
+    }
+
+    columns.push({
+      name: c.name, type, sampleValues,
+      uniqueCount: distinct, nullCount: total - nonNull, totalCount: total,
+      layer: 'source', stats, topValues,
+    });
+  }
+
+  return { name: table, columns, rowCount: total };
+}
+
+async function readForeignKeys(pool: Pool, database: string): Promise<ForeignKey[]> {
+  const res = await rows(pool,
+    `SELECT TABLE_NAME AS ft, COLUMN_NAME AS fc, REFERENCED_TABLE_NAME AS tt, REFERENCED_COLUMN_NAME AS tcol
+     FROM information_schema.key_column_usage
+     WHERE table_schema=? AND referenced_table_name IS NOT NULL
+     ORDER BY ft, fc`,
+    [database],
+  );
+  return res.map((r: any) => ({ fromTable: r.ft, fromColumn: r.fc, toTable: r.tt, toColumn: r.tcol }));
+}
+
+/** Coerce numeric-typed result columns (DECIMAL/BIGINT arrive as strings) to JS numbers. */
+function coerceRows(fields: FieldPacket[], result: any[]): QueryExecutionResult {
+  const columns = fields.map((f) => f.name);
+  const numericField = new Set(fields.filter((f) => MYSQL_NUMERIC_TYPES.has(f.columnType ?? f.type ?? -1)).map((f) => f.name));
+  const out = result.map((row: any) => {
+    const r: Record<string, any> = {};
+    for (const col of columns) {
+      const v = row[col];
+      if (numericField.has(col) && typeof v === 'string' && v !== '' && !isNaN(Number(v))) r[col] = Number(v);
+      else r[col] = v;
+    }
+    return r;
+  });
+  return { columns, rows: out };
+}
+
+class MysqlConnectedSource implements ConnectedSource {
+  readonly type: DataSourceType = 'mysql';
+  /** Once a derivation exists, ALL queries ride this ONE pinned connection — a temporary table
+   *  exists only in the session that created it. */
+  private pinned: PoolConnection | null = null;
+  /** The tail of the work queued on the pinned connection: one transaction at a time. */
+  private pinnedQueue: Promise<unknown> = Promise.resolve();
+  /** table → derived columns materialized this session, in creation order. */
+  private derived = new Map<string, { column: string; expr: string }[]>();
+  constructor(
+    public id: string,
+    public name: string,
+    private pool: Pool,
+    private database: string,
+    private schema: DataSchema,
+    private limits: string | null,
+  ) {}
+
+  async getSchema(): Promise<DataSchema> {
+    return this.schema;
+  }
+
+  /**
+   * Run `sql` in a READ ONLY transaction under the source's timeouts, on the pinned connection
+   * once a derivation is active (its temporary tables live there), else a pooled one. `pooled`
+   * forces a pooled connection, where the base tables aren't shadowed.
+   */
+  private async readOnly(sql: string, { pooled = false } = {}) {
+    if (this.pinned && !pooled) return this.onPinned((conn) => this.inReadOnly(conn, sql));
+    const conn = await this.pool.getConnection();
+    try {
+      return await this.inReadOnly(conn, sql);
+    } finally {
+      conn.release();
+    }
+  }
+
+  private async inReadOnly(conn: PoolConnection, sql: string) {
+    if (this.limits) await conn.query(this.limits);
+    await conn.query('START TRANSACTION READ ONLY');
+    try {
+      const result = await conn.query(sql);
+      await conn.query('COMMIT');
+      return result;
+    } catch (err) {
+      await conn.query('ROLLBACK').catch(() => {});
+      throw err;
+    }
+  }
+
+  /** Queue `work` on the pinned connection, after everything queued before it — concurrent
+   *  calls would otherwise interleave their statements inside one another's transactions. */
+  private onPinned<T>(work: (conn: PoolConnection) => Promise<T>): Promise<T> {
+    const run = this.pinnedQueue.then(() => work(this.pinned!));
+    this.pinnedQueue = run.catch(() => {});
+    return run;
+  }
+
+  async executeQuery(sql: string): Promise<QueryExecutionResult> {
+    try {
+      const [result, fields] = await this.readOnly(sql);
+      if (!Array.isArray(result)) return { columns: [], rows: [] };
+      return coerceRows((fields ?? []) as FieldPacket[], result as any[]);
+    } catch (err: any) {
+      return { columns: [], rows: [{ error: err.message }] };
+    }
+  }
+
+  async getSampleRows(tableName: string, count = 5): Promise<Record<string, any>[]> {
+    const total = this.schema.tables.find((t) => t.name === tableName)?.rowCount ?? 0;
+    if (total === 0) return [];
+    const from = `${q(this.database)}.${q(tableName)}`;
+    if (total <= count) return (await this.readOnly(`SELECT * FROM ${from}`))[0] as any[];
+    // MySQL has no TABLESAMPLE: every k-th row by position, spread through the table.
+    const step = Math.max(1, Math.floor(total / count));
+    const [sampled] = await this.readOnly(
+      `SELECT * FROM (SELECT b.*, ROW_NUMBER() OVER () - 1 AS "_dolex_rn" FROM ${from} b) s
+       WHERE "_dolex_rn" % ${step} = 0 LIMIT ${count}`);
+    for (const row of sampled as any[]) delete row._dolex_rn;
+    return sampled as any[];
+  }
+
+  // getDatabase intentionally omitted → the derivation seam no longer keys on a raw db handle.
+  /**
+   * MySQL derives into a session TEMPORARY TABLE shadowing the base table on ONE pinned
+   * connection. The derived columns are computed into the copy; nothing is joined back, so
+   * there is no row key.
+   */
+  derivationCapabilities(): DerivationCapabilities {
+    return { canDerive: true, materialization: 'session-temp', rowKey: null, serverSideQueryable: true };
+  }
+
+  /**
+   * Materialize a derived column by rebuilding the table's TEMPORARY shadow: a copy of the base
+   * table plus every derived column so far. `expr` is a MySQL expression over the base table's
+   * columns, checked against the base table (on a pooled connection, where no shadow exists)
+   * before the shadow is replaced, so a bad expression leaves earlier derivations intact.
+   * MySQL can open a temporary table only once per statement, so a self-join on a derived
+   * table fails until the session ends.
+   */
+  async applyDerivation(table: string, column: string, expr: string): Promise<void> {
+    if (/;|--|\/\*|#/.test(expr)) throw new Error('derivation expr must be a single SQL expression (no ";" or comments)');
+    if (!this.schema.tables.some((t) => t.name === table)) throw new Error(`Table "${table}" not found`);
+    const from = `${q(this.database)}.${q(table)}`;
+    await this.readOnly(`SELECT (${expr}) FROM ${from} LIMIT 0`, { pooled: true });
+
+    if (!this.pinned) this.pinned = await this.pool.getConnection();
+    const cols = (this.derived.get(table) ?? []).filter((d) => d.column !== column);
+    cols.push({ column, expr });
+    const projected = cols.map((d) => `(${d.expr}) AS ${q(d.column)}`).join(', ');
+    await this.onPinned(async (c) => {
+      await c.query(`DROP TEMPORARY TABLE IF EXISTS ${from}`);
+      await c.query(`CREATE TEMPORARY TABLE ${from} AS SELECT b.*, ${projected} FROM ${from} b`);
+    });
+    this.derived.set(table, cols);
+    registerDerivedColumn(this.schema, table, column);
+  }
+
+  async close(): Promise<void> {
+    try { if (this.pinned) { this.pinned.release(); this.pinned = null; } } catch { /* noop */ }
+    try { await this.pool.end(); } catch { /* already closed */ }
+  }
+}
+
+/** The database a config targets: the discrete field, else the path of the connection URI. */
+function databaseOf(cfg: MysqlSourceConfig): string | undefined {
+  if (cfg.database) return cfg.database;
+  if (!cfg.connectionString) return undefined;
+  try {
+    return decodeURIComponent(new URL(cfg.connectionString).pathname.replace(/^\//, '')) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export const mysqlConnector: DataConnector = {
+  type: 'mysql' as DataSourceType,
+
+  async test(config: DataSourceConfig): Promise<{ ok: boolean; error?: string }> {
+    const cfg = config as unknown as MysqlSourceConfig;
+    if (cfg.type !== 'mysql') return { ok: false, error: 'Config type must be "mysql"' };
+    const mysql = await loadMysql();
+    const pool = poolFor(mysql, cfg);
+    try {
+      await pool.query('SELECT 1');
+      return { ok: true };
+    } catch (err: any) {
+      // Same fallback as Postgres: a refused connection can arrive with an empty top-level message.
+      const reason = err?.message || err?.code || err?.errors?.map((e: any) => e?.message || e?.code).filter(Boolean).join('; ') || String(err);
+      return { ok: false, error: `Cannot connect to MySQL: ${reason}` };
+    } finally {
+      await pool.end();
+    }
+  },
+
+  async connect(config: DataSourceConfig): Promise<ConnectedSource> {
+    const cfg = config as unknown as MysqlSourceConfig;
+    if (cfg.type !== 'mysql') throw new Error('Config type must be "mysql"');
+    const database = databaseOf(cfg);
+    if (!database) throw new Error('MySQL source needs a database (--database, or a path in the connection URI).');
+    const mysql = await loadMysql();
+    const pool = poolFor(mysql, cfg);
+
+    try {
+      const tableRes = await rows(pool,
+        `SELECT TABLE_NAME AS table_name FROM information_schema.tables
+         WHERE table_schema=? AND table_type='BASE TABLE' ORDER BY table_name`,
+        [database],
+      );
+      const tables: DataTable[] = [];
+      for (const row of tableRes) {
+        tables.push(await profileTable(pool, database, row.table_name));
+      }
+      const foreignKeys = await readForeignKeys(pool, database);
+      const [{ version }] = await rows(pool, 'SELECT VERSION() AS version');
+      const limits = timeoutStatement(/mariadb/i.test(String(version)), queryTimeouts(cfg));
+
+      const id = `mysql-${database}`;
+      const dataSchema: DataSchema = {
+        tables, foreignKeys,
+        source: { id, type: 'mysql' as DataSourceType, name: database, config },
+      };
+      return new MysqlConnectedSource(id, database, pool, database, dataSchema, limits);
+    } catch (err) {
+      await pool.end();
+      throw err;
+    }
+  },
+};
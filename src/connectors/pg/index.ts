@@ -13,6 +13,10 @@
  * Declared FKs (experiment 039) are read from information_schema — a capability the CSV
  * path never had; it surfaces the multi-FK / redundant-source edges the model crawler misses.
  *
+ * Write protection doesn't rest on the SourceManager's SELECT gate alone: every executeQuery
+ * runs in its own READ ONLY transaction with SET LOCAL statement_timeout / lock_timeout from
+ * the source's QueryLimits, so the server refuses a write and cancels a runaway query.
+ *
  * getDatabase() is intentionally NOT implemented — the SQLite ALTER+rowid path never touches
  * a live DB. Derivation flows through the source-agnostic seam instead: this connector DECLARES
  * `derivationCapabilities()` (materialization:'session-temp', rowKey:'id') and implements
@@ -24,7 +28,7 @@ import type {
   DataColumn, DataSchema, DataTable, ForeignKey, DataSourceConfig, DataSourceType, PostgresSourceConfig,
 } from '../../types.js';
 import type { ConnectedSource, DataConnector, QueryExecutionResult, DerivationCapabilities } from '../types.js';
-import { registerDerivedColumn } from '../types.js';
+import { registerDerivedColumn, queryTimeouts } from '../types.js';
 import { importOptional } from '../../utils/optional-deps.js';
 
 /** Lazily load the pg driver so the base install never requires it — a missing package becomes a
@@ -138,6 +142,8 @@ class PgConnectedSource implements ConnectedSource {
   /** Once a derivation exists, ALL queries ride this ONE pinned client so pg_temp (the shadow
    *  view + temp table) is visible — a pooled connection would not see them (exp 043). */
   private pinned: PoolClient | null = null;
+  /** The tail of the work queued on the pinned client: one transaction at a time. */
+  private pinnedQueue: Promise<unknown> = Promise.resolve();
   /** table → derived columns materialized this session, in creation order. */
   private derived = new Map<string, { column: string; expr: string }[]>();
   constructor(
@@ -145,21 +151,54 @@ class PgConnectedSource implements ConnectedSource {
     public name: string,
     private pool: Pool,
     private schemaName: string,
-    private schema: DataSchema
+    private schema: DataSchema,
+    private timeouts: { statementMs: number; lockMs: number },
   ) {}
 
   async getSchema(): Promise<DataSchema> {
     return this.schema;
   }
 
-  /** The query runner: the pinned client once a derivation is active, else the pool. */
-  private runner(): Pool | PoolClient {
-    return this.pinned ?? this.pool;
+  /**
+   * Run `sql` in a READ ONLY transaction bounded by the source's timeouts, on the pinned
+   * client once a derivation is active (the shadow views live there), else a pooled one.
+   * SET LOCAL ends with the transaction, so the session is left as it was.
+   */
+  private async readOnly(sql: string) {
+    if (this.pinned) return this.onPinned((client) => this.inReadOnly(client, sql));
+    const client = await this.pool.connect();
+    try {
+      return await this.inReadOnly(client, sql);
+    } finally {
+      client.release();
+    }
+  }
+
+  private async inReadOnly(client: PoolClient, sql: string) {
+    await client.query(
+      `BEGIN; SET TRANSACTION READ ONLY; SET LOCAL statement_timeout = ${this.timeouts.statementMs}; SET LOCAL lock_timeout = ${this.timeouts.lockMs}`
+    );
+    try {
+      const r = await client.query(sql);
+      await client.query('COMMIT');
+      return r;
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw err;
+    }
+  }
+
+  /** Queue `work` on the pinned client, after everything queued before it — concurrent calls
+   *  would otherwise interleave their statements inside one another's transactions. */
+  private onPinned<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const run = this.pinnedQueue.then(() => work(this.pinned!));
+    this.pinnedQueue = run.catch(() => {});
+    return run;
   }
 
   async executeQuery(sql: string): Promise<QueryExecutionResult> {
     try {
-      const r = await this.runner().query(sql);
+      const r = await this.readOnly(sql);
       // Coerce by the RESULT column's actual Postgres type (OID), not by source-column
       // name — so aliased aggregates (AVG/SUM AS x) and computed columns are typed
       // correctly. node-postgres returns numeric/bigint as strings; we surface them as JS
@@ -186,16 +225,16 @@ class PgConnectedSource implements ConnectedSource {
   async getSampleRows(tableName: string, count = 5): Promise<Record<string, any>[]> {
     const total = this.schema.tables.find((t) => t.name === tableName)?.rowCount ?? 0;
     if (total === 0) return [];
+    // Read-only, under the source's timeouts and on the pinned client — as any query.
+    const from = `${q(this.schemaName)}.${q(tableName)}`;
     if (total <= count) {
-      return (await this.pool.query(`SELECT * FROM ${q(this.schemaName)}.${q(tableName)}`)).rows;
+      return (await this.readOnly(`SELECT * FROM ${from}`)).rows;
     }
     // block-level server-side sample; fall back to a bounded scan if it under-fills
     const pct = Math.min(100, Math.max(1, Math.ceil((count / total) * 100 * 20)));
-    let rows = (await this.pool.query(
-      `SELECT * FROM ${q(this.schemaName)}.${q(tableName)} TABLESAMPLE SYSTEM(${pct}) LIMIT ${count}`
-    )).rows;
+    let rows = (await this.readOnly(`SELECT * FROM ${from} TABLESAMPLE SYSTEM(${pct}) LIMIT ${count}`)).rows;
     if (rows.length < count) {
-      rows = (await this.pool.query(`SELECT * FROM ${q(this.schemaName)}.${q(tableName)} LIMIT ${count}`)).rows;
+      rows = (await this.readOnly(`SELECT * FROM ${from} LIMIT ${count}`)).rows;
     }
     return rows;
   }
@@ -219,14 +258,15 @@ class PgConnectedSource implements ConnectedSource {
   async applyDerivation(table: string, column: string, expr: string): Promise<void> {
     if (/;|--|\/\*/.test(expr)) throw new Error('derivation expr must be a single SQL expression (no ";" or comments)');
     if (!this.pinned) this.pinned = await this.pool.connect();
-    const c = this.pinned;
     const cols = this.derived.get(table) ?? [];
     const existing = cols.find((d) => d.column === column);
     if (existing) existing.expr = expr; else cols.push({ column, expr });
     this.derived.set(table, cols);
     const projected = cols.map((d) => `(${d.expr}) AS ${q(d.column)}`).join(', ');
-    await c.query(`DROP VIEW IF EXISTS pg_temp.${q(table)}`);
-    await c.query(`CREATE TEMP VIEW ${q(table)} AS SELECT b.*, ${projected} FROM ${q(this.schemaName)}.${q(table)} b`);
+    await this.onPinned(async (c) => {
+      await c.query(`DROP VIEW IF EXISTS pg_temp.${q(table)}`);
+      await c.query(`CREATE TEMP VIEW ${q(table)} AS SELECT b.*, ${projected} FROM ${q(this.schemaName)}.${q(table)} b`);
+    });
     registerDerivedColumn(this.schema, table, column);
   }
 
@@ -281,6 +321,6 @@ export const pgConnector: DataConnector = {
     };
     const id = `pg-${cfg.database || 'db'}`;
     dataSchema.source.id = id;
-    return new PgConnectedSource(id, cfg.database || 'postgres', pool, schema, dataSchema);
+    return new PgConnectedSource(id, cfg.database || 'postgres', pool, schema, dataSchema, queryTimeouts(cfg));
   },
 };
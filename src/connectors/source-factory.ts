@@ -7,40 +7,68 @@
  * never opens a connection (the connector's `test()`/`connect()` does that).
  * Shared by the CLI `sources add` command; the MCP loader can adopt it later.
  *
- * Backward compatibility: an omitted `--type` with a bare path resolves to CSV,
- * so `dolex sources add <name> <path>` keeps working unchanged.
+ * Backward compatibility: an omitted `--type` with a bare path resolves to CSV
+ * (or Excel for an `.xlsx` path, SQLite for a `.sqlite`/`.db` path, DuckDB for a `.duckdb` path), so `dolex sources add <name> <path>` keeps
+ * working unchanged.
  */
 
 import type {
   DataSourceConfig,
   DataSourceType,
   CsvSourceConfig,
+  ExcelSourceConfig,
+  SqliteSourceConfig,
+  DuckdbSourceConfig,
   PostgresSourceConfig,
+  MysqlSourceConfig,
   MongoSourceConfig,
+  QueryLimits,
+  RedactionPolicy,
 } from '../types.js';
+import { EXCEL_FILE_EXTENSION, SQLITE_FILE_EXTENSION, DUCKDB_FILE_EXTENSION, csvDelimiter, csvEncoding } from './file-formats.js';
 
 /** Generic, frontend-agnostic inputs a factory resolves into a typed config. */
 export interface SourceFactoryArgs {
-  /** csv | postgres | mongodb. Omitted ⇒ defaults to 'csv'. */
+  /** csv | excel | sqlite | duckdb | postgres | mysql | mongodb. Omitted ⇒ inferred from the path's extension, else 'csv'. */
   type?: string;
-  /** CSV: path to a `.csv` file or a directory of CSVs. */
+  /** CSV (file source): path to a .csv/.parquet/.ndjson/.jsonl/.json file or a directory of them.
+   *  Excel: path to an .xlsx workbook. SQLite: path to a database file.
+   *  DuckDB: the same data files or directory as CSV (queried in place), or a .duckdb database. */
   path?: string;
-  /** Connection string: libpq DSN (postgres) or Mongo URI (mongodb). */
+  /** CSV: field separator (`;`, `|`, `tab`…) — omitted ⇒ sniffed. */
+  delimiter?: string;
+  /** CSV: text encoding (`latin1`, `windows-1252`…) — omitted ⇒ sniffed. */
+  encoding?: string;
+  /** CSV: preamble lines above the header row — omitted ⇒ sniffed. */
+  skipRows?: number;
+  /** Connection string: libpq DSN (postgres), mysql:// URI (mysql) or Mongo URI (mongodb). */
   uri?: string;
   host?: string;
   port?: number;
   database?: string;
   user?: string;
   password?: string;
-  /** Name of an env var holding the Postgres password (kept out of the registry file). */
+  /** Name of an env var holding the Postgres / MySQL password (kept out of the registry file). */
   passwordEnv?: string;
   /** Postgres schema to introspect (default: public). */
   schema?: string;
   /** Mongo: restrict introspection to these collections. */
   collections?: string[];
+  /** Mongo: embedded-object levels profiled as dotted-path columns (0 = top-level only). */
+  flattenDepth?: number;
+  /** Postgres / MySQL / Mongo: cancel a query after this many ms (0 = no limit). */
+  statementTimeoutMs?: number;
+  /** Postgres / MySQL: cancel a query after waiting this many ms for a lock (0 = no limit). */
+  lockTimeoutMs?: number;
+  /** Postgres / MySQL / Mongo: most rows one query result returns. */
+  maxRows?: number;
+  /** Any type: how personal data is redacted (omitted ⇒ the default, mask what is detected). */
+  redaction?: RedactionPolicy;
 }
 
-const SUPPORTED_TYPES: DataSourceType[] = ['csv', 'postgres', 'mongodb'];
+const SUPPORTED_TYPES: DataSourceType[] = ['csv', 'excel', 'sqlite', 'duckdb', 'postgres', 'mysql', 'mongodb'];
+const REDACTION_MODES = ['mask', 'hash', 'drop', 'off'];
+
 
 /**
  * Resolve generic args into a typed `DataSourceConfig`. Throws an `Error` with
@@ -48,7 +76,7 @@ const SUPPORTED_TYPES: DataSourceType[] = ['csv', 'postgres', 'mongodb'];
  */
 export function resolveSourceConfig(args: SourceFactoryArgs): DataSourceConfig {
   const rawType = args.type?.trim().toLowerCase();
-  const type = (rawType || 'csv') as DataSourceType;
+  const type = (rawType || inferFileType(args.path)) as DataSourceType;
 
   if (!SUPPORTED_TYPES.includes(type)) {
     throw new Error(
@@ -56,21 +84,85 @@ export function resolveSourceConfig(args: SourceFactoryArgs): DataSourceConfig {
     );
   }
 
+  const config = resolveTyped(type, args);
+  if (args.redaction !== undefined) config.redaction = resolveRedaction(args.redaction);
+  return config;
+}
+
+function resolveTyped(type: DataSourceType, args: SourceFactoryArgs): DataSourceConfig {
   switch (type) {
     case 'csv':
       return resolveCsv(args);
+    case 'excel':
+      return resolveExcel(args);
+    case 'sqlite':
+      return resolveSqlite(args);
+    case 'duckdb':
+      return resolveDuckdb(args);
     case 'postgres':
       return resolvePostgres(args);
+    case 'mysql':
+      return resolveMysql(args);
     case 'mongodb':
       return resolveMongo(args);
   }
 }
 
+/** A redaction policy with a known mode and column lists, empty lists left out. */
+export function resolveRedaction(policy: RedactionPolicy): RedactionPolicy {
+  if (policy.mode !== undefined && !REDACTION_MODES.includes(policy.mode)) {
+    throw new Error(`Unknown redaction mode "${policy.mode}". Use one of: ${REDACTION_MODES.join(', ')}.`);
+  }
+  const out: RedactionPolicy = {};
+  if (policy.mode !== undefined) out.mode = policy.mode;
+  if (policy.columns?.length) out.columns = policy.columns;
+  if (policy.allow?.length) out.allow = policy.allow;
+  return out;
+}
+
+/** The file type a bare path implies: Excel, SQLite and DuckDB by extension, anything else the file connector. */
+function inferFileType(filePath: string | undefined): DataSourceType {
+  if (filePath && EXCEL_FILE_EXTENSION.test(filePath)) return 'excel';
+  if (filePath && SQLITE_FILE_EXTENSION.test(filePath)) return 'sqlite';
+  if (filePath && DUCKDB_FILE_EXTENSION.test(filePath)) return 'duckdb';
+  return 'csv';
+}
+
 function resolveCsv(args: SourceFactoryArgs): CsvSourceConfig {
   if (!args.path) {
-    throw new Error('CSV source requires a path to a .csv file or a directory of CSVs.');
+    throw new Error('CSV source requires a path to a data file (.csv, .parquet, .ndjson/.jsonl, .json) or a directory of them.');
+  }
+  const config: CsvSourceConfig = { type: 'csv', path: args.path };
+  if (args.delimiter !== undefined) config.delimiter = csvDelimiter(args.delimiter);
+  if (args.encoding !== undefined) config.encoding = csvEncoding(args.encoding);
+  if (args.skipRows !== undefined) {
+    if (!Number.isInteger(args.skipRows) || args.skipRows < 0) {
+      throw new Error(`skipRows must be a non-negative whole number, got ${args.skipRows}.`);
+    }
+    config.skipRows = args.skipRows;
+  }
+  return config;
+}
+
+function resolveExcel(args: SourceFactoryArgs): ExcelSourceConfig {
+  if (!args.path || !EXCEL_FILE_EXTENSION.test(args.path)) {
+    throw new Error('Excel source requires a path to an .xlsx workbook (legacy .xls files are not supported — re-save as .xlsx).');
+  }
+  return { type: 'excel', path: args.path };
+}
+
+function resolveSqlite(args: SourceFactoryArgs): SqliteSourceConfig {
+  if (!args.path) {
+    throw new Error('SQLite source requires a path to a database file (.sqlite, .db).');
+  }
+  return { type: 'sqlite', path: args.path };
+}
+
+function resolveDuckdb(args: SourceFactoryArgs): DuckdbSourceConfig {
+  if (!args.path) {
+    throw new Error('DuckDB source requires a path to a data file (.csv, .parquet, .ndjson/.jsonl, .json), a directory of them, or a .duckdb database.');
   }
-  return { type: 'csv', path: args.path };
+  return { type: 'duckdb', path: args.path };
 }
 
 function resolvePostgres(args: SourceFactoryArgs): PostgresSourceConfig {
@@ -89,9 +181,32 @@ function resolvePostgres(args: SourceFactoryArgs): PostgresSourceConfig {
   if (args.password) config.password = args.password;
   if (args.passwordEnv) config.passwordEnv = args.passwordEnv;
   if (args.schema) config.schema = args.schema;
-  return config;
+  return withLimits(config, args);
 }
 
+function resolveMysql(args: SourceFactoryArgs): MysqlSourceConfig {
+  if (!args.uri && !args.host) {
+    throw new Error(
+      'MySQL source requires --uri mysql://user@host/database, or discrete --host/--database (plus optional --port/--user/--password-env).',
+    );
+  }
+  if (!args.database && !(args.uri && /^mysql:\/\/[^/]+\/[^/?]+/.test(args.uri))) {
+    throw new Error('MySQL source requires --database (or a database in the --uri path).');
+  }
+  const config: MysqlSourceConfig = { type: 'mysql' };
+  if (args.uri) config.connectionString = args.uri;
+  if (args.host) config.host = args.host;
+  if (args.port !== undefined) config.port = args.port;
+  if (args.database) config.database = args.database;
+  if (args.user) config.user = args.user;
+  if (args.password) config.password = args.password;
+  if (args.passwordEnv) config.passwordEnv = args.passwordEnv;
+  return withLimits(config, args);
+}
+
+/** Refused on a Mongo source, whether it's added or updated. */
+export const MONGO_NO_LOCK_TIMEOUT = 'Mongo sources have no lock timeout — use statementTimeoutMs (applied as maxTimeMS).';
+
 function resolveMongo(args: SourceFactoryArgs): MongoSourceConfig {
   if (!args.database) {
     throw new Error(
@@ -106,5 +221,25 @@ function resolveMongo(args: SourceFactoryArgs): MongoSourceConfig {
   if (args.host) config.host = args.host;
   if (args.port !== undefined) config.port = args.port;
   if (args.collections && args.collections.length > 0) config.collections = args.collections;
+  if (args.flattenDepth !== undefined) {
+    if (!Number.isInteger(args.flattenDepth) || args.flattenDepth < 0) throw new Error(`flattenDepth must be a whole number of levels (0 = top-level fields only), got ${args.flattenDepth}.`);
+    config.flattenDepth = args.flattenDepth;
+  }
+  if (args.lockTimeoutMs !== undefined) throw new Error(MONGO_NO_LOCK_TIMEOUT);
+  return withLimits(config, args);
+}
+
+/** Copy a live source's query limits onto its config, rejecting values the server can't take. */
+function withLimits<T extends QueryLimits>(config: T, args: SourceFactoryArgs): T {
+  for (const key of ['statementTimeoutMs', 'lockTimeoutMs'] as const) {
+    const v = args[key];
+    if (v === undefined) continue;
+    if (!Number.isInteger(v) || v < 0) throw new Error(`${key} must be a whole number of milliseconds (0 = no limit), got ${v}.`);
+    config[key] = v;
+  }
+  if (args.maxRows !== undefined) {
+    if (!Number.isInteger(args.maxRows) || args.maxRows < 1) throw new Error(`maxRows must be a positive whole number, got ${args.maxRows}.`);
+    config.maxRows = args.maxRows;
+  }
   return config;
 }
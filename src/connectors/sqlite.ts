@@ -0,0 +1,243 @@
+/**
+ * SQLite Connector — an existing SQLite database file, queried in place.
+ *
+ * The file is opened read-only with better-sqlite3: nothing is copied or loaded,
+ * and nothing Dolex does can write to it. Every table and view is profiled the
+ * way the file connector profiles columns (csv.ts `profileColumn`), declared
+ * foreign keys are read from `PRAGMA foreign_key_list`, and the custom
+ * aggregates (MEDIAN, STDDEV, P25…) are registered on the connection so analysis
+ * SQL runs unchanged.
+ *
+ * Derived columns live in the connection's TEMP database, which SQLite attaches to
+ * every session and which stays writable on a read-only connection: a derivation
+ * becomes a same-named TEMP VIEW over `main.<table>` projecting the extra column.
+ * TEMP is searched before `main`, so later unqualified `FROM <table>` queries see
+ * it, and it vanishes with the connection — the user's file is never touched.
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  DataSourceConfig,
+  DataSchema,
+  DataTable,
+  ForeignKey,
+  SqliteSourceConfig,
+} from '../types.js';
+import type {
+  DataConnector,
+  ConnectedSource,
+  QueryExecutionResult,
+  DerivationCapabilities,
+} from './types.js';
+import { profileColumn, registerCustomAggregates } from './csv.js';
+import { SQLITE_FILE_EXTENSION } from './file-formats.js';
+
+/** Every SQLite database file starts with this header. */
+const SQLITE_MAGIC = 'SQLite format 3\0';
+
+function q(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function isSqliteFile(filePath: string): boolean {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const head = Buffer.alloc(SQLITE_MAGIC.length);
+    fs.readSync(fd, head, 0, head.length, 0);
+    return head.toString('latin1') === SQLITE_MAGIC;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/** User tables and views, in name order — SQLite's own `sqlite_*` tables excluded. */
+function listRelations(db: Database.Database): { name: string; type: 'table' | 'view' }[] {
+  return db.prepare(`
+    SELECT name, type FROM main.sqlite_schema
+    WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\'
+    ORDER BY name
+  `).all() as { name: string; type: 'table' | 'view' }[];
+}
+
+function profileRelation(db: Database.Database, name: string): DataTable {
+  const { n } = db.prepare(`SELECT COUNT(*) as n FROM main.${q(name)}`).get() as { n: number };
+  const columns = (db.prepare(`PRAGMA main.table_info(${q(name)})`).all() as { name: string }[])
+    .map((c) => profileColumn(db, name, c.name, n));
+  return { name, columns, rowCount: n };
+}
+
+/**
+ * Declared foreign keys, one per column pair (a composite key yields several). A
+ * reference without a target column points at the parent's primary key.
+ */
+function readForeignKeys(db: Database.Database, tables: string[]): ForeignKey[] {
+  const primaryKey = (table: string): string[] =>
+    (db.prepare(`PRAGMA main.table_info(${q(table)})`).all() as { name: string; pk: number }[])
+      .filter((c) => c.pk > 0)
+      .sort((a, b) => a.pk - b.pk)
+      .map((c) => c.name);
+
+  const foreignKeys: ForeignKey[] = [];
+  for (const table of tables) {
+    const refs = db.prepare(`PRAGMA main.foreign_key_list(${q(table)})`).all() as
+      { id: number; seq: number; table: string; from: string; to: string | null }[];
+    for (const ref of refs) {
+      const toColumn = ref.to ?? primaryKey(ref.table)[ref.seq];
+      if (!toColumn) continue;
+      foreignKeys.push({ fromTable: table, fromColumn: ref.from, toTable: ref.table, toColumn });
+    }
+  }
+  return foreignKeys;
+}
+
+class SqliteConnectedSource implements ConnectedSource {
+  id: string;
+  name: string;
+  readonly type = 'sqlite' as const;
+  private db: Database.Database;
+  private schema: DataSchema;
+  /** Derived columns per table, in creation order — the projection of its TEMP VIEW. */
+  private derived = new Map<string, { column: string; expr: string }[]>();
+
+  constructor(id: string, name: string, db: Database.Database, schema: DataSchema) {
+    this.id = id;
+    this.name = name;
+    this.db = db;
+    this.schema = schema;
+  }
+
+  async getSchema(): Promise<DataSchema> {
+    return this.schema;
+  }
+
+  /** Re-profile derived columns (the base relations can't change under a read-only connection). */
+  invalidateSchema(): void {
+    for (const table of this.schema.tables) {
+      const derived = new Set((this.derived.get(table.name) ?? []).map((d) => d.column));
+      if (derived.size === 0) continue;
+      table.columns = [
+        ...table.columns.filter((c) => !derived.has(c.name)),
+        ...[...derived].map((column) => ({ ...profileColumn(this.db, table.name, column, table.rowCount), layer: 'derived' as const })),
+      ];
+    }
+  }
+
+  /** Rows spread evenly through the relation — by position, so views (no rowid) work too. */
+  async getSampleRows(tableName: string, count: number = 5): Promise<Record<string, any>[]> {
+    const total = this.schema.tables.find((t) => t.name === tableName)?.rowCount ?? 0;
+    if (total === 0) return [];
+    const step = Math.max(1, Math.floor(total / count));
+    const rows = this.db.prepare(`
+      SELECT * FROM (SELECT *, ROW_NUMBER() OVER () - 1 as "_dolex_rn" FROM ${q(tableName)})
+      WHERE "_dolex_rn" % ${step} = 0
+      LIMIT ${count}
+    `).all() as Record<string, any>[];
+    for (const row of rows) delete row._dolex_rn;
+    return rows;
+  }
+
+  async executeQuery(sql: string): Promise<QueryExecutionResult> {
+    try {
+      const rows = this.db.prepare(sql).all() as Record<string, any>[];
+      return { columns: rows.length > 0 ? Object.keys(rows[0]) : [], rows };
+    } catch (err: any) {
+      return { columns: [], rows: [{ error: err.message }] };
+    }
+  }
+
+  // getDatabase intentionally omitted → the ALTER+rowid path would write to the user's file.
+  /**
+   * A derived column is a projection in a session-local TEMP VIEW shadowing the base
+   * relation; nothing is joined back, so there is no row key.
+   */
+  derivationCapabilities(): DerivationCapabilities {
+    return { canDerive: true, materialization: 'session-temp', rowKey: null, serverSideQueryable: true };
+  }
+
+  /**
+   * Materialize a derived column as a TEMP VIEW named after the table. `expr` is a
+   * SQLite expression over the table's columns; it is checked by preparing a probe
+   * before the view is replaced, so a bad expression leaves earlier derivations intact.
+   * Multiple derivations on a table accumulate in one view.
+   */
+  async applyDerivation(table: string, column: string, expr: string): Promise<void> {
+    if (/;|--|\/\*/.test(expr)) throw new Error('derivation expr must be a single SQL expression (no ";" or comments)');
+    if (!this.schema.tables.some((t) => t.name === table)) throw new Error(`Table "${table}" not found`);
+    this.db.prepare(`SELECT (${expr}) FROM main.${q(table)} LIMIT 0`);
+
+    const cols = (this.derived.get(table) ?? []).filter((d) => d.column !== column);
+    cols.push({ column, expr });
+    const projected = cols.map((d) => `(${d.expr}) AS ${q(d.column)}`).join(', ');
+    this.db.exec(`DROP VIEW IF EXISTS temp.${q(table)}`);
+    this.db.exec(`CREATE TEMP VIEW ${q(table)} AS SELECT b.*, ${projected} FROM main.${q(table)} b`);
+    this.derived.set(table, cols);
+    this.invalidateSchema();
+  }
+
+  async close(): Promise<void> {
+    try {
+      this.db.close();
+    } catch {
+      // Already closed, ignore
+    }
+  }
+}
+
+function checkConfig(config: DataSourceConfig): SqliteSourceConfig {
+  if (config.type !== 'sqlite') {
+    throw new Error('Config type must be "sqlite"');
+  }
+  return config;
+}
+
+export const sqliteConnector: DataConnector = {
+  type: 'sqlite',
+
+  async test(config: DataSourceConfig): Promise<{ ok: boolean; error?: string }> {
+    try {
+      const sqliteConfig = checkConfig(config);
+      if (!fs.statSync(sqliteConfig.path).isFile() || !isSqliteFile(sqliteConfig.path)) {
+        return { ok: false, error: `Not a SQLite database file: ${sqliteConfig.path}` };
+      }
+      return { ok: true };
+    } catch (err: any) {
+      return { ok: false, error: err.code ? `Cannot access path: ${err.message}` : err.message };
+    }
+  },
+
+  async connect(config: DataSourceConfig): Promise<ConnectedSource> {
+    const sqliteConfig = checkConfig(config);
+    if (!isSqliteFile(sqliteConfig.path)) {
+      throw new Error(`Not a SQLite database file: ${sqliteConfig.path}`);
+    }
+    const db = new Database(sqliteConfig.path, { readonly: true, fileMustExist: true });
+    try {
+      registerCustomAggregates(db);
+
+      const tables: DataTable[] = [];
+      for (const relation of listRelations(db)) {
+        try {
+          tables.push(profileRelation(db, relation.name));
+        } catch (err: any) {
+          // A virtual table whose module isn't compiled in, a view over a missing table…
+          console.warn(`[sqlite-connector] Skipped ${relation.type} ${relation.name}: ${err.message}`);
+        }
+      }
+      const foreignKeys = readForeignKeys(db, tables.map((t) => t.name));
+
+      const sourceName = path.basename(sqliteConfig.path).replace(SQLITE_FILE_EXTENSION, '');
+      const id = `sqlite-${sourceName}-${Date.now()}`;
+      const schema: DataSchema = {
+        tables,
+        foreignKeys,
+        source: { id, type: 'sqlite', name: sourceName, config },
+      };
+      return new SqliteConnectedSource(id, sourceName, db, schema);
+    } catch (err) {
+      db.close();
+      throw err;
+    }
+  },
+};
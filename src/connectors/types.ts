@@ -2,7 +2,23 @@
  * Connector-specific types for Dolex data source connectors.
  */
 
-import type { DataSourceType, DataSourceConfig, DataSchema, DataColumn } from '../types.js';
+import type { DataSourceType, DataSourceConfig, DataSchema, DataColumn, QueryLimits } from '../types.js';
+
+export const DEFAULT_STATEMENT_TIMEOUT_MS = 30_000;
+export const DEFAULT_LOCK_TIMEOUT_MS = 5_000;
+
+/**
+ * The statement and lock timeouts a live connector enforces for analyst queries — the
+ * source's own `QueryLimits`, else the defaults. 0 means no limit.
+ */
+export function queryTimeouts(limits: QueryLimits): { statementMs: number; lockMs: number } {
+  const ms = (v: number | undefined, fallback: number) =>
+    v !== undefined && Number.isFinite(v) && v >= 0 ? Math.floor(v) : fallback;
+  return {
+    statementMs: ms(limits.statementTimeoutMs, DEFAULT_STATEMENT_TIMEOUT_MS),
+    lockMs: ms(limits.lockTimeoutMs, DEFAULT_LOCK_TIMEOUT_MS),
+  };
+}
 
 /**
  * Reflect a session-derived column in a connector's cached schema, so downstream consumers
@@ -49,6 +65,30 @@ export interface DerivationCapabilities {
   serverSideQueryable: boolean;
 }
 
+/**
+ * Progress of a long-running source load (file connectors stream rows in, then profile).
+ * Byte counts are cumulative across every file in the source, so `bytesRead / totalBytes`
+ * is monotonic for the whole connect.
+ */
+export interface LoadProgress {
+  /** Table currently being loaded. */
+  table: string;
+  /** `load` while rows stream into the database, `profile` while column stats are computed. */
+  phase: 'load' | 'profile';
+  /** Rows loaded into `table` so far. */
+  rows: number;
+  bytesRead: number;
+  totalBytes: number;
+}
+
+/** Per-call connect options. Connectors ignore what they don't support. */
+export interface ConnectOptions {
+  /** Called periodically (throttled) while a file source loads. */
+  onProgress?: (progress: LoadProgress) => void;
+  /** File sources: reuse (and store) loaded databases in this directory — see load-cache.ts. */
+  cacheDir?: string;
+}
+
 /**
  * A data connector knows how to connect to a specific data source type,
  * introspect its schema, and execute queries against it.
@@ -56,7 +96,7 @@ export interface DerivationCapabilities {
 export interface DataConnector {
   type: DataSourceType;
   /** Connect and validate the data source, returning a ConnectedSource handle. */
-  connect(config: DataSourceConfig): Promise<ConnectedSource>;
+  connect(config: DataSourceConfig, options?: ConnectOptions): Promise<ConnectedSource>;
   /** Test if a connection config is valid without fully connecting. */
   test(config: DataSourceConfig): Promise<{ ok: boolean; error?: string }>;
 }
@@ -18,6 +18,7 @@ export type {
   DataColumn,
   DataTable,
   ForeignKey,
+  ForeignKeyEvidence,
   DataSchema,
   DataSourceType,
   DataSourceInfo,
@@ -9,12 +9,13 @@
  *   visualize              — Data (inline, cached, or CSV+SQL) + intent → ranked visualization recommendations
  *   list_patterns          — Browse all available visualization patterns
  *   refine_visualization   — Tweak a visualization spec
- *   load_source            — Load a CSV / Postgres / MongoDB source
+ *   load_source            — Load a CSV / Postgres / MySQL / MongoDB source
  *   list_data              — List loaded datasets
  *   remove_data            — Remove a loaded dataset
  *   describe_data          — Re-examine column profiles and sample rows for a dataset
  *   analyze_data           — Generate a structured analysis plan with SQL queries
  *   query_data             — Run a declarative SQL query and see tabular results
+ *   data_context           — Read, author and edit a table's data context (metrics, standard filters, notes)
  *   server_status          — Inspect cached data in server memory
  *   clear_cache            — Clear cached specs, results, and sessions
  *   export_html            — Get the full rendered HTML for a visualization by specId
@@ -51,6 +52,7 @@ import {
 } from './tools/sources.js';
 import { analyzeSourceInputSchema, handleAnalyzeSource } from './tools/analyze.js';
 import { querySourceInputSchema, handleQuerySource } from './tools/query-source.js';
+import { dataContextInputSchema, handleDataContext } from './tools/data-context.js';
 import {
   clearCacheInputSchema,
   handleServerStatus,
@@ -86,6 +88,7 @@ import { registry } from '../patterns/registry.js';
 import { selectPatternsCallback as selectPatternCallback } from '../patterns/select-callback.js';
 // Connector imports
 import { SourceManager } from '../connectors/manager.js';
+import { loadCacheDir } from '../connectors/load-cache.js';
 // MCP Apps shell
 import { getAppShellHtml, CHART_RESOURCE_URI } from './app-shell.js';
 
@@ -93,7 +96,7 @@ import { getAppShellHtml, CHART_RESOURCE_URI } from './app-shell.js';
 
 const dolexDir = join(homedir(), '.dolex');
 mkdirSync(dolexDir, { recursive: true });
-const sourceManager = new SourceManager(join(dolexDir, 'sources.json'));
+const sourceManager = new SourceManager(join(dolexDir, 'sources.json'), { cacheDir: loadCacheDir(dolexDir) });
 
 const serverStartTime = Date.now();
 
@@ -117,8 +120,8 @@ const server = new McpServer(
       "You are a data analyst working on the user's own CSV files: rigorous column profiling, data-quality auditing, a prioritized analysis plan, and findings rendered across 43 chart types as artifacts they keep.",
       '',
       'WORKFLOW:',
-      '• Got a CSV file, Postgres, or MongoDB? → load_source(name, type, path|uri|host+database) — returns smart summary (column names, types, ranges, categorical values)',
-      '• For a Postgres/MongoDB source, call capabilities first to confirm its driver is installed here; if not, it tells the user the exact command (e.g. `npm install pg`). Loading a source whose driver is missing returns that same install message, never a crash.',
+      '• Got a CSV file, Postgres, MySQL, or MongoDB? → load_source(name, type, path|uri|host+database) — returns smart summary (column names, types, ranges, categorical values)',
+      '• For a Postgres/MySQL/MongoDB source, call capabilities first to confirm its driver is installed here; if not, it tells the user the exact command (e.g. `npm install pg`). Loading a source whose driver is missing returns that same install message, never a crash.',
       '• Got inline data? → visualize(data, intent) directly',
       '• Need to explore? → load_source → analyze_data → visualize(sourceId, sql, intent) per step',
       '',
@@ -131,10 +134,11 @@ const server = new McpServer(
       '• specId expired? → re-run the original visualize call, then continue refining from the new specId',
       '',
       'TOOL GUIDE:',
-      '• load_source: Load a CSV / Postgres / MongoDB source. Returns sourceId + smart summary (columns, types, ranges, categorical values) — enough to query.',
+      '• load_source: Load a CSV / Postgres / MySQL / MongoDB source. Returns sourceId + smart summary (columns, types, ranges, categorical values) — enough to query.',
       '• describe_data: Full column stats, top values, sample rows. Call only when you need deep exploration.',
       '• analyze_data: Auto-generate analysis plan with ready SQL queries. Execute each step with visualize; present results one at a time.',
-      '• query_data: Run SQL query, get rows. Returns resultId for visualize().',
+      '• query_data: Run SQL query, get rows. Returns resultId for visualize(). A truncated result pages on: resultId + page.',
+      '• data_context: A table\'s semantic layer — metric definitions, standard filters, column notes. When the user explains what a metric means or which rows to exclude, record it here; describe_data, analyze_data and query_data pick it up.',
       '• clean_column: Clean one column with a Python clean(value) you write — parse messy dates, null sentinels, canonicalize categories. Preview first, then apply:true writes a non-destructive <column>_clean. (Requires python3.)',
       '• visualize: Chart data. Pass inline data array, resultId from query_data, or sourceId + sql for server-side query. Matches a chart to the shape of the data. Set title/subtitle here to avoid a refine round-trip.',
       '• refine_visualization: Tweak a chart — sort, limit, filter, palette, highlight, flip, title, format. Each call returns a new specId.',
@@ -145,6 +149,8 @@ const server = new McpServer(
       'COLOR: Set palette (categorical/blue/warm/blueRed/etc.) and/or highlight specific values. Use colorField to control which column drives color.',
       'PATTERNS: 43 chart types matched to the shape of the data and the question being asked. When user names a specific chart type, pass pattern="<id>" to force it. Use list_patterns to browse.',
       '',
+      'PRIVACY: Personal data is redacted before it reaches you — masked values like j***@example.com are intended. Aggregate over such columns rather than listing them.',
+      '',
       'ERRORS: If a SQL query fails, check the error message for available columns/tables and retry. If specId is expired, re-run visualize.',
       '',
       'DON\'T use Dolex for: simple arithmetic, explanations of chart types, non-data questions, or file format conversions (CSV export, PowerPoint, etc.).',
@@ -161,7 +167,7 @@ registerAppTool(
   'visualize',
   {
     title: 'Visualize Data',
-    description: 'Produces the analysis as a finished chart. Takes inline data, a cached result, or a registered source, and produces a chart matched to the shape of the data — self-contained HTML the user keeps, with the analysis behind it inspectable. Set title and subtitle here.\n\nData source (provide one):\n• data: inline rows\n• resultId: reuse query_data result\n• sourceId + sql: query a loaded CSV server-side (saves tokens)\n\nReturns specId (for refine calls), the matched chart, and alternatives.\nPresent any notes to the user.',
+    description: 'Produces the analysis as a finished chart. Takes inline data, a cached result, or a registered source, and produces a chart matched to the shape of the data — self-contained HTML the user keeps, with the analysis behind it inspectable. Set title and subtitle here.\n\nData source (provide one):\n• data: inline rows\n• resultId: reuse query_data result\n• sourceId + sql: query a loaded CSV server-side (saves tokens)\n\nLine/area charts take annotations (anomalies, level shifts, events) to mark; annotateAnomalies=true detects and marks them.\n\nReturns specId (for refine calls), the matched chart, and alternatives.\nPresent any notes to the user.',
     inputSchema: visualizeInputSchema.shape,
     _meta: {
       ui: {
@@ -208,7 +214,7 @@ server.registerTool(
   'load_source',
   {
     title: 'Load a data source',
-    description: 'Load a data source: a CSV file/directory (type "csv" + path), a live Postgres database (type "postgres" + uri or host/database/user), or a MongoDB database (type "mongodb" + uri/host + database). Type defaults to "csv". Datasets persist across restarts.\nReturns sourceId + smart summary: column names, types, numeric ranges, categorical values.\nThis gives you enough to query. Call describe_data only if you need full stats.',
+    description: 'Load a data source: a CSV file/directory (type "csv" + path), an Excel .xlsx workbook (type "excel" + path; one table per sheet), a SQLite database file (type "sqlite" + path; tables and views queried in place, read-only), large data files or a .duckdb database queried in place by DuckDB (type "duckdb" + path; nothing loaded — use for files too big to load), a live Postgres database (type "postgres" + uri or host/database/user), a live MySQL/MariaDB database (type "mysql" + uri or host/database/user; write SQL with double-quoted identifiers and single-quoted strings), or a MongoDB database (type "mongodb" + uri/host + database). Type defaults to "csv" ("excel" for an .xlsx path, "sqlite" for a .sqlite/.db path, "duckdb" for a .duckdb path). Datasets persist across restarts. Personal data (emails, phone numbers, card numbers, IBANs, national IDs, names) is masked in samples, query results and charts unless redaction says otherwise — set redaction.allow only when the user asks to see those values.\nReturns sourceId + smart summary: column names, types, numeric ranges, categorical values. When the load-time data-quality audit finds issues that silently change a number (type traps, sentinels, duplicate rows, orphaned foreign keys, join fan-out), they come back as quality — account for them in your SQL and tell the user.\nThis gives you enough to query. Call describe_data only if you need full stats.',
     inputSchema: addSourceInputSchema,
   },
   handleAddSource({ sourceManager }),
@@ -237,7 +243,7 @@ server.registerTool(
   'describe_data',
   {
     title: 'Describe Data',
-    description: 'Full column profiles: stats (min/max/mean/median), top values with counts, sample rows.\nUse only when you need deep exploration — load_source already gives you enough to query.',
+    description: 'Full column profiles: stats (min/max/mean/median), top values with counts, sample rows, and the foreign keys touching each table (inferred keys carry a confidence score and evidence: name match, value containment, uniqueness — check them before trusting a join). A table with a data context (see data_context) also returns it rendered as dataContext — follow its definitions and filters.\nUse only when you need deep exploration — load_source already gives you enough to query.',
     inputSchema: describeSourceInputSchema,
   },
   handleDescribeSource({ sourceManager }),
@@ -247,7 +253,7 @@ server.registerTool(
   'analyze_data',
   {
     title: 'Analyze Data',
-    description: 'Auto-generate an analysis plan with ready-to-execute SQL queries. Returns 4-6 steps covering trends, comparisons, distributions, and relationships.',
+    description: 'Auto-generate an analysis plan with ready-to-execute SQL queries. Returns 4-6 steps covering trends, comparisons, distributions, and relationships; a wide table (or one given a target measure) also gets a correlation matrix with a key-driver ranking of the target. On a multi-table source, steps can join along foreign keys to lookup-table dimensions; such a step carries the joinPath it used. A table\'s data context contributes its metrics as measures, and its standard filters are applied to every step\'s SQL (listed in standardFilters).\nWith execute=true, each step is also run and returned as a finding: significance tests fitting its category (Welch\'s t / Mann-Whitney for comparisons, chi-square for composition, Mann-Kendall + slope for trends, plus anomalies and level shifts with their periods and chart annotations, Pearson/Spearman for relationships; the matrix and driver ranking for correlation steps) with p-values, effect sizes and a plain-English verdict.',
     inputSchema: analyzeSourceInputSchema.shape,
   },
   handleAnalyzeSource({ sourceManager }),
@@ -257,12 +263,22 @@ server.registerTool(
   'query_data',
   {
     title: 'Query Data',
-    description: 'Run a SQL query on a loaded dataset. JOINs, GROUP BY, window functions, CTEs.\nCustom aggregates: MEDIAN, STDDEV, CV, MAD, P1/P5/P10/P25/P75/P90/P95/P99.\nReturns resultId for visualize().',
+    description: 'Run a SQL query on a loaded dataset. JOINs, GROUP BY, window functions, CTEs.\nCustom aggregates: MEDIAN, STDDEV, CV, MAD, P1/P5/P10/P25/P75/P90/P95/P99.\nReturns resultId for visualize().\nResults past maxRows (default 10000) come back a page at a time: when truncated=true, call again with resultId + page=nextPage for the next rows.\nA query that reads a table without the standard filters its data context defines comes back with a warning naming them.\nColumns holding personal data come back redacted under the source\'s policy and are listed in redacted — the values are masked on purpose, not bad data.',
     inputSchema: querySourceInputSchema,
   },
   handleQuerySource({ sourceManager }),
 );
 
+server.registerTool(
+  'data_context',
+  {
+    title: 'Data Context',
+    description: 'Read, author or edit the data context of a table: terms, metric definitions (plain English + SQL), standard filters (test rows, soft-deletes), column notes and example queries, kept in a sidecar beside the data (or in the server\'s state directory for a live database).\nschema returns the JSON schema and an authoring prompt; validate checks a context without writing; save replaces it; update adds, replaces or removes entries by name. Writes are validated against the schema and rejected on errors; warnings (unknown columns, metrics analyze can\'t plan) come back with the saved context.',
+    inputSchema: dataContextInputSchema.shape,
+  },
+  handleDataContext({ sourceManager }),
+);
+
 // Derived data layer tools
 server.registerTool(
   'transform_data',
@@ -330,7 +346,7 @@ server.registerTool(
   'capabilities',
   {
     title: 'Environment Capabilities',
-    description: 'What this Dolex install can do here: which source types are ready (CSV always; Postgres/MongoDB only if their optional driver is installed), whether python3 is present (for clean_column), and the exact command to enable anything missing. Call this before loading a Postgres/Mongo source so you can tell the user how to install a missing driver instead of hitting an error.',
+    description: 'What this Dolex install can do here: which source types are ready (CSV always; Postgres/MySQL/MongoDB only if their optional driver is installed), whether python3 is present (for clean_column), and the exact command to enable anything missing. Call this before loading a Postgres/Mongo source so you can tell the user how to install a missing driver instead of hitting an error.',
   },
   handleCapabilities(),
 );
@@ -339,7 +355,7 @@ server.registerTool(
   'test_source',
   {
     title: 'Test a Source',
-    description: 'Health-check a registered Postgres/Mongo source: is its saved database reachable with its credentials? Returns a classified reason (unreachable / auth-failed / db-not-found / driver-missing) so you can tell the user exactly what to fix. A source can be registered even while its DB is down — use this to confirm it once it is up.',
+    description: 'Health-check a registered Postgres/MySQL/Mongo source: is its saved database reachable with its credentials? Returns a classified reason (unreachable / auth-failed / db-not-found / driver-missing) so you can tell the user exactly what to fix. A source can be registered even while its DB is down — use this to confirm it once it is up.',
     inputSchema: testSourceInputSchema,
   },
   handleTestSource({ sourceManager }),
@@ -1,17 +1,23 @@
 /**
  * MCP Tool: analyze_data
- * Examines a data source and generates a structured analysis plan with DSL queries.
+ * Examines a data source and generates a structured analysis plan with DSL queries;
+ * with `execute`, also runs each step and attaches significance-tested findings. The
+ * table's data context, if it has one, contributes its metrics and standard filters.
  */
 
 import { z } from 'zod';
 import { buildAnalysisPlan } from '../../analysis/planner.js';
-import { plannerDialectForSource, PlannerUnsupportedSourceError } from '../../analysis/rules.js';
+import { plannerDialectForSource, PlannerUnsupportedSourceError, PlannerTargetError } from '../../analysis/rules.js';
+import { executePlan } from '../../analysis/findings.js';
+import { loadSourceDataContext } from '../../analysis/data-context.js';
 import { errorResponse, jsonResponse } from './shared.js';
 
 export const analyzeSourceInputSchema = z.object({
   sourceId: z.string().describe('Dataset ID returned by load_csv'),
   table: z.string().optional().describe('Table to analyze (defaults to first table)'),
   maxSteps: z.number().min(1).max(10).optional().describe('Maximum analysis steps (default: 6)'),
+  target: z.string().optional().describe('Measure column to rank key drivers of; puts the correlation-matrix step first (default: the first measure)'),
+  execute: z.boolean().optional().describe('Run each step and attach findings: significance tests (p-values, effect sizes) and a plain-English verdict'),
 });
 
 export function handleAnalyzeSource(deps: { sourceManager: any }) {
@@ -42,14 +48,25 @@ export function handleAnalyzeSource(deps: { sourceManager: any }) {
       throw err;
     }
 
-    const plan = buildAnalysisPlan(
-      targetTable.columns,
-      targetTable.name,
-      schemaResult.schema.source?.name ?? args.sourceId,
-      args.maxSteps ?? 6,
-      dialect,
-    );
+    let plan;
+    try {
+      plan = buildAnalysisPlan(
+        targetTable.columns,
+        targetTable.name,
+        schemaResult.schema.source?.name ?? args.sourceId,
+        args.maxSteps ?? 6,
+        dialect,
+        schemaResult.schema,
+        args.target,
+        loadSourceDataContext(schemaResult.schema.source, targetTable.name, deps.sourceManager.stateDir),
+      );
+    } catch (err) {
+      if (err instanceof PlannerTargetError) return errorResponse(err.message);
+      throw err;
+    }
 
-    return jsonResponse(plan);
+    if (!args.execute) return jsonResponse(plan);
+    const findings = await executePlan(plan, (sql, options) => deps.sourceManager.querySql(args.sourceId, sql, undefined, options), dialect);
+    return jsonResponse({ ...plan, findings });
   };
 }
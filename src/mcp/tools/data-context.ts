@@ -0,0 +1,114 @@
+/**
+ * MCP Tool: data_context
+ * Read, author and edit the data-context sidecar of one table — the semantic layer
+ * (terms, metric definitions, standard filters, column notes, example queries) that
+ * describe_data shows, analyze_data plans from, and query_data checks filters against.
+ * Every write is validated against DATA_CONTEXT_SCHEMA first; a context with schema
+ * errors is never saved.
+ */
+
+import { z } from 'zod';
+import {
+  DATA_CONTEXT_SCHEMA,
+  DATA_CONTEXT_SECTIONS,
+  buildContextAuthorPrompt,
+  mergeDataContext,
+  readDataContext,
+  renderDataContext,
+  sourceDataContextPath,
+  validateDataContext,
+  writeDataContext,
+} from '../../analysis/data-context.js';
+import type { DataContext, DataContextSection } from '../../analysis/data-context.js';
+import { errorResponse, jsonResponse } from './shared.js';
+
+const sections = Object.keys(DATA_CONTEXT_SECTIONS) as [DataContextSection, ...DataContextSection[]];
+
+export const dataContextInputSchema = z.object({
+  sourceId: z.string().describe('Dataset ID returned by load_source'),
+  table: z.string().optional().describe('Table the context describes (defaults to the first table)'),
+  action: z.enum(['get', 'schema', 'validate', 'save', 'update']).default('get').describe(
+    'get: the saved context and its path. schema: the JSON schema plus an authoring prompt built from the table\'s columns and sample rows. ' +
+    'validate: check `context` (or the saved one) without writing. save: replace the sidecar with `context`. ' +
+    'update: merge `context` into the saved one — entries replace the same-named entry of their section or are appended — and drop the `remove` entries.',
+  ),
+  context: z.record(z.any()).optional().describe('A DataContext: { dataset, entities?, metrics?, standardFilters?, columnNotes?, queryExamples? }. For update, only the entries to add or replace.'),
+  remove: z.array(z.object({
+    section: z.enum(sections),
+    key: z.string().describe('The entry\'s term / name / description / column / question'),
+  })).optional().describe('update only: entries to delete'),
+});
+
+export function handleDataContext(deps: { sourceManager: any }) {
+  return async (args: z.infer<typeof dataContextInputSchema>) => {
+    const schemaResult = await deps.sourceManager.getSchema(args.sourceId);
+    if (!schemaResult.ok || !schemaResult.schema) {
+      return errorResponse(schemaResult.error ?? `Source not found: ${args.sourceId}`);
+    }
+    const tables = schemaResult.schema.tables;
+    const table = args.table ? tables.find((t: any) => t.name === args.table) : tables[0];
+    if (!table) {
+      return errorResponse(args.table
+        ? `Table "${args.table}" not found. Available: ${tables.map((t: any) => t.name).join(', ')}`
+        : 'No tables found in source');
+    }
+
+    const source = schemaResult.schema.source;
+    const contextPath = source?.config ? sourceDataContextPath(source, table.name, deps.sourceManager.stateDir) : null;
+    const saved = contextPath ? readDataContext(contextPath) : null;
+    const shape = { name: table.name, columns: table.columns.map((c: any) => c.name) };
+
+    if (args.action === 'get') {
+      return jsonResponse({ table: table.name, path: contextPath, context: saved, rendered: renderDataContext(saved) || undefined });
+    }
+
+    if (args.action === 'schema') {
+      const connResult = await deps.sourceManager.connect(args.sourceId);
+      const sampleRows = connResult.ok ? await connResult.source.getSampleRows(table.name, 5) : [];
+      const schemaText = table.columns.map((c: any) => `${c.name} (${c.type})`).join(', ');
+      return jsonResponse({
+        table: table.name,
+        path: contextPath,
+        schema: DATA_CONTEXT_SCHEMA,
+        prompt: buildContextAuthorPrompt(table.name, schemaText, JSON.stringify(sampleRows, null, 2), ''),
+      });
+    }
+
+    if (args.action === 'validate') {
+      const candidate = args.context ?? saved;
+      if (!candidate) return errorResponse(`No context to validate: pass one, or save one for "${table.name}" first.`);
+      return jsonResponse({ table: table.name, ...validateDataContext(candidate, shape) });
+    }
+
+    if (!contextPath) {
+      return errorResponse(`Source "${args.sourceId}" has no place to keep a data context: a ${source?.type ?? 'live'} source stores it in the server's state directory, and this server runs without one.`);
+    }
+    if (!args.context && !(args.action === 'update' && args.remove?.length)) {
+      return errorResponse(`${args.action} needs a context${args.action === 'update' ? ' or entries to remove' : ''}.`);
+    }
+
+    let next: unknown;
+    if (args.action === 'save') {
+      next = { dataset: table.name, ...args.context };
+    } else {
+      const patch = validateDataContext({ dataset: table.name, ...args.context });
+      if (patch.errors.length > 0) return errorResponse(`Context not updated:\n${patch.errors.join('\n')}`);
+      const missing = (args.remove ?? []).filter((r) => !((saved?.[r.section] ?? []) as unknown as Record<string, string>[])
+        .some((e) => e[DATA_CONTEXT_SECTIONS[r.section]] === r.key));
+      if (missing.length > 0) {
+        return errorResponse(`Nothing to remove for ${missing.map((r) => `${r.section} "${r.key}"`).join(', ')}.`);
+      }
+      next = mergeDataContext(saved ?? { dataset: table.name }, (args.context ?? {}) as Partial<DataContext>, args.remove);
+    }
+
+    const { errors, warnings } = validateDataContext(next, shape);
+    if (errors.length > 0) return errorResponse(`Context not saved:\n${errors.join('\n')}`);
+    writeDataContext(contextPath, next as DataContext);
+    return jsonResponse({
+      table: table.name,
+      path: contextPath,
+      context: next,
+      ...(warnings.length ? { warnings } : {}),
+    });
+  };
+}
@@ -1,24 +1,47 @@
 /**
  * MCP Tool: query_data
- * Execute a SQL query against a source and return tabular results.
+ * Execute a SQL query against a source and return tabular results — a page at a time
+ * when the result runs past maxRows (the first call returns page 1 and a resultId;
+ * resultId + page fetches the rest). A query that reads a table without the standard
+ * filters its data context defines comes back with a warning saying which.
  */
 
 import { z } from 'zod';
-import { saveResult } from './result-cache.js';
+import { saveResult, getResultQuery } from './result-cache.js';
 import { errorResponse, jsonResponse } from './shared.js';
 import { logOperation } from './operation-log.js';
+import { loadSourceDataContext, standardFilterWarning } from '../../analysis/data-context.js';
 
 export const querySourceInputSchema = z.object({
-  sourceId: z.string().describe('Dataset ID returned by load_csv'),
-  sql: z.string().describe('SQL SELECT query. Use table and column names from load_csv/describe_data. Supports JOINs, GROUP BY, HAVING, window functions, CTEs. Custom aggregates: MEDIAN, STDDEV, CV (coeff. of variation), MAD (median abs. deviation), P1/P5/P10/P25/P75/P90/P95/P99.'),
-  maxRows: z.number().optional().describe('Max rows to return (default: 10000)'),
+  sourceId: z.string().optional().describe('Dataset ID returned by load_csv (required unless paging with resultId)'),
+  sql: z.string().optional().describe('SQL SELECT query. Use table and column names from load_csv/describe_data. Supports JOINs, GROUP BY, HAVING, window functions, CTEs. Custom aggregates: MEDIAN, STDDEV, CV (coeff. of variation), MAD (median abs. deviation), P1/P5/P10/P25/P75/P90/P95/P99. Add ORDER BY when you will page through the result, so pages are stable.'),
+  maxRows: z.number().optional().describe("Max rows to return — the page size (default and cap: the source's row cap, 10000 unless configured)"),
+  resultId: z.string().optional().describe('Fetch another page of an earlier query_data result: its source, SQL and page size are reused'),
+  page: z.number().int().min(1).optional().describe('1-based page to return (default 1). A response with truncated=true gives nextPage'),
 });
 
 export function handleQuerySource(deps: { sourceManager: any }) {
   return async (args: z.infer<typeof querySourceInputSchema>) => {
     const start = Date.now();
 
-    const result = await deps.sourceManager.querySql(args.sourceId, args.sql, args.maxRows);
+    let sourceId = args.sourceId;
+    let sql = args.sql;
+    let pageSize = args.maxRows;
+    if (args.resultId) {
+      const origin = getResultQuery(args.resultId);
+      if (!origin) {
+        return errorResponse(`Result "${args.resultId}" not found or expired. Re-run query_data with sourceId + sql.`);
+      }
+      ({ sourceId, sql, pageSize } = origin);
+    }
+    if (!sourceId || !sql) {
+      return errorResponse('Pass sourceId + sql, or resultId + page to fetch another page of an earlier result.');
+    }
+    const page = args.page ?? 1;
+    const cap: number = deps.sourceManager.resultCap(sourceId);
+    pageSize = Math.min(pageSize ?? cap, cap);
+
+    const result = await deps.sourceManager.queryPage(sourceId, sql, (page - 1) * pageSize, pageSize);
     if (!result.ok) {
       logOperation({
         toolName: 'query_data',
@@ -26,14 +49,15 @@ export function handleQuerySource(deps: { sourceManager: any }) {
         durationMs: Date.now() - start,
         success: false,
         meta: {
-          sqlPreview: args.sql.slice(0, 200),
+          sqlPreview: sql.slice(0, 200),
           error: result.error,
         },
       });
       return errorResponse(result.error);
     }
 
-    const resultId = saveResult(result.rows, result.columns);
+    const resultId = saveResult(result.rows, result.columns, { sourceId, sql, pageSize: result.pageSize });
+    const warnings = [...(result.warnings ?? []), ...await standardFilterWarnings(deps.sourceManager, sourceId, sql)];
 
     logOperation({
       toolName: 'query_data',
@@ -41,7 +65,7 @@ export function handleQuerySource(deps: { sourceManager: any }) {
       durationMs: Date.now() - start,
       success: true,
       meta: {
-        sqlPreview: args.sql.slice(0, 200),
+        sqlPreview: sql.slice(0, 200),
         dataShape: {
           rowCount: result.rows!.length,
           columnCount: result.columns!.length,
@@ -55,9 +79,22 @@ export function handleQuerySource(deps: { sourceManager: any }) {
       columns: result.columns,
       rows: result.rows,
       totalRows: result.totalRows,
-      truncated: result.truncated ?? false,
-      ...(result.warnings?.length ? { warnings: result.warnings } : {}),
+      truncated: result.hasMore ?? false,
+      ...(page > 1 || result.hasMore ? { page } : {}),
+      ...(result.hasMore ? { nextPage: page + 1 } : {}),
+      ...(warnings.length ? { warnings } : {}),
+      ...(result.redacted?.length ? { redacted: result.redacted } : {}),
       queryTimeMs: Date.now() - start,
     });
   };
 }
+
+/** One warning per table whose data context has standard filters `sql` reads it without. */
+async function standardFilterWarnings(sourceManager: any, sourceId: string, sql: string): Promise<string[]> {
+  const schemaResult = await sourceManager.getSchema(sourceId);
+  if (!schemaResult.ok || !schemaResult.schema) return [];
+  return schemaResult.schema.tables.flatMap((t: any) => {
+    const warning = standardFilterWarning(sql, loadSourceDataContext(schemaResult.schema.source, t.name, sourceManager.stateDir), t.name);
+    return warning ? [warning] : [];
+  });
+}
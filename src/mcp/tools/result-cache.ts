@@ -1,13 +1,22 @@
 /**
  * In-memory result cache for query_data → visualize flow.
- * Max 20 entries, 10-minute TTL.
+ * Max 20 entries, 10-minute TTL. A query_data result also remembers the query that
+ * produced it, so its later pages can be fetched by resultId.
  */
 
 import { randomBytes } from 'crypto';
 
+/** Where a cached result came from: re-run with a later offset to page through it. */
+export interface ResultQuery {
+  sourceId: string;
+  sql: string;
+  pageSize: number;
+}
+
 interface CachedResult {
   rows: Record<string, any>[];
   columns: { name: string; type: string }[];
+  query?: ResultQuery;
   timestamp: number;
 }
 
@@ -25,14 +34,14 @@ function evictExpired(): void {
   }
 }
 
-export function saveResult(rows: Record<string, any>[], columns: { name: string; type: string }[]): string {
+export function saveResult(rows: Record<string, any>[], columns: { name: string; type: string }[], query?: ResultQuery): string {
   evictExpired();
   while (cache.size >= MAX_ENTRIES) {
     const oldest = cache.keys().next().value!;
     cache.delete(oldest);
   }
   const resultId = 'qr-' + randomBytes(4).toString('hex');
-  cache.set(resultId, { rows, columns, timestamp: Date.now() });
+  cache.set(resultId, { rows, columns, query, timestamp: Date.now() });
   return resultId;
 }
 
@@ -43,6 +52,11 @@ export function getResult(resultId: string): { rows: Record<string, any>[]; colu
   return { rows: entry.rows, columns: entry.columns };
 }
 
+export function getResultQuery(resultId: string): ResultQuery | null {
+  evictExpired();
+  return cache.get(resultId)?.query ?? null;
+}
+
 export function clearResultCache(): void {
   cache.clear();
 }
@@ -14,8 +14,9 @@ import type {
   VisualizationSpec,
   CompoundVisualizationSpec,
   ColorPaletteName,
+  RedactionPolicy,
 } from '../../types.js';
-import type { DerivationCapabilities } from '../../connectors/types.js';
+import type { DerivationCapabilities, LoadProgress } from '../../connectors/types.js';
 import { isCompoundSpec } from '../../types.js';
 import { buildChartHtml, isHtmlPatternSupported } from '../../renderers/html/index.js';
 import { buildCompoundHtml } from '../../renderers/html/builders/compound.js';
@@ -52,6 +53,37 @@ export function htmlResponse(body: unknown, html: string): McpResponse {
   };
 }
 
+// ─── PROGRESS NOTIFICATIONS ─────────────────────────────────────────────────
+
+/** The slice of the SDK's per-request `extra` a handler needs to report progress. */
+export interface McpRequestExtra {
+  _meta?: { progressToken?: string | number };
+  sendNotification?: (notification: any) => Promise<void>;
+}
+
+/**
+ * Turn connector load progress into MCP `notifications/progress` for the current request.
+ * Undefined when the client didn't send a progressToken (it didn't ask for progress).
+ * Progress is reported in bytes read; the spec requires it to increase, so repeats are dropped.
+ */
+export function loadProgressNotifier(extra?: McpRequestExtra): ((p: LoadProgress) => void) | undefined {
+  const progressToken = extra?._meta?.progressToken;
+  const send = extra?.sendNotification;
+  if (progressToken === undefined || !send) return undefined;
+  let last = -1;
+  return (p) => {
+    if (p.bytesRead <= last) return;
+    last = p.bytesRead;
+    const message = p.phase === 'profile'
+      ? `Profiling ${p.table} (${p.rows} rows)`
+      : `Loading ${p.table}: ${p.rows} rows`;
+    send({
+      method: 'notifications/progress',
+      params: { progressToken, progress: p.bytesRead, total: p.totalBytes || undefined, message },
+    }).catch(() => { /* best-effort: a closed transport must not fail the load */ });
+  };
+}
+
 // ─── COLUMN INFERENCE ───────────────────────────────────────────────────────
 
 export function inferColumns(data: Record<string, any>[]): DataColumn[] {
@@ -235,7 +267,8 @@ export function formatUptime(ms: number): string {
 
 export interface ResolvedData {
   data: Record<string, any>[];
-  queryMeta?: { truncated?: boolean; totalSourceRows?: number; warnings?: string[] };
+  /** `redaction`: the policy of the source the rows came from, for the chart to embed them under. */
+  queryMeta?: { truncated?: boolean; totalSourceRows?: number; warnings?: string[]; redaction?: RedactionPolicy };
   extraMeta?: { sqlPreview?: string; sourceType?: string };
 }
 
@@ -263,7 +296,7 @@ export async function resolveData(
       return errorResponse(result.error);
     }
     data = result.rows;
-    queryMeta = { truncated: result.truncated, totalSourceRows: result.totalRows, warnings: result.warnings };
+    queryMeta = { truncated: result.truncated, totalSourceRows: result.totalRows, warnings: result.warnings, redaction: deps.sourceManager.redactionPolicy?.(args.sourceId) };
     extraMeta = { sqlPreview: args.sql.slice(0, 200), sourceType };
   }
 
@@ -1,11 +1,14 @@
 /**
  * MCP Tools: list_data, load_csv, remove_data, describe_data
- * Manage CSV datasets.
+ * Manage CSV datasets. Loading one also audits it (see auditDataset), and the
+ * issues that silently change a number come back as `quality`.
  */
 
 import { z } from 'zod';
-import { errorResponse, jsonResponse } from './shared.js';
+import { errorResponse, jsonResponse, loadProgressNotifier, type McpRequestExtra } from './shared.js';
 import { resolveSourceConfig } from '../../connectors/source-factory.js';
+import { loadSourceDataContext, renderDataContext } from '../../analysis/data-context.js';
+import { auditDataset, formatAuditForPrompt } from '../../analysis/quality.js';
 
 const SANDBOX_PATH_PATTERNS = [
   /^\/mnt\/user-data\//,
@@ -20,17 +23,29 @@ export function isSandboxPath(filePath: string): boolean {
 
 export const addSourceInputSchema = z.object({
   name: z.string().describe('Name for this dataset'),
-  type: z.enum(['csv', 'postgres', 'mongodb']).optional().describe('Source type (default: csv)'),
-  path: z.string().optional().describe('CSV: path to a .csv file or directory of CSV files'),
-  uri: z.string().optional().describe('Postgres libpq connection string, or MongoDB connection URI'),
-  host: z.string().optional().describe('DB host (postgres/mongodb) if not using uri'),
+  type: z.enum(['csv', 'excel', 'sqlite', 'duckdb', 'postgres', 'mysql', 'mongodb']).optional().describe('Source type (default: excel for an .xlsx path, sqlite for a .sqlite/.db path, duckdb for a .duckdb path, else csv)'),
+  path: z.string().optional().describe('CSV (file source): path to a .csv, .parquet, .ndjson/.jsonl or .json file, or a directory of them (loaded as one joinable database). Excel: path to an .xlsx workbook (one table per sheet). SQLite: path to a database file (opened read-only). DuckDB: the same data files or directory as CSV, queried in place without loading (for files too large to load), or a .duckdb database'),
+  uri: z.string().optional().describe('Postgres libpq connection string, MySQL mysql:// URI, or MongoDB connection URI'),
+  host: z.string().optional().describe('DB host (postgres/mysql/mongodb) if not using uri'),
   port: z.number().optional().describe('DB port'),
-  database: z.string().optional().describe('Database name (postgres discrete / mongodb — required for mongo)'),
-  user: z.string().optional().describe('Postgres user'),
-  password: z.string().optional().describe('Postgres password (stored in plaintext — prefer passwordEnv)'),
-  passwordEnv: z.string().optional().describe('Name of an env var holding the Postgres password (e.g. "PGPASSWORD"); keeps the secret out of the saved config'),
+  database: z.string().optional().describe('Database name (postgres/mysql discrete / mongodb — required for mongo, and for mysql unless the uri names one)'),
+  user: z.string().optional().describe('Postgres / MySQL user'),
+  password: z.string().optional().describe('Postgres / MySQL password (stored in plaintext — prefer passwordEnv)'),
+  passwordEnv: z.string().optional().describe('Name of an env var holding the Postgres / MySQL password (e.g. "PGPASSWORD"); keeps the secret out of the saved config'),
   schema: z.string().optional().describe('Postgres schema to introspect (default: public)'),
   collections: z.array(z.string()).optional().describe('MongoDB: restrict to these collections'),
+  flattenDepth: z.number().int().min(0).optional().describe('MongoDB: embedded-object levels profiled as dotted-path columns (address.city); arrays within reach become child tables joined on _parent_id (default 3; 0 = top-level fields only)'),
+  statementTimeoutMs: z.number().int().min(0).optional().describe('Postgres / MySQL / MongoDB: cancel a query running longer than this (default 30000; 0 = no limit)'),
+  lockTimeoutMs: z.number().int().min(0).optional().describe('Postgres / MySQL: cancel a query waiting longer than this for a lock (default 5000; 0 = no limit)'),
+  maxRows: z.number().int().min(1).optional().describe('Postgres / MySQL / MongoDB: most rows one query result or page returns (default 10000)'),
+  delimiter: z.string().optional().describe('CSV: field separator ("," ";" "|" or "tab"). Omit to sniff it from the file'),
+  encoding: z.string().optional().describe('CSV: text encoding (e.g. "utf-8", "latin1", "windows-1252"). Omit to sniff it'),
+  skipRows: z.number().int().min(0).optional().describe('CSV: lines to skip above the header row (titles, export notes). Omit to sniff it'),
+  redaction: z.object({
+    mode: z.enum(['mask', 'hash', 'drop', 'off']).optional().describe('mask (default): keep a recognizable shape (j***@example.com); hash: a keyed digest (secret to this installation) that still groups and joins; drop: leave the column out; off: send values as they are'),
+    columns: z.array(z.string()).optional().describe('Columns always redacted'),
+    allow: z.array(z.string()).optional().describe('Columns never redacted — only when the user explicitly allows their values to be seen'),
+  }).optional().describe('How personal data (emails, phone numbers, card numbers, IBANs, national IDs, names) is redacted in samples, query results and charts. Omit to mask what is detected'),
 });
 
 export const removeSourceInputSchema = z.object({
@@ -43,13 +58,21 @@ export const describeSourceInputSchema = z.object({
   detail: z.enum(['compact', 'full']).default('full').describe('Schema detail level: "compact" returns just column names/types + row counts; "full" (default) includes stats, top values, and sample rows'),
 });
 
+/** Joins touching a table — declared, or inferred with their confidence and evidence */
+function tableForeignKeys(t: any, foreignKeys: any[]) {
+  const fks = foreignKeys.filter((fk) => fk.fromTable === t.name || fk.toTable === t.name);
+  return fks.length > 0 ? { foreignKeys: fks } : {};
+}
+
 /** Build a table profile from schema table + connected source (for describe_data) */
-async function buildTableProfile(t: any, connectedSource: any, detail: 'compact' | 'full' = 'full') {
+async function buildTableProfile(t: any, connectedSource: any, detail: 'compact' | 'full' = 'full', foreignKeys: any[] = []) {
   if (detail === 'compact') {
     return {
       name: t.name,
       rowCount: t.rowCount,
+      ...(t.dialect ? { dialect: t.dialect } : {}),
       columns: t.columns.map((c: any) => ({ name: c.name, type: c.type })),
+      ...tableForeignKeys(t, foreignKeys),
     };
   }
   const sampleRows = connectedSource
@@ -58,6 +81,7 @@ async function buildTableProfile(t: any, connectedSource: any, detail: 'compact'
   return {
     name: t.name,
     rowCount: t.rowCount,
+    ...(t.dialect ? { dialect: t.dialect } : {}),
     columns: t.columns.map((c: any) => ({
       name: c.name,
       type: c.type,
@@ -67,6 +91,7 @@ async function buildTableProfile(t: any, connectedSource: any, detail: 'compact'
       ...(c.topValues ? { topValues: c.topValues } : {}),
       sample: c.sampleValues?.slice(0, 3),
     })),
+    ...tableForeignKeys(t, foreignKeys),
     sampleRows,
   };
 }
@@ -137,7 +162,7 @@ export function handleTestSource(deps: { sourceManager: any }) {
 }
 
 export function handleAddSource(deps: { sourceManager: any }) {
-  return async (args: z.infer<typeof addSourceInputSchema>) => {
+  return async (args: z.infer<typeof addSourceInputSchema>, extra?: McpRequestExtra) => {
     if (args.path && isSandboxPath(args.path)) {
       return errorResponse(
         'This path looks like a cloud sandbox path, not a local filesystem path. '
@@ -151,7 +176,10 @@ export function handleAddSource(deps: { sourceManager: any }) {
       config = resolveSourceConfig({
         type: args.type, path: args.path, uri: args.uri, host: args.host, port: args.port,
         database: args.database, user: args.user, password: args.password, passwordEnv: args.passwordEnv,
-        schema: args.schema, collections: args.collections,
+        schema: args.schema, collections: args.collections, flattenDepth: args.flattenDepth,
+        statementTimeoutMs: args.statementTimeoutMs, lockTimeoutMs: args.lockTimeoutMs, maxRows: args.maxRows,
+        delimiter: args.delimiter, encoding: args.encoding, skipRows: args.skipRows,
+        redaction: args.redaction,
       });
     } catch (err: any) {
       return errorResponse(err.message);
@@ -193,6 +221,8 @@ export function handleAddSource(deps: { sourceManager: any }) {
       }
     }
 
+    // Connect up front (getSchema would do it lazily) so a large file streams progress to the client.
+    await deps.sourceManager.connect(entry.id, { onProgress: loadProgressNotifier(extra) });
     const schemaResult = await deps.sourceManager.getSchema(entry.id);
     const schema = schemaResult.ok ? schemaResult.schema : null;
 
@@ -202,14 +232,34 @@ export function handleAddSource(deps: { sourceManager: any }) {
     // Build smart summaries for each table (minimal tokens, enough to write SQL)
     const summaries = (schema?.tables ?? []).map((t: any) => buildSmartSummary(t));
 
+    const quality = await loadAudit(deps.sourceManager, entry.id, schema);
+
     return jsonResponse({
       sourceId: entry.id,
       summary: summaries.join('\n\n'),
+      ...(quality ? { quality } : {}),
       message: `${verb} "${args.name}" — ${tableCount} table${tableCount === 1 ? '' : 's'}. Use describe_data for full column stats.`,
     });
   };
 }
 
+/**
+ * The audit-on-load note: the findings that silently change a number, or ''. Best-effort —
+ * a load never fails on its audit. The checks are SQL, so a document store goes unaudited.
+ */
+async function loadAudit(sourceManager: any, sourceId: string, schema: any): Promise<string> {
+  if (!schema || schema.source?.type === 'mongodb') return '';
+  try {
+    const query = (sql: string) => sourceManager.querySql(sourceId, sql, undefined, { redact: false });
+    const raw = (await sourceManager.getSchema(sourceId, { redact: false })).schema ?? schema;
+    return formatAuditForPrompt(await auditDataset(raw.tables, query, raw.foreignKeys, {
+      redaction: sourceManager.redactionPolicy(sourceId),
+    }));
+  } catch {
+    return '';
+  }
+}
+
 export function handleRemoveSource(deps: { sourceManager: any }) {
   return async (args: z.infer<typeof removeSourceInputSchema>) => {
     let removeResult: any;
@@ -244,7 +294,11 @@ export function handleDescribeSource(deps: { sourceManager: any }) {
     }
 
     const profiles = await Promise.all(
-      tables.map((t: any) => buildTableProfile(t, connectedSource, args.detail))
+      tables.map(async (t: any) => {
+        const profile = await buildTableProfile(t, connectedSource, args.detail, schemaResult.schema.foreignKeys);
+        const dataContext = renderDataContext(loadSourceDataContext(schemaResult.schema.source, t.name, deps.sourceManager.stateDir));
+        return dataContext ? { ...profile, dataContext } : profile;
+      })
     );
 
     return jsonResponse(args.table ? profiles[0] : profiles);
@@ -16,7 +16,7 @@ import { getResult } from './result-cache.js';
 import {
   errorResponse, resolveData, isErrorResponse, writeHtmlToDisk,
 } from './shared.js';
-import { columnsSchema, dataShapeHintsSchema, handleVisualizeCore } from './visualize.js';
+import { columnsSchema, dataShapeHintsSchema, annotationsSchema, handleVisualizeCore } from './visualize.js';
 
 export const visualizeCliInputSchema = z.object({
   data: z.array(z.record(z.any())).optional().describe('Array of data rows to visualize. Optional if resultId or sourceId+sql is provided.'),
@@ -41,6 +41,8 @@ export const visualizeCliInputSchema = z.object({
   maxAlternativeChartTypes: z.number().optional().describe('Max alternative chart type recommendations to return (default: 2)'),
   geoLevel: z.enum(['country', 'subdivision']).optional().describe('Geographic level'),
   geoRegion: z.string().optional().describe('Geographic region code'),
+  annotations: annotationsSchema,
+  annotateAnomalies: z.boolean().optional().describe('Line/area only: mark detected anomalies and level shifts'),
   writeTo: z.string().describe('REQUIRED. File path to write the HTML chart to. The HTML is written to disk and NOT returned in the response.'),
 });
 
@@ -8,7 +8,7 @@
  */
 
 import { z } from 'zod';
-import type { VisualizeInput, VisualizeOutput, DataColumn, VisualizationSpec } from '../../types.js';
+import type { VisualizeInput, VisualizeOutput, DataColumn, VisualizationSpec, RedactionPolicy } from '../../types.js';
 import { isCompoundSpec } from '../../types.js';
 import { ALL_PALETTE_NAMES } from './sql-schemas.js';
 import { isHtmlPatternSupported } from '../../renderers/html/index.js';
@@ -20,6 +20,7 @@ import {
   resolveData, isErrorResponse,
 } from './shared.js';
 import { logOperation } from './operation-log.js';
+import { detectTimeSeriesAnomalies, inferBucket, seriesFromRows } from '../../analysis/anomalies.js';
 import type { OperationMeta } from './operation-log.js';
 
 export const columnsSchema = z.array(z.object({
@@ -43,6 +44,13 @@ export const dataShapeHintsSchema = z.object({
   hasNegativeValues: z.boolean().optional(),
 }).optional().describe('Hints about the data shape to help pattern selection');
 
+export const annotationsSchema = z.array(z.object({
+  date: z.string().describe('Period or date to mark, as it appears in the time column'),
+  kind: z.enum(['point', 'change']).describe('"point" rings a value; "change" draws a dashed rule (a level shift)'),
+  label: z.string(),
+  value: z.number().optional().describe('Point annotations: the value to ring'),
+})).optional().describe('Line/area only: moments to mark on the chart — anomalies, level shifts, events');
+
 export const visualizeInputSchema = z.object({
   data: z.array(z.record(z.any())).optional().describe('Array of data rows to visualize. Optional if resultId or sourceId+sql is provided.'),
   resultId: z.string().optional().describe('Result ID from a previous query_data call — reuses cached data without re-sending it'),
@@ -69,8 +77,35 @@ export const visualizeInputSchema = z.object({
     .describe('Geographic level: "country" (each row = a nation) or "subdivision" (each row = a state/province). Auto-detected if omitted.'),
   geoRegion: z.string().optional()
     .describe('Geographic region code: "world", ISO country code (US, CN, AU, etc.), or continent (EU, AF, AS, SA, NA, OC). Auto-detected if omitted.'),
+  annotations: annotationsSchema,
+  annotateAnomalies: z.boolean().optional()
+    .describe('Line/area only: detect anomalies and level shifts in the plotted measure and mark them on the chart'),
 });
 
+/**
+ * Anomaly and level-shift annotations for a line/area spec's measure, summed per period. With
+ * several series only level shifts are kept — a spike in the total has no point on any one line.
+ */
+function detectAnnotations(spec: VisualizationSpec, data: Record<string, any>[], notes: string[]) {
+  const timeField = spec.config?.timeField || spec.encoding?.x?.field;
+  const valueField = spec.config?.valueField || spec.encoding?.y?.field;
+  const seriesField = spec.config?.seriesField || spec.encoding?.color?.field;
+  if (!timeField || !valueField) return [];
+  const series = seriesFromRows(data, timeField, valueField);
+  const found = detectTimeSeriesAnomalies(series, inferBucket(series.map((p) => p.period)));
+  if (!found) {
+    notes.push(`Too few periods (${series.length}) to detect anomalies.`);
+    return [];
+  }
+  const annotations = seriesField ? found.annotations.filter((a) => a.kind === 'change') : found.annotations;
+  const points = annotations.filter((a) => a.kind === 'point').length;
+  const shifts = annotations.length - points;
+  notes.push(annotations.length
+    ? `Marked ${points} anomal${points === 1 ? 'y' : 'ies'} and ${shifts} level shift${shifts === 1 ? '' : 's'} in ${valueField}.`
+    : `No anomalies or level shifts found in ${valueField}.`);
+  return annotations;
+}
+
 /**
  * Shared core logic for all visualize data paths (inline, cached, source query).
  * Takes resolved data + args and returns the MCP response.
@@ -93,7 +128,9 @@ export function handleVisualizeCore(
     maxAlternativeChartTypes?: number;
     geoLevel?: 'country' | 'subdivision';
     geoRegion?: string;
-  }, queryMeta?: { truncated?: boolean; totalSourceRows?: number; warnings?: string[] }, extraMeta?: Partial<OperationMeta>) => {
+    annotations?: z.infer<typeof annotationsSchema>;
+    annotateAnomalies?: boolean;
+  }, queryMeta?: { truncated?: boolean; totalSourceRows?: number; warnings?: string[]; redaction?: RedactionPolicy }, extraMeta?: Partial<OperationMeta>) => {
     const start = Date.now();
     const notes: string[] = [];
     const columns = (args.columns as DataColumn[]) || inferColumns(data);
@@ -125,11 +162,22 @@ export function handleVisualizeCore(
     const spec = { ...result.recommended.spec };
     if (args.title) spec.title = args.title;
     if (args.subtitle) spec.config = { ...spec.config, subtitle: args.subtitle };
+    if (args.annotations?.length || args.annotateAnomalies) {
+      if (spec.pattern === 'line' || spec.pattern === 'area') {
+        const annotations = [...(args.annotations ?? [])];
+        if (args.annotateAnomalies) annotations.push(...detectAnnotations(spec, data, notes));
+        if (annotations.length) spec.config = { ...spec.config, annotations };
+      } else {
+        notes.push(`Annotations apply to line and area charts only; the ${spec.pattern} chart was drawn without them.`);
+      }
+    }
 
     let finalSpec: VisualizationSpec | import('../../types.js').CompoundVisualizationSpec = spec;
     if (isHtmlPatternSupported(spec.pattern) && shouldCompound(spec, { compound: args.includeDataTable })) {
       finalSpec = buildCompoundSpec(spec, columns);
     }
+    // Rows from a source were redacted under its policy; the page embeds them under the same one.
+    if (queryMeta?.redaction) finalSpec.redaction = queryMeta.redaction;
     const outputHtml = buildOutputHtml(finalSpec);
 
     const alternativesMap = new Map<string, VisualizationSpec>();
@@ -0,0 +1,71 @@
+/**
+ * Time-series annotations shared by the line and area renderers: `config.annotations`
+ * entries (see TimeAnnotation) drawn over the plot — a change point as a dashed vertical
+ * rule labelled at the top, a point anomaly as a ring at its value with a label above.
+ * Entries whose date doesn't parse, or falls outside the x domain, are skipped.
+ */
+
+import type { TimeAnnotation } from '../../../types.js';
+import { parseDate, TEXT_MUTED, DEFAULT_PALETTE } from '../shared.js';
+
+declare const d3: any;
+
+/** Terra cotta — reads as "look here" against the default blue series. */
+const ANNOTATION_COLOR = DEFAULT_PALETTE[3];
+
+export function drawTimeAnnotations(
+  g: any,
+  annotations: TimeAnnotation[] | undefined,
+  xScale: any,
+  yScale: any,
+  dims: { innerWidth: number; innerHeight: number },
+): void {
+  if (!Array.isArray(annotations) || annotations.length === 0) return;
+  const [d0, d1] = xScale.domain().map((d: Date) => d.getTime());
+  const layer = g.append('g').attr('class', 'time-annotations').attr('pointer-events', 'none');
+
+  for (const a of annotations) {
+    const date = parseDate(a.date);
+    if (!date || date.getTime() < d0 || date.getTime() > d1) continue;
+    const x = xScale(date);
+    const anchor = x > dims.innerWidth * 0.85 ? 'end' : 'start';
+    const dx = anchor === 'end' ? -4 : 4;
+
+    if (a.kind === 'change') {
+      layer.append('line')
+        .attr('x1', x).attr('x2', x)
+        .attr('y1', 0).attr('y2', dims.innerHeight)
+        .attr('stroke', TEXT_MUTED)
+        .attr('stroke-width', 1)
+        .attr('stroke-dasharray', '6,4');
+      layer.append('text')
+        .attr('x', x + dx)
+        .attr('y', 10)
+        .attr('text-anchor', anchor)
+        .attr('fill', TEXT_MUTED)
+        .attr('font-size', '10px')
+        .attr('font-family', 'Inter, system-ui, sans-serif')
+        .text(a.label);
+      continue;
+    }
+
+    if (typeof a.value !== 'number' || !isFinite(a.value)) continue;
+    const y = yScale(a.value);
+    layer.append('circle')
+      .attr('cx', x)
+      .attr('cy', y)
+      .attr('r', 6)
+      .attr('fill', 'none')
+      .attr('stroke', ANNOTATION_COLOR)
+      .attr('stroke-width', 2);
+    layer.append('text')
+      .attr('x', x + dx)
+      .attr('y', Math.max(10, y - 10))
+      .attr('text-anchor', anchor)
+      .attr('fill', ANNOTATION_COLOR)
+      .attr('font-size', '10px')
+      .attr('font-weight', 600)
+      .attr('font-family', 'Inter, system-ui, sans-serif')
+      .text(a.label);
+  }
+}
@@ -1,10 +1,12 @@
 /**
  * Area chart D3 renderer.
  * Handles single-series area, stacked area, and normalized (100%) stacked area
- * charts over time. Line stroke on top of fill for clarity.
+ * charts over time. Line stroke on top of fill for clarity. `config.annotations`
+ * marks anomalies and change points (a stacked chart draws only the change rules —
+ * a point's raw value doesn't sit on the stacked scale).
  */
 
-import type { VisualizationSpec } from '../../../types.js';
+import type { VisualizationSpec, TimeAnnotation } from '../../../types.js';
 import {
   createSvg,
   buildColorScale,
@@ -24,6 +26,7 @@ import {
   DEFAULT_PALETTE,
 } from '../shared.js';
 import { findNearestDateIndex, createCrosshairGroup } from './crosshair-utils.js';
+import { drawTimeAnnotations } from './annotation-utils.js';
 
 declare const d3: any;
 
@@ -119,11 +122,12 @@ export function renderArea(container: HTMLElement, spec: VisualizationSpec): voi
         .text(formatValue(d._value));
     });
   } else if (isStacked) {
-    drawStackedArea(g, parsedData, seriesField!, seriesNames, colorScale, curve, dims, tooltip, timeField, valueField, fillOpacity, normalized);
+    const rules = (config.annotations as TimeAnnotation[] | undefined)?.filter((a) => a.kind === 'change');
+    drawStackedArea(g, parsedData, seriesField!, seriesNames, colorScale, curve, dims, tooltip, timeField, valueField, fillOpacity, normalized, rules);
   } else if (isMultiSeries) {
-    drawOverlappingAreas(g, parsedData, seriesField!, seriesNames, colorScale, curve, dims, tooltip, timeField, valueField, fillOpacity);
+    drawOverlappingAreas(g, parsedData, seriesField!, seriesNames, colorScale, curve, dims, tooltip, timeField, valueField, fillOpacity, config.annotations);
   } else {
-    drawSingleArea(g, parsedData, curve, dims, tooltip, timeField, valueField, fillOpacity);
+    drawSingleArea(g, parsedData, curve, dims, tooltip, timeField, valueField, fillOpacity, config.annotations);
   }
 }
 
@@ -136,6 +140,7 @@ function drawSingleArea(
   timeField: string,
   valueField: string,
   fillOpacity: number,
+  annotations: TimeAnnotation[] | undefined,
 ): void {
   const sorted = [...parsedData].sort((a, b) => a._date!.getTime() - b._date!.getTime());
   const color = DEFAULT_PALETTE[0];
@@ -181,6 +186,7 @@ function drawSingleArea(
     .attr('d', lineGen)
     .attr('pointer-events', 'none');
 
+  drawTimeAnnotations(g, annotations, xScale, yScale, dims);
   addCrosshairHover(g, sorted, null, [], timeField, valueField, null, xScale, yScale, dims, tooltip, false);
 }
 
@@ -196,6 +202,7 @@ function drawOverlappingAreas(
   timeField: string,
   valueField: string,
   fillOpacity: number,
+  annotations: TimeAnnotation[] | undefined,
 ): void {
   const xExtent = d3.extent(parsedData, (d: any) => d._date) as [Date, Date];
   const xScale = d3.scaleTime().domain(xExtent).range([0, dims.innerWidth]);
@@ -247,6 +254,7 @@ function drawOverlappingAreas(
       .attr('pointer-events', 'none');
   });
 
+  drawTimeAnnotations(g, annotations, xScale, yScale, dims);
   addCrosshairHover(g, parsedData, seriesField, seriesNames, timeField, valueField, colorScale, xScale, yScale, dims, tooltip, true);
 }
 
@@ -263,6 +271,7 @@ function drawStackedArea(
   valueField: string,
   fillOpacity: number,
   normalized: boolean,
+  annotations: TimeAnnotation[] | undefined,
 ): void {
   const dateMap = new Map<number, Record<string, number>>();
   parsedData.forEach((d: any) => {
@@ -335,6 +344,7 @@ function drawStackedArea(
       .attr('pointer-events', 'none');
   });
 
+  drawTimeAnnotations(g, annotations, xScale, yScale, dims);
   addStackedCrosshairHover(g, wideData, stacked, seriesNames, timeField, valueField, colorScale, xScale, yScale, dims, tooltip, normalized);
 }
 
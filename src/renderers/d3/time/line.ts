@@ -1,7 +1,8 @@
 /**
  * Line chart D3 renderer.
  * Handles single and multi-series time-based line charts with optional
- * area fills, point markers, and multiple interpolation modes.
+ * area fills, point markers, and multiple interpolation modes. `config.annotations`
+ * marks anomalies and change points over the lines.
  */
 
 import type { VisualizationSpec } from '../../../types.js';
@@ -24,6 +25,7 @@ import {
   DEFAULT_PALETTE,
 } from '../shared.js';
 import { findNearestDateIndex, createCrosshairGroup } from './crosshair-utils.js';
+import { drawTimeAnnotations } from './annotation-utils.js';
 
 declare const d3: any;
 
@@ -192,6 +194,8 @@ export function renderLine(container: HTMLElement, spec: VisualizationSpec): voi
     drawSingleSeries(g, parsedData, lineGen, areaGen, xScale, yScale, showArea, showPoints, strokeWidth);
   }
 
+  drawTimeAnnotations(g, config.annotations, xScale, yScale, dims);
+
   // ── Crosshair hover targets ──
   if (!isSinglePoint) {
     addCrosshairHover(g, parsedData, seriesField, seriesNames, timeField, valueField, colorScale, xScale, yScale, dims, tooltip, isMultiSeries);
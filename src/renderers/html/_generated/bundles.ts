@@ -1,7 +1,7 @@
 // AUTO-GENERATED by scripts/build-render-bundles.ts — DO NOT EDIT
 
 export const alluvialBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var alluvial_render_exports={};__export(alluvial_render_exports,{renderChart:()=>renderAlluvial});function layoutColumnY(nodes,height,padding){const totalValue=nodes.reduce((s,n)=>s+n.value,0);const totalPadding=Math.max(0,(nodes.length-1)*padding);const availableHeight=height-totalPadding;const scale=totalValue>0?availableHeight/totalValue:1;const MIN_NODE_HEIGHT=3;let y=0;for(const node of nodes){node.y0=y;node.y1=y+Math.max(node.value*scale,MIN_NODE_HEIGHT);y=node.y1+padding}const excess=y-padding-height;if(excess>0&&nodes.length>0){const compressionFactor=height/(y-padding);let cy=0;for(const node of nodes){const h=(node.y1-node.y0)*compressionFactor;node.y0=cy;node.y1=cy+h;cy+=h+padding*compressionFactor}}}var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function tooltipHtml(strings,...values){let result=strings[0];for(let i=0;i<values.length;i++){result+=escapeHtml(values[i])+strings[i+1]}return result}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function truncateLabel(label,maxLength=25){const str=String(label);if(str.length<=maxLength)return str;return str.slice(0,maxLength-1)+\"\\u2026\"}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function isAllZeros(data,field){return data.every(d=>Number(d[field])===0)}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function renderAlluvial(container,spec){const{config,encoding,data}=spec;const stageFields=config.stageFields||[];const valueField=config.valueField||\"value\";const nodeWidth=config.nodeWidth??20;const nodePadding=config.nodePadding??10;const flowOpacity=config.flowOpacity??.4;const showLabels=config.showLabels!==false;const showValues=config.showValues===true;const colorBy=config.colorBy||\"source\";if(stageFields.length<2){container.innerHTML='<p style=\"color:#ef4444;padding:20px;\">Alluvial requires at least 2 stage fields</p>';return}const containerW=container.clientWidth||800;const containerH=container.clientHeight||500;const isSmall=containerW<450||containerH<320;const labelMargin=isSmall?10:80;const{svg,g,dims}=createSvg(container,spec,{top:40,left:labelMargin,right:labelMargin,bottom:isSmall?20:30});const tooltip=createTooltip(container);if(isAllZeros(data,valueField)){renderEmptyState(g,dims);return}const allCategories=[];const catSet=new Set;for(const field of stageFields){for(const row of data){const cat=String(row[field]);if(!catSet.has(cat)){catSet.add(cat);allCategories.push(cat)}}}const colorField=encoding?.color?.field||stageFields[0];const syntheticColorData=allCategories.map(cat=>({[colorField]:cat}));const colorScale=encoding?.color?buildColorScale(encoding.color,syntheticColorData):d3.scaleOrdinal().domain(allCategories).range(categorical);const stageNodes=[];for(let si=0;si<stageFields.length;si++){const field=stageFields[si];const categoryTotals=new Map;for(const row of data){const cat=String(row[field]);const val=Number(row[valueField])||0;categoryTotals.set(cat,(categoryTotals.get(cat)||0)+val)}const sorted=[...categoryTotals.entries()].sort((a,b)=>b[1]-a[1]);const nodes=sorted.map(([category,value])=>({stage:si,category,value,x0:0,x1:0,y0:0,y1:0}));stageNodes.push(nodes)}const numStages=stageFields.length;const columnGap=numStages>1?(dims.innerWidth-nodeWidth)/(numStages-1):0;for(let si=0;si<numStages;si++){const nodes=stageNodes[si];const x0=si*columnGap;const x1=x0+nodeWidth;for(const node of nodes){node.x0=x0;node.x1=x1}layoutColumnY(nodes,dims.innerHeight,nodePadding)}const allFlows=[];for(let si=0;si<numStages-1;si++){const sourceField=stageFields[si];const targetField=stageFields[si+1];const flowMap=new Map;for(const row of data){const sCat=String(row[sourceField]);const tCat=String(row[targetField]);const val=Number(row[valueField])||0;const key=`${sCat}|||${tCat}`;flowMap.set(key,(flowMap.get(key)||0)+val)}const sourceNodeMap=new Map;for(const n of stageNodes[si])sourceNodeMap.set(n.category,n);const targetNodeMap=new Map;for(const n of stageNodes[si+1])targetNodeMap.set(n.category,n);const stageFlows=[];for(const[key,value]of flowMap){const[sCat,tCat]=key.split(\"|||\");const sourceNode=sourceNodeMap.get(sCat);const targetNode=targetNodeMap.get(tCat);if(!sourceNode||!targetNode)continue;stageFlows.push({sourceStage:si,sourceCategory:sCat,targetCategory:tCat,value,sy0:0,sy1:0,ty0:0,ty1:0,sourceNode,targetNode})}stageFlows.sort((a,b)=>{const sOrderA=stageNodes[si].indexOf(a.sourceNode);const sOrderB=stageNodes[si].indexOf(b.sourceNode);if(sOrderA!==sOrderB)return sOrderA-sOrderB;const tOrderA=stageNodes[si+1].indexOf(a.targetNode);const tOrderB=stageNodes[si+1].indexOf(b.targetNode);return tOrderA-tOrderB});const sourceOffsets=new Map;for(const n of stageNodes[si])sourceOffsets.set(n.category,n.y0);const MIN_FLOW_HEIGHT=2;for(const flow of stageFlows){const sourceNode=flow.sourceNode;const nodeHeight=sourceNode.y1-sourceNode.y0;const flowHeight=sourceNode.value>0?Math.max(flow.value/sourceNode.value*nodeHeight,MIN_FLOW_HEIGHT):0;const offset=sourceOffsets.get(flow.sourceCategory)||sourceNode.y0;flow.sy0=offset;flow.sy1=offset+flowHeight;sourceOffsets.set(flow.sourceCategory,offset+flowHeight)}const targetSorted=[...stageFlows].sort((a,b)=>{const tOrderA=stageNodes[si+1].indexOf(a.targetNode);const tOrderB=stageNodes[si+1].indexOf(b.targetNode);if(tOrderA!==tOrderB)return tOrderA-tOrderB;const sOrderA=stageNodes[si].indexOf(a.sourceNode);const sOrderB=stageNodes[si].indexOf(b.sourceNode);return sOrderA-sOrderB});const targetOffsets=new Map;for(const n of stageNodes[si+1])targetOffsets.set(n.category,n.y0);for(const flow of targetSorted){const targetNode=flow.targetNode;const nodeHeight=targetNode.y1-targetNode.y0;const flowHeight=targetNode.value>0?Math.max(flow.value/targetNode.value*nodeHeight,MIN_FLOW_HEIGHT):0;const offset=targetOffsets.get(flow.targetCategory)||targetNode.y0;flow.ty0=offset;flow.ty1=offset+flowHeight;targetOffsets.set(flow.targetCategory,offset+flowHeight)}allFlows.push(...stageFlows)}drawFlows(g,allFlows,colorScale,flowOpacity,colorBy,tooltip);const flatNodes=stageNodes.flat();drawNodes(g,flatNodes,allFlows,colorScale,flowOpacity,tooltip);if(showLabels&&!isSmall){drawLabels(g,stageNodes,stageFields,showValues,numStages,dims)}}function ribbonPath(flow){const sx=flow.sourceNode.x1;const tx=flow.targetNode.x0;const mx=(sx+tx)/2;return`\n    M ${sx},${flow.sy0}\n    C ${mx},${flow.sy0} ${mx},${flow.ty0} ${tx},${flow.ty0}\n    L ${tx},${flow.ty1}\n    C ${mx},${flow.ty1} ${mx},${flow.sy1} ${sx},${flow.sy1}\n    Z\n  `}function drawFlows(g,flows,colorScale,flowOpacity,colorBy,tooltip){g.selectAll(\".alluvial-flow\").data(flows).join(\"path\").attr(\"class\",\"alluvial-flow\").attr(\"d\",ribbonPath).attr(\"fill\",d=>colorBy===\"target\"?colorScale(d.targetCategory):colorScale(d.sourceCategory)).attr(\"opacity\",flowOpacity).attr(\"stroke\",\"none\").on(\"mouseover\",function(event,d){d3.select(this).attr(\"opacity\",Math.min(flowOpacity+.3,.9));showTooltip(tooltip,tooltipHtml`<strong>${d.sourceCategory} → ${d.targetCategory}</strong><br/>Value: ${formatValue(d.value)}`,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){d3.select(this).attr(\"opacity\",flowOpacity);hideTooltip(tooltip)})}function drawNodes(g,nodes,allFlows,colorScale,flowOpacity,tooltip){g.selectAll(\".alluvial-node\").data(nodes).join(\"rect\").attr(\"class\",\"alluvial-node\").attr(\"x\",d=>d.x0).attr(\"y\",d=>d.y0).attr(\"width\",d=>d.x1-d.x0).attr(\"height\",d=>Math.max(d.y1-d.y0,3)).attr(\"fill\",d=>colorScale(d.category)).attr(\"rx\",2).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",1).on(\"mouseover\",function(event,d){d3.select(this).attr(\"opacity\",.8);g.selectAll(\".alluvial-flow\").attr(\"opacity\",f=>{const connected=f.sourceNode.stage===d.stage&&f.sourceCategory===d.category||f.targetNode.stage===d.stage&&f.targetCategory===d.category;return connected?Math.min(flowOpacity+.3,.9):.06});const inflows=allFlows.filter(f=>f.targetNode.stage===d.stage&&f.targetCategory===d.category);const outflows=allFlows.filter(f=>f.sourceNode.stage===d.stage&&f.sourceCategory===d.category);const inflowTotal=inflows.reduce((s,f)=>s+f.value,0);const outflowTotal=outflows.reduce((s,f)=>s+f.value,0);let html=`<strong>${escapeHtml(d.category)}</strong><br/>Total: ${formatValue(d.value)}`;if(inflowTotal>0)html+=`<br/>Inflow: ${formatValue(inflowTotal)}`;if(outflowTotal>0)html+=`<br/>Outflow: ${formatValue(outflowTotal)}`;showTooltip(tooltip,html,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){d3.select(this).attr(\"opacity\",1);g.selectAll(\".alluvial-flow\").attr(\"opacity\",flowOpacity);hideTooltip(tooltip)})}function drawLabels(g,stageNodes,stageFields,showValues,numStages,dims){for(let si=0;si<numStages;si++){const nodes=stageNodes[si];if(nodes.length===0)continue;const x=(nodes[0].x0+nodes[0].x1)/2;g.append(\"text\").attr(\"x\",x).attr(\"y\",dims.innerHeight+16).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"10px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(stageFields[si])}const lastStage=numStages-1;const flatNodes=stageNodes.flat();g.selectAll(\".alluvial-label\").data(flatNodes).join(\"text\").attr(\"class\",\"alluvial-label\").attr(\"x\",d=>{if(d.stage===0)return d.x0-6;if(d.stage===lastStage)return d.x1+6;return d.x1+6}).attr(\"y\",d=>(d.y0+d.y1)/2).attr(\"dy\",\"0.35em\").attr(\"text-anchor\",d=>d.stage===0?\"end\":\"start\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"10px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(d=>{if(d.y1-d.y0<12)return\"\";const isRight=d.stage>0;const availPx=isRight?dims.innerWidth-d.x1-6:d.x0-6;const maxChars=Math.min(18,Math.max(8,Math.floor(availPx/6)));const label=truncateLabel(d.category,maxChars);if(showValues)return`${label} (${formatValue(d.value)})`;return label})}return __toCommonJS(alluvial_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
-export const areaBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var area_render_exports={};__export(area_render_exports,{renderChart:()=>renderArea});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function parseDate(v){if(v instanceof Date)return isNaN(v.getTime())?null:v;if(v===null||v===void 0||v===\"\")return null;const num=typeof v===\"number\"?v:Number(v);if(!isNaN(num)&&num>1800&&num<2200&&Math.floor(num)===num){return new Date(num,0,1)}const d=new Date(v);return isNaN(d.getTime())?null:d}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function createLegend(source,options){const shape=options?.shape??\"square\";const callbacks=options?.callbacks;let entries;if(Array.isArray(source)&&source.length>0&&source[0]?.label!==void 0){entries=source}else{const domain=source.domain?.()??[];entries=domain.map(label=>({label:String(label),color:source(label)}))}if(!entries.length){return document.createElement(\"div\")}const maxItems=options?.maxItems??12;let overflowCount=0;if(entries.length>maxItems){overflowCount=entries.length-(maxItems-1);entries=entries.slice(0,maxItems-1)}const maxLabelLen=20;const displayLabels=smartTruncateLabels(entries.map(e=>e.label),maxLabelLen);const legend=document.createElement(\"div\");legend.style.cssText=`\n    display: flex; flex-wrap: wrap; justify-content: center; gap: 4px 14px;\n    padding: 6px 12px 8px; font-family: Inter, system-ui, sans-serif;\n    font-size: 11px; line-height: 1;\n  `;entries.forEach((entry,idx)=>{const item=document.createElement(\"div\");item.style.cssText=callbacks?\"display: inline-flex; align-items: center; gap: 5px; white-space: nowrap; cursor: pointer; transition: opacity 0.15s;\":\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";item.setAttribute(\"data-series\",entry.label);const swatch=document.createElement(\"span\");if(shape===\"circle\"){swatch.style.cssText=`\n        width: 8px; height: 8px; border-radius: 50%;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line\"){swatch.style.cssText=`\n        width: 16px; height: 3px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line-dot\"){swatch.style.cssText=`\n        width: 16px; height: 2px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; position: relative;\n        transition: transform 0.15s;\n      `;const dot=document.createElement(\"span\");dot.style.cssText=`\n        position: absolute; top: 50%; left: 50%;\n        transform: translate(-50%, -50%);\n        width: 6px; height: 6px; border-radius: 50%;\n        background: ${entry.color}; border: 1px solid ${DARK_BG};\n      `;swatch.appendChild(dot)}else{swatch.style.cssText=`\n        width: 10px; height: 10px; border-radius: 2px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}const text=document.createElement(\"span\");text.style.color=TEXT_MUTED;text.textContent=displayLabels[idx];if(entry.label.length>maxLabelLen)text.title=entry.label;item.appendChild(swatch);item.appendChild(text);if(entry.extra){const extra=document.createElement(\"span\");extra.style.color=TEXT_MUTED;extra.style.opacity=\"0.7\";extra.textContent=entry.extra;item.appendChild(extra)}if(callbacks){item.addEventListener(\"mouseenter\",()=>{swatch.style.transform=shape===\"line\"||shape===\"line-dot\"?\"scaleY(2)\":\"scale(1.4)\";callbacks.onHover?.(entry.label)});item.addEventListener(\"mouseleave\",()=>{swatch.style.transform=\"\";callbacks.onLeave?.()})}legend.appendChild(item)});if(overflowCount>0){const more=document.createElement(\"div\");more.style.cssText=\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";const moreText=document.createElement(\"span\");moreText.style.cssText=`color: ${TEXT_MUTED}; opacity: 0.6; font-style: italic;`;moreText.textContent=`+${overflowCount} more`;more.appendChild(moreText);legend.appendChild(more)}return legend}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function findNearestDateIndex(sortedDates,targetTime){const bisect=d3.bisector(d=>d).left;let idx=bisect(sortedDates,targetTime);if(idx>0&&idx<sortedDates.length){const d0=sortedDates[idx-1];const d1=sortedDates[idx];idx=targetTime-d0>d1-targetTime?idx:idx-1}else if(idx>=sortedDates.length){idx=sortedDates.length-1}return idx}function createCrosshairGroup(g,dims){const crosshairLine=g.append(\"line\").attr(\"class\",\"crosshair\").attr(\"y1\",0).attr(\"y2\",dims.innerHeight).attr(\"stroke\",TEXT_MUTED).attr(\"stroke-width\",1).attr(\"stroke-dasharray\",\"4,3\").attr(\"pointer-events\",\"none\").attr(\"opacity\",0);const highlightDots=g.append(\"g\").attr(\"class\",\"highlight-dots\").attr(\"pointer-events\",\"none\");const hoverArea=g.append(\"rect\").attr(\"class\",\"hover-area\").attr(\"width\",dims.innerWidth).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"crosshair\");return{crosshairLine,highlightDots,hoverArea}}function renderArea(container,spec){const{config,encoding,data}=spec;const timeField=config.timeField||encoding.x?.field;const valueField=config.valueField||encoding.y?.field;const seriesField=config.seriesField||encoding.color?.field||null;const stacked=config.stacked??false;const normalized=config.normalized??false;const fillOpacity=config.opacity??.7;const interpolation=config.curve||config.interpolation||\"monotone\";const parsedData=data.map(d=>({...d,_date:parseDate(d[timeField]),_value:d[valueField]==null?null:Number(d[valueField])})).filter(d=>d._date!==null);const colorScale=buildColorScale(encoding.color,data);const seriesNames=seriesField?[...new Set(parsedData.map(d=>d[seriesField]))]:[];const isMultiSeries=seriesNames.length>1;const isStacked=isMultiSeries&&(stacked||normalized);container.style.display=\"flex\";container.style.flexDirection=\"column\";container.style.background=DARK_BG;container.style.borderRadius=\"8px\";container.style.overflow=\"hidden\";const chartWrapper=document.createElement(\"div\");chartWrapper.style.flex=\"1\";chartWrapper.style.minHeight=\"0\";container.appendChild(chartWrapper);if(isMultiSeries){const legendDiv=createLegend(colorScale);container.appendChild(legendDiv)}const{svg,g,dims}=createSvg(chartWrapper,spec,{right:30,top:40,bottom:70},{background:false});const tooltip=createTooltip(chartWrapper);if(parsedData.every(d=>d._value===0||d._value===null)){renderEmptyState(g,dims);return}const curveMap={linear:d3.curveLinear,monotone:d3.curveMonotoneX,basis:d3.curveBasis,step:d3.curveStepAfter,cardinal:d3.curveCardinal,catmullRom:d3.curveCatmullRom};const curve=curveMap[interpolation]||d3.curveMonotoneX;const uniqueDateCount=new Set(parsedData.map(d=>d._date.getTime())).size;if(uniqueDateCount<=1){const xExtent=d3.extent(parsedData,d=>d._date);const xScale=d3.scaleTime().domain(xExtent).range([0,dims.innerWidth]);const yExtent=d3.extent(parsedData,d=>d._value);const yScale=d3.scaleLinear().domain([0,yExtent[1]*1.1||1]).range([dims.innerHeight,0]).nice();drawAxes(g,xScale,yScale,dims,false,1);parsedData.forEach(d=>{const c=isMultiSeries?colorScale(d[seriesField]):categorical[0];g.append(\"circle\").attr(\"cx\",xScale(d._date)).attr(\"cy\",yScale(d._value)).attr(\"r\",6).attr(\"fill\",c).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2);g.append(\"text\").attr(\"x\",xScale(d._date)).attr(\"y\",yScale(d._value)-14).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(formatValue(d._value))})}else if(isStacked){drawStackedArea(g,parsedData,seriesField,seriesNames,colorScale,curve,dims,tooltip,timeField,valueField,fillOpacity,normalized)}else if(isMultiSeries){drawOverlappingAreas(g,parsedData,seriesField,seriesNames,colorScale,curve,dims,tooltip,timeField,valueField,fillOpacity)}else{drawSingleArea(g,parsedData,curve,dims,tooltip,timeField,valueField,fillOpacity)}}function drawSingleArea(g,parsedData,curve,dims,tooltip,timeField,valueField,fillOpacity){const sorted=[...parsedData].sort((a,b)=>a._date.getTime()-b._date.getTime());const color=categorical[0];const xExtent=d3.extent(sorted,d=>d._date);const xScale=d3.scaleTime().domain(xExtent).range([0,dims.innerWidth]);const validValues=sorted.filter(d=>d._value!==null&&!isNaN(d._value));const yMin=d3.min(validValues,d=>d._value);const yMax=d3.max(validValues,d=>d._value);const yScale=d3.scaleLinear().domain([Math.min(0,yMin),yMax*1.05]).range([dims.innerHeight,0]).nice();drawAxes(g,xScale,yScale,dims,false,sorted.length);const defined=d=>d._value!==null&&!isNaN(d._value);const areaGen=d3.area().defined(defined).x(d=>xScale(d._date)).y0(yScale(0)).y1(d=>yScale(d._value)).curve(curve);const lineGen=d3.line().defined(defined).x(d=>xScale(d._date)).y(d=>yScale(d._value)).curve(curve);g.append(\"path\").datum(sorted).attr(\"fill\",color).attr(\"opacity\",fillOpacity).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\");g.append(\"path\").datum(sorted).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",2).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\");addCrosshairHover(g,sorted,null,[],timeField,valueField,null,xScale,yScale,dims,tooltip,false)}function drawOverlappingAreas(g,parsedData,seriesField,seriesNames,colorScale,curve,dims,tooltip,timeField,valueField,fillOpacity){const xExtent=d3.extent(parsedData,d=>d._date);const xScale=d3.scaleTime().domain(xExtent).range([0,dims.innerWidth]);const validValues=parsedData.filter(d=>d._value!==null&&!isNaN(d._value));const yMinO=d3.min(validValues,d=>d._value);const yMax=d3.max(validValues,d=>d._value);const yScale=d3.scaleLinear().domain([Math.min(0,yMinO),yMax*1.05]).range([dims.innerHeight,0]).nice();const uniqueTimes=new Set(parsedData.map(d=>d._date.getTime())).size;drawAxes(g,xScale,yScale,dims,false,uniqueTimes);const defined=d=>d._value!==null&&!isNaN(d._value);const areaGen=d3.area().defined(defined).x(d=>xScale(d._date)).y0(yScale(0)).y1(d=>yScale(d._value)).curve(curve);const lineGen=d3.line().defined(defined).x(d=>xScale(d._date)).y(d=>yScale(d._value)).curve(curve);seriesNames.forEach(name=>{const seriesData=parsedData.filter(d=>d[seriesField]===name).sort((a,b)=>a._date.getTime()-b._date.getTime());const color=colorScale(name);g.append(\"path\").datum(seriesData).attr(\"fill\",color).attr(\"opacity\",fillOpacity*.5).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\");g.append(\"path\").datum(seriesData).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",2).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\")});addCrosshairHover(g,parsedData,seriesField,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,true)}function drawStackedArea(g,parsedData,seriesField,seriesNames,colorScale,curve,dims,tooltip,timeField,valueField,fillOpacity,normalized){const dateMap=new Map;parsedData.forEach(d=>{const key=d._date.getTime();if(!dateMap.has(key))dateMap.set(key,{});dateMap.get(key)[d[seriesField]]=d._value});const sortedTimes=[...dateMap.keys()].sort((a,b)=>a-b);const wideData=sortedTimes.map(t=>{const row={_date:new Date(t)};const values=dateMap.get(t);seriesNames.forEach(name=>{row[name]=values[name]||0});return row});const stackGen=d3.stack().keys(seriesNames);if(normalized){stackGen.offset(d3.stackOffsetExpand)}const stacked=stackGen(wideData);const xScale=d3.scaleTime().domain(d3.extent(wideData,d=>d._date)).range([0,dims.innerWidth]);let yMinS;let yMaxS;if(normalized){yMinS=0;yMaxS=1}else{yMinS=d3.min(stacked,layer=>d3.min(layer,d=>d[0]));yMaxS=d3.max(stacked,layer=>d3.max(layer,d=>d[1]))}const yScale=d3.scaleLinear().domain([Math.min(0,yMinS),yMaxS]).range([dims.innerHeight,0]).nice();drawAxes(g,xScale,yScale,dims,normalized,wideData.length);const areaGen=d3.area().x(d=>xScale(d.data._date)).y0(d=>yScale(d[0])).y1(d=>yScale(d[1])).curve(curve);stacked.forEach(layer=>{const color=colorScale(layer.key);g.append(\"path\").datum(layer).attr(\"fill\",color).attr(\"opacity\",fillOpacity).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\");const lineGen=d3.line().x(d=>xScale(d.data._date)).y(d=>yScale(d[1])).curve(curve);g.append(\"path\").datum(layer).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",1).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\")});addStackedCrosshairHover(g,wideData,stacked,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,normalized)}function drawAxes(g,xScale,yScale,dims,normalized,dataPointCount){let xTickCount=getAdaptiveTickCount(dims.innerWidth);if(dataPointCount&&dataPointCount<xTickCount){xTickCount=dataPointCount}const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(xScale).ticks(xTickCount).tickSize(0).tickPadding(8));styleAxis(xAxis);xAxis.selectAll(\".tick text\").attr(\"text-anchor\",\"end\").attr(\"dx\",\"-0.5em\").attr(\"dy\",\"0.15em\").attr(\"transform\",\"rotate(-35)\");const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const yAxisCall=d3.axisLeft(yScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8);if(normalized){yAxisCall.tickFormat(d=>Math.round(d*100)+\"%\")}else{yAxisCall.tickFormat(d=>formatValue(d))}const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(yAxisCall);styleAxis(yAxis)}function addCrosshairHover(g,parsedData,seriesField,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,isMultiSeries){const dateMap=new Map;parsedData.forEach(d=>{const key=d._date.getTime();if(!dateMap.has(key))dateMap.set(key,[]);dateMap.get(key).push(d)});const sortedDates=[...dateMap.keys()].sort((a,b)=>a-b);const{crosshairLine,highlightDots,hoverArea}=createCrosshairGroup(g,dims);hoverArea.on(\"mousemove\",function(event){const[mx]=d3.pointer(event,this);const xDate=xScale.invert(mx).getTime();const idx=findNearestDateIndex(sortedDates,xDate);const nearestTime=sortedDates[idx];const nearestX=xScale(new Date(nearestTime));const points=dateMap.get(nearestTime)||[];crosshairLine.attr(\"x1\",nearestX).attr(\"x2\",nearestX).attr(\"opacity\",1);highlightDots.selectAll(\"circle\").remove();points.forEach(d=>{const color=isMultiSeries?colorScale(d[seriesField]):categorical[0];highlightDots.append(\"circle\").attr(\"cx\",nearestX).attr(\"cy\",yScale(d._value)).attr(\"r\",5).attr(\"fill\",color).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2)});const dateLabel=points[0]?.[timeField]??new Date(nearestTime).toLocaleDateString();let html=`<strong>${escapeHtml(dateLabel)}</strong>`;if(isMultiSeries){const sorted=[...points].sort((a,b)=>b._value-a._value);sorted.forEach(d=>{const color=escapeHtml(colorScale(d[seriesField]));html+=`<br/><span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${color};margin-right:5px;vertical-align:middle;\"></span>${escapeHtml(d[seriesField])}: ${escapeHtml(formatValue(d._value))}`})}else{html+=`<br/>${escapeHtml(valueField)}: ${escapeHtml(formatValue(points[0]?._value))}`}showTooltip(tooltip,html,event)}).on(\"mouseout\",function(){crosshairLine.attr(\"opacity\",0);highlightDots.selectAll(\"circle\").remove();hideTooltip(tooltip)})}function addStackedCrosshairHover(g,wideData,stacked,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,normalized){const sortedDates=wideData.map(d=>d._date.getTime());const{crosshairLine,highlightDots,hoverArea}=createCrosshairGroup(g,dims);hoverArea.on(\"mousemove\",function(event){const[mx]=d3.pointer(event,this);const xDate=xScale.invert(mx).getTime();const idx=findNearestDateIndex(sortedDates,xDate);const nearestX=xScale(wideData[idx]._date);crosshairLine.attr(\"x1\",nearestX).attr(\"x2\",nearestX).attr(\"opacity\",1);highlightDots.selectAll(\"circle\").remove();const dateStr=wideData[idx]._date.toLocaleDateString();let html=`<strong>${escapeHtml(dateStr)}</strong>`;const reversedNames=[...seriesNames].reverse();reversedNames.forEach(name=>{const layer=stacked.find(l=>l.key===name);if(!layer)return;const pt=layer[idx];const val=pt.data[name];const stackedY=yScale(pt[1]);const color=escapeHtml(colorScale(name));highlightDots.append(\"circle\").attr(\"cx\",nearestX).attr(\"cy\",stackedY).attr(\"r\",4).attr(\"fill\",colorScale(name)).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2);if(normalized){const pct=escapeHtml(((pt[1]-pt[0])*100).toFixed(1));html+=`<br/><span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${color};margin-right:5px;vertical-align:middle;\"></span>${escapeHtml(name)}: ${escapeHtml(formatValue(val))} (${pct}%)`}else{html+=`<br/><span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${color};margin-right:5px;vertical-align:middle;\"></span>${escapeHtml(name)}: ${escapeHtml(formatValue(val))}`}});showTooltip(tooltip,html,event)}).on(\"mouseout\",function(){crosshairLine.attr(\"opacity\",0);highlightDots.selectAll(\"circle\").remove();hideTooltip(tooltip)})}return __toCommonJS(area_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
+export const areaBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var area_render_exports={};__export(area_render_exports,{renderChart:()=>renderArea});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function parseDate(v){if(v instanceof Date)return isNaN(v.getTime())?null:v;if(v===null||v===void 0||v===\"\")return null;const num=typeof v===\"number\"?v:Number(v);if(!isNaN(num)&&num>1800&&num<2200&&Math.floor(num)===num){return new Date(num,0,1)}const d=new Date(v);return isNaN(d.getTime())?null:d}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function createLegend(source,options){const shape=options?.shape??\"square\";const callbacks=options?.callbacks;let entries;if(Array.isArray(source)&&source.length>0&&source[0]?.label!==void 0){entries=source}else{const domain=source.domain?.()??[];entries=domain.map(label=>({label:String(label),color:source(label)}))}if(!entries.length){return document.createElement(\"div\")}const maxItems=options?.maxItems??12;let overflowCount=0;if(entries.length>maxItems){overflowCount=entries.length-(maxItems-1);entries=entries.slice(0,maxItems-1)}const maxLabelLen=20;const displayLabels=smartTruncateLabels(entries.map(e=>e.label),maxLabelLen);const legend=document.createElement(\"div\");legend.style.cssText=`\n    display: flex; flex-wrap: wrap; justify-content: center; gap: 4px 14px;\n    padding: 6px 12px 8px; font-family: Inter, system-ui, sans-serif;\n    font-size: 11px; line-height: 1;\n  `;entries.forEach((entry,idx)=>{const item=document.createElement(\"div\");item.style.cssText=callbacks?\"display: inline-flex; align-items: center; gap: 5px; white-space: nowrap; cursor: pointer; transition: opacity 0.15s;\":\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";item.setAttribute(\"data-series\",entry.label);const swatch=document.createElement(\"span\");if(shape===\"circle\"){swatch.style.cssText=`\n        width: 8px; height: 8px; border-radius: 50%;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line\"){swatch.style.cssText=`\n        width: 16px; height: 3px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line-dot\"){swatch.style.cssText=`\n        width: 16px; height: 2px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; position: relative;\n        transition: transform 0.15s;\n      `;const dot=document.createElement(\"span\");dot.style.cssText=`\n        position: absolute; top: 50%; left: 50%;\n        transform: translate(-50%, -50%);\n        width: 6px; height: 6px; border-radius: 50%;\n        background: ${entry.color}; border: 1px solid ${DARK_BG};\n      `;swatch.appendChild(dot)}else{swatch.style.cssText=`\n        width: 10px; height: 10px; border-radius: 2px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}const text=document.createElement(\"span\");text.style.color=TEXT_MUTED;text.textContent=displayLabels[idx];if(entry.label.length>maxLabelLen)text.title=entry.label;item.appendChild(swatch);item.appendChild(text);if(entry.extra){const extra=document.createElement(\"span\");extra.style.color=TEXT_MUTED;extra.style.opacity=\"0.7\";extra.textContent=entry.extra;item.appendChild(extra)}if(callbacks){item.addEventListener(\"mouseenter\",()=>{swatch.style.transform=shape===\"line\"||shape===\"line-dot\"?\"scaleY(2)\":\"scale(1.4)\";callbacks.onHover?.(entry.label)});item.addEventListener(\"mouseleave\",()=>{swatch.style.transform=\"\";callbacks.onLeave?.()})}legend.appendChild(item)});if(overflowCount>0){const more=document.createElement(\"div\");more.style.cssText=\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";const moreText=document.createElement(\"span\");moreText.style.cssText=`color: ${TEXT_MUTED}; opacity: 0.6; font-style: italic;`;moreText.textContent=`+${overflowCount} more`;more.appendChild(moreText);legend.appendChild(more)}return legend}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function findNearestDateIndex(sortedDates,targetTime){const bisect=d3.bisector(d=>d).left;let idx=bisect(sortedDates,targetTime);if(idx>0&&idx<sortedDates.length){const d0=sortedDates[idx-1];const d1=sortedDates[idx];idx=targetTime-d0>d1-targetTime?idx:idx-1}else if(idx>=sortedDates.length){idx=sortedDates.length-1}return idx}function createCrosshairGroup(g,dims){const crosshairLine=g.append(\"line\").attr(\"class\",\"crosshair\").attr(\"y1\",0).attr(\"y2\",dims.innerHeight).attr(\"stroke\",TEXT_MUTED).attr(\"stroke-width\",1).attr(\"stroke-dasharray\",\"4,3\").attr(\"pointer-events\",\"none\").attr(\"opacity\",0);const highlightDots=g.append(\"g\").attr(\"class\",\"highlight-dots\").attr(\"pointer-events\",\"none\");const hoverArea=g.append(\"rect\").attr(\"class\",\"hover-area\").attr(\"width\",dims.innerWidth).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"crosshair\");return{crosshairLine,highlightDots,hoverArea}}var ANNOTATION_COLOR=categorical[3];function drawTimeAnnotations(g,annotations,xScale,yScale,dims){if(!Array.isArray(annotations)||annotations.length===0)return;const[d0,d1]=xScale.domain().map(d=>d.getTime());const layer=g.append(\"g\").attr(\"class\",\"time-annotations\").attr(\"pointer-events\",\"none\");for(const a of annotations){const date=parseDate(a.date);if(!date||date.getTime()<d0||date.getTime()>d1)continue;const x=xScale(date);const anchor=x>dims.innerWidth*.85?\"end\":\"start\";const dx=anchor===\"end\"?-4:4;if(a.kind===\"change\"){layer.append(\"line\").attr(\"x1\",x).attr(\"x2\",x).attr(\"y1\",0).attr(\"y2\",dims.innerHeight).attr(\"stroke\",TEXT_MUTED).attr(\"stroke-width\",1).attr(\"stroke-dasharray\",\"6,4\");layer.append(\"text\").attr(\"x\",x+dx).attr(\"y\",10).attr(\"text-anchor\",anchor).attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"10px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(a.label);continue}if(typeof a.value!==\"number\"||!isFinite(a.value))continue;const y=yScale(a.value);layer.append(\"circle\").attr(\"cx\",x).attr(\"cy\",y).attr(\"r\",6).attr(\"fill\",\"none\").attr(\"stroke\",ANNOTATION_COLOR).attr(\"stroke-width\",2);layer.append(\"text\").attr(\"x\",x+dx).attr(\"y\",Math.max(10,y-10)).attr(\"text-anchor\",anchor).attr(\"fill\",ANNOTATION_COLOR).attr(\"font-size\",\"10px\").attr(\"font-weight\",600).attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(a.label)}}function renderArea(container,spec){const{config,encoding,data}=spec;const timeField=config.timeField||encoding.x?.field;const valueField=config.valueField||encoding.y?.field;const seriesField=config.seriesField||encoding.color?.field||null;const stacked=config.stacked??false;const normalized=config.normalized??false;const fillOpacity=config.opacity??.7;const interpolation=config.curve||config.interpolation||\"monotone\";const parsedData=data.map(d=>({...d,_date:parseDate(d[timeField]),_value:d[valueField]==null?null:Number(d[valueField])})).filter(d=>d._date!==null);const colorScale=buildColorScale(encoding.color,data);const seriesNames=seriesField?[...new Set(parsedData.map(d=>d[seriesField]))]:[];const isMultiSeries=seriesNames.length>1;const isStacked=isMultiSeries&&(stacked||normalized);container.style.display=\"flex\";container.style.flexDirection=\"column\";container.style.background=DARK_BG;container.style.borderRadius=\"8px\";container.style.overflow=\"hidden\";const chartWrapper=document.createElement(\"div\");chartWrapper.style.flex=\"1\";chartWrapper.style.minHeight=\"0\";container.appendChild(chartWrapper);if(isMultiSeries){const legendDiv=createLegend(colorScale);container.appendChild(legendDiv)}const{svg,g,dims}=createSvg(chartWrapper,spec,{right:30,top:40,bottom:70},{background:false});const tooltip=createTooltip(chartWrapper);if(parsedData.every(d=>d._value===0||d._value===null)){renderEmptyState(g,dims);return}const curveMap={linear:d3.curveLinear,monotone:d3.curveMonotoneX,basis:d3.curveBasis,step:d3.curveStepAfter,cardinal:d3.curveCardinal,catmullRom:d3.curveCatmullRom};const curve=curveMap[interpolation]||d3.curveMonotoneX;const uniqueDateCount=new Set(parsedData.map(d=>d._date.getTime())).size;if(uniqueDateCount<=1){const xExtent=d3.extent(parsedData,d=>d._date);const xScale=d3.scaleTime().domain(xExtent).range([0,dims.innerWidth]);const yExtent=d3.extent(parsedData,d=>d._value);const yScale=d3.scaleLinear().domain([0,yExtent[1]*1.1||1]).range([dims.innerHeight,0]).nice();drawAxes(g,xScale,yScale,dims,false,1);parsedData.forEach(d=>{const c=isMultiSeries?colorScale(d[seriesField]):categorical[0];g.append(\"circle\").attr(\"cx\",xScale(d._date)).attr(\"cy\",yScale(d._value)).attr(\"r\",6).attr(\"fill\",c).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2);g.append(\"text\").attr(\"x\",xScale(d._date)).attr(\"y\",yScale(d._value)-14).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(formatValue(d._value))})}else if(isStacked){const rules=config.annotations?.filter(a=>a.kind===\"change\");drawStackedArea(g,parsedData,seriesField,seriesNames,colorScale,curve,dims,tooltip,timeField,valueField,fillOpacity,normalized,rules)}else if(isMultiSeries){drawOverlappingAreas(g,parsedData,seriesField,seriesNames,colorScale,curve,dims,tooltip,timeField,valueField,fillOpacity,config.annotations)}else{drawSingleArea(g,parsedData,curve,dims,tooltip,timeField,valueField,fillOpacity,config.annotations)}}function drawSingleArea(g,parsedData,curve,dims,tooltip,timeField,valueField,fillOpacity,annotations){const sorted=[...parsedData].sort((a,b)=>a._date.getTime()-b._date.getTime());const color=categorical[0];const xExtent=d3.extent(sorted,d=>d._date);const xScale=d3.scaleTime().domain(xExtent).range([0,dims.innerWidth]);const validValues=sorted.filter(d=>d._value!==null&&!isNaN(d._value));const yMin=d3.min(validValues,d=>d._value);const yMax=d3.max(validValues,d=>d._value);const yScale=d3.scaleLinear().domain([Math.min(0,yMin),yMax*1.05]).range([dims.innerHeight,0]).nice();drawAxes(g,xScale,yScale,dims,false,sorted.length);const defined=d=>d._value!==null&&!isNaN(d._value);const areaGen=d3.area().defined(defined).x(d=>xScale(d._date)).y0(yScale(0)).y1(d=>yScale(d._value)).curve(curve);const lineGen=d3.line().defined(defined).x(d=>xScale(d._date)).y(d=>yScale(d._value)).curve(curve);g.append(\"path\").datum(sorted).attr(\"fill\",color).attr(\"opacity\",fillOpacity).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\");g.append(\"path\").datum(sorted).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",2).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\");drawTimeAnnotations(g,annotations,xScale,yScale,dims);addCrosshairHover(g,sorted,null,[],timeField,valueField,null,xScale,yScale,dims,tooltip,false)}function drawOverlappingAreas(g,parsedData,seriesField,seriesNames,colorScale,curve,dims,tooltip,timeField,valueField,fillOpacity,annotations){const xExtent=d3.extent(parsedData,d=>d._date);const xScale=d3.scaleTime().domain(xExtent).range([0,dims.innerWidth]);const validValues=parsedData.filter(d=>d._value!==null&&!isNaN(d._value));const yMinO=d3.min(validValues,d=>d._value);const yMax=d3.max(validValues,d=>d._value);const yScale=d3.scaleLinear().domain([Math.min(0,yMinO),yMax*1.05]).range([dims.innerHeight,0]).nice();const uniqueTimes=new Set(parsedData.map(d=>d._date.getTime())).size;drawAxes(g,xScale,yScale,dims,false,uniqueTimes);const defined=d=>d._value!==null&&!isNaN(d._value);const areaGen=d3.area().defined(defined).x(d=>xScale(d._date)).y0(yScale(0)).y1(d=>yScale(d._value)).curve(curve);const lineGen=d3.line().defined(defined).x(d=>xScale(d._date)).y(d=>yScale(d._value)).curve(curve);seriesNames.forEach(name=>{const seriesData=parsedData.filter(d=>d[seriesField]===name).sort((a,b)=>a._date.getTime()-b._date.getTime());const color=colorScale(name);g.append(\"path\").datum(seriesData).attr(\"fill\",color).attr(\"opacity\",fillOpacity*.5).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\");g.append(\"path\").datum(seriesData).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",2).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\")});drawTimeAnnotations(g,annotations,xScale,yScale,dims);addCrosshairHover(g,parsedData,seriesField,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,true)}function drawStackedArea(g,parsedData,seriesField,seriesNames,colorScale,curve,dims,tooltip,timeField,valueField,fillOpacity,normalized,annotations){const dateMap=new Map;parsedData.forEach(d=>{const key=d._date.getTime();if(!dateMap.has(key))dateMap.set(key,{});dateMap.get(key)[d[seriesField]]=d._value});const sortedTimes=[...dateMap.keys()].sort((a,b)=>a-b);const wideData=sortedTimes.map(t=>{const row={_date:new Date(t)};const values=dateMap.get(t);seriesNames.forEach(name=>{row[name]=values[name]||0});return row});const stackGen=d3.stack().keys(seriesNames);if(normalized){stackGen.offset(d3.stackOffsetExpand)}const stacked=stackGen(wideData);const xScale=d3.scaleTime().domain(d3.extent(wideData,d=>d._date)).range([0,dims.innerWidth]);let yMinS;let yMaxS;if(normalized){yMinS=0;yMaxS=1}else{yMinS=d3.min(stacked,layer=>d3.min(layer,d=>d[0]));yMaxS=d3.max(stacked,layer=>d3.max(layer,d=>d[1]))}const yScale=d3.scaleLinear().domain([Math.min(0,yMinS),yMaxS]).range([dims.innerHeight,0]).nice();drawAxes(g,xScale,yScale,dims,normalized,wideData.length);const areaGen=d3.area().x(d=>xScale(d.data._date)).y0(d=>yScale(d[0])).y1(d=>yScale(d[1])).curve(curve);stacked.forEach(layer=>{const color=colorScale(layer.key);g.append(\"path\").datum(layer).attr(\"fill\",color).attr(\"opacity\",fillOpacity).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\");const lineGen=d3.line().x(d=>xScale(d.data._date)).y(d=>yScale(d[1])).curve(curve);g.append(\"path\").datum(layer).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",1).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\")});drawTimeAnnotations(g,annotations,xScale,yScale,dims);addStackedCrosshairHover(g,wideData,stacked,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,normalized)}function drawAxes(g,xScale,yScale,dims,normalized,dataPointCount){let xTickCount=getAdaptiveTickCount(dims.innerWidth);if(dataPointCount&&dataPointCount<xTickCount){xTickCount=dataPointCount}const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(xScale).ticks(xTickCount).tickSize(0).tickPadding(8));styleAxis(xAxis);xAxis.selectAll(\".tick text\").attr(\"text-anchor\",\"end\").attr(\"dx\",\"-0.5em\").attr(\"dy\",\"0.15em\").attr(\"transform\",\"rotate(-35)\");const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const yAxisCall=d3.axisLeft(yScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8);if(normalized){yAxisCall.tickFormat(d=>Math.round(d*100)+\"%\")}else{yAxisCall.tickFormat(d=>formatValue(d))}const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(yAxisCall);styleAxis(yAxis)}function addCrosshairHover(g,parsedData,seriesField,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,isMultiSeries){const dateMap=new Map;parsedData.forEach(d=>{const key=d._date.getTime();if(!dateMap.has(key))dateMap.set(key,[]);dateMap.get(key).push(d)});const sortedDates=[...dateMap.keys()].sort((a,b)=>a-b);const{crosshairLine,highlightDots,hoverArea}=createCrosshairGroup(g,dims);hoverArea.on(\"mousemove\",function(event){const[mx]=d3.pointer(event,this);const xDate=xScale.invert(mx).getTime();const idx=findNearestDateIndex(sortedDates,xDate);const nearestTime=sortedDates[idx];const nearestX=xScale(new Date(nearestTime));const points=dateMap.get(nearestTime)||[];crosshairLine.attr(\"x1\",nearestX).attr(\"x2\",nearestX).attr(\"opacity\",1);highlightDots.selectAll(\"circle\").remove();points.forEach(d=>{const color=isMultiSeries?colorScale(d[seriesField]):categorical[0];highlightDots.append(\"circle\").attr(\"cx\",nearestX).attr(\"cy\",yScale(d._value)).attr(\"r\",5).attr(\"fill\",color).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2)});const dateLabel=points[0]?.[timeField]??new Date(nearestTime).toLocaleDateString();let html=`<strong>${escapeHtml(dateLabel)}</strong>`;if(isMultiSeries){const sorted=[...points].sort((a,b)=>b._value-a._value);sorted.forEach(d=>{const color=escapeHtml(colorScale(d[seriesField]));html+=`<br/><span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${color};margin-right:5px;vertical-align:middle;\"></span>${escapeHtml(d[seriesField])}: ${escapeHtml(formatValue(d._value))}`})}else{html+=`<br/>${escapeHtml(valueField)}: ${escapeHtml(formatValue(points[0]?._value))}`}showTooltip(tooltip,html,event)}).on(\"mouseout\",function(){crosshairLine.attr(\"opacity\",0);highlightDots.selectAll(\"circle\").remove();hideTooltip(tooltip)})}function addStackedCrosshairHover(g,wideData,stacked,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,normalized){const sortedDates=wideData.map(d=>d._date.getTime());const{crosshairLine,highlightDots,hoverArea}=createCrosshairGroup(g,dims);hoverArea.on(\"mousemove\",function(event){const[mx]=d3.pointer(event,this);const xDate=xScale.invert(mx).getTime();const idx=findNearestDateIndex(sortedDates,xDate);const nearestX=xScale(wideData[idx]._date);crosshairLine.attr(\"x1\",nearestX).attr(\"x2\",nearestX).attr(\"opacity\",1);highlightDots.selectAll(\"circle\").remove();const dateStr=wideData[idx]._date.toLocaleDateString();let html=`<strong>${escapeHtml(dateStr)}</strong>`;const reversedNames=[...seriesNames].reverse();reversedNames.forEach(name=>{const layer=stacked.find(l=>l.key===name);if(!layer)return;const pt=layer[idx];const val=pt.data[name];const stackedY=yScale(pt[1]);const color=escapeHtml(colorScale(name));highlightDots.append(\"circle\").attr(\"cx\",nearestX).attr(\"cy\",stackedY).attr(\"r\",4).attr(\"fill\",colorScale(name)).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2);if(normalized){const pct=escapeHtml(((pt[1]-pt[0])*100).toFixed(1));html+=`<br/><span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${color};margin-right:5px;vertical-align:middle;\"></span>${escapeHtml(name)}: ${escapeHtml(formatValue(val))} (${pct}%)`}else{html+=`<br/><span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${color};margin-right:5px;vertical-align:middle;\"></span>${escapeHtml(name)}: ${escapeHtml(formatValue(val))}`}});showTooltip(tooltip,html,event)}).on(\"mouseout\",function(){crosshairLine.attr(\"opacity\",0);highlightDots.selectAll(\"circle\").remove();hideTooltip(tooltip)})}return __toCommonJS(area_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
 export const barBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var bar_render_exports={};__export(bar_render_exports,{renderChart:()=>renderBar});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function calculateLeftMargin(labels,fontSize=11){const charWidthLatin=fontSize*.55;const charWidthCJK=fontSize*1;const maxWidth=Math.max(...labels.map(l=>{const s=String(l);let w=0;for(let i=0;i<s.length;i++){const code=s.charCodeAt(i);w+=code>11904&&code<40959||code>65280&&code<65519?charWidthCJK:charWidthLatin}return w}));return Math.max(80,Math.min(220,maxWidth+20))}function shouldRotateLabels(labels,barWidth,fontSize=11){const avgLabelLength=labels.reduce((sum,l)=>sum+String(l).length,0)/labels.length;const estimatedLabelWidth=avgLabelLength*(fontSize*.6);return estimatedLabelWidth>barWidth*.8}function calculateBottomMargin(labels,willRotate,fontSize=11){if(!willRotate)return 60;const maxLength=Math.max(...labels.map(l=>String(l).length));const charWidth=fontSize*.6;const estimatedHeight=maxLength*charWidth*.7;return Math.max(70,Math.min(150,estimatedHeight+35))}function truncateLabel(label,maxLength=25){const str=String(label);if(str.length<=maxLength)return str;return str.slice(0,maxLength-1)+\"\\u2026\"}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function isAllZeros(data,field){return data.every(d=>Number(d[field])===0)}function shouldShowValueLabels(config,barDimension,isHorizontal){if(config.showLabels!==void 0)return config.showLabels;return isHorizontal?barDimension>=20:barDimension>=35}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function addSortControls(svg,container,spec,dims,renderFn){const currentSortBy=spec.config.sortBy||\"value\";const currentSortOrder=spec.config.sortOrder||\"descending\";const xPos=dims.width-dims.margin.right-40;const yPos=24;const controls=svg.append(\"g\").attr(\"class\",\"sort-controls\").attr(\"transform\",`translate(${xPos}, ${yPos})`).style(\"opacity\",0).style(\"cursor\",\"pointer\").style(\"transition\",\"opacity 0.2s\").style(\"user-select\",\"none\").style(\"-webkit-user-select\",\"none\");controls.append(\"rect\").attr(\"x\",-26).attr(\"y\",-10).attr(\"width\",52).attr(\"height\",20).attr(\"rx\",4).attr(\"fill\",\"#1e2028\").attr(\"stroke\",\"#2d3041\").attr(\"stroke-width\",1);controls.append(\"text\").attr(\"x\",-8).attr(\"y\",3).attr(\"text-anchor\",\"middle\").attr(\"font-size\",\"9px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"font-weight\",\"600\").attr(\"fill\",TEXT_MUTED).text(currentSortBy===\"category\"?\"ABC\":\"123\");controls.append(\"text\").attr(\"x\",14).attr(\"y\",3).attr(\"text-anchor\",\"middle\").attr(\"font-size\",\"11px\").attr(\"fill\",TEXT_MUTED).text(currentSortOrder===\"descending\"?\"\\u25BC\":\"\\u25B2\");svg.on(\"mouseenter\",()=>{controls.style(\"opacity\",1)}).on(\"mouseleave\",()=>{controls.style(\"opacity\",0)});controls.on(\"click\",event=>{event.stopPropagation();const curSortBy=spec.config.sortBy||\"value\";const curSortOrder=spec.config.sortOrder||\"descending\";let newSortBy;let newSortOrder;if(curSortBy===\"value\"&&curSortOrder===\"descending\"){newSortBy=\"value\";newSortOrder=\"ascending\"}else if(curSortBy===\"value\"&&curSortOrder===\"ascending\"){newSortBy=\"category\";newSortOrder=\"ascending\"}else if(curSortBy===\"category\"&&curSortOrder===\"ascending\"){newSortBy=\"category\";newSortOrder=\"descending\"}else{newSortBy=\"value\";newSortOrder=\"descending\"}const updatedSpec={...spec,config:{...spec.config,sortBy:newSortBy,sortOrder:newSortOrder}};container.innerHTML=\"\";renderFn(container,updatedSpec)})}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function renderBar(container,spec){const{config,encoding,data}=spec;const isHorizontal=config.orientation===\"horizontal\";const yFieldName=encoding.y?.field;let sortedData=yFieldName?[...data].filter(d=>!isNaN(Number(d[yFieldName]))):[...data];if(encoding.x?.field&&yFieldName){const xKey=encoding.x.field;const categorySet=new Set(sortedData.map(d=>d[xKey]));if(categorySet.size<sortedData.length){const aggregated=new Map;for(const row of sortedData){const key=row[xKey];if(aggregated.has(key)){const existing=aggregated.get(key);existing[yFieldName]=Number(existing[yFieldName])+Number(row[yFieldName])}else{aggregated.set(key,{...row})}}sortedData=[...aggregated.values()]}}if(config.sortBy===\"value\"&&encoding.y){const yField=encoding.y.field;const order=config.sortOrder===\"ascending\"?1:-1;sortedData.sort((a,b)=>order*(Number(a[yField])-Number(b[yField])))}if(config.sortBy===\"category\"&&encoding.x){const xField2=encoding.x.field;const order=config.sortOrder===\"ascending\"?1:-1;sortedData.sort((a,b)=>{const aVal=String(a[xField2]);const bVal=String(b[xField2]);return order*aVal.localeCompare(bVal,void 0,{sensitivity:\"base\",numeric:true})})}let marginOverrides;if(isHorizontal){const yField=encoding.x.field;const labels=sortedData.map(d=>d[yField]);const leftMargin=calculateLeftMargin(labels);marginOverrides={left:leftMargin,bottom:40}}else{const xField2=encoding.x.field;const labels=sortedData.map(d=>d[xField2]);const containerWidth=container.clientWidth||800;const estimatedBarWidth=(containerWidth-140)/labels.length;const willRotate=shouldRotateLabels(labels,estimatedBarWidth);const bottomMargin=calculateBottomMargin(labels,willRotate);marginOverrides={bottom:bottomMargin,left:70}}const{svg,g,dims}=createSvg(container,spec,marginOverrides);const tooltip=createTooltip(container);if(isAllZeros(data,encoding.y.field)){renderEmptyState(g,dims);return}if(isHorizontal){renderHorizontalBar(g,sortedData,data,encoding,config,dims,tooltip)}else{renderVerticalBar(g,sortedData,data,encoding,config,dims,tooltip)}const xField=encoding.x?.field;const hasCategoricalLabels=xField&&sortedData.some(d=>{const value=d[xField];return typeof value===\"string\"&&isNaN(Number(value))});if(hasCategoricalLabels){addSortControls(svg,container,spec,dims,renderBar)}}function renderHorizontalBar(g,data,originalData,encoding,config,dims,tooltip){const yField=encoding.x.field;const xField=encoding.y.field;const categories=data.map(d=>d[yField]);const yScale=d3.scaleBand().domain(categories).range([0,dims.innerHeight]).padding(.2);const allVals=data.map(d=>Number(d[xField]));const minVal=d3.min(allVals);const maxVal=d3.max(allVals);const xScale=d3.scaleLinear().domain([Math.min(0,minVal),Math.max(0,maxVal)]).range([0,dims.innerWidth]).nice();const colorScale=buildColorScale(encoding.color,originalData,xField);const xTickCount=getAdaptiveTickCount(dims.innerWidth);const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(xScale).ticks(xTickCount).tickSize(-dims.innerHeight).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(xAxis);const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).tickSize(0).tickPadding(10).tickFormat(d=>truncateLabel(d,25)));styleAxis(yAxis);const maxBarHeight=Math.min(80,dims.innerHeight*.3);const barHeight=Math.min(yScale.bandwidth(),maxBarHeight);const barYOffset=(yScale.bandwidth()-barHeight)/2;g.selectAll(\".bar-hover-target\").data(data).join(\"rect\").attr(\"class\",\"bar-hover-target\").attr(\"y\",d=>yScale(d[yField])).attr(\"x\",0).attr(\"height\",yScale.bandwidth()).attr(\"width\",dims.innerWidth).attr(\"fill\",\"transparent\").attr(\"cursor\",\"pointer\").on(\"mouseover\",function(event,d){g.selectAll(\".bar\").filter(bd=>bd[yField]===d[yField]).attr(\"opacity\",.8);showTooltip(tooltip,`<strong>${escapeHtml(d[yField])}</strong><br/>${escapeHtml(xField)}: ${formatValue(Number(d[xField]))}`,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){g.selectAll(\".bar\").attr(\"opacity\",1);hideTooltip(tooltip)});g.selectAll(\".bar\").data(data).join(\"rect\").attr(\"class\",\"bar\").attr(\"y\",d=>yScale(d[yField])+barYOffset).attr(\"x\",d=>{const v=Number(d[xField]);return v>=0?xScale(0):xScale(v)}).attr(\"height\",barHeight).attr(\"width\",d=>Math.max(2,Math.abs(xScale(Number(d[xField]))-xScale(0)))).attr(\"fill\",d=>colorScale(d[encoding.color?.field||yField])).attr(\"rx\",3).attr(\"pointer-events\",\"none\");const showLabels=shouldShowValueLabels(config,barHeight,true);if(showLabels){g.selectAll(\".bar-label\").data(data).join(\"text\").attr(\"class\",\"bar-label\").attr(\"x\",d=>{const v=Number(d[xField]);const bw=Math.abs(xScale(v)-xScale(0));if(v>=0){return bw>50?xScale(v)-5:xScale(v)+8}else{return bw>50?xScale(v)+5:xScale(v)-8}}).attr(\"y\",d=>yScale(d[yField])+yScale.bandwidth()/2).attr(\"text-anchor\",d=>{const v=Number(d[xField]);const barWidth=Math.abs(xScale(v)-xScale(0));if(v>=0)return barWidth>50?\"end\":\"start\";return barWidth>50?\"start\":\"end\"}).attr(\"dominant-baseline\",\"middle\").attr(\"fill\",d=>{const barWidth=Math.abs(xScale(Number(d[xField]))-xScale(0));return barWidth>50?\"#ffffff\":TEXT_MUTED}).attr(\"font-size\",\"10px\").attr(\"font-weight\",\"500\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").style(\"opacity\",1).text(d=>formatValue(Number(d[xField])))}}function renderVerticalBar(g,data,originalData,encoding,config,dims,tooltip){const xField=encoding.x.field;const yField=encoding.y.field;const categories=data.map(d=>d[xField]);const xScale=d3.scaleBand().domain(categories).range([0,dims.innerWidth]).padding(.2);const allValsV=data.map(d=>Number(d[yField]));const minValV=d3.min(allValsV);const maxValV=d3.max(allValsV);const yScale=d3.scaleLinear().domain([Math.min(0,minValV),Math.max(0,maxValV)]).range([dims.innerHeight,0]).nice();const colorScale=buildColorScale(encoding.color,originalData,yField);const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(xScale).tickSize(0).tickPadding(8).tickFormat(d=>truncateLabel(d,25)));styleAxis(xAxis);const bandwidth=xScale.bandwidth();const needsRotation=shouldRotateLabels(categories,bandwidth);if(needsRotation){g.selectAll(\".x-axis .tick text\").attr(\"transform\",\"rotate(-35)\").attr(\"text-anchor\",\"end\").attr(\"dx\",\"-0.5em\").attr(\"dy\",\"0.15em\")}const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(yAxis);const maxBarWidth=Math.min(80,dims.innerWidth*.3);const barWidth=Math.min(xScale.bandwidth(),maxBarWidth);const barXOffset=(xScale.bandwidth()-barWidth)/2;g.selectAll(\".bar-hover-target\").data(data).join(\"rect\").attr(\"class\",\"bar-hover-target\").attr(\"x\",d=>xScale(d[xField])).attr(\"y\",0).attr(\"width\",xScale.bandwidth()).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"pointer\").on(\"mouseover\",function(event,d){g.selectAll(\".bar\").filter(bd=>bd[xField]===d[xField]).attr(\"opacity\",.8);showTooltip(tooltip,`<strong>${escapeHtml(d[xField])}</strong><br/>${escapeHtml(yField)}: ${formatValue(Number(d[yField]))}`,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){g.selectAll(\".bar\").attr(\"opacity\",1);hideTooltip(tooltip)});g.selectAll(\".bar\").data(data).join(\"rect\").attr(\"class\",\"bar\").attr(\"x\",d=>xScale(d[xField])+barXOffset).attr(\"y\",d=>{const v=Number(d[yField]);return v>=0?yScale(v):yScale(0)}).attr(\"width\",barWidth).attr(\"height\",d=>Math.max(2,Math.abs(yScale(0)-yScale(Number(d[yField]))))).attr(\"fill\",d=>colorScale(d[encoding.color?.field||xField])).attr(\"rx\",3).attr(\"pointer-events\",\"none\");const showLabels=shouldShowValueLabels(config,barWidth,false);if(showLabels){g.selectAll(\".bar-label\").data(data).join(\"text\").attr(\"class\",\"bar-label\").attr(\"x\",d=>xScale(d[xField])+xScale.bandwidth()/2).attr(\"y\",d=>{const v=Number(d[yField]);const barHeight=Math.abs(yScale(0)-yScale(v));if(v>=0){return barHeight<20?yScale(v)-6:yScale(v)+14}else{return barHeight<20?yScale(0)+barHeight+14:yScale(0)+14}}).attr(\"text-anchor\",\"middle\").attr(\"fill\",d=>{const barHeight=Math.abs(yScale(0)-yScale(Number(d[yField])));return barHeight<20?TEXT_MUTED:\"#ffffff\"}).attr(\"font-size\",\"10px\").attr(\"font-weight\",\"500\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").style(\"opacity\",1).text(d=>formatValue(Number(d[yField])))}}return __toCommonJS(bar_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
 export const beeswarmBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var beeswarm_render_exports={};__export(beeswarm_render_exports,{renderChart:()=>renderBeeswarm});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function tooltipHtml(strings,...values){let result=strings[0];for(let i=0;i<values.length;i++){result+=escapeHtml(values[i])+strings[i+1]}return result}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function calculateLeftMargin(labels,fontSize=11){const charWidthLatin=fontSize*.55;const charWidthCJK=fontSize*1;const maxWidth=Math.max(...labels.map(l=>{const s=String(l);let w=0;for(let i=0;i<s.length;i++){const code=s.charCodeAt(i);w+=code>11904&&code<40959||code>65280&&code<65519?charWidthCJK:charWidthLatin}return w}));return Math.max(80,Math.min(220,maxWidth+20))}function truncateLabel(label,maxLength=25){const str=String(label);if(str.length<=maxLength)return str;return str.slice(0,maxLength-1)+\"\\u2026\"}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function createLegend(source,options){const shape=options?.shape??\"square\";const callbacks=options?.callbacks;let entries;if(Array.isArray(source)&&source.length>0&&source[0]?.label!==void 0){entries=source}else{const domain=source.domain?.()??[];entries=domain.map(label=>({label:String(label),color:source(label)}))}if(!entries.length){return document.createElement(\"div\")}const maxItems=options?.maxItems??12;let overflowCount=0;if(entries.length>maxItems){overflowCount=entries.length-(maxItems-1);entries=entries.slice(0,maxItems-1)}const maxLabelLen=20;const displayLabels=smartTruncateLabels(entries.map(e=>e.label),maxLabelLen);const legend=document.createElement(\"div\");legend.style.cssText=`\n    display: flex; flex-wrap: wrap; justify-content: center; gap: 4px 14px;\n    padding: 6px 12px 8px; font-family: Inter, system-ui, sans-serif;\n    font-size: 11px; line-height: 1;\n  `;entries.forEach((entry,idx)=>{const item=document.createElement(\"div\");item.style.cssText=callbacks?\"display: inline-flex; align-items: center; gap: 5px; white-space: nowrap; cursor: pointer; transition: opacity 0.15s;\":\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";item.setAttribute(\"data-series\",entry.label);const swatch=document.createElement(\"span\");if(shape===\"circle\"){swatch.style.cssText=`\n        width: 8px; height: 8px; border-radius: 50%;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line\"){swatch.style.cssText=`\n        width: 16px; height: 3px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line-dot\"){swatch.style.cssText=`\n        width: 16px; height: 2px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; position: relative;\n        transition: transform 0.15s;\n      `;const dot=document.createElement(\"span\");dot.style.cssText=`\n        position: absolute; top: 50%; left: 50%;\n        transform: translate(-50%, -50%);\n        width: 6px; height: 6px; border-radius: 50%;\n        background: ${entry.color}; border: 1px solid ${DARK_BG};\n      `;swatch.appendChild(dot)}else{swatch.style.cssText=`\n        width: 10px; height: 10px; border-radius: 2px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}const text=document.createElement(\"span\");text.style.color=TEXT_MUTED;text.textContent=displayLabels[idx];if(entry.label.length>maxLabelLen)text.title=entry.label;item.appendChild(swatch);item.appendChild(text);if(entry.extra){const extra=document.createElement(\"span\");extra.style.color=TEXT_MUTED;extra.style.opacity=\"0.7\";extra.textContent=entry.extra;item.appendChild(extra)}if(callbacks){item.addEventListener(\"mouseenter\",()=>{swatch.style.transform=shape===\"line\"||shape===\"line-dot\"?\"scaleY(2)\":\"scale(1.4)\";callbacks.onHover?.(entry.label)});item.addEventListener(\"mouseleave\",()=>{swatch.style.transform=\"\";callbacks.onLeave?.()})}legend.appendChild(item)});if(overflowCount>0){const more=document.createElement(\"div\");more.style.cssText=\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";const moreText=document.createElement(\"span\");moreText.style.cssText=`color: ${TEXT_MUTED}; opacity: 0.6; font-style: italic;`;moreText.textContent=`+${overflowCount} more`;more.appendChild(moreText);legend.appendChild(more)}return legend}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function dodgeBeeswarm(xPositions,spacing,maxOffset){const offsets=new Array(xPositions.length).fill(0);const placed=[];for(let i=0;i<xPositions.length;i++){const x=xPositions[i];let bestY=0;let found=false;for(let dy=0;dy<=maxOffset;dy+=spacing*.9){for(const sign of dy===0?[1]:[1,-1]){const candidateY=sign*dy;const overlaps=placed.some(p=>Math.sqrt((p.x-x)**2+(p.y-candidateY)**2)<spacing);if(!overlaps){bestY=candidateY;found=true;break}}if(found)break}offsets[i]=bestY;placed.push({x,y:bestY})}return offsets}function renderBeeswarm(container,spec){const{config,encoding,data}=spec;if(!data||data.length===0){container.innerHTML=`<div style=\"display:flex;align-items:center;justify-content:center;height:100%;color:#9ca3af;font-size:14px;font-family:Inter,system-ui,sans-serif;background:#0f1117;border-radius:8px;\">No data for beeswarm</div>`;return}const valueField=config.valueField||encoding.x?.field||Object.keys(data[0])[0];if(!valueField){container.innerHTML=`<div style=\"display:flex;align-items:center;justify-content:center;height:100%;color:#9ca3af;font-size:14px;font-family:Inter,system-ui,sans-serif;background:#0f1117;border-radius:8px;\">Beeswarm requires a numeric value field</div>`;return}const categoryField=config.categoryField||encoding.y?.field||null;const baseRadius=config.dotRadius??4;const opacity=config.opacity??.7;const hasLegend=categoryField!==null&&encoding.color?.field!=null;container.innerHTML=\"\";container.style.display=\"flex\";container.style.flexDirection=\"column\";container.style.overflow=\"hidden\";const chartWrapper=document.createElement(\"div\");chartWrapper.style.cssText=\"flex: 1; min-height: 0;\";container.appendChild(chartWrapper);const containerWidth=container.clientWidth||800;const isSmall=containerWidth<=400;let leftMargin=12;if(categoryField&&!isSmall){const groups=[...new Set(data.map(d=>String(d[categoryField])))];leftMargin=calculateLeftMargin(groups.map(l=>truncateLabel(l,25)))}const{svg,g,dims}=createSvg(chartWrapper,spec,{left:leftMargin,right:20});const tooltip=createTooltip(container);const xValues=data.map(d=>Number(d[valueField]));const xExtent=d3.extent(xValues);const xPad=(xExtent[1]-xExtent[0])*.05||1;const xScale=d3.scaleLinear().domain([xExtent[0]-xPad,xExtent[1]+xPad]).range([0,dims.innerWidth]).nice();const xTickCount=getAdaptiveTickCount(dims.innerWidth);const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(xScale).ticks(xTickCount).tickSize(-dims.innerHeight).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(xAxis);const colorScale=buildColorScale(encoding.color,data);if(categoryField){renderGroupedBeeswarm(g,data,valueField,categoryField,encoding,config,xScale,colorScale,baseRadius,opacity,dims,tooltip,isSmall)}else{renderSingleBeeswarm(g,data,valueField,encoding,xScale,colorScale,baseRadius,opacity,dims,tooltip)}if(hasLegend){const legendDiv=createLegend(colorScale,{shape:\"circle\",callbacks:{onHover:category=>{g.selectAll(\".dot\").each(function(){const match=d3.select(this).datum()?.[encoding.color?.field||categoryField]===category;d3.select(this).attr(\"opacity\",match?1:.08).attr(\"r\",match?Number(d3.select(this).attr(\"data-r\"))*1.3:Number(d3.select(this).attr(\"data-r\")))})},onLeave:()=>{g.selectAll(\".dot\").each(function(){d3.select(this).attr(\"opacity\",opacity).attr(\"r\",Number(d3.select(this).attr(\"data-r\")))})}}});container.appendChild(legendDiv)}}function renderGroupedBeeswarm(g,data,valueField,categoryField,encoding,config,xScale,colorScale,baseRadius,opacity,dims,tooltip,isSmall){const groups=[...new Set(data.map(d=>d[categoryField]))];const yScale=d3.scaleBand().domain(groups).range([0,dims.innerHeight]).padding(.15);const bandwidth=yScale.bandwidth();if(!isSmall){const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).tickSize(0).tickPadding(8).tickFormat(d=>truncateLabel(d,25)));styleAxis(yAxis);const colorField=encoding.color?.field||categoryField;yAxis.selectAll(\".tick text\").each(function(label){d3.select(this).attr(\"fill\",colorScale(label))})}groups.forEach(group=>{const bandTop=yScale(group);g.append(\"line\").attr(\"x1\",0).attr(\"y1\",bandTop).attr(\"x2\",dims.innerWidth).attr(\"y2\",bandTop).attr(\"stroke\",\"#1f2937\").attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\")});const totalPoints=data.length;const plotArea=dims.innerWidth*bandwidth*groups.length/1e4;const density=totalPoints/Math.max(plotArea,1);let dotRadius=baseRadius;if(density>8)dotRadius=Math.max(2,baseRadius-2);else if(density>4)dotRadius=Math.max(2.5,baseRadius-1);dotRadius=Math.min(dotRadius,bandwidth/4);const pointPositions=[];groups.forEach(group=>{const groupData=data.filter(d=>d[categoryField]===group);const bandMid=yScale(group)+bandwidth/2;groupData.sort((a,b)=>Number(a[valueField])-Number(b[valueField]));const xPositions=groupData.map(d=>xScale(Number(d[valueField])));const offsets=dodgeBeeswarm(xPositions,dotRadius*2.2,bandwidth/2-dotRadius);groupData.forEach((d,j)=>{const globalIdx=data.indexOf(d);pointPositions.push({d,i:pointPositions.length,cx:xPositions[j],cy:bandMid+offsets[j],r:dotRadius})})});const delaunay=d3.Delaunay.from(pointPositions,p=>p.cx,p=>p.cy);let activeIdx=-1;g.append(\"rect\").attr(\"class\",\"voronoi-overlay\").attr(\"width\",dims.innerWidth).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"crosshair\").on(\"mousemove\",function(event){const[mx,my]=d3.pointer(event,g.node());const idx=delaunay.find(mx,my);if(idx===activeIdx){positionTooltip(tooltip,event);return}if(activeIdx>=0){const prev=pointPositions[activeIdx];g.selectAll(\".dot\").filter((_,j)=>j===prev.i).attr(\"r\",prev.r).attr(\"opacity\",opacity)}activeIdx=idx;const p=pointPositions[idx];g.selectAll(\".dot\").filter((_,j)=>j===p.i).attr(\"r\",p.r*1.6).attr(\"opacity\",1);let html=`<strong>${escapeHtml(p.d[categoryField])}</strong>`;html+=`<br/>${escapeHtml(encoding.x?.title||valueField)}: ${escapeHtml(formatValue(Number(p.d[valueField])))}`;showTooltip(tooltip,html,event)}).on(\"mouseleave\",function(){if(activeIdx>=0){const prev=pointPositions[activeIdx];g.selectAll(\".dot\").filter((_,j)=>j===prev.i).attr(\"r\",prev.r).attr(\"opacity\",opacity);activeIdx=-1}hideTooltip(tooltip)});g.selectAll(\".dot\").data(pointPositions).join(\"circle\").attr(\"class\",\"dot\").attr(\"cx\",p=>p.cx).attr(\"cy\",p=>p.cy).attr(\"r\",p=>p.r).attr(\"data-r\",p=>p.r).attr(\"fill\",p=>colorScale(p.d[encoding.color?.field||categoryField])).attr(\"opacity\",opacity).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",.8).attr(\"pointer-events\",\"none\");if(config.showMedianLine){groups.forEach(group=>{const groupValues=data.filter(d=>d[categoryField]===group).map(d=>Number(d[valueField])).sort((a,b)=>a-b);const mid=Math.floor(groupValues.length/2);const median=groupValues.length%2===0?(groupValues[mid-1]+groupValues[mid])/2:groupValues[mid];const medianX=xScale(median);g.append(\"line\").attr(\"x1\",medianX).attr(\"y1\",yScale(group)).attr(\"x2\",medianX).attr(\"y2\",yScale(group)+bandwidth).attr(\"stroke\",\"#f59e0b\").attr(\"stroke-width\",2).attr(\"stroke-dasharray\",\"4,3\").attr(\"opacity\",.6).attr(\"pointer-events\",\"none\")})}}function renderSingleBeeswarm(g,data,valueField,encoding,xScale,colorScale,baseRadius,opacity,dims,tooltip){const density=data.length/(dims.innerWidth*dims.innerHeight/1e4);let dotRadius=baseRadius;if(density>5)dotRadius=Math.max(2,baseRadius-2);else if(density>2)dotRadius=Math.max(3,baseRadius-1);const sortedData=[...data].sort((a,b)=>Number(a[valueField])-Number(b[valueField]));const xPositions=sortedData.map(d=>xScale(Number(d[valueField])));const offsets=dodgeBeeswarm(xPositions,dotRadius*2.2,dims.innerHeight/2-dotRadius);const midY=dims.innerHeight/2;const pointPositions=sortedData.map((d,i)=>({d,i,cx:xPositions[i],cy:midY+offsets[i],r:dotRadius}));const delaunay=d3.Delaunay.from(pointPositions,p=>p.cx,p=>p.cy);let activeIdx=-1;g.append(\"rect\").attr(\"class\",\"voronoi-overlay\").attr(\"width\",dims.innerWidth).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"crosshair\").on(\"mousemove\",function(event){const[mx,my]=d3.pointer(event,g.node());const idx=delaunay.find(mx,my);if(idx===activeIdx){positionTooltip(tooltip,event);return}if(activeIdx>=0){const prev=pointPositions[activeIdx];g.selectAll(\".dot\").filter((_,j)=>j===prev.i).attr(\"r\",prev.r).attr(\"opacity\",opacity)}activeIdx=idx;const p=pointPositions[idx];g.selectAll(\".dot\").filter((_,j)=>j===p.i).attr(\"r\",p.r*1.6).attr(\"opacity\",1);const html=tooltipHtml`<strong>${encoding.x?.title||valueField}</strong>: ${formatValue(Number(p.d[valueField]))}`;showTooltip(tooltip,html,event)}).on(\"mouseleave\",function(){if(activeIdx>=0){const prev=pointPositions[activeIdx];g.selectAll(\".dot\").filter((_,j)=>j===prev.i).attr(\"r\",prev.r).attr(\"opacity\",opacity);activeIdx=-1}hideTooltip(tooltip)});const colorField=encoding.color?.field;g.selectAll(\".dot\").data(pointPositions).join(\"circle\").attr(\"class\",\"dot\").attr(\"cx\",p=>p.cx).attr(\"cy\",p=>p.cy).attr(\"r\",p=>p.r).attr(\"data-r\",p=>p.r).attr(\"fill\",p=>colorField?colorScale(p.d[colorField]):categorical[0]).attr(\"opacity\",opacity).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",.8).attr(\"pointer-events\",\"none\")}return __toCommonJS(beeswarm_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
 export const boxPlotBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var box_plot_render_exports={};__export(box_plot_render_exports,{renderChart:()=>renderBoxPlot});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function tooltipHtml(strings,...values){let result=strings[0];for(let i=0;i<values.length;i++){result+=escapeHtml(values[i])+strings[i+1]}return result}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function shouldRotateLabels(labels,barWidth,fontSize=11){const avgLabelLength=labels.reduce((sum,l)=>sum+String(l).length,0)/labels.length;const estimatedLabelWidth=avgLabelLength*(fontSize*.6);return estimatedLabelWidth>barWidth*.8}function calculateBottomMargin(labels,willRotate,fontSize=11){if(!willRotate)return 60;const maxLength=Math.max(...labels.map(l=>String(l).length));const charWidth=fontSize*.6;const estimatedHeight=maxLength*charWidth*.7;return Math.max(70,Math.min(150,estimatedHeight+35))}function truncateLabel(label,maxLength=25){const str=String(label);if(str.length<=maxLength)return str;return str.slice(0,maxLength-1)+\"\\u2026\"}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function addSortControls(svg,container,spec,dims,renderFn){const currentSortBy=spec.config.sortBy||\"value\";const currentSortOrder=spec.config.sortOrder||\"descending\";const xPos=dims.width-dims.margin.right-40;const yPos=24;const controls=svg.append(\"g\").attr(\"class\",\"sort-controls\").attr(\"transform\",`translate(${xPos}, ${yPos})`).style(\"opacity\",0).style(\"cursor\",\"pointer\").style(\"transition\",\"opacity 0.2s\").style(\"user-select\",\"none\").style(\"-webkit-user-select\",\"none\");controls.append(\"rect\").attr(\"x\",-26).attr(\"y\",-10).attr(\"width\",52).attr(\"height\",20).attr(\"rx\",4).attr(\"fill\",\"#1e2028\").attr(\"stroke\",\"#2d3041\").attr(\"stroke-width\",1);controls.append(\"text\").attr(\"x\",-8).attr(\"y\",3).attr(\"text-anchor\",\"middle\").attr(\"font-size\",\"9px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"font-weight\",\"600\").attr(\"fill\",TEXT_MUTED).text(currentSortBy===\"category\"?\"ABC\":\"123\");controls.append(\"text\").attr(\"x\",14).attr(\"y\",3).attr(\"text-anchor\",\"middle\").attr(\"font-size\",\"11px\").attr(\"fill\",TEXT_MUTED).text(currentSortOrder===\"descending\"?\"\\u25BC\":\"\\u25B2\");svg.on(\"mouseenter\",()=>{controls.style(\"opacity\",1)}).on(\"mouseleave\",()=>{controls.style(\"opacity\",0)});controls.on(\"click\",event=>{event.stopPropagation();const curSortBy=spec.config.sortBy||\"value\";const curSortOrder=spec.config.sortOrder||\"descending\";let newSortBy;let newSortOrder;if(curSortBy===\"value\"&&curSortOrder===\"descending\"){newSortBy=\"value\";newSortOrder=\"ascending\"}else if(curSortBy===\"value\"&&curSortOrder===\"ascending\"){newSortBy=\"category\";newSortOrder=\"ascending\"}else if(curSortBy===\"category\"&&curSortOrder===\"ascending\"){newSortBy=\"category\";newSortOrder=\"descending\"}else{newSortBy=\"value\";newSortOrder=\"descending\"}const updatedSpec={...spec,config:{...spec.config,sortBy:newSortBy,sortOrder:newSortOrder}};container.innerHTML=\"\";renderFn(container,updatedSpec)})}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function median(sorted){const n=sorted.length;if(n===0)return 0;return n%2===1?sorted[Math.floor(n/2)]:(sorted[n/2-1]+sorted[n/2])/2}function quartiles(sorted){const n=sorted.length;if(n===0)return{q1:0,median:0,q3:0};if(n===1)return{q1:sorted[0],median:sorted[0],q3:sorted[0]};const med=median(sorted);const lowerHalf=sorted.slice(0,Math.floor(n/2));const upperHalf=sorted.slice(Math.ceil(n/2));const q1=median(lowerHalf);const q3=median(upperHalf);return{q1,median:med,q3}}function computeBoxStats(values,whiskerType){const sorted=[...values].sort((a,b)=>a-b);const n=sorted.length;const min=sorted[0];const max=sorted[n-1];const{q1,median:median2,q3}=quartiles(sorted);const iqr=q3-q1;const mean=values.reduce((s,v)=>s+v,0)/n;let whiskerLow;let whiskerHigh;let outliers;if(whiskerType===\"minmax\"){whiskerLow=min;whiskerHigh=max;outliers=[]}else{const lowerFence=q1-1.5*iqr;const upperFence=q3+1.5*iqr;whiskerLow=sorted.find(v=>v>=lowerFence)??min;whiskerHigh=[...sorted].reverse().find(v=>v<=upperFence)??max;outliers=sorted.filter(v=>v<lowerFence||v>upperFence)}return{min,q1,median:median2,q3,max,iqr,whiskerLow,whiskerHigh,mean,outliers,values:sorted}}function renderBoxPlot(container,spec){const{config,encoding,data}=spec;const valueField=config.valueField||encoding.y?.field||Object.keys(data[0]).find(k=>typeof data[0][k]===\"number\")||Object.keys(data[0])[1];const categoryField=config.categoryField||encoding.x?.field||Object.keys(data[0])[0];const whiskerType=config.whiskerType||\"iqr\";const showOutliers=config.showOutliers??true;const showMean=config.showMean??false;const horizontal=config.orientation===\"horizontal\";let groups=[...new Set(data.map(d=>d[categoryField]))];const groupStatsMap=new Map;for(const group of groups){const vals=data.filter(d=>d[categoryField]===group).map(d=>Number(d[valueField])).filter(v=>!isNaN(v));if(vals.length>=1){groupStatsMap.set(String(group),computeBoxStats(vals,whiskerType))}}if(config.sortBy===\"value\"){const order=config.sortOrder===\"ascending\"?1:-1;groups.sort((a,b)=>order*((groupStatsMap.get(String(a))?.median??0)-(groupStatsMap.get(String(b))?.median??0)))}else if(config.sortBy===\"category\"){const order=config.sortOrder===\"ascending\"?1:-1;groups.sort((a,b)=>order*String(a).localeCompare(String(b),void 0,{sensitivity:\"base\",numeric:true}))}const allValues=data.map(d=>Number(d[valueField])).filter(v=>!isNaN(v));const labels=groups.map(String);let margins;if(horizontal){const maxLabelLen=Math.max(...labels.map(l=>l.length));const leftMargin=Math.min(Math.max(maxLabelLen*7,70),180);margins={left:leftMargin,bottom:40}}else{const containerWidth=container.clientWidth||800;const estimatedBandWidth=(containerWidth-140)/labels.length;const needsRotation=shouldRotateLabels(labels,estimatedBandWidth);margins={bottom:calculateBottomMargin(labels,needsRotation),left:70}}const{svg,g,dims}=createSvg(container,spec,margins);const tooltip=createTooltip(container);if(allValues.every(v=>v===0)){renderEmptyState(g,dims);return}const valuePadding=(d3.max(allValues)-d3.min(allValues))*.08||1;const bandScale=d3.scaleBand().domain(groups).range(horizontal?[0,dims.innerHeight]:[0,dims.innerWidth]).padding(.25);const valueScale=d3.scaleLinear().domain([d3.min(allValues)-valuePadding,d3.max(allValues)+valuePadding]).range(horizontal?[0,dims.innerWidth]:[dims.innerHeight,0]).nice();if(horizontal){const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(bandScale).tickSize(0).tickPadding(8).tickFormat(d=>truncateLabel(d,25)));styleAxis(yAxis);const xTickCount=getAdaptiveTickCount(dims.innerWidth,60);const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(valueScale).ticks(xTickCount).tickSize(-dims.innerHeight).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(xAxis)}else{const containerWidth=container.clientWidth||800;const estimatedBandWidth=(containerWidth-140)/labels.length;const needsRotation=shouldRotateLabels(labels,estimatedBandWidth);const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(bandScale).tickSize(0).tickPadding(8).tickFormat(d=>truncateLabel(d,25)));styleAxis(xAxis);if(needsRotation){g.selectAll(\".x-axis .tick text\").attr(\"transform\",\"rotate(-35)\").attr(\"text-anchor\",\"end\").attr(\"dx\",\"-0.5em\").attr(\"dy\",\"0.15em\")}const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(valueScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(yAxis)}const colorScale=buildColorScale(encoding.color,data);const bandWidth=bandScale.bandwidth();const boxWidth=Math.min(bandWidth*.4,45);const groupDataArr=groups.map(group=>({group,stats:groupStatsMap.get(String(group))}));g.selectAll(\".box-hover-target\").data(groupDataArr).join(\"rect\").attr(\"class\",\"box-hover-target\").attr(\"x\",d=>horizontal?0:bandScale(d.group)).attr(\"y\",d=>horizontal?bandScale(d.group):0).attr(\"width\",horizontal?dims.innerWidth:bandWidth).attr(\"height\",horizontal?bandWidth:dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"pointer\").on(\"mouseover\",function(event,d){const idx=groups.indexOf(d.group);g.selectAll(`.box-group-${idx}`).attr(\"opacity\",1);if(!d.stats)return;const s=d.stats;let html=tooltipHtml`<strong>${d.group}</strong><br/>`+tooltipHtml`n = ${s.values.length}<br/>`+tooltipHtml`Median: ${formatValue(s.median)}<br/>`+tooltipHtml`Q1: ${formatValue(s.q1)}<br/>`+tooltipHtml`Q3: ${formatValue(s.q3)}<br/>`+tooltipHtml`IQR: ${formatValue(s.iqr)}`;if(showMean)html+=tooltipHtml`<br/>Mean: ${formatValue(s.mean)}`;if(showOutliers&&s.outliers.length>0){html+=tooltipHtml`<br/>Outliers: ${s.outliers.length}`}showTooltip(tooltip,html,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(_event,d){const idx=groups.indexOf(d.group);g.selectAll(`.box-group-${idx}`).attr(\"opacity\",.85);hideTooltip(tooltip)});groups.forEach((group,gi)=>{const stats=groupStatsMap.get(String(group));if(!stats)return;const bandCenter=bandScale(group)+bandWidth/2;const colorValue=encoding.color?.field?data.find(d=>d[categoryField]===group)?.[encoding.color.field]:group;const fillColor=colorScale(colorValue);const groupG=g.append(\"g\").attr(\"class\",`box-group-${gi}`).attr(\"opacity\",.85);if(horizontal){groupG.append(\"line\").attr(\"x1\",valueScale(stats.whiskerLow)).attr(\"x2\",valueScale(stats.whiskerHigh)).attr(\"y1\",bandCenter).attr(\"y2\",bandCenter).attr(\"stroke\",\"#6b7280\").attr(\"stroke-width\",1.5).attr(\"pointer-events\",\"none\");const capWidth=boxWidth*.5;[stats.whiskerLow,stats.whiskerHigh].forEach(val=>{groupG.append(\"line\").attr(\"x1\",valueScale(val)).attr(\"x2\",valueScale(val)).attr(\"y1\",bandCenter-capWidth/2).attr(\"y2\",bandCenter+capWidth/2).attr(\"stroke\",\"#6b7280\").attr(\"stroke-width\",1.5).attr(\"pointer-events\",\"none\")});const boxLeft=valueScale(stats.q1);const boxRight=valueScale(stats.q3);groupG.append(\"rect\").attr(\"x\",boxLeft).attr(\"y\",bandCenter-boxWidth/2).attr(\"width\",Math.max(1,boxRight-boxLeft)).attr(\"height\",boxWidth).attr(\"fill\",fillColor).attr(\"stroke\",\"none\").attr(\"rx\",3).attr(\"pointer-events\",\"none\");groupG.append(\"line\").attr(\"x1\",valueScale(stats.median)).attr(\"x2\",valueScale(stats.median)).attr(\"y1\",bandCenter-boxWidth/2).attr(\"y2\",bandCenter+boxWidth/2).attr(\"stroke\",\"#c8cdd5\").attr(\"stroke-width\",2).attr(\"stroke-linecap\",\"round\").attr(\"pointer-events\",\"none\");if(showMean){const mx=valueScale(stats.mean);const size=4;groupG.append(\"path\").attr(\"d\",`M${mx},${bandCenter-size} L${mx+size},${bandCenter} L${mx},${bandCenter+size} L${mx-size},${bandCenter} Z`).attr(\"fill\",\"#c8cdd5\").attr(\"stroke\",fillColor).attr(\"stroke-width\",1).attr(\"pointer-events\",\"none\")}if(showOutliers&&stats.outliers.length>0){groupG.selectAll(\".outlier\").data(stats.outliers).join(\"circle\").attr(\"class\",\"outlier\").attr(\"cx\",d=>valueScale(d)).attr(\"cy\",bandCenter).attr(\"r\",3).attr(\"fill\",\"none\").attr(\"stroke\",fillColor).attr(\"stroke-width\",1.5).attr(\"pointer-events\",\"none\")}}else{groupG.append(\"line\").attr(\"x1\",bandCenter).attr(\"x2\",bandCenter).attr(\"y1\",valueScale(stats.whiskerHigh)).attr(\"y2\",valueScale(stats.whiskerLow)).attr(\"stroke\",\"#6b7280\").attr(\"stroke-width\",1.5).attr(\"pointer-events\",\"none\");const capWidth=boxWidth*.5;[stats.whiskerLow,stats.whiskerHigh].forEach(val=>{groupG.append(\"line\").attr(\"x1\",bandCenter-capWidth/2).attr(\"x2\",bandCenter+capWidth/2).attr(\"y1\",valueScale(val)).attr(\"y2\",valueScale(val)).attr(\"stroke\",\"#6b7280\").attr(\"stroke-width\",1.5).attr(\"pointer-events\",\"none\")});groupG.append(\"rect\").attr(\"x\",bandCenter-boxWidth/2).attr(\"y\",valueScale(stats.q3)).attr(\"width\",boxWidth).attr(\"height\",Math.max(1,valueScale(stats.q1)-valueScale(stats.q3))).attr(\"fill\",fillColor).attr(\"stroke\",\"none\").attr(\"rx\",3).attr(\"pointer-events\",\"none\");groupG.append(\"line\").attr(\"x1\",bandCenter-boxWidth/2).attr(\"x2\",bandCenter+boxWidth/2).attr(\"y1\",valueScale(stats.median)).attr(\"y2\",valueScale(stats.median)).attr(\"stroke\",\"#c8cdd5\").attr(\"stroke-width\",2).attr(\"stroke-linecap\",\"round\").attr(\"pointer-events\",\"none\");if(showMean){const my=valueScale(stats.mean);const size=4;groupG.append(\"path\").attr(\"d\",`M${bandCenter},${my-size} L${bandCenter+size},${my} L${bandCenter},${my+size} L${bandCenter-size},${my} Z`).attr(\"fill\",\"#c8cdd5\").attr(\"stroke\",fillColor).attr(\"stroke-width\",1).attr(\"pointer-events\",\"none\")}if(showOutliers&&stats.outliers.length>0){groupG.selectAll(\".outlier\").data(stats.outliers).join(\"circle\").attr(\"class\",\"outlier\").attr(\"cx\",bandCenter).attr(\"cy\",d=>valueScale(d)).attr(\"r\",3).attr(\"fill\",\"none\").attr(\"stroke\",fillColor).attr(\"stroke-width\",1.5).attr(\"pointer-events\",\"none\")}}});addSortControls(svg,container,spec,dims,renderBoxPlot)}return __toCommonJS(box_plot_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
@@ -22,7 +22,7 @@ export const heatmapBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Obj
 export const histogramBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var histogram_render_exports={};__export(histogram_render_exports,{renderChart:()=>renderHistogram});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function tooltipHtml(strings,...values){let result=strings[0];for(let i=0;i<values.length;i++){result+=escapeHtml(values[i])+strings[i+1]}return result}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function shouldShowValueLabels(config,barDimension,isHorizontal){if(config.showLabels!==void 0)return config.showLabels;return isHorizontal?barDimension>=20:barDimension>=35}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function getSequentialPalette(name){const palettes={blue:[...sequential.blue],green:[...sequential.green],purple:[...sequential.purple],warm:[...sequential.warm]};return palettes[name]||null}function buildBinColorFn(colorEncoding,xDomain){if(!colorEncoding){return()=>categorical[0]}if(colorEncoding.highlight){const targetValues=colorEncoding.highlight.values.map(Number);const highlightColors=Array.isArray(colorEncoding.highlight.color)?colorEncoding.highlight.color:colorEncoding.highlight.color?[colorEncoding.highlight.color]:[categorical[0]];const mutedColor=colorEncoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=colorEncoding.highlight.mutedOpacity??1;const mutedFill=mutedOpacity<1?(()=>{const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`})():mutedColor;return(x0,x1)=>{for(let i=0;i<targetValues.length;i++){const v=targetValues[i];if(v>=x0&&v<x1){return highlightColors[i%highlightColors.length]}}return mutedFill}}if(colorEncoding.palette){const palette=getSequentialPalette(colorEncoding.palette);if(palette){const scale=d3.scaleLinear().domain([xDomain[0],xDomain[1]]).range([palette[0],palette[palette.length-1]]).interpolate(d3.interpolateRgb).clamp(true);return(x0,x1)=>scale((x0+x1)/2)}}return()=>categorical[0]}function renderHistogram(container,spec){const{config,encoding,data}=spec;const xField=encoding.x?.field||\"binMid\";const hasBins=data[0]?.binStart!==void 0;if(hasBins){renderPreBinnedHistogram(container,spec)}else{renderRawHistogram(container,spec,xField)}}function renderPreBinnedHistogram(container,spec){const{data,encoding,config}=spec;const{svg,g,dims}=createSvg(container,spec,{right:30});const tooltip=createTooltip(container);const xMin=d3.min(data,d=>d.binStart);const xMax=d3.max(data,d=>d.binEnd);const xScale=d3.scaleLinear().domain([xMin,xMax]).range([0,dims.innerWidth]);const yScale=d3.scaleLinear().domain([0,d3.max(data,d=>d.count)]).range([dims.innerHeight,0]).nice();const binColor=buildBinColorFn(encoding.color,[xMin,xMax]);const xTickCount=getAdaptiveTickCount(dims.innerWidth);const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(xScale).ticks(xTickCount).tickSize(-dims.innerHeight).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(xAxis);const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(yAxis);const binWidth=xScale(data[0].binEnd)-xScale(data[0].binStart);g.selectAll(\".bar-hover-target\").data(data).join(\"rect\").attr(\"class\",\"bar-hover-target\").attr(\"x\",d=>xScale(d.binStart)).attr(\"y\",0).attr(\"width\",binWidth).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"pointer\").on(\"mouseover\",function(event,d){g.selectAll(\".bar\").filter(bd=>bd.binStart===d.binStart).attr(\"opacity\",.8);showTooltip(tooltip,tooltipHtml`<strong>${d.binLabel||formatValue(d.binStart)+\" \\u2013 \"+formatValue(d.binEnd)}</strong><br/>Count: ${formatValue(d.count)}`,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){g.selectAll(\".bar\").attr(\"opacity\",1);hideTooltip(tooltip)});g.selectAll(\".bar\").data(data).join(\"rect\").attr(\"class\",\"bar\").attr(\"x\",d=>xScale(d.binStart)+1).attr(\"y\",d=>yScale(d.count)).attr(\"width\",Math.max(binWidth-2,1)).attr(\"height\",d=>dims.innerHeight-yScale(d.count)).attr(\"fill\",d=>binColor(d.binStart,d.binEnd)).attr(\"rx\",1).attr(\"pointer-events\",\"none\");const showLabels=shouldShowValueLabels(config,binWidth,false);if(showLabels){g.selectAll(\".bar-label\").data(data).join(\"text\").attr(\"class\",\"bar-label\").attr(\"x\",d=>xScale(d.binStart)+binWidth/2).attr(\"y\",d=>{const barHeight=dims.innerHeight-yScale(d.count);const yPos=yScale(d.count);return barHeight<20?yPos-6:yPos+14}).attr(\"text-anchor\",\"middle\").attr(\"fill\",d=>{const barHeight=dims.innerHeight-yScale(d.count);return barHeight<20?TEXT_MUTED:\"#ffffff\"}).attr(\"font-size\",\"10px\").attr(\"font-weight\",\"500\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"pointer-events\",\"none\").text(d=>formatValue(d.count))}drawStatLines(g,xScale,dims.innerHeight,config)}function renderRawHistogram(container,spec,xField){const{data,encoding,config}=spec;const values=data.map(d=>Number(d[xField])).filter(v=>!isNaN(v));const binCount=config.binCount||Math.ceil(Math.log2(values.length)+1);const{svg,g,dims}=createSvg(container,spec,{right:30});const tooltip=createTooltip(container);if(values.every(v=>v===0)){renderEmptyState(g,dims);return}const xExtent=d3.extent(values);if(xExtent[0]===xExtent[1]){const constVal=xExtent[0];const barWidth=dims.innerWidth*.2;const barX=(dims.innerWidth-barWidth)/2;const yScale2=d3.scaleLinear().domain([0,values.length]).range([dims.innerHeight,0]).nice();const yTickCount2=getAdaptiveTickCount(dims.innerHeight,40);const yAxis2=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale2).ticks(yTickCount2).tickSize(-dims.innerWidth).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(yAxis2);const xAxis2=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(d3.scaleLinear().domain([constVal-1,constVal+1]).range([0,dims.innerWidth])).ticks(3).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(xAxis2);g.append(\"rect\").attr(\"x\",barX).attr(\"y\",yScale2(values.length)).attr(\"width\",barWidth).attr(\"height\",dims.innerHeight-yScale2(values.length)).attr(\"fill\",categorical[0]).attr(\"rx\",2);g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",yScale2(values.length)-10).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(`All ${values.length} values = ${formatValue(constVal)}`);drawStatLines(g,d3.scaleLinear().domain([constVal-1,constVal+1]).range([0,dims.innerWidth]),dims.innerHeight,{...config,mean:constVal,median:constVal});return}const uniqueValues=[...new Set(values)];const effectiveBinCount=uniqueValues.length<5?uniqueValues.length:binCount;const xScale=d3.scaleLinear().domain(xExtent).range([0,dims.innerWidth]).nice();const histogram=d3.bin().domain(xScale.domain()).thresholds(effectiveBinCount);const bins=histogram(values);const yScale=d3.scaleLinear().domain([0,d3.max(bins,b=>b.length)]).range([dims.innerHeight,0]).nice();const xDom=xScale.domain();const binColor=buildBinColorFn(encoding.color,xDom);const xTickCount=getAdaptiveTickCount(dims.innerWidth);const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(xScale).ticks(xTickCount).tickSize(-dims.innerHeight).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(xAxis);const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(yAxis);g.selectAll(\".bar-hover-target\").data(bins).join(\"rect\").attr(\"class\",\"bar-hover-target\").attr(\"x\",d=>xScale(d.x0)).attr(\"y\",0).attr(\"width\",d=>Math.max(xScale(d.x1)-xScale(d.x0),1)).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"pointer\").on(\"mouseover\",function(event,d){g.selectAll(\".bar\").filter(bd=>bd.x0===d.x0).attr(\"opacity\",.8);showTooltip(tooltip,tooltipHtml`<strong>${formatValue(d.x0)} – ${formatValue(d.x1)}</strong><br/>Count: ${formatValue(d.length)}`,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){g.selectAll(\".bar\").attr(\"opacity\",1);hideTooltip(tooltip)});g.selectAll(\".bar\").data(bins).join(\"rect\").attr(\"class\",\"bar\").attr(\"x\",d=>xScale(d.x0)+1).attr(\"y\",d=>yScale(d.length)).attr(\"width\",d=>Math.max(xScale(d.x1)-xScale(d.x0)-2,1)).attr(\"height\",d=>dims.innerHeight-yScale(d.length)).attr(\"fill\",d=>binColor(d.x0,d.x1)).attr(\"rx\",1).attr(\"pointer-events\",\"none\");const avgBinWidth=bins.length>0?Math.max(...bins.map(b=>xScale(b.x1)-xScale(b.x0))):0;const showLabels=shouldShowValueLabels(config,avgBinWidth,false);if(showLabels){g.selectAll(\".bar-label\").data(bins).join(\"text\").attr(\"class\",\"bar-label\").attr(\"x\",d=>(xScale(d.x0)+xScale(d.x1))/2).attr(\"y\",d=>{const barHeight=dims.innerHeight-yScale(d.length);const yPos=yScale(d.length);return barHeight<20?yPos-6:yPos+14}).attr(\"text-anchor\",\"middle\").attr(\"fill\",d=>{const barHeight=dims.innerHeight-yScale(d.length);return barHeight<20?TEXT_MUTED:\"#ffffff\"}).attr(\"font-size\",\"10px\").attr(\"font-weight\",\"500\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"pointer-events\",\"none\").text(d=>d.length>0?formatValue(d.length):\"\")}const mean=config.mean??values.reduce((a,b)=>a+b,0)/values.length;const sorted=[...values].sort((a,b)=>a-b);const median=config.median??sorted[Math.floor(sorted.length/2)];drawStatLines(g,xScale,dims.innerHeight,{...config,mean,median})}function drawStatLines(g,xScale,innerHeight,config){if(config.showMean&&config.mean!=null){drawStatLine(g,xScale(config.mean),innerHeight,\"#f59e0b\",\"6,3\",`Mean: ${formatValue(config.mean)}`,14)}if(config.showMedian&&config.median!=null){drawStatLine(g,xScale(config.median),innerHeight,\"#10b981\",\"3,3\",`Median: ${formatValue(config.median)}`,30)}}function drawStatLine(g,x,height,color,dashArray,label,labelY){g.append(\"line\").attr(\"x1\",x).attr(\"y1\",0).attr(\"x2\",x).attr(\"y2\",height).attr(\"stroke\",color).attr(\"stroke-width\",2).attr(\"stroke-dasharray\",dashArray).attr(\"pointer-events\",\"none\");g.append(\"text\").attr(\"x\",x+6).attr(\"y\",labelY).attr(\"fill\",color).attr(\"font-size\",\"11px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"pointer-events\",\"none\").text(label)}return __toCommonJS(histogram_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
 export const horizonChartBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var horizon_chart_render_exports={};__export(horizon_chart_render_exports,{renderChart:()=>renderHorizonChart});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function parseDate(v){if(v instanceof Date)return isNaN(v.getTime())?null:v;if(v===null||v===void 0||v===\"\")return null;const num=typeof v===\"number\"?v:Number(v);if(!isNaN(num)&&num>1800&&num<2200&&Math.floor(num)===num){return new Date(num,0,1)}const d=new Date(v);return isNaN(d.getTime())?null:d}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function truncateLabel(label,maxLength=25){const str=String(label);if(str.length<=maxLength)return str;return str.slice(0,maxLength-1)+\"\\u2026\"}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function findNearestDateIndex(sortedDates,targetTime){const bisect=d3.bisector(d=>d).left;let idx=bisect(sortedDates,targetTime);if(idx>0&&idx<sortedDates.length){const d0=sortedDates[idx-1];const d1=sortedDates[idx];idx=targetTime-d0>d1-targetTime?idx:idx-1}else if(idx>=sortedDates.length){idx=sortedDates.length-1}return idx}var POSITIVE_RAMP=[sequential.blue[2],sequential.blue[4],sequential.blue[6],sequential.blue[8]];var NEGATIVE_RAMP=[diverging.blueRed[5],diverging.blueRed[6],diverging.blueRed[7],diverging.blueRed[8]];function renderHorizonChart(container,spec){const{config,encoding,data}=spec;const timeField=config.timeField||encoding.x?.field;const valueField=config.valueField||encoding.y?.field;if(!timeField||!valueField||!data||data.length===0){container.innerHTML=`<div style=\"display:flex;align-items:center;justify-content:center;height:100%;color:${TEXT_MUTED};font-size:14px;font-family:Inter,system-ui,sans-serif;background:${DARK_BG};border-radius:8px;\">Horizon chart requires time and value fields</div>`;return}const seriesField=config.seriesField||encoding.color?.field||null;const numBands=Math.max(2,Math.min(4,config.bands??3));const mode=config.mode??\"mirror\";const rowGap=2;const parsedData=data.map(d=>({...d,_date:parseDate(d[timeField]),_value:Number(d[valueField])})).filter(d=>d._date!==null&&!isNaN(d._value));const seriesNames=seriesField?[...new Set(parsedData.map(d=>d[seriesField]))].sort():[\"all\"];const isSingleSeries=!seriesField||seriesNames.length<=1;const labelWidth=isSingleSeries?16:calculateLabelWidth(seriesNames);const topMargin=spec.title?36:12;const bottomMargin=30;const rightMargin=30;const W=container.clientWidth||800;const H=container.clientHeight||400;const chartW=W-labelWidth-rightMargin;const availH=H-topMargin-bottomMargin;const rowH=Math.max(10,(availH-(seriesNames.length-1)*rowGap)/seriesNames.length);container.style.background=DARK_BG;container.style.borderRadius=\"8px\";container.style.overflow=\"hidden\";const svg=d3.select(container).append(\"svg\").attr(\"width\",W).attr(\"height\",H).style(\"background\",DARK_BG).style(\"border-radius\",\"8px\");if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",W/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,W-20)}const allDates=parsedData.map(d=>d._date);const xExtent=d3.extent(allDates);const xScale=d3.scaleTime().domain(xExtent).range([0,chartW]);const tooltip=createTooltip(container);if(parsedData.every(d=>d._value===0)){svg.append(\"text\").attr(\"x\",W/2).attr(\"y\",H/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"central\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(\"All values are zero\");return}const uid=Math.random().toString(36).slice(2,8);const posColors=pickBandColors(numBands,POSITIVE_RAMP);const negColors=pickBandColors(numBands,NEGATIVE_RAMP);const seriesDataMap=new Map;seriesNames.forEach(name=>{const sd=isSingleSeries?[...parsedData].sort((a,b)=>a._date.getTime()-b._date.getTime()):parsedData.filter(d=>d[seriesField]===name).sort((a,b)=>a._date.getTime()-b._date.getTime());seriesDataMap.set(name,sd)});const uniqueTimeValues=new Set(parsedData.map(d=>d._date.getTime()));const isSingleTimePoint=uniqueTimeValues.size<=1;const smartLabels=smartTruncateLabels(seriesNames.map(String),16);seriesNames.forEach((seriesName,idx)=>{const yOff=topMargin+idx*(rowH+rowGap);const sd=seriesDataMap.get(seriesName);if(sd.length===0)return;const values=sd.map(d=>d._value);const maxAbs=d3.max(values,v=>Math.abs(v));if(maxAbs===0)return;const rowG=svg.append(\"g\").attr(\"transform\",`translate(${labelWidth}, ${yOff})`);rowG.append(\"rect\").attr(\"width\",chartW).attr(\"height\",rowH).attr(\"fill\",\"#0d1017\");if(isSingleTimePoint){const val=sd[0]._value;const color=val>=0?posColors[posColors.length-1]:negColors[negColors.length-1];const barWidth=Math.min(chartW*.4,60);rowG.append(\"rect\").attr(\"x\",chartW/2-barWidth/2).attr(\"y\",rowH*.15).attr(\"width\",barWidth).attr(\"height\",rowH*.7).attr(\"fill\",color).attr(\"rx\",3).style(\"pointer-events\",\"none\");rowG.append(\"text\").attr(\"x\",chartW/2).attr(\"y\",rowH/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"central\").attr(\"fill\",\"#ffffff\").attr(\"font-size\",\"10px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").style(\"pointer-events\",\"none\").text(formatValue(val))}else{const bandSize=maxAbs/numBands;const clipId=`hz-clip-${uid}-${idx}`;rowG.append(\"defs\").append(\"clipPath\").attr(\"id\",clipId).append(\"rect\").attr(\"width\",chartW).attr(\"height\",rowH);const bandG=rowG.append(\"g\").attr(\"clip-path\",`url(#${clipId})`);const yBand=d3.scaleLinear().domain([0,bandSize]).range([rowH,0]);for(let b=0;b<numBands;b++){const bMin=b*bandSize;const posArea=d3.area().x(d=>xScale(d._date)).y0(rowH).y1(d=>{const v=d._value;if(v<=bMin)return rowH;return yBand(Math.min(v-bMin,bandSize))}).curve(d3.curveMonotoneX);bandG.append(\"path\").datum(sd).attr(\"fill\",posColors[b]).attr(\"d\",posArea).style(\"pointer-events\",\"none\");if(mode===\"mirror\"){const negArea=d3.area().x(d=>xScale(d._date)).y0(rowH).y1(d=>{const v=-d._value;if(v<=bMin)return rowH;return yBand(Math.min(v-bMin,bandSize))}).curve(d3.curveMonotoneX);bandG.append(\"path\").datum(sd).attr(\"fill\",negColors[b]).attr(\"d\",negArea).style(\"pointer-events\",\"none\")}else{const offArea=d3.area().x(d=>xScale(d._date)).y0(rowH).y1(d=>{const v=d._value+maxAbs;if(v<=bMin)return rowH;return yBand(Math.min(v-bMin,bandSize))}).curve(d3.curveMonotoneX);bandG.append(\"path\").datum(sd).attr(\"fill\",posColors[b]).attr(\"d\",offArea).style(\"pointer-events\",\"none\")}}}if(!isSingleSeries){svg.append(\"text\").attr(\"x\",labelWidth-8).attr(\"y\",yOff+rowH/2).attr(\"text-anchor\",\"end\").attr(\"dominant-baseline\",\"central\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(smartLabels[idx])}});const xAxisY=topMargin+seriesNames.length*(rowH+rowGap);const axisG=svg.append(\"g\").attr(\"transform\",`translate(${labelWidth}, ${xAxisY})`);const tickCount=getAdaptiveTickCount(chartW);const xAxis=axisG.append(\"g\").attr(\"class\",\"x-axis\").call(d3.axisBottom(xScale).ticks(tickCount).tickSize(0).tickPadding(8));styleAxis(xAxis);addCrosshairInteraction(svg,seriesNames,seriesDataMap,xScale,labelWidth,topMargin,rowH,rowGap,chartW,timeField,valueField,seriesField,tooltip,isSingleSeries)}function calculateLabelWidth(seriesNames){const maxLen=Math.max(...seriesNames.map(s=>String(s).length));const estimated=Math.min(maxLen,16)*7+16;return Math.max(60,Math.min(160,estimated))}function pickBandColors(numBands,ramp){if(numBands<=ramp.length){return ramp.slice(ramp.length-numBands)}const out=[];for(let i=0;i<numBands;i++){out.push(ramp[Math.round(i*(ramp.length-1)/(numBands-1))])}return out}function addCrosshairInteraction(svg,seriesNames,seriesDataMap,xScale,labelWidth,topMargin,rowHeight,rowGap,chartW,timeField,valueField,seriesField,tooltip,isSingleSeries){const totalRowsH=seriesNames.length*(rowHeight+rowGap);const crosshair=svg.append(\"line\").attr(\"y1\",topMargin).attr(\"y2\",topMargin+totalRowsH).attr(\"stroke\",TEXT_MUTED).attr(\"stroke-width\",1).attr(\"stroke-dasharray\",\"4,3\").attr(\"pointer-events\",\"none\").attr(\"opacity\",0);const allDates=[];const dateSet=new Set;seriesDataMap.forEach(sd=>{sd.forEach(d=>{const t=d._date.getTime();if(!dateSet.has(t)){dateSet.add(t);allDates.push(t)}})});allDates.sort((a,b)=>a-b);svg.append(\"rect\").attr(\"x\",labelWidth).attr(\"y\",topMargin).attr(\"width\",chartW).attr(\"height\",totalRowsH).attr(\"fill\",\"transparent\").attr(\"cursor\",\"crosshair\").on(\"mousemove\",function(event){const[mx]=d3.pointer(event,this);const xDate=xScale.invert(mx).getTime();const idx=findNearestDateIndex(allDates,xDate);const nearestTime=allDates[idx];const nearestX=xScale(new Date(nearestTime))+labelWidth;crosshair.attr(\"x1\",nearestX).attr(\"x2\",nearestX).attr(\"opacity\",1);const dateStr=new Date(nearestTime).toLocaleDateString();let html=`<strong>${escapeHtml(dateStr)}</strong>`;const entries=[];seriesNames.forEach(name=>{const sd=seriesDataMap.get(name);let closest=null;let minDiff=Infinity;for(const d of sd){const diff=Math.abs(d._date.getTime()-nearestTime);if(diff<minDiff){minDiff=diff;closest=d}}if(closest){entries.push({name,value:closest._value})}});entries.sort((a,b)=>Math.abs(b.value)-Math.abs(a.value));const maxShow=isSingleSeries?1:8;entries.slice(0,maxShow).forEach(entry=>{const color=entry.value>=0?\"#6baed6\":\"#fb6a4a\";if(isSingleSeries){html+=`<br/>${escapeHtml(valueField)}: ${escapeHtml(formatValue(entry.value))}`}else{html+=`<br/><span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${color};margin-right:5px;vertical-align:middle;\"></span>${escapeHtml(truncateLabel(entry.name,20))}: ${escapeHtml(formatValue(entry.value))}`}});if(entries.length>maxShow){html+=`<br/><span style=\"color:${escapeHtml(TEXT_MUTED)};font-size:11px;\">+${escapeHtml(String(entries.length-maxShow))} more</span>`}showTooltip(tooltip,html,event)}).on(\"mouseout\",function(){crosshair.attr(\"opacity\",0);hideTooltip(tooltip)})}return __toCommonJS(horizon_chart_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
 export const icicleBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var icicle_render_exports={};__export(icicle_render_exports,{renderChart:()=>renderIcicle});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function tooltipHtml(strings,...values){let result=strings[0];for(let i=0;i<values.length;i++){result+=escapeHtml(values[i])+strings[i+1]}return result}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function contrastText(bgColor){const rgb=parseColor(bgColor);if(!rgb)return\"#ffffff\";const luminance=relativeLuminance(rgb[0],rgb[1],rgb[2]);return luminance>.18?\"#1a1a2e\":\"#ffffff\"}function parseColor(color){const hexMatch=color.match(/^#([0-9a-f]{3,8})$/i);if(hexMatch){let hex=hexMatch[1];if(hex.length===3)hex=hex[0]+hex[0]+hex[1]+hex[1]+hex[2]+hex[2];return[parseInt(hex.substring(0,2),16),parseInt(hex.substring(2,4),16),parseInt(hex.substring(4,6),16)]}const rgbMatch=color.match(/rgba?\\(\\s*(\\d+)\\s*,\\s*(\\d+)\\s*,\\s*(\\d+)/);if(rgbMatch){return[Number(rgbMatch[1]),Number(rgbMatch[2]),Number(rgbMatch[3])]}return null}function relativeLuminance(r,g,b){const[rs,gs,bs]=[r/255,g/255,b/255].map(c=>c<=.03928?c/12.92:Math.pow((c+.055)/1.055,2.4));return .2126*rs+.7152*gs+.0722*bs}function truncateLabel(label,maxLength=25){const str=String(label);if(str.length<=maxLength)return str;return str.slice(0,maxLength-1)+\"\\u2026\"}function isAllZeros(data,field){return data.every(d=>Number(d[field])===0)}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function createLegend(source,options){const shape=options?.shape??\"square\";const callbacks=options?.callbacks;let entries;if(Array.isArray(source)&&source.length>0&&source[0]?.label!==void 0){entries=source}else{const domain=source.domain?.()??[];entries=domain.map(label=>({label:String(label),color:source(label)}))}if(!entries.length){return document.createElement(\"div\")}const maxItems=options?.maxItems??12;let overflowCount=0;if(entries.length>maxItems){overflowCount=entries.length-(maxItems-1);entries=entries.slice(0,maxItems-1)}const maxLabelLen=20;const displayLabels=smartTruncateLabels(entries.map(e=>e.label),maxLabelLen);const legend=document.createElement(\"div\");legend.style.cssText=`\n    display: flex; flex-wrap: wrap; justify-content: center; gap: 4px 14px;\n    padding: 6px 12px 8px; font-family: Inter, system-ui, sans-serif;\n    font-size: 11px; line-height: 1;\n  `;entries.forEach((entry,idx)=>{const item=document.createElement(\"div\");item.style.cssText=callbacks?\"display: inline-flex; align-items: center; gap: 5px; white-space: nowrap; cursor: pointer; transition: opacity 0.15s;\":\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";item.setAttribute(\"data-series\",entry.label);const swatch=document.createElement(\"span\");if(shape===\"circle\"){swatch.style.cssText=`\n        width: 8px; height: 8px; border-radius: 50%;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line\"){swatch.style.cssText=`\n        width: 16px; height: 3px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line-dot\"){swatch.style.cssText=`\n        width: 16px; height: 2px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; position: relative;\n        transition: transform 0.15s;\n      `;const dot=document.createElement(\"span\");dot.style.cssText=`\n        position: absolute; top: 50%; left: 50%;\n        transform: translate(-50%, -50%);\n        width: 6px; height: 6px; border-radius: 50%;\n        background: ${entry.color}; border: 1px solid ${DARK_BG};\n      `;swatch.appendChild(dot)}else{swatch.style.cssText=`\n        width: 10px; height: 10px; border-radius: 2px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}const text=document.createElement(\"span\");text.style.color=TEXT_MUTED;text.textContent=displayLabels[idx];if(entry.label.length>maxLabelLen)text.title=entry.label;item.appendChild(swatch);item.appendChild(text);if(entry.extra){const extra=document.createElement(\"span\");extra.style.color=TEXT_MUTED;extra.style.opacity=\"0.7\";extra.textContent=entry.extra;item.appendChild(extra)}if(callbacks){item.addEventListener(\"mouseenter\",()=>{swatch.style.transform=shape===\"line\"||shape===\"line-dot\"?\"scaleY(2)\":\"scale(1.4)\";callbacks.onHover?.(entry.label)});item.addEventListener(\"mouseleave\",()=>{swatch.style.transform=\"\";callbacks.onLeave?.()})}legend.appendChild(item)});if(overflowCount>0){const more=document.createElement(\"div\");more.style.cssText=\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";const moreText=document.createElement(\"span\");moreText.style.cssText=`color: ${TEXT_MUTED}; opacity: 0.6; font-style: italic;`;moreText.textContent=`+${overflowCount} more`;more.appendChild(moreText);legend.appendChild(more)}return legend}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function createMinVisibleClamp(data,valueField,threshold=.02){const allVals=data.map(d=>Number(d[valueField])||0).filter(v=>v>0);const maxVal=allVals.length>0?Math.max(...allVals):0;const minVisible=maxVal*threshold;return v=>v>0&&v<minVisible?minVisible:v}function buildHierarchy(opts){const{data,valueField,categoryField,parentField,childField,levelFields,sort=true}=opts;if(!valueField||data.length===0){return d3.hierarchy({name:\"root\",children:[]}).sum(d=>d.value||0)}const clampVal=createMinVisibleClamp(data,valueField);let hierarchy;if(levelFields&&levelFields.length>0){if(levelFields.length===1){const field=levelFields[0];hierarchy={name:\"root\",children:data.map(d=>({name:String(d[field]??\"Unknown\"),value:clampVal(Math.max(0,Number(d[valueField])||0)),_data:d}))}}else{hierarchy={name:\"root\",children:buildNestedLevel(data,levelFields,valueField,0,clampVal)}}}else if(parentField){const parents=[...new Set(data.map(d=>d[parentField]))];hierarchy={name:\"root\",children:parents.map(p=>{const items=data.filter(d=>d[parentField]===p);return{name:p,children:items.map((d,i)=>({name:d[childField||categoryField||parentField]||`Item ${i}`,value:clampVal(Number(d[valueField])||0),_data:d}))}})}}else{const catField=categoryField||childField;hierarchy={name:\"root\",children:data.map(d=>({name:d[catField]||\"Unknown\",value:clampVal(Number(d[valueField])||0),_data:d}))}}const root=d3.hierarchy(hierarchy).sum(d=>d.value);if(sort){root.sort((a,b)=>b.value-a.value)}return root}function buildNestedLevel(items,levelFields,valueField,depth,clampVal){const field=levelFields[depth];if(depth===levelFields.length-1){return items.map(d=>({name:String(d[field]??\"Unknown\"),value:clampVal(Math.max(0,Number(d[valueField])||0)),_data:d}))}const groups=new Map;for(const item of items){const key=String(item[field]??\"Unknown\");if(!groups.has(key))groups.set(key,[]);groups.get(key).push(item)}const children=[];for(const[key,groupItems]of groups){children.push({name:key,children:buildNestedLevel(groupItems,levelFields,valueField,depth+1,clampVal)})}return children}function getTopAncestor(d){let node=d;while(node.parent&&node.parent.parent){node=node.parent}return node}function getAncestorPath(d){const parts=[];let node=d;while(node&&node.depth>0){parts.unshift(node.data.name);node=node.parent}return parts.join(\" \\u203A \")}function getNodeColor(d,colorScale,lightenStep=.12,maxLighten=.4){const ancestor=getTopAncestor(d);const baseColor=colorScale(ancestor.data.name);if(d.depth>1){const lightenFactor=Math.min(d.depth*lightenStep,maxLighten);return d3.interpolateRgb(baseColor,\"#ffffff\")(lightenFactor)}return baseColor}function renderIcicle(container,spec){const{config,encoding,data}=spec;const levelFields=config.levelFields||[];const valueField=config.valueField||\"\";const orientation=config.orientation||\"horizontal\";const showValues=config.showValues!==false;const isHorizontal=orientation===\"horizontal\";const width=container.clientWidth||800;const height=container.clientHeight||500;const titleHeight=spec.title?36:0;const contentPad=8;container.style.display=\"flex\";container.style.flexDirection=\"column\";container.style.background=DARK_BG;container.style.borderRadius=\"8px\";container.style.overflow=\"hidden\";container.style.fontFamily=\"Inter, system-ui, sans-serif\";if(spec.title){const titleDiv=document.createElement(\"div\");titleDiv.style.cssText=`\n      text-align: center;\n      color: ${TEXT_COLOR};\n      font-size: 14px;\n      font-weight: 600;\n      line-height: 36px;\n      height: 36px;\n      flex-shrink: 0;\n      overflow: hidden;\n      text-overflow: ellipsis;\n      white-space: nowrap;\n      padding: 0 10px;\n    `;titleDiv.textContent=spec.title;titleDiv.title=spec.title;container.appendChild(titleDiv)}if(valueField&&isAllZeros(data,valueField)){const emptyDiv=document.createElement(\"div\");emptyDiv.style.cssText=`\n      display: flex;\n      align-items: center;\n      justify-content: center;\n      flex: 1;\n      color: ${TEXT_MUTED};\n      font-size: 14px;\n    `;emptyDiv.textContent=\"All values are zero\";container.appendChild(emptyDiv);return}const root=buildHierarchy({data,levelFields,valueField});const totalValue=root.value||1;const topLevelNames=root.children?root.children.map(c=>c.data.name):[];const colorScale=encoding.color?buildColorScale(encoding.color,data):d3.scaleOrdinal().domain(topLevelNames).range(categorical);const showLegend=topLevelNames.length>1&&height>200;const legendHeight=showLegend?28:0;const chartWrapper=document.createElement(\"div\");chartWrapper.style.cssText=`flex: 1; min-height: 0; position: relative;`;container.appendChild(chartWrapper);const chartWidth=width-contentPad*2;const chartHeight=height-titleHeight-legendHeight-contentPad*2;const svg=d3.select(chartWrapper).append(\"svg\").attr(\"width\",width).attr(\"height\",chartHeight+contentPad*2);const g=svg.append(\"g\").attr(\"transform\",`translate(${contentPad},${contentPad})`);const tooltip=createTooltip(container);const partPad=1;if(isHorizontal){d3.partition().size([chartHeight,chartWidth]).padding(partPad)(root)}else{d3.partition().size([chartWidth,chartHeight]).padding(partPad)(root)}const depthExtent=isHorizontal?chartWidth:chartHeight;const rootY1=root.y1;if(rootY1>0&&rootY1<depthExtent){const scale=depthExtent/(depthExtent-rootY1);for(const node of root.descendants()){if(node.depth===0)continue;node.y0=(node.y0-rootY1)*scale;node.y1=(node.y1-rootY1)*scale}}const descendants=root.descendants().filter(d=>d.depth>0);const rects=g.selectAll(\".icicle-rect\").data(descendants).join(\"rect\").attr(\"class\",\"icicle-rect\").attr(\"x\",d=>isHorizontal?d.y0:d.x0).attr(\"y\",d=>isHorizontal?d.x0:d.y0).attr(\"width\",d=>{const w=isHorizontal?d.y1-d.y0:d.x1-d.x0;return Math.max(0,w)}).attr(\"height\",d=>{const h=isHorizontal?d.x1-d.x0:d.y1-d.y0;return Math.max(0,h)}).attr(\"fill\",d=>getNodeColor(d,colorScale,.1,.35)).attr(\"rx\",2).attr(\"ry\",2).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",.5).attr(\"cursor\",\"pointer\").on(\"mouseover\",function(event,d){rects.attr(\"opacity\",n=>{if(n===d)return 1;if(isAncestor(n,d)||isAncestor(d,n))return 1;return .3});d3.select(this).attr(\"stroke\",\"#ffffff\").attr(\"stroke-width\",2);const path=getAncestorPath(d);const pct=(d.value/totalValue*100).toFixed(1);showTooltip(tooltip,tooltipHtml`<strong>${path}</strong><br/>${valueField}: ${formatValue(d.value)}<br/>${pct}% of total`,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){rects.attr(\"opacity\",1).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",.5);hideTooltip(tooltip)}).on(\"click\",function(_event,d){zoomTo(d)});const labels=g.selectAll(\".icicle-label\").data(descendants).join(\"text\").attr(\"class\",\"icicle-label\").attr(\"pointer-events\",\"none\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"dominant-baseline\",\"central\").each(function(d){positionLabel(d3.select(this),d,isHorizontal,colorScale,showValues,valueField)});let currentRoot=root;function zoomTo(target){if(target===currentRoot&&target.parent){target=target.parent.depth===0?root:target.parent}currentRoot=target;const x0=isHorizontal?target.y0:target.x0;const x1=isHorizontal?target.y1:target.x1;const y0=isHorizontal?target.x0:target.y0;const y1=isHorizontal?target.x1:target.y1;const xScale=d3.scaleLinear().domain([x0,x1]).range([0,chartWidth]);const yScale=d3.scaleLinear().domain([y0,y1]).range([0,chartHeight]);rects.transition().duration(500).attr(\"x\",d=>{const v=isHorizontal?d.y0:d.x0;return xScale(v)}).attr(\"y\",d=>{const v=isHorizontal?d.x0:d.y0;return yScale(v)}).attr(\"width\",d=>{const v0=isHorizontal?d.y0:d.x0;const v1=isHorizontal?d.y1:d.x1;return Math.max(0,xScale(v1)-xScale(v0))}).attr(\"height\",d=>{const v0=isHorizontal?d.x0:d.y0;const v1=isHorizontal?d.x1:d.y1;return Math.max(0,yScale(v1)-yScale(v0))}).attr(\"opacity\",d=>{if(!isDescendantOrSelf(d,target))return 0;return 1});labels.transition().duration(500).attr(\"opacity\",0).on(\"end\",function(d){const el=d3.select(this);if(!isDescendantOrSelf(d,target)){el.attr(\"visibility\",\"hidden\");return}const rectW=isHorizontal?xScale(d.y1)-xScale(d.y0):xScale(d.x1)-xScale(d.x0);const rectH=isHorizontal?yScale(d.x1)-yScale(d.x0):yScale(d.y1)-yScale(d.y0);const px=isHorizontal?xScale(d.y0):xScale(d.x0);const py=isHorizontal?yScale(d.x0):yScale(d.y0);positionLabelAt(el,d,px,py,rectW,rectH,isHorizontal,colorScale,showValues,valueField);el.transition().duration(200).attr(\"opacity\",1)})}if(showLegend){const legendDiv=createLegend(colorScale);container.appendChild(legendDiv)}}function positionLabelAt(el,d,px,py,rectW,rectH,isHorizontal,colorScale,showValues,valueField){const textPadding=6;const availW=rectW-textPadding*2;const availH=rectH-textPadding*2;if(availW<20||availH<14){el.attr(\"visibility\",\"hidden\");return}el.attr(\"visibility\",\"visible\");const fillColor=getNodeColor(d,colorScale,.1,.35);const textColor=contrastText(fillColor);const fontSize=Math.max(9,Math.min(12,availH*.35,availW*.08));if(isHorizontal){el.attr(\"x\",px+textPadding).attr(\"y\",py+rectH/2).attr(\"text-anchor\",\"start\")}else{el.attr(\"x\",px+rectW/2).attr(\"y\",py+rectH/2).attr(\"text-anchor\",\"middle\")}el.attr(\"fill\",textColor).attr(\"font-size\",fontSize+\"px\").attr(\"font-weight\",\"600\");const name=String(d.data.name);const maxChars=Math.max(3,Math.floor(availW/(fontSize*.6)));if(showValues&&availW>60&&availH>22){const valStr=formatValue(d.value);const combinedMax=Math.max(3,Math.floor(availW/(fontSize*.6))-valStr.length-3);el.text(truncateLabel(name,combinedMax)+\"  \"+valStr)}else{el.text(truncateLabel(name,maxChars))}}function positionLabel(el,d,isHorizontal,colorScale,showValues,valueField){const rectW=isHorizontal?d.y1-d.y0:d.x1-d.x0;const rectH=isHorizontal?d.x1-d.x0:d.y1-d.y0;const px=isHorizontal?d.y0:d.x0;const py=isHorizontal?d.x0:d.y0;positionLabelAt(el,d,px,py,rectW,rectH,isHorizontal,colorScale,showValues,valueField)}function isAncestor(candidate,node){let current=node.parent;while(current){if(current===candidate)return true;current=current.parent}return false}function isDescendantOrSelf(node,ancestor){if(node===ancestor)return true;let current=node.parent;while(current){if(current===ancestor)return true;current=current.parent}return false}return __toCommonJS(icicle_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
-export const lineBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var line_render_exports={};__export(line_render_exports,{renderChart:()=>renderLine});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function parseDate(v){if(v instanceof Date)return isNaN(v.getTime())?null:v;if(v===null||v===void 0||v===\"\")return null;const num=typeof v===\"number\"?v:Number(v);if(!isNaN(num)&&num>1800&&num<2200&&Math.floor(num)===num){return new Date(num,0,1)}const d=new Date(v);return isNaN(d.getTime())?null:d}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function createLegend(source,options){const shape=options?.shape??\"square\";const callbacks=options?.callbacks;let entries;if(Array.isArray(source)&&source.length>0&&source[0]?.label!==void 0){entries=source}else{const domain=source.domain?.()??[];entries=domain.map(label=>({label:String(label),color:source(label)}))}if(!entries.length){return document.createElement(\"div\")}const maxItems=options?.maxItems??12;let overflowCount=0;if(entries.length>maxItems){overflowCount=entries.length-(maxItems-1);entries=entries.slice(0,maxItems-1)}const maxLabelLen=20;const displayLabels=smartTruncateLabels(entries.map(e=>e.label),maxLabelLen);const legend=document.createElement(\"div\");legend.style.cssText=`\n    display: flex; flex-wrap: wrap; justify-content: center; gap: 4px 14px;\n    padding: 6px 12px 8px; font-family: Inter, system-ui, sans-serif;\n    font-size: 11px; line-height: 1;\n  `;entries.forEach((entry,idx)=>{const item=document.createElement(\"div\");item.style.cssText=callbacks?\"display: inline-flex; align-items: center; gap: 5px; white-space: nowrap; cursor: pointer; transition: opacity 0.15s;\":\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";item.setAttribute(\"data-series\",entry.label);const swatch=document.createElement(\"span\");if(shape===\"circle\"){swatch.style.cssText=`\n        width: 8px; height: 8px; border-radius: 50%;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line\"){swatch.style.cssText=`\n        width: 16px; height: 3px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line-dot\"){swatch.style.cssText=`\n        width: 16px; height: 2px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; position: relative;\n        transition: transform 0.15s;\n      `;const dot=document.createElement(\"span\");dot.style.cssText=`\n        position: absolute; top: 50%; left: 50%;\n        transform: translate(-50%, -50%);\n        width: 6px; height: 6px; border-radius: 50%;\n        background: ${entry.color}; border: 1px solid ${DARK_BG};\n      `;swatch.appendChild(dot)}else{swatch.style.cssText=`\n        width: 10px; height: 10px; border-radius: 2px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}const text=document.createElement(\"span\");text.style.color=TEXT_MUTED;text.textContent=displayLabels[idx];if(entry.label.length>maxLabelLen)text.title=entry.label;item.appendChild(swatch);item.appendChild(text);if(entry.extra){const extra=document.createElement(\"span\");extra.style.color=TEXT_MUTED;extra.style.opacity=\"0.7\";extra.textContent=entry.extra;item.appendChild(extra)}if(callbacks){item.addEventListener(\"mouseenter\",()=>{swatch.style.transform=shape===\"line\"||shape===\"line-dot\"?\"scaleY(2)\":\"scale(1.4)\";callbacks.onHover?.(entry.label)});item.addEventListener(\"mouseleave\",()=>{swatch.style.transform=\"\";callbacks.onLeave?.()})}legend.appendChild(item)});if(overflowCount>0){const more=document.createElement(\"div\");more.style.cssText=\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";const moreText=document.createElement(\"span\");moreText.style.cssText=`color: ${TEXT_MUTED}; opacity: 0.6; font-style: italic;`;moreText.textContent=`+${overflowCount} more`;more.appendChild(moreText);legend.appendChild(more)}return legend}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function findNearestDateIndex(sortedDates,targetTime){const bisect=d3.bisector(d=>d).left;let idx=bisect(sortedDates,targetTime);if(idx>0&&idx<sortedDates.length){const d0=sortedDates[idx-1];const d1=sortedDates[idx];idx=targetTime-d0>d1-targetTime?idx:idx-1}else if(idx>=sortedDates.length){idx=sortedDates.length-1}return idx}function createCrosshairGroup(g,dims){const crosshairLine=g.append(\"line\").attr(\"class\",\"crosshair\").attr(\"y1\",0).attr(\"y2\",dims.innerHeight).attr(\"stroke\",TEXT_MUTED).attr(\"stroke-width\",1).attr(\"stroke-dasharray\",\"4,3\").attr(\"pointer-events\",\"none\").attr(\"opacity\",0);const highlightDots=g.append(\"g\").attr(\"class\",\"highlight-dots\").attr(\"pointer-events\",\"none\");const hoverArea=g.append(\"rect\").attr(\"class\",\"hover-area\").attr(\"width\",dims.innerWidth).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"crosshair\");return{crosshairLine,highlightDots,hoverArea}}function renderLine(container,spec){const{config,encoding,data}=spec;const timeField=config.timeField||encoding.x?.field;const valueField=config.valueField||encoding.y?.field;const seriesField=config.seriesField||encoding.color?.field||null;const interpolation=config.interpolation||\"monotone\";const showPoints=interpolation===\"step\"?false:config.showPoints??data.length<=50;const showArea=config.showArea??false;const strokeWidth=config.strokeWidth??2;const parsedData=data.map(d=>({...d,_date:parseDate(d[timeField]),_value:Number(d[valueField])})).filter(d=>d._date!==null&&!isNaN(d._value));const colorScale=buildColorScale(encoding.color,data);const seriesNames=seriesField?[...new Set(parsedData.map(d=>d[seriesField]))]:[];const isMultiSeries=seriesNames.length>1;container.style.display=\"flex\";container.style.flexDirection=\"column\";container.style.background=DARK_BG;container.style.borderRadius=\"8px\";container.style.overflow=\"hidden\";const chartWrapper=document.createElement(\"div\");chartWrapper.style.flex=\"1\";chartWrapper.style.minHeight=\"0\";container.appendChild(chartWrapper);if(isMultiSeries){const legendDiv=createLegend(colorScale,{shape:\"line\"});container.appendChild(legendDiv)}const{svg,g,dims}=createSvg(chartWrapper,spec,{right:30,top:40},{background:false});const tooltip=createTooltip(chartWrapper);if(parsedData.every(d=>d._value===0)){renderEmptyState(g,dims);return}const xExtent=d3.extent(parsedData,d=>d._date);const xScale=d3.scaleTime().domain(xExtent).range([0,dims.innerWidth]).nice();const yExtent=d3.extent(parsedData,d=>d._value);let yMin;let yMax;if(yExtent[0]===yExtent[1]){const pad=yExtent[0]===0?1:Math.abs(yExtent[0])*.1;yMin=yExtent[0]-pad;yMax=yExtent[1]+pad}else{yMin=showArea?0:yExtent[0]*.9;yMax=yExtent[1]*1.05}const yScale=d3.scaleLinear().domain([yMin,yMax]).range([dims.innerHeight,0]).nice();const xTickCount=getAdaptiveTickCount(dims.innerWidth);const singleDate=xExtent[0].getTime()===xExtent[1].getTime();const xAxisGen=d3.axisBottom(xScale).tickSize(0).tickPadding(8);if(singleDate){xAxisGen.ticks(1).tickFormat(()=>parsedData[0]?.[timeField]??d3.timeFormat(\"%Y-%m-%d\")(xExtent[0]))}else{xAxisGen.ticks(xTickCount)}const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(xAxisGen);styleAxis(xAxis);const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(yAxis);const curveMap={linear:d3.curveLinear,monotone:d3.curveMonotoneX,basis:d3.curveBasis,step:d3.curveStepAfter,cardinal:d3.curveCardinal,catmullRom:d3.curveCatmullRom};const curve=curveMap[config.interpolation||\"monotone\"]||d3.curveMonotoneX;const lineGen=d3.line().x(d=>xScale(d._date)).y(d=>yScale(d._value)).curve(curve);const areaGen=d3.area().x(d=>xScale(d._date)).y0(dims.innerHeight).y1(d=>yScale(d._value)).curve(curve);const uniqueDates=new Set(parsedData.map(d=>d._date.getTime()));const isSinglePoint=uniqueDates.size<=1;if(isSinglePoint){const color=isMultiSeries?void 0:categorical[0];parsedData.forEach(d=>{const c=isMultiSeries?colorScale(d[seriesField]):color;g.append(\"circle\").attr(\"cx\",xScale(d._date)).attr(\"cy\",yScale(d._value)).attr(\"r\",6).attr(\"fill\",c).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2);g.append(\"text\").attr(\"x\",xScale(d._date)).attr(\"y\",yScale(d._value)-14).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(formatValue(d._value))})}else if(isMultiSeries){drawMultiSeries(g,parsedData,seriesField,seriesNames,colorScale,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth)}else{drawSingleSeries(g,parsedData,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth)}if(!isSinglePoint){addCrosshairHover(g,parsedData,seriesField,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,isMultiSeries)}}function drawMultiSeries(g,parsedData,seriesField,seriesNames,colorScale,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth){seriesNames.forEach(name=>{const seriesData=parsedData.filter(d=>d[seriesField]===name).sort((a,b)=>a._date.getTime()-b._date.getTime());const color=colorScale(name);if(showArea){g.append(\"path\").datum(seriesData).attr(\"fill\",color).attr(\"opacity\",.1).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\")}g.append(\"path\").datum(seriesData).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",strokeWidth).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\");if(showPoints){g.selectAll(`.point-${String(name).replace(/\\W/g,\"\")}`).data(seriesData).join(\"circle\").attr(\"class\",`point-${String(name).replace(/\\W/g,\"\")}`).attr(\"cx\",d=>xScale(d._date)).attr(\"cy\",d=>yScale(d._value)).attr(\"r\",1.25).attr(\"fill\",color).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",1.5).attr(\"pointer-events\",\"none\")}})}function drawSingleSeries(g,parsedData,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth){const sortedData=[...parsedData].sort((a,b)=>a._date.getTime()-b._date.getTime());const color=categorical[0];if(showArea){g.append(\"path\").datum(sortedData).attr(\"fill\",color).attr(\"opacity\",.1).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\")}g.append(\"path\").datum(sortedData).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",strokeWidth).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\");if(showPoints){g.selectAll(\".point\").data(sortedData).join(\"circle\").attr(\"class\",\"point\").attr(\"cx\",d=>xScale(d._date)).attr(\"cy\",d=>yScale(d._value)).attr(\"r\",1.25).attr(\"fill\",color).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",.75).attr(\"pointer-events\",\"none\")}}function addCrosshairHover(g,parsedData,seriesField,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,isMultiSeries){const dateMap=new Map;parsedData.forEach(d=>{const key=d._date.getTime();if(!dateMap.has(key))dateMap.set(key,[]);dateMap.get(key).push(d)});const sortedDates=[...dateMap.keys()].sort((a,b)=>a-b);const{crosshairLine,highlightDots,hoverArea}=createCrosshairGroup(g,dims);hoverArea.on(\"mousemove\",function(event){const[mx]=d3.pointer(event,this);const xDate=xScale.invert(mx).getTime();const idx=findNearestDateIndex(sortedDates,xDate);const nearestTime=sortedDates[idx];const nearestX=xScale(new Date(nearestTime));const points=dateMap.get(nearestTime)||[];crosshairLine.attr(\"x1\",nearestX).attr(\"x2\",nearestX).attr(\"opacity\",1);highlightDots.selectAll(\"circle\").remove();points.forEach(d=>{const color=isMultiSeries?colorScale(d[seriesField]):categorical[0];highlightDots.append(\"circle\").attr(\"cx\",nearestX).attr(\"cy\",yScale(d._value)).attr(\"r\",5).attr(\"fill\",color).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2)});g.selectAll(\".line-path\").attr(\"opacity\",.4);const dateLabel=points[0]?.[timeField]??new Date(nearestTime).toLocaleDateString();let html=`<strong>${escapeHtml(dateLabel)}</strong>`;if(isMultiSeries){const sorted=[...points].sort((a,b)=>b._value-a._value);sorted.forEach(d=>{const color=escapeHtml(colorScale(d[seriesField]));html+=`<br/><span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${color};margin-right:5px;vertical-align:middle;\"></span>${escapeHtml(d[seriesField])}: ${escapeHtml(formatValue(d._value))}`})}else{html+=`<br/>${escapeHtml(valueField)}: ${escapeHtml(formatValue(points[0]?._value))}`}showTooltip(tooltip,html,event)}).on(\"mouseout\",function(){crosshairLine.attr(\"opacity\",0);highlightDots.selectAll(\"circle\").remove();g.selectAll(\".line-path\").attr(\"opacity\",1);hideTooltip(tooltip)})}return __toCommonJS(line_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
+export const lineBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var line_render_exports={};__export(line_render_exports,{renderChart:()=>renderLine});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function parseDate(v){if(v instanceof Date)return isNaN(v.getTime())?null:v;if(v===null||v===void 0||v===\"\")return null;const num=typeof v===\"number\"?v:Number(v);if(!isNaN(num)&&num>1800&&num<2200&&Math.floor(num)===num){return new Date(num,0,1)}const d=new Date(v);return isNaN(d.getTime())?null:d}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function createLegend(source,options){const shape=options?.shape??\"square\";const callbacks=options?.callbacks;let entries;if(Array.isArray(source)&&source.length>0&&source[0]?.label!==void 0){entries=source}else{const domain=source.domain?.()??[];entries=domain.map(label=>({label:String(label),color:source(label)}))}if(!entries.length){return document.createElement(\"div\")}const maxItems=options?.maxItems??12;let overflowCount=0;if(entries.length>maxItems){overflowCount=entries.length-(maxItems-1);entries=entries.slice(0,maxItems-1)}const maxLabelLen=20;const displayLabels=smartTruncateLabels(entries.map(e=>e.label),maxLabelLen);const legend=document.createElement(\"div\");legend.style.cssText=`\n    display: flex; flex-wrap: wrap; justify-content: center; gap: 4px 14px;\n    padding: 6px 12px 8px; font-family: Inter, system-ui, sans-serif;\n    font-size: 11px; line-height: 1;\n  `;entries.forEach((entry,idx)=>{const item=document.createElement(\"div\");item.style.cssText=callbacks?\"display: inline-flex; align-items: center; gap: 5px; white-space: nowrap; cursor: pointer; transition: opacity 0.15s;\":\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";item.setAttribute(\"data-series\",entry.label);const swatch=document.createElement(\"span\");if(shape===\"circle\"){swatch.style.cssText=`\n        width: 8px; height: 8px; border-radius: 50%;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line\"){swatch.style.cssText=`\n        width: 16px; height: 3px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line-dot\"){swatch.style.cssText=`\n        width: 16px; height: 2px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; position: relative;\n        transition: transform 0.15s;\n      `;const dot=document.createElement(\"span\");dot.style.cssText=`\n        position: absolute; top: 50%; left: 50%;\n        transform: translate(-50%, -50%);\n        width: 6px; height: 6px; border-radius: 50%;\n        background: ${entry.color}; border: 1px solid ${DARK_BG};\n      `;swatch.appendChild(dot)}else{swatch.style.cssText=`\n        width: 10px; height: 10px; border-radius: 2px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}const text=document.createElement(\"span\");text.style.color=TEXT_MUTED;text.textContent=displayLabels[idx];if(entry.label.length>maxLabelLen)text.title=entry.label;item.appendChild(swatch);item.appendChild(text);if(entry.extra){const extra=document.createElement(\"span\");extra.style.color=TEXT_MUTED;extra.style.opacity=\"0.7\";extra.textContent=entry.extra;item.appendChild(extra)}if(callbacks){item.addEventListener(\"mouseenter\",()=>{swatch.style.transform=shape===\"line\"||shape===\"line-dot\"?\"scaleY(2)\":\"scale(1.4)\";callbacks.onHover?.(entry.label)});item.addEventListener(\"mouseleave\",()=>{swatch.style.transform=\"\";callbacks.onLeave?.()})}legend.appendChild(item)});if(overflowCount>0){const more=document.createElement(\"div\");more.style.cssText=\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";const moreText=document.createElement(\"span\");moreText.style.cssText=`color: ${TEXT_MUTED}; opacity: 0.6; font-style: italic;`;moreText.textContent=`+${overflowCount} more`;more.appendChild(moreText);legend.appendChild(more)}return legend}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function findNearestDateIndex(sortedDates,targetTime){const bisect=d3.bisector(d=>d).left;let idx=bisect(sortedDates,targetTime);if(idx>0&&idx<sortedDates.length){const d0=sortedDates[idx-1];const d1=sortedDates[idx];idx=targetTime-d0>d1-targetTime?idx:idx-1}else if(idx>=sortedDates.length){idx=sortedDates.length-1}return idx}function createCrosshairGroup(g,dims){const crosshairLine=g.append(\"line\").attr(\"class\",\"crosshair\").attr(\"y1\",0).attr(\"y2\",dims.innerHeight).attr(\"stroke\",TEXT_MUTED).attr(\"stroke-width\",1).attr(\"stroke-dasharray\",\"4,3\").attr(\"pointer-events\",\"none\").attr(\"opacity\",0);const highlightDots=g.append(\"g\").attr(\"class\",\"highlight-dots\").attr(\"pointer-events\",\"none\");const hoverArea=g.append(\"rect\").attr(\"class\",\"hover-area\").attr(\"width\",dims.innerWidth).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"crosshair\");return{crosshairLine,highlightDots,hoverArea}}var ANNOTATION_COLOR=categorical[3];function drawTimeAnnotations(g,annotations,xScale,yScale,dims){if(!Array.isArray(annotations)||annotations.length===0)return;const[d0,d1]=xScale.domain().map(d=>d.getTime());const layer=g.append(\"g\").attr(\"class\",\"time-annotations\").attr(\"pointer-events\",\"none\");for(const a of annotations){const date=parseDate(a.date);if(!date||date.getTime()<d0||date.getTime()>d1)continue;const x=xScale(date);const anchor=x>dims.innerWidth*.85?\"end\":\"start\";const dx=anchor===\"end\"?-4:4;if(a.kind===\"change\"){layer.append(\"line\").attr(\"x1\",x).attr(\"x2\",x).attr(\"y1\",0).attr(\"y2\",dims.innerHeight).attr(\"stroke\",TEXT_MUTED).attr(\"stroke-width\",1).attr(\"stroke-dasharray\",\"6,4\");layer.append(\"text\").attr(\"x\",x+dx).attr(\"y\",10).attr(\"text-anchor\",anchor).attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"10px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(a.label);continue}if(typeof a.value!==\"number\"||!isFinite(a.value))continue;const y=yScale(a.value);layer.append(\"circle\").attr(\"cx\",x).attr(\"cy\",y).attr(\"r\",6).attr(\"fill\",\"none\").attr(\"stroke\",ANNOTATION_COLOR).attr(\"stroke-width\",2);layer.append(\"text\").attr(\"x\",x+dx).attr(\"y\",Math.max(10,y-10)).attr(\"text-anchor\",anchor).attr(\"fill\",ANNOTATION_COLOR).attr(\"font-size\",\"10px\").attr(\"font-weight\",600).attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(a.label)}}function renderLine(container,spec){const{config,encoding,data}=spec;const timeField=config.timeField||encoding.x?.field;const valueField=config.valueField||encoding.y?.field;const seriesField=config.seriesField||encoding.color?.field||null;const interpolation=config.interpolation||\"monotone\";const showPoints=interpolation===\"step\"?false:config.showPoints??data.length<=50;const showArea=config.showArea??false;const strokeWidth=config.strokeWidth??2;const parsedData=data.map(d=>({...d,_date:parseDate(d[timeField]),_value:Number(d[valueField])})).filter(d=>d._date!==null&&!isNaN(d._value));const colorScale=buildColorScale(encoding.color,data);const seriesNames=seriesField?[...new Set(parsedData.map(d=>d[seriesField]))]:[];const isMultiSeries=seriesNames.length>1;container.style.display=\"flex\";container.style.flexDirection=\"column\";container.style.background=DARK_BG;container.style.borderRadius=\"8px\";container.style.overflow=\"hidden\";const chartWrapper=document.createElement(\"div\");chartWrapper.style.flex=\"1\";chartWrapper.style.minHeight=\"0\";container.appendChild(chartWrapper);if(isMultiSeries){const legendDiv=createLegend(colorScale,{shape:\"line\"});container.appendChild(legendDiv)}const{svg,g,dims}=createSvg(chartWrapper,spec,{right:30,top:40},{background:false});const tooltip=createTooltip(chartWrapper);if(parsedData.every(d=>d._value===0)){renderEmptyState(g,dims);return}const xExtent=d3.extent(parsedData,d=>d._date);const xScale=d3.scaleTime().domain(xExtent).range([0,dims.innerWidth]).nice();const yExtent=d3.extent(parsedData,d=>d._value);let yMin;let yMax;if(yExtent[0]===yExtent[1]){const pad=yExtent[0]===0?1:Math.abs(yExtent[0])*.1;yMin=yExtent[0]-pad;yMax=yExtent[1]+pad}else{yMin=showArea?0:yExtent[0]*.9;yMax=yExtent[1]*1.05}const yScale=d3.scaleLinear().domain([yMin,yMax]).range([dims.innerHeight,0]).nice();const xTickCount=getAdaptiveTickCount(dims.innerWidth);const singleDate=xExtent[0].getTime()===xExtent[1].getTime();const xAxisGen=d3.axisBottom(xScale).tickSize(0).tickPadding(8);if(singleDate){xAxisGen.ticks(1).tickFormat(()=>parsedData[0]?.[timeField]??d3.timeFormat(\"%Y-%m-%d\")(xExtent[0]))}else{xAxisGen.ticks(xTickCount)}const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(xAxisGen);styleAxis(xAxis);const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(yAxis);const curveMap={linear:d3.curveLinear,monotone:d3.curveMonotoneX,basis:d3.curveBasis,step:d3.curveStepAfter,cardinal:d3.curveCardinal,catmullRom:d3.curveCatmullRom};const curve=curveMap[config.interpolation||\"monotone\"]||d3.curveMonotoneX;const lineGen=d3.line().x(d=>xScale(d._date)).y(d=>yScale(d._value)).curve(curve);const areaGen=d3.area().x(d=>xScale(d._date)).y0(dims.innerHeight).y1(d=>yScale(d._value)).curve(curve);const uniqueDates=new Set(parsedData.map(d=>d._date.getTime()));const isSinglePoint=uniqueDates.size<=1;if(isSinglePoint){const color=isMultiSeries?void 0:categorical[0];parsedData.forEach(d=>{const c=isMultiSeries?colorScale(d[seriesField]):color;g.append(\"circle\").attr(\"cx\",xScale(d._date)).attr(\"cy\",yScale(d._value)).attr(\"r\",6).attr(\"fill\",c).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2);g.append(\"text\").attr(\"x\",xScale(d._date)).attr(\"y\",yScale(d._value)-14).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(formatValue(d._value))})}else if(isMultiSeries){drawMultiSeries(g,parsedData,seriesField,seriesNames,colorScale,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth)}else{drawSingleSeries(g,parsedData,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth)}drawTimeAnnotations(g,config.annotations,xScale,yScale,dims);if(!isSinglePoint){addCrosshairHover(g,parsedData,seriesField,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,isMultiSeries)}}function drawMultiSeries(g,parsedData,seriesField,seriesNames,colorScale,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth){seriesNames.forEach(name=>{const seriesData=parsedData.filter(d=>d[seriesField]===name).sort((a,b)=>a._date.getTime()-b._date.getTime());const color=colorScale(name);if(showArea){g.append(\"path\").datum(seriesData).attr(\"fill\",color).attr(\"opacity\",.1).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\")}g.append(\"path\").datum(seriesData).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",strokeWidth).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\");if(showPoints){g.selectAll(`.point-${String(name).replace(/\\W/g,\"\")}`).data(seriesData).join(\"circle\").attr(\"class\",`point-${String(name).replace(/\\W/g,\"\")}`).attr(\"cx\",d=>xScale(d._date)).attr(\"cy\",d=>yScale(d._value)).attr(\"r\",1.25).attr(\"fill\",color).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",1.5).attr(\"pointer-events\",\"none\")}})}function drawSingleSeries(g,parsedData,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth){const sortedData=[...parsedData].sort((a,b)=>a._date.getTime()-b._date.getTime());const color=categorical[0];if(showArea){g.append(\"path\").datum(sortedData).attr(\"fill\",color).attr(\"opacity\",.1).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\")}g.append(\"path\").datum(sortedData).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",strokeWidth).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\");if(showPoints){g.selectAll(\".point\").data(sortedData).join(\"circle\").attr(\"class\",\"point\").attr(\"cx\",d=>xScale(d._date)).attr(\"cy\",d=>yScale(d._value)).attr(\"r\",1.25).attr(\"fill\",color).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",.75).attr(\"pointer-events\",\"none\")}}function addCrosshairHover(g,parsedData,seriesField,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,isMultiSeries){const dateMap=new Map;parsedData.forEach(d=>{const key=d._date.getTime();if(!dateMap.has(key))dateMap.set(key,[]);dateMap.get(key).push(d)});const sortedDates=[...dateMap.keys()].sort((a,b)=>a-b);const{crosshairLine,highlightDots,hoverArea}=createCrosshairGroup(g,dims);hoverArea.on(\"mousemove\",function(event){const[mx]=d3.pointer(event,this);const xDate=xScale.invert(mx).getTime();const idx=findNearestDateIndex(sortedDates,xDate);const nearestTime=sortedDates[idx];const nearestX=xScale(new Date(nearestTime));const points=dateMap.get(nearestTime)||[];crosshairLine.attr(\"x1\",nearestX).attr(\"x2\",nearestX).attr(\"opacity\",1);highlightDots.selectAll(\"circle\").remove();points.forEach(d=>{const color=isMultiSeries?colorScale(d[seriesField]):categorical[0];highlightDots.append(\"circle\").attr(\"cx\",nearestX).attr(\"cy\",yScale(d._value)).attr(\"r\",5).attr(\"fill\",color).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2)});g.selectAll(\".line-path\").attr(\"opacity\",.4);const dateLabel=points[0]?.[timeField]??new Date(nearestTime).toLocaleDateString();let html=`<strong>${escapeHtml(dateLabel)}</strong>`;if(isMultiSeries){const sorted=[...points].sort((a,b)=>b._value-a._value);sorted.forEach(d=>{const color=escapeHtml(colorScale(d[seriesField]));html+=`<br/><span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${color};margin-right:5px;vertical-align:middle;\"></span>${escapeHtml(d[seriesField])}: ${escapeHtml(formatValue(d._value))}`})}else{html+=`<br/>${escapeHtml(valueField)}: ${escapeHtml(formatValue(points[0]?._value))}`}showTooltip(tooltip,html,event)}).on(\"mouseout\",function(){crosshairLine.attr(\"opacity\",0);highlightDots.selectAll(\"circle\").remove();g.selectAll(\".line-path\").attr(\"opacity\",1);hideTooltip(tooltip)})}return __toCommonJS(line_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
 export const lollipopBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var lollipop_render_exports={};__export(lollipop_render_exports,{renderChart:()=>renderLollipop});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function contrastText(bgColor){const rgb=parseColor(bgColor);if(!rgb)return\"#ffffff\";const luminance=relativeLuminance(rgb[0],rgb[1],rgb[2]);return luminance>.18?\"#1a1a2e\":\"#ffffff\"}function parseColor(color){const hexMatch=color.match(/^#([0-9a-f]{3,8})$/i);if(hexMatch){let hex=hexMatch[1];if(hex.length===3)hex=hex[0]+hex[0]+hex[1]+hex[1]+hex[2]+hex[2];return[parseInt(hex.substring(0,2),16),parseInt(hex.substring(2,4),16),parseInt(hex.substring(4,6),16)]}const rgbMatch=color.match(/rgba?\\(\\s*(\\d+)\\s*,\\s*(\\d+)\\s*,\\s*(\\d+)/);if(rgbMatch){return[Number(rgbMatch[1]),Number(rgbMatch[2]),Number(rgbMatch[3])]}return null}function relativeLuminance(r,g,b){const[rs,gs,bs]=[r/255,g/255,b/255].map(c=>c<=.03928?c/12.92:Math.pow((c+.055)/1.055,2.4));return .2126*rs+.7152*gs+.0722*bs}function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function calculateLeftMargin(labels,fontSize=11){const charWidthLatin=fontSize*.55;const charWidthCJK=fontSize*1;const maxWidth=Math.max(...labels.map(l=>{const s=String(l);let w=0;for(let i=0;i<s.length;i++){const code=s.charCodeAt(i);w+=code>11904&&code<40959||code>65280&&code<65519?charWidthCJK:charWidthLatin}return w}));return Math.max(80,Math.min(220,maxWidth+20))}function shouldRotateLabels(labels,barWidth,fontSize=11){const avgLabelLength=labels.reduce((sum,l)=>sum+String(l).length,0)/labels.length;const estimatedLabelWidth=avgLabelLength*(fontSize*.6);return estimatedLabelWidth>barWidth*.8}function calculateBottomMargin(labels,willRotate,fontSize=11){if(!willRotate)return 60;const maxLength=Math.max(...labels.map(l=>String(l).length));const charWidth=fontSize*.6;const estimatedHeight=maxLength*charWidth*.7;return Math.max(70,Math.min(150,estimatedHeight+35))}function truncateLabel(label,maxLength=25){const str=String(label);if(str.length<=maxLength)return str;return str.slice(0,maxLength-1)+\"\\u2026\"}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function isAllZeros(data,field){return data.every(d=>Number(d[field])===0)}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function addSortControls(svg,container,spec,dims,renderFn){const currentSortBy=spec.config.sortBy||\"value\";const currentSortOrder=spec.config.sortOrder||\"descending\";const xPos=dims.width-dims.margin.right-40;const yPos=24;const controls=svg.append(\"g\").attr(\"class\",\"sort-controls\").attr(\"transform\",`translate(${xPos}, ${yPos})`).style(\"opacity\",0).style(\"cursor\",\"pointer\").style(\"transition\",\"opacity 0.2s\").style(\"user-select\",\"none\").style(\"-webkit-user-select\",\"none\");controls.append(\"rect\").attr(\"x\",-26).attr(\"y\",-10).attr(\"width\",52).attr(\"height\",20).attr(\"rx\",4).attr(\"fill\",\"#1e2028\").attr(\"stroke\",\"#2d3041\").attr(\"stroke-width\",1);controls.append(\"text\").attr(\"x\",-8).attr(\"y\",3).attr(\"text-anchor\",\"middle\").attr(\"font-size\",\"9px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"font-weight\",\"600\").attr(\"fill\",TEXT_MUTED).text(currentSortBy===\"category\"?\"ABC\":\"123\");controls.append(\"text\").attr(\"x\",14).attr(\"y\",3).attr(\"text-anchor\",\"middle\").attr(\"font-size\",\"11px\").attr(\"fill\",TEXT_MUTED).text(currentSortOrder===\"descending\"?\"\\u25BC\":\"\\u25B2\");svg.on(\"mouseenter\",()=>{controls.style(\"opacity\",1)}).on(\"mouseleave\",()=>{controls.style(\"opacity\",0)});controls.on(\"click\",event=>{event.stopPropagation();const curSortBy=spec.config.sortBy||\"value\";const curSortOrder=spec.config.sortOrder||\"descending\";let newSortBy;let newSortOrder;if(curSortBy===\"value\"&&curSortOrder===\"descending\"){newSortBy=\"value\";newSortOrder=\"ascending\"}else if(curSortBy===\"value\"&&curSortOrder===\"ascending\"){newSortBy=\"category\";newSortOrder=\"ascending\"}else if(curSortBy===\"category\"&&curSortOrder===\"ascending\"){newSortBy=\"category\";newSortOrder=\"descending\"}else{newSortBy=\"value\";newSortOrder=\"descending\"}const updatedSpec={...spec,config:{...spec.config,sortBy:newSortBy,sortOrder:newSortOrder}};container.innerHTML=\"\";renderFn(container,updatedSpec)})}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function renderLollipop(container,spec){const{config,encoding,data}=spec;const isHorizontal=config.orientation!==\"vertical\";const categoryField=config.categoryField||encoding.x?.field;const valueField=config.valueField||encoding.y?.field;if(!categoryField||!valueField)return;let sortedData=[...data];if(config.sortBy===\"value\"||config.sorted&&!config.sortBy){const order=config.sortOrder===\"ascending\"?1:-1;sortedData.sort((a,b)=>order*(Number(a[valueField])-Number(b[valueField])))}else if(config.sortBy===\"category\"){const order=config.sortOrder===\"ascending\"?1:-1;sortedData.sort((a,b)=>{const aVal=String(a[categoryField]);const bVal=String(b[categoryField]);return order*aVal.localeCompare(bVal,void 0,{sensitivity:\"base\",numeric:true})})}const dotRadius=config.dotRadius??14;let marginOverrides;if(isHorizontal){const labels=sortedData.map(d=>String(d[categoryField]));const leftMargin=calculateLeftMargin(labels);marginOverrides={left:leftMargin,bottom:40,right:40}}else{const labels=sortedData.map(d=>String(d[categoryField]));const containerWidth=container.clientWidth||800;const estimatedSpacing=(containerWidth-100)/labels.length;const willRotate=shouldRotateLabels(labels,estimatedSpacing);const bottomMargin=calculateBottomMargin(labels,willRotate);marginOverrides={bottom:bottomMargin,left:70,right:30}}const{svg,g,dims}=createSvg(container,spec,marginOverrides);const tooltip=createTooltip(container);if(isAllZeros(data,valueField)){renderEmptyState(g,dims);return}if(isHorizontal){renderHorizontal(g,sortedData,data,encoding,config,dims,tooltip,categoryField,valueField,dotRadius)}else{renderVertical(g,sortedData,data,encoding,config,dims,tooltip,categoryField,valueField,dotRadius)}const hasCategoricalLabels=sortedData.some(d=>{const value=d[categoryField];return typeof value===\"string\"&&isNaN(Number(value))});if(hasCategoricalLabels){addSortControls(svg,container,spec,dims,renderLollipop)}}function renderHorizontal(g,data,originalData,encoding,config,dims,tooltip,categoryField,valueField,dotRadius){const categories=data.map(d=>String(d[categoryField]));const yScale=d3.scalePoint().domain(categories).range([0,dims.innerHeight]).padding(.5);const values=data.map(d=>Number(d[valueField]));const minVal=Math.min(0,d3.min(values));const maxVal=Math.max(0,d3.max(values));const xScale=d3.scaleLinear().domain([minVal,maxVal]).range([0,dims.innerWidth]).nice();const colorScale=buildColorScale(encoding.color,originalData,valueField);const baselineX=xScale(0);const spacing=categories.length>1?yScale.step():dims.innerHeight;const r=Math.min(dotRadius,spacing/2-1);const xTickCount=getAdaptiveTickCount(dims.innerWidth);const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(xScale).ticks(xTickCount).tickSize(-dims.innerHeight).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(xAxis);const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).tickSize(0).tickPadding(10).tickFormat(d=>truncateLabel(d,25)));styleAxis(yAxis);g.selectAll(\".lollipop-hover\").data(data).join(\"rect\").attr(\"class\",\"lollipop-hover\").attr(\"x\",0).attr(\"y\",d=>yScale(String(d[categoryField]))-spacing/2).attr(\"width\",dims.innerWidth).attr(\"height\",spacing).attr(\"fill\",\"transparent\").attr(\"cursor\",\"pointer\").on(\"mouseover\",function(event,d){const cat=String(d[categoryField]);const hoverSize=r*1.3;g.selectAll(\".lollipop-dot\").attr(\"opacity\",dd=>String(dd[categoryField])===cat?1:.25);g.selectAll(\".lollipop-dot\").filter(dd=>String(dd[categoryField])===cat).attr(\"width\",hoverSize*2).attr(\"height\",hoverSize*2).attr(\"x\",dd=>xScale(Number(dd[valueField]))-hoverSize).attr(\"y\",dd=>yScale(String(dd[categoryField]))-hoverSize);g.selectAll(\".lollipop-stem\").attr(\"opacity\",dd=>String(dd[categoryField])===cat?1:.25);showTooltip(tooltip,`<strong>${escapeHtml(d[categoryField])}</strong><br/>${escapeHtml(valueField)}: ${formatValue(Number(d[valueField]))}`,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){g.selectAll(\".lollipop-dot\").attr(\"opacity\",1).attr(\"width\",r*2).attr(\"height\",r*2).attr(\"x\",dd=>xScale(Number(dd[valueField]))-r).attr(\"y\",dd=>yScale(String(dd[categoryField]))-r);g.selectAll(\".lollipop-stem\").attr(\"opacity\",1);hideTooltip(tooltip)});g.selectAll(\".lollipop-stem\").data(data).join(\"line\").attr(\"class\",\"lollipop-stem\").attr(\"x1\",baselineX).attr(\"x2\",d=>{const val=Number(d[valueField]);return xScale(val)+(val>=0?-r:r)}).attr(\"y1\",d=>yScale(String(d[categoryField]))).attr(\"y2\",d=>yScale(String(d[categoryField]))).attr(\"stroke\",d=>colorScale(d[encoding.color?.field||categoryField])).attr(\"stroke-width\",2).attr(\"pointer-events\",\"none\");g.selectAll(\".lollipop-dot\").data(data).join(\"rect\").attr(\"class\",\"lollipop-dot\").attr(\"x\",d=>xScale(Number(d[valueField]))-r).attr(\"y\",d=>yScale(String(d[categoryField]))-r).attr(\"width\",r*2).attr(\"height\",r*2).attr(\"rx\",2).attr(\"fill\",d=>colorScale(d[encoding.color?.field||categoryField])).attr(\"stroke\",\"#0f1117\").attr(\"stroke-width\",1.5).attr(\"pointer-events\",\"none\");if(r>=12){g.selectAll(\".lollipop-label\").data(data).join(\"text\").attr(\"class\",\"lollipop-label\").attr(\"x\",d=>xScale(Number(d[valueField]))).attr(\"y\",d=>yScale(String(d[categoryField]))).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"central\").attr(\"fill\",d=>contrastText(colorScale(d[encoding.color?.field||categoryField]))).attr(\"font-size\",`${Math.min(10,r-3)}px`).attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"pointer-events\",\"none\").text(d=>{const dotX=xScale(Number(d[valueField]));if(dotX<r+5)return\"\";return formatValue(Number(d[valueField]))})}}function renderVertical(g,data,originalData,encoding,config,dims,tooltip,categoryField,valueField,dotRadius){const categories=data.map(d=>String(d[categoryField]));const xScale=d3.scalePoint().domain(categories).range([0,dims.innerWidth]).padding(.5);const values=data.map(d=>Number(d[valueField]));const minVal=Math.min(0,d3.min(values));const maxVal=Math.max(0,d3.max(values));const yScale=d3.scaleLinear().domain([minVal,maxVal]).range([dims.innerHeight,0]).nice();const colorScale=buildColorScale(encoding.color,originalData,valueField);const baselineY=yScale(0);const spacing=categories.length>1?xScale.step():dims.innerWidth;const r=Math.min(dotRadius,spacing/2-1);const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(xScale).tickSize(0).tickPadding(8).tickFormat(d=>truncateLabel(d,12)));styleAxis(xAxis);const needsRotation=shouldRotateLabels(categories,spacing);if(needsRotation){g.selectAll(\".x-axis .tick text\").attr(\"transform\",\"rotate(-35)\").attr(\"text-anchor\",\"end\").attr(\"dx\",\"-0.5em\").attr(\"dy\",\"0.15em\")}const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(yAxis);g.selectAll(\".lollipop-hover\").data(data).join(\"rect\").attr(\"class\",\"lollipop-hover\").attr(\"x\",d=>xScale(String(d[categoryField]))-spacing/2).attr(\"y\",0).attr(\"width\",spacing).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"pointer\").on(\"mouseover\",function(event,d){const cat=String(d[categoryField]);const hoverSize=r*1.3;g.selectAll(\".lollipop-dot\").attr(\"opacity\",dd=>String(dd[categoryField])===cat?1:.25);g.selectAll(\".lollipop-dot\").filter(dd=>String(dd[categoryField])===cat).attr(\"width\",hoverSize*2).attr(\"height\",hoverSize*2).attr(\"x\",dd=>xScale(String(dd[categoryField]))-hoverSize).attr(\"y\",dd=>yScale(Number(dd[valueField]))-hoverSize);g.selectAll(\".lollipop-stem\").attr(\"opacity\",dd=>String(dd[categoryField])===cat?1:.25);showTooltip(tooltip,`<strong>${escapeHtml(d[categoryField])}</strong><br/>${escapeHtml(valueField)}: ${formatValue(Number(d[valueField]))}`,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){g.selectAll(\".lollipop-dot\").attr(\"opacity\",1).attr(\"width\",r*2).attr(\"height\",r*2).attr(\"x\",dd=>xScale(String(dd[categoryField]))-r).attr(\"y\",dd=>yScale(Number(dd[valueField]))-r);g.selectAll(\".lollipop-stem\").attr(\"opacity\",1);hideTooltip(tooltip)});g.selectAll(\".lollipop-stem\").data(data).join(\"line\").attr(\"class\",\"lollipop-stem\").attr(\"x1\",d=>xScale(String(d[categoryField]))).attr(\"x2\",d=>xScale(String(d[categoryField]))).attr(\"y1\",baselineY).attr(\"y2\",d=>{const val=Number(d[valueField]);return yScale(val)+(val>=0?r:-r)}).attr(\"stroke\",d=>colorScale(d[encoding.color?.field||categoryField])).attr(\"stroke-width\",2).attr(\"pointer-events\",\"none\");g.selectAll(\".lollipop-dot\").data(data).join(\"rect\").attr(\"class\",\"lollipop-dot\").attr(\"x\",d=>xScale(String(d[categoryField]))-r).attr(\"y\",d=>yScale(Number(d[valueField]))-r).attr(\"width\",r*2).attr(\"height\",r*2).attr(\"rx\",2).attr(\"fill\",d=>colorScale(d[encoding.color?.field||categoryField])).attr(\"stroke\",\"#0f1117\").attr(\"stroke-width\",1.5).attr(\"pointer-events\",\"none\");if(r>=12){g.selectAll(\".lollipop-label\").data(data).join(\"text\").attr(\"class\",\"lollipop-label\").attr(\"x\",d=>xScale(String(d[categoryField]))).attr(\"y\",d=>yScale(Number(d[valueField]))).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"central\").attr(\"fill\",d=>contrastText(colorScale(d[encoding.color?.field||categoryField]))).attr(\"font-size\",`${Math.min(10,r-3)}px`).attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"pointer-events\",\"none\").text(d=>formatValue(Number(d[valueField])))}}return __toCommonJS(lollipop_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
 export const marimekkoBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var marimekko_render_exports={};__export(marimekko_render_exports,{renderChart:()=>renderMarimekko});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function tooltipHtml(strings,...values){let result=strings[0];for(let i=0;i<values.length;i++){result+=escapeHtml(values[i])+strings[i+1]}return result}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function contrastText(bgColor){const rgb=parseColor(bgColor);if(!rgb)return\"#ffffff\";const luminance=relativeLuminance(rgb[0],rgb[1],rgb[2]);return luminance>.18?\"#1a1a2e\":\"#ffffff\"}function parseColor(color){const hexMatch=color.match(/^#([0-9a-f]{3,8})$/i);if(hexMatch){let hex=hexMatch[1];if(hex.length===3)hex=hex[0]+hex[0]+hex[1]+hex[1]+hex[2]+hex[2];return[parseInt(hex.substring(0,2),16),parseInt(hex.substring(2,4),16),parseInt(hex.substring(4,6),16)]}const rgbMatch=color.match(/rgba?\\(\\s*(\\d+)\\s*,\\s*(\\d+)\\s*,\\s*(\\d+)/);if(rgbMatch){return[Number(rgbMatch[1]),Number(rgbMatch[2]),Number(rgbMatch[3])]}return null}function relativeLuminance(r,g,b){const[rs,gs,bs]=[r/255,g/255,b/255].map(c=>c<=.03928?c/12.92:Math.pow((c+.055)/1.055,2.4));return .2126*rs+.7152*gs+.0722*bs}function truncateLabel(label,maxLength=25){const str=String(label);if(str.length<=maxLength)return str;return str.slice(0,maxLength-1)+\"\\u2026\"}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function isAllZeros(data,field){return data.every(d=>Number(d[field])===0)}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function createLegend(source,options){const shape=options?.shape??\"square\";const callbacks=options?.callbacks;let entries;if(Array.isArray(source)&&source.length>0&&source[0]?.label!==void 0){entries=source}else{const domain=source.domain?.()??[];entries=domain.map(label=>({label:String(label),color:source(label)}))}if(!entries.length){return document.createElement(\"div\")}const maxItems=options?.maxItems??12;let overflowCount=0;if(entries.length>maxItems){overflowCount=entries.length-(maxItems-1);entries=entries.slice(0,maxItems-1)}const maxLabelLen=20;const displayLabels=smartTruncateLabels(entries.map(e=>e.label),maxLabelLen);const legend=document.createElement(\"div\");legend.style.cssText=`\n    display: flex; flex-wrap: wrap; justify-content: center; gap: 4px 14px;\n    padding: 6px 12px 8px; font-family: Inter, system-ui, sans-serif;\n    font-size: 11px; line-height: 1;\n  `;entries.forEach((entry,idx)=>{const item=document.createElement(\"div\");item.style.cssText=callbacks?\"display: inline-flex; align-items: center; gap: 5px; white-space: nowrap; cursor: pointer; transition: opacity 0.15s;\":\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";item.setAttribute(\"data-series\",entry.label);const swatch=document.createElement(\"span\");if(shape===\"circle\"){swatch.style.cssText=`\n        width: 8px; height: 8px; border-radius: 50%;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line\"){swatch.style.cssText=`\n        width: 16px; height: 3px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line-dot\"){swatch.style.cssText=`\n        width: 16px; height: 2px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; position: relative;\n        transition: transform 0.15s;\n      `;const dot=document.createElement(\"span\");dot.style.cssText=`\n        position: absolute; top: 50%; left: 50%;\n        transform: translate(-50%, -50%);\n        width: 6px; height: 6px; border-radius: 50%;\n        background: ${entry.color}; border: 1px solid ${DARK_BG};\n      `;swatch.appendChild(dot)}else{swatch.style.cssText=`\n        width: 10px; height: 10px; border-radius: 2px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}const text=document.createElement(\"span\");text.style.color=TEXT_MUTED;text.textContent=displayLabels[idx];if(entry.label.length>maxLabelLen)text.title=entry.label;item.appendChild(swatch);item.appendChild(text);if(entry.extra){const extra=document.createElement(\"span\");extra.style.color=TEXT_MUTED;extra.style.opacity=\"0.7\";extra.textContent=entry.extra;item.appendChild(extra)}if(callbacks){item.addEventListener(\"mouseenter\",()=>{swatch.style.transform=shape===\"line\"||shape===\"line-dot\"?\"scaleY(2)\":\"scale(1.4)\";callbacks.onHover?.(entry.label)});item.addEventListener(\"mouseleave\",()=>{swatch.style.transform=\"\";callbacks.onLeave?.()})}legend.appendChild(item)});if(overflowCount>0){const more=document.createElement(\"div\");more.style.cssText=\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";const moreText=document.createElement(\"span\");moreText.style.cssText=`color: ${TEXT_MUTED}; opacity: 0.6; font-style: italic;`;moreText.textContent=`+${overflowCount} more`;more.appendChild(moreText);legend.appendChild(more)}return legend}function addSortControls(svg,container,spec,dims,renderFn){const currentSortBy=spec.config.sortBy||\"value\";const currentSortOrder=spec.config.sortOrder||\"descending\";const xPos=dims.width-dims.margin.right-40;const yPos=24;const controls=svg.append(\"g\").attr(\"class\",\"sort-controls\").attr(\"transform\",`translate(${xPos}, ${yPos})`).style(\"opacity\",0).style(\"cursor\",\"pointer\").style(\"transition\",\"opacity 0.2s\").style(\"user-select\",\"none\").style(\"-webkit-user-select\",\"none\");controls.append(\"rect\").attr(\"x\",-26).attr(\"y\",-10).attr(\"width\",52).attr(\"height\",20).attr(\"rx\",4).attr(\"fill\",\"#1e2028\").attr(\"stroke\",\"#2d3041\").attr(\"stroke-width\",1);controls.append(\"text\").attr(\"x\",-8).attr(\"y\",3).attr(\"text-anchor\",\"middle\").attr(\"font-size\",\"9px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"font-weight\",\"600\").attr(\"fill\",TEXT_MUTED).text(currentSortBy===\"category\"?\"ABC\":\"123\");controls.append(\"text\").attr(\"x\",14).attr(\"y\",3).attr(\"text-anchor\",\"middle\").attr(\"font-size\",\"11px\").attr(\"fill\",TEXT_MUTED).text(currentSortOrder===\"descending\"?\"\\u25BC\":\"\\u25B2\");svg.on(\"mouseenter\",()=>{controls.style(\"opacity\",1)}).on(\"mouseleave\",()=>{controls.style(\"opacity\",0)});controls.on(\"click\",event=>{event.stopPropagation();const curSortBy=spec.config.sortBy||\"value\";const curSortOrder=spec.config.sortOrder||\"descending\";let newSortBy;let newSortOrder;if(curSortBy===\"value\"&&curSortOrder===\"descending\"){newSortBy=\"value\";newSortOrder=\"ascending\"}else if(curSortBy===\"value\"&&curSortOrder===\"ascending\"){newSortBy=\"category\";newSortOrder=\"ascending\"}else if(curSortBy===\"category\"&&curSortOrder===\"ascending\"){newSortBy=\"category\";newSortOrder=\"descending\"}else{newSortBy=\"value\";newSortOrder=\"descending\"}const updatedSpec={...spec,config:{...spec.config,sortBy:newSortBy,sortOrder:newSortOrder}};container.innerHTML=\"\";renderFn(container,updatedSpec)})}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function renderMarimekko(container,spec){const{config,encoding,data}=spec;const categoryField=config.categoryField||encoding.x?.field;const seriesField=config.seriesField||encoding.color?.field;const valueField=config.valueField||encoding.y?.field;const showLabels=config.showLabels!==false;const showPercentages=config.showPercentages!==false;const containerWidth=container.clientWidth||800;const containerHeight=container.clientHeight||500;const showLegend=containerHeight>200&&containerWidth>250;const colorScale=buildColorScale(encoding.color,data);const secondaryKeys=[...new Set(data.map(d=>String(d[seriesField])))];let primaryKeys=[...new Set(data.map(d=>String(d[categoryField])))];const columnTotals={};primaryKeys.forEach(pk=>{columnTotals[pk]=0;data.forEach(d=>{if(String(d[categoryField])===pk){columnTotals[pk]+=Math.abs(Number(d[valueField]))||0}})});if(config.sortBy===\"value\"){const order=config.sortOrder===\"ascending\"?1:-1;primaryKeys.sort((a,b)=>order*(columnTotals[a]-columnTotals[b]))}else if(config.sortBy===\"category\"){const order=config.sortOrder===\"ascending\"?1:-1;primaryKeys.sort((a,b)=>order*a.localeCompare(b,void 0,{sensitivity:\"base\",numeric:true}))}container.style.display=\"flex\";container.style.flexDirection=\"column\";container.style.background=DARK_BG;container.style.borderRadius=\"8px\";container.style.overflow=\"hidden\";const chartWrapper=document.createElement(\"div\");chartWrapper.style.flex=\"1\";chartWrapper.style.minHeight=\"0\";container.appendChild(chartWrapper);let legendDiv=null;if(showLegend){legendDiv=createLegend(colorScale);container.appendChild(legendDiv)}const{svg,g,dims}=createSvg(chartWrapper,spec,{bottom:50,left:20,right:30,top:40},{background:false});const tooltip=createTooltip(container);if(isAllZeros(data,valueField)){renderEmptyState(g,dims);return}const grandTotal=data.reduce((s,d)=>s+(Math.abs(Number(d[valueField]))||0),0);if(grandTotal===0||primaryKeys.length===0||secondaryKeys.length===0){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"13px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(\"No data to display\");return}const gap=Math.max(1,Math.min(3,dims.innerWidth/primaryKeys.length*.03));const totalGaps=gap*(primaryKeys.length-1);const availableWidth=dims.innerWidth-totalGaps;const columns=[];let currentX=0;primaryKeys.forEach((pk,i)=>{const colTotal=columnTotals[pk];const colWidth=grandTotal>0?colTotal/grandTotal*availableWidth:availableWidth/primaryKeys.length;const segments=[];let currentY=0;secondaryKeys.forEach(sk=>{const row=data.find(d=>String(d[categoryField])===pk&&String(d[seriesField])===sk);const val=row?Math.abs(Number(row[valueField]))||0:0;if(val===0){segments.push({primaryKey:pk,secondaryKey:sk,value:0,x:currentX,y:currentY,width:colWidth,height:0,pctOfColumn:0,pctOfTotal:0});return}const segHeight=colTotal>0?val/colTotal*dims.innerHeight:0;segments.push({primaryKey:pk,secondaryKey:sk,value:val,x:currentX,y:currentY,width:colWidth,height:segHeight,pctOfColumn:colTotal>0?val/colTotal*100:0,pctOfTotal:grandTotal>0?val/grandTotal*100:0});currentY+=segHeight});columns.push({primaryKey:pk,total:colTotal,x:currentX,width:colWidth,segments});currentX+=colWidth+(i<primaryKeys.length-1?gap:0)});const allSegments=columns.flatMap(col=>col.segments.filter(s=>s.height>0));g.selectAll(\".col-hover-target\").data(columns).join(\"rect\").attr(\"class\",\"col-hover-target\").attr(\"x\",d=>d.x).attr(\"y\",0).attr(\"width\",d=>Math.max(0,d.width)).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"pointer\").on(\"mouseover\",function(event,d){g.selectAll(\".mekko-segment\").attr(\"opacity\",s=>s.primaryKey===d.primaryKey?1:.3);const colPct=grandTotal>0?(d.total/grandTotal*100).toFixed(1):\"0.0\";let html=tooltipHtml`<strong>${d.primaryKey}</strong>`;html+=`<br/><span style=\"color:${escapeHtml(TEXT_MUTED)};font-size:11px\">Column total: ${escapeHtml(formatValue(d.total))} (${escapeHtml(colPct)}%)</span>`;d.segments.filter(s=>s.value>0).forEach(seg=>{const swatch=`<span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${escapeHtml(colorScale(seg.secondaryKey))};margin-right:4px\"></span>`;html+=`<br/>${swatch}${escapeHtml(seg.secondaryKey)}: ${escapeHtml(formatValue(seg.value))} (${escapeHtml(seg.pctOfColumn.toFixed(0))}%)`});showTooltip(tooltip,html,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){g.selectAll(\".mekko-segment\").attr(\"opacity\",1);hideTooltip(tooltip)});g.selectAll(\".mekko-segment\").data(allSegments).join(\"rect\").attr(\"class\",\"mekko-segment\").attr(\"x\",d=>d.x).attr(\"y\",d=>d.y).attr(\"width\",d=>Math.max(0,d.width)).attr(\"height\",d=>Math.max(0,d.height)).attr(\"fill\",d=>colorScale(d.secondaryKey)).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",1).attr(\"pointer-events\",\"none\");const isSmall=dims.innerWidth<350||dims.innerHeight<300;if((showLabels||showPercentages)&&!isSmall){g.selectAll(\".mekko-label\").data(allSegments).join(\"text\").attr(\"class\",\"mekko-label\").attr(\"x\",d=>d.x+d.width/2).attr(\"y\",d=>d.y+d.height/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"central\").attr(\"fill\",d=>contrastText(colorScale(d.secondaryKey))).attr(\"font-size\",d=>{const minDim=Math.min(d.width,d.height);return Math.max(9,Math.min(12,minDim/4))+\"px\"}).attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"pointer-events\",\"none\").text(d=>{if(d.width<45||d.height<22)return\"\";const parts=[];const maxChars=Math.max(3,Math.floor(d.width/8));if(showLabels&&d.width>=65&&d.height>=30){parts.push(truncateLabel(d.secondaryKey,Math.min(maxChars,Math.floor(d.width/7))))}if(showPercentages&&d.width>=45&&d.height>=22){parts.push(d.pctOfColumn.toFixed(0)+\"%\")}const text=parts.join(\" \");if(text.length*6.5>d.width-4)return parts.length>1?parts[parts.length-1]:\"\";return text})}const axisG=g.append(\"g\");columns.forEach(col=>{const centerX=col.x+col.width/2;const charWidth=7;const maxChars=Math.max(3,Math.floor(col.width/charWidth));const label=truncateLabel(col.primaryKey,maxChars);const needsRotation=col.width<40&&col.primaryKey.length>3;const labelG=axisG.append(\"text\").attr(\"x\",centerX).attr(\"y\",dims.innerHeight+16).attr(\"text-anchor\",needsRotation?\"end\":\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");if(needsRotation){labelG.attr(\"transform\",`rotate(-35, ${centerX}, ${dims.innerHeight+16})`).attr(\"dx\",\"-0.3em\").attr(\"dy\",\"0.15em\")}labelG.text(label);if(col.primaryKey.length>maxChars){labelG.append(\"title\").text(col.primaryKey)}const colPct=grandTotal>0?(col.total/grandTotal*100).toFixed(0)+\"%\":\"\";if(col.width>=30){axisG.append(\"text\").attr(\"x\",centerX).attr(\"y\",dims.innerHeight+(needsRotation?28:30)).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"10px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"opacity\",.6).text(colPct)}});axisG.append(\"line\").attr(\"x1\",0).attr(\"y1\",dims.innerHeight).attr(\"x2\",dims.innerWidth).attr(\"y2\",dims.innerHeight).attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);addSortControls(svg,container,spec,dims,renderMarimekko)}return __toCommonJS(marimekko_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
 export const metricBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var metric_render_exports={};__export(metric_render_exports,{renderChart:()=>renderMetric});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function formatMetricValue(value,format,abbreviate,prefix,suffix){let formatted;switch(format){case\"currency\":formatted=abbreviate?formatValue(value):value.toLocaleString();return`${prefix||\"$\"}${formatted}${suffix}`;case\"percent\":formatted=abbreviate&&Math.abs(value)>=1e3?formatValue(value):value.toFixed(1);return`${prefix}${formatted}%${suffix}`;case\"integer\":formatted=abbreviate?formatValue(value):Math.round(value).toLocaleString();return`${prefix}${formatted}${suffix}`;case\"decimal\":formatted=abbreviate&&Math.abs(value)>=1e3?formatValue(value):value.toFixed(2);return`${prefix}${formatted}${suffix}`;default:if(abbreviate&&Math.abs(value)>=1e3){formatted=formatValue(value)}else if(Number.isInteger(value)){formatted=value.toLocaleString()}else{formatted=value%1!==0?value.toFixed(1):value.toLocaleString()}return`${prefix}${formatted}${suffix}`}}function computeDelta(current,previous){if(previous===0)return{pct:\"N/A\",direction:\"flat\"};const change=(current-previous)/Math.abs(previous)*100;if(Math.abs(change)<.05)return{pct:\"0%\",direction:\"flat\"};const direction=change>0?\"up\":\"down\";return{pct:`${Math.abs(change).toFixed(1)}%`,direction}}function gridColumns(count,configColumns){if(typeof configColumns===\"number\"&&configColumns>0){return`repeat(${configColumns}, 1fr)`}if(count===1)return\"1fr\";if(count===2)return\"repeat(2, 1fr)\";if(count<=3)return`repeat(${count}, 1fr)`;if(count===4)return\"repeat(2, 1fr)\";if(count<=6)return\"repeat(3, 1fr)\";if(count<=9)return\"repeat(3, 1fr)\";return\"repeat(4, 1fr)\"}function adaptiveValueSize(count,containerWidth,containerHeight){const area=containerWidth*containerHeight;let base;if(area<15e4)base=28;else if(area<3e5)base=36;else if(area<5e5)base=48;else base=60;if(count<=1)return base;if(count<=2)return Math.round(base*.9);if(count<=4)return Math.round(base*.75);if(count<=6)return Math.round(base*.65);return Math.round(base*.55)}function adaptiveLabelSize(valueFontSize){return Math.max(10,Math.round(valueFontSize*.22))}function renderMetric(container,spec){const{config,data}=spec;const labelField=config.labelField||\"label\";const valueField=config.valueField||\"value\";const previousValueField=config.previousValueField||null;const abbreviate=config.abbreviate!==false;const format=config.format||\"auto\";const prefix=config.prefix||\"\";const suffix=config.suffix||\"\";const configColumns=config.columns;const width=container.clientWidth||800;const height=container.clientHeight||500;const count=data.length;const valueFontSize=adaptiveValueSize(count,width,height);const labelFontSize=adaptiveLabelSize(valueFontSize);const wrapper=document.createElement(\"div\");wrapper.style.cssText=`\n    width: ${width}px;\n    height: ${height}px;\n    background: ${DARK_BG};\n    border-radius: 8px;\n    display: flex;\n    flex-direction: column;\n    font-family: Inter, system-ui, sans-serif;\n    overflow: hidden;\n  `;if(spec.title){const titleEl=document.createElement(\"div\");titleEl.style.cssText=`\n      text-align: center;\n      color: ${TEXT_COLOR};\n      font-size: 14px;\n      font-weight: 600;\n      padding: 16px 16px 0;\n      flex-shrink: 0;\n      overflow: hidden;\n      text-overflow: ellipsis;\n      white-space: nowrap;\n    `;titleEl.textContent=spec.title;titleEl.title=spec.title;wrapper.appendChild(titleEl)}const grid=document.createElement(\"div\");grid.style.cssText=`\n    flex: 1;\n    display: grid;\n    grid-template-columns: ${gridColumns(count,configColumns)};\n    gap: 8px;\n    padding: 24px;\n    align-items: center;\n    justify-items: center;\n  `;for(const row of data){const label=String(row[labelField]??\"\");const rawValue=Number(row[valueField]);const value=isNaN(rawValue)?0:rawValue;const hasPrev=previousValueField&&row[previousValueField]!=null;const prevValue=hasPrev?Number(row[previousValueField]):null;const card=document.createElement(\"div\");card.style.cssText=`\n      text-align: center;\n      padding: 8px 12px;\n      width: 100%;\n      min-width: 0;\n      overflow: hidden;\n    `;const numberEl=document.createElement(\"div\");numberEl.style.cssText=`\n      color: ${TEXT_COLOR};\n      font-size: ${valueFontSize}px;\n      font-weight: 300;\n      line-height: 1.1;\n      white-space: nowrap;\n      overflow: hidden;\n      text-overflow: ellipsis;\n      max-width: 100%;\n    `;numberEl.textContent=formatMetricValue(value,format,abbreviate,prefix,suffix);card.appendChild(numberEl);const labelEl=document.createElement(\"div\");labelEl.style.cssText=`\n      color: ${TEXT_MUTED};\n      font-size: ${labelFontSize}px;\n      font-weight: 700;\n      text-transform: uppercase;\n      letter-spacing: 1.5px;\n      margin-top: 2px;\n      white-space: nowrap;\n      overflow: hidden;\n      text-overflow: ellipsis;\n      max-width: 100%;\n    `;labelEl.textContent=label;if(label.length>30)labelEl.title=label;card.appendChild(labelEl);if(prevValue!==null&&!isNaN(prevValue)){const delta=computeDelta(value,prevValue);const deltaEl=document.createElement(\"div\");const deltaColor=delta.direction===\"up\"?\"#10b981\":delta.direction===\"down\"?\"#ef4444\":TEXT_MUTED;const arrow=delta.direction===\"up\"?\"\\u25B2\":delta.direction===\"down\"?\"\\u25BC\":\"\\u25B6\";deltaEl.style.cssText=`\n        color: ${deltaColor};\n        font-size: ${Math.max(10,Math.round(valueFontSize*.2))}px;\n        font-weight: 600;\n        margin-top: 4px;\n      `;deltaEl.textContent=`${arrow} ${delta.pct}`;card.appendChild(deltaEl)}grid.appendChild(card)}wrapper.appendChild(grid);container.appendChild(wrapper)}return __toCommonJS(metric_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
@@ -33,7 +33,7 @@ export const ridgelineBundle = "\"use strict\";var __dolex=(()=>{var __defProp=O
 export const sankeyBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var sankey_render_exports={};__export(sankey_render_exports,{renderChart:()=>renderSankey});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function tooltipHtml(strings,...values){let result=strings[0];for(let i=0;i<values.length;i++){result+=escapeHtml(values[i])+strings[i+1]}return result}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function truncateLabel(label,maxLength=25){const str=String(label);if(str.length<=maxLength)return str;return str.slice(0,maxLength-1)+\"\\u2026\"}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function isAllZeros(data,field){return data.every(d=>Number(d[field])===0)}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function computeSankeyLayout(nodeNames,linkData,width,height,nodeWidth,nodePadding){const nodeMap=new Map;nodeNames.forEach(name=>{nodeMap.set(name,{name,x0:0,x1:0,y0:0,y1:0,value:0,sourceLinks:[],targetLinks:[],layer:0})});const links=linkData.map(l=>{const source=nodeMap.get(l.source);const target=nodeMap.get(l.target);if(!source||!target)return null;const link={source,target,value:l.value,width:0,y0:0,y1:0};source.sourceLinks.push(link);target.targetLinks.push(link);return link}).filter(Boolean);const nodes=[...nodeMap.values()];computeNodeValues(nodes);assignLayers(nodes);positionNodes(nodes,width,height,nodeWidth,nodePadding);computeLinkPositions(nodes,links);return{nodes,links}}function computeNodeValues(nodes){nodes.forEach(node=>{const outSum=node.sourceLinks.reduce((s,l)=>s+l.value,0);const inSum=node.targetLinks.reduce((s,l)=>s+l.value,0);node.value=Math.max(outSum,inSum)})}function assignLayers(nodes){let sources=nodes.filter(n=>n.targetLinks.length===0);if(sources.length===0&&nodes.length>0){const best=nodes.reduce((a,b)=>{const aOut=a.sourceLinks.reduce((s,l)=>s+l.value,0);const bOut=b.sourceLinks.reduce((s,l)=>s+l.value,0);return aOut>=bOut?a:b});sources=[best]}const visited=new Set;const queue=sources.map(n=>({node:n,layer:0}));while(queue.length>0){const{node,layer}=queue.shift();if(visited.has(node.name))continue;visited.add(node.name);node.layer=layer;node.sourceLinks.forEach(link=>{if(!visited.has(link.target.name)){queue.push({node:link.target,layer:layer+1})}})}let nextLayer=nodes.reduce((mx,n)=>Math.max(mx,n.layer),0)+1;nodes.forEach(n=>{if(!visited.has(n.name)){n.layer=nextLayer++;visited.add(n.name)}});const maxLayer=nodes.reduce((mx,n)=>Math.max(mx,n.layer),0);if(maxLayer===0&&nodes.some(n=>n.sourceLinks.length>0)){nodes.forEach((n,i)=>{n.layer=i})}}function layoutColumnY(nodes,height,padding){const totalValue=nodes.reduce((s,n)=>s+n.value,0);const totalPadding=Math.max(0,(nodes.length-1)*padding);const availableHeight=height-totalPadding;const scale=totalValue>0?availableHeight/totalValue:1;const MIN_NODE_HEIGHT=3;let y=0;for(const node of nodes){node.y0=y;node.y1=y+Math.max(node.value*scale,MIN_NODE_HEIGHT);y=node.y1+padding}const excess=y-padding-height;if(excess>0&&nodes.length>0){const compressionFactor=height/(y-padding);let cy=0;for(const node of nodes){const h=(node.y1-node.y0)*compressionFactor;node.y0=cy;node.y1=cy+h;cy+=h+padding*compressionFactor}}}function positionNodes(nodes,width,height,nodeWidth,nodePadding){const maxLayer=d3.max(nodes,n=>n.layer)||0;const layerGap=maxLayer>0?(width-nodeWidth)/maxLayer:0;nodes.forEach(node=>{node.x0=node.layer*layerGap;node.x1=node.x0+nodeWidth});const layers=[];for(let i=0;i<=maxLayer;i++){layers[i]=nodes.filter(n=>n.layer===i)}layers.forEach(layerNodes=>{layerNodes.sort((a,b)=>b.value-a.value);layoutColumnY(layerNodes,height,nodePadding)})}function computeLinkPositions(nodes,links){const MIN_LINK_WIDTH=2;links.forEach(link=>{const sourceTotal=link.source.value||1;const sourceHeight=link.source.y1-link.source.y0;link.width=Math.max(link.value/sourceTotal*sourceHeight,MIN_LINK_WIDTH)});nodes.forEach(node=>{let sy=node.y0;node.sourceLinks.sort((a,b)=>a.target.y0-b.target.y0);node.sourceLinks.forEach(link=>{link.y0=sy;sy+=link.width});let ty=node.y0;node.targetLinks.sort((a,b)=>a.source.y0-b.source.y0);node.targetLinks.forEach(link=>{const targetTotal=node.value||1;const targetHeight=node.y1-node.y0;const w=Math.max(link.value/targetTotal*targetHeight,MIN_LINK_WIDTH);link.y1=ty;link.width=Math.min(link.width,w)||link.width;ty+=w})})}function renderSankey(container,spec){const{config,encoding,data}=spec;const sourceField=config.sourceField||encoding.source?.field;const targetField=config.targetField||encoding.target?.field;const valueField=config.valueField||encoding.size?.field;const nodeWidth=config.nodeWidth??20;const nodePadding=config.nodePadding??10;const linkOpacity=config.linkOpacity??.4;const{svg,g,dims}=createSvg(container,spec,{top:40,left:20,right:20,bottom:20});const tooltip=createTooltip(container);if(valueField&&isAllZeros(data,valueField)){renderEmptyState(g,dims);return}let nodeNames;let linkData;if(config.nodes&&config.links){nodeNames=config.nodes.map(n=>n.name);linkData=config.links}else{const sources=data.map(d=>String(d[sourceField]));const targets=data.map(d=>String(d[targetField]));nodeNames=[...new Set([...sources,...targets])];linkData=data.map(d=>({source:String(d[sourceField]),target:String(d[targetField]),value:Number(d[valueField])||1}))}const{nodes,links}=computeSankeyLayout(nodeNames,linkData,dims.innerWidth,dims.innerHeight,nodeWidth,nodePadding);const nodeColorScale=d3.scaleOrdinal().domain(nodeNames).range(categorical);drawLinks(g,links,nodeColorScale,linkOpacity,tooltip);drawNodes(g,nodes,nodeColorScale,dims,tooltip);if(config.showLabels!==false){drawNodeLabels(g,nodes,config,dims)}}function drawLinks(g,links,colorScale,linkOpacity,tooltip){const linkPath=link=>{const sx=link.source.x1;const tx=link.target.x0;const mx=(sx+tx)/2;const sy0=link.y0;const ty0=link.y1;const w=link.width;return`\n      M ${sx},${sy0}\n      C ${mx},${sy0} ${mx},${ty0} ${tx},${ty0}\n      L ${tx},${ty0+w}\n      C ${mx},${ty0+w} ${mx},${sy0+w} ${sx},${sy0+w}\n      Z\n    `};g.selectAll(\".sankey-link\").data(links).join(\"path\").attr(\"class\",\"sankey-link\").attr(\"d\",linkPath).attr(\"fill\",d=>colorScale(d.source.name)).attr(\"opacity\",linkOpacity).attr(\"stroke\",\"none\").on(\"mouseover\",function(event,d){d3.select(this).attr(\"opacity\",linkOpacity+.3);showTooltip(tooltip,tooltipHtml`<strong>${d.source.name} → ${d.target.name}</strong><br/>Value: ${formatValue(d.value)}`,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){d3.select(this).attr(\"opacity\",linkOpacity);hideTooltip(tooltip)})}function drawNodes(g,nodes,colorScale,dims,tooltip){g.selectAll(\".sankey-node\").data(nodes).join(\"rect\").attr(\"class\",\"sankey-node\").attr(\"x\",d=>d.x0).attr(\"y\",d=>d.y0).attr(\"width\",d=>d.x1-d.x0).attr(\"height\",d=>Math.max(d.y1-d.y0,3)).attr(\"fill\",d=>colorScale(d.name)).attr(\"rx\",2).attr(\"stroke\",\"#0f1117\").attr(\"stroke-width\",1).on(\"mouseover\",function(event,d){d3.select(this).attr(\"opacity\",.8);const inflow=d.targetLinks.reduce((s,l)=>s+l.value,0);const outflow=d.sourceLinks.reduce((s,l)=>s+l.value,0);let html=tooltipHtml`<strong>${d.name}</strong><br/>Total: ${formatValue(d.value)}`;if(inflow>0)html+=tooltipHtml`<br/>Inflow: ${formatValue(inflow)}`;if(outflow>0)html+=tooltipHtml`<br/>Outflow: ${formatValue(outflow)}`;showTooltip(tooltip,html,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){d3.select(this).attr(\"opacity\",1);hideTooltip(tooltip)})}function drawNodeLabels(g,nodes,config,dims){g.selectAll(\".sankey-label\").data(nodes).join(\"text\").attr(\"class\",\"sankey-label\").attr(\"x\",d=>{if(d.x0<dims.innerWidth/2)return d.x1+6;return d.x0-6}).attr(\"y\",d=>(d.y0+d.y1)/2).attr(\"dy\",\"0.35em\").attr(\"text-anchor\",d=>d.x0<dims.innerWidth/2?\"start\":\"end\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(d=>{const isRight=d.x0>=dims.innerWidth/2;const availChars=isRight?Math.max(10,Math.floor((d.x0-6)/6.5)):Math.max(10,Math.floor((dims.innerWidth-d.x1-6)/6.5));const label=truncateLabel(d.name,Math.min(availChars,30));if(config.showValues!==false)return`${label} (${formatValue(d.value)})`;return label})}return __toCommonJS(sankey_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
 export const scatterBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var scatter_render_exports={};__export(scatter_render_exports,{renderChart:()=>renderScatter});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function tooltipHtml(strings,...values){let result=strings[0];for(let i=0;i<values.length;i++){result+=escapeHtml(values[i])+strings[i+1]}return result}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function createLegend(source,options){const shape=options?.shape??\"square\";const callbacks=options?.callbacks;let entries;if(Array.isArray(source)&&source.length>0&&source[0]?.label!==void 0){entries=source}else{const domain=source.domain?.()??[];entries=domain.map(label=>({label:String(label),color:source(label)}))}if(!entries.length){return document.createElement(\"div\")}const maxItems=options?.maxItems??12;let overflowCount=0;if(entries.length>maxItems){overflowCount=entries.length-(maxItems-1);entries=entries.slice(0,maxItems-1)}const maxLabelLen=20;const displayLabels=smartTruncateLabels(entries.map(e=>e.label),maxLabelLen);const legend=document.createElement(\"div\");legend.style.cssText=`\n    display: flex; flex-wrap: wrap; justify-content: center; gap: 4px 14px;\n    padding: 6px 12px 8px; font-family: Inter, system-ui, sans-serif;\n    font-size: 11px; line-height: 1;\n  `;entries.forEach((entry,idx)=>{const item=document.createElement(\"div\");item.style.cssText=callbacks?\"display: inline-flex; align-items: center; gap: 5px; white-space: nowrap; cursor: pointer; transition: opacity 0.15s;\":\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";item.setAttribute(\"data-series\",entry.label);const swatch=document.createElement(\"span\");if(shape===\"circle\"){swatch.style.cssText=`\n        width: 8px; height: 8px; border-radius: 50%;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line\"){swatch.style.cssText=`\n        width: 16px; height: 3px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line-dot\"){swatch.style.cssText=`\n        width: 16px; height: 2px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; position: relative;\n        transition: transform 0.15s;\n      `;const dot=document.createElement(\"span\");dot.style.cssText=`\n        position: absolute; top: 50%; left: 50%;\n        transform: translate(-50%, -50%);\n        width: 6px; height: 6px; border-radius: 50%;\n        background: ${entry.color}; border: 1px solid ${DARK_BG};\n      `;swatch.appendChild(dot)}else{swatch.style.cssText=`\n        width: 10px; height: 10px; border-radius: 2px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}const text=document.createElement(\"span\");text.style.color=TEXT_MUTED;text.textContent=displayLabels[idx];if(entry.label.length>maxLabelLen)text.title=entry.label;item.appendChild(swatch);item.appendChild(text);if(entry.extra){const extra=document.createElement(\"span\");extra.style.color=TEXT_MUTED;extra.style.opacity=\"0.7\";extra.textContent=entry.extra;item.appendChild(extra)}if(callbacks){item.addEventListener(\"mouseenter\",()=>{swatch.style.transform=shape===\"line\"||shape===\"line-dot\"?\"scaleY(2)\":\"scale(1.4)\";callbacks.onHover?.(entry.label)});item.addEventListener(\"mouseleave\",()=>{swatch.style.transform=\"\";callbacks.onLeave?.()})}legend.appendChild(item)});if(overflowCount>0){const more=document.createElement(\"div\");more.style.cssText=\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";const moreText=document.createElement(\"span\");moreText.style.cssText=`color: ${TEXT_MUTED}; opacity: 0.6; font-style: italic;`;moreText.textContent=`+${overflowCount} more`;more.appendChild(moreText);legend.appendChild(more)}return legend}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function renderScatter(container,spec){const{config,encoding,data}=spec;const xField=config.xField||encoding.x?.field;const yField=config.yField||encoding.y?.field;const colorField=config.colorField||encoding.color?.field||null;const sizeField=config.sizeField||encoding.size?.field||null;const baseRadius=config.dotRadius??5;const opacity=config.opacity??.7;const hasLegend=colorField!==null;container.innerHTML=\"\";container.style.display=\"flex\";container.style.flexDirection=\"column\";container.style.overflow=\"hidden\";const chartWrapper=document.createElement(\"div\");chartWrapper.style.cssText=\"flex: 1; min-height: 0;\";container.appendChild(chartWrapper);const{svg,g,dims}=createSvg(chartWrapper,spec,{right:30});const tooltip=createTooltip(container);const validData=data.filter(d=>{const xVal=Number(d[xField]);const yVal=Number(d[yField]);return isFinite(xVal)&&isFinite(yVal)});if(validData.length===0){container.innerHTML=`<div style=\"display:flex;align-items:center;justify-content:center;height:100%;color:#9ca3af;font-size:14px;font-family:Inter,system-ui,sans-serif;background:#0f1117;border-radius:8px;\">No valid numeric data for scatter plot</div>`;return}const xValues=validData.map(d=>Number(d[xField]));const yValues=validData.map(d=>Number(d[yField]));const xExtent=d3.extent(xValues);const yExtent=d3.extent(yValues);const xPad=(xExtent[1]-xExtent[0])*.05||1;const yPad=(yExtent[1]-yExtent[0])*.05||1;const xScale=d3.scaleLinear().domain([xExtent[0]-xPad,xExtent[1]+xPad]).range([0,dims.innerWidth]).nice();const yScale=d3.scaleLinear().domain([yExtent[0]-yPad,yExtent[1]+yPad]).range([dims.innerHeight,0]).nice();const xTickCount=getAdaptiveTickCount(dims.innerWidth);const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(xScale).ticks(xTickCount).tickSize(-dims.innerHeight).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(xAxis);const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(yAxis);const colorScale=buildColorScale(encoding.color,validData);let sizeScale=()=>baseRadius;if(sizeField){const sizeExtent=d3.extent(validData,d=>Number(d[sizeField]));const maxBubbleRadius=Math.min(dims.innerWidth,dims.innerHeight)*.06;const sizeRange=encoding.size?.range||[3,20];const clampedRange=[Math.min(sizeRange[0],maxBubbleRadius),Math.min(sizeRange[1],maxBubbleRadius)];sizeScale=d3.scaleSqrt().domain(sizeExtent).range(clampedRange)}const pointDensity=validData.length/(dims.innerWidth*dims.innerHeight/1e4);let dotRadius=baseRadius;if(!sizeField){if(pointDensity>5)dotRadius=Math.max(2,baseRadius-2);else if(pointDensity>2)dotRadius=Math.max(3,baseRadius-1)}const jitter=config.jitter??0;const pointPositions=validData.map((d,i)=>{const xBase=xScale(Number(d[xField]));const yBase=yScale(Number(d[yField]));return{d,i,cx:jitter?xBase+(seededJitter(i,0)-.5)*jitter:xBase,cy:jitter?yBase+(seededJitter(i,1)-.5)*jitter:yBase,r:sizeField?sizeScale(Number(d[sizeField])):dotRadius}});const delaunay=d3.Delaunay.from(pointPositions,p=>p.cx,p=>p.cy);let activeIdx=-1;g.append(\"rect\").attr(\"class\",\"voronoi-overlay\").attr(\"width\",dims.innerWidth).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"crosshair\").on(\"mousemove\",function(event){const[mx,my]=d3.pointer(event,g.node());const idx=delaunay.find(mx,my);if(idx===activeIdx){positionTooltip(tooltip,event);return}if(activeIdx>=0){const prev=pointPositions[activeIdx];g.selectAll(\".dot\").filter((_,j)=>j===prev.i).attr(\"r\",prev.r).attr(\"opacity\",opacity)}activeIdx=idx;const p=pointPositions[idx];g.selectAll(\".dot\").filter((_,j)=>j===p.i).attr(\"r\",p.r*1.5).attr(\"opacity\",1);let html=tooltipHtml`<strong>${encoding.x?.title||xField}</strong>: ${formatValue(Number(p.d[xField]))}<br/><strong>${encoding.y?.title||yField}</strong>: ${formatValue(Number(p.d[yField]))}`;if(colorField)html+=tooltipHtml`<br/>${colorField}: ${p.d[colorField]}`;if(sizeField)html+=tooltipHtml`<br/>${sizeField}: ${formatValue(Number(p.d[sizeField]))}`;showTooltip(tooltip,html,event)}).on(\"mouseleave\",function(){if(activeIdx>=0){const prev=pointPositions[activeIdx];g.selectAll(\".dot\").filter((_,j)=>j===prev.i).attr(\"r\",prev.r).attr(\"opacity\",opacity);activeIdx=-1}hideTooltip(tooltip)});g.selectAll(\".dot\").data(pointPositions).join(\"circle\").attr(\"class\",\"dot\").attr(\"cx\",p=>p.cx).attr(\"cy\",p=>p.cy).attr(\"r\",p=>p.r).attr(\"fill\",p=>colorField?colorScale(p.d[colorField]):categorical[0]).attr(\"opacity\",opacity).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",1).attr(\"pointer-events\",\"none\");if(xExtent[0]===xExtent[1]&&yExtent[0]===yExtent[1]&&validData.length>1){g.append(\"text\").attr(\"x\",xScale(xExtent[0])).attr(\"y\",yScale(yExtent[0])-20).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"pointer-events\",\"none\").text(`${validData.length} points at (${formatValue(xExtent[0])}, ${formatValue(yExtent[0])})`)}if(config.showTrendLine||config.showRegressionLine){const validData2=data.map(d=>({x:Number(d[xField]),y:Number(d[yField])})).filter(d=>!isNaN(d.x)&&!isNaN(d.y));if(validData2.length>=2){const n=validData2.length;const sumX=validData2.reduce((s,d)=>s+d.x,0);const sumY=validData2.reduce((s,d)=>s+d.y,0);const sumXY=validData2.reduce((s,d)=>s+d.x*d.y,0);const sumX2=validData2.reduce((s,d)=>s+d.x*d.x,0);const denom=n*sumX2-sumX*sumX;if(Math.abs(denom)>1e-10){const slope=(n*sumXY-sumX*sumY)/denom;const intercept=(sumY-slope*sumX)/n;const x1=xExtent[0];const x2=xExtent[1];g.append(\"line\").attr(\"x1\",xScale(x1)).attr(\"y1\",yScale(slope*x1+intercept)).attr(\"x2\",xScale(x2)).attr(\"y2\",yScale(slope*x2+intercept)).attr(\"stroke\",\"#f59e0b\").attr(\"stroke-width\",1.5).attr(\"stroke-dasharray\",\"6,4\").attr(\"opacity\",.7).attr(\"pointer-events\",\"none\")}}}if(hasLegend){const legendDiv=createLegend(colorScale,{shape:\"circle\",callbacks:{onHover:category=>{g.selectAll(\".dot\").each(function(_,j){const p=pointPositions[j];const isMatch=p.d[colorField]===category;d3.select(this).attr(\"opacity\",isMatch?1:.08).attr(\"r\",isMatch?p.r*1.3:p.r)})},onLeave:()=>{g.selectAll(\".dot\").each(function(_,j){const p=pointPositions[j];d3.select(this).attr(\"opacity\",opacity).attr(\"r\",p.r)})}}});container.appendChild(legendDiv)}}function seededJitter(index,axis){let s=(index+1)*16807+axis*12345;s=(s*16807+0)%2147483647;return(s-1)/2147483646}return __toCommonJS(scatter_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
 export const slopeChartBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var slope_chart_render_exports={};__export(slope_chart_render_exports,{renderChart:()=>renderSlopeChart});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function tooltipHtml(strings,...values){let result=strings[0];for(let i=0;i<values.length;i++){result+=escapeHtml(values[i])+strings[i+1]}return result}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function resolveCollisions(labels,minSpacing,minY,maxY){const passes=Math.min(labels.length,8);for(let pass=0;pass<passes;pass++){for(let i=1;i<labels.length;i++){const overlap=labels[i-1].y+minSpacing-labels[i].y;if(overlap>0){labels[i-1].y-=overlap/2;labels[i].y+=overlap/2}}}for(let i=1;i<labels.length;i++){if(labels[i].y<labels[i-1].y+minSpacing){labels[i].y=labels[i-1].y+minSpacing}}if(minY!=null||maxY!=null){if(maxY!=null&&labels.length>0&&labels[labels.length-1].y>maxY){labels[labels.length-1].y=maxY;for(let i=labels.length-2;i>=0;i--){if(labels[i].y>labels[i+1].y-minSpacing){labels[i].y=labels[i+1].y-minSpacing}}}if(minY!=null&&labels.length>0&&labels[0].y<minY){labels[0].y=minY;for(let i=1;i<labels.length;i++){if(labels[i].y<labels[i-1].y+minSpacing){labels[i].y=labels[i-1].y+minSpacing}}}}}function renderSlopeChart(container,spec){const{config,encoding,data}=spec;const categoryField=config.categoryField||encoding.color?.field;const valueField=config.valueField||encoding.y?.field;const timeField=config.timeField||encoding.x?.field;const periods=config.periods||[...new Set(data.map(d=>d[timeField]))].slice(0,2);const categories=[...new Set(data.map(d=>d[categoryField]))];const maxCatLen=Math.max(...categories.map(c=>String(c).length));const truncLen=Math.min(maxCatLen,20);const leftMarginEstimate=Math.max(100,Math.min(200,truncLen*7+60));const{svg,g,dims}=createSvg(container,spec,{left:leftMarginEstimate,right:100});const tooltip=createTooltip(container);const grouped={};categories.forEach(cat=>{grouped[cat]={};data.filter(d=>d[categoryField]===cat).forEach(d=>{grouped[cat][d[timeField]]=Number(d[valueField])})});const allValues=data.map(d=>Number(d[valueField]));const yScale=d3.scaleLinear().domain([d3.min(allValues)*.9,d3.max(allValues)*1.1]).range([dims.innerHeight,0]).nice();const xScale=d3.scalePoint().domain(periods).range([0,dims.innerWidth]).padding(0);const colorScale=buildColorScale(encoding.color,data);periods.forEach(period=>{g.append(\"line\").attr(\"x1\",xScale(period)).attr(\"y1\",0).attr(\"x2\",xScale(period)).attr(\"y2\",dims.innerHeight).attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",1);g.append(\"text\").attr(\"x\",xScale(period)).attr(\"y\",dims.innerHeight+25).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"13px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(String(period))});if(periods.length<=1){const singlePeriod=periods[0];const dotX=dims.innerWidth/2;const singleData=categories.map(cat=>{const catStr=cat;const vals=grouped[catStr];if(vals[singlePeriod]==null)return null;return{category:catStr,value:vals[singlePeriod],color:colorScale(cat)}}).filter(Boolean);const minLabelSpacing=14;const labels=singleData.map(d=>({...d,y:yScale(d.value)})).sort((a,b)=>a.y-b.y);resolveCollisions(labels,minLabelSpacing,0,dims.innerHeight-10);labels.forEach(d=>{g.append(\"circle\").attr(\"cx\",dotX).attr(\"cy\",yScale(d.value)).attr(\"r\",6).attr(\"fill\",d.color).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",2).attr(\"cursor\",\"pointer\").on(\"mouseover\",function(event){d3.select(this).attr(\"r\",8);showTooltip(tooltip,tooltipHtml`<strong>${d.category}</strong><br/>${singlePeriod}: ${formatValue(d.value)}`,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){d3.select(this).attr(\"r\",6);hideTooltip(tooltip)});g.append(\"text\").attr(\"x\",dotX-14).attr(\"y\",d.y+4).attr(\"text-anchor\",\"end\").attr(\"fill\",d.color).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"pointer-events\",\"none\").text(d.category);g.append(\"text\").attr(\"x\",dotX+14).attr(\"y\",d.y+4).attr(\"text-anchor\",\"start\").attr(\"fill\",d.color).attr(\"font-size\",\"11px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"pointer-events\",\"none\").text(formatValue(d.value))});return}const lineData=categories.map(cat=>{const catStr=cat;const vals=grouped[catStr];if(vals[periods[0]]==null||vals[periods[1]]==null)return null;return{category:catStr,vals,y1:yScale(vals[periods[0]]),y2:yScale(vals[periods[1]]),color:colorScale(cat)}}).filter(Boolean);lineData.forEach((d,idx)=>{g.append(\"line\").attr(\"class\",\"slope-hover-target\").attr(\"x1\",xScale(periods[0])).attr(\"y1\",d.y1).attr(\"x2\",xScale(periods[1])).attr(\"y2\",d.y2).attr(\"stroke\",\"transparent\").attr(\"stroke-width\",16).attr(\"cursor\",\"pointer\").on(\"mouseover\",function(event){g.select(`.slope-line-${idx}`).attr(\"stroke-width\",4).attr(\"opacity\",1);g.selectAll(`.slope-dot-${idx}`).attr(\"r\",6);const change=d.vals[periods[1]]-d.vals[periods[0]];const pctChange=(change/d.vals[periods[0]]*100).toFixed(1);showTooltip(tooltip,tooltipHtml`<strong>${d.category}</strong><br/>${periods[0]}: ${formatValue(d.vals[periods[0]])}<br/>${periods[1]}: ${formatValue(d.vals[periods[1]])}<br/>Change: ${change>=0?\"+\":\"\"}${pctChange}%`,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){g.select(`.slope-line-${idx}`).attr(\"stroke-width\",2.5).attr(\"opacity\",.8);g.selectAll(`.slope-dot-${idx}`).attr(\"r\",5);hideTooltip(tooltip)})});lineData.forEach((d,idx)=>{g.append(\"line\").attr(\"class\",`slope-line-${idx}`).attr(\"x1\",xScale(periods[0])).attr(\"y1\",d.y1).attr(\"x2\",xScale(periods[1])).attr(\"y2\",d.y2).attr(\"stroke\",d.color).attr(\"stroke-width\",2.5).attr(\"opacity\",.8).attr(\"pointer-events\",\"none\");[periods[0],periods[1]].forEach(period=>{g.append(\"circle\").attr(\"class\",`slope-dot-${idx}`).attr(\"cx\",xScale(period)).attr(\"cy\",yScale(d.vals[period])).attr(\"r\",5).attr(\"fill\",d.color).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",2).attr(\"pointer-events\",\"none\")})});if(config.showLabels!==false){const isMany=lineData.length>15;const fontSize=isMany?\"9px\":\"11px\";const minLabelSpacing=isMany?10:12;const labelBoundsMin=0;const labelBoundsMax=dims.innerHeight-10;const maxLeftChars=isMany?12:truncLen;const leftLabels=lineData.map(d=>({category:d.category,y:d.y1,value:d.vals[periods[0]],color:d.color})).sort((a,b)=>a.y-b.y);resolveCollisions(leftLabels,minLabelSpacing,labelBoundsMin,labelBoundsMax);leftLabels.forEach(lbl=>{const catLabel=lbl.category.length>maxLeftChars?lbl.category.slice(0,maxLeftChars-1)+\"\\u2026\":lbl.category;g.append(\"text\").attr(\"x\",xScale(periods[0])-10).attr(\"y\",lbl.y+4).attr(\"text-anchor\",\"end\").attr(\"fill\",lbl.color).attr(\"font-size\",fontSize).attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"pointer-events\",\"none\").text(`${catLabel} (${formatValue(lbl.value)})`)});const rightLabels=lineData.map(d=>({category:d.category,y:d.y2,value:d.vals[periods[1]],color:d.color})).sort((a,b)=>a.y-b.y);resolveCollisions(rightLabels,minLabelSpacing,labelBoundsMin,labelBoundsMax);rightLabels.forEach(lbl=>{g.append(\"text\").attr(\"x\",xScale(periods[1])+10).attr(\"y\",lbl.y+4).attr(\"text-anchor\",\"start\").attr(\"fill\",lbl.color).attr(\"font-size\",fontSize).attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"pointer-events\",\"none\").text(formatValue(lbl.value))})}}return __toCommonJS(slope_chart_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
-export const smallMultiplesBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var small_multiples_render_exports={};__export(small_multiples_render_exports,{renderChart:()=>renderSmallMultiples});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function parseDate(v){if(v instanceof Date)return isNaN(v.getTime())?null:v;if(v===null||v===void 0||v===\"\")return null;const num=typeof v===\"number\"?v:Number(v);if(!isNaN(num)&&num>1800&&num<2200&&Math.floor(num)===num){return new Date(num,0,1)}const d=new Date(v);return isNaN(d.getTime())?null:d}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function createLegend(source,options){const shape=options?.shape??\"square\";const callbacks=options?.callbacks;let entries;if(Array.isArray(source)&&source.length>0&&source[0]?.label!==void 0){entries=source}else{const domain=source.domain?.()??[];entries=domain.map(label=>({label:String(label),color:source(label)}))}if(!entries.length){return document.createElement(\"div\")}const maxItems=options?.maxItems??12;let overflowCount=0;if(entries.length>maxItems){overflowCount=entries.length-(maxItems-1);entries=entries.slice(0,maxItems-1)}const maxLabelLen=20;const displayLabels=smartTruncateLabels(entries.map(e=>e.label),maxLabelLen);const legend=document.createElement(\"div\");legend.style.cssText=`\n    display: flex; flex-wrap: wrap; justify-content: center; gap: 4px 14px;\n    padding: 6px 12px 8px; font-family: Inter, system-ui, sans-serif;\n    font-size: 11px; line-height: 1;\n  `;entries.forEach((entry,idx)=>{const item=document.createElement(\"div\");item.style.cssText=callbacks?\"display: inline-flex; align-items: center; gap: 5px; white-space: nowrap; cursor: pointer; transition: opacity 0.15s;\":\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";item.setAttribute(\"data-series\",entry.label);const swatch=document.createElement(\"span\");if(shape===\"circle\"){swatch.style.cssText=`\n        width: 8px; height: 8px; border-radius: 50%;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line\"){swatch.style.cssText=`\n        width: 16px; height: 3px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line-dot\"){swatch.style.cssText=`\n        width: 16px; height: 2px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; position: relative;\n        transition: transform 0.15s;\n      `;const dot=document.createElement(\"span\");dot.style.cssText=`\n        position: absolute; top: 50%; left: 50%;\n        transform: translate(-50%, -50%);\n        width: 6px; height: 6px; border-radius: 50%;\n        background: ${entry.color}; border: 1px solid ${DARK_BG};\n      `;swatch.appendChild(dot)}else{swatch.style.cssText=`\n        width: 10px; height: 10px; border-radius: 2px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}const text=document.createElement(\"span\");text.style.color=TEXT_MUTED;text.textContent=displayLabels[idx];if(entry.label.length>maxLabelLen)text.title=entry.label;item.appendChild(swatch);item.appendChild(text);if(entry.extra){const extra=document.createElement(\"span\");extra.style.color=TEXT_MUTED;extra.style.opacity=\"0.7\";extra.textContent=entry.extra;item.appendChild(extra)}if(callbacks){item.addEventListener(\"mouseenter\",()=>{swatch.style.transform=shape===\"line\"||shape===\"line-dot\"?\"scaleY(2)\":\"scale(1.4)\";callbacks.onHover?.(entry.label)});item.addEventListener(\"mouseleave\",()=>{swatch.style.transform=\"\";callbacks.onLeave?.()})}legend.appendChild(item)});if(overflowCount>0){const more=document.createElement(\"div\");more.style.cssText=\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";const moreText=document.createElement(\"span\");moreText.style.cssText=`color: ${TEXT_MUTED}; opacity: 0.6; font-style: italic;`;moreText.textContent=`+${overflowCount} more`;more.appendChild(moreText);legend.appendChild(more)}return legend}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function findNearestDateIndex(sortedDates,targetTime){const bisect=d3.bisector(d=>d).left;let idx=bisect(sortedDates,targetTime);if(idx>0&&idx<sortedDates.length){const d0=sortedDates[idx-1];const d1=sortedDates[idx];idx=targetTime-d0>d1-targetTime?idx:idx-1}else if(idx>=sortedDates.length){idx=sortedDates.length-1}return idx}function createCrosshairGroup(g,dims){const crosshairLine=g.append(\"line\").attr(\"class\",\"crosshair\").attr(\"y1\",0).attr(\"y2\",dims.innerHeight).attr(\"stroke\",TEXT_MUTED).attr(\"stroke-width\",1).attr(\"stroke-dasharray\",\"4,3\").attr(\"pointer-events\",\"none\").attr(\"opacity\",0);const highlightDots=g.append(\"g\").attr(\"class\",\"highlight-dots\").attr(\"pointer-events\",\"none\");const hoverArea=g.append(\"rect\").attr(\"class\",\"hover-area\").attr(\"width\",dims.innerWidth).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"crosshair\");return{crosshairLine,highlightDots,hoverArea}}function renderLine(container,spec){const{config,encoding,data}=spec;const timeField=config.timeField||encoding.x?.field;const valueField=config.valueField||encoding.y?.field;const seriesField=config.seriesField||encoding.color?.field||null;const interpolation=config.interpolation||\"monotone\";const showPoints=interpolation===\"step\"?false:config.showPoints??data.length<=50;const showArea=config.showArea??false;const strokeWidth=config.strokeWidth??2;const parsedData=data.map(d=>({...d,_date:parseDate(d[timeField]),_value:Number(d[valueField])})).filter(d=>d._date!==null&&!isNaN(d._value));const colorScale=buildColorScale(encoding.color,data);const seriesNames=seriesField?[...new Set(parsedData.map(d=>d[seriesField]))]:[];const isMultiSeries=seriesNames.length>1;container.style.display=\"flex\";container.style.flexDirection=\"column\";container.style.background=DARK_BG;container.style.borderRadius=\"8px\";container.style.overflow=\"hidden\";const chartWrapper=document.createElement(\"div\");chartWrapper.style.flex=\"1\";chartWrapper.style.minHeight=\"0\";container.appendChild(chartWrapper);if(isMultiSeries){const legendDiv=createLegend(colorScale,{shape:\"line\"});container.appendChild(legendDiv)}const{svg,g,dims}=createSvg(chartWrapper,spec,{right:30,top:40},{background:false});const tooltip=createTooltip(chartWrapper);if(parsedData.every(d=>d._value===0)){renderEmptyState(g,dims);return}const xExtent=d3.extent(parsedData,d=>d._date);const xScale=d3.scaleTime().domain(xExtent).range([0,dims.innerWidth]).nice();const yExtent=d3.extent(parsedData,d=>d._value);let yMin;let yMax;if(yExtent[0]===yExtent[1]){const pad=yExtent[0]===0?1:Math.abs(yExtent[0])*.1;yMin=yExtent[0]-pad;yMax=yExtent[1]+pad}else{yMin=showArea?0:yExtent[0]*.9;yMax=yExtent[1]*1.05}const yScale=d3.scaleLinear().domain([yMin,yMax]).range([dims.innerHeight,0]).nice();const xTickCount=getAdaptiveTickCount(dims.innerWidth);const singleDate=xExtent[0].getTime()===xExtent[1].getTime();const xAxisGen=d3.axisBottom(xScale).tickSize(0).tickPadding(8);if(singleDate){xAxisGen.ticks(1).tickFormat(()=>parsedData[0]?.[timeField]??d3.timeFormat(\"%Y-%m-%d\")(xExtent[0]))}else{xAxisGen.ticks(xTickCount)}const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(xAxisGen);styleAxis(xAxis);const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(yAxis);const curveMap={linear:d3.curveLinear,monotone:d3.curveMonotoneX,basis:d3.curveBasis,step:d3.curveStepAfter,cardinal:d3.curveCardinal,catmullRom:d3.curveCatmullRom};const curve=curveMap[config.interpolation||\"monotone\"]||d3.curveMonotoneX;const lineGen=d3.line().x(d=>xScale(d._date)).y(d=>yScale(d._value)).curve(curve);const areaGen=d3.area().x(d=>xScale(d._date)).y0(dims.innerHeight).y1(d=>yScale(d._value)).curve(curve);const uniqueDates=new Set(parsedData.map(d=>d._date.getTime()));const isSinglePoint=uniqueDates.size<=1;if(isSinglePoint){const color=isMultiSeries?void 0:categorical[0];parsedData.forEach(d=>{const c=isMultiSeries?colorScale(d[seriesField]):color;g.append(\"circle\").attr(\"cx\",xScale(d._date)).attr(\"cy\",yScale(d._value)).attr(\"r\",6).attr(\"fill\",c).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2);g.append(\"text\").attr(\"x\",xScale(d._date)).attr(\"y\",yScale(d._value)-14).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(formatValue(d._value))})}else if(isMultiSeries){drawMultiSeries(g,parsedData,seriesField,seriesNames,colorScale,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth)}else{drawSingleSeries(g,parsedData,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth)}if(!isSinglePoint){addCrosshairHover(g,parsedData,seriesField,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,isMultiSeries)}}function drawMultiSeries(g,parsedData,seriesField,seriesNames,colorScale,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth){seriesNames.forEach(name=>{const seriesData=parsedData.filter(d=>d[seriesField]===name).sort((a,b)=>a._date.getTime()-b._date.getTime());const color=colorScale(name);if(showArea){g.append(\"path\").datum(seriesData).attr(\"fill\",color).attr(\"opacity\",.1).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\")}g.append(\"path\").datum(seriesData).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",strokeWidth).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\");if(showPoints){g.selectAll(`.point-${String(name).replace(/\\W/g,\"\")}`).data(seriesData).join(\"circle\").attr(\"class\",`point-${String(name).replace(/\\W/g,\"\")}`).attr(\"cx\",d=>xScale(d._date)).attr(\"cy\",d=>yScale(d._value)).attr(\"r\",1.25).attr(\"fill\",color).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",1.5).attr(\"pointer-events\",\"none\")}})}function drawSingleSeries(g,parsedData,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth){const sortedData=[...parsedData].sort((a,b)=>a._date.getTime()-b._date.getTime());const color=categorical[0];if(showArea){g.append(\"path\").datum(sortedData).attr(\"fill\",color).attr(\"opacity\",.1).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\")}g.append(\"path\").datum(sortedData).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",strokeWidth).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\");if(showPoints){g.selectAll(\".point\").data(sortedData).join(\"circle\").attr(\"class\",\"point\").attr(\"cx\",d=>xScale(d._date)).attr(\"cy\",d=>yScale(d._value)).attr(\"r\",1.25).attr(\"fill\",color).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",.75).attr(\"pointer-events\",\"none\")}}function addCrosshairHover(g,parsedData,seriesField,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,isMultiSeries){const dateMap=new Map;parsedData.forEach(d=>{const key=d._date.getTime();if(!dateMap.has(key))dateMap.set(key,[]);dateMap.get(key).push(d)});const sortedDates=[...dateMap.keys()].sort((a,b)=>a-b);const{crosshairLine,highlightDots,hoverArea}=createCrosshairGroup(g,dims);hoverArea.on(\"mousemove\",function(event){const[mx]=d3.pointer(event,this);const xDate=xScale.invert(mx).getTime();const idx=findNearestDateIndex(sortedDates,xDate);const nearestTime=sortedDates[idx];const nearestX=xScale(new Date(nearestTime));const points=dateMap.get(nearestTime)||[];crosshairLine.attr(\"x1\",nearestX).attr(\"x2\",nearestX).attr(\"opacity\",1);highlightDots.selectAll(\"circle\").remove();points.forEach(d=>{const color=isMultiSeries?colorScale(d[seriesField]):categorical[0];highlightDots.append(\"circle\").attr(\"cx\",nearestX).attr(\"cy\",yScale(d._value)).attr(\"r\",5).attr(\"fill\",color).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2)});g.selectAll(\".line-path\").attr(\"opacity\",.4);const dateLabel=points[0]?.[timeField]??new Date(nearestTime).toLocaleDateString();let html=`<strong>${escapeHtml(dateLabel)}</strong>`;if(isMultiSeries){const sorted=[...points].sort((a,b)=>b._value-a._value);sorted.forEach(d=>{const color=escapeHtml(colorScale(d[seriesField]));html+=`<br/><span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${color};margin-right:5px;vertical-align:middle;\"></span>${escapeHtml(d[seriesField])}: ${escapeHtml(formatValue(d._value))}`})}else{html+=`<br/>${escapeHtml(valueField)}: ${escapeHtml(formatValue(points[0]?._value))}`}showTooltip(tooltip,html,event)}).on(\"mouseout\",function(){crosshairLine.attr(\"opacity\",0);highlightDots.selectAll(\"circle\").remove();g.selectAll(\".line-path\").attr(\"opacity\",1);hideTooltip(tooltip)})}function renderSmallMultiples(container,spec){const{config,encoding,data}=spec;const timeField=config.timeField||encoding.x?.field;const valueField=config.valueField||encoding.y?.field;const seriesField=config.seriesField||encoding.color?.field;if(!seriesField){return renderLine(container,spec)}const seriesNames=[...new Set(data.map(d=>d[seriesField]))];const cols=Math.ceil(Math.sqrt(seriesNames.length));const rows=Math.ceil(seriesNames.length/cols);const width=container.clientWidth||800;const height=container.clientHeight||500;const titleReserve=spec.title?28:0;const cellW=width/cols;const cellH=(height-titleReserve)/rows;const cellMargin={top:18,right:20,bottom:20,left:40};const innerCellW=cellW-cellMargin.left-cellMargin.right;const innerCellH=cellH-cellMargin.top-cellMargin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height).style(\"background\",DARK_BG).style(\"border-radius\",\"8px\");if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",16).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"13px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const allDates=data.map(d=>parseDate(d[timeField])).filter(Boolean);const allValues=data.map(d=>Number(d[valueField])).filter(v=>!isNaN(v));const xDomain=d3.extent(allDates);const yDomain=[Math.min(0,d3.min(allValues)),d3.max(allValues)];if(allValues.every(v=>v===0)){svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",height/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"central\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(\"All values are zero\");return}const colorScale=buildColorScale(encoding.color,data);seriesNames.forEach((name,i)=>{const col=i%cols;const row=Math.floor(i/cols);const offsetX=col*cellW+cellMargin.left;const offsetY=row*cellH+cellMargin.top+titleReserve;const cellG=svg.append(\"g\").attr(\"transform\",`translate(${offsetX},${offsetY})`);const xScale=d3.scaleTime().domain(xDomain).range([0,innerCellW]);const yScale=d3.scaleLinear().domain(yDomain).range([innerCellH,0]);cellG.append(\"g\").attr(\"transform\",`translate(0,${innerCellH})`).call(d3.axisBottom(xScale).ticks(3).tickSize(0)).selectAll(\"text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"8px\");cellG.append(\"g\").call(d3.axisLeft(yScale).ticks(3).tickSize(0)).selectAll(\"text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"8px\");cellG.selectAll(\".domain\").remove();const maxLabelChars=Math.max(5,Math.floor(innerCellW/6));const seriesLabel=String(name);const truncatedLabel=seriesLabel.length>maxLabelChars?seriesLabel.slice(0,maxLabelChars-1)+\"\\u2026\":seriesLabel;cellG.append(\"text\").attr(\"x\",innerCellW/2).attr(\"y\",-4).attr(\"text-anchor\",\"middle\").attr(\"fill\",colorScale(name)).attr(\"font-size\",\"11px\").attr(\"font-weight\",\"500\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(truncatedLabel);const seriesData=data.filter(d=>d[seriesField]===name).map(d=>({...d,_date:parseDate(d[timeField]),_value:Number(d[valueField])})).filter(d=>d._date!==null).sort((a,b)=>a._date.getTime()-b._date.getTime());const line=d3.line().x(d=>xScale(d._date)).y(d=>yScale(d._value)).curve(d3.curveMonotoneX);const area=d3.area().x(d=>xScale(d._date)).y0(yScale(0)).y1(d=>yScale(d._value)).curve(d3.curveMonotoneX);if(seriesData.length<=1&&seriesData.length>0){const d=seriesData[0];cellG.append(\"circle\").attr(\"cx\",xScale(d._date)).attr(\"cy\",yScale(d._value)).attr(\"r\",5).attr(\"fill\",colorScale(name)).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",1.5);cellG.append(\"text\").attr(\"x\",xScale(d._date)).attr(\"y\",yScale(d._value)-10).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"9px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(d._value)}else{cellG.append(\"path\").datum(seriesData).attr(\"fill\",colorScale(name)).attr(\"opacity\",.08).attr(\"d\",area);cellG.append(\"path\").datum(seriesData).attr(\"fill\",\"none\").attr(\"stroke\",colorScale(name)).attr(\"stroke-width\",1.5).attr(\"d\",line)}})}return __toCommonJS(small_multiples_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
+export const smallMultiplesBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var small_multiples_render_exports={};__export(small_multiples_render_exports,{renderChart:()=>renderSmallMultiples});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function parseDate(v){if(v instanceof Date)return isNaN(v.getTime())?null:v;if(v===null||v===void 0||v===\"\")return null;const num=typeof v===\"number\"?v:Number(v);if(!isNaN(num)&&num>1800&&num<2200&&Math.floor(num)===num){return new Date(num,0,1)}const d=new Date(v);return isNaN(d.getTime())?null:d}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function createLegend(source,options){const shape=options?.shape??\"square\";const callbacks=options?.callbacks;let entries;if(Array.isArray(source)&&source.length>0&&source[0]?.label!==void 0){entries=source}else{const domain=source.domain?.()??[];entries=domain.map(label=>({label:String(label),color:source(label)}))}if(!entries.length){return document.createElement(\"div\")}const maxItems=options?.maxItems??12;let overflowCount=0;if(entries.length>maxItems){overflowCount=entries.length-(maxItems-1);entries=entries.slice(0,maxItems-1)}const maxLabelLen=20;const displayLabels=smartTruncateLabels(entries.map(e=>e.label),maxLabelLen);const legend=document.createElement(\"div\");legend.style.cssText=`\n    display: flex; flex-wrap: wrap; justify-content: center; gap: 4px 14px;\n    padding: 6px 12px 8px; font-family: Inter, system-ui, sans-serif;\n    font-size: 11px; line-height: 1;\n  `;entries.forEach((entry,idx)=>{const item=document.createElement(\"div\");item.style.cssText=callbacks?\"display: inline-flex; align-items: center; gap: 5px; white-space: nowrap; cursor: pointer; transition: opacity 0.15s;\":\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";item.setAttribute(\"data-series\",entry.label);const swatch=document.createElement(\"span\");if(shape===\"circle\"){swatch.style.cssText=`\n        width: 8px; height: 8px; border-radius: 50%;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line\"){swatch.style.cssText=`\n        width: 16px; height: 3px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line-dot\"){swatch.style.cssText=`\n        width: 16px; height: 2px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; position: relative;\n        transition: transform 0.15s;\n      `;const dot=document.createElement(\"span\");dot.style.cssText=`\n        position: absolute; top: 50%; left: 50%;\n        transform: translate(-50%, -50%);\n        width: 6px; height: 6px; border-radius: 50%;\n        background: ${entry.color}; border: 1px solid ${DARK_BG};\n      `;swatch.appendChild(dot)}else{swatch.style.cssText=`\n        width: 10px; height: 10px; border-radius: 2px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}const text=document.createElement(\"span\");text.style.color=TEXT_MUTED;text.textContent=displayLabels[idx];if(entry.label.length>maxLabelLen)text.title=entry.label;item.appendChild(swatch);item.appendChild(text);if(entry.extra){const extra=document.createElement(\"span\");extra.style.color=TEXT_MUTED;extra.style.opacity=\"0.7\";extra.textContent=entry.extra;item.appendChild(extra)}if(callbacks){item.addEventListener(\"mouseenter\",()=>{swatch.style.transform=shape===\"line\"||shape===\"line-dot\"?\"scaleY(2)\":\"scale(1.4)\";callbacks.onHover?.(entry.label)});item.addEventListener(\"mouseleave\",()=>{swatch.style.transform=\"\";callbacks.onLeave?.()})}legend.appendChild(item)});if(overflowCount>0){const more=document.createElement(\"div\");more.style.cssText=\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";const moreText=document.createElement(\"span\");moreText.style.cssText=`color: ${TEXT_MUTED}; opacity: 0.6; font-style: italic;`;moreText.textContent=`+${overflowCount} more`;more.appendChild(moreText);legend.appendChild(more)}return legend}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function findNearestDateIndex(sortedDates,targetTime){const bisect=d3.bisector(d=>d).left;let idx=bisect(sortedDates,targetTime);if(idx>0&&idx<sortedDates.length){const d0=sortedDates[idx-1];const d1=sortedDates[idx];idx=targetTime-d0>d1-targetTime?idx:idx-1}else if(idx>=sortedDates.length){idx=sortedDates.length-1}return idx}function createCrosshairGroup(g,dims){const crosshairLine=g.append(\"line\").attr(\"class\",\"crosshair\").attr(\"y1\",0).attr(\"y2\",dims.innerHeight).attr(\"stroke\",TEXT_MUTED).attr(\"stroke-width\",1).attr(\"stroke-dasharray\",\"4,3\").attr(\"pointer-events\",\"none\").attr(\"opacity\",0);const highlightDots=g.append(\"g\").attr(\"class\",\"highlight-dots\").attr(\"pointer-events\",\"none\");const hoverArea=g.append(\"rect\").attr(\"class\",\"hover-area\").attr(\"width\",dims.innerWidth).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"crosshair\");return{crosshairLine,highlightDots,hoverArea}}var ANNOTATION_COLOR=categorical[3];function drawTimeAnnotations(g,annotations,xScale,yScale,dims){if(!Array.isArray(annotations)||annotations.length===0)return;const[d0,d1]=xScale.domain().map(d=>d.getTime());const layer=g.append(\"g\").attr(\"class\",\"time-annotations\").attr(\"pointer-events\",\"none\");for(const a of annotations){const date=parseDate(a.date);if(!date||date.getTime()<d0||date.getTime()>d1)continue;const x=xScale(date);const anchor=x>dims.innerWidth*.85?\"end\":\"start\";const dx=anchor===\"end\"?-4:4;if(a.kind===\"change\"){layer.append(\"line\").attr(\"x1\",x).attr(\"x2\",x).attr(\"y1\",0).attr(\"y2\",dims.innerHeight).attr(\"stroke\",TEXT_MUTED).attr(\"stroke-width\",1).attr(\"stroke-dasharray\",\"6,4\");layer.append(\"text\").attr(\"x\",x+dx).attr(\"y\",10).attr(\"text-anchor\",anchor).attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"10px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(a.label);continue}if(typeof a.value!==\"number\"||!isFinite(a.value))continue;const y=yScale(a.value);layer.append(\"circle\").attr(\"cx\",x).attr(\"cy\",y).attr(\"r\",6).attr(\"fill\",\"none\").attr(\"stroke\",ANNOTATION_COLOR).attr(\"stroke-width\",2);layer.append(\"text\").attr(\"x\",x+dx).attr(\"y\",Math.max(10,y-10)).attr(\"text-anchor\",anchor).attr(\"fill\",ANNOTATION_COLOR).attr(\"font-size\",\"10px\").attr(\"font-weight\",600).attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(a.label)}}function renderLine(container,spec){const{config,encoding,data}=spec;const timeField=config.timeField||encoding.x?.field;const valueField=config.valueField||encoding.y?.field;const seriesField=config.seriesField||encoding.color?.field||null;const interpolation=config.interpolation||\"monotone\";const showPoints=interpolation===\"step\"?false:config.showPoints??data.length<=50;const showArea=config.showArea??false;const strokeWidth=config.strokeWidth??2;const parsedData=data.map(d=>({...d,_date:parseDate(d[timeField]),_value:Number(d[valueField])})).filter(d=>d._date!==null&&!isNaN(d._value));const colorScale=buildColorScale(encoding.color,data);const seriesNames=seriesField?[...new Set(parsedData.map(d=>d[seriesField]))]:[];const isMultiSeries=seriesNames.length>1;container.style.display=\"flex\";container.style.flexDirection=\"column\";container.style.background=DARK_BG;container.style.borderRadius=\"8px\";container.style.overflow=\"hidden\";const chartWrapper=document.createElement(\"div\");chartWrapper.style.flex=\"1\";chartWrapper.style.minHeight=\"0\";container.appendChild(chartWrapper);if(isMultiSeries){const legendDiv=createLegend(colorScale,{shape:\"line\"});container.appendChild(legendDiv)}const{svg,g,dims}=createSvg(chartWrapper,spec,{right:30,top:40},{background:false});const tooltip=createTooltip(chartWrapper);if(parsedData.every(d=>d._value===0)){renderEmptyState(g,dims);return}const xExtent=d3.extent(parsedData,d=>d._date);const xScale=d3.scaleTime().domain(xExtent).range([0,dims.innerWidth]).nice();const yExtent=d3.extent(parsedData,d=>d._value);let yMin;let yMax;if(yExtent[0]===yExtent[1]){const pad=yExtent[0]===0?1:Math.abs(yExtent[0])*.1;yMin=yExtent[0]-pad;yMax=yExtent[1]+pad}else{yMin=showArea?0:yExtent[0]*.9;yMax=yExtent[1]*1.05}const yScale=d3.scaleLinear().domain([yMin,yMax]).range([dims.innerHeight,0]).nice();const xTickCount=getAdaptiveTickCount(dims.innerWidth);const singleDate=xExtent[0].getTime()===xExtent[1].getTime();const xAxisGen=d3.axisBottom(xScale).tickSize(0).tickPadding(8);if(singleDate){xAxisGen.ticks(1).tickFormat(()=>parsedData[0]?.[timeField]??d3.timeFormat(\"%Y-%m-%d\")(xExtent[0]))}else{xAxisGen.ticks(xTickCount)}const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(xAxisGen);styleAxis(xAxis);const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8).tickFormat(d=>formatValue(d)));styleAxis(yAxis);const curveMap={linear:d3.curveLinear,monotone:d3.curveMonotoneX,basis:d3.curveBasis,step:d3.curveStepAfter,cardinal:d3.curveCardinal,catmullRom:d3.curveCatmullRom};const curve=curveMap[config.interpolation||\"monotone\"]||d3.curveMonotoneX;const lineGen=d3.line().x(d=>xScale(d._date)).y(d=>yScale(d._value)).curve(curve);const areaGen=d3.area().x(d=>xScale(d._date)).y0(dims.innerHeight).y1(d=>yScale(d._value)).curve(curve);const uniqueDates=new Set(parsedData.map(d=>d._date.getTime()));const isSinglePoint=uniqueDates.size<=1;if(isSinglePoint){const color=isMultiSeries?void 0:categorical[0];parsedData.forEach(d=>{const c=isMultiSeries?colorScale(d[seriesField]):color;g.append(\"circle\").attr(\"cx\",xScale(d._date)).attr(\"cy\",yScale(d._value)).attr(\"r\",6).attr(\"fill\",c).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2);g.append(\"text\").attr(\"x\",xScale(d._date)).attr(\"y\",yScale(d._value)-14).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(formatValue(d._value))})}else if(isMultiSeries){drawMultiSeries(g,parsedData,seriesField,seriesNames,colorScale,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth)}else{drawSingleSeries(g,parsedData,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth)}drawTimeAnnotations(g,config.annotations,xScale,yScale,dims);if(!isSinglePoint){addCrosshairHover(g,parsedData,seriesField,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,isMultiSeries)}}function drawMultiSeries(g,parsedData,seriesField,seriesNames,colorScale,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth){seriesNames.forEach(name=>{const seriesData=parsedData.filter(d=>d[seriesField]===name).sort((a,b)=>a._date.getTime()-b._date.getTime());const color=colorScale(name);if(showArea){g.append(\"path\").datum(seriesData).attr(\"fill\",color).attr(\"opacity\",.1).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\")}g.append(\"path\").datum(seriesData).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",strokeWidth).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\");if(showPoints){g.selectAll(`.point-${String(name).replace(/\\W/g,\"\")}`).data(seriesData).join(\"circle\").attr(\"class\",`point-${String(name).replace(/\\W/g,\"\")}`).attr(\"cx\",d=>xScale(d._date)).attr(\"cy\",d=>yScale(d._value)).attr(\"r\",1.25).attr(\"fill\",color).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",1.5).attr(\"pointer-events\",\"none\")}})}function drawSingleSeries(g,parsedData,lineGen,areaGen,xScale,yScale,showArea,showPoints,strokeWidth){const sortedData=[...parsedData].sort((a,b)=>a._date.getTime()-b._date.getTime());const color=categorical[0];if(showArea){g.append(\"path\").datum(sortedData).attr(\"fill\",color).attr(\"opacity\",.1).attr(\"d\",areaGen).attr(\"pointer-events\",\"none\")}g.append(\"path\").datum(sortedData).attr(\"class\",\"line-path\").attr(\"fill\",\"none\").attr(\"stroke\",color).attr(\"stroke-width\",strokeWidth).attr(\"d\",lineGen).attr(\"pointer-events\",\"none\");if(showPoints){g.selectAll(\".point\").data(sortedData).join(\"circle\").attr(\"class\",\"point\").attr(\"cx\",d=>xScale(d._date)).attr(\"cy\",d=>yScale(d._value)).attr(\"r\",1.25).attr(\"fill\",color).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",.75).attr(\"pointer-events\",\"none\")}}function addCrosshairHover(g,parsedData,seriesField,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,isMultiSeries){const dateMap=new Map;parsedData.forEach(d=>{const key=d._date.getTime();if(!dateMap.has(key))dateMap.set(key,[]);dateMap.get(key).push(d)});const sortedDates=[...dateMap.keys()].sort((a,b)=>a-b);const{crosshairLine,highlightDots,hoverArea}=createCrosshairGroup(g,dims);hoverArea.on(\"mousemove\",function(event){const[mx]=d3.pointer(event,this);const xDate=xScale.invert(mx).getTime();const idx=findNearestDateIndex(sortedDates,xDate);const nearestTime=sortedDates[idx];const nearestX=xScale(new Date(nearestTime));const points=dateMap.get(nearestTime)||[];crosshairLine.attr(\"x1\",nearestX).attr(\"x2\",nearestX).attr(\"opacity\",1);highlightDots.selectAll(\"circle\").remove();points.forEach(d=>{const color=isMultiSeries?colorScale(d[seriesField]):categorical[0];highlightDots.append(\"circle\").attr(\"cx\",nearestX).attr(\"cy\",yScale(d._value)).attr(\"r\",5).attr(\"fill\",color).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2)});g.selectAll(\".line-path\").attr(\"opacity\",.4);const dateLabel=points[0]?.[timeField]??new Date(nearestTime).toLocaleDateString();let html=`<strong>${escapeHtml(dateLabel)}</strong>`;if(isMultiSeries){const sorted=[...points].sort((a,b)=>b._value-a._value);sorted.forEach(d=>{const color=escapeHtml(colorScale(d[seriesField]));html+=`<br/><span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${color};margin-right:5px;vertical-align:middle;\"></span>${escapeHtml(d[seriesField])}: ${escapeHtml(formatValue(d._value))}`})}else{html+=`<br/>${escapeHtml(valueField)}: ${escapeHtml(formatValue(points[0]?._value))}`}showTooltip(tooltip,html,event)}).on(\"mouseout\",function(){crosshairLine.attr(\"opacity\",0);highlightDots.selectAll(\"circle\").remove();g.selectAll(\".line-path\").attr(\"opacity\",1);hideTooltip(tooltip)})}function renderSmallMultiples(container,spec){const{config,encoding,data}=spec;const timeField=config.timeField||encoding.x?.field;const valueField=config.valueField||encoding.y?.field;const seriesField=config.seriesField||encoding.color?.field;if(!seriesField){return renderLine(container,spec)}const seriesNames=[...new Set(data.map(d=>d[seriesField]))];const cols=Math.ceil(Math.sqrt(seriesNames.length));const rows=Math.ceil(seriesNames.length/cols);const width=container.clientWidth||800;const height=container.clientHeight||500;const titleReserve=spec.title?28:0;const cellW=width/cols;const cellH=(height-titleReserve)/rows;const cellMargin={top:18,right:20,bottom:20,left:40};const innerCellW=cellW-cellMargin.left-cellMargin.right;const innerCellH=cellH-cellMargin.top-cellMargin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height).style(\"background\",DARK_BG).style(\"border-radius\",\"8px\");if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",16).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"13px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const allDates=data.map(d=>parseDate(d[timeField])).filter(Boolean);const allValues=data.map(d=>Number(d[valueField])).filter(v=>!isNaN(v));const xDomain=d3.extent(allDates);const yDomain=[Math.min(0,d3.min(allValues)),d3.max(allValues)];if(allValues.every(v=>v===0)){svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",height/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"central\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(\"All values are zero\");return}const colorScale=buildColorScale(encoding.color,data);seriesNames.forEach((name,i)=>{const col=i%cols;const row=Math.floor(i/cols);const offsetX=col*cellW+cellMargin.left;const offsetY=row*cellH+cellMargin.top+titleReserve;const cellG=svg.append(\"g\").attr(\"transform\",`translate(${offsetX},${offsetY})`);const xScale=d3.scaleTime().domain(xDomain).range([0,innerCellW]);const yScale=d3.scaleLinear().domain(yDomain).range([innerCellH,0]);cellG.append(\"g\").attr(\"transform\",`translate(0,${innerCellH})`).call(d3.axisBottom(xScale).ticks(3).tickSize(0)).selectAll(\"text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"8px\");cellG.append(\"g\").call(d3.axisLeft(yScale).ticks(3).tickSize(0)).selectAll(\"text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"8px\");cellG.selectAll(\".domain\").remove();const maxLabelChars=Math.max(5,Math.floor(innerCellW/6));const seriesLabel=String(name);const truncatedLabel=seriesLabel.length>maxLabelChars?seriesLabel.slice(0,maxLabelChars-1)+\"\\u2026\":seriesLabel;cellG.append(\"text\").attr(\"x\",innerCellW/2).attr(\"y\",-4).attr(\"text-anchor\",\"middle\").attr(\"fill\",colorScale(name)).attr(\"font-size\",\"11px\").attr(\"font-weight\",\"500\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(truncatedLabel);const seriesData=data.filter(d=>d[seriesField]===name).map(d=>({...d,_date:parseDate(d[timeField]),_value:Number(d[valueField])})).filter(d=>d._date!==null).sort((a,b)=>a._date.getTime()-b._date.getTime());const line=d3.line().x(d=>xScale(d._date)).y(d=>yScale(d._value)).curve(d3.curveMonotoneX);const area=d3.area().x(d=>xScale(d._date)).y0(yScale(0)).y1(d=>yScale(d._value)).curve(d3.curveMonotoneX);if(seriesData.length<=1&&seriesData.length>0){const d=seriesData[0];cellG.append(\"circle\").attr(\"cx\",xScale(d._date)).attr(\"cy\",yScale(d._value)).attr(\"r\",5).attr(\"fill\",colorScale(name)).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",1.5);cellG.append(\"text\").attr(\"x\",xScale(d._date)).attr(\"y\",yScale(d._value)-10).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"9px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(d._value)}else{cellG.append(\"path\").datum(seriesData).attr(\"fill\",colorScale(name)).attr(\"opacity\",.08).attr(\"d\",area);cellG.append(\"path\").datum(seriesData).attr(\"fill\",\"none\").attr(\"stroke\",colorScale(name)).attr(\"stroke-width\",1.5).attr(\"d\",line)}})}return __toCommonJS(small_multiples_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
 export const sparklineGridBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var sparkline_grid_render_exports={};__export(sparkline_grid_render_exports,{renderChart:()=>renderSparklineGrid});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function tooltipHtml(strings,...values){let result=strings[0];for(let i=0;i<values.length;i++){result+=escapeHtml(values[i])+strings[i+1]}return result}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function isAllZeros(data,field){return data.every(d=>Number(d[field])===0)}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function renderSparklineGrid(container,spec){const{config,encoding,data}=spec;const timeField=config.timeField||encoding.x?.field;const valueField=config.valueField||encoding.y?.field;const seriesField=config.seriesField||encoding.facet?.field;const strokeWidth=config.strokeWidth||1;const curveType=config.curveType||\"curve\";const showSeriesLabel=config.showSeriesLabel!==false;const showLatestValue=config.showLatestValue!==false;const showTrendIndicator=config.showTrendIndicator!==false;const seriesGroups=d3.group(data,d=>d[seriesField]);const seriesNames=Array.from(seriesGroups.keys());const containerWidth=container.clientWidth||800;const containerHeight=container.clientHeight||500;const titleHeight=spec.title?40:0;const padding=12;const numSeries=seriesNames.length;const gridCols=config.gridCols||Math.min(numSeries,Math.ceil(Math.sqrt(numSeries*(containerWidth/containerHeight))));const gridRows=Math.ceil(numSeries/gridCols);const minCellHeight=45;const cellWidth=config.cellWidth||Math.floor((containerWidth-padding*(gridCols+1))/gridCols);const cellHeight=Math.max(minCellHeight,config.cellHeight||Math.floor((containerHeight-titleHeight-padding*(gridRows+1))/gridRows));const width=containerWidth;const height=containerHeight;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height).style(\"background\",DARK_BG).style(\"border-radius\",\"8px\");if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const tooltip=createTooltip(container);if(isAllZeros(data,valueField)){svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",height/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"central\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(\"All values are zero\");return}seriesNames.forEach((seriesName,idx)=>{const row=Math.floor(idx/gridCols);const col=idx%gridCols;const x=col*(cellWidth+padding)+padding;const y=row*(cellHeight+padding)+padding+titleHeight;const seriesData=seriesGroups.get(seriesName).sort((a,b)=>new Date(a[timeField]).getTime()-new Date(b[timeField]).getTime());const g=svg.append(\"g\").attr(\"transform\",`translate(${x}, ${y})`);const values=seriesData.map(d=>Number(d[valueField]));const latestValue=values[values.length-1];const previousValue=values[values.length-2]||latestValue;const isUp=latestValue>=previousValue;const lineColor=isUp?\"#3dd9a0\":\"#ff6b5e\";g.append(\"rect\").attr(\"x\",0).attr(\"y\",0).attr(\"width\",cellWidth).attr(\"height\",cellHeight).attr(\"fill\",\"#1a1d29\").attr(\"rx\",4);if(showSeriesLabel){const maxChars=Math.max(3,Math.floor(cellWidth/7));const allLabels=seriesNames.map(String);const smartLabels=smartTruncateLabels(allLabels,maxChars);const cellLabel=smartLabels[idx];g.append(\"text\").attr(\"x\",6).attr(\"y\",12).attr(\"text-anchor\",\"start\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"10px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"opacity\",.7).text(cellLabel)}const sparkPadTop=showSeriesLabel?16:4;const sparkPadBot=showLatestValue?14:4;const sparkPadLeft=4;const sparkPadRight=4;if(seriesData.length<=1){const val=values.length>0?values[0]:0;g.append(\"circle\").attr(\"cx\",cellWidth/2).attr(\"cy\",cellHeight/2).attr(\"r\",5).attr(\"fill\",lineColor);g.append(\"text\").attr(\"x\",cellWidth/2).attr(\"y\",cellHeight/2-12).attr(\"text-anchor\",\"middle\").attr(\"fill\",lineColor).attr(\"font-size\",\"10px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"monospace\").text(formatValue(val))}else{const xScale=d3.scaleTime().domain(d3.extent(seriesData,d=>new Date(d[timeField]))).range([sparkPadLeft,cellWidth-sparkPadRight]);const yExtent=d3.extent(values);const yPadding=(yExtent[1]-yExtent[0])*.05||1;const yScale=d3.scaleLinear().domain([yExtent[0]-yPadding,yExtent[1]+yPadding]).range([cellHeight-sparkPadBot,sparkPadTop]);const curve=curveType===\"square\"?d3.curveStepAfter:curveType===\"monotone\"?d3.curveMonotoneX:d3.curveBasis;const line=d3.line().curve(curve).x(d=>xScale(new Date(d[timeField]))).y(d=>yScale(Number(d[valueField])));g.append(\"path\").datum(seriesData).attr(\"fill\",\"none\").attr(\"stroke\",lineColor).attr(\"stroke-width\",strokeWidth).attr(\"d\",line);if(showLatestValue){g.append(\"text\").attr(\"x\",cellWidth).attr(\"y\",yScale(latestValue)+3).attr(\"text-anchor\",\"end\").attr(\"fill\",lineColor).attr(\"font-size\",\"9px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"monospace\").text(formatValue(latestValue))}if(showTrendIndicator){g.append(\"text\").attr(\"x\",cellWidth-2).attr(\"y\",10).attr(\"text-anchor\",\"end\").attr(\"fill\",lineColor).attr(\"font-size\",\"8px\").text(isUp?\"\\u25B2\":\"\\u25BC\")}}g.append(\"rect\").attr(\"x\",0).attr(\"y\",0).attr(\"width\",cellWidth).attr(\"height\",cellHeight).attr(\"fill\",\"transparent\").style(\"cursor\",\"pointer\").on(\"mouseover\",event=>{const change=latestValue-previousValue;const changePercent=previousValue!==0?(change/previousValue*100).toFixed(1):\"0\";showTooltip(tooltip,tooltipHtml`<strong>${seriesName}</strong><br/>Latest: ${formatValue(latestValue)}<br/>Change: ${change>=0?\"+\":\"\"}${formatValue(change)} (${changePercent}%)`,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",()=>hideTooltip(tooltip))})}return __toCommonJS(sparkline_grid_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
 export const stackedBarBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var stacked_bar_render_exports={};__export(stacked_bar_render_exports,{renderChart:()=>renderStackedBar});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function tooltipHtml(strings,...values){let result=strings[0];for(let i=0;i<values.length;i++){result+=escapeHtml(values[i])+strings[i+1]}return result}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function shouldRotateLabels(labels,barWidth,fontSize=11){const avgLabelLength=labels.reduce((sum,l)=>sum+String(l).length,0)/labels.length;const estimatedLabelWidth=avgLabelLength*(fontSize*.6);return estimatedLabelWidth>barWidth*.8}function calculateBottomMargin(labels,willRotate,fontSize=11){if(!willRotate)return 60;const maxLength=Math.max(...labels.map(l=>String(l).length));const charWidth=fontSize*.6;const estimatedHeight=maxLength*charWidth*.7;return Math.max(70,Math.min(150,estimatedHeight+35))}function truncateLabel(label,maxLength=25){const str=String(label);if(str.length<=maxLength)return str;return str.slice(0,maxLength-1)+\"\\u2026\"}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function shouldShowValueLabels(config,barDimension,isHorizontal){if(config.showLabels!==void 0)return config.showLabels;return isHorizontal?barDimension>=20:barDimension>=35}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function createLegend(source,options){const shape=options?.shape??\"square\";const callbacks=options?.callbacks;let entries;if(Array.isArray(source)&&source.length>0&&source[0]?.label!==void 0){entries=source}else{const domain=source.domain?.()??[];entries=domain.map(label=>({label:String(label),color:source(label)}))}if(!entries.length){return document.createElement(\"div\")}const maxItems=options?.maxItems??12;let overflowCount=0;if(entries.length>maxItems){overflowCount=entries.length-(maxItems-1);entries=entries.slice(0,maxItems-1)}const maxLabelLen=20;const displayLabels=smartTruncateLabels(entries.map(e=>e.label),maxLabelLen);const legend=document.createElement(\"div\");legend.style.cssText=`\n    display: flex; flex-wrap: wrap; justify-content: center; gap: 4px 14px;\n    padding: 6px 12px 8px; font-family: Inter, system-ui, sans-serif;\n    font-size: 11px; line-height: 1;\n  `;entries.forEach((entry,idx)=>{const item=document.createElement(\"div\");item.style.cssText=callbacks?\"display: inline-flex; align-items: center; gap: 5px; white-space: nowrap; cursor: pointer; transition: opacity 0.15s;\":\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";item.setAttribute(\"data-series\",entry.label);const swatch=document.createElement(\"span\");if(shape===\"circle\"){swatch.style.cssText=`\n        width: 8px; height: 8px; border-radius: 50%;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line\"){swatch.style.cssText=`\n        width: 16px; height: 3px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line-dot\"){swatch.style.cssText=`\n        width: 16px; height: 2px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; position: relative;\n        transition: transform 0.15s;\n      `;const dot=document.createElement(\"span\");dot.style.cssText=`\n        position: absolute; top: 50%; left: 50%;\n        transform: translate(-50%, -50%);\n        width: 6px; height: 6px; border-radius: 50%;\n        background: ${entry.color}; border: 1px solid ${DARK_BG};\n      `;swatch.appendChild(dot)}else{swatch.style.cssText=`\n        width: 10px; height: 10px; border-radius: 2px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}const text=document.createElement(\"span\");text.style.color=TEXT_MUTED;text.textContent=displayLabels[idx];if(entry.label.length>maxLabelLen)text.title=entry.label;item.appendChild(swatch);item.appendChild(text);if(entry.extra){const extra=document.createElement(\"span\");extra.style.color=TEXT_MUTED;extra.style.opacity=\"0.7\";extra.textContent=entry.extra;item.appendChild(extra)}if(callbacks){item.addEventListener(\"mouseenter\",()=>{swatch.style.transform=shape===\"line\"||shape===\"line-dot\"?\"scaleY(2)\":\"scale(1.4)\";callbacks.onHover?.(entry.label)});item.addEventListener(\"mouseleave\",()=>{swatch.style.transform=\"\";callbacks.onLeave?.()})}legend.appendChild(item)});if(overflowCount>0){const more=document.createElement(\"div\");more.style.cssText=\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";const moreText=document.createElement(\"span\");moreText.style.cssText=`color: ${TEXT_MUTED}; opacity: 0.6; font-style: italic;`;moreText.textContent=`+${overflowCount} more`;more.appendChild(moreText);legend.appendChild(more)}return legend}function addSortControls(svg,container,spec,dims,renderFn){const currentSortBy=spec.config.sortBy||\"value\";const currentSortOrder=spec.config.sortOrder||\"descending\";const xPos=dims.width-dims.margin.right-40;const yPos=24;const controls=svg.append(\"g\").attr(\"class\",\"sort-controls\").attr(\"transform\",`translate(${xPos}, ${yPos})`).style(\"opacity\",0).style(\"cursor\",\"pointer\").style(\"transition\",\"opacity 0.2s\").style(\"user-select\",\"none\").style(\"-webkit-user-select\",\"none\");controls.append(\"rect\").attr(\"x\",-26).attr(\"y\",-10).attr(\"width\",52).attr(\"height\",20).attr(\"rx\",4).attr(\"fill\",\"#1e2028\").attr(\"stroke\",\"#2d3041\").attr(\"stroke-width\",1);controls.append(\"text\").attr(\"x\",-8).attr(\"y\",3).attr(\"text-anchor\",\"middle\").attr(\"font-size\",\"9px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"font-weight\",\"600\").attr(\"fill\",TEXT_MUTED).text(currentSortBy===\"category\"?\"ABC\":\"123\");controls.append(\"text\").attr(\"x\",14).attr(\"y\",3).attr(\"text-anchor\",\"middle\").attr(\"font-size\",\"11px\").attr(\"fill\",TEXT_MUTED).text(currentSortOrder===\"descending\"?\"\\u25BC\":\"\\u25B2\");svg.on(\"mouseenter\",()=>{controls.style(\"opacity\",1)}).on(\"mouseleave\",()=>{controls.style(\"opacity\",0)});controls.on(\"click\",event=>{event.stopPropagation();const curSortBy=spec.config.sortBy||\"value\";const curSortOrder=spec.config.sortOrder||\"descending\";let newSortBy;let newSortOrder;if(curSortBy===\"value\"&&curSortOrder===\"descending\"){newSortBy=\"value\";newSortOrder=\"ascending\"}else if(curSortBy===\"value\"&&curSortOrder===\"ascending\"){newSortBy=\"category\";newSortOrder=\"ascending\"}else if(curSortBy===\"category\"&&curSortOrder===\"ascending\"){newSortBy=\"category\";newSortOrder=\"descending\"}else{newSortBy=\"value\";newSortOrder=\"descending\"}const updatedSpec={...spec,config:{...spec.config,sortBy:newSortBy,sortOrder:newSortOrder}};container.innerHTML=\"\";renderFn(container,updatedSpec)})}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function renderStackedBar(container,spec){const{config,encoding,data}=spec;const categoryField=config.categoryField||encoding.x?.field;const seriesField=config.seriesField||encoding.color?.field;const valueField=config.valueField||encoding.y?.field;const isNormalized=config.normalized||false;if(!categoryField||!seriesField||!valueField||!data||data.length===0){container.innerHTML=`<div style=\"display:flex;align-items:center;justify-content:center;height:100%;color:#9ca3af;font-size:14px;font-family:Inter,system-ui,sans-serif;background:#0f1117;border-radius:8px;\">Stacked bar requires category, series, and value fields</div>`;return}let categories=[...new Set(data.map(d=>d[categoryField]))];const series=[...new Set(data.map(d=>d[seriesField]))];const pivoted={};const totals={};categories.forEach(cat=>{pivoted[cat]={};let total=0;series.forEach(s=>{const row=data.find(d=>d[categoryField]===cat&&d[seriesField]===s);const val=row?Number(row[valueField])||0:0;pivoted[cat][s]=val;total+=val});totals[cat]=total});if(config.sortBy===\"value\"){const order=config.sortOrder===\"ascending\"?1:-1;categories.sort((a,b)=>order*(totals[a]-totals[b]))}else if(config.sortBy===\"category\"){const order=config.sortOrder===\"ascending\"?1:-1;categories.sort((a,b)=>order*String(a).localeCompare(String(b),void 0,{sensitivity:\"base\",numeric:true}))}const stackData=categories.map(cat=>{const entry={_category:cat};const total=totals[cat];series.forEach(s=>{const val=pivoted[cat][s]||0;entry[s]=isNormalized&&total>0?val/total*100:val});entry._total=isNormalized?100:total;return entry});const hasNegatives=stackData.some(d=>series.some(s=>d[s]<0));const stack=d3.stack().keys(series);if(hasNegatives){stack.offset(d3.stackOffsetDiverging)}const stacked=stack(stackData);const containerWidth=container.clientWidth||800;const containerHeight=container.clientHeight||500;const showLegend=containerHeight>250&&containerWidth>350;const colorScale=buildColorScale(encoding.color,data);container.style.display=\"flex\";container.style.flexDirection=\"column\";container.style.background=DARK_BG;container.style.borderRadius=\"8px\";container.style.overflow=\"hidden\";const chartWrapper=document.createElement(\"div\");chartWrapper.style.flex=\"1\";chartWrapper.style.minHeight=\"0\";container.appendChild(chartWrapper);let legendDiv=null;if(showLegend){legendDiv=createLegend(colorScale);container.appendChild(legendDiv)}const estimatedBarWidth=(containerWidth-130)/categories.length;const needsRotation=shouldRotateLabels(categories.map(String),estimatedBarWidth);const bottomMargin=calculateBottomMargin(categories.map(String),needsRotation);const{svg,g,dims}=createSvg(chartWrapper,spec,{bottom:bottomMargin,left:70,right:30,top:40},{background:false});const tooltip=createTooltip(container);const xScale=d3.scaleBand().domain(categories).range([0,dims.innerWidth]).padding(.2);let minY;let maxY;if(isNormalized){minY=0;maxY=100}else if(hasNegatives){minY=d3.min(stacked,layer=>d3.min(layer,d=>d[0]));maxY=d3.max(stacked,layer=>d3.max(layer,d=>d[1]))}else{minY=0;maxY=d3.max(stackData,d=>d._total)}const yScale=d3.scaleLinear().domain([minY,maxY]).range([dims.innerHeight,0]).nice();const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(xScale).tickSize(0).tickPadding(8).tickFormat(d=>truncateLabel(d,25)));styleAxis(xAxis);if(needsRotation){g.selectAll(\".x-axis .tick text\").attr(\"transform\",\"rotate(-35)\").attr(\"text-anchor\",\"end\").attr(\"dx\",\"-0.5em\").attr(\"dy\",\"0.15em\")}const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8).tickFormat(d=>isNormalized?d+\"%\":formatValue(d)));styleAxis(yAxis);g.selectAll(\".bar-hover-target\").data(stackData).join(\"rect\").attr(\"class\",\"bar-hover-target\").attr(\"x\",d=>xScale(d._category)).attr(\"y\",0).attr(\"width\",xScale.bandwidth()).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"pointer\").on(\"mouseover\",function(event,d){g.selectAll(\".segment\").filter(sd=>sd.data._category===d._category).attr(\"opacity\",.8);let html=tooltipHtml`<strong>${d._category}</strong>`;series.forEach(s=>{const val=d[s];if(val>0){const swatch=`<span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${escapeHtml(colorScale(s))};margin-right:4px\"></span>`;html+=`<br/>${swatch}${escapeHtml(s)}: ${isNormalized?escapeHtml(val.toFixed(1))+\"%\":escapeHtml(formatValue(val))}`}});if(!isNormalized){html+=`<br/><span style=\"color:${escapeHtml(TEXT_MUTED)};font-size:11px\">Total: ${escapeHtml(formatValue(d._total))}</span>`}showTooltip(tooltip,html,event)}).on(\"mousemove\",event=>{positionTooltip(tooltip,event)}).on(\"mouseout\",function(){g.selectAll(\".segment\").attr(\"opacity\",1);hideTooltip(tooltip)});const maxBarWidth=Math.min(100,dims.innerWidth*.35);const stackBarWidth=Math.min(xScale.bandwidth(),maxBarWidth);const stackBarOffset=(xScale.bandwidth()-stackBarWidth)/2;g.selectAll(\".series\").data(stacked).join(\"g\").attr(\"class\",\"series\").attr(\"fill\",d=>colorScale(d.key)).selectAll(\"rect\").data(d=>d.map(v=>({...v,key:d.key}))).join(\"rect\").attr(\"class\",\"segment\").attr(\"x\",d=>xScale(d.data._category)+stackBarOffset).attr(\"y\",d=>Math.min(yScale(d[0]),yScale(d[1]))).attr(\"width\",stackBarWidth).attr(\"height\",d=>Math.abs(yScale(d[0])-yScale(d[1]))).attr(\"rx\",1).attr(\"pointer-events\",\"none\");const showLabels=shouldShowValueLabels(config,xScale.bandwidth(),false);if(showLabels){const allSegments=[];stacked.forEach(seriesData=>{seriesData.forEach(d=>{const val=d[1]-d[0];if(val>0){allSegments.push({...d,key:seriesData.key,value:val})}})});g.selectAll(\".segment-label\").data(allSegments).join(\"text\").attr(\"class\",\"segment-label\").attr(\"x\",d=>xScale(d.data._category)+xScale.bandwidth()/2).attr(\"y\",d=>{const segmentHeight=yScale(d[0])-yScale(d[1]);return yScale(d[1])+segmentHeight/2}).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",\"#ffffff\").attr(\"font-size\",\"10px\").attr(\"font-weight\",\"500\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").attr(\"pointer-events\",\"none\").text(d=>{const segmentHeight=yScale(d[0])-yScale(d[1]);if(segmentHeight<16)return\"\";return isNormalized?d.value.toFixed(0)+\"%\":formatValue(d.value)})}if(config.showTotal&&!isNormalized){g.selectAll(\".total-label\").data(stackData).join(\"text\").attr(\"class\",\"total-label\").attr(\"x\",d=>xScale(d._category)+xScale.bandwidth()/2).attr(\"y\",d=>yScale(d._total)-6).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"10px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(d=>formatValue(d._total))}addSortControls(svg,container,spec,dims,renderStackedBar)}return __toCommonJS(stacked_bar_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
 export const streamGraphBundle = "\"use strict\";var __dolex=(()=>{var __defProp=Object.defineProperty;var __getOwnPropDesc=Object.getOwnPropertyDescriptor;var __getOwnPropNames=Object.getOwnPropertyNames;var __hasOwnProp=Object.prototype.hasOwnProperty;var __export=(target,all)=>{for(var name in all)__defProp(target,name,{get:all[name],enumerable:true})};var __copyProps=(to,from,except,desc)=>{if(from&&typeof from===\"object\"||typeof from===\"function\"){for(let key of __getOwnPropNames(from))if(!__hasOwnProp.call(to,key)&&key!==except)__defProp(to,key,{get:()=>from[key],enumerable:!(desc=__getOwnPropDesc(from,key))||desc.enumerable})}return to};var __toCommonJS=mod=>__copyProps(__defProp({},\"__esModule\",{value:true}),mod);var stream_graph_render_exports={};__export(stream_graph_render_exports,{renderChart:()=>renderStreamGraph});var categorical=[\"#6280c1\",\"#c99a3e\",\"#48a882\",\"#c46258\",\"#5ea4c8\",\"#9e74bf\",\"#c88450\",\"#3ea898\",\"#b85e78\",\"#85a63e\",\"#807cba\",\"#b09838\"];var sequential={blue:[\"#e8f0fe\",\"#c5d9fc\",\"#9cbcf8\",\"#6e9cf4\",\"#4a7eec\",\"#2f63d9\",\"#1d4cb8\",\"#143893\",\"#0d2668\"],green:[\"#e2f5ec\",\"#b6e6d0\",\"#7ed4ae\",\"#4cc08c\",\"#2ba86f\",\"#1e8d58\",\"#157244\",\"#0d5833\",\"#084024\"],purple:[\"#f0e8ff\",\"#d8c6fd\",\"#bd9efa\",\"#a278f3\",\"#8755e8\",\"#6d3dd1\",\"#5630ab\",\"#402485\",\"#2d1961\"],warm:[\"#fef0e2\",\"#fdd9b4\",\"#fbbd7e\",\"#f79e4d\",\"#ef7e25\",\"#d4620f\",\"#ac4a0a\",\"#843608\",\"#5e2506\"]};var diverging={blueRed:[\"#2166ac\",\"#4393c3\",\"#6db4d5\",\"#a6d1e8\",\"#e0e0e0\",\"#f1b0a0\",\"#e07060\",\"#ca3832\",\"#b2182b\"],greenPurple:[\"#1b7837\",\"#41a055\",\"#73c378\",\"#a8dda0\",\"#e0e0e0\",\"#c4a5d9\",\"#9970be\",\"#7640a0\",\"#5e2d84\"],tealOrange:[\"#0d6b6e\",\"#2a9191\",\"#54b4b0\",\"#92d4cc\",\"#e0e0e0\",\"#f5c28a\",\"#e69b44\",\"#c87422\",\"#a35212\"],redGreen:[\"#b84040\",\"#c85e5e\",\"#d48080\",\"#daa8a8\",\"#c8c8c8\",\"#a0c8a0\",\"#68a868\",\"#489048\",\"#307430\"]};var darkTheme={background:\"#0f1117\",surface:\"#161822\",surfaceRaised:\"#1e2028\",axis:\"#4b5563\",grid:\"#1f2937\",border:\"#2a2d3a\",text:\"#e2e5eb\",textMuted:\"#9ca3af\",textDim:\"#6b7280\",plotArea:\"#13151d\",overlay:\"rgba(0, 0, 0, 0.6)\"};var colorSchemes={\"traffic-light\":[\"#ef4444\",\"#f59e0b\",\"#10b981\"],\"profit-loss\":[\"#ef4444\",\"#6b7280\",\"#10b981\"],temperature:[\"#3b82f6\",\"#9ca3af\",\"#f59e0b\"]};var DARK_BG=darkTheme.background;var AXIS_COLOR=darkTheme.axis;var GRID_COLOR=darkTheme.grid;var TEXT_COLOR=darkTheme.text;var TEXT_MUTED=darkTheme.textMuted;var DEFAULT_MARGINS={top:40,right:30,bottom:50,left:60};function escapeHtml(value){const str=value==null?\"\":String(value);return str.replace(/&/g,\"&amp;\").replace(/</g,\"&lt;\").replace(/>/g,\"&gt;\").replace(/\"/g,\"&quot;\").replace(/'/g,\"&#39;\")}function parseDate(v){if(v instanceof Date)return isNaN(v.getTime())?null:v;if(v===null||v===void 0||v===\"\")return null;const num=typeof v===\"number\"?v:Number(v);if(!isNaN(num)&&num>1800&&num<2200&&Math.floor(num)===num){return new Date(num,0,1)}const d=new Date(v);return isNaN(d.getTime())?null:d}function createSvg(container,spec,marginOverrides,options){const showBackground=options?.background??true;const margin={...DEFAULT_MARGINS,...marginOverrides};const width=container.clientWidth||800;const height=container.clientHeight||500;const innerWidth=width-margin.left-margin.right;const innerHeight=height-margin.top-margin.bottom;const svg=d3.select(container).append(\"svg\").attr(\"width\",width).attr(\"height\",height);if(showBackground){svg.style(\"background\",DARK_BG).style(\"border-radius\",\"8px\")}if(spec.title){const titleEl=svg.append(\"text\").attr(\"x\",width/2).attr(\"y\",24).attr(\"text-anchor\",\"middle\").attr(\"fill\",TEXT_COLOR).attr(\"font-size\",\"14px\").attr(\"font-weight\",\"600\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(spec.title);truncateTitle(titleEl,spec.title,width-20)}const g=svg.append(\"g\").attr(\"transform\",`translate(${margin.left},${margin.top})`);return{svg,g,dims:{width,height,innerWidth,innerHeight,margin}}}var PALETTE_MAP={categorical,...sequential,...diverging,...colorSchemes};function resolvePalette(name){const palette=PALETTE_MAP[name];return palette?[...palette]:null}function isSequentialPalette(name){return!!name&&name in sequential}function isDivergingPalette(name){return!!name&&name in diverging}function buildColorScale(encoding,data,valueField){if(!encoding||!encoding.field){return()=>categorical[0]}const field=encoding.field;if(encoding.highlight&&encoding.highlight.values.length>0){const normalize=v=>String(v).trim().toLowerCase();const dataValues=new Set(data.map(d=>normalize(d[field])));const hasMatchingValues=encoding.highlight.values.some(v=>dataValues.has(normalize(v)));if(hasMatchingValues){const highlightSet=new Set(encoding.highlight.values.map(v=>normalize(v)));const highlightColors=Array.isArray(encoding.highlight.color)?encoding.highlight.color:encoding.highlight.color?[encoding.highlight.color]:[categorical[0]];const mutedColor=encoding.highlight.mutedColor||\"#6b7280\";const mutedOpacity=encoding.highlight.mutedOpacity??1;return value=>{if(highlightSet.has(normalize(value))){const idx=encoding.highlight.values.findIndex(v=>normalize(v)===normalize(value));return highlightColors[idx%highlightColors.length]}if(mutedOpacity<1){const hex=mutedColor.replace(\"#\",\"\");const r=parseInt(hex.substring(0,2),16);const g=parseInt(hex.substring(2,4),16);const b=parseInt(hex.substring(4,6),16);return`rgba(${r}, ${g}, ${b}, ${mutedOpacity})`}return mutedColor}}}if(encoding.palette){const palette2=resolvePalette(encoding.palette);if(palette2){if(isDivergingPalette(encoding.palette)&&encoding.type===\"quantitative\"){const values=data.map(d=>Number(d[field]));const maxAbs=Math.max(Math.abs(d3.min(values)),Math.abs(d3.max(values)))||1;const mid=Math.floor(palette2.length/2);return d3.scaleLinear().domain([-maxAbs,0,maxAbs]).range([palette2[0],palette2[mid],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb).clamp(true)}if((isSequentialPalette(encoding.palette)||isDivergingPalette(encoding.palette))&&valueField){const valueExtent=d3.extent(data,d=>Number(d[valueField]));const colorScale=d3.scaleLinear().domain([valueExtent[0],valueExtent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb);const categoryToValue=new Map(data.map(d=>[d[field],Number(d[valueField])]));return category=>{const value=categoryToValue.get(category);return value!==void 0?colorScale(value):palette2[0]}}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleLinear().domain([extent[0],extent[1]]).range([palette2[0],palette2[palette2.length-1]]).interpolate(d3.interpolateRgb)}const domain2=[...new Set(data.map(d=>d[field]))];return d3.scaleOrdinal().domain(domain2).range(palette2)}}if(encoding.scale?.domain&&encoding.scale?.range){if(encoding.type===\"quantitative\"){return d3.scaleLinear().domain(encoding.scale.domain).range(encoding.scale.range).interpolate(d3.interpolateRgb)}return d3.scaleOrdinal().domain(encoding.scale.domain).range(encoding.scale.range)}if(encoding.type===\"quantitative\"){const extent=d3.extent(data,d=>Number(d[field]));return d3.scaleSequential(d3.interpolateViridis).domain(extent)}const domain=[...new Set(data.map(d=>d[field]))];let palette=[...categorical];if(domain.length>palette.length){const extra=d3.quantize(d3.interpolateRainbow,domain.length-palette.length+1);palette=palette.concat(extra)}return d3.scaleOrdinal().domain(domain).range(palette)}function getAdaptiveTickCount(availableSpace,minSpacing=60){return Math.max(3,Math.floor(availableSpace/minSpacing))}function truncateTitle(textEl,fullText,maxWidth){const node=textEl.node();if(!node||!node.getComputedTextLength)return;if(node.getComputedTextLength()<=maxWidth)return;let lo=0;let hi=fullText.length;while(lo<hi){const mid=lo+hi+1>>1;node.textContent=fullText.slice(0,mid)+\"\\u2026\";if(node.getComputedTextLength()<=maxWidth){lo=mid}else{hi=mid-1}}node.textContent=lo>0?fullText.slice(0,lo)+\"\\u2026\":\"\\u2026\";textEl.append(\"title\").text(fullText)}function renderEmptyState(g,dims,message=\"All values are zero\"){g.append(\"text\").attr(\"x\",dims.innerWidth/2).attr(\"y\",dims.innerHeight/2).attr(\"text-anchor\",\"middle\").attr(\"dominant-baseline\",\"middle\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"14px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(message)}function styleAxis(axis){axis.selectAll(\".domain\").attr(\"stroke\",AXIS_COLOR).attr(\"stroke-width\",.5);axis.selectAll(\".tick line\").attr(\"stroke\",GRID_COLOR).attr(\"stroke-width\",.5).attr(\"stroke-dasharray\",\"2,2\");axis.selectAll(\".tick text\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\");fixTickLabels(axis)}function fixTickLabels(axis){const ticks=axis.selectAll(\".tick text\");const nodes=[];ticks.each(function(){nodes.push(this)});if(nodes.length<2)return;const texts=nodes.map(n=>n.textContent||\"\");const uniqueTexts=new Set(texts);if(uniqueTexts.size<Math.min(nodes.length,3)){const values=[];ticks.each(function(d){values.push(Number(d))});const validValues=values.filter(v=>!isNaN(v));if(validValues.length<2)return;const min=Math.min(...validValues);const max=Math.max(...validValues);const span=max-min;if(span>0){const precision=span>=1?1:Math.max(2,Math.ceil(-Math.log10(span))+2);const fmt=v=>{if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Number.isInteger(v)&&Math.abs(v)<1e3)return v.toFixed(0);return v.toFixed(precision)};ticks.each(function(d){const v=Number(d);if(!isNaN(v))this.textContent=fmt(v)})}const reformattedTexts=nodes.map(n=>n.textContent||\"\");const seen=new Set;reformattedTexts.forEach((t,i)=>{if(seen.has(t)){nodes[i].style.display=\"none\";const line=nodes[i].parentNode?.querySelector(\"line\");if(line)line.style.display=\"none\"}else{seen.add(t)}})}}var tooltipContainers=new WeakMap;function createTooltip(container){const el=document.createElement(\"div\");el.style.cssText=`\n    position: fixed;\n    pointer-events: none;\n    background: #1e2028;\n    color: ${TEXT_COLOR};\n    padding: 8px 12px;\n    border-radius: 6px;\n    font-size: 12px;\n    font-family: Inter, system-ui, sans-serif;\n    box-shadow: 0 4px 12px rgba(0,0,0,0.5);\n    border: 1px solid #2d3041;\n    z-index: 10000;\n    opacity: 0;\n    transition: opacity 0.15s;\n    max-width: 300px;\n    line-height: 1.5;\n  `;document.body.appendChild(el);tooltipContainers.set(el,container);return el}function positionTooltip(tooltip,event){const gap=12;const tw=tooltip.offsetWidth;const th=tooltip.offsetHeight;const vh=window.innerHeight;const container=tooltipContainers.get(tooltip);const rect=container?.getBoundingClientRect();const midX=rect?rect.left+rect.width/2:window.innerWidth/2;let left=event.clientX>midX?event.clientX-tw-gap:event.clientX+gap;let top=event.clientY-gap;if(top+th>vh)top=event.clientY-th-gap;if(left<0)left=0;if(top<0)top=0;tooltip.style.left=left+\"px\";tooltip.style.top=top+\"px\"}function showTooltip(tooltip,html,event){tooltip.innerHTML=html;tooltip.style.opacity=\"1\";positionTooltip(tooltip,event)}function hideTooltip(tooltip){tooltip.style.opacity=\"0\"}function smartTruncateLabels(labels,maxLen){if(labels.every(l=>l.length<=maxLen))return labels;const prefixLen=findCommonAffixLength(labels,\"prefix\");const suffixLen=findCommonAffixLength(labels,\"suffix\");const hasSharedAffix=prefixLen+suffixLen>5;if(hasSharedAffix){return labels.map(l=>{if(l.length<=maxLen)return l;const uniquePart=l.slice(prefixLen,l.length-suffixLen||void 0);if(uniquePart.length<=maxLen-2){return\"\\u2026\"+uniquePart+\"\\u2026\"}const keep=maxLen-2;return\"\\u2026\"+uniquePart.slice(0,keep)+\"\\u2026\"})}return labels.map(l=>{if(l.length<=maxLen)return l;const keep=maxLen-1;const front=Math.ceil(keep*.5);const back=keep-front;return back>0?l.slice(0,front)+\"\\u2026\"+l.slice(-back):l.slice(0,keep)+\"\\u2026\"})}function findCommonAffixLength(strings,direction){if(strings.length<=1)return 0;const get=direction===\"prefix\"?(s,i)=>s[i]:(s,i)=>s[s.length-1-i];const minLen=Math.min(...strings.map(s=>s.length));let len=0;for(let i=0;i<minLen;i++){const ch=get(strings[0],i);if(strings.every(s=>get(s,i)===ch)){len++}else{break}}return len}function createLegend(source,options){const shape=options?.shape??\"square\";const callbacks=options?.callbacks;let entries;if(Array.isArray(source)&&source.length>0&&source[0]?.label!==void 0){entries=source}else{const domain=source.domain?.()??[];entries=domain.map(label=>({label:String(label),color:source(label)}))}if(!entries.length){return document.createElement(\"div\")}const maxItems=options?.maxItems??12;let overflowCount=0;if(entries.length>maxItems){overflowCount=entries.length-(maxItems-1);entries=entries.slice(0,maxItems-1)}const maxLabelLen=20;const displayLabels=smartTruncateLabels(entries.map(e=>e.label),maxLabelLen);const legend=document.createElement(\"div\");legend.style.cssText=`\n    display: flex; flex-wrap: wrap; justify-content: center; gap: 4px 14px;\n    padding: 6px 12px 8px; font-family: Inter, system-ui, sans-serif;\n    font-size: 11px; line-height: 1;\n  `;entries.forEach((entry,idx)=>{const item=document.createElement(\"div\");item.style.cssText=callbacks?\"display: inline-flex; align-items: center; gap: 5px; white-space: nowrap; cursor: pointer; transition: opacity 0.15s;\":\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";item.setAttribute(\"data-series\",entry.label);const swatch=document.createElement(\"span\");if(shape===\"circle\"){swatch.style.cssText=`\n        width: 8px; height: 8px; border-radius: 50%;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line\"){swatch.style.cssText=`\n        width: 16px; height: 3px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}else if(shape===\"line-dot\"){swatch.style.cssText=`\n        width: 16px; height: 2px; border-radius: 1px;\n        background: ${entry.color}; flex-shrink: 0; position: relative;\n        transition: transform 0.15s;\n      `;const dot=document.createElement(\"span\");dot.style.cssText=`\n        position: absolute; top: 50%; left: 50%;\n        transform: translate(-50%, -50%);\n        width: 6px; height: 6px; border-radius: 50%;\n        background: ${entry.color}; border: 1px solid ${DARK_BG};\n      `;swatch.appendChild(dot)}else{swatch.style.cssText=`\n        width: 10px; height: 10px; border-radius: 2px;\n        background: ${entry.color}; flex-shrink: 0; transition: transform 0.15s;\n      `}const text=document.createElement(\"span\");text.style.color=TEXT_MUTED;text.textContent=displayLabels[idx];if(entry.label.length>maxLabelLen)text.title=entry.label;item.appendChild(swatch);item.appendChild(text);if(entry.extra){const extra=document.createElement(\"span\");extra.style.color=TEXT_MUTED;extra.style.opacity=\"0.7\";extra.textContent=entry.extra;item.appendChild(extra)}if(callbacks){item.addEventListener(\"mouseenter\",()=>{swatch.style.transform=shape===\"line\"||shape===\"line-dot\"?\"scaleY(2)\":\"scale(1.4)\";callbacks.onHover?.(entry.label)});item.addEventListener(\"mouseleave\",()=>{swatch.style.transform=\"\";callbacks.onLeave?.()})}legend.appendChild(item)});if(overflowCount>0){const more=document.createElement(\"div\");more.style.cssText=\"display: flex; align-items: center; gap: 5px; white-space: nowrap;\";const moreText=document.createElement(\"span\");moreText.style.cssText=`color: ${TEXT_MUTED}; opacity: 0.6; font-style: italic;`;moreText.textContent=`+${overflowCount} more`;more.appendChild(moreText);legend.appendChild(more)}return legend}function highlightLegendItem(legendDiv,activeKey){const items=legendDiv.querySelectorAll(\"[data-series]\");items.forEach(el=>{const element=el;const isActive=!activeKey||element.getAttribute(\"data-series\")===activeKey;element.style.opacity=isActive?\"1\":\"0.3\"})}function formatValue(v){if(Math.abs(v)>=1e12)return(v/1e12).toFixed(1)+\"T\";if(Math.abs(v)>=1e9)return(v/1e9).toFixed(1)+\"B\";if(Math.abs(v)>=1e6)return(v/1e6).toFixed(1)+\"M\";if(Math.abs(v)>=1e3)return(v/1e3).toFixed(1)+\"K\";if(Math.abs(v)<1&&v!==0){const precision=Math.max(2,Math.ceil(-Math.log10(Math.abs(v)))+1);return v.toFixed(Math.min(precision,6))}return Number.isInteger(v)?v.toFixed(0):v.toFixed(1)}function findNearestDateIndex(sortedDates,targetTime){const bisect=d3.bisector(d=>d).left;let idx=bisect(sortedDates,targetTime);if(idx>0&&idx<sortedDates.length){const d0=sortedDates[idx-1];const d1=sortedDates[idx];idx=targetTime-d0>d1-targetTime?idx:idx-1}else if(idx>=sortedDates.length){idx=sortedDates.length-1}return idx}function createCrosshairGroup(g,dims){const crosshairLine=g.append(\"line\").attr(\"class\",\"crosshair\").attr(\"y1\",0).attr(\"y2\",dims.innerHeight).attr(\"stroke\",TEXT_MUTED).attr(\"stroke-width\",1).attr(\"stroke-dasharray\",\"4,3\").attr(\"pointer-events\",\"none\").attr(\"opacity\",0);const highlightDots=g.append(\"g\").attr(\"class\",\"highlight-dots\").attr(\"pointer-events\",\"none\");const hoverArea=g.append(\"rect\").attr(\"class\",\"hover-area\").attr(\"width\",dims.innerWidth).attr(\"height\",dims.innerHeight).attr(\"fill\",\"transparent\").attr(\"cursor\",\"crosshair\");return{crosshairLine,highlightDots,hoverArea}}function renderStreamGraph(container,spec){const{config,encoding,data}=spec;const timeField=config.timeField||encoding.x?.field;const valueField=config.valueField||encoding.y?.field;const seriesField=config.seriesField||encoding.color?.field;const offsetMode=config.offset||\"wiggle\";const curveMode=config.curve||\"basis\";const interactive=config.interactive!==false;if(!timeField||!valueField||!seriesField)return;const parsedData=data.map(d=>({...d,_date:parseDate(d[timeField]),_value:Number(d[valueField])||0,_series:String(d[seriesField])})).filter(d=>d._date!==null);if(parsedData.length===0)return;const seriesNames=[...new Set(parsedData.map(d=>d._series))];const dateMap=new Map;parsedData.forEach(d=>{const key=d._date.getTime();if(!dateMap.has(key))dateMap.set(key,{});dateMap.get(key)[d._series]=(dateMap.get(key)[d._series]||0)+d._value});const sortedTimes=[...dateMap.keys()].sort((a,b)=>a-b);if(sortedTimes.length===0)return;const wideData=sortedTimes.map(t=>{const row={_date:new Date(t)};const values=dateMap.get(t);seriesNames.forEach(name=>{row[name]=values[name]||0});return row});const offsetMap={wiggle:d3.stackOffsetWiggle,silhouette:d3.stackOffsetSilhouette,expand:d3.stackOffsetExpand};const curveMap={basis:d3.curveBasis,monotone:d3.curveMonotoneX,cardinal:d3.curveCardinal};const hasNegativeValues=wideData.some(row=>seriesNames.some(name=>row[name]<0));const stackOffset=hasNegativeValues?d3.stackOffsetDiverging:offsetMap[offsetMode]||d3.stackOffsetWiggle;const curve=curveMap[curveMode]||d3.curveBasis;const stackGen=d3.stack().keys(seriesNames).offset(stackOffset).order(d3.stackOrderInsideOut);const stacked=stackGen(wideData);if(parsedData.every(d=>d._value===0)){container.style.display=\"flex\";container.style.flexDirection=\"column\";container.style.background=DARK_BG;container.style.borderRadius=\"8px\";const chartWrapper2=document.createElement(\"div\");chartWrapper2.style.flex=\"1\";container.appendChild(chartWrapper2);const{svg:svg2,g:g2,dims:dims2}=createSvg(chartWrapper2,spec);svg2.style(\"background\",\"none\");renderEmptyState(g2,dims2);return}const colorScale=buildColorScale(encoding.color,data);container.style.display=\"flex\";container.style.flexDirection=\"column\";container.style.background=DARK_BG;container.style.borderRadius=\"8px\";container.style.overflow=\"hidden\";const chartWrapper=document.createElement(\"div\");chartWrapper.style.flex=\"1\";chartWrapper.style.minHeight=\"0\";container.appendChild(chartWrapper);const legendDiv=createLegend(colorScale);container.appendChild(legendDiv);const{svg,g,dims}=createSvg(chartWrapper,spec,{right:40,top:40,left:40,bottom:50});const tooltip=createTooltip(chartWrapper);if(sortedTimes.length<=1){const xMid=dims.innerWidth/2;const total=seriesNames.reduce((s,n)=>s+(wideData[0]?.[n]||0),0);const yScale2=d3.scaleLinear().domain([0,total||1]).range([dims.innerHeight,0]).nice();let yPos=20;seriesNames.forEach(name=>{const val=wideData[0]?.[name]||0;g.append(\"circle\").attr(\"cx\",xMid).attr(\"cy\",yPos).attr(\"r\",5).attr(\"fill\",colorScale(name));g.append(\"text\").attr(\"x\",xMid+12).attr(\"y\",yPos).attr(\"dominant-baseline\",\"central\").attr(\"fill\",TEXT_MUTED).attr(\"font-size\",\"11px\").attr(\"font-family\",\"Inter, system-ui, sans-serif\").text(`${name}: ${formatValue(val)}`);yPos+=24});return}const xScale=d3.scaleTime().domain(d3.extent(wideData,d=>d._date)).range([0,dims.innerWidth]);const yMin=d3.min(stacked,layer=>d3.min(layer,d=>d[0]));const yMax=d3.max(stacked,layer=>d3.max(layer,d=>d[1]));const yScale=d3.scaleLinear().domain([yMin,yMax]).range([dims.innerHeight,0]);let xTickCount=getAdaptiveTickCount(dims.innerWidth);if(wideData.length<xTickCount){xTickCount=wideData.length}const xAxis=g.append(\"g\").attr(\"class\",\"x-axis\").attr(\"transform\",`translate(0,${dims.innerHeight})`).call(d3.axisBottom(xScale).ticks(xTickCount).tickSize(0).tickPadding(8));styleAxis(xAxis);xAxis.selectAll(\".tick text\").attr(\"text-anchor\",\"end\").attr(\"dx\",\"-0.5em\").attr(\"dy\",\"0.15em\").attr(\"transform\",\"rotate(-35)\");if(offsetMode===\"expand\"){const yTickCount=getAdaptiveTickCount(dims.innerHeight,40);const yAxis=g.append(\"g\").attr(\"class\",\"y-axis\").call(d3.axisLeft(yScale).ticks(yTickCount).tickSize(-dims.innerWidth).tickPadding(8).tickFormat(d=>Math.round(d*100)+\"%\"));styleAxis(yAxis)}const areaGen=d3.area().x(d=>xScale(d.data._date)).y0(d=>yScale(d[0])).y1(d=>yScale(d[1])).curve(curve);const streams=g.selectAll(\".stream\").data(stacked).join(\"path\").attr(\"class\",\"stream\").attr(\"d\",areaGen).attr(\"fill\",d=>colorScale(d.key)).attr(\"opacity\",.85).attr(\"stroke\",DARK_BG).attr(\"stroke-width\",.5);if(interactive){addStreamInteraction(g,streams,stacked,wideData,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,legendDiv,offsetMode)}}function addStreamInteraction(g,streams,stacked,wideData,seriesNames,timeField,valueField,colorScale,xScale,yScale,dims,tooltip,legendDiv,offsetMode){const sortedDates=wideData.map(d=>d._date.getTime());const{crosshairLine,highlightDots,hoverArea}=createCrosshairGroup(g,dims);streams.attr(\"cursor\",\"pointer\").on(\"mouseover\",function(_event,d){const hoveredKey=d.key;streams.attr(\"opacity\",s=>s.key===hoveredKey?1:.2).attr(\"stroke-width\",s=>s.key===hoveredKey?1.5:.5);highlightLegendItem(legendDiv,hoveredKey)}).on(\"mousemove\",function(event,d){const[mx]=d3.pointer(event,g.node());const xDate=xScale.invert(mx).getTime();const hoveredKey=d.key;const idx=findNearestDateIndex(sortedDates,xDate);const nearestX=xScale(wideData[idx]._date);crosshairLine.attr(\"x1\",nearestX).attr(\"x2\",nearestX).attr(\"opacity\",1);highlightDots.selectAll(\"circle\").remove();const layer=stacked.find(l=>l.key===hoveredKey);if(layer){const pt=layer[idx];const midY=yScale((pt[0]+pt[1])/2);highlightDots.append(\"circle\").attr(\"cx\",nearestX).attr(\"cy\",midY).attr(\"r\",5).attr(\"fill\",colorScale(hoveredKey)).attr(\"stroke\",\"#fff\").attr(\"stroke-width\",2)}const dateStr=wideData[idx]._date.toLocaleDateString();const val=wideData[idx][hoveredKey]||0;let html=`<strong>${escapeHtml(hoveredKey)}</strong><br/>`;html+=`<span style=\"color:${escapeHtml(TEXT_MUTED)}\">${escapeHtml(dateStr)}</span><br/>`;html+=`${escapeHtml(valueField)}: ${escapeHtml(formatValue(val))}`;if(offsetMode===\"expand\"){const total=seriesNames.reduce((s,k)=>s+(wideData[idx][k]||0),0);if(total>0){const pct=escapeHtml((val/total*100).toFixed(1));html+=` (${pct}%)`}}showTooltip(tooltip,html,event)}).on(\"mouseout\",function(){streams.attr(\"opacity\",.85).attr(\"stroke-width\",.5);crosshairLine.attr(\"opacity\",0);highlightDots.selectAll(\"circle\").remove();hideTooltip(tooltip);highlightLegendItem(legendDiv,null)});hoverArea.style(\"pointer-events\",\"all\").lower().on(\"mousemove\",function(event){const[mx]=d3.pointer(event,g.node());const xDate=xScale.invert(mx).getTime();const idx=findNearestDateIndex(sortedDates,xDate);const nearestX=xScale(wideData[idx]._date);crosshairLine.attr(\"x1\",nearestX).attr(\"x2\",nearestX).attr(\"opacity\",1);highlightDots.selectAll(\"circle\").remove();const dateStr=wideData[idx]._date.toLocaleDateString();let html=`<strong>${escapeHtml(dateStr)}</strong>`;const sorted=[...seriesNames].map(name=>({name,value:wideData[idx][name]||0})).sort((a,b)=>b.value-a.value);sorted.forEach(s=>{const color=escapeHtml(colorScale(s.name));html+=`<br/><span style=\"display:inline-block;width:8px;height:8px;border-radius:2px;background:${color};margin-right:5px;vertical-align:middle;\"></span>${escapeHtml(s.name)}: ${escapeHtml(formatValue(s.value))}`});showTooltip(tooltip,html,event)}).on(\"mouseout\",function(){crosshairLine.attr(\"opacity\",0);highlightDots.selectAll(\"circle\").remove();hideTooltip(tooltip)})}return __toCommonJS(stream_graph_render_exports);})();\n\nvar renderChart = __dolex.renderChart;";
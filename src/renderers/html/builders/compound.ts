@@ -10,6 +10,7 @@
 
 import type { CompoundVisualizationSpec, VisualizationSpec } from '../../../types.js';
 import { buildChartHtml } from '../index.js';
+import { redactRows } from '../../../utils/pii.js';
 
 /**
  * JavaScript code for the data table renderer.
@@ -274,6 +275,7 @@ export function buildCompoundHtml(spec: CompoundVisualizationSpec): string {
     const fullChartSpec: VisualizationSpec = {
       ...chartView.chart,
       data: spec.data,
+      redaction: spec.redaction,
     } as VisualizationSpec;
     chartHtml = buildChartHtml(fullChartSpec);
     // Strip min-height so the chart fills its compound grid cell instead of
@@ -297,7 +299,9 @@ export function buildCompoundHtml(spec: CompoundVisualizationSpec): string {
   const MAX_EMBED_ROWS = 10_000;
   const tableSpecJson = safeJson(tableView?.table || {});
   const cappedData = spec.data && spec.data.length > MAX_EMBED_ROWS ? spec.data.slice(0, MAX_EMBED_ROWS) : spec.data;
-  const dataJson = safeJson(cappedData);
+  // The data table shows raw rows, so it is redacted the same way the chart is (see buildHtml).
+  const tableData = cappedData ? redactRows(cappedData, spec.redaction).rows : cappedData;
+  const dataJson = safeJson(tableData);
   const interactionsJson = safeJson(spec.interactions || []);
 
   return `<!DOCTYPE html>
@@ -12,6 +12,7 @@
  */
 
 import type { VisualizationSpec } from '../../types.js';
+import { redactRows } from '../../utils/pii.js';
 
 /**
  * Shared rendering utilities as standalone JavaScript.
@@ -571,7 +572,7 @@ function formatValue(v) {
 const MAX_EMBED_ROWS = 10_000;
 
 export function buildHtml(spec: VisualizationSpec, renderFunctionBody: string): string {
-  const cappedSpec = capDataRows(spec);
+  const cappedSpec = embeddableSpec(spec);
   const specJson = JSON.stringify(cappedSpec).replace(/<\//g, '<\\/');
 
   return `<!DOCTYPE html>
@@ -682,7 +683,7 @@ export function buildHtmlFromBundle(
   bundleCode: string,
   options?: { extraScripts?: string[] }
 ): string {
-  const cappedSpec = capDataRows(spec);
+  const cappedSpec = embeddableSpec(spec);
   const specJson = JSON.stringify(cappedSpec).replace(/<\//g, '<\\/');
   const extraScriptTags = (options?.extraScripts || [])
     .map(src => `<script src="${src}"><\/script>`)
@@ -775,9 +776,15 @@ document.addEventListener('DOMContentLoaded', function() {
 </html>`;
 }
 
-function capDataRows(spec: VisualizationSpec): VisualizationSpec {
-  if (!spec.data || spec.data.length <= MAX_EMBED_ROWS) return spec;
-  return { ...spec, data: spec.data.slice(0, MAX_EMBED_ROWS) };
+/**
+ * The spec as it goes into the page: data capped at MAX_EMBED_ROWS and redacted under
+ * `spec.redaction` (the default policy when absent), so personal data never lands in
+ * the HTML unless the source's policy allows it.
+ */
+function embeddableSpec(spec: VisualizationSpec): VisualizationSpec {
+  if (!spec.data) return spec;
+  const capped = spec.data.length > MAX_EMBED_ROWS ? spec.data.slice(0, MAX_EMBED_ROWS) : spec.data;
+  return { ...spec, data: redactRows(capped, spec.redaction).rows };
 }
 
 /** Escape HTML special characters for safe embedding in attributes/text. */
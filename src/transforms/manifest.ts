@@ -8,7 +8,7 @@
 import { existsSync, readFileSync, writeFileSync, renameSync, unlinkSync } from 'fs';
 import { dirname, basename, join, extname } from 'path';
 import type Database from 'better-sqlite3';
-import type { CsvSourceConfig } from '../types.js';
+import type { CsvSourceConfig, ExcelSourceConfig } from '../types.js';
 import type { ManifestData } from './types.js';
 import { manifestSchema } from './types.js';
 import { TransformMetadata } from './metadata.js';
@@ -19,11 +19,11 @@ import { parse } from './parser.js';
 import { extractColumnRefs } from './dependency.js';
 
 /** Resolve the manifest file path for a source config. */
-export function resolveManifestPath(config: CsvSourceConfig): string {
+export function resolveManifestPath(config: CsvSourceConfig | ExcelSourceConfig): string {
   const p = config.path.replace(/\/+$/, ''); // strip trailing slash
   const ext = extname(p);
   if (ext) {
-    // Single file: /data/experiment.csv → /data/experiment.dolex.json
+    // Single file: /data/experiment.csv (or .xlsx) → /data/experiment.dolex.json
     const dir = dirname(p);
     const base = basename(p, ext);
     return join(dir, `${base}.dolex.json`);
@@ -39,6 +39,23 @@ export interface DataTable {
   name: string;
   columns: DataColumn[];
   rowCount: number;
+  /** CSV tables: how the file was read (sniffed, or as overridden on the source config) */
+  dialect?: CsvDialect;
+  /** Mongo virtual tables: the collection whose array field at `path` this table unwinds. */
+  unwound?: { collection: string; path: string };
+}
+
+/** How a CSV file is parsed — detected from the head of the file unless overridden. */
+export interface CsvDialect {
+  /** Field separator: `,` `;` tab or `|`. */
+  delimiter: string;
+  quoteChar: string;
+  /** Text encoding, as a WHATWG label (`utf-8`, `windows-1252`, `utf-16le`). */
+  encoding: string;
+  /** The file starts with a byte-order mark. */
+  bom: boolean;
+  /** Preamble lines (titles, export notes) skipped before the header row. */
+  skipRows: number;
 }
 
 /** Enhanced table profile returned by load_csv — includes sample rows */
@@ -52,6 +69,29 @@ export interface ForeignKey {
   fromColumn: string;
   toTable: string;
   toColumn: string;
+  /**
+   * Inferred keys only (file sources): 0–1 belief that the join is real, from the
+   * value containment, name similarity and key shape in `evidence`. Absent for
+   * constraints the database declares.
+   */
+  confidence?: number;
+  evidence?: ForeignKeyEvidence;
+}
+
+/** What an inferred foreign key rests on — enough to decide whether to trust the join. */
+export interface ForeignKeyEvidence {
+  /** `exact` — same column name (case-insensitive); `similar` — same stem (cust_no ~ customer_number); `none` — values only. */
+  nameMatch: 'exact' | 'similar' | 'none';
+  /** Share of the "many" side's distinct values found in the "one" side (inclusion ratio). */
+  containment: number;
+  /** Distinct non-empty values in fromColumn. */
+  fromDistinct: number;
+  /** Distinct non-empty values in toColumn. */
+  toDistinct: number;
+  /** toColumn holds no duplicates — it can be the "one" side of a many-to-one join. */
+  toUnique: boolean;
+  /** Values only line up case- and whitespace-insensitively — join on LOWER(TRIM(…)). */
+  caseInsensitive?: boolean;
 }
 
 export interface DataSchema {
@@ -62,7 +102,7 @@ export interface DataSchema {
 
 // ─── DATA SOURCE TYPES ────────────────────────────────────────────────────────
 
-export type DataSourceType = 'csv' | 'postgres' | 'mongodb';
+export type DataSourceType = 'csv' | 'excel' | 'sqlite' | 'duckdb' | 'postgres' | 'mysql' | 'mongodb';
 
 export interface DataSourceInfo {
   id: string;
@@ -71,15 +111,78 @@ export interface DataSourceInfo {
   config: DataSourceConfig;
 }
 
-export type DataSourceConfig = CsvSourceConfig | PostgresSourceConfig | MongoSourceConfig;
+export type DataSourceConfig = CsvSourceConfig | ExcelSourceConfig | SqliteSourceConfig | DuckdbSourceConfig | PostgresSourceConfig | MysqlSourceConfig | MongoSourceConfig;
 
-export interface CsvSourceConfig {
+/**
+ * What a source does with personal data (emails, phone numbers, card numbers, IBANs,
+ * national IDs, names) before values leave the process — in schema samples, sample rows,
+ * query results and embedded chart data. Columns are redacted when their values look like
+ * personal data or when listed in `columns`; free text has the mentions inside it redacted.
+ * A source with no policy masks what it detects.
+ */
+export interface RedactionPolicy {
+  /** `mask` (default): keep a recognizable shape (`j***@example.com`, `************4242`);
+   *  `hash`: a digest keyed by the installation's secret (`redaction.key` in the state
+   *  directory), so values still group, count and join but can't be guessed back; `drop`:
+   *  leave the column out of rows and samples; `off`: send values as they are. */
+  mode?: 'mask' | 'hash' | 'drop' | 'off';
+  /** Columns always redacted, whatever their values look like. */
+  columns?: string[];
+  /** Columns never redacted — the explicit allowance to send their values. */
+  allow?: string[];
+}
+
+/** Settings every source type takes, whatever it connects to. */
+export interface SourceSettings {
+  /** How personal data is redacted before it leaves the process (default: mask what is detected). */
+  redaction?: RedactionPolicy;
+}
+
+export interface CsvSourceConfig extends SourceSettings {
   type: 'csv';
-  /** Directory containing CSV files, or path to a single CSV */
+  /** A data file (.csv, .parquet, .ndjson/.jsonl, .json), or a directory of them */
+  path: string;
+  /** CSV field separator; sniffed from the file when omitted. */
+  delimiter?: string;
+  /** CSV text encoding (`utf-8`, `latin1`, `windows-1252`, …); sniffed when omitted. */
+  encoding?: string;
+  /** Lines to skip before the CSV header row; sniffed when omitted. */
+  skipRows?: number;
+}
+
+export interface ExcelSourceConfig extends SourceSettings {
+  type: 'excel';
+  /** An .xlsx workbook — each worksheet loads as its own table */
+  path: string;
+}
+
+export interface SqliteSourceConfig extends SourceSettings {
+  type: 'sqlite';
+  /** A SQLite database file (.sqlite, .db, …) — opened read-only and queried in place */
+  path: string;
+}
+
+export interface DuckdbSourceConfig extends SourceSettings {
+  type: 'duckdb';
+  /** A data file (.csv, .parquet, .ndjson/.jsonl, .json), a directory of them, or a .duckdb
+   *  database — queried in place by DuckDB, nothing loaded */
   path: string;
 }
 
-export interface PostgresSourceConfig {
+/**
+ * Guardrails a live database source puts on the queries run against it. The connector runs
+ * each one in a read-only transaction and has the server cancel it past these limits.
+ */
+export interface QueryLimits {
+  /** Cancel a query still running after this many ms (default 30000; 0 disables). */
+  statementTimeoutMs?: number;
+  /** Cancel a query that waited this many ms for a lock (default 5000; 0 disables). Postgres / MySQL. */
+  lockTimeoutMs?: number;
+  /** Most rows one query result (or one page of it) returns (default 10000). */
+  maxRows?: number;
+}
+
+export interface PostgresSourceConfig extends QueryLimits, SourceSettings {
   type: 'postgres';
   /** libpq connection string, OR provide discrete fields below. */
   connectionString?: string;
@@ -96,7 +199,22 @@ export interface PostgresSourceConfig {
   schema?: string;
 }
 
-export interface MongoSourceConfig {
+export interface MysqlSourceConfig extends QueryLimits, SourceSettings {
+  type: 'mysql';
+  /** mysql:// connection URI (its path names the database), OR provide discrete fields below. */
+  connectionString?: string;
+  host?: string;
+  port?: number;
+  /** Database to introspect (required unless the URI names one). */
+  database?: string;
+  user?: string;
+  /** Literal password. Stored in the registry — prefer `passwordEnv` to keep the secret out of the file. */
+  password?: string;
+  /** Name of an environment variable holding the password (e.g. "MYSQL_PWD"). Only the reference is stored. */
+  passwordEnv?: string;
+}
+
+export interface MongoSourceConfig extends QueryLimits, SourceSettings {
   type: 'mongodb';
   /** Mongo connection URI, OR provide discrete host/port below. */
   uri?: string;
@@ -106,6 +224,8 @@ export interface MongoSourceConfig {
   database: string;
   /** Restrict to these collections; omitted ⇒ all collections in the database. */
   collections?: string[];
+  /** Embedded-object levels profiled as dotted-path columns (default 3; 0 = top-level fields only, no array tables). */
+  flattenDepth?: number;
 }
 
 // ─── ROW FILTER TYPES ────────────────────────────────────────────────────────
@@ -210,6 +330,22 @@ export interface VisualizationSpec {
   };
   /** Pattern-specific configuration */
   config: Record<string, any>;
+  /** The redaction policy of the source the data came from; embedded data is redacted
+   *  under it (or under the default when absent) — see buildHtml. */
+  redaction?: RedactionPolicy;
+}
+
+/**
+ * A marked moment on a time-series chart (line / area `config.annotations`): a point anomaly
+ * circled at its value, or a change point drawn as a vertical rule.
+ */
+export interface TimeAnnotation {
+  /** The period, in the same form as the chart's time field. */
+  date: string;
+  kind: 'point' | 'change';
+  label: string;
+  /** Point annotations: the value to mark. */
+  value?: number;
 }
 
 export interface AxisEncoding {
@@ -341,6 +477,9 @@ export interface CompoundVisualizationSpec {
 
   /** Interaction links between views */
   interactions: Interaction[];
+
+  /** The redaction policy of the source the data came from (see VisualizationSpec.redaction). */
+  redaction?: RedactionPolicy;
 }
 
 /** A single view within a compound visualization */
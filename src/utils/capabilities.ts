@@ -34,14 +34,18 @@ export interface CapabilitiesReport {
   platform: string;
   coreOk: boolean;
   /** Per source type: 'ready' or an actionable 'needs: npm install …'. The agent's key question. */
-  sources: { csv: string; postgres: string; mongodb: string };
+  sources: { csv: string; parquet: string; excel: string; sqlite: string; duckdb: string; postgres: string; mysql: string; mongodb: string };
   deps: CapabilityDep[];
   python: { available: boolean; version?: string; enables: string; install?: string };
 }
 
 const PROBES: { key: OptionalFeatureKey; spec: string; enables: string }[] = [
   { key: 'postgres', spec: 'pg', enables: 'Postgres data sources' },
+  { key: 'mysql', spec: 'mysql2', enables: 'MySQL / MariaDB data sources' },
   { key: 'mongodb', spec: 'mongodb', enables: 'MongoDB data sources' },
+  { key: 'parquet', spec: 'hyparquet', enables: 'Parquet files' },
+  { key: 'excel', spec: 'exceljs', enables: 'Excel workbooks' },
+  { key: 'duckdb', spec: '@duckdb/node-api', enables: 'DuckDB data sources' },
   { key: 'png', spec: 'playwright', enables: 'PNG / screenshot export' },
   { key: 'mcp', spec: '@modelcontextprotocol/sdk', enables: 'the MCP server (`dolex mcp`)' },
 ];
@@ -67,7 +71,12 @@ export function probeCapabilities(): CapabilitiesReport {
     dolexVersion, node: process.version, platform: process.platform, coreOk,
     sources: {
       csv: coreOk ? 'ready' : 'core missing — reinstall dolex',
+      parquet: !coreOk ? 'core missing — reinstall dolex' : has('hyparquet') ? 'ready' : 'needs: npm install hyparquet',
+      excel: !coreOk ? 'core missing — reinstall dolex' : has('exceljs') ? 'ready' : 'needs: npm install exceljs',
+      sqlite: coreOk ? 'ready' : 'core missing — reinstall dolex',
+      duckdb: has('@duckdb/node-api') ? 'ready' : 'needs: npm install @duckdb/node-api',
       postgres: has('pg') ? 'ready' : 'needs: npm install pg',
+      mysql: has('mysql2') ? 'ready' : 'needs: npm install mysql2',
       mongodb: has('mongodb') ? 'ready' : 'needs: npm install mongodb',
     },
     deps, python,
@@ -31,10 +31,26 @@ export const OPTIONAL_FEATURES = {
     feature: 'Postgres data sources',
     install: 'npm install pg',
   },
+  mysql: {
+    feature: 'MySQL / MariaDB data sources',
+    install: 'npm install mysql2',
+  },
   mongodb: {
     feature: 'MongoDB data sources',
     install: 'npm install mongodb',
   },
+  parquet: {
+    feature: 'Parquet files',
+    install: 'npm install hyparquet',
+  },
+  excel: {
+    feature: 'Excel workbooks',
+    install: 'npm install exceljs',
+  },
+  duckdb: {
+    feature: 'DuckDB data sources',
+    install: 'npm install @duckdb/node-api',
+  },
 } as const satisfies Record<string, OptionalFeature>;
 
 export type OptionalFeatureKey = keyof typeof OPTIONAL_FEATURES;
@@ -0,0 +1,414 @@
+/**
+ * Personal-data detection and redaction.
+ *
+ * Detection reads values, not just column names: an email address, a Luhn-valid card
+ * number, a mod-97-valid IBAN, a US SSN or a UK National Insurance number is recognized
+ * by its shape and checksum; a phone number by its shape (or a phone-like column name);
+ * a personal name only in a column named for one (first_name, customer_name, …) or, in
+ * free text, after an honorific (Mr, Dr, …). `classifyPiiColumn` decides from a sample
+ * whether a column holds personal data; `piiMentions` finds it inside free text.
+ *
+ * Redaction applies a source's RedactionPolicy to rows (`redactRows`) and to a schema's
+ * sample and top values (`redactSchema`). It is idempotent — a masked or hashed value no
+ * longer looks like personal data — so data redacted by the SourceManager can pass
+ * through buildHtml's redaction again unchanged.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DataColumn, DataSchema, RedactionPolicy } from '../types.js';
+
+export type PiiKind = 'email' | 'phone' | 'credit-card' | 'iban' | 'national-id' | 'name';
+
+/** Why a column is redacted: it holds a kind of personal data, or the policy lists it. */
+export type RedactionTarget = PiiKind | 'listed';
+
+/** Plural noun for each kind, for findings and notes. */
+export const PII_LABELS: Record<PiiKind, string> = {
+  email: 'email addresses',
+  phone: 'phone numbers',
+  'credit-card': 'payment card numbers',
+  iban: 'IBANs',
+  'national-id': 'national ID numbers',
+  name: 'personal names',
+};
+
+// ─── Detection ───────────────────────────────────────────────────────────────
+
+const EMAIL = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}$/;
+const CARD_SHAPE = /^\d(?:[ -]?\d){12,18}$/;
+// Issuer prefixes: Visa, Mastercard (51–55, 2221–2720), Amex, JCB, Discover.
+const CARD_ISSUER = /^(?:4|5[1-5]|2[2-7]|3[47]|35|6011|65)/;
+const IBAN_SHAPE = /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/;
+// US SSN: area 000, 666 and 900–999, group 00 and serial 0000 are never issued.
+const SSN = /^(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}$/;
+const NINO = /^(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]$/;
+// A formatted phone number: an international prefix, or three or more digit groups.
+const PHONE_INTL = /^\+\d[\d\s().-]{6,}$/;
+const PHONE_GROUPED = /^\(?\d{2,4}\)?[\s.-]\d{2,4}[\s.-]\d{2,4}(?:[\s.-]\d{2,4})?$/;
+const IPV4 = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+const NAME_WORD = /^\p{Lu}[\p{L}'’.-]*$/u;
+
+const PHONE_COLUMN = /(?:^|_)(?:phone|mobile|cell|tel|telephone|fax)(?:_|$)/;
+const NATIONAL_ID_COLUMN = /(?:^|_)(?:ssn|social_security|national_id|nino|national_insurance|tax_id|tin)(?:_|$)/;
+const NAME_COLUMN = /(?:^|_)(?:first|last|full|given|family|middle|maiden|legal|contact|customer|client|patient|employee|person|member|student|author|recipient|sender|holder|cardholder)_?names?$|^(?:surname|forename|firstname|lastname|fullname)$/;
+
+/** snake_case, lowercase — `customerName` and `Customer Name` both read as `customer_name`. */
+function normalizeColumn(name: string): string {
+  return name.replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function digitsOf(s: string): string {
+  return s.replace(/\D/g, '');
+}
+
+/** The Luhn checksum every payment card number carries. */
+export function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = digits.charCodeAt(digits.length - 1 - i) - 48;
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/** ISO 13616: move the country code and check digits to the end, read letters as 10–35, mod 97 = 1. */
+export function ibanValid(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!IBAN_SHAPE.test(iban)) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const n = ch >= 'A' ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const d of n) remainder = (remainder * 10 + (d.charCodeAt(0) - 48)) % 97;
+  }
+  return remainder === 1;
+}
+
+function isCard(s: string): boolean {
+  if (!CARD_SHAPE.test(s)) return false;
+  const digits = digitsOf(s);
+  return CARD_ISSUER.test(digits) && luhnValid(digits);
+}
+
+function isNationalId(s: string): boolean {
+  return SSN.test(s) || NINO.test(s.toUpperCase());
+}
+
+function isPhone(s: string): boolean {
+  const n = digitsOf(s).length;
+  if (n < 9 || n > 15 || IPV4.test(s)) return false;
+  return PHONE_INTL.test(s) || PHONE_GROUPED.test(s);
+}
+
+/** One to four capitalized words with some lowercase in them — `Ada Lovelace`, `O'Neil`. */
+function looksLikeName(s: string): boolean {
+  if (s.length > 60 || /\d/.test(s) || !/\p{Ll}/u.test(s)) return false;
+  const words = s.split(/\s+/);
+  return words.length <= 4 && words.every((w) => NAME_WORD.test(w));
+}
+
+interface ColumnHints {
+  phone: boolean;
+  nationalId: boolean;
+  name: boolean;
+}
+
+function columnHints(column = ''): ColumnHints {
+  const name = normalizeColumn(column);
+  return { phone: PHONE_COLUMN.test(name), nationalId: NATIONAL_ID_COLUMN.test(name), name: NAME_COLUMN.test(name) };
+}
+
+function detect(value: unknown, hints: ColumnHints): PiiKind | null {
+  if (value === null || value === undefined || typeof value === 'object' || typeof value === 'boolean') return null;
+  const s = String(value).trim();
+  if (s.length < 5) return null;
+  if (EMAIL.test(s)) return 'email';
+  if (isCard(s)) return 'credit-card';
+  if (ibanValid(s)) return 'iban';
+  if (isNationalId(s) || (hints.nationalId && /^\d{9}$/.test(s))) return 'national-id';
+  if (isPhone(s) || (hints.phone && /^\+?\d{9,15}$/.test(s))) return 'phone';
+  if (hints.name && looksLikeName(s)) return 'name';
+  return null;
+}
+
+/**
+ * The kind of personal data a whole value is, or null. `column` lends its name as a hint:
+ * bare digits count as a phone number or national ID only in a column named for one, and
+ * a name only in a name column.
+ */
+export function detectPii(value: unknown, column?: string): PiiKind | null {
+  return detect(value, columnHints(column));
+}
+
+const CLASSIFY_SAMPLE = 200;
+const CLASSIFY_RATE = 0.8;
+const CLASSIFY_NAME_RATE = 0.6; // names vary more (initials, particles, single-word entries)
+
+/**
+ * Does a column hold personal data? Reads up to 200 non-empty values; the column is a
+ * kind when at least 80% of them are (60% for names). Returns the match counts too, so
+ * a finding can say how much of the sample matched.
+ */
+export function classifyPiiColumn(
+  column: string,
+  values: unknown[],
+): { kind: PiiKind; matches: number; sampled: number } | null {
+  const hints = columnHints(column);
+  const tally = new Map<PiiKind, number>();
+  let sampled = 0;
+  for (const v of values) {
+    if (sampled >= CLASSIFY_SAMPLE) break;
+    if (v === null || v === undefined || String(v).trim() === '') continue;
+    sampled++;
+    const kind = detect(v, hints);
+    if (kind) tally.set(kind, (tally.get(kind) ?? 0) + 1);
+  }
+  let best: { kind: PiiKind; matches: number } | null = null;
+  for (const [kind, matches] of tally) if (!best || matches > best.matches) best = { kind, matches };
+  if (!best || sampled === 0) return null;
+  const rate = best.kind === 'name' ? CLASSIFY_NAME_RATE : CLASSIFY_RATE;
+  return best.matches / sampled >= rate ? { ...best, sampled } : null;
+}
+
+const MENTION_PATTERNS: { kind: PiiKind; pattern: RegExp; valid?: (match: string) => boolean }[] = [
+  { kind: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g },
+  { kind: 'credit-card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, valid: isCard },
+  { kind: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, valid: ibanValid },
+  { kind: 'national-id', pattern: /\b\d{3}-\d{2}-\d{4}\b/g, valid: (m) => SSN.test(m) },
+  // The honorific stays; the name after it is the personal data.
+  { kind: 'name', pattern: /(?<=\b(?:Mr|Mrs|Ms|Miss|Mx|Dr|Prof)\.?\s+)\p{Lu}\p{Ll}+(?:\s+\p{Lu}\p{Ll}+)?/gu },
+];
+// Cheap pre-filter: most cells have none of these, and skip the scan.
+const MENTION_HINT = /@|\d{3}|\b(?:Mr|Mrs|Ms|Miss|Mx|Dr|Prof)\b/;
+
+/**
+ * Personal data mentioned inside free text — email addresses, card numbers, IBANs, SSNs,
+ * and names after an honorific. Phone numbers are left out: inside prose they can't be
+ * told from other numbers.
+ */
+export function piiMentions(text: string): { kind: PiiKind; match: string; index: number }[] {
+  if (!MENTION_HINT.test(text)) return [];
+  const found: { kind: PiiKind; match: string; index: number }[] = [];
+  for (const { kind, pattern, valid } of MENTION_PATTERNS) {
+    for (const m of text.matchAll(pattern)) {
+      const overlaps = found.some((f) => m.index! < f.index + f.match.length && f.index < m.index! + m[0].length);
+      if (!overlaps && (!valid || valid(m[0]))) found.push({ kind, match: m[0], index: m.index! });
+    }
+  }
+  return found.sort((a, b) => a.index - b.index);
+}
+
+// ─── Redaction ───────────────────────────────────────────────────────────────
+
+const HASHED = /^#[0-9a-f]{12}$/;
+const KEY_FILE = 'redaction.key';
+
+// The HMAC key `hash` digests under: the installation's (loadRedactionKey), else one made
+// for this process — unguessable either way, but only the installation's is stable across runs.
+let hashKey: Buffer = randomBytes(32);
+
+/**
+ * Hash under the installation's secret key, kept in `<dir>/redaction.key` and created
+ * (owner-only) on first use, so hashed values stay equal from one run to the next but
+ * can't be recomputed from a guess without the key.
+ */
+export function loadRedactionKey(dir: string): void {
+  const file = path.join(dir, KEY_FILE);
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(file, randomBytes(32).toString('hex'), { flag: 'wx', mode: 0o600 });
+  } catch (err: any) {
+    if (err.code !== 'EEXIST') throw err;
+  }
+  const key = Buffer.from(fs.readFileSync(file, 'utf-8').trim(), 'hex');
+  if (key.length < 32) throw new Error(`${file} is not a redaction key (64 hex digits) — delete it to make a new one.`);
+  hashKey = key;
+}
+
+/** Replace every letter and digit but the last `keep` with `*`, leaving separators. */
+function keepLast(s: string, keep: number): string {
+  let left = keep;
+  return [...s].reverse().map((ch) => (/[\p{L}\p{N}]/u.test(ch) ? (left-- > 0 ? ch : '*') : ch)).reverse().join('');
+}
+
+/**
+ * One value, masked (keeping a recognizable shape) or hashed (a 12-hex HMAC-SHA-256
+ * digest under the installation's key, so equal values stay equal). Null and empty
+ * values pass through.
+ */
+export function redactValue(value: unknown, target: RedactionTarget, mode: 'mask' | 'hash'): unknown {
+  if (value === null || value === undefined || value === '') return value;
+  const s = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (mode === 'hash') return HASHED.test(s) ? s : `#${createHmac('sha256', hashKey).update(s).digest('hex').slice(0, 12)}`;
+  switch (target) {
+    case 'email': {
+      const at = s.lastIndexOf('@');
+      return at > 0 ? `${s[0]}***${s.slice(at)}` : keepLast(s, 0);
+    }
+    case 'credit-card':
+    case 'iban':
+      return keepLast(s, 4);
+    case 'phone':
+      return keepLast(s, 2);
+    case 'name':
+      return s.split(/\s+/).filter(Boolean).map((w) => `${[...w][0]}.`).join(' ');
+    default:
+      return keepLast(s, 0);
+  }
+}
+
+/** Redact the personal data mentioned in free text, leaving the rest of it. */
+export function scrubText(text: string, mode: 'mask' | 'hash' | 'drop'): string {
+  const mentions = piiMentions(text);
+  if (mentions.length === 0) return text;
+  let out = '';
+  let at = 0;
+  for (const m of mentions) {
+    out += text.slice(at, m.index) + (mode === 'drop' ? '[redacted]' : String(redactValue(m.match, m.kind, mode)));
+    at = m.index + m.match.length;
+  }
+  return out + text.slice(at);
+}
+
+/**
+ * The columns `policy` redacts, each with why: listed by the policy, or classified as
+ * personal data from its values. Allowed columns never appear; `off` redacts nothing.
+ * Column names match case-insensitively.
+ */
+export function redactionPlan(
+  columns: string[],
+  valuesOf: (column: string) => unknown[],
+  policy: RedactionPolicy = {},
+): Map<string, RedactionTarget> {
+  const plan = new Map<string, RedactionTarget>();
+  if (policy.mode === 'off') return plan;
+  const allow = new Set((policy.allow ?? []).map((c) => c.toLowerCase()));
+  const listed = new Set((policy.columns ?? []).map((c) => c.toLowerCase()));
+  for (const column of columns) {
+    const key = column.toLowerCase();
+    if (allow.has(key)) continue;
+    if (listed.has(key)) {
+      plan.set(column, 'listed');
+      continue;
+    }
+    const found = classifyPiiColumn(column, valuesOf(column));
+    if (found) plan.set(column, found.kind);
+  }
+  return plan;
+}
+
+/**
+ * What `policy` redacts in the source itself — each schema column listed by it or
+ * classified from its sample and top values — keyed by lowercased column name.
+ */
+export function sourceRedactionPlan(schema: { tables: { columns: DataColumn[] }[] }, policy: RedactionPolicy = {}): Map<string, RedactionTarget> {
+  const plan = new Map<string, RedactionTarget>();
+  for (const table of schema.tables) {
+    const byName = new Map(table.columns.map((c) => [c.name, c]));
+    for (const [column, target] of redactionPlan([...byName.keys()], (name) => schemaValues(byName.get(name)!), policy)) {
+      plan.set(column.toLowerCase(), target);
+    }
+  }
+  return plan;
+}
+
+function schemaValues(column: DataColumn): unknown[] {
+  return [...(column.sampleValues ?? []), ...(column.topValues ?? []).map((t) => t.value)];
+}
+
+/**
+ * Apply `policy` to result rows: whole columns of personal data are masked, hashed or
+ * dropped; in the other columns, personal data mentioned inside text is redacted.
+ * `inherited` carries targets decided upstream — a result column made from a redacted
+ * source column — and wins over the policy's allowances on the result's own names.
+ * Returns new rows (the input is untouched), the columns left, and the redacted ones.
+ */
+export function redactRows(
+  rows: Record<string, any>[],
+  policy: RedactionPolicy = {},
+  columns?: string[],
+  inherited?: Map<string, RedactionTarget>,
+): { rows: Record<string, any>[]; columns?: string[]; redacted: string[] } {
+  const mode = policy.mode ?? 'mask';
+  if (mode === 'off' || rows.length === 0) return { rows, columns, redacted: [] };
+
+  const names = columns ?? [...new Set(rows.slice(0, CLASSIFY_SAMPLE).flatMap((r) => Object.keys(r)))];
+  const head = rows.slice(0, CLASSIFY_SAMPLE);
+  const plan = redactionPlan(names, (c) => head.map((r) => r[c]), policy);
+  for (const [column, target] of inherited ?? []) if (!plan.has(column)) plan.set(column, target);
+  const allow = new Set((policy.allow ?? []).map((c) => c.toLowerCase()));
+  const free = names.filter((c) => !plan.has(c) && !allow.has(c.toLowerCase()));
+  const scrubbed = new Set<string>();
+
+  const out = rows.map((row) => {
+    const next: Record<string, any> = { ...row };
+    for (const [column, target] of plan) {
+      if (mode === 'drop') delete next[column];
+      else if (column in next) next[column] = redactValue(next[column], target, mode);
+    }
+    for (const column of free) {
+      const v = next[column];
+      if (typeof v !== 'string') continue;
+      const clean = scrubText(v, mode);
+      if (clean !== v) {
+        next[column] = clean;
+        scrubbed.add(column);
+      }
+    }
+    return next;
+  });
+
+  return {
+    rows: out,
+    columns: mode === 'drop' ? columns?.filter((c) => !plan.has(c)) : columns,
+    redacted: names.filter((c) => plan.has(c) || scrubbed.has(c)),
+  };
+}
+
+/**
+ * A copy of `schema` with `policy` applied to its sample and top values — the schema
+ * itself is untouched, so a connector's cached schema keeps its real values for the
+ * in-process readers (the audit). Masked top values that collapse together are merged,
+ * counts summed; a dropped column keeps its name and profile but loses its values.
+ */
+export function redactSchema(schema: DataSchema, policy: RedactionPolicy = {}): DataSchema {
+  if ((policy.mode ?? 'mask') === 'off') return schema;
+  return { ...schema, tables: schema.tables.map((table) => ({ ...table, columns: redactColumns(table.columns, policy) })) };
+}
+
+/** One table's columns, redacted as `redactSchema` does — copies, the input is untouched. */
+export function redactColumns(columns: DataColumn[], policy: RedactionPolicy = {}): DataColumn[] {
+  const mode = policy.mode ?? 'mask';
+  if (mode === 'off') return columns;
+  const allow = new Set((policy.allow ?? []).map((c) => c.toLowerCase()));
+  const byName = new Map(columns.map((c) => [c.name, c]));
+  const plan = redactionPlan([...byName.keys()], (name) => schemaValues(byName.get(name)!), policy);
+  return columns.map((source): DataColumn => {
+    const column: DataColumn = { ...source };
+    const target = plan.get(column.name);
+    if (target && mode === 'drop') {
+      column.sampleValues = [];
+      delete column.topValues;
+    } else if (target || !allow.has(column.name.toLowerCase())) {
+      const redact = target && mode !== 'drop'
+        ? (v: string): string => String(redactValue(v, target, mode))
+        : (v: string): string => scrubText(String(v), mode);
+      if (column.sampleValues) column.sampleValues = [...new Set(column.sampleValues.map(redact))];
+      if (column.topValues) {
+        const merged = new Map<string, number>();
+        for (const t of column.topValues) {
+          const v = redact(t.value);
+          merged.set(v, (merged.get(v) ?? 0) + t.count);
+        }
+        column.topValues = [...merged].map(([value, count]) => ({ value, count }));
+      }
+    }
+    return column;
+  });
+}